@@ -88,6 +88,7 @@ const CheckInMeeting = lazy(() => import("@/pages/CheckInMeeting"));
 const Objectives = lazy(() => import("@/pages/strategy/Objectives"));
 const StrategyTasks = lazy(() => import("@/pages/strategy/Tasks"));
 const WorkItems = lazy(() => import("@/pages/strategy/WorkItems"));
+const TimeReport = lazy(() => import("@/pages/strategy/TimeReport"));
 const StrategySettings = lazy(() => import("@/pages/strategy/StrategySettings"));
 const TemplateWorkItemView = lazy(() => import("@/components/work-items/TemplateWorkItemView"));
 
@@ -579,6 +580,7 @@ function AppContent() {
               <Route path="/strategy/objectives" component={Objectives} />
               <Route path="/strategy/tasks" component={StrategyTasks} />
               <Route path="/strategy/work-items" component={WorkItems} />
+              <Route path="/strategy/work-items/time" component={TimeReport} />
               <Route path="/work-items/template/:templateId">
                 {(params) => <TemplateWorkItemView templateId={params.templateId} />}
               </Route>
@@ -0,0 +1,142 @@
+import { useEffect, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import type { Integration } from '@shared/schema';
+
+interface IntegrationResilienceSettingsProps {
+  integration: Integration;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type ResilienceField = 'rateLimitPerMinute' | 'timeoutSeconds' | 'failureThreshold' | 'cooldownSeconds';
+
+const FIELDS: Array<{ key: ResilienceField; label: string; placeholder: string; help: string }> = [
+  {
+    key: 'rateLimitPerMinute',
+    label: 'Rate limit (calls per minute)',
+    placeholder: 'Unlimited',
+    help: 'Workflow calls are spaced out to stay under this limit.',
+  },
+  {
+    key: 'timeoutSeconds',
+    label: 'Timeout (seconds)',
+    placeholder: '30',
+    help: 'Calls that take longer than this fail and may be retried.',
+  },
+  {
+    key: 'failureThreshold',
+    label: 'Failures before pausing',
+    placeholder: '5',
+    help: 'Consecutive timeouts or server errors that open the circuit breaker.',
+  },
+  {
+    key: 'cooldownSeconds',
+    label: 'Pause duration (seconds)',
+    placeholder: '60',
+    help: 'How long calls stay paused before a single trial call is let through.',
+  },
+];
+
+export function IntegrationResilienceSettings({ integration, open, onOpenChange }: IntegrationResilienceSettingsProps) {
+  const { toast } = useToast();
+  const [values, setValues] = useState<Record<ResilienceField, string>>({
+    rateLimitPerMinute: '',
+    timeoutSeconds: '',
+    failureThreshold: '',
+    cooldownSeconds: '',
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    const config = integration.resilienceConfig || {};
+    setValues({
+      rateLimitPerMinute: config.rateLimitPerMinute?.toString() ?? '',
+      timeoutSeconds: config.timeoutSeconds?.toString() ?? '',
+      failureThreshold: config.failureThreshold?.toString() ?? '',
+      cooldownSeconds: config.cooldownSeconds?.toString() ?? '',
+    });
+  }, [open, integration]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      // Blank fields are sent as null so the server falls back to the default
+      const body = Object.fromEntries(
+        FIELDS.map(({ key }) => [key, values[key].trim() === '' ? null : Number(values[key])])
+      );
+      return apiRequest(`/api/integrations/${integration.id}/resilience`, {
+        method: 'PATCH',
+        body,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Settings saved',
+        description: `Call limits for ${integration.name} have been updated.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/integrations'] });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Failed to save settings',
+        description: error?.message || 'Please check the values and try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const hasInvalidValue = FIELDS.some(({ key }) => {
+    const value = values[key].trim();
+    return value !== '' && !(Number(value) > 0);
+  });
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Call Limits</SheetTitle>
+          <SheetDescription>
+            Rate limit, timeout and circuit breaker settings used when workflows call {integration.name}. Leave a field blank to use the default.
+          </SheetDescription>
+        </SheetHeader>
+        <div className="space-y-4 mt-6">
+          {FIELDS.map(({ key, label, placeholder, help }) => (
+            <div key={key} className="space-y-1">
+              <Label htmlFor={`resilience-${key}`}>{label}</Label>
+              <Input
+                id={`resilience-${key}`}
+                type="number"
+                min={1}
+                placeholder={placeholder}
+                value={values[key]}
+                onChange={(e) => setValues(prev => ({ ...prev, [key]: e.target.value }))}
+                data-testid={`input-resilience-${key}`}
+              />
+              <p className="text-xs text-muted-foreground">{help}</p>
+            </div>
+          ))}
+          <Button
+            className="w-full"
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || hasInvalidValue}
+            data-testid="button-save-resilience"
+          >
+            {saveMutation.isPending ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,514 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Database, RefreshCw, Link2, Unlink, Pencil, CheckCircle2, AlertCircle, ChevronDown, ChevronRight } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import DataSourceQueryBuilder, { type DataSourceQueryConfig } from '@/components/workflow/DataSourceQueryBuilder';
+import SplynxQueryBuilder, { type SplynxQueryConfig } from '@/components/workflow/SplynxQueryBuilder';
+import type { KeyResultDataBinding, KeyResultSnapshot } from '@shared/schema';
+import {
+  DATA_BINDING_SOURCE_LABELS,
+  XERO_PERIOD_LABELS,
+  XERO_REPORT_LABELS,
+  describeDataBinding,
+  type DataBindingLineage,
+  type DataBindingSourceType,
+  type XeroReportBindingConfig,
+} from '@shared/keyResultDataBinding';
+
+interface DataBindingResponse {
+  binding: KeyResultDataBinding | null;
+  refreshes: KeyResultSnapshot[];
+}
+
+interface KeyResultDataBindingProps {
+  keyResultId: number;
+  canEdit: boolean;
+}
+
+const SCHEDULE_PRESETS = [
+  { value: '0 * * * *', label: 'Every hour' },
+  { value: '0 6 * * *', label: 'Daily at 06:00' },
+  { value: '0 6 * * 1', label: 'Weekly on Monday at 06:00' },
+  { value: '0 6 1 * *', label: 'Monthly on the 1st at 06:00' },
+];
+
+const DEFAULT_CONFIGS: Record<DataBindingSourceType, Record<string, any>> = {
+  data_table: { sourceTable: '', queryConfig: { filters: [], aggregation: 'count' } },
+  xero_report: { report: 'ProfitAndLoss', period: 'this_month', lineLabel: '', column: 1 },
+  splynx_count: { entity: 'customers', filters: [] },
+};
+
+function formatLineageValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (Array.isArray(value)) {
+    if (value.length === 0) return 'none';
+    return value.map(item => (item && typeof item === 'object' && 'field' in item)
+      ? `${item.field} ${item.operator} ${item.value ?? ''}`.trim()
+      : JSON.stringify(item)).join('; ');
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function LineageDetails({ lineage }: { lineage: DataBindingLineage }) {
+  return (
+    <dl className="mt-2 grid grid-cols-3 gap-x-2 gap-y-1 text-xs">
+      {Object.entries(lineage.source || {}).map(([key, value]) => (
+        <div key={key} className="contents">
+          <dt className="text-muted-foreground">{key}</dt>
+          <dd className="col-span-2 font-mono break-all">{formatLineageValue(value)}</dd>
+        </div>
+      ))}
+      <dt className="text-muted-foreground">raw value</dt>
+      <dd className="col-span-2 font-mono break-all">{formatLineageValue(lineage.rawValue)}</dd>
+      <dt className="text-muted-foreground">trigger</dt>
+      <dd className="col-span-2">{lineage.trigger === 'schedule' ? 'Scheduled refresh' : 'Manual refresh'}</dd>
+    </dl>
+  );
+}
+
+/**
+ * Data binding section of the key result detail panel: where the current value
+ * comes from, when it was last refreshed and the lineage of recent refreshes.
+ */
+export function KeyResultDataBinding({ keyResultId, canEdit }: KeyResultDataBindingProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [expandedSnapshot, setExpandedSnapshot] = useState<number | null>(null);
+
+  const bindingUrl = `/api/strategy/key-results/${keyResultId}/data-binding`;
+  const { data, isLoading } = useQuery<DataBindingResponse>({
+    queryKey: [bindingUrl],
+  });
+
+  const binding = data?.binding;
+  const refreshes = data?.refreshes || [];
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [bindingUrl] });
+    queryClient.invalidateQueries({ queryKey: [`/api/strategy/key-results-bypass/${keyResultId}`] });
+    queryClient.invalidateQueries({ queryKey: ['/api/strategy/objectives'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/strategy/key-results'] });
+  };
+
+  const refreshMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(`${bindingUrl}/refresh`, { method: 'POST' });
+      return response.json();
+    },
+    onSuccess: (snapshot: KeyResultSnapshot) => {
+      toast({ title: 'Refreshed', description: `Current value is now ${snapshot.currentValue}.` });
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast({ title: 'Refresh failed', description: error?.message || 'Unable to read the bound metric.', variant: 'destructive' });
+      invalidate();
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: () => apiRequest(bindingUrl, { method: 'DELETE' }),
+    onSuccess: () => {
+      toast({ title: 'Data binding removed', description: 'The current value can be updated manually again.' });
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error?.message || 'Failed to remove data binding', variant: 'destructive' });
+    },
+  });
+
+  if (isLoading) {
+    return <p className="text-xs text-muted-foreground">Loading data source...</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-600 uppercase tracking-wider">Data Source</h3>
+        {canEdit && (
+          <Button variant="outline" size="sm" className="h-7" onClick={() => setEditorOpen(true)} data-testid="button-edit-data-binding">
+            {binding ? <Pencil className="h-3 w-3 mr-1" /> : <Link2 className="h-3 w-3 mr-1" />}
+            {binding ? 'Edit' : 'Bind to data'}
+          </Button>
+        )}
+      </div>
+
+      {!binding ? (
+        <p className="text-xs text-muted-foreground">
+          Updated manually. Bind this key result to a data table query, a Xero report line or a Splynx count to refresh it automatically.
+        </p>
+      ) : (
+        <div className="rounded-md border p-3 space-y-2">
+          <div className="flex items-start gap-2">
+            <Database className="h-4 w-4 mt-0.5 text-blue-500 shrink-0" />
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-medium">{describeDataBinding(binding.sourceType, binding.sourceConfig)}</div>
+              <div className="text-xs text-muted-foreground">
+                {DATA_BINDING_SOURCE_LABELS[binding.sourceType as DataBindingSourceType] || binding.sourceType}
+                {' · '}
+                {SCHEDULE_PRESETS.find(preset => preset.value === binding.cronExpression)?.label || binding.cronExpression} ({binding.timezone})
+                {!binding.isEnabled && ' · paused'}
+              </div>
+            </div>
+            {binding.lastStatus === 'success' && (
+              <Badge variant="outline" className="text-xs text-green-700 border-green-200 shrink-0">
+                <CheckCircle2 className="h-3 w-3 mr-1" />
+                OK
+              </Badge>
+            )}
+            {binding.lastStatus === 'failed' && (
+              <Badge variant="outline" className="text-xs text-red-700 border-red-200 shrink-0">
+                <AlertCircle className="h-3 w-3 mr-1" />
+                Failed
+              </Badge>
+            )}
+          </div>
+
+          <div className="text-xs text-muted-foreground">
+            {binding.lastRefreshedAt
+              ? `Last refreshed ${new Date(binding.lastRefreshedAt).toLocaleString()}`
+              : 'Not refreshed yet'}
+            {binding.nextRunAt && binding.isEnabled && ` · next ${new Date(binding.nextRunAt).toLocaleString()}`}
+          </div>
+          {binding.lastStatus === 'failed' && binding.lastError && (
+            <p className="text-xs text-red-600 break-words">{binding.lastError}</p>
+          )}
+
+          {canEdit && (
+            <div className="flex gap-2 pt-1">
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7"
+                onClick={() => refreshMutation.mutate()}
+                disabled={refreshMutation.isPending}
+                data-testid="button-refresh-data-binding"
+              >
+                <RefreshCw className={`h-3 w-3 mr-1 ${refreshMutation.isPending ? 'animate-spin' : ''}`} />
+                Refresh now
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 text-red-600"
+                onClick={() => removeMutation.mutate()}
+                disabled={removeMutation.isPending}
+                data-testid="button-remove-data-binding"
+              >
+                <Unlink className="h-3 w-3 mr-1" />
+                Unbind
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {refreshes.length > 0 && (
+        <div className="space-y-1">
+          <Label className="text-xs font-medium">Lineage</Label>
+          {refreshes.map(snapshot => {
+            const lineage = snapshot.lineage as DataBindingLineage | null;
+            const expanded = expandedSnapshot === snapshot.id;
+            return (
+              <div key={snapshot.id} className="rounded border px-2 py-1.5">
+                <button
+                  type="button"
+                  className="flex w-full items-center gap-2 text-left text-xs"
+                  onClick={() => setExpandedSnapshot(expanded ? null : snapshot.id)}
+                  data-testid={`lineage-${snapshot.id}`}
+                >
+                  {expanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                  <span className="font-medium">{snapshot.currentValue}</span>
+                  <span className="text-muted-foreground truncate flex-1">{lineage?.description}</span>
+                  <span className="text-muted-foreground shrink-0">
+                    {snapshot.snapshotDate ? new Date(snapshot.snapshotDate).toLocaleString() : ''}
+                  </span>
+                </button>
+                {expanded && lineage && <LineageDetails lineage={lineage} />}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <DataBindingEditor
+        keyResultId={keyResultId}
+        binding={binding ?? null}
+        open={editorOpen}
+        onOpenChange={setEditorOpen}
+        onSaved={invalidate}
+      />
+    </div>
+  );
+}
+
+interface DataBindingEditorProps {
+  keyResultId: number;
+  binding: KeyResultDataBinding | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+function DataBindingEditor({ keyResultId, binding, open, onOpenChange, onSaved }: DataBindingEditorProps) {
+  const { toast } = useToast();
+  const [sourceType, setSourceType] = useState<DataBindingSourceType>('data_table');
+  const [configs, setConfigs] = useState<Record<DataBindingSourceType, Record<string, any>>>(DEFAULT_CONFIGS);
+  const [cronExpression, setCronExpression] = useState('0 6 * * *');
+  const [timezone, setTimezone] = useState('UTC');
+  const [isEnabled, setIsEnabled] = useState(true);
+  const [preview, setPreview] = useState<{ value: number; lineage: DataBindingLineage } | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const type = (binding?.sourceType as DataBindingSourceType) || 'data_table';
+    setSourceType(type);
+    setConfigs(binding ? { ...DEFAULT_CONFIGS, [type]: binding.sourceConfig } : DEFAULT_CONFIGS);
+    setCronExpression(binding?.cronExpression || '0 6 * * *');
+    setTimezone(binding?.timezone || 'UTC');
+    setIsEnabled(binding?.isEnabled ?? true);
+    setPreview(null);
+  }, [open, binding]);
+
+  const config = configs[sourceType];
+  const updateConfig = (next: Record<string, any>) => {
+    setConfigs(prev => ({ ...prev, [sourceType]: next }));
+    setPreview(null);
+  };
+
+  // The query builders also carry workflow-only fields; keep just the query
+  const sourceConfig = (() => {
+    if (sourceType === 'data_table') {
+      const { sourceTable, queryConfig } = config;
+      return { sourceTable, queryConfig };
+    }
+    if (sourceType === 'splynx_count') {
+      const { entity, filters, dateRange, dateRangeField } = config;
+      return { entity, filters, dateRange, dateRangeField };
+    }
+    return config;
+  })();
+
+  const isComplete = sourceType === 'data_table'
+    ? !!sourceConfig.sourceTable
+    : sourceType === 'xero_report'
+      ? !!sourceConfig.lineLabel?.trim()
+      : !!sourceConfig.entity;
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(`/api/strategy/key-results/${keyResultId}/data-binding/preview`, {
+        method: 'POST',
+        body: { sourceType, sourceConfig },
+      });
+      return response.json();
+    },
+    onSuccess: (result) => setPreview(result),
+    onError: (error: any) => {
+      setPreview(null);
+      toast({ title: 'Test failed', description: error?.message || 'Unable to read this metric.', variant: 'destructive' });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      apiRequest(`/api/strategy/key-results/${keyResultId}/data-binding`, {
+        method: 'PUT',
+        body: { sourceType, sourceConfig, cronExpression: cronExpression.trim(), timezone: timezone.trim() || 'UTC', isEnabled },
+      }),
+    onSuccess: () => {
+      toast({ title: 'Data binding saved', description: 'The key result will refresh on its schedule.' });
+      onSaved();
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({ title: 'Failed to save data binding', description: error?.message || 'Please check the settings.', variant: 'destructive' });
+    },
+  });
+
+  const xeroConfig = config as XeroReportBindingConfig;
+  const presetValue = SCHEDULE_PRESETS.some(preset => preset.value === cronExpression) ? cronExpression : 'custom';
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-2xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Key Result Data Source</SheetTitle>
+          <SheetDescription>
+            The current value is replaced with this metric on every refresh, and each refresh is recorded with its lineage.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-5 mt-6">
+          <div className="space-y-1">
+            <Label>Source</Label>
+            <Select value={sourceType} onValueChange={(value) => { setSourceType(value as DataBindingSourceType); setPreview(null); }}>
+              <SelectTrigger data-testid="select-binding-source">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(DATA_BINDING_SOURCE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {sourceType === 'data_table' && (
+            <DataSourceQueryBuilder
+              value={{ resultVariable: '', ...config } as DataSourceQueryConfig}
+              onChange={updateConfig}
+              metricOnly
+            />
+          )}
+
+          {sourceType === 'splynx_count' && (
+            <SplynxQueryBuilder
+              value={{ resultVariable: '', mode: 'count', ...config } as SplynxQueryConfig}
+              onChange={updateConfig}
+              metricOnly
+            />
+          )}
+
+          {sourceType === 'xero_report' && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label>Report</Label>
+                  <Select value={xeroConfig.report} onValueChange={(report) => updateConfig({ ...xeroConfig, report })}>
+                    <SelectTrigger data-testid="select-xero-report">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(XERO_REPORT_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Period</Label>
+                  <Select value={xeroConfig.period} onValueChange={(period) => updateConfig({ ...xeroConfig, period })}>
+                    <SelectTrigger data-testid="select-xero-period">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(XERO_PERIOD_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label>Report line</Label>
+                <Input
+                  value={xeroConfig.lineLabel || ''}
+                  onChange={(e) => updateConfig({ ...xeroConfig, lineLabel: e.target.value })}
+                  placeholder="e.g. Total Income, Net Profit"
+                  data-testid="input-xero-line"
+                />
+                <p className="text-xs text-muted-foreground">The row label as it appears in the Xero report.</p>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label>Section (optional)</Label>
+                  <Input
+                    value={xeroConfig.section || ''}
+                    onChange={(e) => updateConfig({ ...xeroConfig, section: e.target.value || undefined })}
+                    placeholder="e.g. Income"
+                    data-testid="input-xero-section"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Value column</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={xeroConfig.column ?? 1}
+                    onChange={(e) => updateConfig({ ...xeroConfig, column: Math.max(1, parseInt(e.target.value) || 1) })}
+                    data-testid="input-xero-column"
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-3 border-t pt-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Refresh</Label>
+                <Select value={presetValue} onValueChange={(value) => value !== 'custom' && setCronExpression(value)}>
+                  <SelectTrigger data-testid="select-binding-schedule">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SCHEDULE_PRESETS.map(preset => (
+                      <SelectItem key={preset.value} value={preset.value}>{preset.label}</SelectItem>
+                    ))}
+                    <SelectItem value="custom">Custom</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Cron expression</Label>
+                <Input
+                  value={cronExpression}
+                  onChange={(e) => setCronExpression(e.target.value)}
+                  placeholder="0 6 * * *"
+                  data-testid="input-binding-cron"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3 items-end">
+              <div className="space-y-1">
+                <Label>Timezone</Label>
+                <Input value={timezone} onChange={(e) => setTimezone(e.target.value)} placeholder="UTC" data-testid="input-binding-timezone" />
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Switch checked={isEnabled} onCheckedChange={setIsEnabled} id="binding-enabled" />
+                <Label htmlFor="binding-enabled">Scheduled refresh on</Label>
+              </div>
+            </div>
+          </div>
+
+          {preview && (
+            <div className="rounded-md border border-green-200 bg-green-50 dark:bg-green-900/20 p-3">
+              <div className="text-sm font-medium">Current value would be {preview.value}</div>
+              <div className="text-xs text-muted-foreground">{preview.lineage.description}</div>
+              <LineageDetails lineage={preview.lineage} />
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              className="flex-1"
+              onClick={() => previewMutation.mutate()}
+              disabled={!isComplete || previewMutation.isPending}
+              data-testid="button-test-data-binding"
+            >
+              {previewMutation.isPending ? 'Testing...' : 'Test'}
+            </Button>
+            <Button
+              className="flex-1"
+              onClick={() => saveMutation.mutate()}
+              disabled={!isComplete || !cronExpression.trim() || saveMutation.isPending}
+              data-testid="button-save-data-binding"
+            >
+              {saveMutation.isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -8,6 +8,7 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
+import { KeyResultDataBinding } from '../KeyResultDataBinding';
 
 interface KeyResult {
   id: number;
@@ -253,6 +254,9 @@ export function KeyResultDetailsTab({ keyResult, canEdit, onEdit }: KeyResultDet
         </div>
       </div>
 
+      {/* Data Source Section */}
+      <KeyResultDataBinding keyResultId={keyResult.id} canEdit={canEdit} />
+
       {/* Save Button */}
       <div className="pt-4">
         <Button 
@@ -27,9 +27,11 @@ import {
   Trash2,
   Clock,
 } from 'lucide-react';
+import { RecurrencePreviewList, RecurrenceRuleEditor } from '@/components/work-items/RecurrenceRuleEditor';
 import { KeyResultTaskDetailPanel } from '../KeyResultTaskDetailPanel';
 import { DeleteTaskDialog } from '../dialogs/DeleteTaskDialog';
 import { format } from 'date-fns';
+import { describeRRule, validateRRule } from '@shared/recurrence';
 
 interface KeyResultTask {
   id: number;
@@ -40,6 +42,8 @@ interface KeyResultTask {
   isRecurring: boolean;
   frequency?: string;
   frequencyParams?: any;
+  recurrenceRule?: string | null;
+  skipPublicHolidays?: boolean;
   endDate?: string;
   totalOccurrences?: number;
   teamId?: number;
@@ -92,6 +96,8 @@ export function KeyResultTasksTab({ keyResultId, keyResult, onViewTask, onTaskPa
     frequency: 'weekly',
     frequencyDays: [] as number[],
     dayOfMonth: 1,
+    recurrenceRule: 'FREQ=MONTHLY;BYDAY=2TU',
+    skipPublicHolidays: false,
     duration: 'ongoing',
     endDate: '',
     totalOccurrences: '',
@@ -186,6 +192,8 @@ export function KeyResultTasksTab({ keyResultId, keyResult, onViewTask, onTaskPa
       frequency: 'weekly',
       frequencyDays: [],
       dayOfMonth: 1,
+      recurrenceRule: 'FREQ=MONTHLY;BYDAY=2TU',
+      skipPublicHolidays: false,
       duration: 'ongoing',
       endDate: '',
       totalOccurrences: '',
@@ -206,10 +214,15 @@ export function KeyResultTasksTab({ keyResultId, keyResult, onViewTask, onTaskPa
     };
 
     if (formData.taskType === 'recurring') {
-      taskData.frequency = formData.frequency;
       taskData.nextDueDate = formData.startDate;
+      taskData.skipPublicHolidays = formData.skipPublicHolidays;
       
-      // Set frequency params based on type
+      // Custom schedules are sent as an RRULE, the rest as a frequency with params
+      if (formData.frequency === 'custom') {
+        taskData.recurrenceRule = formData.recurrenceRule.trim();
+      } else {
+        taskData.frequency = formData.frequency;
+      }
       if (formData.frequency === 'weekly' && formData.frequencyDays.length > 0) {
         taskData.frequencyParams = { dayOfWeek: formData.frequencyDays };
       } else if (formData.frequency === 'monthly') {
@@ -384,6 +397,7 @@ export function KeyResultTasksTab({ keyResultId, keyResult, onViewTask, onTaskPa
                         <SelectItem value="weekly">Weekly</SelectItem>
                         <SelectItem value="monthly">Monthly</SelectItem>
                         <SelectItem value="quarterly">Quarterly</SelectItem>
+                        <SelectItem value="custom">Custom rule…</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
@@ -427,6 +441,13 @@ export function KeyResultTasksTab({ keyResultId, keyResult, onViewTask, onTaskPa
                   </div>
                 )}
 
+                {formData.frequency === 'custom' && (
+                  <RecurrenceRuleEditor
+                    value={formData.recurrenceRule}
+                    onChange={(recurrenceRule) => setFormData({ ...formData, recurrenceRule })}
+                  />
+                )}
+
                 {formData.frequency === 'monthly' && (
                   <div>
                     <Label className="text-xs">Day of Month</Label>
@@ -472,7 +493,9 @@ export function KeyResultTasksTab({ keyResultId, keyResult, onViewTask, onTaskPa
                 <div className="p-3 bg-muted/50 rounded-md">
                   <Label className="text-xs font-medium">Schedule Preview</Label>
                   <div className="text-xs text-muted-foreground mt-1">
-                    This task will run {formData.frequency}
+                    {formData.frequency === 'custom'
+                      ? `This task will run: ${describeRRule(formData.recurrenceRule)}`
+                      : `This task will run ${formData.frequency}`}
                     {formData.frequency === 'weekly' && formData.frequencyDays.length > 0 && 
                       ` on ${formData.frequencyDays.map(d => ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'][d]).join(', ')}`}
                     {formData.frequency === 'monthly' && ` on day ${formData.dayOfMonth}`}
@@ -483,6 +506,31 @@ export function KeyResultTasksTab({ keyResultId, keyResult, onViewTask, onTaskPa
                     {formData.duration === 'ongoing' && ' indefinitely'}
                   </div>
                 </div>
+
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="skipPublicHolidays"
+                    checked={formData.skipPublicHolidays}
+                    onCheckedChange={(checked) => setFormData({ ...formData, skipPublicHolidays: checked === true })}
+                    className="h-4 w-4"
+                  />
+                  <Label htmlFor="skipPublicHolidays" className="text-xs font-normal cursor-pointer">
+                    Skip public holidays (the work item moves to the next date in the schedule)
+                  </Label>
+                </div>
+
+                <RecurrencePreviewList
+                  request={formData.frequency === 'custom'
+                    ? { rule: formData.recurrenceRule.trim(), startDate: formData.startDate, skipPublicHolidays: formData.skipPublicHolidays }
+                    : {
+                        frequency: formData.frequency,
+                        frequencyParams: formData.frequency === 'weekly' && formData.frequencyDays.length > 0
+                          ? { dayOfWeek: formData.frequencyDays }
+                          : formData.frequency === 'monthly' ? { dayOfMonth: formData.dayOfMonth } : undefined,
+                        startDate: formData.startDate,
+                        skipPublicHolidays: formData.skipPublicHolidays,
+                      }}
+                />
               </>
             )}
 
@@ -560,7 +608,7 @@ export function KeyResultTasksTab({ keyResultId, keyResult, onViewTask, onTaskPa
               <Button 
                 size="sm" 
                 onClick={handleCreateTask}
-                disabled={!formData.title || !formData.teamId || createTaskMutation.isPending}
+                disabled={!formData.title || !formData.teamId || (formData.taskType === 'recurring' && formData.frequency === 'custom' && !!validateRRule(formData.recurrenceRule)) || createTaskMutation.isPending}
               >
                 Create Task
               </Button>
@@ -33,6 +33,9 @@ import {
 import WorkItemPanel from '../work-items/WorkItemPanel';
 import { ModernDocumentEditor } from '../DocumentEditor/ModernDocumentEditor';
 import { KeyResultDetailPanel } from '@/components/key-result-detail/KeyResultDetailPanel';
+import { ForecastBadge } from '@/components/okr/OkrForecastCard';
+import { MeetingAgendaPreview, MeetingAgendaWalkthrough } from '@/components/meeting/MeetingAgenda';
+import { RISK_ORDER, type KeyResultForecastEntry, type OrganizationForecast } from '@shared/okrForecast';
 import { cn } from '@/lib/utils';
 // Chart imports for KPI visualization
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
@@ -55,7 +58,8 @@ import {
   TrendingDown,
   Activity,
   BarChart3,
-  Edit2
+  Edit2,
+  AlertTriangle
 } from 'lucide-react';
 
 interface LinearMeetingRunnerProps {
@@ -67,7 +71,7 @@ interface LinearMeetingRunnerProps {
   onMeetingUpdate?: () => void;
 }
 
-type MeetingPhase = 'setup' | 'review' | 'summary' | 'feedback' | 'items-review';
+type MeetingPhase = 'setup' | 'agenda' | 'review' | 'summary' | 'feedback' | 'items-review';
 
 export function LinearMeetingRunner({
   isOpen,
@@ -144,6 +148,18 @@ export function LinearMeetingRunner({
     enabled: isOpen,
   });
   
+  // Forecasts put off-track key results first in the review
+  const { data: forecast } = useQuery<OrganizationForecast>({
+    queryKey: ['/api/strategy/forecasts'],
+    enabled: isOpen,
+  });
+
+  const forecastByKeyResult = useMemo(() => {
+    const map = new Map<number, KeyResultForecastEntry>();
+    forecast?.objectives.forEach(objective => objective.keyResults.forEach(kr => map.set(kr.keyResultId, kr)));
+    return map;
+  }, [forecast]);
+  
   // Fetch Key Result Tasks to link work items to Key Results
   const { data: keyResultTasks } = useQuery({
     queryKey: ['/api/strategy/key-result-tasks'],
@@ -388,6 +404,14 @@ export function LinearMeetingRunner({
         }
       });
       
+      // Discuss what is actually off track first; the sort is stable so ties keep objective order
+      allKeyResults.sort((a, b) => {
+        const riskA = forecastByKeyResult.get(a.id)?.risk;
+        const riskB = forecastByKeyResult.get(b.id)?.risk;
+        return (riskA ? RISK_ORDER[riskA] : RISK_ORDER.insufficient_data) - (riskB ? RISK_ORDER[riskB] : RISK_ORDER.insufficient_data);
+      });
+      allKeyResults.forEach((kr, index) => { kr.reviewOrder = index + 1; });
+      
       // Add a special "Unlinked Items" key result for orphaned work items
       const unlinkedItems = allWorkItems?.filter((item: any) => 
         !linkedWorkItemIds.has(item.id) &&
@@ -429,11 +453,11 @@ export function LinearMeetingRunner({
       });
       setUserReviews(byUser);
     }
-  }, [objectives, allWorkItems, keyResultTasks, meeting]);
+  }, [objectives, allWorkItems, keyResultTasks, meeting, forecastByKeyResult]);
 
   // Timer management
   useEffect(() => {
-    if (isStarted && currentPhase === 'review') {
+    if (isStarted && (currentPhase === 'agenda' || currentPhase === 'review')) {
       timerRef.current = setInterval(() => {
         setElapsedTime(prev => prev + 1);
       }, 1000);
@@ -464,9 +488,11 @@ export function LinearMeetingRunner({
       setFixedWorkItemOrder([...allWorkItems]);
       
       setIsStarted(true);
-      setCurrentPhase('review');
+      setCurrentPhase('agenda');
       setElapsedTime(0); // Reset timer
-      toast({ description: 'Meeting started - Review your work items' });
+      // Starting refreshes the generated agenda on the server
+      queryClient.invalidateQueries({ queryKey: [`/api/strategy/meetings/${meeting.id}/topics`] });
+      toast({ description: 'Meeting started - Work through the agenda' });
       
       // Refresh parent data to show updated status
       onMeetingUpdate?.();
@@ -868,6 +894,12 @@ export function LinearMeetingRunner({
               </div>
             </div>
 
+            {/* Generated agenda, walked through first once the meeting starts */}
+            <MeetingAgendaPreview
+              meetingId={meeting?.id}
+              canRefresh={meeting?.status !== 'Completed' && meeting?.status !== 'Skipped'}
+            />
+
             {/* Work Items Summary */}
             <div>
               {/* Unified tabbed interface for all screen sizes */}
@@ -1247,6 +1279,11 @@ export function LinearMeetingRunner({
           </div>
         );
 
+      case 'agenda':
+        return (
+          <MeetingAgendaWalkthrough meetingId={meeting.id} onFinish={() => setCurrentPhase('review')} />
+        );
+
       case 'review':
         return (
           <div className="h-full flex flex-col">
@@ -1265,6 +1302,46 @@ export function LinearMeetingRunner({
             {/* Scrollable content with Key Results as sections */}
             <ScrollArea className="flex-1">
               <div className="p-2 sm:p-4 space-y-4 sm:space-y-6">
+                {/* Forecast callout: key results in this review projected to miss their cycle */}
+                {(() => {
+                  const flagged = keyResults.filter(kr => {
+                    const risk = forecastByKeyResult.get(kr.id)?.risk;
+                    return kr.items?.length > 0 && (risk === 'off_track' || risk === 'at_risk');
+                  });
+                  if (flagged.length === 0) return null;
+                  
+                  return (
+                    <div className="rounded-lg border border-red-200 bg-red-50 p-3 space-y-2" data-testid="callout-forecast-off-track">
+                      <div className="flex items-center gap-2">
+                        <AlertTriangle className="h-4 w-4 text-red-600" />
+                        <h3 className="text-sm font-medium text-red-900">
+                          {flagged.length} key result{flagged.length !== 1 ? 's' : ''} forecast to miss this cycle
+                        </h3>
+                      </div>
+                      {flagged.map(kr => {
+                        const krForecast = forecastByKeyResult.get(kr.id)!;
+                        return (
+                          <button
+                            key={kr.id}
+                            className="w-full flex items-center justify-between gap-2 text-left text-xs"
+                            onClick={() => setExpandedKeyResults(new Set(expandedKeyResults).add(kr.id))}
+                          >
+                            <span className="truncate">
+                              {kr.title}
+                              {krForecast.projectedValue !== null && (
+                                <span className="text-muted-foreground">
+                                  {' '}· projected {krForecast.projectedValue.toFixed(1)} of {krForecast.targetValue}
+                                </span>
+                              )}
+                            </span>
+                            <ForecastBadge risk={krForecast.risk} confidence={krForecast.confidence} />
+                          </button>
+                        );
+                      })}
+                    </div>
+                  );
+                })()}
+                
                 {keyResults.length === 0 ? (
                   <p className="text-center text-muted-foreground py-8">
                     No work items to review
@@ -1300,7 +1377,15 @@ export function LinearMeetingRunner({
                               >
                                 {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
                                 <div className="flex-1">
-                                  <h3 className="font-medium text-sm">{kr.title}</h3>
+                                  <div className="flex items-center gap-2 flex-wrap">
+                                    <h3 className="font-medium text-sm">{kr.title}</h3>
+                                    {forecastByKeyResult.has(kr.id) && (
+                                      <ForecastBadge
+                                        risk={forecastByKeyResult.get(kr.id)!.risk}
+                                        confidence={forecastByKeyResult.get(kr.id)!.confidence}
+                                      />
+                                    )}
+                                  </div>
                                   <p className="text-xs text-muted-foreground">
                                     {kr.objectiveTitle} • {kr.items.length} work item{kr.items.length !== 1 ? 's' : ''}
                                   </p>
@@ -2038,6 +2123,9 @@ export function LinearMeetingRunner({
                 {currentPhase === 'setup' && (
                   <Badge variant="outline" className="text-xs">Setup</Badge>
                 )}
+                {currentPhase === 'agenda' && (
+                  <Badge variant="default" className="text-xs">Agenda</Badge>
+                )}
                 {currentPhase === 'review' && (
                   <Badge variant="default" className="text-xs">In Progress</Badge>
                 )}
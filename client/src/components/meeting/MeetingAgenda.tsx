@@ -0,0 +1,244 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { ArrowRight, CheckCircle2, ListChecks, RefreshCw, SkipForward } from 'lucide-react';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import type { MeetingTopic } from '@shared/schema';
+import {
+  MEETING_TOPIC_SOURCES,
+  isMeetingTopicSource,
+  type MeetingTopicStatus,
+} from '@shared/meetingAgenda';
+
+function topicsKey(meetingId: number) {
+  return [`/api/strategy/meetings/${meetingId}/topics`];
+}
+
+function useMeetingTopics(meetingId: number) {
+  return useQuery<MeetingTopic[]>({
+    queryKey: topicsKey(meetingId),
+    enabled: !!meetingId,
+  });
+}
+
+function SourceBadge({ topic }: { topic: MeetingTopic }) {
+  const context = topic.context as { wentOffTrack?: boolean } | null;
+  return (
+    <Badge
+      variant="outline"
+      className={cn('text-[10px] shrink-0', context?.wentOffTrack && 'border-red-300 text-red-600')}
+    >
+      {context?.wentOffTrack ? 'Off track' : isMeetingTopicSource(topic.source) ? MEETING_TOPIC_SOURCES[topic.source] : topic.source}
+    </Badge>
+  );
+}
+
+interface MeetingAgendaPreviewProps {
+  meetingId: number;
+  /** Allow rebuilding the generated topics (not once the meeting is over) */
+  canRefresh?: boolean;
+}
+
+/** The agenda as it stands before the meeting starts */
+export function MeetingAgendaPreview({ meetingId, canRefresh = true }: MeetingAgendaPreviewProps) {
+  const { toast } = useToast();
+  const { data: topics = [], isLoading } = useMeetingTopics(meetingId);
+
+  const refreshMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(`/api/strategy/meetings/${meetingId}/agenda/generate`, { method: 'POST' });
+      return response.json();
+    },
+    onSuccess: (result: { added: number; removed: number }) => {
+      queryClient.invalidateQueries({ queryKey: topicsKey(meetingId) });
+      toast({ description: `Agenda refreshed: ${result.added} added, ${result.removed} removed` });
+    },
+    onError: (error: any) => {
+      toast({ description: error.message || 'Failed to refresh agenda', variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Card data-testid="meeting-agenda-preview">
+      <CardHeader className="pb-2 flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <ListChecks className="h-4 w-4" />
+          Agenda ({topics.length})
+        </CardTitle>
+        {canRefresh && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => refreshMutation.mutate()}
+            disabled={refreshMutation.isPending}
+            data-testid="button-refresh-agenda"
+          >
+            <RefreshCw className={cn('h-3 w-3 mr-1', refreshMutation.isPending && 'animate-spin')} />
+            Refresh
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-1">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading agenda…</p>
+        ) : topics.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing has changed since the last check-in</p>
+        ) : (
+          topics.map(topic => (
+            <div key={topic.id} className="flex items-start gap-2 py-1" data-testid={`agenda-topic-${topic.id}`}>
+              <SourceBadge topic={topic} />
+              <div className="min-w-0 flex-1">
+                <p className="text-sm truncate">{topic.title}</p>
+                {topic.description && <p className="text-xs text-muted-foreground truncate">{topic.description}</p>}
+              </div>
+              {topic.timeAllocated ? <span className="text-xs text-muted-foreground">{topic.timeAllocated}m</span> : null}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface MeetingAgendaWalkthroughProps {
+  meetingId: number;
+  onFinish: () => void;
+}
+
+/**
+ * Steps through the open agenda topics one at a time. Each topic is closed as
+ * discussed, with optional outcomes, or deferred to the next check-in.
+ */
+export function MeetingAgendaWalkthrough({ meetingId, onFinish }: MeetingAgendaWalkthroughProps) {
+  const { toast } = useToast();
+  const { data: topics = [] } = useMeetingTopics(meetingId);
+  const [currentId, setCurrentId] = useState<number | null>(null);
+  const [outcomes, setOutcomes] = useState('');
+  const [topicStartedAt, setTopicStartedAt] = useState(Date.now());
+
+  const open = topics.filter(topic => topic.status === 'pending');
+  const current = topics.find(topic => topic.id === currentId) ?? open[0];
+  const closedCount = topics.length - open.length;
+
+  useEffect(() => {
+    setOutcomes(current?.outcomes ?? '');
+    setTopicStartedAt(Date.now());
+  }, [current?.id]);
+
+  const closeMutation = useMutation({
+    mutationFn: async ({ topic, status }: { topic: MeetingTopic; status: MeetingTopicStatus }) => {
+      const response = await apiRequest(`/api/strategy/meetings/${meetingId}/topics/${topic.id}`, {
+        method: 'PATCH',
+        body: {
+          status,
+          outcomes: outcomes.trim() || null,
+          actualTime: Math.max(1, Math.round((Date.now() - topicStartedAt) / 60000)),
+        },
+      });
+      return response.json();
+    },
+    onSuccess: (updated: MeetingTopic) => {
+      setCurrentId(null);
+      queryClient.setQueryData<MeetingTopic[]>(topicsKey(meetingId), (previous) =>
+        previous?.map(topic => (topic.id === updated.id ? updated : topic))
+      );
+    },
+    onError: (error: any) => {
+      toast({ description: error.message || 'Failed to update topic', variant: 'destructive' });
+    },
+  });
+
+  if (!current) {
+    return (
+      <div className="p-6 max-w-3xl mx-auto text-center space-y-4" data-testid="meeting-agenda-done">
+        <CheckCircle2 className="h-10 w-10 text-green-600 mx-auto" />
+        <p className="text-sm text-muted-foreground">
+          {topics.length === 0 ? 'No agenda topics for this check-in' : 'All agenda topics covered'}
+        </p>
+        <Button onClick={onFinish} data-testid="button-agenda-continue">
+          Continue to work item review
+          <ArrowRight className="h-4 w-4 ml-2" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 sm:p-6 max-w-3xl mx-auto space-y-4" data-testid="meeting-agenda-walkthrough">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex-1">
+          <p className="text-xs text-muted-foreground mb-1">
+            Agenda topic {closedCount + 1} of {topics.length}
+          </p>
+          <Progress value={topics.length ? (closedCount / topics.length) * 100 : 0} className="h-1" />
+        </div>
+        <Button variant="ghost" size="sm" onClick={onFinish} data-testid="button-skip-agenda">
+          Skip to review
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <div className="flex items-start gap-2">
+            <SourceBadge topic={current} />
+            <CardTitle className="text-base">{current.title}</CardTitle>
+          </div>
+          {current.description && (
+            <p className="text-sm text-muted-foreground whitespace-pre-wrap">{current.description}</p>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <Textarea
+            value={outcomes}
+            onChange={(e) => setOutcomes(e.target.value)}
+            placeholder="Outcomes and decisions..."
+            className="min-h-[80px]"
+            data-testid="input-topic-outcomes"
+          />
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              onClick={() => closeMutation.mutate({ topic: current, status: 'deferred' })}
+              disabled={closeMutation.isPending}
+              data-testid="button-defer-topic"
+            >
+              <SkipForward className="h-4 w-4 mr-1" />
+              Defer
+            </Button>
+            <Button
+              onClick={() => closeMutation.mutate({ topic: current, status: 'discussed' })}
+              disabled={closeMutation.isPending}
+              data-testid="button-topic-discussed"
+            >
+              <CheckCircle2 className="h-4 w-4 mr-1" />
+              Discussed
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {open.length > 1 && (
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-muted-foreground">Up next</p>
+          {open.filter(topic => topic.id !== current.id).map(topic => (
+            <button
+              key={topic.id}
+              className="w-full flex items-center gap-2 py-1 px-2 rounded hover:bg-muted/50 text-left"
+              onClick={() => setCurrentId(topic.id)}
+            >
+              <SourceBadge topic={topic} />
+              <span className="text-sm truncate">{topic.title}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
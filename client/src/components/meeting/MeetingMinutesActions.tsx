@@ -0,0 +1,146 @@
+import { useMutation } from '@tanstack/react-query';
+import { marked } from 'marked';
+import { BookOpen, Download, FileText, Mail, Printer } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { minutesFileName, type MeetingMinutes } from '@shared/meetingMinutes';
+
+interface MinutesResponse {
+  minutes: MeetingMinutes;
+  markdown: string;
+}
+
+async function fetchMinutes(meetingId: number): Promise<MinutesResponse> {
+  const response = await apiRequest(`/api/strategy/check-in-meetings/${meetingId}/minutes`);
+  return response.json();
+}
+
+function downloadMarkdown({ minutes, markdown }: MinutesResponse) {
+  const url = window.URL.createObjectURL(new Blob([markdown], { type: 'text/markdown' }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = minutesFileName(minutes, 'md');
+  a.click();
+  window.URL.revokeObjectURL(url);
+}
+
+/** There is no PDF renderer in the app, so the minutes go to the browser's print dialog ("Save as PDF") */
+function printMinutes(printWindow: Window, { minutes, markdown }: MinutesResponse) {
+  printWindow.document.open();
+  printWindow.document.write(`<!DOCTYPE html>
+<html>
+  <head>
+    <title>${minutesFileName(minutes, 'pdf')}</title>
+    <style>
+      body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; font-size: 12pt; line-height: 1.5; margin: 2cm; color: #111; }
+      h1 { font-size: 18pt; margin-bottom: 0.5em; }
+      h2 { font-size: 13pt; margin-top: 1.5em; border-bottom: 1px solid #ddd; padding-bottom: 0.2em; }
+      li { margin-bottom: 0.2em; }
+    </style>
+  </head>
+  <body>${marked(markdown) as string}</body>
+</html>`);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+}
+
+interface MeetingMinutesActionsProps {
+  meetingId: number;
+}
+
+/** Export, save and send the minutes of a completed check-in */
+export function MeetingMinutesActions({ meetingId }: MeetingMinutesActionsProps) {
+  const { toast } = useToast();
+
+  const exportMutation = useMutation({
+    mutationFn: async (printWindow?: Window) => {
+      const minutes = await fetchMinutes(meetingId);
+      if (printWindow) printMinutes(printWindow, minutes);
+      else downloadMarkdown(minutes);
+    },
+    onError: (error: any, printWindow) => {
+      printWindow?.close();
+      toast({ description: error.message || 'Failed to export minutes', variant: 'destructive' });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(`/api/strategy/check-in-meetings/${meetingId}/minutes/save`, {
+        method: 'POST',
+        body: {},
+      });
+      return response.json();
+    },
+    onSuccess: (document: { id: number; title: string }) => {
+      toast({ title: 'Minutes saved', description: document.title });
+    },
+    onError: (error: any) => {
+      toast({ description: error.message || 'Failed to save minutes', variant: 'destructive' });
+    },
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(`/api/strategy/check-in-meetings/${meetingId}/minutes/send`, { method: 'POST' });
+      return response.json();
+    },
+    onSuccess: (result: { recipients: string[] }) => {
+      toast({ description: `Minutes sent to ${result.recipients.length} attendee${result.recipients.length === 1 ? '' : 's'}` });
+    },
+    onError: (error: any) => {
+      toast({ description: error.message || 'Failed to send minutes', variant: 'destructive' });
+    },
+  });
+
+  // Opened straight from the click, before the minutes load, so pop-up blockers allow it
+  const exportPdf = () => {
+    const printWindow = window.open('', '_blank', 'width=800,height=900');
+    if (!printWindow) {
+      toast({ description: 'Allow pop-ups to export the minutes as PDF', variant: 'destructive' });
+      return;
+    }
+    exportMutation.mutate(printWindow);
+  };
+
+  const busy = exportMutation.isPending || saveMutation.isPending || sendMutation.isPending;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size="sm" variant="ghost" className="h-7 px-2" disabled={busy} data-testid="button-meeting-minutes">
+          <FileText className="h-4 w-4" />
+          <span className="ml-1 text-xs">Minutes</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => exportMutation.mutate(undefined)} data-testid="menu-minutes-markdown">
+          <Download className="h-4 w-4 mr-2" />
+          Download Markdown
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={exportPdf} data-testid="menu-minutes-pdf">
+          <Printer className="h-4 w-4 mr-2" />
+          Export PDF
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => saveMutation.mutate()} data-testid="menu-minutes-save">
+          <BookOpen className="h-4 w-4 mr-2" />
+          Save to knowledge base
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => sendMutation.mutate()} data-testid="menu-minutes-send">
+          <Mail className="h-4 w-4 mr-2" />
+          Email attendees
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -38,6 +38,7 @@ import { useToast } from '@/hooks/use-toast';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { cn } from '@/lib/utils';
+import { MeetingMinutesActions } from '@/components/meeting/MeetingMinutesActions';
 import {
   Users,
   CheckCircle2,
@@ -312,17 +313,20 @@ export function MeetingSummaryView({
                   <span className="text-xs">Done</span>
                 </div>
               </div>
-              {incompleteItems.length > 0 && (
-                <Button 
-                  size="sm" 
-                  variant="ghost"
-                  className="h-7 px-2"
-                  onClick={() => setShowMoveDialog(true)}
-                >
-                  <ArrowRight className="h-4 w-4" />
-                  <span className="ml-1 text-xs">{incompleteItems.length}</span>
-                </Button>
-              )}
+              <div className="flex items-center gap-1">
+                {meeting?.id && <MeetingMinutesActions meetingId={meeting.id} />}
+                {incompleteItems.length > 0 && (
+                  <Button 
+                    size="sm" 
+                    variant="ghost"
+                    className="h-7 px-2"
+                    onClick={() => setShowMoveDialog(true)}
+                  >
+                    <ArrowRight className="h-4 w-4" />
+                    <span className="ml-1 text-xs">{incompleteItems.length}</span>
+                  </Button>
+                )}
+              </div>
             </div>
 
             {/* Single scrollable container for mobile */}
@@ -0,0 +1,234 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { GitBranch, AlertTriangle, Target, CheckCircle2 } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  OBJECTIVE_LEVELS,
+  OBJECTIVE_LEVEL_LABELS,
+  createsCascadeCycle,
+  keyResultProgress,
+  type ObjectiveLevel,
+  type ObjectiveRollup,
+} from '@shared/okrRollup';
+
+interface AlignedObjective {
+  id: number;
+  title: string;
+  status: string;
+  level?: string | null;
+  teamId?: number | null;
+  parentObjectiveId?: number | null;
+  contributionWeight?: string | null;
+  keyResults?: Array<{ id: number; title: string; currentValue: string; targetValue: string | null; weight?: string | null }>;
+  rollup?: ObjectiveRollup;
+}
+
+interface ObjectiveAlignmentProps {
+  objectiveId: number;
+  canEdit: boolean;
+}
+
+const NO_PARENT = 'none';
+
+/** Weight input that saves on blur, so typing does not send a request per keystroke */
+function WeightInput({ value, disabled, onSave, testId }: { value: string; disabled: boolean; onSave: (weight: string) => void; testId: string }) {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+
+  return (
+    <Input
+      type="number"
+      min={0}
+      step={0.5}
+      value={draft}
+      disabled={disabled}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        const weight = parseFloat(draft);
+        if (!isNaN(weight) && weight >= 0 && draft !== value) onSave(String(weight));
+        else setDraft(value);
+      }}
+      className="h-7 w-16 text-xs"
+      data-testid={testId}
+    />
+  );
+}
+
+/**
+ * Alignment section of the objective detail panel: where the objective sits in
+ * the company → team → individual cascade, how its key results and child
+ * objectives are weighted in its roll-up, and any alignment problems.
+ */
+export function ObjectiveAlignment({ objectiveId, canEdit }: ObjectiveAlignmentProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: objectives = [] } = useQuery<AlignedObjective[]>({
+    queryKey: ['/api/strategy/objectives'],
+  });
+
+  const objective = objectives.find(o => o.id === objectiveId);
+  const children = objectives.filter(o => o.parentObjectiveId === objectiveId);
+
+  const onSaved = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/strategy/objectives'] });
+    queryClient.invalidateQueries({ queryKey: [`/api/strategy/objectives/${objectiveId}`] });
+  };
+  const onError = (error: any) => {
+    toast({ title: 'Error', description: error.message || 'Failed to update alignment', variant: 'destructive' });
+  };
+
+  const updateObjectiveMutation = useMutation({
+    mutationFn: ({ id, body }: { id: number; body: Record<string, unknown> }) =>
+      apiRequest(`/api/strategy/objectives/${id}`, { method: 'PUT', body }),
+    onSuccess: onSaved,
+    onError,
+  });
+
+  const updateKeyResultMutation = useMutation({
+    mutationFn: ({ id, weight }: { id: number; weight: string }) =>
+      apiRequest(`/api/strategy/key-results/${id}`, { method: 'PUT', body: { weight } }),
+    onSuccess: onSaved,
+    onError,
+  });
+
+  if (!objective) return null;
+
+  const rollup = objective.rollup;
+  const level = rollup?.level ?? 'company';
+  const saving = updateObjectiveMutation.isPending || updateKeyResultMutation.isPending;
+
+  // Objectives that can become the parent without closing a loop
+  const parentOptions = objectives.filter(o =>
+    o.id !== objectiveId && !createsCascadeCycle(objectives, objectiveId, o.id)
+  );
+
+  return (
+    <Card data-testid="card-objective-alignment">
+      <CardContent className="p-4 space-y-4">
+        <div className="flex items-start justify-between">
+          <h3 className="text-sm font-semibold text-foreground flex items-center gap-1">
+            <GitBranch className="h-4 w-4" />
+            Alignment
+          </h3>
+          {rollup?.progress !== null && rollup?.progress !== undefined && (
+            <div className="flex items-center gap-2">
+              <Progress value={rollup.progress} className="h-1.5 w-20" />
+              <span className="text-xs font-medium">{Math.round(rollup.progress)}% rolled up</span>
+            </div>
+          )}
+        </div>
+
+        {rollup && rollup.issues.length > 0 && (
+          <div className="rounded-md bg-amber-50 dark:bg-amber-900/20 p-2 space-y-1" data-testid="alignment-issues">
+            {rollup.issues.map(issue => (
+              <p key={issue.type} className="text-xs text-amber-800 dark:text-amber-300 flex items-start gap-1">
+                <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                {issue.message}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Level</Label>
+            <Select
+              value={level}
+              disabled={!canEdit || saving}
+              onValueChange={(value) => updateObjectiveMutation.mutate({ id: objectiveId, body: { level: value as ObjectiveLevel } })}
+            >
+              <SelectTrigger className="h-8 text-xs" data-testid="select-objective-level">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {OBJECTIVE_LEVELS.map(option => (
+                  <SelectItem key={option} value={option}>{OBJECTIVE_LEVEL_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Weight in parent</Label>
+            <WeightInput
+              value={String(parseFloat(objective.contributionWeight ?? '1'))}
+              disabled={!canEdit || saving || !objective.parentObjectiveId}
+              onSave={(weight) => updateObjectiveMutation.mutate({ id: objectiveId, body: { contributionWeight: parseFloat(weight) } })}
+              testId="input-contribution-weight"
+            />
+          </div>
+          <div className="space-y-1 col-span-2">
+            <Label className="text-xs text-muted-foreground">Contributes to</Label>
+            <Select
+              value={objective.parentObjectiveId ? String(objective.parentObjectiveId) : NO_PARENT}
+              disabled={!canEdit || saving}
+              onValueChange={(value) => updateObjectiveMutation.mutate({
+                id: objectiveId,
+                body: { parentObjectiveId: value === NO_PARENT ? null : parseInt(value) },
+              })}
+            >
+              <SelectTrigger className="h-8 text-xs" data-testid="select-parent-objective">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_PARENT}>No parent (top level)</SelectItem>
+                {parentOptions.map(option => (
+                  <SelectItem key={option.id} value={String(option.id)}>
+                    {option.title} · {OBJECTIVE_LEVEL_LABELS[option.rollup?.level ?? 'company']}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Roll-up contributions</Label>
+          {(objective.keyResults || []).map(kr => (
+            <div key={`kr-${kr.id}`} className="flex items-center gap-2 text-xs">
+              <CheckCircle2 className="h-3.5 w-3.5 text-green-600 flex-shrink-0" />
+              <span className="flex-1 truncate">{kr.title}</span>
+              <span className="text-muted-foreground w-10 text-right">{Math.round(keyResultProgress(kr))}%</span>
+              <WeightInput
+                value={String(parseFloat(kr.weight ?? '1'))}
+                disabled={!canEdit || saving}
+                onSave={(weight) => updateKeyResultMutation.mutate({ id: kr.id, weight })}
+                testId={`input-kr-weight-${kr.id}`}
+              />
+            </div>
+          ))}
+          {children.map(child => (
+            <div key={`obj-${child.id}`} className="flex items-center gap-2 text-xs">
+              <Target className="h-3.5 w-3.5 text-purple-600 flex-shrink-0" />
+              <span className="flex-1 truncate">
+                {child.title}
+                <Badge variant="outline" className="ml-1 text-[9px] px-1 py-0 h-auto">
+                  {OBJECTIVE_LEVEL_LABELS[child.rollup?.level ?? 'company']}
+                </Badge>
+              </span>
+              <span className="text-muted-foreground w-10 text-right">
+                {child.rollup?.progress !== null && child.rollup?.progress !== undefined ? `${Math.round(child.rollup.progress)}%` : '—'}
+              </span>
+              <WeightInput
+                value={String(parseFloat(child.contributionWeight ?? '1'))}
+                disabled={!canEdit || saving}
+                onSave={(weight) => updateObjectiveMutation.mutate({ id: child.id, body: { contributionWeight: parseFloat(weight) } })}
+                testId={`input-child-weight-${child.id}`}
+              />
+            </div>
+          ))}
+          {(objective.keyResults || []).length === 0 && children.length === 0 && (
+            <p className="text-xs text-muted-foreground">No key results or aligned objectives yet</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -13,6 +13,7 @@ import {
   AlertCircle
 } from 'lucide-react';
 import { format } from 'date-fns';
+import { ObjectiveAlignment } from '../ObjectiveAlignment';
 
 interface Objective {
   id: number;
@@ -151,6 +152,9 @@ export function ObjectiveDetailsTab({ objective, canEdit, onEdit }: ObjectiveDet
         </CardContent>
       </Card>
 
+      {/* Cascade and roll-up */}
+      <ObjectiveAlignment objectiveId={objective.id} canEdit={canEdit} />
+
       {/* KPI Metrics Card */}
       {(objective.primaryKpi || objective.targetValue) && (
         <Card>
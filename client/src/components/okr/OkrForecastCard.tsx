@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { AlertTriangle, ChevronDown, ChevronRight, TrendingDown, TrendingUp } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  RISK_LABELS,
+  type ForecastRisk,
+  type KeyResultForecastEntry,
+  type ObjectiveForecast,
+  type OrganizationForecast,
+} from '@shared/okrForecast';
+
+export const FORECAST_RISK_CLASSES: Record<ForecastRisk, string> = {
+  achieved: 'bg-blue-100 text-blue-800',
+  on_track: 'bg-green-100 text-green-800',
+  at_risk: 'bg-yellow-100 text-yellow-800',
+  off_track: 'bg-red-100 text-red-800',
+  insufficient_data: 'bg-gray-100 text-gray-700',
+  no_end_date: 'bg-gray-100 text-gray-700',
+};
+
+export function ForecastBadge({ risk, confidence }: { risk: ForecastRisk; confidence: number | null }) {
+  return (
+    <Badge className={`${FORECAST_RISK_CLASSES[risk]} text-xs`}>
+      {RISK_LABELS[risk]}
+      {confidence !== null && risk !== 'achieved' && ` · ${confidence}%`}
+    </Badge>
+  );
+}
+
+function formatValue(value: number | null): string {
+  if (value === null) return '—';
+  return value.toLocaleString(undefined, { maximumFractionDigits: 1 });
+}
+
+function KeyResultForecastRow({ kr }: { kr: KeyResultForecastEntry }) {
+  const trendingUp = (kr.trendDailyRate ?? 0) >= 0;
+
+  return (
+    <div className="flex items-center justify-between gap-3 py-1.5 text-xs">
+      <div className="min-w-0 flex-1">
+        <p className="truncate">{kr.title}</p>
+        <p className="text-muted-foreground">
+          {formatValue(kr.currentValue)} now → {formatValue(kr.projectedValue)} projected of {formatValue(kr.targetValue)}
+        </p>
+      </div>
+      {kr.trendDailyRate !== null && (
+        trendingUp
+          ? <TrendingUp className="h-3.5 w-3.5 text-green-600 flex-shrink-0" />
+          : <TrendingDown className="h-3.5 w-3.5 text-red-600 flex-shrink-0" />
+      )}
+      <ForecastBadge risk={kr.risk} confidence={kr.confidence} />
+    </div>
+  );
+}
+
+function ObjectiveForecastRow({ objective }: { objective: ObjectiveForecast }) {
+  const [expanded, setExpanded] = useState(objective.likelyToMiss);
+
+  return (
+    <div className="border rounded-md px-3 py-2">
+      <button
+        type="button"
+        className="w-full flex items-center gap-2 text-left"
+        onClick={() => setExpanded(!expanded)}
+        data-testid={`button-forecast-objective-${objective.objectiveId}`}
+      >
+        {expanded ? <ChevronDown className="h-4 w-4 flex-shrink-0" /> : <ChevronRight className="h-4 w-4 flex-shrink-0" />}
+        <div className="min-w-0 flex-1">
+          <p className="text-sm font-medium truncate">{objective.title}</p>
+          <p className="text-xs text-muted-foreground">
+            {objective.cycleEnd ? `Ends ${format(new Date(objective.cycleEnd), 'MMM d, yyyy')}` : 'No end date'}
+            {(objective.offTrackCount > 0 || objective.atRiskCount > 0) &&
+              ` · ${objective.offTrackCount} off track, ${objective.atRiskCount} at risk`}
+          </p>
+        </div>
+        {objective.confidence !== null && (
+          <Progress value={objective.confidence} className="h-1.5 w-16 hidden sm:block" />
+        )}
+        <ForecastBadge risk={objective.risk} confidence={objective.confidence} />
+      </button>
+
+      {expanded && (
+        <div className="mt-2 pl-6 divide-y">
+          {objective.keyResults.map(kr => <KeyResultForecastRow key={kr.keyResultId} kr={kr} />)}
+          {objective.keyResults.length === 0 && (
+            <p className="py-1.5 text-xs text-muted-foreground">
+              {objective.objectiveTrend ? 'Forecast from objective progress history' : 'No key results to forecast'}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const COLLAPSED_COUNT = 5;
+
+export default function OkrForecastCard() {
+  const [showAll, setShowAll] = useState(false);
+  const { data: forecast, isLoading } = useQuery<OrganizationForecast>({
+    queryKey: ['/api/strategy/forecasts'],
+    staleTime: 5 * 60 * 1000,
+  });
+
+  if (isLoading || !forecast || forecast.objectives.length === 0) return null;
+
+  const visible = showAll ? forecast.objectives : forecast.objectives.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <Card data-testid="card-okr-forecast">
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <CardTitle className="text-base flex items-center gap-2">
+              <AlertTriangle className={`h-4 w-4 ${forecast.likelyToMissCount > 0 ? 'text-red-600' : 'text-muted-foreground'}`} />
+              Forecast
+            </CardTitle>
+            <CardDescription className="text-xs">
+              Key results projected to the end of their cycle from check-in and data source history
+            </CardDescription>
+          </div>
+          <Badge variant={forecast.likelyToMissCount > 0 ? 'destructive' : 'secondary'} className="text-xs whitespace-nowrap">
+            {forecast.likelyToMissCount} likely to miss
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {visible.map(objective => <ObjectiveForecastRow key={objective.objectiveId} objective={objective} />)}
+        {forecast.objectives.length > COLLAPSED_COUNT && (
+          <Button variant="ghost" size="sm" className="w-full text-xs" onClick={() => setShowAll(!showAll)}>
+            {showAll ? 'Show less' : `Show all ${forecast.objectives.length} objectives`}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
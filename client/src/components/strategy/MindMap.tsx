@@ -101,7 +101,12 @@ const TeamNode = ({ data }: { data: any }) => {
 };
 
 const ObjectiveNode = ({ data }: { data: any }) => {
-  const progress = Math.round((data.currentValue || 0) / (data.targetValue || 1) * 100);
+  // Objectives derived from key results show their weighted roll-up, including aligned child objectives
+  const rolledUp = data.kpiType !== 'Manual Input' && data.rollup?.progress !== null && data.rollup?.progress !== undefined;
+  const progress = rolledUp
+    ? Math.round(data.rollup.progress)
+    : Math.round((data.currentValue || 0) / (data.targetValue || 1) * 100);
+  const issues: Array<{ type: string; message: string }> = data.rollup?.issues || [];
   const handleStyle = { opacity: 0, background: 'transparent', width: '1px', height: '1px', border: 'none' };
   
   return (
@@ -131,6 +136,20 @@ const ObjectiveNode = ({ data }: { data: any }) => {
                   {data.status}
                 </Badge>
               )}
+              {data.rollup?.level && data.rollup.level !== 'company' && (
+                <Badge variant="outline" className="text-[9px] px-1.5 py-0 h-auto capitalize">
+                  {data.rollup.level}
+                </Badge>
+              )}
+              {issues.length > 0 && (
+                <Badge
+                  variant="secondary"
+                  className="text-[9px] px-1.5 py-0 h-auto bg-amber-100 dark:bg-amber-900/40 text-amber-800 dark:text-amber-300"
+                  title={issues.map(issue => issue.message).join('\n')}
+                >
+                  {issues.some(issue => issue.type === 'orphan') ? 'Orphan' : 'Misaligned'}
+                </Badge>
+              )}
               <span className="text-[9px] text-muted-foreground font-medium">
                 {Math.floor(data.currentValue || 0)}/{Math.floor(data.targetValue || 0)}
               </span>
@@ -184,11 +203,18 @@ const KeyResultNode = ({ data }: { data: any }) => {
               </div>
               <span className="text-[9px] text-muted-foreground">{progress}%</span>
             </div>
-            {data.status && (
-              <Badge variant="outline" className="text-[8px] px-1 py-0 h-auto">
-                {data.status}
-              </Badge>
-            )}
+            <div className="flex items-center gap-1">
+              {data.status && (
+                <Badge variant="outline" className="text-[8px] px-1 py-0 h-auto">
+                  {data.status}
+                </Badge>
+              )}
+              {data.weight !== undefined && parseFloat(data.weight) !== 1 && (
+                <span className="text-[8px] text-muted-foreground" title="Weight in the objective's roll-up">
+                  ×{parseFloat(data.weight)}
+                </span>
+              )}
+            </div>
           </div>
         </div>
       </Card>
@@ -615,8 +641,26 @@ function MindMapInner({ objectives, onNodeClick }: MindMapProps) {
         edgeColor = '#fb923c'; // Light orange for team-to-objective
       }
       
+      // Cascaded objectives hang off the objective they contribute to
+      const alignedToParent = filteredObjectives.some(other => other.id === objective.parentObjectiveId);
+      if (alignedToParent) {
+        edges.push({
+          id: `obj-${objective.parentObjectiveId}-obj-${objective.id}`,
+          source: `obj-${objective.parentObjectiveId}`,
+          target: `obj-${objective.id}`,
+          type: 'default',
+          label: parseFloat(objective.contributionWeight ?? '1') !== 1 ? `×${parseFloat(objective.contributionWeight)}` : undefined,
+          style: { 
+            stroke: '#a78bfa', // Violet for objective-to-objective alignment
+            strokeWidth: 2,
+            strokeDasharray: '6 4',
+          },
+          animated: false,
+        });
+      }
+      
       // Connect to parent node if mission exists
-      if (missionVision?.mission) {
+      if (missionVision?.mission && !(alignedToParent && parentNode === 'mission')) {
         edges.push({
           id: `${parentNode}-obj-${objective.id}`,
           source: parentNode,
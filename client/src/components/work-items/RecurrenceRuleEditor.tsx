@@ -0,0 +1,107 @@
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { CalendarX } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useDebounce } from '@/hooks/use-debounce';
+import { previewRecurrence, type RecurrencePreviewRequest } from '@/lib/workItems.api';
+import { RECURRENCE_PRESETS, describeRRule, validateRRule } from '@shared/recurrence';
+
+interface RecurrenceRuleEditorProps {
+  value: string;
+  onChange: (rule: string) => void;
+}
+
+/** RRULE input with common presets and a plain-English reading of the rule */
+export function RecurrenceRuleEditor({ value, onChange }: RecurrenceRuleEditorProps) {
+  const error = value.trim() ? validateRRule(value) : null;
+  const preset = RECURRENCE_PRESETS.find(option => option.rule === value.trim());
+
+  return (
+    <div className="space-y-2" data-testid="recurrence-rule-editor">
+      <div>
+        <Label className="text-xs">Repeats</Label>
+        <Select value={preset?.rule ?? 'custom'} onValueChange={(rule) => rule !== 'custom' && onChange(rule)}>
+          <SelectTrigger className="h-8" data-testid="select-recurrence-preset">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RECURRENCE_PRESETS.map(option => (
+              <SelectItem key={option.rule} value={option.rule}>{option.label}</SelectItem>
+            ))}
+            <SelectItem value="custom">Custom rule</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <Label className="text-xs">Rule (RFC 5545 RRULE)</Label>
+        <Input
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="FREQ=MONTHLY;BYDAY=2TU"
+          className="h-8 text-sm font-mono"
+          data-testid="input-recurrence-rule"
+        />
+        {value.trim() && (
+          <p className={`text-xs mt-1 ${error ? 'text-destructive' : 'text-muted-foreground'}`} data-testid="text-recurrence-description">
+            {error ?? describeRRule(value)}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface RecurrencePreviewListProps {
+  request: RecurrencePreviewRequest;
+}
+
+/** Next occurrences of a rule as the generator will create them, with skipped public holidays */
+export function RecurrencePreviewList({ request }: RecurrencePreviewListProps) {
+  // Compared as text so a new but equal request object does not restart the debounce
+  const debounced: RecurrencePreviewRequest = JSON.parse(useDebounce(JSON.stringify(request), 400));
+  const usable = debounced.rule ? !validateRRule(debounced.rule) : !!debounced.frequency;
+
+  const { data: preview, isLoading, error } = useQuery({
+    queryKey: ['/api/work-items/recurrence/preview', debounced],
+    queryFn: () => previewRecurrence(debounced),
+    enabled: usable,
+  });
+
+  if (!usable) return null;
+  if (isLoading) return <p className="text-xs text-muted-foreground">Calculating dates…</p>;
+  if (error) return <p className="text-xs text-destructive">{(error as Error).message}</p>;
+  if (!preview) return null;
+
+  return (
+    <div className="p-3 bg-muted/50 rounded-md space-y-1" data-testid="recurrence-preview">
+      <Label className="text-xs font-medium">Next occurrences</Label>
+      {preview.occurrences.length === 0 ? (
+        <p className="text-xs text-muted-foreground">The rule has no further dates</p>
+      ) : (
+        <ul className="text-xs space-y-0.5">
+          {preview.occurrences.map(occurrence => (
+            <li
+              key={occurrence.date}
+              className={occurrence.excludedReason ? 'text-muted-foreground flex items-center gap-1' : ''}
+              data-testid={`recurrence-occurrence-${occurrence.date}`}
+            >
+              {occurrence.excludedReason && <CalendarX className="h-3 w-3" />}
+              <span className={occurrence.excludedReason ? 'line-through' : ''}>
+                {format(new Date(`${occurrence.date}T00:00:00`), 'EEE d MMM yyyy')}
+              </span>
+              {occurrence.excludedReason && <span>skipped: {occurrence.excludedReason}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
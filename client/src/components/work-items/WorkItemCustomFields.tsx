@@ -0,0 +1,210 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Check, ChevronsUpDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { fetchActiveUsers, fetchWorkItemFieldDefinitions } from '@/lib/workItems.api';
+import {
+  definitionsForType,
+  type CustomFieldValue,
+  type CustomFieldValues,
+  type WorkItemCustomFieldDefinition,
+} from '@shared/workItemCustomFields';
+
+interface WorkItemCustomFieldsProps {
+  workItemType?: string | null;
+  values: CustomFieldValues;
+  onChange: (values: CustomFieldValues) => void;
+}
+
+interface AddressOption {
+  id: number;
+  address?: string | null;
+  postcode?: string | null;
+  summary?: string | null;
+}
+
+const NONE = 'none';
+
+export function addressLabel(address: AddressOption) {
+  return [address.address || address.summary, address.postcode].filter(Boolean).join(', ') || `Address #${address.id}`;
+}
+
+export function useWorkItemFieldDefinitions(enabled = true) {
+  return useQuery({
+    queryKey: ['/api/fields/work-items'],
+    queryFn: fetchWorkItemFieldDefinitions,
+    enabled,
+  });
+}
+
+/** Only the values for fields that apply to the type, so stale keys are never sent back */
+export function applicableCustomFieldValues(
+  definitions: WorkItemCustomFieldDefinition[],
+  workItemType: string | null | undefined,
+  values: CustomFieldValues
+): CustomFieldValues {
+  const applicable: CustomFieldValues = {};
+  definitionsForType(definitions, workItemType).forEach(definition => {
+    applicable[definition.fieldName] = values[definition.fieldName] ?? null;
+  });
+  return applicable;
+}
+
+function AddressPicker({ value, onChange, testId }: { value: CustomFieldValue; onChange: (value: number | null) => void; testId: string }) {
+  const [open, setOpen] = useState(false);
+  const { data: addresses = [] } = useQuery<{ addresses: AddressOption[] }, Error, AddressOption[]>({
+    queryKey: ['/api/addresses'],
+    select: (data) => data.addresses,
+  });
+  const selected = addresses.find(address => address.id === value);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" role="combobox" className="w-full justify-between font-normal" data-testid={testId}>
+          <span className="truncate">
+            {selected ? addressLabel(selected) : value ? `Address #${value}` : 'Select address'}
+          </span>
+          <ChevronsUpDown className="h-4 w-4 opacity-50 shrink-0" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[360px] p-0">
+        <Command>
+          <CommandInput placeholder="Search addresses..." />
+          <CommandList>
+            <CommandEmpty>No addresses found.</CommandEmpty>
+            <CommandGroup>
+              {value && (
+                <CommandItem value="__clear" onSelect={() => { onChange(null); setOpen(false); }}>
+                  Clear
+                </CommandItem>
+              )}
+              {addresses.map(address => (
+                <CommandItem
+                  key={address.id}
+                  value={`${addressLabel(address)} ${address.id}`}
+                  onSelect={() => { onChange(address.id); setOpen(false); }}
+                >
+                  <Check className={`h-4 w-4 mr-2 ${address.id === value ? 'opacity-100' : 'opacity-0'}`} />
+                  {addressLabel(address)}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+/**
+ * Editors for the organization's custom fields that apply to the work item's
+ * type. Values are validated again by the API on save.
+ */
+export function WorkItemCustomFields({ workItemType, values, onChange }: WorkItemCustomFieldsProps) {
+  const { data: allDefinitions = [] } = useWorkItemFieldDefinitions();
+  const definitions = definitionsForType(allDefinitions, workItemType);
+  const hasUserFields = definitions.some(definition => definition.fieldType === 'user');
+
+  const { data: users = [] } = useQuery({
+    queryKey: ['/api/work-items/users'],
+    queryFn: fetchActiveUsers,
+    enabled: hasUserFields,
+  });
+
+  if (definitions.length === 0) return null;
+
+  const setValue = (fieldName: string, value: CustomFieldValue) => onChange({ ...values, [fieldName]: value });
+
+  const renderEditor = (definition: WorkItemCustomFieldDefinition) => {
+    const value = values[definition.fieldName] ?? null;
+    const testId = `custom-field-${definition.fieldName}`;
+
+    switch (definition.fieldType) {
+      case 'number':
+        return (
+          <Input
+            type="number"
+            value={value ?? ''}
+            onChange={(e) => setValue(definition.fieldName, e.target.value === '' ? null : parseFloat(e.target.value))}
+            data-testid={testId}
+          />
+        );
+      case 'date':
+        return (
+          <Input
+            type="date"
+            value={(value as string) ?? ''}
+            onChange={(e) => setValue(definition.fieldName, e.target.value || null)}
+            data-testid={testId}
+          />
+        );
+      case 'select':
+      case 'user': {
+        const options = definition.fieldType === 'select'
+          ? (definition.options || [])
+          : users.map(user => ({ value: user.id.toString(), label: user.fullName }));
+        return (
+          <Select
+            value={value === null ? NONE : String(value)}
+            onValueChange={(selected) => setValue(
+              definition.fieldName,
+              selected === NONE ? null : definition.fieldType === 'user' ? parseInt(selected) : selected
+            )}
+          >
+            <SelectTrigger data-testid={testId}>
+              <SelectValue placeholder={`Select ${definition.displayLabel.toLowerCase()}`} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>None</SelectItem>
+              {options.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      }
+      case 'address':
+        return (
+          <AddressPicker
+            value={value}
+            onChange={(addressId) => setValue(definition.fieldName, addressId)}
+            testId={testId}
+          />
+        );
+      default:
+        return (
+          <Input
+            value={(value as string) ?? ''}
+            onChange={(e) => setValue(definition.fieldName, e.target.value || null)}
+            data-testid={testId}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4" data-testid="work-item-custom-fields">
+      {definitions.map(definition => (
+        <div key={definition.id} className="space-y-2">
+          <Label className="text-xs text-muted-foreground" title={definition.description || undefined}>
+            {definition.displayLabel}
+            {definition.isRequired && <span className="text-red-500 ml-0.5">*</span>}
+          </Label>
+          {renderEditor(definition)}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { AlertTriangle, ArrowRight, Ban, Lightbulb, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  addWorkItemDependency,
+  fetchWorkItemDependencies,
+  fetchWorkItems,
+  removeWorkItemDependency,
+} from '@/lib/workItems.api';
+import { createsDependencyCycle, isResolved, type DependencyEdge } from '@shared/workItemDependencies';
+
+interface WorkItemDependenciesProps {
+  workItemId: number;
+  onOpenWorkItem?: (workItemId: number) => void;
+}
+
+const OPEN_STATUSES = ['Planning', 'Ready', 'In Progress', 'Stuck'];
+
+function formatDue(dueDate: string | null) {
+  return dueDate ? format(new Date(dueDate), 'MMM d') : null;
+}
+
+/**
+ * Blocked-by / blocks links for a work item, with the unblock hint and
+ * warnings for due dates that fall before a blocker's due date.
+ */
+export function WorkItemDependencies({ workItemId, onOpenWorkItem }: WorkItemDependenciesProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [adding, setAdding] = useState(false);
+
+  const { data: summary } = useQuery({
+    queryKey: [`/api/work-items/${workItemId}/dependencies`],
+    queryFn: () => fetchWorkItemDependencies(workItemId),
+  });
+
+  const { data: candidates = [] } = useQuery({
+    queryKey: ['/api/work-items', 'dependency-candidates'],
+    queryFn: () => fetchWorkItems({ status: OPEN_STATUSES, pageSize: 200 }),
+    enabled: adding,
+  });
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/work-items/${workItemId}/dependencies`] });
+    queryClient.invalidateQueries({ queryKey: ['/api/work-items/dependencies'] });
+  };
+  const onError = (error: any) => {
+    toast({ title: 'Error', description: error.message || 'Failed to update dependencies', variant: 'destructive' });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: (blockingWorkItemId: number) => addWorkItemDependency(workItemId, blockingWorkItemId),
+    onSuccess: () => {
+      setAdding(false);
+      onChanged();
+    },
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (blockingWorkItemId: number) => removeWorkItemDependency(workItemId, blockingWorkItemId),
+    onSuccess: onChanged,
+    onError,
+  });
+
+  if (!summary) return null;
+
+  // Only the links around this item are loaded, which is enough to rule out direct loops in the picker;
+  // longer loops are rejected by the server
+  const knownEdges: DependencyEdge[] = [
+    ...summary.blockedBy.map(item => ({ blockedWorkItemId: workItemId, blockingWorkItemId: item.id })),
+    ...summary.blocks.map(item => ({ blockedWorkItemId: item.id, blockingWorkItemId: workItemId })),
+  ];
+  const linkedIds = new Set(summary.blockedBy.map(item => item.id));
+  const options = candidates.filter(item =>
+    !linkedIds.has(item.id) && !createsDependencyCycle(knownEdges, workItemId, item.id)
+  );
+
+  const titleOf = (id: number) =>
+    [...summary.blockedBy, ...summary.blocks].find(item => item.id === id)?.title ?? `#${id}`;
+
+  const renderItem = (item: { id: number; title: string; status: string; dueDate: string | null }, removable: boolean) => (
+    <div key={item.id} className="flex items-center gap-2 text-sm" data-testid={`dependency-${item.id}`}>
+      <button
+        type="button"
+        className={`flex-1 truncate text-left hover:underline ${isResolved(item.status) ? 'text-muted-foreground line-through' : ''}`}
+        onClick={() => onOpenWorkItem?.(item.id)}
+      >
+        {item.title}
+      </button>
+      {formatDue(item.dueDate) && (
+        <span className="text-xs text-muted-foreground">{formatDue(item.dueDate)}</span>
+      )}
+      <Badge variant="outline" className="text-[10px]">{item.status}</Badge>
+      {removable && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          disabled={removeMutation.isPending}
+          onClick={() => removeMutation.mutate(item.id)}
+          data-testid={`button-remove-blocker-${item.id}`}
+        >
+          <X className="h-3 w-3" />
+        </Button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-3" data-testid="work-item-dependencies">
+      <div className="flex items-center justify-between">
+        <Label className="flex items-center gap-1">
+          <Ban className="h-4 w-4" />
+          Dependencies
+          {summary.openBlockerCount > 0 && (
+            <Badge variant="destructive" className="ml-1 text-[10px]">
+              Blocked by {summary.openBlockerCount}
+            </Badge>
+          )}
+        </Label>
+        {!adding && (
+          <Button variant="ghost" size="sm" onClick={() => setAdding(true)} data-testid="button-add-blocker">
+            <Plus className="h-4 w-4 mr-1" />
+            Add blocker
+          </Button>
+        )}
+      </div>
+
+      {summary.hint && (
+        <p className="text-xs rounded-md bg-blue-50 dark:bg-blue-900/20 text-blue-800 dark:text-blue-300 p-2 flex items-start gap-1" data-testid="dependency-hint">
+          <Lightbulb className="h-3 w-3 mt-0.5 flex-shrink-0" />
+          {summary.hint}
+        </p>
+      )}
+
+      {summary.dueDateConflicts.length > 0 && (
+        <div className="rounded-md bg-amber-50 dark:bg-amber-900/20 p-2 space-y-1" data-testid="dependency-due-date-conflicts">
+          {summary.dueDateConflicts.map(conflict => (
+            <p key={`${conflict.blockedWorkItemId}-${conflict.blockingWorkItemId}`} className="text-xs text-amber-800 dark:text-amber-300 flex items-start gap-1">
+              <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+              "{titleOf(conflict.blockedWorkItemId)}" is due {formatDue(conflict.blockedDueDate)}, before its blocker
+              "{titleOf(conflict.blockingWorkItemId)}" ({formatDue(conflict.blockingDueDate)})
+            </p>
+          ))}
+        </div>
+      )}
+
+      {adding && (
+        <div className="flex items-center gap-2">
+          <Select
+            onValueChange={(value) => addMutation.mutate(parseInt(value))}
+            disabled={addMutation.isPending}
+          >
+            <SelectTrigger className="h-8 text-xs" data-testid="select-blocker">
+              <SelectValue placeholder="Blocked by…" />
+            </SelectTrigger>
+            <SelectContent>
+              {options.map(item => (
+                <SelectItem key={item.id} value={item.id.toString()}>
+                  {item.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setAdding(false)}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
+      {summary.blockedBy.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-muted-foreground">Blocked by</p>
+          {summary.blockedBy.map(item => renderItem(item, true))}
+        </div>
+      )}
+
+      {summary.blocks.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-muted-foreground flex items-center gap-1">
+            <ArrowRight className="h-3 w-3" />
+            Blocks
+          </p>
+          {summary.blocks.map(item => renderItem(item, false))}
+        </div>
+      )}
+
+      {summary.blockedBy.length === 0 && summary.blocks.length === 0 && !adding && (
+        <p className="text-xs text-muted-foreground">No dependencies</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  createWorkItemFieldDefinition,
+  deleteWorkItemFieldDefinition,
+  updateWorkItemFieldDefinition,
+} from '@/lib/workItems.api';
+import { useWorkItemFieldDefinitions } from '@/components/work-items/WorkItemCustomFields';
+import {
+  WORK_ITEM_CUSTOM_FIELD_TYPES,
+  WORK_ITEM_CUSTOM_FIELD_TYPE_LABELS,
+  type WorkItemCustomFieldType,
+} from '@shared/workItemCustomFields';
+
+interface WorkItemFieldsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Work item types a field can be scoped to */
+  workItemTypes: Array<{ value: string; label: string }>;
+}
+
+const ALL_TYPES = 'all';
+
+function toFieldName(label: string) {
+  return label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^[^a-z]+|_+$/g, '');
+}
+
+const emptyDraft = {
+  displayLabel: '',
+  fieldType: 'text' as WorkItemCustomFieldType,
+  workItemType: ALL_TYPES,
+  options: '',
+  isRequired: false,
+};
+
+/** Organization settings for the custom fields shown on work items */
+export function WorkItemFieldsDialog({ open, onOpenChange, workItemTypes }: WorkItemFieldsDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: definitions = [] } = useWorkItemFieldDefinitions(open);
+  const [draft, setDraft] = useState(emptyDraft);
+
+  const onSaved = () => queryClient.invalidateQueries({ queryKey: ['/api/fields/work-items'] });
+  const onError = (error: any) => {
+    toast({ title: 'Error', description: error.message || 'Failed to save field', variant: 'destructive' });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: createWorkItemFieldDefinition,
+    onSuccess: () => {
+      setDraft(emptyDraft);
+      onSaved();
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, isRequired }: { id: number; isRequired: boolean }) => updateWorkItemFieldDefinition(id, { isRequired }),
+    onSuccess: onSaved,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteWorkItemFieldDefinition,
+    onSuccess: onSaved,
+    onError,
+  });
+
+  const typeLabel = (workItemType: string | null) =>
+    workItemType ? workItemTypes.find(type => type.value === workItemType)?.label ?? workItemType : 'All work items';
+
+  const handleCreate = () => {
+    const options = draft.options
+      .split('\n')
+      .map(line => line.trim())
+      .filter(Boolean)
+      .map(label => ({ value: toFieldName(label) || label, label }));
+    createMutation.mutate({
+      fieldName: toFieldName(draft.displayLabel),
+      displayLabel: draft.displayLabel.trim(),
+      fieldType: draft.fieldType,
+      workItemType: draft.workItemType === ALL_TYPES ? null : draft.workItemType,
+      options: draft.fieldType === 'select' ? options : null,
+      isRequired: draft.isRequired,
+      sortOrder: definitions.length,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Custom fields</DialogTitle>
+          <DialogDescription>
+            Fields your organization tracks on work items. Scope a field to one work item type or show it on all of them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-[260px] overflow-y-auto">
+          {definitions.length === 0 && (
+            <p className="text-sm text-muted-foreground">No custom fields yet</p>
+          )}
+          {definitions.map(definition => (
+            <div key={definition.id} className="flex items-center gap-2 text-sm border rounded-md px-3 py-2" data-testid={`field-definition-${definition.id}`}>
+              <div className="flex-1 min-w-0">
+                <div className="font-medium truncate">{definition.displayLabel}</div>
+                <div className="text-xs text-muted-foreground truncate">
+                  {definition.fieldName} · {typeLabel(definition.workItemType)}
+                </div>
+              </div>
+              <Badge variant="outline" className="text-[10px]">
+                {WORK_ITEM_CUSTOM_FIELD_TYPE_LABELS[definition.fieldType as WorkItemCustomFieldType] ?? definition.fieldType}
+              </Badge>
+              <label className="flex items-center gap-1 text-xs text-muted-foreground">
+                <Checkbox
+                  checked={definition.isRequired}
+                  onCheckedChange={(checked) => updateMutation.mutate({ id: definition.id, isRequired: checked === true })}
+                />
+                Required
+              </label>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                disabled={deleteMutation.isPending}
+                onClick={() => deleteMutation.mutate(definition.id)}
+                data-testid={`button-delete-field-${definition.id}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3 border-t pt-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Label</Label>
+              <Input
+                value={draft.displayLabel}
+                onChange={(e) => setDraft({ ...draft, displayLabel: e.target.value })}
+                placeholder="e.g. Site code"
+                data-testid="input-field-label"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Type</Label>
+              <Select value={draft.fieldType} onValueChange={(value) => setDraft({ ...draft, fieldType: value as WorkItemCustomFieldType })}>
+                <SelectTrigger data-testid="select-field-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WORK_ITEM_CUSTOM_FIELD_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{WORK_ITEM_CUSTOM_FIELD_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Applies to</Label>
+              <Select value={draft.workItemType} onValueChange={(value) => setDraft({ ...draft, workItemType: value })}>
+                <SelectTrigger data-testid="select-field-scope">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_TYPES}>All work items</SelectItem>
+                  {workItemTypes.map(type => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <label className="flex items-end gap-2 text-sm pb-2">
+              <Checkbox
+                checked={draft.isRequired}
+                onCheckedChange={(checked) => setDraft({ ...draft, isRequired: checked === true })}
+              />
+              Required
+            </label>
+          </div>
+          {draft.fieldType === 'select' && (
+            <div className="space-y-1">
+              <Label className="text-xs">Options (one per line)</Label>
+              <Textarea
+                value={draft.options}
+                onChange={(e) => setDraft({ ...draft, options: e.target.value })}
+                rows={3}
+                data-testid="input-field-options"
+              />
+            </div>
+          )}
+          <Button
+            onClick={handleCreate}
+            disabled={!toFieldName(draft.displayLabel) || createMutation.isPending}
+            className="w-full"
+            data-testid="button-create-field"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add field
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
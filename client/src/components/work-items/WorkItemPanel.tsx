@@ -81,6 +81,15 @@ import { WorkflowExecutionPanel } from '@/components/work-items/WorkflowExecutio
 import { DraftResponsePanel } from '@/components/work-items/DraftResponsePanel';
 import { CustomerContextPanel } from '@/components/work-items/CustomerContextPanel';
 import { CustomerLinkPanel } from '@/components/work-items/CustomerLinkPanel';
+import { WorkItemDependencies } from '@/components/work-items/WorkItemDependencies';
+import { WorkItemRecurrence } from '@/components/work-items/WorkItemRecurrence';
+import { WorkItemTimeTracking } from '@/components/work-items/WorkItemTimeTracking';
+import {
+  WorkItemCustomFields,
+  applicableCustomFieldValues,
+  useWorkItemFieldDefinitions,
+} from '@/components/work-items/WorkItemCustomFields';
+import type { CustomFieldValues } from '@shared/workItemCustomFields';
 
 interface WorkItemPanelProps {
   isOpen: boolean;
@@ -157,6 +166,7 @@ export default function WorkItemPanel({
     workItemType: undefined as string | undefined,
     workflowSource: undefined as string | undefined,
     workflowMetadata: undefined as Record<string, any> | undefined,
+    customFields: {} as CustomFieldValues,
   });
   const [krTaskSearch, setKrTaskSearch] = useState('');
   const [showKrTaskDialog, setShowKrTaskDialog] = useState(false);
@@ -347,6 +357,8 @@ export default function WorkItemPanel({
     enabled: isOpen && !!formData.targetMeetingId && !meetings.find(m => m.id === formData.targetMeetingId),
   });
   
+  const { data: fieldDefinitions = [] } = useWorkItemFieldDefinitions(isOpen);
+  
   // Fetch users
   const { data: users = [] } = useQuery<UserType[]>({
     queryKey: ['/api/work-items/users'],
@@ -441,6 +453,7 @@ export default function WorkItemPanel({
         workItemType: workItem.workItemType || undefined,
         workflowSource: workItem.workflowSource || undefined,
         workflowMetadata: workItem.workflowMetadata || undefined,
+        customFields: workItem.customFields || {},
       });
       setSelectedKrTask(workItem.keyResultTask || null);
     } else if (mode === 'create') {
@@ -459,6 +472,7 @@ export default function WorkItemPanel({
         workItemType: initialData?.workItemType || undefined,
         workflowSource: initialData?.workflowSource || undefined,
         workflowMetadata: initialData?.workflowMetadata || undefined,
+        customFields: {},
       });
       setSelectedKrTask(null);
     }
@@ -556,6 +570,11 @@ export default function WorkItemPanel({
       
       // Invalidate Key Result Task queries with the correct query key pattern
       queryClient.invalidateQueries({ queryKey: ['/api/strategy/key-result-tasks'] });
+      // Status and due date changes feed blocker hints and the critical path
+      queryClient.invalidateQueries({ queryKey: ['/api/work-items/dependencies'] });
+      if (workItemId) {
+        queryClient.invalidateQueries({ queryKey: [`/api/work-items/${workItemId}/dependencies`] });
+      }
       
       // Get keyResultId by fetching the fresh work item data (only when online)
       if (workItemId) {
@@ -646,9 +665,12 @@ export default function WorkItemPanel({
       return;
     }
     
+    const customFields = applicableCustomFieldValues(fieldDefinitions, formData.workItemType, formData.customFields);
+    
     if (mode === 'create') {
       const payload = {
         ...formData,
+        customFields,
         dueDate: formData.dueDate || undefined,
         workflowTemplateId: formData.workflowTemplateId,
         workItemType: formData.workItemType,
@@ -661,6 +683,7 @@ export default function WorkItemPanel({
         id: workItemId,
         data: {
           ...formData,
+          customFields,
           dueDate: formData.dueDate || undefined,
         },
       });
@@ -1107,6 +1130,13 @@ export default function WorkItemPanel({
                 </div>
               </div>
 
+              {/* Custom Fields */}
+              <WorkItemCustomFields
+                workItemType={formData.workItemType}
+                values={formData.customFields}
+                onChange={(customFields) => setFormData({ ...formData, customFields })}
+              />
+
               {/* Target Meeting */}
               <div className="space-y-2">
                 <Select
@@ -1164,6 +1194,34 @@ export default function WorkItemPanel({
                   )}
                 </div>
               </div>
+
+              {/* Time tracking */}
+              {mode !== 'create' && workItemId && (
+                <>
+                  <Separator />
+                  <WorkItemTimeTracking workItemId={workItemId} />
+                </>
+              )}
+
+              {/* Recurrence */}
+              {mode !== 'create' && workItemId && (
+                <>
+                  <Separator />
+                  <WorkItemRecurrence
+                    workItemId={workItemId}
+                    dueDate={currentWorkItem?.dueDate}
+                    isOccurrence={!!currentWorkItem?.recurrenceKey}
+                  />
+                </>
+              )}
+
+              {/* Dependencies */}
+              {mode !== 'create' && workItemId && (
+                <>
+                  <Separator />
+                  <WorkItemDependencies workItemId={workItemId} />
+                </>
+              )}
             </TabsContent>
 
             {/* Comments Tab */}
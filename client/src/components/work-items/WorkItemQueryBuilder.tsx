@@ -0,0 +1,287 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Check, ChevronsUpDown, Plus, Trash2, Layers } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { fetchActiveUsers, fetchCheckInCycles } from '@/lib/workItems.api';
+import {
+  CURRENT_USER_VALUE,
+  VALUELESS_OPERATORS,
+  WORK_ITEM_QUERY_FIELDS,
+  WORK_ITEM_QUERY_OPERATOR_LABELS,
+  WORK_ITEM_STATUS_VALUES,
+  isQueryGroup,
+  type WorkItemQueryField,
+  type WorkItemQueryGroup,
+  type WorkItemQueryOperator,
+  type WorkItemQueryRule,
+  type WorkItemQueryValueType,
+} from '@shared/workItemQuery';
+
+interface WorkItemQueryBuilderProps {
+  value: WorkItemQueryGroup;
+  onChange: (value: WorkItemQueryGroup) => void;
+  /** Work item types to choose from, as used by the Type filter */
+  workItemTypes: Array<{ value: string; label: string }>;
+}
+
+interface ValueOption {
+  value: string;
+  label: string;
+}
+
+const MAX_NESTING = 3;
+
+function newRule(field: WorkItemQueryField = 'status'): WorkItemQueryRule {
+  return { field, operator: WORK_ITEM_QUERY_FIELDS[field].operators[0], value: null };
+}
+
+function MultiValuePicker({ options, value, onChange, testId }: {
+  options: ValueOption[];
+  value: string[];
+  onChange: (value: string[]) => void;
+  testId: string;
+}) {
+  const [open, setOpen] = useState(false);
+  const labels = value.map(v => options.find(option => option.value === v)?.label ?? v);
+  const toggle = (optionValue: string) => onChange(
+    value.includes(optionValue) ? value.filter(v => v !== optionValue) : [...value, optionValue]
+  );
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" role="combobox" size="sm" className="h-8 w-[220px] justify-between font-normal" data-testid={testId}>
+          <span className="truncate">{labels.length > 0 ? labels.join(', ') : 'Select values'}</span>
+          <ChevronsUpDown className="h-3.5 w-3.5 opacity-50 shrink-0" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[260px] p-0">
+        <Command>
+          <CommandInput placeholder="Search..." />
+          <CommandList>
+            <CommandEmpty>Nothing found.</CommandEmpty>
+            <CommandGroup>
+              {options.map(option => (
+                <CommandItem key={option.value} value={`${option.label} ${option.value}`} onSelect={() => toggle(option.value)}>
+                  <Check className={`h-4 w-4 mr-2 ${value.includes(option.value) ? 'opacity-100' : 'opacity-0'}`} />
+                  {option.label}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+/**
+ * Editor for advanced work item filters: conditions combined with AND or OR,
+ * with nested groups for mixed logic such as "mine AND (overdue OR stuck)".
+ */
+export function WorkItemQueryBuilder({ value, onChange, workItemTypes }: WorkItemQueryBuilderProps) {
+  const { data: users = [] } = useQuery({
+    queryKey: ['/api/work-items/users'],
+    queryFn: fetchActiveUsers,
+  });
+  const { data: teams = [] } = useQuery<any[]>({
+    queryKey: ['/api/teams'],
+  });
+  const { data: cycles = [] } = useQuery({
+    queryKey: ['/api/work-items/check-in-cycles', 'all'],
+    queryFn: () => fetchCheckInCycles(),
+  });
+  const { data: keyResults = [] } = useQuery<any[]>({
+    queryKey: ['/api/strategy/key-results'],
+  });
+
+  const optionsFor = (valueType: WorkItemQueryValueType): ValueOption[] => {
+    switch (valueType) {
+      case 'status':
+        return WORK_ITEM_STATUS_VALUES.map(status => ({ value: status, label: status }));
+      case 'workItemType':
+        return workItemTypes;
+      case 'user':
+        return [
+          { value: CURRENT_USER_VALUE, label: 'Me (whoever views)' },
+          ...users.map(user => ({ value: user.id.toString(), label: user.fullName || user.email })),
+        ];
+      case 'team':
+        return teams.map((team: any) => ({ value: team.id.toString(), label: team.name }));
+      case 'cycle':
+        return cycles.map(cycle => ({
+          value: cycle.id.toString(),
+          label: `${format(new Date(cycle.startDate), 'd MMM')} – ${format(new Date(cycle.endDate), 'd MMM yyyy')} (${cycle.status})`,
+        }));
+      case 'keyResult':
+        return keyResults.map((keyResult: any) => ({ value: keyResult.id.toString(), label: keyResult.title }));
+      default:
+        return [];
+    }
+  };
+
+  const renderValue = (rule: WorkItemQueryRule, update: (rule: WorkItemQueryRule) => void, testId: string) => {
+    if (VALUELESS_OPERATORS.includes(rule.operator)) return null;
+    const valueType = WORK_ITEM_QUERY_FIELDS[rule.field].valueType;
+
+    if (valueType === 'date' && rule.operator !== 'within_days') {
+      return (
+        <Input
+          type="date"
+          className="h-8 w-[160px]"
+          value={typeof rule.value === 'string' ? rule.value : ''}
+          onChange={(e) => update({ ...rule, value: e.target.value || null })}
+          data-testid={testId}
+        />
+      );
+    }
+    if (valueType === 'date' || valueType === 'percent') {
+      return (
+        <Input
+          type="number"
+          min={0}
+          max={valueType === 'percent' ? 100 : undefined}
+          className="h-8 w-[100px]"
+          value={rule.value === null || rule.value === undefined ? '' : String(rule.value)}
+          onChange={(e) => update({ ...rule, value: e.target.value === '' ? null : parseFloat(e.target.value) })}
+          data-testid={testId}
+        />
+      );
+    }
+    const selected = Array.isArray(rule.value) ? rule.value.map(String) : [];
+    return (
+      <MultiValuePicker
+        options={optionsFor(valueType)}
+        value={selected}
+        onChange={(values) => update({ ...rule, value: values })}
+        testId={testId}
+      />
+    );
+  };
+
+  const renderGroup = (group: WorkItemQueryGroup, update: (group: WorkItemQueryGroup) => void, depth: number, path: string): JSX.Element => {
+    const setRule = (index: number, rule: WorkItemQueryRule | WorkItemQueryGroup) =>
+      update({ ...group, rules: group.rules.map((current, i) => (i === index ? rule : current)) });
+    const removeRule = (index: number) =>
+      update({ ...group, rules: group.rules.filter((_, i) => i !== index) });
+
+    return (
+      <div className={`space-y-2 ${depth > 1 ? 'border-l-2 border-muted pl-3' : ''}`} data-testid={`query-group-${path}`}>
+        {group.rules.length === 0 && (
+          <p className="text-xs text-muted-foreground">No conditions - all work items match</p>
+        )}
+        {group.rules.map((rule, index) => {
+          const rulePath = `${path}-${index}`;
+          const joiner = index === 0 ? (
+            <span className="w-12 text-xs text-muted-foreground">Where</span>
+          ) : index === 1 ? (
+            <Select value={group.combinator} onValueChange={(combinator) => update({ ...group, combinator: combinator as 'and' | 'or' })}>
+              <SelectTrigger className="h-8 w-12 px-2 text-xs" data-testid={`select-combinator-${path}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="and">and</SelectItem>
+                <SelectItem value="or">or</SelectItem>
+              </SelectContent>
+            </Select>
+          ) : (
+            <span className="w-12 text-xs text-muted-foreground">{group.combinator}</span>
+          );
+
+          if (isQueryGroup(rule)) {
+            return (
+              <div key={index} className="flex items-start gap-2">
+                {joiner}
+                <div className="flex-1">
+                  {renderGroup(rule, (nested) => setRule(index, nested), depth + 1, rulePath)}
+                </div>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => removeRule(index)} data-testid={`button-remove-group-${rulePath}`}>
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            );
+          }
+
+          const field = WORK_ITEM_QUERY_FIELDS[rule.field];
+          return (
+            <div key={index} className="flex flex-wrap items-center gap-2">
+              {joiner}
+              <Select value={rule.field} onValueChange={(fieldName) => setRule(index, newRule(fieldName as WorkItemQueryField))}>
+                <SelectTrigger className="h-8 w-[170px]" data-testid={`select-query-field-${rulePath}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(WORK_ITEM_QUERY_FIELDS) as WorkItemQueryField[]).map(fieldName => (
+                    <SelectItem key={fieldName} value={fieldName}>{WORK_ITEM_QUERY_FIELDS[fieldName].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={rule.operator}
+                onValueChange={(operator) => setRule(index, {
+                  ...rule,
+                  operator: operator as WorkItemQueryOperator,
+                  // List values carry over between "any of" and "none of"; other operators start empty
+                  value: Array.isArray(rule.value) && (operator === 'in' || operator === 'not_in') ? rule.value : null,
+                })}
+              >
+                <SelectTrigger className="h-8 w-[190px]" data-testid={`select-query-operator-${rulePath}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {field.operators.map(operator => (
+                    <SelectItem key={operator} value={operator}>{WORK_ITEM_QUERY_OPERATOR_LABELS[operator]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {renderValue(rule, (updated) => setRule(index, updated), `input-query-value-${rulePath}`)}
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => removeRule(index)} data-testid={`button-remove-rule-${rulePath}`}>
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          );
+        })}
+        <div className="flex gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => update({ ...group, rules: [...group.rules, newRule()] })}
+            data-testid={`button-add-rule-${path}`}
+          >
+            <Plus className="h-3.5 w-3.5 mr-1" />
+            Add condition
+          </Button>
+          {depth < MAX_NESTING && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => update({
+                ...group,
+                rules: [...group.rules, { combinator: group.combinator === 'and' ? 'or' : 'and', rules: [newRule()] }],
+              })}
+              data-testid={`button-add-group-${path}`}
+            >
+              <Layers className="h-3.5 w-3.5 mr-1" />
+              Add group
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return renderGroup(value, onChange, 1, 'root');
+}
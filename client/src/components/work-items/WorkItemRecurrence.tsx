@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Repeat, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import {
+  deleteWorkItemRecurrence,
+  fetchWorkItemRecurrence,
+  saveWorkItemRecurrence,
+} from '@/lib/workItems.api';
+import { RecurrencePreviewList, RecurrenceRuleEditor } from '@/components/work-items/RecurrenceRuleEditor';
+import { validateRRule } from '@shared/recurrence';
+
+interface WorkItemRecurrenceProps {
+  workItemId: number;
+  dueDate?: string | null;
+  /** Generated occurrences cannot carry a rule of their own */
+  isOccurrence?: boolean;
+}
+
+/**
+ * Repeat settings for a standalone work item. Each occurrence is a copy of
+ * this item, created ahead of its due date by the daily generation job.
+ */
+export function WorkItemRecurrence({ workItemId, dueDate, isOccurrence }: WorkItemRecurrenceProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState({ rule: '', startDate: '', skipPublicHolidays: false });
+
+  const { data: recurrence } = useQuery({
+    queryKey: [`/api/work-items/${workItemId}/recurrence`],
+    queryFn: () => fetchWorkItemRecurrence(workItemId),
+  });
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/work-items/${workItemId}/recurrence`] });
+    queryClient.invalidateQueries({ queryKey: ['/api/work-items'] });
+  };
+  const onError = (error: any) => {
+    toast({ title: 'Error', description: error.message || 'Failed to update recurrence', variant: 'destructive' });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => saveWorkItemRecurrence(workItemId, {
+      rule: draft.rule.trim(),
+      startDate: draft.startDate || undefined,
+      skipPublicHolidays: draft.skipPublicHolidays,
+    }),
+    onSuccess: () => {
+      setEditing(false);
+      onChanged();
+      toast({ title: 'Recurrence saved' });
+    },
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: () => deleteWorkItemRecurrence(workItemId),
+    onSuccess: () => {
+      onChanged();
+      toast({ title: 'Work item no longer repeats', description: 'Items already created are kept' });
+    },
+    onError,
+  });
+
+  if (isOccurrence) return null;
+
+  const startEditing = () => {
+    setDraft({
+      rule: recurrence?.rule ?? 'FREQ=WEEKLY',
+      startDate: recurrence?.startDate ?? dueDate ?? format(new Date(), 'yyyy-MM-dd'),
+      skipPublicHolidays: recurrence?.skipPublicHolidays ?? false,
+    });
+    setEditing(true);
+  };
+
+  return (
+    <div className="space-y-3" data-testid="work-item-recurrence">
+      <div className="flex items-center justify-between">
+        <Label className="flex items-center gap-1">
+          <Repeat className="h-4 w-4" />
+          Repeat
+        </Label>
+        {!editing && (
+          <Button variant="ghost" size="sm" onClick={startEditing} data-testid="button-edit-recurrence">
+            {recurrence ? 'Edit' : 'Make recurring'}
+          </Button>
+        )}
+      </div>
+
+      {!editing && recurrence && (
+        <div className="flex items-start gap-2 text-sm">
+          <div className="flex-1">
+            <p data-testid="text-recurrence-summary">
+              {recurrence.description}
+              {recurrence.skipPublicHolidays && <span className="text-muted-foreground">, skipping public holidays</span>}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {recurrence.nextOccurrence
+                ? `Next: ${format(new Date(`${recurrence.nextOccurrence}T00:00:00`), 'EEE d MMM yyyy')}`
+                : 'No further occurrences'}
+            </p>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            disabled={removeMutation.isPending}
+            onClick={() => removeMutation.mutate()}
+            data-testid="button-remove-recurrence"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      )}
+
+      {editing && (
+        <div className="space-y-3">
+          <RecurrenceRuleEditor value={draft.rule} onChange={(rule) => setDraft({ ...draft, rule })} />
+          <div>
+            <Label className="text-xs">Starting</Label>
+            <Input
+              type="date"
+              value={draft.startDate}
+              onChange={(e) => setDraft({ ...draft, startDate: e.target.value })}
+              className="h-8 text-sm"
+              data-testid="input-recurrence-start"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id={`skip-holidays-${workItemId}`}
+              checked={draft.skipPublicHolidays}
+              onCheckedChange={(checked) => setDraft({ ...draft, skipPublicHolidays: checked === true })}
+              data-testid="checkbox-skip-public-holidays"
+            />
+            <Label htmlFor={`skip-holidays-${workItemId}`} className="text-xs font-normal">Skip public holidays</Label>
+          </div>
+          <RecurrencePreviewList
+            request={{ rule: draft.rule.trim(), startDate: draft.startDate || undefined, skipPublicHolidays: draft.skipPublicHolidays }}
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setEditing(false)}>Cancel</Button>
+            <Button
+              size="sm"
+              onClick={() => saveMutation.mutate()}
+              disabled={!draft.rule.trim() || !!validateRRule(draft.rule) || saveMutation.isPending}
+              data-testid="button-save-recurrence"
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
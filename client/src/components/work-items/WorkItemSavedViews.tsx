@@ -0,0 +1,270 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Bookmark, ChevronDown, Pin, PinOff, Save, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  createWorkItemView,
+  deleteWorkItemView,
+  fetchWorkItemViews,
+  setWorkItemViewPinned,
+  updateWorkItemView,
+  type SaveWorkItemViewData,
+  type WorkItemView,
+} from '@/lib/workItems.api';
+import { WORK_ITEM_VIEW_VISIBILITY_LABELS, type WorkItemViewVisibility } from '@shared/workItemQuery';
+
+interface WorkItemSavedViewsProps {
+  activeViewId: number | null;
+  onSelect: (view: WorkItemView | null) => void;
+  /** Query, sort and columns currently on screen, saved into new or updated views */
+  current: Omit<SaveWorkItemViewData, 'name' | 'visibility'>;
+}
+
+export function useWorkItemViews() {
+  return useQuery({
+    queryKey: ['/api/work-items/views'],
+    queryFn: fetchWorkItemViews,
+  });
+}
+
+/** View picker plus save, share, pin and delete actions for saved work item views */
+export function WorkItemSavedViews({ activeViewId, onSelect, current }: WorkItemSavedViewsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: views = [] } = useWorkItemViews();
+  const { data: teams = [] } = useQuery<any[]>({ queryKey: ['/api/teams'] });
+  const activeView = views.find(view => view.id === activeViewId) ?? null;
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [draft, setDraft] = useState<{ name: string; description: string; visibility: WorkItemViewVisibility; teamId: number | null }>({
+    name: '',
+    description: '',
+    visibility: 'private',
+    teamId: null,
+  });
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/work-items/views'] });
+    // Pinned views appear in the navigation menu
+    queryClient.invalidateQueries({ queryKey: ['/api/menu/navigation'] });
+  };
+  const onError = (error: any) => {
+    toast({ title: 'Error', description: error.message || 'Failed to save view', variant: 'destructive' });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: createWorkItemView,
+    onSuccess: (view) => {
+      onChanged();
+      setDialogOpen(false);
+      onSelect(view);
+      toast({ title: 'View saved', description: `"${view.name}" is now in your saved views` });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (view: WorkItemView) => updateWorkItemView(view.id, current),
+    onSuccess: (view) => {
+      onChanged();
+      toast({ title: 'View updated', description: `"${view.name}" now uses the current filters and sort` });
+    },
+    onError,
+  });
+
+  const pinMutation = useMutation({
+    mutationFn: (view: WorkItemView) => setWorkItemViewPinned(view.id, !view.isPinned),
+    onSuccess: (view) => {
+      onChanged();
+      toast({ title: view.menuItemId ? 'Pinned to menu' : 'Removed from menu' });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (view: WorkItemView) => deleteWorkItemView(view.id),
+    onSuccess: () => {
+      onChanged();
+      onSelect(null);
+    },
+    onError,
+  });
+
+  const openSaveDialog = () => {
+    setDraft({ name: '', description: '', visibility: 'private', teamId: null });
+    setDialogOpen(true);
+  };
+
+  const handleCreate = () => {
+    createMutation.mutate({
+      ...current,
+      name: draft.name.trim(),
+      description: draft.description.trim() || null,
+      visibility: draft.visibility,
+      teamId: draft.visibility === 'team' ? draft.teamId : null,
+    });
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant={activeView ? 'secondary' : 'ghost'}
+            className="h-6 px-2 py-0 text-[11px] font-normal hover:bg-muted flex items-center gap-1"
+            data-testid="button-saved-views"
+          >
+            <Bookmark className="h-3 w-3" />
+            <span className="max-w-[160px] truncate">{activeView ? activeView.name : 'Views'}</span>
+            <ChevronDown className="h-3 w-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-72">
+          <DropdownMenuLabel>Saved views</DropdownMenuLabel>
+          {views.length === 0 && (
+            <div className="px-2 py-1.5 text-xs text-muted-foreground">No saved views yet</div>
+          )}
+          {views.map(view => (
+            <DropdownMenuItem key={view.id} onClick={() => onSelect(view)} data-testid={`view-option-${view.id}`}>
+              <span className="flex-1 truncate">{view.name}</span>
+              {view.isPinned && <Pin className="h-3 w-3 text-muted-foreground ml-1" />}
+              <Badge variant="outline" className="ml-2 text-[10px]">
+                {view.visibility === 'team' && view.teamName ? view.teamName : WORK_ITEM_VIEW_VISIBILITY_LABELS[view.visibility]}
+              </Badge>
+            </DropdownMenuItem>
+          ))}
+          {activeView && (
+            <DropdownMenuItem onClick={() => onSelect(null)} data-testid="view-option-clear">
+              <span className="text-muted-foreground">Clear view</span>
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={openSaveDialog} data-testid="button-save-view">
+            <Save className="h-4 w-4 mr-2" />
+            Save as new view…
+          </DropdownMenuItem>
+          {activeView?.isOwner && (
+            <>
+              <DropdownMenuItem onClick={() => updateMutation.mutate(activeView)} data-testid="button-update-view">
+                <Save className="h-4 w-4 mr-2" />
+                Update "{activeView.name}"
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => pinMutation.mutate(activeView)} data-testid="button-pin-view">
+                {activeView.isPinned ? <PinOff className="h-4 w-4 mr-2" /> : <Pin className="h-4 w-4 mr-2" />}
+                {activeView.isPinned ? 'Unpin from menu' : 'Pin to menu'}
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => deleteMutation.mutate(activeView)}
+                className="text-red-600"
+                data-testid="button-delete-view"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete view
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[440px]">
+          <DialogHeader>
+            <DialogTitle>Save view</DialogTitle>
+            <DialogDescription>
+              Saves the advanced filter, sort order and visible columns. Quick filters above the list are not included.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Name</Label>
+              <Input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g. My overdue installs"
+                data-testid="input-view-name"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Description</Label>
+              <Input
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                data-testid="input-view-description"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs">Shared with</Label>
+                <Select value={draft.visibility} onValueChange={(visibility) => setDraft({ ...draft, visibility: visibility as WorkItemViewVisibility })}>
+                  <SelectTrigger data-testid="select-view-visibility">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(WORK_ITEM_VIEW_VISIBILITY_LABELS) as WorkItemViewVisibility[]).map(visibility => (
+                      <SelectItem key={visibility} value={visibility}>{WORK_ITEM_VIEW_VISIBILITY_LABELS[visibility]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {draft.visibility === 'team' && (
+                <div className="space-y-1">
+                  <Label className="text-xs">Team</Label>
+                  <Select
+                    value={draft.teamId?.toString() ?? ''}
+                    onValueChange={(teamId) => setDraft({ ...draft, teamId: parseInt(teamId) })}
+                  >
+                    <SelectTrigger data-testid="select-view-team">
+                      <SelectValue placeholder="Select team" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {teams.map((team: any) => (
+                        <SelectItem key={team.id} value={team.id.toString()}>{team.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button
+              onClick={handleCreate}
+              disabled={!draft.name.trim() || (draft.visibility === 'team' && !draft.teamId) || createMutation.isPending}
+              data-testid="button-confirm-save-view"
+            >
+              Save view
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
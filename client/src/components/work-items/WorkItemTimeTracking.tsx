@@ -0,0 +1,253 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Clock, Play, Plus, Square, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import {
+  deleteTimeEntry,
+  fetchRunningTimer,
+  fetchWorkItemTime,
+  logWorkItemTime,
+  startWorkItemTimer,
+  stopWorkItemTimer,
+} from '@/lib/workItems.api';
+import { MAX_ENTRY_MINUTES, formatMinutes } from '@shared/timeTracking';
+
+interface WorkItemTimeTrackingProps {
+  workItemId: number;
+}
+
+function formatElapsed(startedAt: string, now: number): string {
+  const seconds = Math.max(0, Math.floor((now - new Date(startedAt).getTime()) / 1000));
+  return [Math.floor(seconds / 3600), Math.floor(seconds / 60) % 60, seconds % 60]
+    .map(part => part.toString().padStart(2, '0'))
+    .join(':');
+}
+
+/**
+ * Timer, manual entries and workflow step durations for a work item. A person
+ * has one running timer; starting it here stops the one on any other item.
+ */
+export function WorkItemTimeTracking({ workItemId }: WorkItemTimeTrackingProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [now, setNow] = useState(Date.now());
+  const [adding, setAdding] = useState(false);
+  const [draft, setDraft] = useState({ date: '', minutes: '', note: '' });
+
+  const { data: time } = useQuery({
+    queryKey: [`/api/work-items/${workItemId}/time`],
+    queryFn: () => fetchWorkItemTime(workItemId),
+  });
+
+  const { data: running } = useQuery({
+    queryKey: ['/api/work-items/time/running'],
+    queryFn: fetchRunningTimer,
+  });
+
+  const runningHere = running?.workItemId === workItemId;
+
+  useEffect(() => {
+    if (!runningHere) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [runningHere]);
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/work-items/time/running'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/work-items/time/report'] });
+    queryClient.invalidateQueries({ queryKey: [`/api/work-items/${workItemId}/time`] });
+  };
+  const onError = (error: any) => {
+    toast({ title: 'Error', description: error.message || 'Failed to update time', variant: 'destructive' });
+  };
+
+  const startMutation = useMutation({
+    mutationFn: () => startWorkItemTimer(workItemId),
+    onSuccess: () => {
+      setNow(Date.now());
+      if (running && !runningHere) {
+        toast({ title: 'Timer started', description: `Stopped the timer on "${running.workItemTitle}"` });
+      }
+      onChanged();
+    },
+    onError,
+  });
+
+  const stopMutation = useMutation({
+    mutationFn: () => stopWorkItemTimer(workItemId),
+    onSuccess: (entry) => {
+      onChanged();
+      toast({ title: 'Timer stopped', description: `${formatMinutes(entry.durationMinutes)} logged` });
+    },
+    onError,
+  });
+
+  const logMutation = useMutation({
+    mutationFn: () => logWorkItemTime(workItemId, {
+      startedAt: new Date(`${draft.date}T09:00:00`).toISOString(),
+      durationMinutes: parseInt(draft.minutes),
+      note: draft.note.trim() || null,
+    }),
+    onSuccess: () => {
+      setAdding(false);
+      onChanged();
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (entryId: number) => deleteTimeEntry(entryId),
+    onSuccess: onChanged,
+    onError,
+  });
+
+  const minutes = parseInt(draft.minutes);
+  const draftValid = !!draft.date && minutes > 0 && minutes <= MAX_ENTRY_MINUTES;
+  const completedEntries = time?.entries.filter(entry => entry.endedAt) ?? [];
+  const timedSteps = time?.steps.filter(step => step.minutes !== null) ?? [];
+
+  return (
+    <div className="space-y-3" data-testid="work-item-time-tracking">
+      <div className="flex items-center justify-between">
+        <Label className="flex items-center gap-1">
+          <Clock className="h-4 w-4" />
+          Time
+          {!!time?.totalMinutes && (
+            <span className="text-xs text-muted-foreground font-normal ml-1" data-testid="text-time-total">
+              {formatMinutes(time.totalMinutes)} logged
+            </span>
+          )}
+        </Label>
+        <div className="flex items-center gap-1">
+          {runningHere ? (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => stopMutation.mutate()}
+              disabled={stopMutation.isPending}
+              data-testid="button-stop-timer"
+            >
+              <Square className="h-3 w-3 mr-1" />
+              <span className="font-mono">{formatElapsed(running.startedAt, now)}</span>
+            </Button>
+          ) : (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => startMutation.mutate()}
+              disabled={startMutation.isPending}
+              data-testid="button-start-timer"
+            >
+              <Play className="h-3 w-3 mr-1" />
+              Start timer
+            </Button>
+          )}
+          {!adding && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setDraft({ date: format(new Date(), 'yyyy-MM-dd'), minutes: '', note: '' });
+                setAdding(true);
+              }}
+              data-testid="button-log-time"
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Log
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {adding && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label className="text-xs">Date</Label>
+              <Input
+                type="date"
+                value={draft.date}
+                onChange={(e) => setDraft({ ...draft, date: e.target.value })}
+                className="h-8 text-sm"
+                data-testid="input-time-date"
+              />
+            </div>
+            <div>
+              <Label className="text-xs">Minutes</Label>
+              <Input
+                type="number"
+                min={1}
+                max={MAX_ENTRY_MINUTES}
+                value={draft.minutes}
+                onChange={(e) => setDraft({ ...draft, minutes: e.target.value })}
+                className="h-8 text-sm"
+                data-testid="input-time-minutes"
+              />
+            </div>
+          </div>
+          <Input
+            value={draft.note}
+            onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+            placeholder="What was done (optional)"
+            className="h-8 text-sm"
+            data-testid="input-time-note"
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setAdding(false)}>Cancel</Button>
+            <Button
+              size="sm"
+              onClick={() => logMutation.mutate()}
+              disabled={!draftValid || logMutation.isPending}
+              data-testid="button-save-time"
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {completedEntries.length > 0 && (
+        <ul className="text-sm space-y-1">
+          {completedEntries.map(entry => (
+            <li key={entry.id} className="flex items-center gap-2 group" data-testid={`time-entry-${entry.id}`}>
+              <span className="w-16 text-right font-medium">{formatMinutes(entry.durationMinutes)}</span>
+              <span className="flex-1 truncate text-muted-foreground">
+                {format(new Date(entry.startedAt), 'd MMM')} · {entry.userName ?? 'Unknown'}
+                {entry.source === 'field_app' && ' · field app'}
+                {entry.note && ` · ${entry.note}`}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 opacity-0 group-hover:opacity-100"
+                onClick={() => deleteMutation.mutate(entry.id)}
+                disabled={deleteMutation.isPending}
+                data-testid={`button-delete-time-${entry.id}`}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {timedSteps.length > 0 && (
+        <div className="p-3 bg-muted/50 rounded-md space-y-1" data-testid="workflow-step-durations">
+          <Label className="text-xs font-medium">Workflow steps</Label>
+          <ul className="text-xs space-y-0.5">
+            {timedSteps.map(step => (
+              <li key={step.stepIndex} className="flex justify-between">
+                <span>{step.stepTitle}</span>
+                <span className="text-muted-foreground">{formatMinutes(step.minutes)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
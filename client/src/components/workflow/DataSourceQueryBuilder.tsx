@@ -38,6 +38,8 @@ interface DataSourceQueryBuilderProps {
   value: DataSourceQueryConfig;
   onChange: (config: DataSourceQueryConfig) => void;
   keyResults?: KeyResult[];
+  /** Only configure the query, without result variable or key result update (key result data bindings) */
+  metricOnly?: boolean;
 }
 
 const OPERATORS = [
@@ -79,6 +81,7 @@ export default function DataSourceQueryBuilder({
   value,
   onChange,
   keyResults = [],
+  metricOnly = false,
 }: DataSourceQueryBuilderProps) {
   const [testResult, setTestResult] = useState<{ count: number; duration: number } | null>(null);
   const { toast } = useToast();
@@ -422,18 +425,20 @@ export default function DataSourceQueryBuilder({
                 )}
               </div>
 
-              <div>
-                <Label>Store Result As</Label>
-                <Input
-                  placeholder="e.g., addressCount"
-                  value={value.resultVariable}
-                  onChange={(e) => onChange({ ...value, resultVariable: e.target.value })}
-                  data-testid="input-result-variable"
-                />
-                <p className="text-xs text-gray-500 mt-1">
-                  Use this variable in next steps as {`{${value.resultVariable || 'variableName'}}`}
-                </p>
-              </div>
+              {!metricOnly && (
+                <div>
+                  <Label>Store Result As</Label>
+                  <Input
+                    placeholder="e.g., addressCount"
+                    value={value.resultVariable}
+                    onChange={(e) => onChange({ ...value, resultVariable: e.target.value })}
+                    data-testid="input-result-variable"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Use this variable in next steps as {`{${value.resultVariable || 'variableName'}}`}
+                  </p>
+                </div>
+              )}
             </>
           )}
         </CardContent>
@@ -592,7 +597,7 @@ export default function DataSourceQueryBuilder({
         </Card>
       )}
 
-      {value.sourceTable && keyResults.length > 0 && (
+      {value.sourceTable && keyResults.length > 0 && !metricOnly && (
         <Card>
           <CardHeader className="pb-3">
             <CardTitle className="text-base">Optional: Direct KPI Update</CardTitle>
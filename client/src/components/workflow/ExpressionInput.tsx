@@ -0,0 +1,236 @@
+import { createContext, useContext, useMemo, useRef, useState, type ComponentProps, type RefObject } from 'react';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { AlertCircle } from 'lucide-react';
+import { EXPRESSION_FUNCTIONS, validateExpression } from '@shared/workflowExpressions';
+
+/**
+ * Context paths available to the step being edited, e.g. trigger.customer_id,
+ * step1Output. WorkflowStepBuilder provides them per step so every step field
+ * can autocomplete the {{= }} expressions typed into it.
+ */
+export const ExpressionPathsContext = createContext<string[]>([]);
+
+interface ExpressionInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Context paths available to this step, e.g. trigger.customer_id, step1Output */
+  contextPaths: string[];
+  placeholder?: string;
+  'data-testid'?: string;
+}
+
+interface Suggestion {
+  label: string;
+  insert: string;
+  detail: string;
+}
+
+// The expression text before the cursor when it is inside an unclosed {{= marker
+function openExpressionBefore(text: string): string {
+  const start = text.lastIndexOf('{{=');
+  if (start === -1 || text.indexOf('}}', start) !== -1) return '';
+  return text.slice(start + 3);
+}
+
+/**
+ * Suggestions for the identifier (including dotted path) right before the
+ * cursor. expressionBefore picks out the expression text the cursor is in.
+ */
+function useExpressionAutocomplete(
+  value: string,
+  contextPaths: string[],
+  expressionBefore: (text: string) => string
+) {
+  const [cursor, setCursor] = useState(0);
+  const [focused, setFocused] = useState(false);
+
+  const currentToken = /[\w$.[\]]*$/.exec(expressionBefore(value.slice(0, cursor)))?.[0] || '';
+
+  const suggestions = useMemo<Suggestion[]>(() => {
+    if (!currentToken) return [];
+    const needle = currentToken.toLowerCase();
+    const paths = contextPaths
+      .filter(path => path.toLowerCase().startsWith(needle) && path !== currentToken)
+      .map(path => ({ label: path, insert: path, detail: 'context' }));
+    const functions = currentToken.includes('.')
+      ? []
+      : Object.entries(EXPRESSION_FUNCTIONS)
+          .filter(([name]) => name.startsWith(needle))
+          .map(([name, fn]) => ({ label: fn.signature, insert: `${name}(`, detail: fn.description }));
+    return [...paths, ...functions].slice(0, 8);
+  }, [currentToken, contextPaths]);
+
+  /** Replace the current token with a suggestion; returns the new value and cursor position */
+  const complete = (suggestion: Suggestion) => {
+    const start = cursor - currentToken.length;
+    const next = value.slice(0, start) + suggestion.insert + value.slice(cursor);
+    const nextCursor = start + suggestion.insert.length;
+    setCursor(nextCursor);
+    return { next, nextCursor };
+  };
+
+  const fieldHandlers = {
+    onSelect: (e: { currentTarget: HTMLInputElement | HTMLTextAreaElement }) => setCursor(e.currentTarget.selectionStart ?? 0),
+    onFocus: () => setFocused(true),
+    onBlur: () => setTimeout(() => setFocused(false), 150),
+  };
+
+  return { suggestions: focused ? suggestions : [], setCursor, complete, fieldHandlers };
+}
+
+function refocus(ref: RefObject<HTMLInputElement | HTMLTextAreaElement>, position: number) {
+  requestAnimationFrame(() => {
+    ref.current?.focus();
+    ref.current?.setSelectionRange(position, position);
+  });
+}
+
+function SuggestionList({ suggestions, onPick }: { suggestions: Suggestion[]; onPick: (suggestion: Suggestion) => void }) {
+  if (suggestions.length === 0) return null;
+  return (
+    <div className="absolute z-20 mt-1 w-full rounded-md border bg-popover shadow-md">
+      {suggestions.map(suggestion => (
+        <button
+          key={suggestion.label}
+          type="button"
+          className="flex w-full items-center justify-between gap-2 px-3 py-1.5 text-left text-xs hover:bg-accent"
+          onMouseDown={(e) => {
+            e.preventDefault();
+            onPick(suggestion);
+          }}
+        >
+          <code>{suggestion.label}</code>
+          <span className="truncate text-muted-foreground">{suggestion.detail}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Text input for a workflow expression with autocomplete for context paths and
+ * functions, plus inline validation (syntax errors, unknown functions, type hints).
+ */
+export function ExpressionInput({ value, onChange, contextPaths, placeholder, ...props }: ExpressionInputProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const { suggestions, setCursor, complete, fieldHandlers } = useExpressionAutocomplete(value, contextPaths, text => text);
+
+  const validation = useMemo(
+    () => (value.trim() ? validateExpression(value, contextPaths) : null),
+    [value, contextPaths]
+  );
+
+  const applySuggestion = (suggestion: Suggestion) => {
+    const { next, nextCursor } = complete(suggestion);
+    onChange(next);
+    refocus(textareaRef, nextCursor);
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="relative">
+        <Textarea
+          ref={textareaRef}
+          value={value}
+          placeholder={placeholder}
+          rows={2}
+          className={`font-mono text-sm ${validation && !validation.valid ? 'border-red-500' : ''}`}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setCursor(e.target.selectionStart);
+          }}
+          {...fieldHandlers}
+          data-testid={props['data-testid']}
+        />
+        <SuggestionList suggestions={suggestions} onPick={applySuggestion} />
+      </div>
+
+      {validation && (
+        <div className="space-y-0.5 text-xs">
+          {validation.errors.map(error => (
+            <p key={error} className="flex items-center gap-1 text-red-600 dark:text-red-400">
+              <AlertCircle className="h-3 w-3 shrink-0" />
+              {error}
+            </p>
+          ))}
+          {validation.warnings.map(warning => (
+            <p key={warning} className="text-amber-600 dark:text-amber-400">{warning}</p>
+          ))}
+          {validation.valid && validation.type !== 'any' && (
+            <Badge variant="outline" className="text-xs">returns {validation.type}</Badge>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Completing a suggestion goes through the field's own onChange, as if the text had been typed
+function emitValue(element: HTMLInputElement | HTMLTextAreaElement, next: string) {
+  const setValue = Object.getOwnPropertyDescriptor(Object.getPrototypeOf(element), 'value')?.set;
+  setValue?.call(element, next);
+  element.dispatchEvent(new Event('input', { bubbles: true }));
+}
+
+/**
+ * Drop-in replacement for Input in step fields: autocompletes context paths and
+ * functions while the cursor is inside a {{= }} expression.
+ */
+export function TemplateInput({ onChange, ...props }: ComponentProps<typeof Input>) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const contextPaths = useContext(ExpressionPathsContext);
+  const { suggestions, setCursor, complete, fieldHandlers } = useExpressionAutocomplete(String(props.value ?? ''), contextPaths, openExpressionBefore);
+
+  const applySuggestion = (suggestion: Suggestion) => {
+    if (!inputRef.current) return;
+    const { next, nextCursor } = complete(suggestion);
+    emitValue(inputRef.current, next);
+    refocus(inputRef, nextCursor);
+  };
+
+  return (
+    <div className="relative w-full">
+      <Input
+        ref={inputRef}
+        {...props}
+        onChange={(e) => {
+          onChange?.(e);
+          setCursor(e.target.selectionStart ?? 0);
+        }}
+        {...fieldHandlers}
+      />
+      <SuggestionList suggestions={suggestions} onPick={applySuggestion} />
+    </div>
+  );
+}
+
+/** Textarea counterpart of TemplateInput */
+export function TemplateTextarea({ onChange, ...props }: ComponentProps<typeof Textarea>) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const contextPaths = useContext(ExpressionPathsContext);
+  const { suggestions, setCursor, complete, fieldHandlers } = useExpressionAutocomplete(String(props.value ?? ''), contextPaths, openExpressionBefore);
+
+  const applySuggestion = (suggestion: Suggestion) => {
+    if (!textareaRef.current) return;
+    const { next, nextCursor } = complete(suggestion);
+    emitValue(textareaRef.current, next);
+    refocus(textareaRef, nextCursor);
+  };
+
+  return (
+    <div className="relative w-full">
+      <Textarea
+        ref={textareaRef}
+        {...props}
+        onChange={(e) => {
+          onChange?.(e);
+          setCursor(e.target.selectionStart);
+        }}
+        {...fieldHandlers}
+      />
+      <SuggestionList suggestions={suggestions} onPick={applySuggestion} />
+    </div>
+  );
+}
@@ -38,6 +38,8 @@ interface SplynxQueryBuilderProps {
   value: SplynxQueryConfig;
   onChange: (config: SplynxQueryConfig) => void;
   keyResults?: KeyResult[];
+  /** Only configure a count query, without result variable or key result update (key result data bindings) */
+  metricOnly?: boolean;
 }
 
 const ENTITY_OPTIONS = [
@@ -73,6 +75,7 @@ export default function SplynxQueryBuilder({
   value,
   onChange,
   keyResults = [],
+  metricOnly = false,
 }: SplynxQueryBuilderProps) {
   const [showVariablePopover, setShowVariablePopover] = useState<{ filterId: string } | null>(null);
   const [testResults, setTestResults] = useState<{
@@ -235,44 +238,48 @@ export default function SplynxQueryBuilder({
               </Select>
             </div>
 
+            {!metricOnly && (
+              <div className="space-y-2">
+                <Label>Query Mode</Label>
+                <Select
+                  value={value.mode || 'count'}
+                  onValueChange={(mode) => onChange({
+                    ...value,
+                    mode: mode as SplynxQueryConfig['mode'],
+                  })}
+                >
+                  <SelectTrigger data-testid="select-splynx-mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MODE_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  {value.mode === 'count' ? 'Returns number of records' : 'Returns full record list with IDs'}
+                </p>
+              </div>
+            )}
+          </div>
+
+          {!metricOnly && (
             <div className="space-y-2">
-              <Label>Query Mode</Label>
-              <Select
-                value={value.mode || 'count'}
-                onValueChange={(mode) => onChange({
-                  ...value,
-                  mode: mode as SplynxQueryConfig['mode'],
-                })}
-              >
-                <SelectTrigger data-testid="select-splynx-mode">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  {MODE_OPTIONS.map(option => (
-                    <SelectItem key={option.value} value={option.value}>
-                      {option.label}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              <Label>Result Variable Name</Label>
+              <Input
+                value={value.resultVariable || ''}
+                onChange={(e) => onChange({ ...value, resultVariable: e.target.value })}
+                placeholder="e.g., customerCount, leadList"
+                data-testid="input-result-variable"
+              />
               <p className="text-xs text-muted-foreground">
-                {value.mode === 'count' ? 'Returns number of records' : 'Returns full record list with IDs'}
+                Store result in this variable for use in later steps
               </p>
             </div>
-          </div>
-
-          <div className="space-y-2">
-            <Label>Result Variable Name</Label>
-            <Input
-              value={value.resultVariable || ''}
-              onChange={(e) => onChange({ ...value, resultVariable: e.target.value })}
-              placeholder="e.g., customerCount, leadList"
-              data-testid="input-result-variable"
-            />
-            <p className="text-xs text-muted-foreground">
-              Store result in this variable for use in later steps
-            </p>
-          </div>
+          )}
 
           {value.entity && (
             <>
@@ -595,103 +602,107 @@ export default function SplynxQueryBuilder({
             </>
           )}
 
-          <div className="pt-4 border-t">
-            <div className="flex items-center justify-between mb-2">
-              <Label>Update Key Result (Optional)</Label>
-              <Badge variant="outline" className="text-xs">Auto-update KPI</Badge>
-            </div>
-            
-            {value.updateKeyResult ? (
-              <Card className="p-3 space-y-3 bg-muted/30">
-                <div className="space-y-2">
-                  <Label className="text-xs">Target Key Result</Label>
-                  <Select
-                    value={value.updateKeyResult.keyResultId?.toString() || ''}
-                    onValueChange={(id) => onChange({
-                      ...value,
-                      updateKeyResult: {
-                        ...value.updateKeyResult!,
-                        keyResultId: parseInt(id),
-                      }
-                    })}
-                  >
-                    <SelectTrigger className="h-8 text-sm" data-testid="select-target-key-result">
-                      <SelectValue placeholder="Select Key Result..." />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {keyResults.map((kr) => (
-                        <SelectItem key={kr.id} value={kr.id.toString()}>
-                          {kr.title} ({kr.currentValue}/{kr.targetValue})
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-                
-                <div className="space-y-2">
-                  <Label className="text-xs">Update Type</Label>
-                  <Select
-                    value={value.updateKeyResult.updateType || 'set_value'}
-                    onValueChange={(type) => onChange({
-                      ...value,
-                      updateKeyResult: {
-                        ...value.updateKeyResult!,
-                        updateType: type as 'set_value' | 'increment',
-                      }
-                    })}
-                  >
-                    <SelectTrigger className="h-8 text-sm" data-testid="select-update-type">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="set_value">Set value</SelectItem>
-                      <SelectItem value="increment">Increment</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
+          {!metricOnly && (
+            <div className="pt-4 border-t">
+              <div className="flex items-center justify-between mb-2">
+                <Label>Update Key Result (Optional)</Label>
+                <Badge variant="outline" className="text-xs">Auto-update KPI</Badge>
+              </div>
+              
+              {value.updateKeyResult ? (
+                <Card className="p-3 space-y-3 bg-muted/30">
+                  <div className="space-y-2">
+                    <Label className="text-xs">Target Key Result</Label>
+                    <Select
+                      value={value.updateKeyResult.keyResultId?.toString() || ''}
+                      onValueChange={(id) => onChange({
+                        ...value,
+                        updateKeyResult: {
+                          ...value.updateKeyResult!,
+                          keyResultId: parseInt(id),
+                        }
+                      })}
+                    >
+                      <SelectTrigger className="h-8 text-sm" data-testid="select-target-key-result">
+                        <SelectValue placeholder="Select Key Result..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {keyResults.map((kr) => (
+                          <SelectItem key={kr.id} value={kr.id.toString()}>
+                            {kr.title} ({kr.currentValue}/{kr.targetValue})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  
+                  <div className="space-y-2">
+                    <Label className="text-xs">Update Type</Label>
+                    <Select
+                      value={value.updateKeyResult.updateType || 'set_value'}
+                      onValueChange={(type) => onChange({
+                        ...value,
+                        updateKeyResult: {
+                          ...value.updateKeyResult!,
+                          updateType: type as 'set_value' | 'increment',
+                        }
+                      })}
+                    >
+                      <SelectTrigger className="h-8 text-sm" data-testid="select-update-type">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="set_value">Set value</SelectItem>
+                        <SelectItem value="increment">Increment</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
 
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onChange({ ...value, updateKeyResult: undefined })}
+                    className="w-full"
+                    data-testid="button-remove-key-result-update"
+                  >
+                    <X className="h-3 w-3 mr-1" />
+                    Remove KR Update
+                  </Button>
+                </Card>
+              ) : (
                 <Button
                   type="button"
-                  variant="ghost"
+                  variant="outline"
                   size="sm"
-                  onClick={() => onChange({ ...value, updateKeyResult: undefined })}
-                  className="w-full"
-                  data-testid="button-remove-key-result-update"
+                  onClick={() => onChange({
+                    ...value,
+                    updateKeyResult: {
+                      keyResultId: keyResults[0]?.id || 0,
+                      updateType: 'set_value',
+                      useResultAs: 'value',
+                    }
+                  })}
+                  disabled={keyResults.length === 0}
+                  data-testid="button-add-key-result-update"
                 >
-                  <X className="h-3 w-3 mr-1" />
-                  Remove KR Update
+                  <Plus className="h-3 w-3 mr-1" />
+                  Auto-update Key Result
                 </Button>
-              </Card>
-            ) : (
-              <Button
-                type="button"
-                variant="outline"
-                size="sm"
-                onClick={() => onChange({
-                  ...value,
-                  updateKeyResult: {
-                    keyResultId: keyResults[0]?.id || 0,
-                    updateType: 'set_value',
-                    useResultAs: 'value',
-                  }
-                })}
-                disabled={keyResults.length === 0}
-                data-testid="button-add-key-result-update"
-              >
-                <Plus className="h-3 w-3 mr-1" />
-                Auto-update Key Result
-              </Button>
-            )}
-          </div>
+              )}
+            </div>
+          )}
         </CardContent>
       </Card>
 
-      <div className="bg-blue-50 dark:bg-blue-950/30 border border-blue-200 dark:border-blue-800 rounded-lg p-3">
-        <p className="text-xs text-blue-900 dark:text-blue-100">
-          <strong>💡 Tip:</strong> Use <Badge variant="outline" className="mx-1 text-xs">count</Badge> mode for KPIs and metrics. 
-          Use <Badge variant="outline" className="mx-1 text-xs">list</Badge> mode when you need to iterate over records or extract IDs for work item creation.
-        </p>
-      </div>
+      {!metricOnly && (
+        <div className="bg-blue-50 dark:bg-blue-950/30 border border-blue-200 dark:border-blue-800 rounded-lg p-3">
+          <p className="text-xs text-blue-900 dark:text-blue-100">
+            <strong>💡 Tip:</strong> Use <Badge variant="outline" className="mx-1 text-xs">count</Badge> mode for KPIs and metrics. 
+            Use <Badge variant="outline" className="mx-1 text-xs">list</Badge> mode when you need to iterate over records or extract IDs for work item creation.
+          </p>
+        </div>
+      )}
     </div>
   );
 }
@@ -1,8 +1,8 @@
 import { useState, useRef, useEffect } from 'react';
 import { Input } from '@/components/ui/input';
-import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
 import { Sparkles, Hash, User, Mail, Tags, Calendar, MapPin, FileText } from 'lucide-react';
+import { TemplateInput, TemplateTextarea } from './ExpressionInput';
 
 interface FieldOption {
   name: string;
@@ -77,7 +77,7 @@ export function VariableFieldPicker({
     <div className={`relative ${className}`} ref={dropdownRef}>
       <div className="flex gap-1 items-start">
         {multiline ? (
-          <Textarea
+          <TemplateTextarea
             value={value}
             onChange={(e) => onChange(e.target.value)}
             placeholder={placeholder}
@@ -86,7 +86,7 @@ export function VariableFieldPicker({
             data-testid="textarea-variable-field"
           />
         ) : (
-          <Input
+          <TemplateInput
             value={value}
             onChange={(e) => onChange(e.target.value)}
             placeholder={placeholder}
@@ -0,0 +1,192 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { CheckCircle, Clock, UserCheck, XCircle } from 'lucide-react';
+
+interface WorkflowApproval {
+  id: number;
+  workflowId: number;
+  workflowName: string;
+  runId: number;
+  stepIndex: number;
+  stepName: string | null;
+  payload: any;
+  allowEdits: boolean;
+  status: 'pending' | 'approved' | 'rejected';
+  timedOut: boolean;
+  comment: string | null;
+  respondedAt: string | null;
+  expiresAt: string | null;
+  escalatedAt: string | null;
+  createdAt: string;
+  canRespond: boolean;
+}
+
+/**
+ * Approval requests raised by agent workflow approval steps. Pending requests
+ * can be approved or rejected here, with an edited payload when the step allows it.
+ */
+export function WorkflowApprovalsPanel() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<'pending' | 'approved' | 'rejected'>('pending');
+  const [comments, setComments] = useState<Record<number, string>>({});
+  const [editedPayloads, setEditedPayloads] = useState<Record<number, string>>({});
+
+  const { data: approvals = [], isLoading } = useQuery<WorkflowApproval[]>({
+    queryKey: ['/api/agents/approvals', { status }],
+    queryFn: async () => {
+      const response = await apiRequest(`/api/agents/approvals?status=${status}`);
+      return response.json();
+    },
+    refetchInterval: status === 'pending' ? 30000 : false,
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ approval, decision }: { approval: WorkflowApproval; decision: 'approved' | 'rejected' }) => {
+      const edited = editedPayloads[approval.id];
+      const response = await apiRequest(`/api/agents/approvals/${approval.id}/respond`, {
+        method: 'POST',
+        body: {
+          decision,
+          comment: comments[approval.id] || undefined,
+          payload: approval.allowEdits && edited !== undefined ? JSON.parse(edited) : undefined,
+        },
+      });
+      return response.json();
+    },
+    onSuccess: (_, { decision }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/agents/approvals'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/agents/runs'] });
+      toast({
+        title: decision === 'approved' ? 'Approved' : 'Rejected',
+        description: 'The workflow run is continuing',
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Failed to respond',
+        description: error instanceof SyntaxError ? 'Edited payload must be valid JSON' : error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle>Workflow Approvals</CardTitle>
+          <CardDescription>
+            Runs paused at an approval step continue down the approved or rejected path once you respond
+          </CardDescription>
+        </div>
+        <Select value={status} onValueChange={(value) => setStatus(value as typeof status)}>
+          <SelectTrigger className="w-36" data-testid="select-approval-status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="pending">Pending</SelectItem>
+            <SelectItem value="approved">Approved</SelectItem>
+            <SelectItem value="rejected">Rejected</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading approvals...</p>
+        ) : approvals.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-8 text-muted-foreground">
+            <UserCheck className="h-10 w-10 mb-3" />
+            <p className="text-sm">No {status} approvals</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {approvals.map((approval) => (
+              <div key={approval.id} className="border rounded-lg p-4 space-y-3" data-testid={`approval-${approval.id}`}>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{approval.workflowName}</span>
+                  <span className="text-sm text-muted-foreground">
+                    Step {approval.stepIndex + 1}{approval.stepName ? `: ${approval.stepName}` : ''} • Run #{approval.runId}
+                  </span>
+                  {approval.escalatedAt && <Badge variant="secondary">escalated</Badge>}
+                  {approval.timedOut && <Badge variant="outline">timed out</Badge>}
+                  {approval.expiresAt && approval.status === 'pending' && (
+                    <Badge variant="outline" className="ml-auto">
+                      <Clock className="h-3 w-3 mr-1" />
+                      Expires {new Date(approval.expiresAt).toLocaleString()}
+                    </Badge>
+                  )}
+                </div>
+
+                {approval.status === 'pending' && approval.allowEdits && approval.canRespond ? (
+                  <div>
+                    <Label className="text-xs">Payload (editable)</Label>
+                    <Textarea
+                      value={editedPayloads[approval.id] ?? JSON.stringify(approval.payload, null, 2)}
+                      onChange={(e) => setEditedPayloads({ ...editedPayloads, [approval.id]: e.target.value })}
+                      className="font-mono text-xs"
+                      rows={6}
+                      data-testid={`textarea-approval-payload-${approval.id}`}
+                    />
+                  </div>
+                ) : (
+                  <pre className="bg-black/5 dark:bg-black/20 rounded p-3 text-xs font-mono overflow-x-auto">
+                    {JSON.stringify(approval.payload, null, 2)}
+                  </pre>
+                )}
+
+                {approval.status === 'pending' ? (
+                  approval.canRespond ? (
+                    <div className="space-y-2">
+                      <Textarea
+                        placeholder="Comment (optional)"
+                        value={comments[approval.id] || ''}
+                        onChange={(e) => setComments({ ...comments, [approval.id]: e.target.value })}
+                        rows={2}
+                      />
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => respondMutation.mutate({ approval, decision: 'approved' })}
+                          disabled={respondMutation.isPending}
+                          data-testid={`button-approve-${approval.id}`}
+                        >
+                          <CheckCircle className="h-4 w-4 mr-1" />
+                          Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          onClick={() => respondMutation.mutate({ approval, decision: 'rejected' })}
+                          disabled={respondMutation.isPending}
+                          data-testid={`button-reject-${approval.id}`}
+                        >
+                          <XCircle className="h-4 w-4 mr-1" />
+                          Reject
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">Waiting for the assigned approver</p>
+                  )
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    {approval.status} {approval.respondedAt ? `on ${new Date(approval.respondedAt).toLocaleString()}` : ''}
+                    {approval.comment ? ` — ${approval.comment}` : ''}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
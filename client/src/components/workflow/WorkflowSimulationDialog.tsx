@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { FlaskConical, Loader2 } from 'lucide-react';
+
+interface TraceDiffEntry {
+  step: number;
+  name: string;
+  type: string;
+  change: 'added' | 'removed' | 'changed' | 'unchanged';
+  before?: { success: boolean; output?: any; error?: string };
+  after?: { success: boolean; output?: any; error?: string };
+  changedFields?: string[];
+}
+
+interface SimulationResult {
+  runId: number;
+  status: string;
+  errorMessage: string | null;
+  executionLog: any[];
+  comparedToRunId: number | null;
+  diff: TraceDiffEntry[];
+}
+
+interface WorkflowSimulationDialogProps {
+  open: boolean;
+  onClose: () => void;
+  workflowId: number;
+  steps: any[];
+}
+
+const CHANGE_VARIANTS: Record<TraceDiffEntry['change'], 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  added: 'default',
+  changed: 'secondary',
+  removed: 'destructive',
+  unchanged: 'outline',
+};
+
+/**
+ * Dry-run the current (possibly unsaved) workflow steps. Write steps are recorded
+ * rather than executed, and read steps can be answered from fixture JSON keyed by
+ * step id or name. The trace is diffed against the workflow's previous run.
+ */
+export function WorkflowSimulationDialog({ open, onClose, workflowId, steps }: WorkflowSimulationDialogProps) {
+  const { toast } = useToast();
+  const [triggerJson, setTriggerJson] = useState('{}');
+  const [fixturesJson, setFixturesJson] = useState('{}');
+  const [result, setResult] = useState<SimulationResult | null>(null);
+
+  const simulateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(`/api/agents/workflows/${workflowId}/simulate`, {
+        method: 'POST',
+        body: {
+          workflowDefinition: steps,
+          trigger: JSON.parse(triggerJson || '{}'),
+          fixtures: JSON.parse(fixturesJson || '{}'),
+        },
+      });
+      return response.json() as Promise<SimulationResult>;
+    },
+    onSuccess: (data) => setResult(data),
+    onError: (error: any) => {
+      toast({
+        title: 'Simulation failed',
+        description: error instanceof SyntaxError ? 'Trigger data and fixtures must be valid JSON' : error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[85vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FlaskConical className="h-4 w-4" />
+            Simulate Workflow
+          </DialogTitle>
+          <DialogDescription>
+            Write steps are recorded instead of executed. Provide fixtures keyed by step id or step name to replace read step results.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label>Trigger Data (JSON)</Label>
+            <Textarea
+              value={triggerJson}
+              onChange={(e) => setTriggerJson(e.target.value)}
+              className="font-mono text-xs"
+              rows={6}
+              data-testid="textarea-simulation-trigger"
+            />
+          </div>
+          <div>
+            <Label>Fixtures (JSON)</Label>
+            <Textarea
+              value={fixturesJson}
+              onChange={(e) => setFixturesJson(e.target.value)}
+              placeholder='{ "Fetch customers": [{ "id": 1 }] }'
+              className="font-mono text-xs"
+              rows={6}
+              data-testid="textarea-simulation-fixtures"
+            />
+          </div>
+        </div>
+
+        <Button
+          onClick={() => simulateMutation.mutate()}
+          disabled={simulateMutation.isPending || steps.length === 0}
+          data-testid="button-run-simulation"
+        >
+          {simulateMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <FlaskConical className="h-4 w-4 mr-2" />
+          )}
+          Run Simulation
+        </Button>
+
+        {result && (
+          <ScrollArea className="max-h-[40vh]">
+            <div className="space-y-3 pr-3">
+              <div className="flex items-center gap-2 text-sm">
+                <Badge variant={result.status === 'completed' ? 'default' : 'destructive'}>
+                  {result.status}
+                </Badge>
+                <span className="text-muted-foreground">
+                  Run #{result.runId}
+                  {result.comparedToRunId ? ` compared with run #${result.comparedToRunId}` : ' (no earlier run to compare with)'}
+                </span>
+              </div>
+              {result.errorMessage && (
+                <p className="text-sm text-destructive">{result.errorMessage}</p>
+              )}
+
+              {result.diff.map((entry) => (
+                <div key={`${entry.step}-${entry.change}`} className="border rounded p-3 text-xs" data-testid={`simulation-step-${entry.step}`}>
+                  <div className="flex items-center gap-2 mb-1">
+                    <Badge variant={entry.after?.success === false ? 'destructive' : 'outline'}>
+                      Step {entry.step}
+                    </Badge>
+                    <span className="font-semibold">{entry.name}</span>
+                    <span className="text-muted-foreground">({entry.type})</span>
+                    <Badge variant={CHANGE_VARIANTS[entry.change]} className="ml-auto">
+                      {entry.change}
+                      {entry.changedFields ? `: ${entry.changedFields.join(', ')}` : ''}
+                    </Badge>
+                  </div>
+                  {entry.after?.output?.recordedWrite && (
+                    <p className="text-amber-700 dark:text-amber-300 mb-1">Recorded write, not executed</p>
+                  )}
+                  {entry.after?.error && (
+                    <p className="text-destructive">{entry.after.error}</p>
+                  )}
+                  <details>
+                    <summary className="cursor-pointer text-muted-foreground">View output</summary>
+                    <div className="grid grid-cols-2 gap-2 mt-1">
+                      <pre className="p-2 bg-black/5 dark:bg-black/30 rounded overflow-x-auto">
+                        {entry.before ? JSON.stringify(entry.before.output, null, 2) : '—'}
+                      </pre>
+                      <pre className="p-2 bg-black/5 dark:bg-black/30 rounded overflow-x-auto">
+                        {entry.after ? JSON.stringify(entry.after.output, null, 2) : '—'}
+                      </pre>
+                    </div>
+                  </details>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
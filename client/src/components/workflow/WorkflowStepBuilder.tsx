@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useQuery, useMutation } from '@tanstack/react-query';
-import { Plus, Trash2, GripVertical, Settings, Zap, Target, AlertCircle, Database, Calculator, Loader2, Eye, Cloud, Repeat, ClipboardList, FileText, Hash, User, Bot, GitBranch, X } from 'lucide-react';
+import { Plus, Trash2, GripVertical, Settings, Zap, Target, AlertCircle, Database, Calculator, Loader2, Eye, Cloud, Repeat, ClipboardList, FileText, Hash, User, Bot, GitBranch, GitFork, GitMerge, Workflow, UserCheck, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
@@ -18,10 +18,14 @@ import SplynxQueryBuilder from './SplynxQueryBuilder';
 import { VariableFieldPicker } from './VariableFieldPicker';
 import { WorkflowTemplateSelector } from './WorkflowTemplateSelector';
 import { DataInspectorPanel } from './DataInspectorPanel';
+import { ExpressionInput, ExpressionPathsContext, TemplateInput, TemplateTextarea } from './ExpressionInput';
+import { validateStepExpressions } from '@shared/workflowExpressions';
+import { agentWorkflowSnapshot } from '@shared/workflowVersionDiff';
+import { WorkflowVersionHistory } from './WorkflowVersionHistory';
 
 interface WorkflowStep {
   id: string;
-  type: 'integration_action' | 'strategy_update' | 'log_event' | 'notification' | 'data_source_query' | 'data_transformation' | 'splynx_query' | 'for_each' | 'create_work_item' | 'ai_draft_response' | 'conditional_paths';
+  type: 'integration_action' | 'strategy_update' | 'log_event' | 'notification' | 'data_source_query' | 'data_transformation' | 'splynx_query' | 'for_each' | 'create_work_item' | 'ai_draft_response' | 'conditional_paths' | 'parallel' | 'join' | 'call_workflow' | 'approval';
   name: string;
   config?: any;
 }
@@ -34,6 +38,10 @@ interface WorkflowStepBuilderProps {
   objectives?: Objective[];
   triggerType?: string;
   selectedTrigger?: any;
+  /** When set, shows version history with diff and rollback for the saved workflow */
+  versionsUrl?: string;
+  onVersionRestored?: (result: any) => void;
+  hasUnsavedChanges?: boolean;
 }
 
 interface EmailTemplate {
@@ -202,7 +210,7 @@ function EmailCampaignConfig({ step, updateStep }: EmailCampaignConfigProps) {
 
         <div>
           <Label>Customer IDs (optional)</Label>
-          <Textarea
+          <TemplateTextarea
             placeholder="Leave empty to use results from previous data query step, or enter comma-separated customer IDs"
             rows={2}
             value={step.config.parameters?.customerIds || ''}
@@ -220,7 +228,7 @@ function EmailCampaignConfig({ step, updateStep }: EmailCampaignConfigProps) {
 
         <div>
           <Label>Custom Variables (optional, JSON)</Label>
-          <Textarea
+          <TemplateTextarea
             placeholder='{"custom_month": "January", "custom_offer": "50% off"}'
             rows={3}
             value={step.config.parameters?.customVariables || ''}
@@ -572,6 +580,30 @@ const STEP_TYPES = {
     icon: GitBranch,
     color: 'bg-amber-500',
     description: 'Route workflow based on field conditions'
+  },
+  parallel: {
+    label: 'Parallel Branches',
+    icon: GitFork,
+    color: 'bg-sky-500',
+    description: 'Run named branches of steps at the same time'
+  },
+  join: {
+    label: 'Join Branches',
+    icon: GitMerge,
+    color: 'bg-teal-500',
+    description: 'Wait for parallel branches and merge their outputs'
+  },
+  call_workflow: {
+    label: 'Call Workflow',
+    icon: Workflow,
+    color: 'bg-rose-500',
+    description: 'Run another agent workflow and use its outputs'
+  },
+  approval: {
+    label: 'Human Approval',
+    icon: UserCheck,
+    color: 'bg-lime-600',
+    description: 'Pause until a person approves or rejects a proposed payload'
   }
 };
 
@@ -985,7 +1017,7 @@ function NestedConditionalEditor({
                             <div className="space-y-2 pt-1 border-t">
                               <div>
                                 <Label className="text-xs">Title</Label>
-                                <Input
+                                <TemplateInput
                                   value={nestedStep.config?.title || ''}
                                   onChange={(e) => updateNestedPathStep(nestedPathIndex, nestedStepIndex, {
                                     config: { ...nestedStep.config, title: e.target.value }
@@ -1018,7 +1050,7 @@ function NestedConditionalEditor({
                           {nestedStep.type === 'log_event' && (
                             <div className="pt-1 border-t">
                               <Label className="text-xs">Message</Label>
-                              <Input
+                              <TemplateInput
                                 value={nestedStep.config?.message || ''}
                                 onChange={(e) => updateNestedPathStep(nestedPathIndex, nestedStepIndex, {
                                   config: { ...nestedStep.config, message: e.target.value }
@@ -1033,7 +1065,7 @@ function NestedConditionalEditor({
                             <div className="space-y-2 pt-1 border-t">
                               <div>
                                 <Label className="text-xs">Ticket ID</Label>
-                                <Input
+                                <TemplateInput
                                   value={nestedStep.config?.ticketId || ''}
                                   onChange={(e) => updateNestedPathStep(nestedPathIndex, nestedStepIndex, {
                                     config: { ...nestedStep.config, ticketId: e.target.value }
@@ -1237,7 +1269,7 @@ function NestedConditionalEditor({
                         <div className="space-y-2 pt-1 border-t">
                           <div>
                             <Label className="text-xs">Ticket ID</Label>
-                            <Input
+                            <TemplateInput
                               value={nestedStep.config?.ticketId || ''}
                               onChange={(e) => updateNestedDefaultPathStep(nestedStepIndex, {
                                 config: { ...nestedStep.config, ticketId: e.target.value }
@@ -1293,7 +1325,7 @@ function NestedConditionalEditor({
                         <div className="space-y-2 pt-1 border-t">
                           <div>
                             <Label className="text-xs">Title</Label>
-                            <Input
+                            <TemplateInput
                               value={nestedStep.config?.title || ''}
                               onChange={(e) => updateNestedDefaultPathStep(nestedStepIndex, {
                                 config: { ...nestedStep.config, title: e.target.value }
@@ -1326,7 +1358,7 @@ function NestedConditionalEditor({
                       {nestedStep.type === 'log_event' && (
                         <div className="pt-1 border-t">
                           <Label className="text-xs">Message</Label>
-                          <Input
+                          <TemplateInput
                             value={nestedStep.config?.message || ''}
                             onChange={(e) => updateNestedDefaultPathStep(nestedStepIndex, {
                               config: { ...nestedStep.config, message: e.target.value }
@@ -1414,7 +1446,10 @@ export default function WorkflowStepBuilder({
   keyResults = [],
   objectives = [],
   triggerType = 'manual',
-  selectedTrigger
+  selectedTrigger,
+  versionsUrl,
+  onVersionRestored,
+  hasUnsavedChanges
 }: WorkflowStepBuilderProps) {
   const [expandedStep, setExpandedStep] = useState<string | null>(null);
   const [expandedPathSteps, setExpandedPathSteps] = useState<Set<string>>(new Set());
@@ -1427,6 +1462,11 @@ export default function WorkflowStepBuilder({
     queryKey: ['/api/teams'],
   });
 
+  // Fetch agent workflows for Call Workflow step
+  const { data: agentWorkflows = [] } = useQuery<Array<{ id: number; name: string }>>({
+    queryKey: ['/api/agents/workflows'],
+  });
+
   // Fetch users for Create Work Item step
   const { data: users = [] } = useQuery<Array<{ id: number; fullName: string; email: string }>>({
     queryKey: ['/api/users'],
@@ -1468,6 +1508,21 @@ export default function WorkflowStepBuilder({
       { name: 'status', type: 'string', icon: FileText, description: 'Status' },
     ];
   };
+
+  // Context paths visible to a step's expressions: trigger fields plus the
+  // outputs and result variables of every earlier step
+  const getContextPaths = (stepIndex: number) => {
+    const paths = ['trigger', ...getAvailableFields().map((field: any) => `trigger.${field.name}`), 'organizationId', 'workflowId', 'currentItem'];
+    steps.slice(0, stepIndex).forEach((previous, i) => {
+      paths.push(`step${i + 1}Output`);
+      if (previous.config?.resultVariable) {
+        paths.push(previous.config.resultVariable);
+      } else if (previous.type === 'approval') {
+        paths.push('approval');
+      }
+    });
+    return paths;
+  };
   const [cachedIntegrationId, setCachedIntegrationId] = useState<number | null>(null);
 
   // Auto-fix any strategy_update steps missing the required 'type' field
@@ -1686,7 +1741,7 @@ export default function WorkflowStepBuilder({
 
                 <div>
                   <Label>Status Filter (optional)</Label>
-                  <Input
+                  <TemplateInput
                     placeholder="e.g., lead, new, pending"
                     value={step.config.parameters?.statusFilter || ''}
                     onChange={(e) => updateStep(step.id, {
@@ -1742,7 +1797,7 @@ export default function WorkflowStepBuilder({
 
                 <div>
                   <Label>Group ID (optional)</Label>
-                  <Input
+                  <TemplateInput
                     placeholder="e.g., 1, 2, 3"
                     value={step.config.parameters?.groupId || ''}
                     onChange={(e) => updateStep(step.id, {
@@ -1791,7 +1846,7 @@ export default function WorkflowStepBuilder({
 
                 <div>
                   <Label>Task Name</Label>
-                  <Input
+                  <TemplateInput
                     placeholder="e.g., Follow up: {{currentItem.name}}"
                     value={step.config.parameters?.taskName || ''}
                     onChange={(e) => updateStep(step.id, {
@@ -1805,7 +1860,7 @@ export default function WorkflowStepBuilder({
 
                 <div>
                   <Label>Description (Optional)</Label>
-                  <Textarea
+                  <TemplateTextarea
                     placeholder="e.g., Customer ID: {{currentItem.id}}"
                     value={step.config.parameters?.description || ''}
                     onChange={(e) => updateStep(step.id, {
@@ -1871,7 +1926,7 @@ export default function WorkflowStepBuilder({
 
                 <div>
                   <Label>Customer ID</Label>
-                  <Input
+                  <TemplateInput
                     placeholder="{{currentItem.id}}"
                     value={step.config.parameters?.customerId || ''}
                     onChange={(e) => updateStep(step.id, {
@@ -1888,7 +1943,7 @@ export default function WorkflowStepBuilder({
 
                 <div>
                   <Label>Address (Optional)</Label>
-                  <Input
+                  <TemplateInput
                     placeholder="e.g., {{currentItem.address}}"
                     value={step.config.parameters?.address || ''}
                     onChange={(e) => updateStep(step.id, {
@@ -1945,7 +2000,7 @@ export default function WorkflowStepBuilder({
 
                 <div>
                   <Label>Scheduled Start Date</Label>
-                  <Input
+                  <TemplateInput
                     placeholder="e.g., +7 days or YYYY-MM-DD HH:mm"
                     value={step.config.parameters?.scheduledFrom || ''}
                     onChange={(e) => updateStep(step.id, {
@@ -1978,7 +2033,7 @@ export default function WorkflowStepBuilder({
 
                 <div>
                   <Label>Duration (Optional)</Label>
-                  <Input
+                  <TemplateInput
                     placeholder="e.g., 0h 30m"
                     value={step.config.parameters?.duration || ''}
                     onChange={(e) => updateStep(step.id, {
@@ -1995,7 +2050,7 @@ export default function WorkflowStepBuilder({
 
                 <div>
                   <Label>Due Date (Optional)</Label>
-                  <Input
+                  <TemplateInput
                     placeholder="e.g., +14 days or YYYY-MM-DD"
                     value={step.config.parameters?.dueDate || ''}
                     onChange={(e) => updateStep(step.id, {
@@ -2173,7 +2228,7 @@ export default function WorkflowStepBuilder({
 
             <div>
               <Label>Value</Label>
-              <Input
+              <TemplateInput
                 placeholder="Enter value or use {variable} from previous step"
                 value={step.config.value || ''}
                 onChange={(e) => updateStep(step.id, {
@@ -2221,9 +2276,26 @@ export default function WorkflowStepBuilder({
       case 'data_transformation':
         return (
           <div className="space-y-4">
+            <div>
+              <Label>Expression</Label>
+              <ExpressionInput
+                value={step.config.expression || ''}
+                onChange={(expression) => updateStep(step.id, {
+                  config: { ...step.config, expression }
+                })}
+                contextPaths={getContextPaths(stepIndex)}
+                placeholder="e.g., sum(step1Output.records, r => r.amount) ?? 0"
+                data-testid={`input-expression-${step.id}`}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Typed expression with functions like sum, filter, dateAdd and format. Takes precedence over the formula.
+                Other step fields accept {`{{= expression }}`} too, with the same autocomplete.
+              </p>
+            </div>
+
             <div>
               <Label>Formula</Label>
-              <Input
+              <TemplateInput
                 placeholder="e.g., {revenue} / {customers}"
                 value={step.config.formula || ''}
                 onChange={(e) => updateStep(step.id, {
@@ -2368,7 +2440,7 @@ export default function WorkflowStepBuilder({
                             <div className="space-y-3">
                               <div>
                                 <Label className="text-xs">Title</Label>
-                                <Input
+                                <TemplateInput
                                   placeholder="e.g., Follow up with {{currentItem.name}}"
                                   value={childStep.config?.title || ''}
                                   onChange={(e) => updateChildStep({
@@ -2378,7 +2450,7 @@ export default function WorkflowStepBuilder({
                               </div>
                               <div>
                                 <Label className="text-xs">Description</Label>
-                                <Textarea
+                                <TemplateTextarea
                                   placeholder="e.g., Customer ID: {{currentItem.id}}"
                                   value={childStep.config?.description || ''}
                                   onChange={(e) => updateChildStep({
@@ -2413,7 +2485,7 @@ export default function WorkflowStepBuilder({
                             <div className="space-y-3">
                               <div>
                                 <Label className="text-xs">Log Message</Label>
-                                <Textarea
+                                <TemplateTextarea
                                   placeholder="Use {{currentItem.field}} to access item properties"
                                   value={childStep.config?.message || ''}
                                   onChange={(e) => updateChildStep({
@@ -2515,7 +2587,7 @@ export default function WorkflowStepBuilder({
 
                                   <div>
                                     <Label className="text-xs">Description (Optional)</Label>
-                                    <Textarea
+                                    <TemplateTextarea
                                       placeholder="e.g., Customer ID: {{currentItem.id}}"
                                       value={childStep.config.parameters?.description || ''}
                                       onChange={(e) => updateChildStep({
@@ -2624,7 +2696,7 @@ export default function WorkflowStepBuilder({
 
                                   <div>
                                     <Label className="text-xs">Scheduled Start Date (Optional)</Label>
-                                    <Input
+                                    <TemplateInput
                                       placeholder="e.g., +7 days or YYYY-MM-DD HH:mm"
                                       value={childStep.config.parameters?.scheduledFrom || ''}
                                       onChange={(e) => updateChildStep({
@@ -2655,7 +2727,7 @@ export default function WorkflowStepBuilder({
 
                                   <div>
                                     <Label className="text-xs">Duration (Optional)</Label>
-                                    <Input
+                                    <TemplateInput
                                       placeholder="e.g., 0h 30m"
                                       value={childStep.config.parameters?.duration || ''}
                                       onChange={(e) => updateChildStep({
@@ -2753,7 +2825,7 @@ export default function WorkflowStepBuilder({
 
             <div>
               <Label>Due Date (Optional)</Label>
-              <Input
+              <TemplateInput
                 placeholder="e.g., +7 days or YYYY-MM-DD"
                 value={step.config.dueDate || ''}
                 onChange={(e) => updateStep(step.id, {
@@ -2948,7 +3020,7 @@ export default function WorkflowStepBuilder({
           <div className="space-y-4">
             <div>
               <Label>Log Message</Label>
-              <Textarea
+              <TemplateTextarea
                 placeholder="Enter log message. Use {variables} from previous steps"
                 value={step.config.message || ''}
                 onChange={(e) => updateStep(step.id, {
@@ -3368,7 +3440,7 @@ export default function WorkflowStepBuilder({
                                       </div>
                                       <div>
                                         <Label className="text-xs">Due Date</Label>
-                                        <Input
+                                        <TemplateInput
                                           placeholder="+7 days or YYYY-MM-DD"
                                           value={pathStep.config?.dueDate || ''}
                                           onChange={(e) => updatePathStep(pathIndex, stepIndex, {
@@ -3466,7 +3538,7 @@ export default function WorkflowStepBuilder({
                                     </div>
                                     <div>
                                       <Label className="text-xs">System Prompt Override (optional)</Label>
-                                      <Textarea
+                                      <TemplateTextarea
                                         value={pathStep.config?.systemPrompt || ''}
                                         onChange={(e) => updatePathStep(pathIndex, stepIndex, {
                                           config: { ...pathStep.config, systemPrompt: e.target.value }
@@ -3585,7 +3657,7 @@ export default function WorkflowStepBuilder({
                                     </div>
                                     <div>
                                       <Label className="text-xs">Message</Label>
-                                      <Textarea
+                                      <TemplateTextarea
                                         value={pathStep.config?.message || ''}
                                         onChange={(e) => updatePathStep(pathIndex, stepIndex, {
                                           config: { ...pathStep.config, message: e.target.value }
@@ -3625,7 +3697,7 @@ export default function WorkflowStepBuilder({
                                   <div className="space-y-3 pt-2 border-t">
                                     <div>
                                       <Label className="text-xs">Message</Label>
-                                      <Textarea
+                                      <TemplateTextarea
                                         value={pathStep.config?.message || ''}
                                         onChange={(e) => updatePathStep(pathIndex, stepIndex, {
                                           config: { ...pathStep.config, message: e.target.value }
@@ -3821,7 +3893,7 @@ export default function WorkflowStepBuilder({
                                   </div>
                                   <div>
                                     <Label className="text-xs">Due Date</Label>
-                                    <Input
+                                    <TemplateInput
                                       placeholder="+7 days or YYYY-MM-DD"
                                       value={pathStep.config?.dueDate || ''}
                                       onChange={(e) => updateDefaultPathStep(stepIndex, {
@@ -3919,7 +3991,7 @@ export default function WorkflowStepBuilder({
                                 </div>
                                 <div>
                                   <Label className="text-xs">System Prompt Override (optional)</Label>
-                                  <Textarea
+                                  <TemplateTextarea
                                     value={pathStep.config?.systemPrompt || ''}
                                     onChange={(e) => updateDefaultPathStep(stepIndex, {
                                       config: { ...pathStep.config, systemPrompt: e.target.value }
@@ -4038,7 +4110,7 @@ export default function WorkflowStepBuilder({
                                 </div>
                                 <div>
                                   <Label className="text-xs">Message</Label>
-                                  <Textarea
+                                  <TemplateTextarea
                                     value={pathStep.config?.message || ''}
                                     onChange={(e) => updateDefaultPathStep(stepIndex, {
                                       config: { ...pathStep.config, message: e.target.value }
@@ -4078,7 +4150,7 @@ export default function WorkflowStepBuilder({
                               <div className="space-y-3 pt-2 border-t">
                                 <div>
                                   <Label className="text-xs">Message</Label>
-                                  <Textarea
+                                  <TemplateTextarea
                                     value={pathStep.config?.message || ''}
                                     onChange={(e) => updateDefaultPathStep(stepIndex, {
                                       config: { ...pathStep.config, message: e.target.value }
@@ -4129,6 +4201,488 @@ export default function WorkflowStepBuilder({
           </div>
         );
 
+      case 'parallel':
+        const branches = step.config.branches || [];
+        const updateBranch = (branchIndex: number, updates: any) => {
+          const updated = [...branches];
+          updated[branchIndex] = { ...updated[branchIndex], ...updates };
+          updateStep(step.id, { config: { ...step.config, branches: updated } });
+        };
+        return (
+          <div className="space-y-4">
+            <div className="flex justify-between items-center">
+              <div>
+                <Label>Branches</Label>
+                <p className="text-xs text-muted-foreground">
+                  Branches start together. Add a Join step later in the workflow to wait for them.
+                </p>
+              </div>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => updateStep(step.id, {
+                  config: {
+                    ...step.config,
+                    branches: [...branches, { name: `branch${branches.length + 1}`, steps: [] }]
+                  }
+                })}
+                data-testid="button-add-branch"
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Add Branch
+              </Button>
+            </div>
+
+            {branches.length === 0 ? (
+              <div className="text-sm text-muted-foreground text-center p-4 border border-dashed rounded">
+                No branches. Click "Add Branch" to run steps in parallel.
+              </div>
+            ) : (
+              <div className="flex gap-4 overflow-x-auto pb-2">
+                {branches.map((branch: any, branchIndex: number) => (
+                  <div key={branchIndex} className="min-w-[320px] flex-1 border rounded bg-white dark:bg-gray-950 p-3 space-y-3">
+                    <div className="flex items-center gap-2">
+                      <Input
+                        placeholder="Branch name"
+                        value={branch.name || ''}
+                        onChange={(e) => updateBranch(branchIndex, { name: e.target.value })}
+                        className="flex-1"
+                        data-testid={`input-branch-name-${branchIndex}`}
+                      />
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => updateStep(step.id, {
+                          config: {
+                            ...step.config,
+                            branches: branches.filter((_: any, i: number) => i !== branchIndex)
+                          }
+                        })}
+                      >
+                        <Trash2 className="h-3 w-3 text-red-500" />
+                      </Button>
+                    </div>
+                    <WorkflowStepBuilder
+                      steps={branch.steps || []}
+                      onChange={(branchSteps) => updateBranch(branchIndex, { steps: branchSteps })}
+                      integrations={integrations}
+                      keyResults={keyResults}
+                      objectives={objectives}
+                      triggerType={triggerType}
+                      selectedTrigger={selectedTrigger}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+
+      case 'join':
+        const parallelSteps = steps.slice(0, stepIndex).filter(s => s.type === 'parallel');
+        return (
+          <div className="space-y-4">
+            <div>
+              <Label>Parallel Step</Label>
+              <Select
+                value={step.config.parallelStepId || 'latest'}
+                onValueChange={(value) => updateStep(step.id, {
+                  config: { ...step.config, parallelStepId: value === 'latest' ? undefined : value }
+                })}
+              >
+                <SelectTrigger data-testid="select-join-parallel-step">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="latest">Most recent parallel step</SelectItem>
+                  {parallelSteps.map(parallelStep => (
+                    <SelectItem key={parallelStep.id} value={parallelStep.id}>
+                      {parallelStep.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Wait For</Label>
+              <Select
+                value={step.config.mode || 'all'}
+                onValueChange={(value) => updateStep(step.id, {
+                  config: { ...step.config, mode: value }
+                })}
+              >
+                <SelectTrigger data-testid="select-join-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All branches</SelectItem>
+                  <SelectItem value="first_success">First successful branch</SelectItem>
+                  <SelectItem value="n_of_m">N of M branches</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {step.config.mode === 'n_of_m' && (
+              <div>
+                <Label>Successful Branches Required</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={step.config.count || ''}
+                  onChange={(e) => updateStep(step.id, {
+                    config: { ...step.config, count: e.target.value ? parseInt(e.target.value) : undefined }
+                  })}
+                  data-testid="input-join-count"
+                />
+              </div>
+            )}
+            <div>
+              <Label>Result Variable</Label>
+              <Input
+                placeholder="branches"
+                value={step.config.resultVariable || ''}
+                onChange={(e) => updateStep(step.id, {
+                  config: { ...step.config, resultVariable: e.target.value }
+                })}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Branch outputs are merged here by branch name, e.g. {`{{${step.config.resultVariable || 'branches'}.splynx}}`}
+              </p>
+            </div>
+          </div>
+        );
+
+      case 'call_workflow':
+        const inputMapping: Record<string, string> = step.config.inputMapping || {};
+        const inputEntries = Object.entries(inputMapping);
+        const setInputEntries = (entries: Array<[string, string]>) => updateStep(step.id, {
+          config: { ...step.config, inputMapping: Object.fromEntries(entries) }
+        });
+        return (
+          <div className="space-y-4">
+            <div>
+              <Label>Workflow</Label>
+              <Select
+                value={step.config.workflowId?.toString() || ''}
+                onValueChange={(value) => updateStep(step.id, {
+                  config: { ...step.config, workflowId: parseInt(value) }
+                })}
+              >
+                <SelectTrigger data-testid="select-call-workflow">
+                  <SelectValue placeholder="Select a workflow to call" />
+                </SelectTrigger>
+                <SelectContent>
+                  {agentWorkflows.map(workflow => (
+                    <SelectItem key={workflow.id} value={workflow.id.toString()}>
+                      {workflow.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                The called workflow runs to completion before the next step. Calls can be nested up to 5 levels and may not loop back.
+              </p>
+            </div>
+
+            <div className="border-t pt-4">
+              <div className="flex justify-between items-center mb-3">
+                <Label>Inputs</Label>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setInputEntries([...inputEntries, [`input${inputEntries.length + 1}`, '']])}
+                  data-testid="button-add-workflow-input"
+                >
+                  <Plus className="h-3 w-3 mr-1" />
+                  Add Input
+                </Button>
+              </div>
+              {inputEntries.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No inputs. The called workflow can read inputs as {`{{trigger.name}}`}.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {inputEntries.map(([inputName, inputValue], inputIndex) => (
+                    <div key={inputIndex} className="flex items-center gap-2">
+                      <Input
+                        placeholder="Input name"
+                        value={inputName}
+                        onChange={(e) => {
+                          const updated = [...inputEntries];
+                          updated[inputIndex] = [e.target.value, inputValue];
+                          setInputEntries(updated);
+                        }}
+                        className="w-40"
+                      />
+                      <VariableFieldPicker
+                        value={inputValue}
+                        onChange={(value) => {
+                          const updated = [...inputEntries];
+                          updated[inputIndex] = [inputName, value];
+                          setInputEntries(updated);
+                        }}
+                        placeholder="{{trigger.customer_id}}"
+                        className="flex-1"
+                      />
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setInputEntries(inputEntries.filter((_, i) => i !== inputIndex))}
+                      >
+                        <Trash2 className="h-3 w-3 text-red-500" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <Label>Result Variable</Label>
+              <Input
+                placeholder="e.g., lookup"
+                value={step.config.resultVariable || ''}
+                onChange={(e) => updateStep(step.id, {
+                  config: { ...step.config, resultVariable: e.target.value }
+                })}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                The called workflow's step outputs are available as {`{{${step.config.resultVariable || 'lookup'}.step1Output}}`}
+              </p>
+            </div>
+          </div>
+        );
+
+      case 'approval':
+        const approvalPayloadText = typeof step.config.payload === 'string'
+          ? step.config.payload
+          : JSON.stringify(step.config.payload ?? {}, null, 2);
+        return (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label>Approver</Label>
+                <Select
+                  value={step.config.approverUserId?.toString() || ''}
+                  onValueChange={(value) => updateStep(step.id, {
+                    config: { ...step.config, approverUserId: value === 'none' ? undefined : parseInt(value) }
+                  })}
+                >
+                  <SelectTrigger data-testid="select-approval-user">
+                    <SelectValue placeholder="Select a person" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No individual approver</SelectItem>
+                    {users.map(user => (
+                      <SelectItem key={user.id} value={user.id.toString()}>
+                        {user.fullName || user.email}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Approver Team</Label>
+                <Select
+                  value={step.config.approverTeamId?.toString() || ''}
+                  onValueChange={(value) => updateStep(step.id, {
+                    config: { ...step.config, approverTeamId: value === 'none' ? undefined : parseInt(value) }
+                  })}
+                >
+                  <SelectTrigger data-testid="select-approval-team">
+                    <SelectValue placeholder="Select a team" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No team</SelectItem>
+                    {teams.map(team => (
+                      <SelectItem key={team.id} value={team.id.toString()}>
+                        {team.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div>
+              <Label>Task Title</Label>
+              <VariableFieldPicker
+                value={step.config.title || ''}
+                onChange={(value) => updateStep(step.id, {
+                  config: { ...step.config, title: value }
+                })}
+                placeholder="Approve refund for {{trigger.customer_name}}"
+              />
+            </div>
+
+            <div>
+              <Label>Instructions</Label>
+              <TemplateTextarea
+                value={step.config.instructions || ''}
+                onChange={(e) => updateStep(step.id, {
+                  config: { ...step.config, instructions: e.target.value }
+                })}
+                placeholder="What should the approver check?"
+                rows={2}
+              />
+            </div>
+
+            <div>
+              <Label>Proposed Payload (JSON)</Label>
+              <TemplateTextarea
+                value={approvalPayloadText}
+                onChange={(e) => {
+                  let payload: any = e.target.value;
+                  try {
+                    payload = JSON.parse(e.target.value);
+                  } catch {
+                    // Keep the raw text until it is valid JSON
+                  }
+                  updateStep(step.id, { config: { ...step.config, payload } });
+                }}
+                className="font-mono text-xs"
+                rows={5}
+                data-testid="textarea-approval-payload"
+              />
+              <div className="flex items-center gap-2 mt-2">
+                <Checkbox
+                  id={`allow-edits-${step.id}`}
+                  checked={!!step.config.allowEdits}
+                  onCheckedChange={(checked) => updateStep(step.id, {
+                    config: { ...step.config, allowEdits: !!checked }
+                  })}
+                />
+                <Label htmlFor={`allow-edits-${step.id}`} className="text-sm font-normal">
+                  Approver can edit the payload before approving
+                </Label>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label>Timeout (hours)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  placeholder="No timeout"
+                  value={step.config.timeoutHours || ''}
+                  onChange={(e) => updateStep(step.id, {
+                    config: { ...step.config, timeoutHours: e.target.value ? parseFloat(e.target.value) : undefined }
+                  })}
+                  data-testid="input-approval-timeout"
+                />
+              </div>
+              <div>
+                <Label>Escalate To</Label>
+                <Select
+                  value={step.config.escalateToUserId?.toString() || ''}
+                  onValueChange={(value) => updateStep(step.id, {
+                    config: { ...step.config, escalateToUserId: value === 'none' ? undefined : parseInt(value) }
+                  })}
+                  disabled={!step.config.timeoutHours}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="No escalation" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No escalation</SelectItem>
+                    {users.map(user => (
+                      <SelectItem key={user.id} value={user.id.toString()}>
+                        {user.fullName || user.email}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>When Timed Out</Label>
+                <Select
+                  value={step.config.timeoutDecision || 'rejected'}
+                  onValueChange={(value) => updateStep(step.id, {
+                    config: { ...step.config, timeoutDecision: value }
+                  })}
+                  disabled={!step.config.timeoutHours}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="rejected">Treat as rejected</SelectItem>
+                    <SelectItem value="approved">Treat as approved</SelectItem>
+                    <SelectItem value="fail">Fail the run</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {step.config.escalateToUserId && (
+              <div>
+                <Label>Escalation Timeout (hours)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  placeholder={`${step.config.timeoutHours || 24}`}
+                  value={step.config.escalationTimeoutHours || ''}
+                  onChange={(e) => updateStep(step.id, {
+                    config: { ...step.config, escalationTimeoutHours: e.target.value ? parseFloat(e.target.value) : undefined }
+                  })}
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  After the first timeout the task is reassigned once; the timeout policy applies when this one runs out too.
+                </p>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              {(['approvedSteps', 'rejectedSteps'] as const).map(pathKey => (
+                <div key={pathKey} className="border rounded bg-white dark:bg-gray-950 p-3 space-y-3">
+                  <Label>{pathKey === 'approvedSteps' ? 'If Approved' : 'If Rejected'}</Label>
+                  <WorkflowStepBuilder
+                    steps={step.config[pathKey] || []}
+                    onChange={(pathSteps) => updateStep(step.id, {
+                      config: { ...step.config, [pathKey]: pathSteps }
+                    })}
+                    integrations={integrations}
+                    keyResults={keyResults}
+                    objectives={objectives}
+                    triggerType={triggerType}
+                    selectedTrigger={selectedTrigger}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`stop-on-reject-${step.id}`}
+                checked={!!step.config.stopOnReject}
+                onCheckedChange={(checked) => updateStep(step.id, {
+                  config: { ...step.config, stopOnReject: !!checked }
+                })}
+              />
+              <Label htmlFor={`stop-on-reject-${step.id}`} className="text-sm font-normal">
+                End the workflow after the rejected path
+              </Label>
+            </div>
+
+            <div>
+              <Label>Result Variable</Label>
+              <Input
+                placeholder="approval"
+                value={step.config.resultVariable || ''}
+                onChange={(e) => updateStep(step.id, {
+                  config: { ...step.config, resultVariable: e.target.value }
+                })}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                The decision and final payload are available as {`{{${step.config.resultVariable || 'approval'}.decision}}`} and {`{{${step.config.resultVariable || 'approval'}.payload}}`}
+              </p>
+            </div>
+          </div>
+        );
+
       default:
         return null;
     }
@@ -4136,6 +4690,17 @@ export default function WorkflowStepBuilder({
 
   return (
     <div className="space-y-4">
+      {versionsUrl && (
+        <div className="flex justify-end">
+          <WorkflowVersionHistory
+            versionsUrl={versionsUrl}
+            toSnapshot={agentWorkflowSnapshot}
+            onRestored={(result) => onVersionRestored?.(result)}
+            hasUnsavedChanges={hasUnsavedChanges}
+          />
+        </div>
+      )}
+
       {steps.length === 0 && (
         <Card className="p-8 text-center border-dashed">
           <p className="text-gray-500 mb-4">No workflow steps defined</p>
@@ -4149,6 +4714,7 @@ export default function WorkflowStepBuilder({
       {steps.map((step, index) => {
         const stepType = STEP_TYPES[step.type];
         const isExpanded = expandedStep === step.id;
+        const expressionErrors = validateStepExpressions(step.config, undefined, 'config');
 
         return (
           <Card key={step.id} className="overflow-hidden">
@@ -4166,6 +4732,12 @@ export default function WorkflowStepBuilder({
                 <div className="flex-1">
                   <div className="font-medium">Step {index + 1}: {step.name}</div>
                   <div className="text-sm text-gray-500">{stepType.label}</div>
+                  {expressionErrors.map(error => (
+                    <p key={error} className="text-xs text-red-600 dark:text-red-400 flex items-center gap-1 mt-1">
+                      <AlertCircle className="h-3 w-3 shrink-0" />
+                      {error}
+                    </p>
+                  ))}
                 </div>
 
                 <div className="flex items-center gap-2">
@@ -4246,7 +4818,29 @@ export default function WorkflowStepBuilder({
                     </Select>
                   </div>
 
-                  {renderStepConfig(step, index)}
+                  <ExpressionPathsContext.Provider value={getContextPaths(index)}>
+                    {renderStepConfig(step, index)}
+                  </ExpressionPathsContext.Provider>
+
+                  <div>
+                    <Label>Timeout (seconds)</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={step.config?.timeoutSeconds ?? ''}
+                      onChange={(e) => updateStep(step.id, {
+                        config: {
+                          ...step.config,
+                          timeoutSeconds: e.target.value ? parseInt(e.target.value) : undefined
+                        }
+                      })}
+                      placeholder="No limit"
+                      data-testid={`input-step-timeout-${index}`}
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      A step that runs longer than this fails and is retried with backoff, except writes to other systems
+                    </p>
+                  </div>
                 </div>
               </div>
             )}
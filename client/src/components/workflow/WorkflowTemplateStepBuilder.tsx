@@ -11,6 +11,8 @@ import { Switch } from '@/components/ui/switch';
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetFooter } from '@/components/ui/sheet';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
+import { workflowTemplateSnapshot } from '@shared/workflowVersionDiff';
+import { WorkflowVersionHistory } from './WorkflowVersionHistory';
 import { CheckSquare, Type, Upload, ThumbsUp, Link2, MessageSquare, GripVertical, Trash2, Plus, Camera, FileText, List, PenTool, Ruler, X, MapPin, Ticket, Check, Clock, AlertCircle, Loader2, Database, RefreshCw, CheckCircle } from 'lucide-react';
 
 export interface ChecklistItem {
@@ -59,6 +61,10 @@ export interface WorkflowTemplateStep {
 interface WorkflowTemplateStepBuilderProps {
   steps: WorkflowTemplateStep[];
   onChange: (steps: WorkflowTemplateStep[]) => void;
+  /** When set, shows version history with diff and rollback for the saved template */
+  versionsUrl?: string;
+  onVersionRestored?: (result: any) => void;
+  hasUnsavedChanges?: boolean;
 }
 
 const STEP_TYPES = [
@@ -129,7 +135,7 @@ function SortableStepItem({ step, onEdit, onDelete }: { step: WorkflowTemplateSt
   );
 }
 
-export default function WorkflowTemplateStepBuilder({ steps, onChange }: WorkflowTemplateStepBuilderProps) {
+export default function WorkflowTemplateStepBuilder({ steps, onChange, versionsUrl, onVersionRestored, hasUnsavedChanges }: WorkflowTemplateStepBuilderProps) {
   const [editingStep, setEditingStep] = useState<WorkflowTemplateStep | null>(null);
   const [showAddStep, setShowAddStep] = useState(false);
   
@@ -216,10 +222,20 @@ export default function WorkflowTemplateStepBuilder({ steps, onChange }: Workflo
     <div className="space-y-4">
       <div className="flex items-center justify-between">
         <h3 className="text-lg font-semibold">Workflow Steps</h3>
-        <Button onClick={() => setShowAddStep(!showAddStep)} data-testid="button-add-step">
-          <Plus className="h-4 w-4 mr-2" />
-          Add Step
-        </Button>
+        <div className="flex items-center gap-2">
+          {versionsUrl && (
+            <WorkflowVersionHistory
+              versionsUrl={versionsUrl}
+              toSnapshot={workflowTemplateSnapshot}
+              onRestored={(result) => onVersionRestored?.(result)}
+              hasUnsavedChanges={hasUnsavedChanges}
+            />
+          )}
+          <Button onClick={() => setShowAddStep(!showAddStep)} data-testid="button-add-step">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Step
+          </Button>
+        </div>
       </div>
 
       {showAddStep && (
@@ -0,0 +1,292 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { History, RotateCcw, Plus, Minus, Pencil, ArrowUpDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { diffWorkflowVersions, type FieldChange, type StepDiff, type VersionSnapshot } from '@shared/workflowVersionDiff';
+
+export interface PublishedVersion {
+  version: number;
+  changeNote: string | null;
+  restoredFromVersion: number | null;
+  publishedBy: number | null;
+  publishedAt: string;
+  [field: string]: any;
+}
+
+interface WorkflowVersionHistoryProps {
+  /** e.g. /api/agents/workflows/12/versions; rollback posts to {versionsUrl}/{version}/rollback */
+  versionsUrl: string;
+  /** Turn a published version into the fields and steps to compare */
+  toSnapshot: (version: PublishedVersion) => VersionSnapshot;
+  /** Called after a rollback with the server's response so the editor can reload */
+  onRestored: (result: any) => void;
+  /** Rolling back discards unsaved edits, so the editor can warn about them */
+  hasUnsavedChanges?: boolean;
+}
+
+const STEP_KIND_STYLES: Record<StepDiff['kind'], { label: string; className: string; icon: typeof Plus }> = {
+  added: { label: 'Added', className: 'bg-green-50 text-green-700 border-green-200 dark:bg-green-900/30 dark:text-green-300 dark:border-green-800', icon: Plus },
+  removed: { label: 'Removed', className: 'bg-red-50 text-red-700 border-red-200 dark:bg-red-900/30 dark:text-red-300 dark:border-red-800', icon: Minus },
+  modified: { label: 'Modified', className: 'bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-900/30 dark:text-amber-300 dark:border-amber-800', icon: Pencil },
+  moved: { label: 'Moved', className: 'bg-blue-50 text-blue-700 border-blue-200 dark:bg-blue-900/30 dark:text-blue-300 dark:border-blue-800', icon: ArrowUpDown },
+  unchanged: { label: 'Unchanged', className: 'text-muted-foreground', icon: Pencil },
+};
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 120 ? `${text.slice(0, 117)}...` : text;
+}
+
+function FieldChangeList({ changes }: { changes: FieldChange[] }) {
+  return (
+    <div className="space-y-1 mt-2">
+      {changes.map(change => (
+        <div key={change.path} className="text-xs font-mono rounded bg-muted/50 p-1.5">
+          <div className="text-muted-foreground">{change.path}</div>
+          <div className="text-red-600 dark:text-red-400 break-all">- {formatValue(change.before)}</div>
+          <div className="text-green-600 dark:text-green-400 break-all">+ {formatValue(change.after)}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Version history for a workflow or template: lists published versions, shows a
+ * step-level diff between any two of them and rolls back to an earlier one.
+ */
+export function WorkflowVersionHistory({ versionsUrl, toSnapshot, onRestored, hasUnsavedChanges }: WorkflowVersionHistoryProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<number | null>(null);
+  const [confirmRollback, setConfirmRollback] = useState<number | null>(null);
+
+  const { data, isLoading, refetch } = useQuery<{ currentVersion: number | null; versions: PublishedVersion[] }>({
+    queryKey: [versionsUrl],
+    enabled: open,
+    // Saves publish versions elsewhere, so always reload when the sheet is opened
+    staleTime: 0,
+  });
+
+  const versions = data?.versions || [];
+
+  // Default to the newest version compared with the one before it
+  useEffect(() => {
+    if (!open || versions.length === 0) return;
+    if (selectedVersion === null || !versions.some(v => v.version === selectedVersion)) {
+      setSelectedVersion(versions[0].version);
+      setCompareTo(versions[1]?.version ?? null);
+    }
+  }, [open, versions, selectedVersion]);
+
+  const selected = versions.find(v => v.version === selectedVersion);
+  const baseline = versions.find(v => v.version === compareTo);
+
+  const diff = useMemo(() => {
+    if (!selected) return null;
+    const before = baseline ? toSnapshot(baseline) : { fields: {}, steps: [] };
+    return diffWorkflowVersions(before, toSnapshot(selected));
+  }, [selected, baseline, toSnapshot]);
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (version: number) => {
+      const response = await apiRequest(`${versionsUrl}/${version}/rollback`, { method: 'POST' });
+      return response.json();
+    },
+    onSuccess: (result, version) => {
+      toast({
+        title: 'Rolled back',
+        description: `Version ${version} was restored as version ${result.version?.version}. Runs already in progress keep their version.`,
+      });
+      setSelectedVersion(null);
+      refetch();
+      onRestored(result);
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Rollback failed',
+        description: error?.message || 'Unable to restore this version.',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const selectVersion = (version: number) => {
+    setSelectedVersion(version);
+    setCompareTo(versions.find(v => v.version < version)?.version ?? null);
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)} data-testid="button-version-history">
+        <History className="h-4 w-4 mr-1" />
+        History
+      </Button>
+
+      <Sheet open={open} onOpenChange={setOpen}>
+        <SheetContent className="w-full sm:max-w-2xl">
+          <SheetHeader>
+            <SheetTitle>Version History</SheetTitle>
+            <SheetDescription>
+              Every save publishes a new version. Runs keep the version they started on.
+            </SheetDescription>
+          </SheetHeader>
+
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground mt-6">Loading versions...</p>
+          ) : versions.length === 0 ? (
+            <p className="text-sm text-muted-foreground mt-6">No versions published yet. Save to publish the first version.</p>
+          ) : (
+            <div className="grid grid-cols-5 gap-4 mt-6 h-[calc(100vh-10rem)]">
+              <ScrollArea className="col-span-2 pr-2">
+                <div className="space-y-2">
+                  {versions.map(version => (
+                    <button
+                      key={version.version}
+                      type="button"
+                      onClick={() => selectVersion(version.version)}
+                      className={`w-full text-left rounded-md border p-2 text-sm transition-colors ${
+                        version.version === selectedVersion ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
+                      }`}
+                      data-testid={`version-${version.version}`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">v{version.version}</span>
+                        {version.version === data?.currentVersion && <Badge className="text-xs">Current</Badge>}
+                      </div>
+                      <div className="text-xs text-muted-foreground">{new Date(version.publishedAt).toLocaleString()}</div>
+                      {version.changeNote && <div className="text-xs mt-1 line-clamp-2">{version.changeNote}</div>}
+                    </button>
+                  ))}
+                </div>
+              </ScrollArea>
+
+              <ScrollArea className="col-span-3 pr-2">
+                {selected && diff && (
+                  <div className="space-y-4">
+                    <div className="flex items-end gap-2">
+                      <div className="flex-1">
+                        <Label className="text-xs">Compare v{selected.version} with</Label>
+                        <Select
+                          value={compareTo?.toString() ?? 'none'}
+                          onValueChange={(value) => setCompareTo(value === 'none' ? null : parseInt(value))}
+                        >
+                          <SelectTrigger className="h-8" data-testid="select-compare-version">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">Nothing (show all steps)</SelectItem>
+                            {versions.filter(v => v.version !== selected.version).map(v => (
+                              <SelectItem key={v.version} value={v.version.toString()}>v{v.version}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {selected.version !== data?.currentVersion && (
+                        <Button
+                          size="sm"
+                          onClick={() => setConfirmRollback(selected.version)}
+                          disabled={rollbackMutation.isPending}
+                          data-testid="button-rollback-version"
+                        >
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          Roll back to v{selected.version}
+                        </Button>
+                      )}
+                    </div>
+
+                    {selected.restoredFromVersion && (
+                      <p className="text-xs text-muted-foreground">Restored from v{selected.restoredFromVersion}</p>
+                    )}
+
+                    {diff.fields.length > 0 && (
+                      <div>
+                        <h4 className="text-sm font-medium">Settings</h4>
+                        <FieldChangeList changes={diff.fields} />
+                      </div>
+                    )}
+
+                    <div>
+                      <h4 className="text-sm font-medium mb-2">Steps</h4>
+                      {diff.steps.length === 0 ? (
+                        <p className="text-xs text-muted-foreground">No steps</p>
+                      ) : (
+                        <div className="space-y-2">
+                          {diff.steps.map(step => {
+                            const style = STEP_KIND_STYLES[step.kind];
+                            const Icon = style.icon;
+                            return (
+                              <div key={`${step.kind}-${step.stepId}`} className="rounded-md border p-2">
+                                <div className="flex items-center justify-between gap-2">
+                                  <div className="text-sm truncate">
+                                    <span className="text-muted-foreground mr-1">{(step.afterIndex ?? step.beforeIndex ?? 0) + 1}.</span>
+                                    {step.label}
+                                    {step.type && <span className="text-xs text-muted-foreground ml-1">({step.type})</span>}
+                                  </div>
+                                  {step.kind !== 'unchanged' && (
+                                    <Badge variant="outline" className={`text-xs shrink-0 ${style.className}`}>
+                                      <Icon className="h-3 w-3 mr-1" />
+                                      {style.label}
+                                      {step.kind === 'modified' && step.moved && ' & moved'}
+                                    </Badge>
+                                  )}
+                                </div>
+                                {step.changes.length > 0 && <FieldChangeList changes={step.changes} />}
+                              </div>
+                            );
+                          })}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </ScrollArea>
+            </div>
+          )}
+        </SheetContent>
+      </Sheet>
+
+      <AlertDialog open={confirmRollback !== null} onOpenChange={(isOpen) => !isOpen && setConfirmRollback(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll back to v{confirmRollback}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              A copy of v{confirmRollback} is published as the newest version and used by new runs.
+              {hasUnsavedChanges && ' Unsaved changes in the editor will be discarded.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (confirmRollback !== null) rollbackMutation.mutate(confirmRollback);
+                setConfirmRollback(null);
+              }}
+            >
+              Roll back
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
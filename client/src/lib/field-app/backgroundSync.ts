@@ -0,0 +1,81 @@
+/**
+ * Automatic sync for the field app
+ * The service worker (public/field-sw.js) replays the IndexedDB sync queue. It is woken by
+ * Background Sync where the browser supports it, and otherwise by this page when the
+ * connection comes back or on a timer.
+ *
+ * With a PIN set, the service worker can only read the queue with the keys this page
+ * hands it, so the replay waits while the app is locked.
+ */
+
+import { fieldDB } from './db';
+import { getUnlockedVault } from './vault';
+
+export const BACKGROUND_SYNC_TAG = 'field-app-sync';
+const POLL_INTERVAL_MS = 60 * 1000;
+
+export interface AutoSyncStatus {
+  state: 'idle' | 'syncing' | 'error';
+  synced?: number;
+  remaining?: number;
+  error?: string;
+  at?: string;
+}
+
+async function activeWorker(): Promise<ServiceWorker | null> {
+  if (!('serviceWorker' in navigator)) return null;
+  const registration = await navigator.serviceWorker.getRegistration('/field-app');
+  return registration?.active ?? null;
+}
+
+/** Ask the browser to wake the service worker once there is a connection */
+export async function requestBackgroundSync(): Promise<void> {
+  try {
+    if (!('serviceWorker' in navigator)) return;
+    const registration = await navigator.serviceWorker.getRegistration('/field-app');
+    if (registration && 'sync' in registration) {
+      await (registration as any).sync.register(BACKGROUND_SYNC_TAG);
+    }
+  } catch (error) {
+    console.warn('[BackgroundSync] Registration failed, relying on polling:', error);
+  }
+}
+
+/** Replay the queue now, if online and unlocked */
+export async function triggerAutoSync(): Promise<void> {
+  if (!navigator.onLine) return;
+  await fieldDB.init();
+  if (fieldDB.getVaultState() === 'locked') return;
+  const worker = await activeWorker();
+  worker?.postMessage({ type: 'REPLAY_SYNC_QUEUE', vault: getUnlockedVault() });
+}
+
+/**
+ * Start the fallback poller and listen for the service worker's progress.
+ * Returns a function that stops both.
+ */
+export function startAutoSync(onStatus: (status: AutoSyncStatus) => void): () => void {
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === 'SYNC_STATUS') {
+      onStatus(event.data.status);
+    }
+    // Woken by Background Sync but unable to read the encrypted queue itself
+    if (event.data?.type === 'SYNC_NEEDED') {
+      void triggerAutoSync();
+    }
+  };
+  const handleOnline = () => {
+    void triggerAutoSync();
+  };
+
+  navigator.serviceWorker?.addEventListener('message', handleMessage);
+  window.addEventListener('online', handleOnline);
+  const interval = setInterval(() => void triggerAutoSync(), POLL_INTERVAL_MS);
+  void triggerAutoSync();
+
+  return () => {
+    navigator.serviceWorker?.removeEventListener('message', handleMessage);
+    window.removeEventListener('online', handleOnline);
+    clearInterval(interval);
+  };
+}
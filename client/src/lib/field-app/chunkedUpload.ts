@@ -0,0 +1,91 @@
+/**
+ * Resumable uploads for field app photos and audio
+ * Files go up in chunks; an interrupted upload resumes from what the server already has.
+ * The service worker (public/field-sw.js) speaks the same protocol for background sync.
+ */
+
+export const UPLOAD_CHUNK_SIZE = 512 * 1024;
+const MAX_CHUNK_ATTEMPTS = 3;
+
+export interface ChunkedUploadOptions {
+  token: string;
+  endpoint: '/api/field-app/upload-photo' | '/api/field-app/upload-audio';
+  uploadId: string; // Local photo/audio id - stable across retries so the server can resume
+  blob: Blob;
+  fileName: string;
+  fields: Record<string, string>;
+  onProgress?: (sentBytes: number, totalBytes: number) => void;
+}
+
+async function fetchResumePoint(token: string, uploadId: string): Promise<number | null> {
+  const response = await fetch(`/api/field-app/upload-status/${encodeURIComponent(uploadId)}`, {
+    headers: { 'Authorization': `Bearer ${token}` }
+  });
+  if (!response.ok) return 0;
+  const status = await response.json();
+  return status.complete ? null : status.receivedBytes;
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** Uploads the blob and resolves with the endpoint's final response */
+export async function uploadInChunks(options: ChunkedUploadOptions): Promise<any> {
+  const { token, endpoint, uploadId, blob, fileName, fields, onProgress } = options;
+  const totalSize = blob.size;
+
+  const resumeFrom = await fetchResumePoint(token, uploadId);
+  if (resumeFrom === null) return { success: true, duplicate: true };
+
+  let offset = resumeFrom;
+
+  let attempts = 0;
+  while (true) {
+    const chunk = blob.slice(offset, Math.min(offset + UPLOAD_CHUNK_SIZE, totalSize), blob.type);
+
+    // Fields must precede the file for the server to read them
+    const formData = new FormData();
+    Object.entries(fields).forEach(([key, value]) => formData.append(key, value));
+    formData.append('uploadId', uploadId);
+    formData.append('offset', String(offset));
+    formData.append('totalSize', String(totalSize));
+    formData.append('file', chunk, fileName);
+
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` },
+        body: formData
+      });
+    } catch (error) {
+      if (++attempts >= MAX_CHUNK_ATTEMPTS) throw new Error(`Failed to upload ${fileName}: connection lost`);
+      await wait(1000 * 2 ** attempts);
+      continue;
+    }
+
+    const result = await response.json().catch(() => ({}));
+
+    // The server is elsewhere in the file (a retried chunk already arrived): carry on from there
+    if (response.status === 409 && typeof result.receivedBytes === 'number') {
+      offset = result.receivedBytes;
+      continue;
+    }
+    if (!response.ok) {
+      if (response.status < 500 || ++attempts >= MAX_CHUNK_ATTEMPTS) {
+        throw new Error(result.error || `Failed to upload ${fileName}`);
+      }
+      await wait(1000 * 2 ** attempts);
+      continue;
+    }
+
+    attempts = 0;
+    if (result.complete === false) {
+      offset = result.receivedBytes;
+      onProgress?.(offset, totalSize);
+      continue;
+    }
+
+    onProgress?.(totalSize, totalSize);
+    return result;
+  }
+}
@@ -3,10 +3,40 @@
  * Stores work items, templates, and photos as blobs
  */
 
-import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import { openDB, deleteDB, DBSchema, IDBPDatabase, type IndexKey, type IndexNames, type StoreKey, type StoreNames, type StoreValue } from 'idb';
+import type { CustomFieldValues, WorkItemCustomFieldDefinition } from '@shared/workItemCustomFields';
+import { MAX_ENTRY_MINUTES, minutesBetween } from '@shared/timeTracking';
+import { requestBackgroundSync } from './backgroundSync';
+import { pickSyncedValues, sameValue, type SyncedWorkItemValues, type WorkItemBase, type WorkItemSyncConflict } from '@shared/fieldAppSync';
+import type { MapBounds, OfflineCable, OfflineNetworkNode } from '@shared/fieldAppMap';
+import type { DownloadSummary, WorkItemTombstone } from '@shared/fieldAppDelta';
+import {
+  clearVaultKeys,
+  createVault,
+  generateDataKey,
+  MAX_UNLOCK_ATTEMPTS,
+  openRecord,
+  openVault,
+  rewrapVault,
+  SEALED_STORES,
+  sealedWithKey,
+  sealRecord,
+  getVaultKeys,
+  isUnlocked,
+  setVaultKeys,
+  VaultError,
+  type SealedStoreName,
+  type VaultRecord
+} from './vault';
 
 // Database schema definition
 interface FieldAppDB extends DBSchema {
+  // Key material for the encrypted stores (see vault.ts); the only store besides settings and map tiles left in the clear
+  vault: {
+    key: string;
+    value: VaultRecord;
+  };
+
   session: {
     key: string;
     value: {
@@ -40,7 +70,13 @@ interface FieldAppDB extends DBSchema {
       dueDate?: string;
       notes?: string;
       workflowTemplateId?: string;
+      workflowTemplateKey?: string; // The template version its workflow runs on; see getWorkItemTemplate
       organizationId: number;
+      workItemType?: string | null;
+      customFields?: CustomFieldValues;
+      customFieldDefinitions?: WorkItemCustomFieldDefinition[];
+      updatedAt?: string;
+      base?: WorkItemBase; // Server values at download, sent with edits for conflict detection
       localEdits?: {
         notes?: string;
         status?: string;
@@ -55,9 +91,11 @@ interface FieldAppDB extends DBSchema {
   };
   
   workflowTemplates: {
-    key: string;
+    key: string; // Template id, with @v<version> for a version an execution is pinned to
     value: {
       id: string;
+      templateKey?: string;
+      version?: number | null;
       name: string;
       category?: string;
       steps: Array<{
@@ -91,7 +129,7 @@ interface FieldAppDB extends DBSchema {
   };
   
   workflowExecutions: {
-    key: string; // workItemId-templateId
+    key: [number, string]; // [workItemId, templateId]
     value: {
       workItemId: number;
       templateId: string;
@@ -147,13 +185,15 @@ interface FieldAppDB extends DBSchema {
     key: number;
     value: {
       id?: number;
-      type: 'workItem' | 'workflowStep' | 'photo' | 'audio' | 'fiberNetworkNode';
+      type: 'workItem' | 'workflowStep' | 'photo' | 'audio' | 'fiberNetworkNode' | 'timeEntry';
       action: 'update' | 'create';
       entityId: string | number;
       data: any;
       timestamp: Date;
       retryCount: number;
       syncStatus: 'pending' | 'syncing' | 'failed';
+      lastAttemptAt?: Date; // Set while claimed by the sync screen or the service worker
+      lastError?: string;
     };
     indexes: {
       'by-status': string;
@@ -161,6 +201,28 @@ interface FieldAppDB extends DBSchema {
     };
   };
 
+  syncConflicts: {
+    key: number; // Work item id
+    value: WorkItemSyncConflict & {
+      detectedAt: Date;
+    };
+  };
+
+  timeEntries: {
+    key: string; // Generated id, sent as clientId so re-syncs are not duplicated
+    value: {
+      id: string;
+      workItemId: number;
+      startedAt: Date;
+      endedAt?: Date; // Unset while the timer is running
+      durationMinutes?: number;
+      note?: string;
+    };
+    indexes: {
+      'by-work-item': number;
+    };
+  };
+
   fiberNetworkNodes: {
     key: string; // uuid for offline created nodes
     value: {
@@ -185,19 +247,86 @@ interface FieldAppDB extends DBSchema {
       'by-sync-status': boolean;
     };
   };
+
+  mapTiles: {
+    key: string; // source/z/x/y, see tileKey
+    value: {
+      key: string;
+      arrayBuffer: ArrayBuffer;
+      mimeType: string;
+      size: number;
+      fetchedAt: Date;
+    };
+  };
+
+  mapAreas: {
+    key: string; // uuid
+    value: {
+      id: string;
+      bounds: MapBounds;
+      minZoom: number;
+      maxZoom: number;
+      tileUrl: string | null; // Null when the area was saved without tiles
+      attribution: string | null;
+      workItemIds: number[];
+      tileCount: number;
+      nodeCount: number;
+      cableCount: number;
+      downloadedAt: Date;
+    };
+  };
+
+  // Server fiber network for offline maps (read only; nodes created offline live in fiberNetworkNodes)
+  networkNodes: {
+    key: number;
+    value: OfflineNetworkNode;
+  };
+
+  networkCables: {
+    key: string;
+    value: OfflineCable;
+  };
+
+  // Delta download state (single record): the server-issued cursor and what the last download changed
+  syncState: {
+    key: string;
+    value: {
+      deviceId: string;
+      cursor: string | null;
+      lastDownloadAt?: Date;
+      lastChanges?: DownloadSummary;
+    };
+  };
 }
 
 const DB_NAME = 'FieldAppDB';
-const DB_VERSION = 4; // Incremented for audio recordings store
+const SYNC_CLAIM_TIMEOUT_MS = 10 * 60 * 1000;
+const DB_VERSION = 9; // Incremented for delta download state
+
+// Stores whose records go through the vault (see SEALED_STORES)
+type SealedStore = SealedStoreName & StoreNames<FieldAppDB>;
+type SealedValue<S extends SealedStore> = StoreValue<FieldAppDB, S>;
 
 class FieldDatabase {
   private db: IDBPDatabase<FieldAppDB> | null = null;
+  private vaultRecord: VaultRecord | null = null;
   
   async init(): Promise<void> {
     if (this.db) return;
     
     this.db = await openDB<FieldAppDB>(DB_NAME, DB_VERSION, {
+      // Let a remote wipe (or another tab's upgrade) proceed
+      blocking: () => {
+        this.db?.close();
+        this.db = null;
+      },
       upgrade(db) {
+        // Encryption vault store (single record)
+        if (!db.objectStoreNames.contains('vault')) {
+          db.createObjectStore('vault');
+        }
+
+
         // Session store (single record)
         if (!db.objectStoreNames.contains('session')) {
           db.createObjectStore('session');
@@ -250,14 +379,46 @@ class FieldDatabase {
           syncStore.createIndex('by-timestamp', 'timestamp');
         }
 
+        // Sync conflicts store (work items changed on both sides)
+        if (!db.objectStoreNames.contains('syncConflicts')) {
+          db.createObjectStore('syncConflicts', { keyPath: 'entityId' });
+        }
+
+        // Time entries store
+        if (!db.objectStoreNames.contains('timeEntries')) {
+          const timeStore = db.createObjectStore('timeEntries', { keyPath: 'id' });
+          timeStore.createIndex('by-work-item', 'workItemId');
+        }
+
         // Fiber network nodes store
         if (!db.objectStoreNames.contains('fiberNetworkNodes')) {
           const fiberNodeStore = db.createObjectStore('fiberNetworkNodes', { keyPath: 'id' });
           fiberNodeStore.createIndex('by-work-item', 'workItemId');
           fiberNodeStore.createIndex('by-sync-status', 'syncedToServer');
         }
+
+        // Offline map stores
+        if (!db.objectStoreNames.contains('mapTiles')) {
+          db.createObjectStore('mapTiles', { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains('mapAreas')) {
+          db.createObjectStore('mapAreas', { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains('networkNodes')) {
+          db.createObjectStore('networkNodes', { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains('networkCables')) {
+          db.createObjectStore('networkCables', { keyPath: 'id' });
+        }
+
+        // Delta download state store (single record)
+        if (!db.objectStoreNames.contains('syncState')) {
+          db.createObjectStore('syncState');
+        }
       }
     });
+
+    this.vaultRecord = (await this.db.get('vault', 'current')) ?? null;
   }
   
   private async ensureDB(): Promise<IDBPDatabase<FieldAppDB>> {
@@ -266,16 +427,200 @@ class FieldDatabase {
     }
     return this.db!;
   }
+
+  // Encrypted stores - reads and writes go through these so records are sealed at rest
+  private seal<S extends SealedStore>(store: S, value: SealedValue<S>): Promise<SealedValue<S>> {
+    return sealRecord(store, value, this.vaultRecord !== null);
+  }
+
+  private async put<S extends SealedStore>(store: S, value: SealedValue<S>, key?: StoreKey<FieldAppDB, S>): Promise<void> {
+    const db = await this.ensureDB();
+    const sealed = await this.seal(store, value);
+    await db.put(store, sealed, key);
+  }
+
+  private async get<S extends SealedStore>(store: S, key: StoreKey<FieldAppDB, S>): Promise<SealedValue<S> | undefined> {
+    const db = await this.ensureDB();
+    const record = await db.get(store, key);
+    return record && openRecord(record);
+  }
+
+  private async getAll<S extends SealedStore>(store: S): Promise<SealedValue<S>[]> {
+    const db = await this.ensureDB();
+    const records = await db.getAll(store);
+    return Promise.all(records.map(record => openRecord(record)));
+  }
+
+  private async getAllFromIndex<S extends SealedStore, I extends IndexNames<FieldAppDB, S>>(
+    store: S,
+    index: I,
+    query: IndexKey<FieldAppDB, S, I>
+  ): Promise<SealedValue<S>[]> {
+    const db = await this.ensureDB();
+    const records = await db.getAllFromIndex(store, index, query);
+    return Promise.all(records.map(record => openRecord(record)));
+  }
+
+  // Sealed before the transaction opens: awaiting WebCrypto inside one would let it auto-commit
+  private async putAll<S extends SealedStore>(store: S, values: SealedValue<S>[]): Promise<void> {
+    const db = await this.ensureDB();
+    const sealed = await Promise.all(values.map(value => this.seal(store, value)));
+    const tx = db.transaction(store, 'readwrite');
+    await Promise.all([...sealed.map(value => tx.store.put(value)), tx.done]);
+  }
+
+  // Encryption vault - see vault.ts and docs/FIELD_APP_ENCRYPTION.md
+  getVaultState(): 'none' | 'locked' | 'unlocked' {
+    if (!this.vaultRecord) return 'none';
+    return isUnlocked() ? 'unlocked' : 'locked';
+  }
+
+  getAutoLockMinutes(): number | null {
+    return this.vaultRecord?.autoLockMinutes ?? null;
+  }
+
+  private async saveVaultRecord(record: VaultRecord): Promise<void> {
+    const db = await this.ensureDB();
+    await db.put('vault', record, 'current');
+    this.vaultRecord = record;
+  }
+
+  /** Protect the data with a PIN; data stored before this is encrypted in place */
+  async setupVault(pin: string): Promise<void> {
+    if (this.vaultRecord) throw new Error('A PIN is already set');
+    const { record, key } = await createVault(pin);
+    // Saved before anything is sealed with the key, so an interruption can't orphan data
+    await this.saveVaultRecord(record);
+    setVaultKeys({ [record.keyId]: key }, record.keyId);
+    await this.finishVaultMaintenance();
+  }
+
+  /** Unlock with the PIN. Too many wrong PINs in a row wipe the device. */
+  async unlock(pin: string): Promise<void> {
+    const record = this.vaultRecord;
+    if (!record) return;
+
+    // Count the attempt before the slow key derivation, so reloading mid-attempt still uses it up
+    if (record.failedAttempts >= MAX_UNLOCK_ATTEMPTS) {
+      await this.wipe();
+      throw new VaultError('Too many incorrect PINs - field app data has been wiped', 'wiped');
+    }
+    const failedAttempts = record.failedAttempts + 1;
+    await this.saveVaultRecord({ ...record, failedAttempts });
+
+    try {
+      const keys = await openVault(record, pin);
+      setVaultKeys(keys, record.keyId);
+    } catch (error) {
+      if (!(error instanceof VaultError)) throw error;
+      if (failedAttempts >= MAX_UNLOCK_ATTEMPTS) {
+        await this.wipe();
+        throw new VaultError('Too many incorrect PINs - field app data has been wiped', 'wiped');
+      }
+      throw new VaultError(`Incorrect PIN - ${MAX_UNLOCK_ATTEMPTS - failedAttempts} attempts left before this device is wiped`, 'incorrect_pin');
+    }
+
+    await this.saveVaultRecord({ ...record, failedAttempts: 0 });
+    await this.finishVaultMaintenance();
+
+    // Earlier versions also left the sign-in token in clear localStorage
+    const session = await this.getSession();
+    if (session?.token && localStorage.getItem('authToken') === session.token) {
+      localStorage.removeItem('authToken');
+    }
+  }
+
+  lock(): void {
+    clearVaultKeys();
+  }
+
+  async changePin(currentPin: string, newPin: string): Promise<void> {
+    const record = this.vaultRecord;
+    if (!record) throw new Error('No PIN is set');
+    const keys = await openVault(record, currentPin);
+    await this.saveVaultRecord(await rewrapVault(record, keys, newPin));
+  }
+
+  /**
+   * Replace the data key and re-encrypt every record with the new one. The old
+   * key stays in the vault until all records are re-sealed, so an interrupted
+   * rotation resumes at the next unlock.
+   */
+  async rotateDataKey(pin: string): Promise<void> {
+    const record = this.vaultRecord;
+    if (!record) throw new Error('No PIN is set');
+    const keys = await openVault(record, pin);
+
+    if (!record.previousKeyId) {
+      const nextKey = { keyId: crypto.randomUUID(), key: await generateDataKey() };
+      const rotated = await rewrapVault(record, keys, pin, nextKey);
+      await this.saveVaultRecord(rotated);
+      setVaultKeys({ ...keys, [nextKey.keyId]: nextKey.key }, nextKey.keyId);
+    } else {
+      setVaultKeys(keys, record.keyId);
+    }
+    await this.finishVaultMaintenance();
+  }
+
+  async setAutoLockMinutes(minutes: number): Promise<void> {
+    if (!this.vaultRecord) return;
+    await this.saveVaultRecord({ ...this.vaultRecord, autoLockMinutes: minutes });
+  }
+
+  /** Seal records left in the clear by an interrupted setup, and finish an interrupted key rotation */
+  private async finishVaultMaintenance(): Promise<void> {
+    const record = this.vaultRecord;
+    if (!record || (record.migratedAt && !record.previousKeyId)) return;
+
+    await this.resealRecords(stored => sealedWithKey(stored) !== record.keyId);
+    await this.saveVaultRecord({
+      ...record,
+      migratedAt: record.migratedAt ?? new Date(),
+      previousKeyId: undefined,
+      previousWrappedKey: undefined
+    });
+    setVaultKeys({ [record.keyId]: getVaultKeys()![record.keyId] }, record.keyId);
+  }
+
+  // One record at a time, so photos and audio aren't all decrypted in memory at once
+  private async resealRecords(needsResealing: (stored: unknown) => boolean): Promise<void> {
+    const db = await this.ensureDB();
+    for (const store of Object.keys(SEALED_STORES) as SealedStore[]) {
+      await this.resealStore(db, store, needsResealing);
+    }
+  }
+
+  private async resealStore<S extends SealedStore>(
+    db: IDBPDatabase<FieldAppDB>,
+    store: S,
+    needsResealing: (stored: unknown) => boolean
+  ): Promise<void> {
+    const outOfLineKeys = store === 'session' || store === 'syncState';
+    for (const key of await db.getAllKeys(store)) {
+      const stored = await db.get(store, key);
+      if (!stored || !needsResealing(stored)) continue;
+      const sealed = await this.seal(store, await openRecord(stored));
+      await db.put(store, sealed, outOfLineKeys ? key : undefined);
+    }
+  }
+
+  /** Delete every field app record and the key material on this device */
+  async wipe(): Promise<void> {
+    clearVaultKeys();
+    this.db?.close();
+    this.db = null;
+    this.vaultRecord = null;
+    await deleteDB(DB_NAME);
+    localStorage.removeItem('authToken');
+  }
   
   // Session management
   async saveSession(session: FieldAppDB['session']['value']): Promise<void> {
-    const db = await this.ensureDB();
-    await db.put('session', session, 'current');
+    await this.put('session', session, 'current');
   }
   
   async getSession(): Promise<FieldAppDB['session']['value'] | undefined> {
-    const db = await this.ensureDB();
-    return db.get('session', 'current');
+    return this.get('session', 'current');
   }
   
   async clearSession(): Promise<void> {
@@ -294,27 +639,30 @@ class FieldDatabase {
     return db.get('settings', 'current');
   }
   
-  // Work items
+  // Work items - saved as downloaded, with the server values kept as the base for later edits.
+  // Items with an unresolved conflict keep the engineer's values until it is resolved.
   async saveWorkItems(items: FieldAppDB['workItems']['value'][]): Promise<void> {
     const db = await this.ensureDB();
-    const tx = db.transaction('workItems', 'readwrite');
-    await Promise.all(items.map(item => tx.store.put(item)));
-    await tx.done;
+    const conflictIds = new Set(await db.getAllKeys('syncConflicts'));
+    await this.putAll('workItems', items
+      .filter(item => !conflictIds.has(item.id))
+      .map(item => ({
+        ...item,
+        localEdits: undefined,
+        base: { values: pickSyncedValues(item as any), updatedAt: item.updatedAt ?? null }
+      })));
   }
   
   async getWorkItems(): Promise<FieldAppDB['workItems']['value'][]> {
-    const db = await this.ensureDB();
-    return db.getAll('workItems');
+    return this.getAll('workItems');
   }
   
   async getWorkItem(id: number): Promise<FieldAppDB['workItems']['value'] | undefined> {
-    const db = await this.ensureDB();
-    return db.get('workItems', id);
+    return this.get('workItems', id);
   }
   
   async updateWorkItem(id: number, updates: Partial<FieldAppDB['workItems']['value']>): Promise<void> {
-    const db = await this.ensureDB();
-    const item = await db.get('workItems', id);
+    const item = await this.get('workItems', id);
     if (!item) throw new Error(`Work item ${id} not found`);
     
     // Track local edits
@@ -327,36 +675,75 @@ class FieldDatabase {
       }
     };
     
-    await db.put('workItems', updatedItem);
+    await this.put('workItems', updatedItem);
     
     // Add to sync queue
     await this.addToSyncQueue('workItem', 'update', id, updatedItem);
   }
   
-  // Workflow templates
-  async saveTemplates(templates: FieldAppDB['workflowTemplates']['value'][]): Promise<void> {
+  // Sync conflicts
+  async saveSyncConflicts(conflicts: WorkItemSyncConflict[]): Promise<void> {
+    await this.putAll('syncConflicts', conflicts.map(conflict => ({ ...conflict, detectedAt: new Date() })));
+  }
+
+  async getSyncConflicts(): Promise<FieldAppDB['syncConflicts']['value'][]> {
+    return this.getAll('syncConflicts');
+  }
+
+  /**
+   * Apply the engineer's choices for a conflicted work item. The server's
+   * values become the new base, so the resolved values sync without
+   * conflicting again unless the office edits the same fields once more.
+   */
+  async resolveSyncConflict(workItemId: number, resolved: SyncedWorkItemValues): Promise<void> {
     const db = await this.ensureDB();
-    const tx = db.transaction('workflowTemplates', 'readwrite');
-    await Promise.all(templates.map(template => tx.store.put(template)));
-    await tx.done;
+    const conflict = await this.get('syncConflicts', workItemId);
+    if (!conflict) return;
+
+    const item = await this.get('workItems', workItemId);
+    if (item) {
+      const resolvedItem = {
+        ...item,
+        ...conflict.server,
+        ...resolved,
+        base: { values: conflict.server, updatedAt: conflict.serverUpdatedAt },
+        localEdits: undefined
+      } as FieldAppDB['workItems']['value'];
+      await this.put('workItems', resolvedItem);
+
+      const keepsMine = (Object.keys(resolved) as (keyof SyncedWorkItemValues)[])
+        .some(field => !sameValue(resolved[field], conflict.server[field]));
+      if (keepsMine) {
+        await this.addToSyncQueue('workItem', 'update', workItemId, resolvedItem);
+      }
+    }
+
+    await db.delete('syncConflicts', workItemId);
+  }
+
+  // Workflow templates, one copy per version the downloaded work items run on
+  async saveTemplates(templates: FieldAppDB['workflowTemplates']['value'][]): Promise<void> {
+    await this.putAll('workflowTemplates', templates.map(template => ({ ...template, id: template.templateKey ?? template.id })));
   }
   
-  async getTemplate(id: string): Promise<FieldAppDB['workflowTemplates']['value'] | undefined> {
-    const db = await this.ensureDB();
-    return db.get('workflowTemplates', id);
+  async getTemplate(key: string): Promise<FieldAppDB['workflowTemplates']['value'] | undefined> {
+    return this.get('workflowTemplates', key);
+  }
+
+  /** The template version the work item's workflow runs on, falling back to the live one */
+  async getWorkItemTemplate(item: Pick<FieldAppDB['workItems']['value'], 'workflowTemplateId' | 'workflowTemplateKey'>): Promise<FieldAppDB['workflowTemplates']['value'] | undefined> {
+    if (!item.workflowTemplateId) return undefined;
+    return (item.workflowTemplateKey && await this.getTemplate(item.workflowTemplateKey))
+      || this.getTemplate(item.workflowTemplateId);
   }
   
   // Workflow execution
   async saveWorkflowExecution(execution: FieldAppDB['workflowExecutions']['value']): Promise<void> {
-    const db = await this.ensureDB();
-    const key = `${execution.workItemId}-${execution.templateId}`;
-    await db.put('workflowExecutions', execution);
+    await this.put('workflowExecutions', execution);
   }
   
   async getWorkflowExecution(workItemId: number, templateId: string): Promise<FieldAppDB['workflowExecutions']['value'] | undefined> {
-    const db = await this.ensureDB();
-    const key = `${workItemId}-${templateId}`;
-    return db.get('workflowExecutions', [workItemId, templateId] as any);
+    return this.get('workflowExecutions', [workItemId, templateId]);
   }
   
   async updateWorkflowStep(
@@ -365,8 +752,6 @@ class FieldDatabase {
     stepId: string, 
     data: any
   ): Promise<void> {
-    const db = await this.ensureDB();
-    
     let execution = await this.getWorkflowExecution(workItemId, templateId);
     
     if (!execution) {
@@ -391,7 +776,10 @@ class FieldDatabase {
     await this.saveWorkflowExecution(execution);
     
     // Get the template to find the step index
-    const template = await this.getTemplate(templateId);
+    const workItem = await this.getWorkItem(workItemId);
+    const template = workItem
+      ? await this.getWorkItemTemplate(workItem)
+      : await this.getTemplate(templateId);
     const stepIndex = template?.steps?.findIndex((s: any) => s.id === stepId) ?? 0;
     
     // Convert photo IDs to base64 data for sync
@@ -461,8 +849,6 @@ class FieldDatabase {
     uploadedBy?: number,
     skipSyncQueue: boolean = false  // Don't queue already-synced photos from server
   ): Promise<string> {
-    const db = await this.ensureDB();
-    
     // Generate unique ID
     const id = `photo-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     
@@ -482,7 +868,7 @@ class FieldDatabase {
       uploadedBy
     };
     
-    await db.put('photos', photo);
+    await this.put('photos', photo);
     
     // Only add to sync queue if this is a newly captured photo (not downloaded from server)
     if (!skipSyncQueue) {
@@ -499,13 +885,11 @@ class FieldDatabase {
   }
   
   async getPhotos(workItemId: number): Promise<FieldAppDB['photos']['value'][]> {
-    const db = await this.ensureDB();
-    return db.getAllFromIndex('photos', 'by-work-item', workItemId);
+    return this.getAllFromIndex('photos', 'by-work-item', workItemId);
   }
   
   async getPhoto(id: string): Promise<FieldAppDB['photos']['value'] | undefined> {
-    const db = await this.ensureDB();
-    return db.get('photos', id);
+    return this.get('photos', id);
   }
 
   async saveAudio(
@@ -518,8 +902,6 @@ class FieldDatabase {
     uploadedBy?: number,
     skipSyncQueue: boolean = false
   ): Promise<string> {
-    const db = await this.ensureDB();
-    
     // Generate unique ID
     const id = `audio-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     
@@ -540,7 +922,7 @@ class FieldDatabase {
       uploadedBy
     };
     
-    await db.put('audioRecordings', audio);
+    await this.put('audioRecordings', audio);
     
     // Only add to sync queue if this is a newly captured audio (not downloaded from server)
     if (!skipSyncQueue) {
@@ -558,13 +940,11 @@ class FieldDatabase {
   }
   
   async getAudioRecordings(workItemId: number): Promise<FieldAppDB['audioRecordings']['value'][]> {
-    const db = await this.ensureDB();
-    return db.getAllFromIndex('audioRecordings', 'by-work-item', workItemId);
+    return this.getAllFromIndex('audioRecordings', 'by-work-item', workItemId);
   }
   
   async getAudioRecording(id: string): Promise<FieldAppDB['audioRecordings']['value'] | undefined> {
-    const db = await this.ensureDB();
-    return db.get('audioRecordings', id);
+    return this.get('audioRecordings', id);
   }
   
   // Sync queue management
@@ -576,7 +956,7 @@ class FieldDatabase {
   ): Promise<void> {
     const db = await this.ensureDB();
     
-    await db.add('syncQueue', {
+    await db.add('syncQueue', await this.seal('syncQueue', {
       type,
       action,
       entityId,
@@ -584,12 +964,47 @@ class FieldDatabase {
       timestamp: new Date(),
       retryCount: 0,
       syncStatus: 'pending'
-    });
+    }));
+    
+    // Let the service worker upload it as soon as there is a connection
+    void requestBackgroundSync();
   }
   
   async getSyncQueue(): Promise<FieldAppDB['syncQueue']['value'][]> {
+    return this.getAllFromIndex('syncQueue', 'by-status', 'pending');
+  }
+  
+  /**
+   * Take the pending entries for uploading, so the service worker and the
+   * sync screen never send the same entry twice. Claims older than
+   * SYNC_CLAIM_TIMEOUT_MS are from an interrupted sync and are taken over.
+   * Only readable fields change, so sealed entries are claimed as they are.
+   * Keep in step with claimQueue in public/field-sw.js.
+   */
+  async claimSyncQueue(): Promise<FieldAppDB['syncQueue']['value'][]> {
     const db = await this.ensureDB();
-    return db.getAllFromIndex('syncQueue', 'by-status', 'pending');
+    const tx = db.transaction('syncQueue', 'readwrite');
+    const now = new Date();
+    const claimed = (await tx.store.getAll()).filter(item =>
+      item.syncStatus === 'pending' ||
+      (item.syncStatus === 'syncing' && (!item.lastAttemptAt || now.getTime() - item.lastAttemptAt.getTime() > SYNC_CLAIM_TIMEOUT_MS))
+    );
+    await Promise.all(claimed.map(item => tx.store.put({ ...item, syncStatus: 'syncing', lastAttemptAt: now })));
+    await tx.done;
+    return Promise.all(claimed.map(item => openRecord({ ...item, syncStatus: 'syncing' as const, lastAttemptAt: now })));
+  }
+  
+  /** Return claimed entries that failed to upload to the queue */
+  async releaseSyncQueue(queueIds: number[], error?: string): Promise<void> {
+    const db = await this.ensureDB();
+    const tx = db.transaction('syncQueue', 'readwrite');
+    for (const id of queueIds) {
+      const item = await tx.store.get(id);
+      if (item) {
+        await tx.store.put({ ...item, syncStatus: 'pending', retryCount: item.retryCount + 1, lastError: error });
+      }
+    }
+    await tx.done;
   }
   
   async markSynced(queueIds: number[]): Promise<void> {
@@ -599,30 +1014,87 @@ class FieldDatabase {
     await tx.done;
   }
   
+  // Time tracking - one running timer at a time; entries sync once they have an end
+  async getTimeEntries(workItemId: number): Promise<FieldAppDB['timeEntries']['value'][]> {
+    const entries = await this.getAllFromIndex('timeEntries', 'by-work-item', workItemId);
+    return entries.sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+  }
+
+  async getRunningTimeEntry(): Promise<FieldAppDB['timeEntries']['value'] | undefined> {
+    const entries = await this.getAll('timeEntries');
+    return entries.find(entry => !entry.endedAt);
+  }
+
+  async startTimer(workItemId: number): Promise<FieldAppDB['timeEntries']['value']> {
+    const running = await this.getRunningTimeEntry();
+    if (running?.workItemId === workItemId) return running;
+    if (running) await this.stopTimer(running.workItemId);
+
+    const entry = {
+      id: `time-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      workItemId,
+      startedAt: new Date()
+    };
+    await this.put('timeEntries', entry);
+    return entry;
+  }
+
+  async stopTimer(workItemId: number, note?: string): Promise<void> {
+    const running = await this.getRunningTimeEntry();
+    if (!running || running.workItemId !== workItemId) return;
+
+    const endedAt = new Date();
+    await this.saveTimeEntry({
+      ...running,
+      endedAt,
+      durationMinutes: Math.min(minutesBetween(running.startedAt, endedAt), MAX_ENTRY_MINUTES),
+      note: note || running.note
+    });
+  }
+
+  async addTimeEntry(workItemId: number, startedAt: Date, durationMinutes: number, note?: string): Promise<void> {
+    await this.saveTimeEntry({
+      id: `time-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      workItemId,
+      startedAt,
+      endedAt: new Date(startedAt.getTime() + durationMinutes * 60000),
+      durationMinutes,
+      note
+    });
+  }
+
+  private async saveTimeEntry(entry: FieldAppDB['timeEntries']['value']): Promise<void> {
+    await this.put('timeEntries', entry);
+    await this.addToSyncQueue('timeEntry', 'create', entry.id, {
+      clientId: entry.id,
+      workItemId: entry.workItemId,
+      startedAt: entry.startedAt.toISOString(),
+      endedAt: entry.endedAt?.toISOString(),
+      durationMinutes: entry.durationMinutes,
+      note: entry.note
+    });
+  }
+
   // Fiber network nodes management
   async saveFiberNetworkNode(node: FieldAppDB['fiberNetworkNodes']['value']): Promise<void> {
-    const db = await this.ensureDB();
-    await db.put('fiberNetworkNodes', node);
+    await this.put('fiberNetworkNodes', node);
   }
 
   async getFiberNetworkNodes(workItemId: number): Promise<FieldAppDB['fiberNetworkNodes']['value'][]> {
-    const db = await this.ensureDB();
-    return db.getAllFromIndex('fiberNetworkNodes', 'by-work-item', workItemId);
+    return this.getAllFromIndex('fiberNetworkNodes', 'by-work-item', workItemId);
   }
 
   async getAllUnsyncedFiberNodes(): Promise<FieldAppDB['fiberNetworkNodes']['value'][]> {
-    const db = await this.ensureDB();
     // Return ALL fiber nodes created locally (both synced and unsynced)
     // This allows users to see their locally-created nodes even after sync
-    return db.getAll('fiberNetworkNodes');
+    return this.getAll('fiberNetworkNodes');
   }
 
   async markFiberNodeAsSynced(localId: string, serverId: number): Promise<void> {
-    const db = await this.ensureDB();
-    const node = await db.get('fiberNetworkNodes', localId);
+    const node = await this.get('fiberNetworkNodes', localId);
     
     if (node) {
-      await db.put('fiberNetworkNodes', {
+      await this.put('fiberNetworkNodes', {
         ...node,
         syncedToServer: true,
         serverId
@@ -630,11 +1102,134 @@ class FieldDatabase {
     }
   }
 
+  // Delta downloads
+  async getSyncState(): Promise<FieldAppDB['syncState']['value'] | undefined> {
+    return this.get('syncState', 'current');
+  }
+
+  async saveSyncState(state: FieldAppDB['syncState']['value']): Promise<void> {
+    await this.put('syncState', state, 'current');
+  }
+
+  async getWorkItemIds(): Promise<number[]> {
+    const db = await this.ensureDB();
+    return db.getAllKeys('workItems');
+  }
+
+  /**
+   * Drop work items the server has tombstoned, with their photos, recordings
+   * and time entries. Items with changes not yet synced, an open conflict or
+   * a running timer stay until the engineer has synced them. Returns the
+   * items removed.
+   */
+  async removeWorkItems(tombstones: WorkItemTombstone[]): Promise<Array<WorkItemTombstone & { title: string }>> {
+    const db = await this.ensureDB();
+    const conflictIds = new Set(await db.getAllKeys('syncConflicts'));
+    const pendingIds = new Set((await this.getAll('syncQueue')).map(entry =>
+      Number(entry.type === 'workItem' ? entry.entityId : entry.data?.workItemId)
+    ));
+    const running = await this.getRunningTimeEntry();
+    if (running) pendingIds.add(running.workItemId);
+    const removed: Array<WorkItemTombstone & { title: string }> = [];
+
+    for (const tombstone of tombstones) {
+      const item = await this.get('workItems', tombstone.workItemId);
+      if (!item || item.localEdits || conflictIds.has(item.id) || pendingIds.has(item.id)) continue;
+
+      const [photoKeys, audioKeys, timeEntryKeys] = await Promise.all([
+        db.getAllKeysFromIndex('photos', 'by-work-item', item.id),
+        db.getAllKeysFromIndex('audioRecordings', 'by-work-item', item.id),
+        db.getAllKeysFromIndex('timeEntries', 'by-work-item', item.id)
+      ]);
+      const tx = db.transaction(['workItems', 'workflowExecutions', 'photos', 'audioRecordings', 'timeEntries'], 'readwrite');
+      await Promise.all([
+        tx.objectStore('workItems').delete(item.id),
+        item.workflowTemplateId && tx.objectStore('workflowExecutions').delete([item.id, item.workflowTemplateId]),
+        ...photoKeys.map(key => tx.objectStore('photos').delete(key)),
+        ...audioKeys.map(key => tx.objectStore('audioRecordings').delete(key)),
+        ...timeEntryKeys.map(key => tx.objectStore('timeEntries').delete(key)),
+        tx.done
+      ]);
+      removed.push({ ...tombstone, title: item.title });
+    }
+    return removed;
+  }
+
   async deleteFiberNetworkNode(id: string): Promise<void> {
     const db = await this.ensureDB();
     await db.delete('fiberNetworkNodes', id);
   }
 
+  // Offline map management
+  async hasMapTile(key: string): Promise<boolean> {
+    const db = await this.ensureDB();
+    return (await db.getKey('mapTiles', key)) !== undefined;
+  }
+
+  async saveMapTile(key: string, blob: Blob): Promise<void> {
+    const db = await this.ensureDB();
+    // Stored as ArrayBuffer like photos, for iOS Safari
+    const arrayBuffer = await blob.arrayBuffer();
+    await db.put('mapTiles', {
+      key,
+      arrayBuffer,
+      mimeType: blob.type || 'image/png',
+      size: arrayBuffer.byteLength,
+      fetchedAt: new Date()
+    });
+  }
+
+  async getMapTile(key: string): Promise<Blob | null> {
+    const db = await this.ensureDB();
+    const tile = await db.get('mapTiles', key);
+    return tile ? new Blob([tile.arrayBuffer], { type: tile.mimeType }) : null;
+  }
+
+  async saveMapArea(
+    area: FieldAppDB['mapAreas']['value'],
+    nodes: OfflineNetworkNode[],
+    cables: OfflineCable[]
+  ): Promise<void> {
+    await this.putAll('networkNodes', nodes);
+    await this.putAll('networkCables', cables);
+    await this.put('mapAreas', area);
+  }
+
+  async getMapAreas(): Promise<FieldAppDB['mapAreas']['value'][]> {
+    return this.getAll('mapAreas');
+  }
+
+  async getNetwork(): Promise<{ nodes: OfflineNetworkNode[]; cables: OfflineCable[] }> {
+    const [nodes, cables] = await Promise.all([this.getAll('networkNodes'), this.getAll('networkCables')]);
+    return { nodes, cables };
+  }
+
+  async getMapStorage(): Promise<{ tiles: number; tileBytes: number; areas: number }> {
+    const db = await this.ensureDB();
+    let tiles = 0;
+    let tileBytes = 0;
+    // Walk the cursor rather than getAll so tile data is not all held in memory at once
+    let cursor = await db.transaction('mapTiles').store.openCursor();
+    while (cursor) {
+      tiles++;
+      tileBytes += cursor.value.size;
+      cursor = await cursor.continue();
+    }
+    return { tiles, tileBytes, areas: await db.count('mapAreas') };
+  }
+
+  async clearOfflineMaps(): Promise<void> {
+    const db = await this.ensureDB();
+    const tx = db.transaction(['mapTiles', 'mapAreas', 'networkNodes', 'networkCables'], 'readwrite');
+    await Promise.all([
+      tx.objectStore('mapTiles').clear(),
+      tx.objectStore('mapAreas').clear(),
+      tx.objectStore('networkNodes').clear(),
+      tx.objectStore('networkCables').clear(),
+      tx.done
+    ]);
+  }
+
   // Database statistics
   async getStats(): Promise<{
     workItems: number;
@@ -642,16 +1237,18 @@ class FieldDatabase {
     photos: number;
     fiberNodes: number;
     pendingSync: number;
+    conflicts: number;
     storageUsed?: number;
   }> {
     const db = await this.ensureDB();
     
-    const [workItems, templates, photos, fiberNodes, pendingSync] = await Promise.all([
+    const [workItems, templates, photos, fiberNodes, pendingSync, conflicts] = await Promise.all([
       db.count('workItems'),
       db.count('workflowTemplates'),
       db.count('photos'),
       db.count('fiberNetworkNodes'),
-      db.count('syncQueue')
+      db.count('syncQueue'),
+      db.count('syncConflicts')
     ]);
     
     // Try to estimate storage if available
@@ -661,7 +1258,7 @@ class FieldDatabase {
       storageUsed = estimate.usage;
     }
     
-    return { workItems, templates, photos, fiberNodes, pendingSync, storageUsed };
+    return { workItems, templates, photos, fiberNodes, pendingSync, conflicts, storageUsed };
   }
   
   // Clear cache (manual only, as requested)
@@ -679,7 +1276,15 @@ class FieldDatabase {
       'workflowExecutions', 
       'photos', 
       'syncQueue',
-      'fiberNetworkNodes'
+      'syncConflicts',
+      'timeEntries',
+      'fiberNetworkNodes',
+      'mapTiles',
+      'mapAreas',
+      'networkNodes',
+      'networkCables',
+      // Without its data the device needs a full download next time
+      'syncState'
     ] as const;
     
     const cleared: string[] = [];
@@ -690,8 +1295,8 @@ class FieldDatabase {
     // This ensures we know exactly which stores failed
     for (const store of storesToClear) {
       try {
-        const tx = db.transaction([store as any], 'readwrite');
-        await tx.objectStore(store as any).clear();
+        const tx = db.transaction(store, 'readwrite');
+        await tx.store.clear();
         await tx.done;
         cleared.push(store);
         console.log(`[FieldDB] Cleared store: ${store}`);
@@ -0,0 +1,241 @@
+/**
+ * Offline maps for the field app
+ * Pre-fetches base map tiles for the area around downloaded work items into IndexedDB,
+ * and provides a Leaflet tile layer that reads them back when there is no signal.
+ */
+
+import L from 'leaflet';
+import { fieldDB } from './db';
+import type { MapBounds, OfflineMapArea } from '@shared/fieldAppMap';
+
+export const MAP_DETAIL_LEVELS = {
+  standard: { label: 'Standard (streets)', minZoom: 12, maxZoom: 16 },
+  detailed: { label: 'Detailed (chambers and routes)', minZoom: 12, maxZoom: 18 },
+} as const;
+
+export type MapDetailLevel = keyof typeof MAP_DETAIL_LEVELS;
+
+const MAX_TILES_PER_AREA = 5000;
+const AVERAGE_TILE_BYTES = 20 * 1024;
+const TILE_FETCH_CONCURRENCY = 4;
+
+export interface TileCoords {
+  z: number;
+  x: number;
+  y: number;
+}
+
+/** Short stable id for a tile source, so tiles from different servers or styles never mix */
+function tileSource(template: string): string {
+  let hash = 5381;
+  for (let i = 0; i < template.length; i++) {
+    hash = ((hash * 33) ^ template.charCodeAt(i)) >>> 0;
+  }
+  return hash.toString(36);
+}
+
+export const tileKey = (template: string, { z, x, y }: TileCoords) => `${tileSource(template)}/${z}/${x}/${y}`;
+
+function tileX(longitude: number, zoom: number): number {
+  return Math.floor(((longitude + 180) / 360) * 2 ** zoom);
+}
+
+function tileY(latitude: number, zoom: number): number {
+  const radians = latitude * Math.PI / 180;
+  return Math.floor(((1 - Math.log(Math.tan(radians) + 1 / Math.cos(radians)) / Math.PI) / 2) * 2 ** zoom);
+}
+
+function tilesAtZoom(bounds: MapBounds, zoom: number): TileCoords[] {
+  const tiles: TileCoords[] = [];
+  const last = 2 ** zoom - 1;
+  const [minX, maxX] = [tileX(bounds.west, zoom), Math.min(tileX(bounds.east, zoom), last)];
+  const [minY, maxY] = [tileY(bounds.north, zoom), Math.min(tileY(bounds.south, zoom), last)];
+  for (let x = minX; x <= maxX; x++) {
+    for (let y = minY; y <= maxY; y++) {
+      tiles.push({ z: zoom, x, y });
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Tiles covering the bounds from minZoom up. Zoom levels that would take the
+ * area over the tile limit are dropped, so a large area gets less detail
+ * rather than an unbounded download. An area too large for even minZoom is
+ * an error.
+ */
+export function tilesForBounds(bounds: MapBounds, minZoom: number, maxZoom: number): { tiles: TileCoords[]; maxZoom: number } {
+  const tiles: TileCoords[] = [];
+  for (let zoom = minZoom; zoom <= maxZoom; zoom++) {
+    const level = tilesAtZoom(bounds, zoom);
+    if (tiles.length + level.length > MAX_TILES_PER_AREA) {
+      if (zoom === minZoom) {
+        throw new Error('The area is too large for an offline map; download fewer work items at a time');
+      }
+      return { tiles, maxZoom: zoom - 1 };
+    }
+    tiles.push(...level);
+  }
+  return { tiles, maxZoom };
+}
+
+export function estimateTileBytes(tileCount: number): number {
+  return tileCount * AVERAGE_TILE_BYTES;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${Math.round(bytes / 1024)} KB`;
+}
+
+export function tileUrl(template: string, { z, x, y }: TileCoords): string {
+  return template
+    .replace('{s}', 'abc'[(x + y) % 3])
+    .replace('{z}', String(z))
+    .replace('{x}', String(x))
+    .replace('{y}', String(y))
+    .replace('{r}', '');
+}
+
+export async function fetchMapArea(token: string, workItemIds: number[]): Promise<OfflineMapArea> {
+  const response = await fetch('/api/field-app/map-area', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ workItemIds })
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || 'Failed to load the map area');
+  }
+  return response.json();
+}
+
+/** Device storage used and available to the app, where the browser reports it */
+export async function getStorageQuota(): Promise<{ usage: number; quota: number } | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return quota > 0 ? { usage, quota } : null;
+}
+
+/** Fetch the tiles not already stored; returns how many failed */
+async function downloadTiles(
+  template: string,
+  tiles: TileCoords[],
+  onProgress?: (done: number, total: number) => void
+): Promise<number> {
+  const missing: TileCoords[] = [];
+  for (const tile of tiles) {
+    if (!(await fieldDB.hasMapTile(tileKey(template, tile)))) missing.push(tile);
+  }
+
+  const quota = await getStorageQuota();
+  if (quota && quota.quota - quota.usage < estimateTileBytes(missing.length)) {
+    throw new Error(`Not enough storage for the offline map (needs about ${formatBytes(estimateTileBytes(missing.length))})`);
+  }
+  // Ask the browser not to evict the map under storage pressure
+  await navigator.storage?.persist?.().catch(() => false);
+
+  let done = tiles.length - missing.length;
+  let failed = 0;
+  onProgress?.(done, tiles.length);
+
+  const queue = [...missing];
+  const worker = async () => {
+    for (let tile = queue.shift(); tile; tile = queue.shift()) {
+      try {
+        const response = await fetch(tileUrl(template, tile));
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        await fieldDB.saveMapTile(tileKey(template, tile), await response.blob());
+      } catch (error) {
+        failed++;
+        console.warn(`[OfflineMap] Tile ${tile.z}/${tile.x}/${tile.y} failed:`, error);
+      }
+      onProgress?.(++done, tiles.length);
+    }
+  };
+  await Promise.all(Array.from({ length: TILE_FETCH_CONCURRENCY }, worker));
+
+  if (missing.length > 0 && failed === missing.length) {
+    throw new Error('Map tiles could not be downloaded');
+  }
+  return failed;
+}
+
+/**
+ * Download the tiles for an area (skipping those already stored) and save its
+ * fiber nodes and cables. Individual tile failures are tolerated; the map just
+ * has a gap there. When the server has no tile source for offline use, only
+ * the network is saved.
+ */
+export async function downloadMapArea(
+  area: OfflineMapArea & { bounds: MapBounds },
+  detail: MapDetailLevel,
+  onProgress?: (done: number, total: number) => void
+): Promise<{ tileCount: number; failed: number; maxZoom: number }> {
+  const { minZoom, maxZoom: requestedMaxZoom } = MAP_DETAIL_LEVELS[detail];
+  let tiles: TileCoords[] = [];
+  let maxZoom: number = requestedMaxZoom;
+  let failed = 0;
+  if (area.tileUrl) {
+    ({ tiles, maxZoom } = tilesForBounds(area.bounds, minZoom, requestedMaxZoom));
+    failed = await downloadTiles(area.tileUrl, tiles, onProgress);
+  }
+
+  await fieldDB.saveMapArea({
+    id: crypto.randomUUID(),
+    bounds: area.bounds,
+    minZoom,
+    maxZoom,
+    tileUrl: area.tileUrl,
+    attribution: area.attribution,
+    workItemIds: area.locatedWorkItemIds,
+    tileCount: tiles.length,
+    nodeCount: area.nodes.length,
+    cableCount: area.cables.length,
+    downloadedAt: new Date()
+  }, area.nodes, area.cables);
+
+  return { tileCount: tiles.length, failed, maxZoom };
+}
+
+/**
+ * Tile layer that serves downloaded tiles from IndexedDB, and falls back to
+ * the network for anything not downloaded while there is a connection.
+ */
+export class OfflineTileLayer extends L.TileLayer {
+  private readonly template: string;
+
+  constructor(urlTemplate: string, options?: L.TileLayerOptions) {
+    super(urlTemplate, options);
+    this.template = urlTemplate;
+  }
+
+  protected createTile(coords: L.Coords, done: L.DoneCallback): HTMLElement {
+    const tile = document.createElement('img');
+    tile.alt = '';
+    tile.setAttribute('role', 'presentation');
+
+    fieldDB.getMapTile(tileKey(this.template, coords)).then(blob => {
+      if (blob) {
+        const objectUrl = URL.createObjectURL(blob);
+        tile.onload = () => {
+          URL.revokeObjectURL(objectUrl);
+          done(undefined, tile);
+        };
+        tile.src = objectUrl;
+      } else if (navigator.onLine) {
+        tile.onload = () => done(undefined, tile);
+        tile.onerror = () => done(new Error('Tile failed to load'), tile);
+        tile.src = this.getTileUrl(coords);
+      } else {
+        done(new Error('Tile not available offline'), tile);
+      }
+    }).catch(error => done(error, tile));
+
+    return tile;
+  }
+}
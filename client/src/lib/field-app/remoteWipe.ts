@@ -0,0 +1,48 @@
+/**
+ * Remote wipe for the field app
+ * An admin can ask for a user's field app data to be wiped, e.g. when a phone is lost.
+ * The server signals it on the device's next sync (410 with `wipe: true`); the device
+ * confirms and deletes its IndexedDB data and sign-in. The service worker does the same
+ * for background syncs and tells open pages with a REMOTE_WIPE message.
+ */
+
+import { fieldDB } from './db';
+
+/** Whether a sync response is the server's remote wipe signal */
+export async function isRemoteWipe(response: Response): Promise<boolean> {
+  if (response.status !== 410) return false;
+  const result = await response.clone().json().catch(() => ({}));
+  return result.wipe === true;
+}
+
+/** Ask the server whether this device is due to be wiped, without sending anything */
+export async function checkRemoteWipe(token: string): Promise<boolean> {
+  const response = await fetch('/api/field-app/wipe-status', {
+    headers: { 'Authorization': `Bearer ${token}` }
+  });
+  if (!response.ok) return false;
+  const { wipe } = await response.json();
+  return wipe === true;
+}
+
+/** Confirm the wipe to the server, then delete everything on the device */
+export async function performRemoteWipe(token: string): Promise<void> {
+  await fetch('/api/field-app/wipe-confirm', {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${token}` }
+  }).catch(() => undefined);
+  await fieldDB.wipe();
+}
+
+/** Call onWiped when the service worker wipes the device. Returns a function that stops listening. */
+export function onRemoteWipe(onWiped: () => void): () => void {
+  const handleMessage = async (event: MessageEvent) => {
+    if (event.data?.type === 'REMOTE_WIPE') {
+      // The database is already gone; drop the keys and sign-in held by this page
+      await fieldDB.wipe();
+      onWiped();
+    }
+  };
+  navigator.serviceWorker?.addEventListener('message', handleMessage);
+  return () => navigator.serviceWorker?.removeEventListener('message', handleMessage);
+}
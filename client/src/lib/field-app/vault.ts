@@ -0,0 +1,309 @@
+/**
+ * At-rest encryption for the field app's IndexedDB data
+ *
+ * Records are encrypted with AES-GCM under a random data key. The data key is
+ * stored only wrapped (AES-KW) with a key derived from the user's PIN by
+ * PBKDF2, so changing the PIN re-wraps one key rather than re-encrypting every
+ * record. Key paths and index fields stay readable so lookups, indexes and the
+ * sync queue's claim/release logic work without the key; everything else is
+ * sealed. See docs/FIELD_APP_ENCRYPTION.md, including the key rotation path.
+ *
+ * public/field-sw.js opens records in the same format - keep the two in step.
+ */
+
+export const MIN_PIN_LENGTH = 6;
+export const MAX_UNLOCK_ATTEMPTS = 10;
+export const DEFAULT_AUTO_LOCK_MINUTES = 5;
+export const AUTO_LOCK_OPTIONS = [1, 5, 15, 30];
+
+const PBKDF2_ITERATIONS = 600000;
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'touchstart', 'scroll'] as const;
+
+/**
+ * Fields left readable, per encrypted store: key paths and index fields, plus
+ * the sync bookkeeping the service worker updates in place.
+ */
+export const SEALED_STORES = {
+  session: [],
+  workItems: ['id', 'status', 'assigneeId', 'workflowTemplateId'],
+  workflowTemplates: ['id'],
+  workflowExecutions: ['workItemId', 'templateId'],
+  photos: ['id', 'workItemId'],
+  audioRecordings: ['id', 'workItemId'],
+  syncQueue: ['id', 'syncStatus', 'timestamp', 'lastAttemptAt', 'retryCount', 'lastError'],
+  syncConflicts: ['entityId'],
+  timeEntries: ['id', 'workItemId'],
+  fiberNetworkNodes: ['id', 'workItemId', 'syncedToServer', 'serverId'],
+  networkNodes: ['id'],
+  networkCables: ['id'],
+  mapAreas: ['id'],
+  syncState: [],
+} as const;
+
+export type SealedStoreName = keyof typeof SEALED_STORES;
+
+/** Stores whose media bytes are encrypted as binary rather than JSON */
+const BINARY_STORES: SealedStoreName[] = ['photos', 'audioRecordings'];
+
+export interface VaultRecord {
+  version: 1;
+  salt: Uint8Array<ArrayBuffer>;
+  iterations: number;
+  keyId: string;
+  wrappedKey: ArrayBuffer;
+  // Set while a data key rotation is re-encrypting records, so both keys open records
+  previousKeyId?: string;
+  previousWrappedKey?: ArrayBuffer;
+  autoLockMinutes: number;
+  failedAttempts: number;
+  createdAt: Date;
+  pinChangedAt?: Date;
+  keyRotatedAt?: Date;
+  // Set once records stored before the vault existed have been sealed
+  migratedAt?: Date;
+}
+
+interface SealedEnvelope {
+  k: string; // Id of the data key it was sealed with
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer;
+  bin?: { iv: Uint8Array<ArrayBuffer>; data: ArrayBuffer };
+}
+
+export type VaultKeys = Record<string, CryptoKey>;
+
+export class VaultError extends Error {
+  constructor(message: string, public code: 'locked' | 'incorrect_pin' | 'wiped' | 'invalid_pin') {
+    super(message);
+    this.name = 'VaultError';
+  }
+}
+
+// Unlocked data keys live only in memory
+let unlockedKeys: VaultKeys | null = null;
+let currentKeyId: string | null = null;
+
+export function isUnlocked(): boolean {
+  return unlockedKeys !== null;
+}
+
+export function getVaultKeys(): VaultKeys | null {
+  return unlockedKeys;
+}
+
+/** The unlocked keys and the one new records are sealed with, for handing to the service worker */
+export function getUnlockedVault(): { keys: VaultKeys; keyId: string } | null {
+  return unlockedKeys && currentKeyId ? { keys: unlockedKeys, keyId: currentKeyId } : null;
+}
+
+export function setVaultKeys(keys: VaultKeys, keyId: string): void {
+  unlockedKeys = keys;
+  currentKeyId = keyId;
+}
+
+export function clearVaultKeys(): void {
+  unlockedKeys = null;
+  currentKeyId = null;
+}
+
+export function validatePin(pin: string): void {
+  if (pin.length < MIN_PIN_LENGTH) {
+    throw new VaultError(`PIN must be at least ${MIN_PIN_LENGTH} characters`, 'invalid_pin');
+  }
+}
+
+async function deriveWrappingKey(pin: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-KW', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+}
+
+export function generateDataKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+}
+
+async function unwrapDataKey(wrapped: ArrayBuffer, wrappingKey: CryptoKey): Promise<CryptoKey> {
+  return crypto.subtle.unwrapKey('raw', wrapped, wrappingKey, 'AES-KW', 'AES-GCM', true, ['encrypt', 'decrypt']);
+}
+
+/** New vault for a PIN, with a fresh data key */
+export async function createVault(pin: string): Promise<{ record: VaultRecord; key: CryptoKey }> {
+  validatePin(pin);
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await generateDataKey();
+  const wrappingKey = await deriveWrappingKey(pin, salt, PBKDF2_ITERATIONS);
+  return {
+    key,
+    record: {
+      version: 1,
+      salt,
+      iterations: PBKDF2_ITERATIONS,
+      keyId: crypto.randomUUID(),
+      wrappedKey: await crypto.subtle.wrapKey('raw', key, wrappingKey, 'AES-KW'),
+      autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES,
+      failedAttempts: 0,
+      createdAt: new Date()
+    }
+  };
+}
+
+/** The vault's data keys, or VaultError('incorrect_pin') */
+export async function openVault(record: VaultRecord, pin: string): Promise<VaultKeys> {
+  const wrappingKey = await deriveWrappingKey(pin, record.salt, record.iterations);
+  try {
+    const keys: VaultKeys = { [record.keyId]: await unwrapDataKey(record.wrappedKey, wrappingKey) };
+    if (record.previousKeyId && record.previousWrappedKey) {
+      keys[record.previousKeyId] = await unwrapDataKey(record.previousWrappedKey, wrappingKey);
+    }
+    return keys;
+  } catch {
+    // AES-KW unwrapping fails its integrity check with the wrong wrapping key
+    throw new VaultError('Incorrect PIN', 'incorrect_pin');
+  }
+}
+
+/**
+ * Wrap the vault's data keys under a new PIN (new salt). Also used to swap in
+ * a rotated data key: pass it as nextKey and the old one is kept as previous.
+ */
+export async function rewrapVault(
+  record: VaultRecord,
+  keys: VaultKeys,
+  pin: string,
+  nextKey?: { keyId: string; key: CryptoKey }
+): Promise<VaultRecord> {
+  validatePin(pin);
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const wrappingKey = await deriveWrappingKey(pin, salt, PBKDF2_ITERATIONS);
+  const wrap = (key: CryptoKey) => crypto.subtle.wrapKey('raw', key, wrappingKey, 'AES-KW');
+
+  if (nextKey) {
+    return {
+      ...record,
+      salt,
+      iterations: PBKDF2_ITERATIONS,
+      keyId: nextKey.keyId,
+      wrappedKey: await wrap(nextKey.key),
+      previousKeyId: record.keyId,
+      previousWrappedKey: await wrap(keys[record.keyId]),
+      keyRotatedAt: new Date()
+    };
+  }
+
+  return {
+    ...record,
+    salt,
+    iterations: PBKDF2_ITERATIONS,
+    wrappedKey: await wrap(keys[record.keyId]),
+    previousWrappedKey: record.previousKeyId && keys[record.previousKeyId] ? await wrap(keys[record.previousKeyId]) : undefined,
+    pinChangedAt: new Date()
+  };
+}
+
+// Dates survive the JSON round trip tagged
+function dateReplacer(this: any, key: string, value: any) {
+  return this[key] instanceof Date ? { __date: this[key].toISOString() } : value;
+}
+
+function dateReviver(_key: string, value: any) {
+  return value && typeof value === 'object' && typeof value.__date === 'string' && Object.keys(value).length === 1
+    ? new Date(value.__date)
+    : value;
+}
+
+async function encrypt(key: CryptoKey, plaintext: BufferSource): Promise<{ iv: Uint8Array<ArrayBuffer>; data: ArrayBuffer }> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  return { iv, data: await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext) };
+}
+
+/**
+ * Seal a record for storing. With no vault set up (keys null and
+ * requireKey false) it is stored as is.
+ */
+export async function sealRecord<T>(store: SealedStoreName, value: T, requireKey: boolean, keyId?: string): Promise<T> {
+  const sealWith = keyId ?? currentKeyId;
+  const key = sealWith ? unlockedKeys?.[sealWith] : undefined;
+  if (!key || !sealWith) {
+    if (requireKey) throw new VaultError('Field app data is locked', 'locked');
+    return value;
+  }
+
+  const clearFields = SEALED_STORES[store] as readonly string[];
+  const stored: Record<string, any> = {};
+  const secret: Record<string, any> = {};
+  for (const [field, fieldValue] of Object.entries(value as Record<string, any>)) {
+    if (field === '__sealed') continue;
+    if (clearFields.includes(field)) stored[field] = fieldValue;
+    else secret[field] = fieldValue;
+  }
+
+  let binary: ArrayBuffer | undefined;
+  if (BINARY_STORES.includes(store)) {
+    binary = secret.arrayBuffer ?? (secret.blob ? await (secret.blob as Blob).arrayBuffer() : undefined);
+    delete secret.arrayBuffer;
+    delete secret.blob;
+  }
+
+  const envelope: SealedEnvelope = {
+    k: sealWith,
+    ...(await encrypt(key, new TextEncoder().encode(JSON.stringify(secret, dateReplacer))))
+  };
+  if (binary) {
+    envelope.bin = await encrypt(key, binary);
+  }
+  stored.__sealed = envelope;
+  return stored as T;
+}
+
+/** Open a stored record; records saved before the vault was set up come back unchanged */
+export async function openRecord<T>(record: T): Promise<T> {
+  const envelope: SealedEnvelope | undefined = (record as any)?.__sealed;
+  if (!envelope) return record;
+
+  const key = unlockedKeys?.[envelope.k];
+  if (!key) throw new VaultError('Field app data is locked', 'locked');
+
+  const json = new TextDecoder().decode(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: envelope.iv }, key, envelope.data));
+  const { __sealed, ...clear } = record as any;
+  const value = { ...JSON.parse(json, dateReviver), ...clear };
+  if (envelope.bin) {
+    value.arrayBuffer = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: envelope.bin.iv }, key, envelope.bin.data);
+  }
+  return value;
+}
+
+export function sealedWithKey(record: unknown): string | null {
+  return (record as any)?.__sealed?.k ?? null;
+}
+
+/**
+ * Call onLock after the given minutes without interaction. The clock keeps
+ * running while the app is in the background. Returns a function that stops it.
+ */
+export function startAutoLock(minutes: number, onLock: () => void): () => void {
+  let lastActivity = Date.now();
+  const touch = () => {
+    lastActivity = Date.now();
+  };
+  const check = () => {
+    if (Date.now() - lastActivity >= minutes * 60 * 1000) onLock();
+  };
+  const handleVisibility = () => {
+    if (document.visibilityState === 'visible') check();
+  };
+
+  ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, touch, { passive: true }));
+  document.addEventListener('visibilitychange', handleVisibility);
+  const interval = setInterval(check, 15 * 1000);
+
+  return () => {
+    ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, touch));
+    document.removeEventListener('visibilitychange', handleVisibility);
+    clearInterval(interval);
+  };
+}
@@ -1,4 +1,8 @@
 import { apiRequest } from '@/lib/queryClient';
+import type { DependencyGraph, DependencyWorkItem, DueDateConflict } from '@shared/workItemDependencies';
+import { CUSTOM_FIELD_FILTER_PREFIX, type CustomFieldValues, type WorkItemCustomFieldDefinition } from '@shared/workItemCustomFields';
+import { countQueryRules, withoutIncompleteRules, type WorkItemQueryGroup, type WorkItemViewVisibility } from '@shared/workItemQuery';
+import type { TimeEntrySource, TimeReportGroup } from '@shared/timeTracking';
 
 // Types for work items
 export interface WorkItem {
@@ -21,6 +25,9 @@ export interface WorkItem {
   workflowSource?: string | null;
   workflowMetadata?: Record<string, any> | null;
   workItemType?: string | null;
+  customFields?: CustomFieldValues;
+  /** Set on items generated by a recurring task or recurrence rule */
+  recurrenceKey?: string | null;
   // Related data
   assignee?: {
     id: number;
@@ -70,6 +77,14 @@ export interface User {
   role: string;
 }
 
+export interface WorkItemDependencySummary {
+  blockedBy: Array<DependencyWorkItem & { assignedTo: number | null }>;
+  blocks: Array<DependencyWorkItem & { assignedTo: number | null }>;
+  openBlockerCount: number;
+  hint: string | null;
+  dueDateConflicts: DueDateConflict[];
+}
+
 export interface WorkItemFilters {
   status?: string[];
   origin?: 'All' | 'Ad-hoc' | 'KR Task';
@@ -81,10 +96,136 @@ export interface WorkItemFilters {
   teamId?: number;
   workItemType?: string;
   workflowTemplateId?: string;
+  /** Custom field filters keyed by field name; comma separate several values */
+  customFields?: Record<string, string>;
+  /** Advanced AND/OR query, applied on top of the simple filters */
+  query?: WorkItemQueryGroup;
+  /** Saved view whose query (and sort, unless sortBy is given) applies */
+  viewId?: number;
+  /** A column from WORK_ITEM_SORT_COLUMNS or cf:<fieldName> */
+  sortBy?: string;
+  sortDirection?: 'asc' | 'desc';
   page?: number;
   pageSize?: number;
 }
 
+export interface WorkItemPage {
+  items: WorkItem[];
+  total: number;
+}
+
+export interface WorkItemView {
+  id: number;
+  name: string;
+  description: string | null;
+  ownerId: number;
+  visibility: WorkItemViewVisibility;
+  teamId: number | null;
+  teamName: string | null;
+  query: WorkItemQueryGroup;
+  sortBy: string;
+  sortDirection: 'asc' | 'desc';
+  columns: string[] | null;
+  menuItemId: number | null;
+  isOwner: boolean;
+  isPinned: boolean;
+}
+
+export interface SaveWorkItemViewData {
+  name: string;
+  description?: string | null;
+  visibility: WorkItemViewVisibility;
+  teamId?: number | null;
+  query: WorkItemQueryGroup;
+  sortBy?: string;
+  sortDirection?: 'asc' | 'desc';
+  columns?: string[] | null;
+}
+
+export interface WorkItemRecurrence {
+  id: number;
+  templateWorkItemId: number;
+  rule: string;
+  description: string;
+  startDate: string;
+  skipPublicHolidays: boolean;
+  nextOccurrence: string | null;
+  generationStatus: 'active' | 'paused' | 'completed';
+}
+
+export interface RecurrencePreviewRequest {
+  rule?: string;
+  frequency?: string;
+  frequencyParams?: { dayOfWeek?: number[]; dayOfMonth?: number };
+  startDate?: string;
+  skipPublicHolidays?: boolean;
+  count?: number;
+}
+
+export interface RecurrencePreview {
+  rule: string;
+  description: string;
+  occurrences: Array<{ date: string; excludedReason?: string }>;
+}
+
+export interface TimeEntry {
+  id: number;
+  workItemId: number;
+  userId: number;
+  userName: string | null;
+  startedAt: string;
+  /** Null while the timer is running */
+  endedAt: string | null;
+  durationMinutes: number | null;
+  note: string | null;
+  source: TimeEntrySource;
+}
+
+export interface RunningTimer extends Omit<TimeEntry, 'userName'> {
+  workItemTitle: string;
+}
+
+export interface StepDuration {
+  stepIndex: number;
+  stepTitle: string;
+  status: string;
+  completedAt: string | null;
+  minutes: number | null;
+}
+
+export interface WorkItemTime {
+  entries: TimeEntry[];
+  steps: StepDuration[];
+  totalMinutes: number;
+}
+
+export interface TimeEntryData {
+  startedAt: string;
+  endedAt?: string | null;
+  durationMinutes?: number | null;
+  note?: string | null;
+}
+
+export interface TimeReportFilters {
+  groupBy: TimeReportGroup;
+  from?: string;
+  to?: string;
+}
+
+export interface TimeReport {
+  groupBy: TimeReportGroup;
+  rows: Array<{ key: string; label: string; minutes: number; entryCount: number; workItemCount: number }>;
+  steps: Array<{
+    workItemType: string;
+    stepTitle: string;
+    stepIndex: number;
+    completions: number;
+    averageMinutes: number;
+    medianMinutes: number;
+  }>;
+  totalMinutes: number;
+}
+
 export interface CreateWorkItemData {
   title: string;
   description?: string;
@@ -99,6 +240,7 @@ export interface CreateWorkItemData {
   workflowSource?: string | null;
   workflowMetadata?: Record<string, any> | null;
   workItemType?: string | null;
+  customFields?: CustomFieldValues;
 }
 
 export interface UpdateWorkItemData extends Partial<CreateWorkItemData> {}
@@ -119,8 +261,7 @@ export interface BulkUpdateData {
 }
 
 // API functions
-export async function fetchWorkItems(filters: WorkItemFilters = {}): Promise<WorkItem[]> {
-  const token = localStorage.getItem('authToken');
+function workItemsUrl(filters: WorkItemFilters) {
   const params = new URLSearchParams();
   
   if (filters.status && filters.status.length > 0) {
@@ -153,6 +294,23 @@ export async function fetchWorkItems(filters: WorkItemFilters = {}): Promise<Wor
   if (filters.workflowTemplateId) {
     params.append('workflowTemplateId', filters.workflowTemplateId);
   }
+  Object.entries(filters.customFields || {}).forEach(([fieldName, value]) => {
+    if (value) params.append(`${CUSTOM_FIELD_FILTER_PREFIX}${fieldName}`, value);
+  });
+  // Conditions still being filled in the builder are left out rather than rejected
+  const query = filters.query && withoutIncompleteRules(filters.query);
+  if (query && countQueryRules(query) > 0) {
+    params.append('query', JSON.stringify(query));
+  }
+  if (filters.viewId) {
+    params.append('viewId', filters.viewId.toString());
+  }
+  if (filters.sortBy) {
+    params.append('sortBy', filters.sortBy);
+  }
+  if (filters.sortDirection) {
+    params.append('sortDirection', filters.sortDirection);
+  }
   if (filters.page) {
     params.append('page', filters.page.toString());
   }
@@ -161,9 +319,18 @@ export async function fetchWorkItems(filters: WorkItemFilters = {}): Promise<Wor
   }
   
   const queryString = params.toString();
-  const url = `/api/work-items${queryString ? `?${queryString}` : ''}`;
-  
-  const response = await fetch(url, {
+  return `/api/work-items${queryString ? `?${queryString}` : ''}`;
+}
+
+export async function fetchWorkItems(filters: WorkItemFilters = {}): Promise<WorkItem[]> {
+  const { items } = await fetchWorkItemPage(filters);
+  return items;
+}
+
+/** One page of work items plus the total matching the filters (X-Total-Count) */
+export async function fetchWorkItemPage(filters: WorkItemFilters = {}): Promise<WorkItemPage> {
+  const token = localStorage.getItem('authToken');
+  const response = await fetch(workItemsUrl(filters), {
     headers: {
       'Authorization': `Bearer ${token}`,
     },
@@ -171,10 +338,13 @@ export async function fetchWorkItems(filters: WorkItemFilters = {}): Promise<Wor
   });
   
   if (!response.ok) {
-    throw new Error('Failed to fetch work items');
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to fetch work items');
   }
   
-  return response.json();
+  const items: WorkItem[] = await response.json();
+  const total = parseInt(response.headers.get('X-Total-Count') || '');
+  return { items, total: isNaN(total) ? items.length : total };
 }
 
 export async function createWorkItem(data: CreateWorkItemData): Promise<WorkItem> {
@@ -304,4 +474,177 @@ export async function deleteWorkItem(id: number): Promise<void> {
   }
   
   return response.json();
-}
\ No newline at end of file
+}
+// Dependencies
+export async function fetchWorkItemDependencies(id: number): Promise<WorkItemDependencySummary> {
+  const response = await apiRequest(`/api/work-items/${id}/dependencies`);
+  return response.json();
+}
+
+export async function fetchDependencyGraph(): Promise<DependencyGraph> {
+  const response = await apiRequest('/api/work-items/dependencies');
+  return response.json();
+}
+
+export async function addWorkItemDependency(id: number, blockingWorkItemId: number): Promise<WorkItemDependencySummary> {
+  const response = await apiRequest(`/api/work-items/${id}/dependencies`, {
+    method: 'POST',
+    body: { blockingWorkItemId },
+  });
+  return response.json();
+}
+
+export async function removeWorkItemDependency(id: number, blockingWorkItemId: number): Promise<WorkItemDependencySummary> {
+  const response = await apiRequest(`/api/work-items/${id}/dependencies/${blockingWorkItemId}`, {
+    method: 'DELETE',
+  });
+  return response.json();
+}
+
+// Custom fields
+export async function fetchWorkItemFieldDefinitions(): Promise<WorkItemCustomFieldDefinition[]> {
+  const response = await apiRequest('/api/fields/work-items');
+  const data = await response.json();
+  return data.definitions;
+}
+
+export async function createWorkItemFieldDefinition(data: Omit<WorkItemCustomFieldDefinition, 'id'>): Promise<WorkItemCustomFieldDefinition> {
+  const response = await apiRequest('/api/fields/work-items', { method: 'POST', body: data });
+  const result = await response.json();
+  return result.definition;
+}
+
+export async function updateWorkItemFieldDefinition(
+  id: number,
+  data: Partial<Omit<WorkItemCustomFieldDefinition, 'id' | 'fieldName' | 'fieldType'>>
+): Promise<WorkItemCustomFieldDefinition> {
+  const response = await apiRequest(`/api/fields/work-items/${id}`, { method: 'PATCH', body: data });
+  const result = await response.json();
+  return result.definition;
+}
+
+export async function deleteWorkItemFieldDefinition(id: number): Promise<void> {
+  await apiRequest(`/api/fields/work-items/${id}`, { method: 'DELETE' });
+}
+
+// Saved views
+export async function fetchWorkItemViews(): Promise<WorkItemView[]> {
+  const response = await apiRequest('/api/work-items/views');
+  return response.json();
+}
+
+export async function createWorkItemView(data: SaveWorkItemViewData): Promise<WorkItemView> {
+  const response = await apiRequest('/api/work-items/views', { method: 'POST', body: data });
+  return response.json();
+}
+
+export async function updateWorkItemView(id: number, data: Partial<SaveWorkItemViewData>): Promise<WorkItemView> {
+  const response = await apiRequest(`/api/work-items/views/${id}`, { method: 'PUT', body: data });
+  return response.json();
+}
+
+export async function deleteWorkItemView(id: number): Promise<void> {
+  await apiRequest(`/api/work-items/views/${id}`, { method: 'DELETE' });
+}
+
+export async function setWorkItemViewPinned(id: number, pinned: boolean): Promise<WorkItemView> {
+  const response = await apiRequest(`/api/work-items/views/${id}/pin`, { method: pinned ? 'POST' : 'DELETE' });
+  return response.json();
+}
+
+// Recurrence
+export async function previewRecurrence(data: RecurrencePreviewRequest): Promise<RecurrencePreview> {
+  const response = await apiRequest('/api/work-items/recurrence/preview', { method: 'POST', body: data });
+  return response.json();
+}
+
+export async function fetchWorkItemRecurrence(id: number): Promise<WorkItemRecurrence | null> {
+  const response = await apiRequest(`/api/work-items/${id}/recurrence`);
+  return response.json();
+}
+
+export async function saveWorkItemRecurrence(
+  id: number,
+  data: { rule: string; startDate?: string; skipPublicHolidays?: boolean }
+): Promise<WorkItemRecurrence> {
+  const response = await apiRequest(`/api/work-items/${id}/recurrence`, { method: 'PUT', body: data });
+  return response.json();
+}
+
+export async function deleteWorkItemRecurrence(id: number): Promise<void> {
+  await apiRequest(`/api/work-items/${id}/recurrence`, { method: 'DELETE' });
+}
+
+// Time tracking
+export async function fetchWorkItemTime(id: number): Promise<WorkItemTime> {
+  const response = await apiRequest(`/api/work-items/${id}/time`);
+  return response.json();
+}
+
+export async function fetchRunningTimer(): Promise<RunningTimer | null> {
+  const response = await apiRequest('/api/work-items/time/running');
+  return response.json();
+}
+
+export async function startWorkItemTimer(id: number): Promise<TimeEntry> {
+  const response = await apiRequest(`/api/work-items/${id}/time/start`, { method: 'POST' });
+  return response.json();
+}
+
+export async function stopWorkItemTimer(id: number, note?: string): Promise<TimeEntry> {
+  const response = await apiRequest(`/api/work-items/${id}/time/stop`, { method: 'POST', body: { note } });
+  return response.json();
+}
+
+export async function logWorkItemTime(id: number, data: TimeEntryData): Promise<TimeEntry> {
+  const response = await apiRequest(`/api/work-items/${id}/time`, { method: 'POST', body: data });
+  return response.json();
+}
+
+export async function updateTimeEntry(entryId: number, data: Partial<TimeEntryData>): Promise<TimeEntry> {
+  const response = await apiRequest(`/api/work-items/time/${entryId}`, { method: 'PATCH', body: data });
+  return response.json();
+}
+
+export async function deleteTimeEntry(entryId: number): Promise<void> {
+  await apiRequest(`/api/work-items/time/${entryId}`, { method: 'DELETE' });
+}
+
+function timeReportParams(filters: Partial<TimeReportFilters>): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.groupBy) params.append('groupBy', filters.groupBy);
+  if (filters.from) params.append('from', filters.from);
+  if (filters.to) params.append('to', filters.to);
+  return params;
+}
+
+export async function fetchTimeReport(filters: TimeReportFilters): Promise<TimeReport> {
+  const response = await apiRequest(`/api/work-items/time/report?${timeReportParams(filters)}`);
+  return response.json();
+}
+
+/** Download the grouped report, or every entry behind it when entries is set, as CSV */
+export async function downloadTimeReportCsv(filters: TimeReportFilters, entries = false): Promise<void> {
+  const params = timeReportParams(filters);
+  if (!entries) params.append('format', 'csv');
+  const token = localStorage.getItem('authToken');
+  const response = await fetch(`/api/work-items/time/${entries ? 'entries.csv' : 'report'}?${params}`, {
+    headers: {
+      'Authorization': `Bearer ${token}`,
+    },
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to export time report');
+  }
+
+  const fileName = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ?? 'time-report.csv';
+  const url = window.URL.createObjectURL(await response.blob());
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  window.URL.revokeObjectURL(url);
+}
@@ -21,7 +21,7 @@ import {
   Workflow, Plus, Play, Pause, Edit, Trash2, Settings, Save, 
   GitBranch, Zap, Clock, Calendar, CheckCircle, XCircle,
   AlertCircle, History, Bot, ArrowRight, RefreshCw,
-  Filter, Search, ChevronRight, Folder, Users, GripVertical, X
+  Filter, Search, ChevronRight, Folder, Users, GripVertical, X, UserCheck
 } from 'lucide-react';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Switch } from '@/components/ui/switch';
@@ -30,6 +30,7 @@ import { cn } from '@/lib/utils';
 import type { AgentWorkflow, Integration, KeyResult, Team } from '@shared/schema';
 import WorkflowStepBuilder from '@/components/workflow/WorkflowStepBuilder';
 import { ProcessFolderNavigation } from '@/components/process-folders/ProcessFolderNavigation';
+import { WorkflowApprovalsPanel } from '@/components/workflow/WorkflowApprovalsPanel';
 
 interface ProcessFolder {
   id: number;
@@ -45,7 +46,7 @@ interface WorkflowRun {
   id: number;
   workflowId: number;
   workflowName: string;
-  status: 'running' | 'completed' | 'failed';
+  status: 'running' | 'completed' | 'failed' | 'interrupted' | 'awaiting_approval';
   triggerSource: string;
   startedAt: Date;
   completedAt?: Date;
@@ -109,7 +110,7 @@ const ACTION_TYPES = {
 } as const;
 
 export default function AgentBuilder() {
-  const [selectedTab, setSelectedTab] = useState<'workflows' | 'runs'>('workflows');
+  const [selectedTab, setSelectedTab] = useState<'workflows' | 'runs' | 'approvals'>('workflows');
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
   const [editingWorkflow, setEditingWorkflow] = useState<AgentWorkflow | null>(null);
   const [filterStatus, setFilterStatus] = useState<string>('all');
@@ -127,9 +128,12 @@ export default function AgentBuilder() {
   const navigate = (path: string) => setLocation(path);
   const searchString = useSearch();
 
-  // Handle runId query parameter from URL (e.g., from webhook event log)
+  // Handle runId and tab query parameters from URL (e.g., from webhook event log or an approval task)
   useEffect(() => {
     const params = new URLSearchParams(searchString);
+    if (params.get('tab') === 'approvals') {
+      setSelectedTab('approvals');
+    }
     const runIdParam = params.get('runId');
     if (runIdParam) {
       const runId = parseInt(runIdParam, 10);
@@ -712,7 +716,7 @@ export default function AgentBuilder() {
         <div className="flex-1 overflow-auto">
           <div className="container mx-auto px-4 sm:px-6 py-6">
             {/* Tabs */}
-            <Tabs value={selectedTab} onValueChange={(v) => setSelectedTab(v as 'workflows' | 'runs')}>
+            <Tabs value={selectedTab} onValueChange={(v) => setSelectedTab(v as 'workflows' | 'runs' | 'approvals')}>
               <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 mb-6">
                 <TabsList>
                   <TabsTrigger value="workflows" data-testid="tab-workflows">
@@ -723,6 +727,10 @@ export default function AgentBuilder() {
                     <History className="mr-2 h-4 w-4" />
                     Run History
                   </TabsTrigger>
+                  <TabsTrigger value="approvals" data-testid="tab-approvals">
+                    <UserCheck className="mr-2 h-4 w-4" />
+                    Approvals
+                  </TabsTrigger>
                 </TabsList>
                 <Link href="/integrations">
                   <Button variant="outline" size="sm" data-testid="button-integrations">
@@ -1344,6 +1352,10 @@ export default function AgentBuilder() {
                             <CheckCircle className="h-5 w-5 text-green-500 shrink-0 mt-0.5 sm:mt-0" />
                           ) : run.status === 'failed' ? (
                             <XCircle className="h-5 w-5 text-destructive shrink-0 mt-0.5 sm:mt-0" />
+                          ) : run.status === 'interrupted' ? (
+                            <XCircle className="h-5 w-5 text-amber-500 shrink-0 mt-0.5 sm:mt-0" />
+                          ) : run.status === 'awaiting_approval' ? (
+                            <UserCheck className="h-5 w-5 text-amber-500 shrink-0 mt-0.5 sm:mt-0" />
                           ) : (
                             <RefreshCw className="h-5 w-5 text-blue-500 animate-spin shrink-0 mt-0.5 sm:mt-0" />
                           )}
@@ -1444,6 +1456,11 @@ export default function AgentBuilder() {
             </Card>
           )}
               </TabsContent>
+
+              {/* Approvals Tab */}
+              <TabsContent value="approvals">
+                <WorkflowApprovalsPanel />
+              </TabsContent>
             </Tabs>
           </div>
         </div>
@@ -9,11 +9,12 @@ import { queryClient, apiRequest } from '@/lib/queryClient';
 import {
   Cable, Calculator, Mail, Database as DatabaseIcon, Bot, Settings,
   CheckCircle, XCircle, AlertCircle, Plus, Workflow, RefreshCw, Info, Map, Phone,
-  MessageSquareText
+  MessageSquareText, Gauge, ShieldAlert
 } from 'lucide-react';
-import type { Integration } from '@shared/schema';
+import type { Integration, IntegrationCircuitBreaker } from '@shared/schema';
 import { useToast } from '@/hooks/use-toast';
 import { IntegrationCapabilities } from '@/components/IntegrationCapabilities';
+import { IntegrationResilienceSettings } from '@/components/IntegrationResilienceSettings';
 
 // Integration configuration
 const INTEGRATION_CONFIG = {
@@ -109,6 +110,7 @@ export default function Integrations() {
   const [selectedTab, setSelectedTab] = useState<'active' | 'available'>('active');
   const [capabilitiesOpen, setCapabilitiesOpen] = useState(false);
   const [selectedIntegration, setSelectedIntegration] = useState<Integration | null>(null);
+  const [resilienceIntegration, setResilienceIntegration] = useState<Integration | null>(null);
   const { toast } = useToast();
   
   // Fetch integrations
@@ -116,6 +118,34 @@ export default function Integrations() {
     queryKey: ['/api/integrations'],
   });
 
+  // Circuit breaker state, refreshed so paused integrations show up without a reload
+  const { data: circuitBreakers = [] } = useQuery<IntegrationCircuitBreaker[]>({
+    queryKey: ['/api/integrations/circuit-breakers'],
+    refetchInterval: 30000,
+  });
+
+  const resetBreakerMutation = useMutation({
+    mutationFn: async (integrationId: number) => {
+      return apiRequest(`/api/integrations/${integrationId}/circuit-breaker/reset`, {
+        method: 'POST',
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Circuit breaker reset',
+        description: 'Workflow calls to this integration are allowed again.',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/integrations/circuit-breakers'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Reset failed',
+        description: error?.message || 'Unable to reset the circuit breaker.',
+        variant: 'destructive',
+      });
+    },
+  });
+
   // Test connection mutation
   const testConnectionMutation = useMutation({
     mutationFn: async (platformType: string) => {
@@ -166,7 +196,10 @@ export default function Integrations() {
     );
   }
 
-  const activeIntegrations = integrations?.filter(i => i.connectionStatus === 'active' || i.connectionStatus === 'connected') || [];
+  // The built-in Platform Events integration only exists to publish triggers
+  const activeIntegrations = integrations?.filter(i =>
+    i.platformType !== 'platform' && (i.connectionStatus === 'active' || i.connectionStatus === 'connected')
+  ) || [];
   const availableIntegrations = Object.keys(INTEGRATION_CONFIG).filter(
     platform => !integrations?.some(i => i.platformType === platform && (i.connectionStatus === 'active' || i.connectionStatus === 'connected'))
   ) as IntegrationType[];
@@ -226,6 +259,8 @@ export default function Integrations() {
               {activeIntegrations.map((integration) => {
                 const config = INTEGRATION_CONFIG[integration.platformType as IntegrationType];
                 const Icon = config?.icon || Settings;
+                const breaker = circuitBreakers.find(b => b.integrationId === integration.id);
+                const breakerTripped = breaker && breaker.state !== 'closed';
                 
                 return (
                   <Card key={integration.id} className="relative">
@@ -234,10 +269,17 @@ export default function Integrations() {
                         <div className={`p-1.5 rounded-lg ${config?.color || 'bg-gray-500'} bg-opacity-10`}>
                           <Icon className={`h-5 w-5 ${config?.color?.replace('bg-', 'text-')}`} />
                         </div>
-                        <Badge variant="outline" className="bg-green-50 dark:bg-green-900/30 text-green-700 dark:text-green-300 border-green-200 dark:border-green-800 text-xs">
-                          <CheckCircle className="h-3 w-3 mr-1" />
-                          Active
-                        </Badge>
+                        {breakerTripped ? (
+                          <Badge variant="outline" className="bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300 border-red-200 dark:border-red-800 text-xs" data-testid={`badge-circuit-${integration.platformType}`}>
+                            <ShieldAlert className="h-3 w-3 mr-1" />
+                            {breaker.state === 'open' ? 'Paused' : 'Recovering'}
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline" className="bg-green-50 dark:bg-green-900/30 text-green-700 dark:text-green-300 border-green-200 dark:border-green-800 text-xs">
+                            <CheckCircle className="h-3 w-3 mr-1" />
+                            Active
+                          </Badge>
+                        )}
                       </div>
                       <CardTitle className="text-base">{integration.name}</CardTitle>
                       <CardDescription className="text-xs">{config?.description}</CardDescription>
@@ -258,6 +300,27 @@ export default function Integrations() {
                             </Badge>
                           </div>
                         )}
+                        {breakerTripped && (
+                          <div className="mt-2 p-2 rounded-md bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 space-y-1">
+                            <div>
+                              Workflow calls paused after {breaker.consecutiveFailures} consecutive failure{breaker.consecutiveFailures === 1 ? '' : 's'}
+                              {breaker.retryAt && breaker.state === 'open' && <> until {new Date(breaker.retryAt).toLocaleTimeString()}</>}
+                            </div>
+                            {breaker.lastError && (
+                              <div className="truncate" title={breaker.lastError}>Last error: {breaker.lastError}</div>
+                            )}
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="w-full h-7 text-xs"
+                              onClick={() => resetBreakerMutation.mutate(integration.id)}
+                              disabled={resetBreakerMutation.isPending}
+                              data-testid={`button-reset-circuit-${integration.platformType}`}
+                            >
+                              Reset
+                            </Button>
+                          </div>
+                        )}
                       </div>
                       <div className="mt-3 space-y-2">
                         <Button
@@ -284,6 +347,16 @@ export default function Integrations() {
                           <RefreshCw className={`mr-2 h-3 w-3 ${testConnectionMutation.isPending ? 'animate-spin' : ''}`} />
                           Test Connection
                         </Button>
+                        <Button
+                          variant="outline"
+                          className="w-full"
+                          size="sm"
+                          onClick={() => setResilienceIntegration(integration)}
+                          data-testid={`button-call-limits-${integration.platformType}`}
+                        >
+                          <Gauge className="mr-2 h-3 w-3" />
+                          Call Limits
+                        </Button>
                         <Link href={config?.setupPath || '#'}>
                           <Button variant="outline" size="sm" className="w-full" data-testid={`button-manage-${integration.platformType}`}>
                             <Settings className="mr-2 h-3 w-3" />
@@ -356,6 +429,14 @@ export default function Integrations() {
           onOpenChange={setCapabilitiesOpen}
         />
       )}
+
+      {resilienceIntegration && (
+        <IntegrationResilienceSettings
+          integration={resilienceIntegration}
+          open={!!resilienceIntegration}
+          onOpenChange={(open) => !open && setResilienceIntegration(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,129 +1,194 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
 import { Label } from "@/components/ui/label";
-import { 
-  Users, 
-  Target, 
+import {
+  Target,
   Link,
   Plus,
-  User,
   Building2,
   ChevronRight,
   AlertCircle,
   CheckCircle
 } from "lucide-react";
+import {
+  OBJECTIVE_LEVEL_LABELS,
+  createsCascadeCycle,
+  type ObjectiveRollup,
+} from "@shared/okrRollup";
+
+interface AlignmentObjective {
+  id: number;
+  title: string;
+  status: string;
+  teamId?: number | null;
+  ownerId?: number | null;
+  parentObjectiveId?: number | null;
+  contributionWeight?: string | null;
+  rollup?: ObjectiveRollup;
+}
+
+interface Team {
+  id: number;
+  name: string;
+}
+
+interface OrgUser {
+  id: number;
+  fullName: string;
+  role?: string;
+}
+
+const formatProgress = (progress: number | null | undefined) =>
+  progress === null || progress === undefined ? "—" : `${Math.round(progress)}%`;
+
+function CascadeRow({ objective, byParent, depth }: {
+  objective: AlignmentObjective;
+  byParent: Map<number, AlignmentObjective[]>;
+  depth: number;
+}) {
+  const children = byParent.get(objective.id) || [];
+  const issues = objective.rollup?.issues || [];
+
+  return (
+    <>
+      <div className="flex items-center gap-3 py-2 border-b last:border-b-0" style={{ paddingLeft: depth * 24 }}>
+        {depth > 0 ? <ChevronRight className="h-4 w-4 text-gray-400 flex-shrink-0" /> : <Target className="h-4 w-4 text-primary flex-shrink-0" />}
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className="text-sm font-medium truncate">{objective.title}</span>
+            <Badge variant="outline" className="text-xs">
+              {OBJECTIVE_LEVEL_LABELS[objective.rollup?.level ?? "company"]}
+            </Badge>
+            {depth > 0 && parseFloat(objective.contributionWeight ?? "1") !== 1 && (
+              <span className="text-xs text-gray-500">weight ×{parseFloat(objective.contributionWeight ?? "1")}</span>
+            )}
+          </div>
+          {issues.map(issue => (
+            <p key={issue.type} className="text-xs text-amber-700 flex items-center gap-1 mt-0.5">
+              <AlertCircle className="h-3 w-3" />
+              {issue.message}
+            </p>
+          ))}
+        </div>
+        <div className="flex items-center gap-2 w-40 flex-shrink-0">
+          <Progress value={objective.rollup?.progress ?? 0} className="h-2 flex-1" />
+          <span className="text-xs font-medium w-10 text-right">{formatProgress(objective.rollup?.progress)}</span>
+        </div>
+      </div>
+      {children.map(child => (
+        <CascadeRow key={child.id} objective={child} byParent={byParent} depth={depth + 1} />
+      ))}
+    </>
+  );
+}
 
 export default function StrategyAlignment() {
-  const [selectedView, setSelectedView] = useState("teams");
+  const { toast } = useToast();
+  const [selectedView, setSelectedView] = useState("objectives");
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [newAlignment, setNewAlignment] = useState({
-    entityType: "team",
-    entityId: "",
     objectiveId: "",
-    weight: 50
+    parentObjectiveId: "",
+    weight: 1
   });
 
-  // Mock data for teams and objectives
-  const teams = [
-    {
-      id: 1,
-      name: "Engineering",
-      memberCount: 12,
-      lead: "Sarah Chen",
-      alignments: [
-        { objectiveId: 1, objectiveName: "Increase Digital Revenue", weight: 60 },
-        { objectiveId: 3, objectiveName: "Expand Market Presence", weight: 40 }
-      ],
-      coverage: 85
-    },
-    {
-      id: 2,
-      name: "Sales",
-      memberCount: 8,
-      lead: "Mike Johnson",
-      alignments: [
-        { objectiveId: 1, objectiveName: "Increase Digital Revenue", weight: 80 },
-        { objectiveId: 2, objectiveName: "Improve Customer Satisfaction", weight: 20 }
-      ],
-      coverage: 95
-    },
-    {
-      id: 3,
-      name: "Customer Success",
-      memberCount: 6,
-      lead: "Emily Davis",
-      alignments: [
-        { objectiveId: 2, objectiveName: "Improve Customer Satisfaction", weight: 90 },
-        { objectiveId: 4, objectiveName: "Build Operational Excellence", weight: 10 }
-      ],
-      coverage: 100
-    },
-    {
-      id: 4,
-      name: "Operations",
-      memberCount: 5,
-      lead: "David Kim",
-      alignments: [
-        { objectiveId: 4, objectiveName: "Build Operational Excellence", weight: 100 }
-      ],
-      coverage: 75
-    }
-  ];
+  const { data: objectives = [] } = useQuery<AlignmentObjective[]>({
+    queryKey: ['/api/strategy/objectives'],
+  });
 
-  const individuals = [
-    {
-      id: 1,
-      name: "Alice Johnson",
-      role: "Senior Engineer",
-      team: "Engineering",
-      alignments: [
-        { objectiveId: 1, objectiveName: "Increase Digital Revenue", weight: 70 },
-        { objectiveId: 3, objectiveName: "Expand Market Presence", weight: 30 }
-      ]
-    },
-    {
-      id: 2,
-      name: "Bob Smith",
-      role: "Sales Manager",
-      team: "Sales",
-      alignments: [
-        { objectiveId: 1, objectiveName: "Increase Digital Revenue", weight: 100 }
-      ]
-    },
-    {
-      id: 3,
-      name: "Carol White",
-      role: "CS Lead",
-      team: "Customer Success",
-      alignments: [
-        { objectiveId: 2, objectiveName: "Improve Customer Satisfaction", weight: 90 },
-        { objectiveId: 1, objectiveName: "Increase Digital Revenue", weight: 10 }
-      ]
-    }
-  ];
+  const { data: teams = [] } = useQuery<Team[]>({
+    queryKey: ['/api/teams'],
+  });
+
+  const { data: users = [] } = useQuery<OrgUser[]>({
+    queryKey: ['/api/users'],
+  });
 
-  const objectives = [
-    { id: 1, name: "Increase Digital Revenue", totalAlignment: 240, targetAlignment: 200, status: "over-aligned" },
-    { id: 2, name: "Improve Customer Satisfaction", totalAlignment: 110, targetAlignment: 150, status: "under-aligned" },
-    { id: 3, name: "Expand Market Presence", totalAlignment: 70, targetAlignment: 100, status: "under-aligned" },
-    { id: 4, name: "Build Operational Excellence", totalAlignment: 110, targetAlignment: 100, status: "aligned" }
-  ];
+  const activeObjectives = useMemo(
+    () => objectives.filter(objective => objective.status !== "Archived"),
+    [objectives]
+  );
 
-  const getAlignmentColor = (status: string) => {
-    switch (status) {
-      case "over-aligned": return "text-blue-600 bg-blue-50";
-      case "under-aligned": return "text-red-600 bg-red-50";
-      case "aligned": return "text-green-600 bg-green-50";
-      default: return "text-gray-600 bg-gray-50";
-    }
-  };
+  const { roots, byParent } = useMemo(() => {
+    const ids = new Set(activeObjectives.map(objective => objective.id));
+    const byParent = new Map<number, AlignmentObjective[]>();
+    const roots: AlignmentObjective[] = [];
+    activeObjectives.forEach(objective => {
+      if (objective.parentObjectiveId && ids.has(objective.parentObjectiveId)) {
+        byParent.set(objective.parentObjectiveId, [...(byParent.get(objective.parentObjectiveId) || []), objective]);
+      } else {
+        roots.push(objective);
+      }
+    });
+    return { roots, byParent };
+  }, [activeObjectives]);
+
+  const orphans = activeObjectives.filter(objective => objective.rollup?.issues.some(issue => issue.type === "orphan"));
+  const misaligned = activeObjectives.filter(objective =>
+    objective.rollup?.issues.some(issue => issue.type !== "orphan")
+  );
+  const aligned = activeObjectives.filter(objective => objective.parentObjectiveId);
+  const companyObjectives = activeObjectives.filter(objective => (objective.rollup?.level ?? "company") === "company");
+  const companyProgress = (() => {
+    const measured = companyObjectives.filter(objective => objective.rollup?.progress !== null && objective.rollup?.progress !== undefined);
+    if (measured.length === 0) return null;
+    return measured.reduce((sum, objective) => sum + (objective.rollup?.progress as number), 0) / measured.length;
+  })();
+
+  const teamsWithObjectives = teams
+    .map(team => {
+      const teamObjectives = activeObjectives.filter(objective => objective.teamId === team.id);
+      const healthy = teamObjectives.filter(objective => objective.parentObjectiveId && (objective.rollup?.issues.length ?? 0) === 0);
+      return {
+        ...team,
+        objectives: teamObjectives,
+        coverage: teamObjectives.length > 0 ? Math.round((healthy.length / teamObjectives.length) * 100) : 0,
+      };
+    })
+    .filter(team => team.objectives.length > 0);
+
+  const individualObjectives = activeObjectives.filter(objective => objective.rollup?.level === "individual");
+  const individuals = users
+    .map(user => ({ ...user, objectives: individualObjectives.filter(objective => objective.ownerId === user.id) }))
+    .filter(user => user.objectives.length > 0);
+
+  const objectiveTitle = (id?: number | null) => objectives.find(objective => objective.id === id)?.title;
+
+  const parentOptions = newAlignment.objectiveId
+    ? activeObjectives.filter(objective =>
+        objective.id !== parseInt(newAlignment.objectiveId) &&
+        !createsCascadeCycle(objectives, parseInt(newAlignment.objectiveId), objective.id)
+      )
+    : [];
+
+  const alignMutation = useMutation({
+    mutationFn: () => apiRequest(`/api/strategy/objectives/${newAlignment.objectiveId}`, {
+      method: 'PUT',
+      body: {
+        parentObjectiveId: parseInt(newAlignment.parentObjectiveId),
+        contributionWeight: newAlignment.weight,
+      },
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/strategy/objectives'] });
+      toast({ title: "Alignment added", description: "The objective now contributes to its parent's progress." });
+      setShowAddDialog(false);
+      setNewAlignment({ objectiveId: "", parentObjectiveId: "", weight: 1 });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to add alignment", variant: "destructive" });
+    },
+  });
 
   const getCoverageColor = (coverage: number) => {
     if (coverage >= 90) return "text-green-600";
@@ -137,7 +202,7 @@ export default function StrategyAlignment() {
       <div className="flex justify-between items-start">
         <div>
           <h1 className="text-3xl font-bold text-gray-900">Alignment Map</h1>
-          <p className="text-gray-600 mt-1">See how teams and individuals align to strategic objectives</p>
+          <p className="text-gray-600 mt-1">See how team and individual objectives roll up into company objectives</p>
         </div>
         <div className="flex gap-3">
           <Select value={selectedView} onValueChange={setSelectedView}>
@@ -145,9 +210,9 @@ export default function StrategyAlignment() {
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
+              <SelectItem value="objectives">Cascade View</SelectItem>
               <SelectItem value="teams">Teams View</SelectItem>
               <SelectItem value="individuals">Individuals View</SelectItem>
-              <SelectItem value="objectives">Objectives View</SelectItem>
             </SelectContent>
           </Select>
           <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
@@ -161,49 +226,43 @@ export default function StrategyAlignment() {
               <DialogHeader>
                 <DialogTitle>Add Alignment</DialogTitle>
                 <DialogDescription>
-                  Connect a team or individual to a strategic objective
+                  Make an objective contribute to a higher-level objective
                 </DialogDescription>
               </DialogHeader>
               <div className="space-y-4 mt-4">
                 <div className="space-y-2">
-                  <Label>Entity Type</Label>
-                  <Select value={newAlignment.entityType} onValueChange={(value) => setNewAlignment({ ...newAlignment, entityType: value })}>
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="team">Team</SelectItem>
-                      <SelectItem value="individual">Individual</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div className="space-y-2">
-                  <Label>{newAlignment.entityType === "team" ? "Select Team" : "Select Individual"}</Label>
-                  <Select value={newAlignment.entityId} onValueChange={(value) => setNewAlignment({ ...newAlignment, entityId: value })}>
+                  <Label>Objective</Label>
+                  <Select
+                    value={newAlignment.objectiveId}
+                    onValueChange={(value) => setNewAlignment({ ...newAlignment, objectiveId: value, parentObjectiveId: "" })}
+                  >
                     <SelectTrigger>
-                      <SelectValue placeholder="Choose..." />
+                      <SelectValue placeholder="Choose objective..." />
                     </SelectTrigger>
                     <SelectContent>
-                      {newAlignment.entityType === "team" 
-                        ? teams.map(team => (
-                            <SelectItem key={team.id} value={team.id.toString()}>{team.name}</SelectItem>
-                          ))
-                        : individuals.map(person => (
-                            <SelectItem key={person.id} value={person.id.toString()}>{person.name}</SelectItem>
-                          ))
-                      }
+                      {activeObjectives.map(obj => (
+                        <SelectItem key={obj.id} value={obj.id.toString()}>
+                          {obj.title} · {OBJECTIVE_LEVEL_LABELS[obj.rollup?.level ?? "company"]}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
                 <div className="space-y-2">
-                  <Label>Objective</Label>
-                  <Select value={newAlignment.objectiveId} onValueChange={(value) => setNewAlignment({ ...newAlignment, objectiveId: value })}>
+                  <Label>Contributes to</Label>
+                  <Select
+                    value={newAlignment.parentObjectiveId}
+                    onValueChange={(value) => setNewAlignment({ ...newAlignment, parentObjectiveId: value })}
+                    disabled={!newAlignment.objectiveId}
+                  >
                     <SelectTrigger>
-                      <SelectValue placeholder="Choose objective..." />
+                      <SelectValue placeholder="Choose parent objective..." />
                     </SelectTrigger>
                     <SelectContent>
-                      {objectives.map(obj => (
-                        <SelectItem key={obj.id} value={obj.id.toString()}>{obj.name}</SelectItem>
+                      {parentOptions.map(obj => (
+                        <SelectItem key={obj.id} value={obj.id.toString()}>
+                          {obj.title} · {OBJECTIVE_LEVEL_LABELS[obj.rollup?.level ?? "company"]}
+                        </SelectItem>
                       ))}
                     </SelectContent>
                   </Select>
@@ -211,26 +270,26 @@ export default function StrategyAlignment() {
                 <div className="space-y-2">
                   <div className="flex justify-between">
                     <Label>Weight / Contribution</Label>
-                    <span className="text-sm font-medium">{newAlignment.weight}%</span>
+                    <span className="text-sm font-medium">×{newAlignment.weight}</span>
                   </div>
                   <Slider
                     value={[newAlignment.weight]}
                     onValueChange={(value) => setNewAlignment({ ...newAlignment, weight: value[0] })}
-                    max={100}
-                    step={10}
+                    max={5}
+                    step={0.5}
                   />
                   <p className="text-xs text-gray-600">
-                    How much of their effort is dedicated to this objective
+                    Relative to the parent's key results and other aligned objectives (each counts ×1 by default)
                   </p>
                 </div>
                 <div className="flex justify-end gap-2">
                   <Button variant="outline" onClick={() => setShowAddDialog(false)}>
                     Cancel
                   </Button>
-                  <Button onClick={() => {
-                    console.log("Adding alignment:", newAlignment);
-                    setShowAddDialog(false);
-                  }}>
+                  <Button
+                    disabled={!newAlignment.objectiveId || !newAlignment.parentObjectiveId || alignMutation.isPending}
+                    onClick={() => alignMutation.mutate()}
+                  >
                     Add Alignment
                   </Button>
                 </div>
@@ -244,46 +303,66 @@ export default function StrategyAlignment() {
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <Card>
           <CardHeader className="pb-3">
-            <CardTitle className="text-sm">Total Teams</CardTitle>
+            <CardTitle className="text-sm">Company Progress</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{teams.length}</div>
-            <p className="text-xs text-gray-600 mt-1">Aligned to objectives</p>
+            <div className="text-2xl font-bold">{formatProgress(companyProgress)}</div>
+            <Progress value={companyProgress ?? 0} className="h-1 mt-2" />
           </CardContent>
         </Card>
         <Card>
           <CardHeader className="pb-3">
-            <CardTitle className="text-sm">Average Coverage</CardTitle>
+            <CardTitle className="text-sm">Aligned Objectives</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">89%</div>
-            <Progress value={89} className="h-1 mt-2" />
+            <div className="text-2xl font-bold">{aligned.length}/{activeObjectives.length}</div>
+            <p className="text-xs text-gray-600 mt-1">Contribute to a parent objective</p>
           </CardContent>
         </Card>
         <Card>
           <CardHeader className="pb-3">
-            <CardTitle className="text-sm">Under-Aligned</CardTitle>
+            <CardTitle className="text-sm">Orphaned</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-red-600">2</div>
-            <p className="text-xs text-gray-600 mt-1">Objectives need attention</p>
+            <div className="text-2xl font-bold text-red-600">{orphans.length}</div>
+            <p className="text-xs text-gray-600 mt-1">Team or individual objectives without a parent</p>
           </CardContent>
         </Card>
         <Card>
           <CardHeader className="pb-3">
-            <CardTitle className="text-sm">Over-Aligned</CardTitle>
+            <CardTitle className="text-sm">Misaligned</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-blue-600">1</div>
-            <p className="text-xs text-gray-600 mt-1">Consider rebalancing</p>
+            <div className="text-2xl font-bold text-amber-600">{misaligned.length}</div>
+            <p className="text-xs text-gray-600 mt-1">Links that need attention</p>
           </CardContent>
         </Card>
       </div>
 
       {/* Main Content */}
+      {selectedView === "objectives" && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Objective Cascade</CardTitle>
+            <CardDescription>Progress rolls up from key results and aligned objectives, by weight</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {roots.map(objective => (
+              <CascadeRow key={objective.id} objective={objective} byParent={byParent} depth={0} />
+            ))}
+            {roots.length === 0 && (
+              <div className="text-center py-8 text-gray-500">
+                <Target className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+                <p className="text-sm">No objectives yet</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {selectedView === "teams" && (
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          {teams.map((team) => (
+          {teamsWithObjectives.map((team) => (
             <Card key={team.id}>
               <CardHeader>
                 <div className="flex items-start justify-between">
@@ -294,43 +373,47 @@ export default function StrategyAlignment() {
                     <div>
                       <CardTitle className="text-lg">{team.name}</CardTitle>
                       <CardDescription>
-                        {team.memberCount} members • Led by {team.lead}
+                        {team.objectives.length} objective{team.objectives.length !== 1 ? "s" : ""}
                       </CardDescription>
                     </div>
                   </div>
                   <span className={`text-sm font-medium ${getCoverageColor(team.coverage)}`}>
-                    {team.coverage}% covered
+                    {team.coverage}% aligned
                   </span>
                 </div>
               </CardHeader>
               <CardContent>
                 <div className="space-y-3">
-                  {team.alignments.map((alignment, index) => (
-                    <div key={index} className="space-y-2">
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center gap-2">
-                          <Target className="h-4 w-4 text-gray-400" />
-                          <span className="text-sm font-medium">{alignment.objectiveName}</span>
+                  {team.objectives.map((objective) => (
+                    <div key={objective.id} className="space-y-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="flex items-center gap-2 min-w-0">
+                          {(objective.rollup?.issues.length ?? 0) > 0
+                            ? <AlertCircle className="h-4 w-4 text-amber-600 flex-shrink-0" />
+                            : <CheckCircle className="h-4 w-4 text-green-600 flex-shrink-0" />}
+                          <div className="min-w-0">
+                            <span className="text-sm font-medium block truncate">{objective.title}</span>
+                            <span className="text-xs text-gray-600 flex items-center gap-1">
+                              <Link className="h-3 w-3" />
+                              {objectiveTitle(objective.parentObjectiveId) || "Not aligned"}
+                            </span>
+                          </div>
                         </div>
-                        <span className="text-sm text-gray-600">{alignment.weight}%</span>
+                        <span className="text-sm text-gray-600">{formatProgress(objective.rollup?.progress)}</span>
                       </div>
-                      <Progress value={alignment.weight} className="h-2" />
+                      <Progress value={objective.rollup?.progress ?? 0} className="h-2" />
                     </div>
                   ))}
-                  {team.alignments.length === 0 && (
-                    <div className="text-center py-4 text-gray-500">
-                      <AlertCircle className="h-8 w-8 mx-auto mb-2 text-gray-400" />
-                      <p className="text-sm">No alignments defined</p>
-                    </div>
-                  )}
                 </div>
-                <Button variant="outline" size="sm" className="w-full mt-4">
-                  <Link className="h-3 w-3 mr-2" />
-                  Manage Alignments
-                </Button>
               </CardContent>
             </Card>
           ))}
+          {teamsWithObjectives.length === 0 && (
+            <div className="text-center py-8 text-gray-500 lg:col-span-2">
+              <AlertCircle className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+              <p className="text-sm">No team objectives defined</p>
+            </div>
+          )}
         </div>
       )}
 
@@ -338,118 +421,46 @@ export default function StrategyAlignment() {
         <Card>
           <CardHeader>
             <CardTitle>Individual Alignments</CardTitle>
-            <CardDescription>How team members contribute to objectives</CardDescription>
+            <CardDescription>How individual objectives contribute to team and company objectives</CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
               {individuals.map((person) => (
                 <div key={person.id} className="p-4 border rounded-lg">
-                  <div className="flex items-start justify-between mb-3">
-                    <div className="flex items-center gap-3">
-                      <Avatar className="h-10 w-10">
-                        <AvatarFallback>
-                          {person.name.split(' ').map(n => n[0]).join('')}
-                        </AvatarFallback>
-                      </Avatar>
-                      <div>
-                        <p className="font-medium">{person.name}</p>
-                        <p className="text-sm text-gray-600">{person.role} • {person.team}</p>
-                      </div>
+                  <div className="flex items-center gap-3 mb-3">
+                    <Avatar className="h-10 w-10">
+                      <AvatarFallback>
+                        {person.fullName.split(' ').map(n => n[0]).join('')}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div>
+                      <p className="font-medium">{person.fullName}</p>
+                      {person.role && <p className="text-sm text-gray-600 capitalize">{person.role}</p>}
                     </div>
-                    <Button variant="outline" size="sm">
-                      Edit
-                    </Button>
                   </div>
                   <div className="space-y-2">
-                    {person.alignments.map((alignment, index) => (
-                      <div key={index} className="flex items-center justify-between text-sm">
-                        <span className="text-gray-600">{alignment.objectiveName}</span>
+                    {person.objectives.map((objective) => (
+                      <div key={objective.id} className="flex items-center justify-between gap-2 text-sm">
+                        <span className="text-gray-600 truncate">
+                          {objective.title}
+                          <span className="text-xs"> → {objectiveTitle(objective.parentObjectiveId) || "not aligned"}</span>
+                        </span>
                         <div className="flex items-center gap-2">
-                          <Progress value={alignment.weight} className="w-20 h-2" />
-                          <span className="text-xs font-medium w-10 text-right">{alignment.weight}%</span>
+                          <Progress value={objective.rollup?.progress ?? 0} className="w-20 h-2" />
+                          <span className="text-xs font-medium w-10 text-right">{formatProgress(objective.rollup?.progress)}</span>
                         </div>
                       </div>
                     ))}
                   </div>
                 </div>
               ))}
+              {individuals.length === 0 && (
+                <p className="text-center py-4 text-sm text-gray-500">No individual objectives defined</p>
+              )}
             </div>
           </CardContent>
         </Card>
       )}
-
-      {selectedView === "objectives" && (
-        <div className="grid grid-cols-1 gap-6">
-          {objectives.map((objective) => (
-            <Card key={objective.id}>
-              <CardHeader>
-                <div className="flex items-center justify-between">
-                  <div>
-                    <CardTitle>{objective.name}</CardTitle>
-                    <CardDescription>
-                      Alignment: {objective.totalAlignment}% / Target: {objective.targetAlignment}%
-                    </CardDescription>
-                  </div>
-                  <Badge className={getAlignmentColor(objective.status)}>
-                    {objective.status.replace("-", " ")}
-                  </Badge>
-                </div>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  <div>
-                    <div className="flex justify-between text-sm mb-2">
-                      <span className="text-gray-600">Alignment Coverage</span>
-                      <span className="font-medium">
-                        {Math.round((objective.totalAlignment / objective.targetAlignment) * 100)}%
-                      </span>
-                    </div>
-                    <Progress 
-                      value={Math.min(100, (objective.totalAlignment / objective.targetAlignment) * 100)} 
-                      className="h-2"
-                    />
-                  </div>
-                  
-                  {/* Teams contributing to this objective */}
-                  <div>
-                    <p className="text-sm font-medium mb-2">Contributing Teams</p>
-                    <div className="flex flex-wrap gap-2">
-                      {teams
-                        .filter(team => team.alignments.some(a => a.objectiveId === objective.id))
-                        .map(team => {
-                          const alignment = team.alignments.find(a => a.objectiveId === objective.id);
-                          return (
-                            <Badge key={team.id} variant="outline">
-                              {team.name} ({alignment?.weight}%)
-                            </Badge>
-                          );
-                        })}
-                    </div>
-                  </div>
-
-                  {objective.status === "under-aligned" && (
-                    <div className="flex items-center gap-2 p-3 bg-red-50 rounded-lg">
-                      <AlertCircle className="h-4 w-4 text-red-600" />
-                      <p className="text-sm text-red-800">
-                        This objective needs more team allocation to meet targets
-                      </p>
-                    </div>
-                  )}
-                  
-                  {objective.status === "over-aligned" && (
-                    <div className="flex items-center gap-2 p-3 bg-blue-50 rounded-lg">
-                      <AlertCircle className="h-4 w-4 text-blue-600" />
-                      <p className="text-sm text-blue-800">
-                        Consider reallocating some resources to under-aligned objectives
-                      </p>
-                    </div>
-                  )}
-                </div>
-              </CardContent>
-            </Card>
-          ))}
-        </div>
-      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -7,6 +7,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
+import OkrForecastCard from "@/components/okr/OkrForecastCard";
 
 import {
   Table,
@@ -519,6 +520,9 @@ export default function StrategyDashboard() {
         </CardContent>
       </Card>
 
+      {/* Forecast: objectives likely to miss their cycle */}
+      <OkrForecastCard />
+
       {/* Main Content - Objectives & Key Results */}
           <Card>
             <CardHeader className="flex flex-col gap-4">
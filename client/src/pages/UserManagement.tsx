@@ -30,7 +30,8 @@ import {
   X,
   Trash2,
   Key,
-  Bot
+  Bot,
+  Smartphone
 } from 'lucide-react';
 
 // Types
@@ -319,6 +320,41 @@ function UserManagement() {
     }
   };
 
+  // Handle remote wipe of the user's field app devices (e.g. a lost phone)
+  const handleWipeFieldApp = async (user: User) => {
+    const confirmWipe = window.confirm(
+      `Wipe the field app data on every device "${user.fullName}" is signed in on?\n\nEach device deletes its downloaded work items, photos and unsynced changes the next time it syncs, and has to be signed in again.`
+    );
+    if (!confirmWipe) return;
+
+    try {
+      const response = await fetch('/api/field-app/wipe-requests', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('authToken')}`
+        },
+        body: JSON.stringify({ userId: user.id })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to request field app wipe');
+      }
+
+      toast({
+        title: 'Field App Wipe Requested',
+        description: `${user.fullName}'s devices will be wiped on their next sync`,
+      });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Failed to request field app wipe',
+        description: error instanceof Error ? error.message : 'An error occurred'
+      });
+    }
+  };
+
   // Form submission handlers
   const onSubmitCreate = (data: CreateUserForm) => {
     createUserMutation.mutate(data);
@@ -591,6 +627,10 @@ function UserManagement() {
                                 <Key className="mr-2 h-4 w-4" />
                                 Send Password Reset
                               </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => handleWipeFieldApp(user)}>
+                                <Smartphone className="mr-2 h-4 w-4" />
+                                Wipe Field App Data
+                              </DropdownMenuItem>
                               <DropdownMenuItem 
                                 onClick={() => handleDeleteUser(user)}
                                 className="text-destructive focus:text-destructive"
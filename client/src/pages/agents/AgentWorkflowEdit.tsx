@@ -9,10 +9,13 @@ import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
-import { ArrowLeft, Save, Play, Settings, Bot, Copy, Clock, Zap, Users, Folder } from 'lucide-react';
+import { ArrowLeft, Save, Play, Settings, Bot, Copy, Clock, Zap, Users, Folder, History, RotateCcw, PlayCircle, FlaskConical, X } from 'lucide-react';
 import WorkflowStepBuilder from '@/components/workflow/WorkflowStepBuilder';
 import { WebhookEventLog } from '@/components/webhooks/WebhookEventLog';
+import { WorkflowSimulationDialog } from '@/components/workflow/WorkflowSimulationDialog';
+import { validateWorkflowExpressions } from '@shared/workflowExpressions';
 import type { Integration, AgentWorkflow, KeyResult, Objective, User, Team } from '@shared/schema';
 
 interface ProcessFolder {
@@ -25,17 +28,70 @@ interface ProcessFolder {
 
 interface WorkflowStep {
   id: string;
-  type: 'integration_action' | 'strategy_update' | 'log_event' | 'notification' | 'data_source_query' | 'data_transformation' | 'splynx_query' | 'for_each' | 'create_work_item' | 'ai_draft_response' | 'conditional_paths';
+  type: 'integration_action' | 'strategy_update' | 'log_event' | 'notification' | 'data_source_query' | 'data_transformation' | 'splynx_query' | 'for_each' | 'create_work_item' | 'ai_draft_response' | 'conditional_paths' | 'parallel' | 'join' | 'call_workflow' | 'approval';
   name: string;
   config?: any;
 }
 
+interface WorkflowRunSummary {
+  id: number;
+  status: 'running' | 'completed' | 'failed' | 'interrupted' | 'awaiting_approval';
+  triggerSource: string;
+  startedAt: string;
+  stepsCompleted?: number;
+  totalSteps?: number;
+  errorMessage?: string;
+  resumeCount?: number;
+  isSimulation?: boolean;
+  workflowVersion?: number | null;
+  executionLog?: any[];
+}
+
 const TRIGGER_TYPES = [
   { value: 'manual', label: 'Manual', description: 'Trigger manually from the dashboard' },
   { value: 'webhook', label: 'Webhook', description: 'Trigger via webhook URL' },
   { value: 'schedule', label: 'Schedule', description: 'Run automatically on a schedule' },
+  { value: 'platform_event', label: 'Platform Event', description: 'Run when something happens inside the platform' },
+];
+
+const CATCH_UP_POLICIES = [
+  { value: 'run_once', label: 'Run once', description: 'Missed runs collapse into a single catch-up run' },
+  { value: 'run_all', label: 'Run all', description: 'Every missed run is executed, oldest first' },
+  { value: 'skip', label: 'Skip', description: 'Missed runs are dropped' },
+];
+
+interface ScheduleHistoryEntry {
+  id: number;
+  scheduledFor: string;
+  status: 'running' | 'completed' | 'failed' | 'skipped';
+  isCatchUp: boolean;
+  claimedBy: string | null;
+  workflowRunId: number | null;
+  errorMessage: string | null;
+  details: any;
+}
+
+// Integration type of the built-in trigger catalogue for internal platform events
+const PLATFORM_EVENTS_INTEGRATION_TYPE = 'platform';
+
+const EVENT_FILTER_OPERATORS = [
+  { value: 'equals', label: 'equals' },
+  { value: 'not_equals', label: 'does not equal' },
+  { value: 'contains', label: 'contains' },
+  { value: 'in', label: 'is one of' },
+  { value: 'not_in', label: 'is not one of' },
+  { value: 'greater_than', label: 'greater than' },
+  { value: 'less_than', label: 'less than' },
+  { value: 'is_empty', label: 'is empty' },
+  { value: 'is_not_empty', label: 'is not empty' },
 ];
 
+interface EventFilter {
+  field: string;
+  operator: string;
+  value?: string;
+}
+
 const FREQUENCIES = [
   { value: 'hourly', label: 'Hourly' },
   { value: 'daily', label: 'Daily' },
@@ -56,10 +112,14 @@ export default function AgentWorkflowEdit() {
   const [triggerType, setTriggerType] = useState('manual');
   const [enabled, setEnabled] = useState(false);
   const [frequency, setFrequency] = useState('daily');
+  const [catchUpPolicy, setCatchUpPolicy] = useState('run_once');
   const [workflowSteps, setWorkflowSteps] = useState<WorkflowStep[]>([]);
   const [selectedTriggerId, setSelectedTriggerId] = useState<number | null>(null);
+  const [eventFilters, setEventFilters] = useState<EventFilter[]>([]);
   const [showEventLog, setShowEventLog] = useState(false);
+  const [showSimulation, setShowSimulation] = useState(false);
   const [webhookEndpoint, setWebhookEndpoint] = useState('');
+  const [retryFromStep, setRetryFromStep] = useState<Record<number, string>>({});
 
   // Fetch workflow details
   const { data: workflow, isLoading } = useQuery<AgentWorkflow>({
@@ -67,6 +127,22 @@ export default function AgentWorkflowEdit() {
     enabled: !!id,
   });
 
+  // Fetch recent runs, polling while any run is still in progress
+  const { data: runs = [] } = useQuery<WorkflowRunSummary[]>({
+    queryKey: [`/api/agents/workflows/${id}/runs`],
+    enabled: !!id,
+    refetchInterval: (query) => {
+      const data = query.state.data;
+      return Array.isArray(data) && data.some(run => run.status === 'running') ? 2000 : false;
+    },
+  });
+
+  // Fetch the schedule and its recent occurrences when the workflow runs on a schedule
+  const { data: scheduleHistory } = useQuery<{ schedule: { nextRunAt: string | null } | null; history: ScheduleHistoryEntry[] }>({
+    queryKey: [`/api/agents/workflows/${id}/schedule-history`],
+    enabled: !!id && triggerType === 'schedule',
+  });
+
   // Fetch agent users
   const { data: agentUsers = [] } = useQuery<User[]>({
     queryKey: ['/api/agents/agent-users'],
@@ -102,13 +178,35 @@ export default function AgentWorkflowEdit() {
     },
   });
 
-  // Fetch available triggers when webhook is selected
+  // Fetch available triggers when webhook or platform event is selected
   const { data: availableTriggers = [] } = useQuery<any[]>({
     queryKey: ['/api/integrations/integration-triggers'],
-    enabled: triggerType === 'webhook',
+    enabled: triggerType === 'webhook' || triggerType === 'platform_event',
     staleTime: 0, // Always refetch to ensure fresh data
   });
 
+  // The platform event triggers are published on first use, then listed with the other triggers
+  const publishPlatformEventsMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest('/api/integrations/integration-triggers/platform-events', {
+        method: 'POST',
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/integrations/integration-triggers'] });
+    },
+  });
+
+  useEffect(() => {
+    if (triggerType === 'platform_event') {
+      publishPlatformEventsMutation.mutate();
+    }
+  }, [triggerType]);
+
+  const webhookTriggers = availableTriggers.filter((t: any) => t.integrationType !== PLATFORM_EVENTS_INTEGRATION_TYPE);
+  const platformEventTriggers = availableTriggers.filter((t: any) => t.integrationType === PLATFORM_EVENTS_INTEGRATION_TYPE);
+  const selectedTrigger = availableTriggers.find((t: any) => t.id === selectedTriggerId);
+
   // Load workflow data when fetched
   useEffect(() => {
     if (workflow) {
@@ -122,9 +220,11 @@ export default function AgentWorkflowEdit() {
       
       const triggerConfig = (workflow.triggerConfig as any) || {};
       setFrequency(triggerConfig.frequency || 'daily');
+      setCatchUpPolicy(triggerConfig.catchUpPolicy || 'run_once');
       if (triggerConfig.triggerId) {
         setSelectedTriggerId(triggerConfig.triggerId);
       }
+      setEventFilters(triggerConfig.filters || []);
       
       // Parse workflow definition
       const definition = workflow.workflowDefinition || [];
@@ -134,7 +234,7 @@ export default function AgentWorkflowEdit() {
 
   // Generate webhook endpoint URL
   useEffect(() => {
-    if (workflow && selectedTriggerId && availableTriggers.length > 0) {
+    if (workflow && triggerType === 'webhook' && selectedTriggerId && availableTriggers.length > 0) {
       const trigger = availableTriggers.find((t: any) => t.id === selectedTriggerId);
       if (trigger) {
         const baseUrl = window.location.origin;
@@ -142,7 +242,7 @@ export default function AgentWorkflowEdit() {
         setWebhookEndpoint(endpoint);
       }
     }
-  }, [workflow, selectedTriggerId, availableTriggers]);
+  }, [workflow, triggerType, selectedTriggerId, availableTriggers]);
 
   // Update workflow mutation
   const updateMutation = useMutation({
@@ -155,6 +255,8 @@ export default function AgentWorkflowEdit() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/agents/workflows'] });
       queryClient.invalidateQueries({ queryKey: [`/api/agents/workflows/${id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/agents/workflows/${id}/schedule-history`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/agents/workflows/${id}/versions`] });
       toast({
         title: 'Success',
         description: 'Workflow updated successfully',
@@ -191,13 +293,62 @@ export default function AgentWorkflowEdit() {
     },
   });
 
+  // Resume a run from its last checkpoint, or retry it from a chosen step
+  const resumeMutation = useMutation({
+    mutationFn: async ({ runId, fromStep }: { runId: number; fromStep?: number }) => {
+      const action = fromStep ? 'retry' : 'resume';
+      return apiRequest(`/api/agents/workflows/${id}/runs/${runId}/${action}`, {
+        method: 'POST',
+        body: fromStep ? { fromStep } : {},
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/agents/workflows/${id}/runs`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/agents/runs'] });
+      toast({
+        title: 'Success',
+        description: 'Workflow run resumed',
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to resume workflow run',
+        variant: 'destructive',
+      });
+    },
+  });
+
   const handleSave = () => {
+    const expressionErrors = validateWorkflowExpressions(workflowSteps);
+    if (expressionErrors.length > 0) {
+      toast({
+        title: 'Fix expression errors before saving',
+        description: expressionErrors.map(e => `${e.stepName}: ${e.errors[0]}`).join('\n'),
+        variant: 'destructive',
+      });
+      return;
+    }
+
     const triggerConfig: any = {};
 
     if (triggerType === 'schedule') {
       triggerConfig.frequency = frequency;
+      triggerConfig.catchUpPolicy = catchUpPolicy;
     } else if (triggerType === 'webhook' && selectedTriggerId) {
       triggerConfig.triggerId = selectedTriggerId;
+    } else if (triggerType === 'platform_event') {
+      if (!selectedTrigger) {
+        toast({
+          title: 'Select a platform event',
+          description: 'Choose which event should trigger this workflow',
+          variant: 'destructive',
+        });
+        return;
+      }
+      triggerConfig.triggerId = selectedTriggerId;
+      triggerConfig.eventType = selectedTrigger.triggerKey;
+      triggerConfig.filters = eventFilters.filter(f => f.field);
     }
 
     updateMutation.mutate({
@@ -255,6 +406,15 @@ export default function AgentWorkflowEdit() {
               </div>
             </div>
             <div className="flex items-center gap-2 flex-wrap md:flex-nowrap">
+              <Button
+                variant="outline"
+                onClick={() => setShowSimulation(true)}
+                data-testid="button-simulate"
+                className="flex-1 md:flex-none"
+              >
+                <FlaskConical className="h-4 w-4 mr-2" />
+                Simulate
+              </Button>
               <Button
                 variant="outline"
                 onClick={() => runMutation.mutate()}
@@ -405,7 +565,14 @@ export default function AgentWorkflowEdit() {
                   keyResults={keyResults}
                   objectives={objectives}
                   triggerType={triggerType}
-                  selectedTrigger={availableTriggers.find((t: any) => t.id === selectedTriggerId)}
+                  selectedTrigger={selectedTrigger}
+                  versionsUrl={`/api/agents/workflows/${id}/versions`}
+                  hasUnsavedChanges={JSON.stringify(workflowSteps) !== JSON.stringify(workflow?.workflowDefinition || [])}
+                  onVersionRestored={() => {
+                    queryClient.invalidateQueries({ queryKey: ['/api/agents/workflows'] });
+                    queryClient.invalidateQueries({ queryKey: [`/api/agents/workflows/${id}`] });
+                    queryClient.invalidateQueries({ queryKey: [`/api/agents/workflows/${id}/schedule-history`] });
+                  }}
                 />
               </CardContent>
             </Card>
@@ -468,6 +635,57 @@ export default function AgentWorkflowEdit() {
                     <p className="text-sm text-muted-foreground mt-1">
                       Schedule Preview: Every {frequency.toLowerCase()}
                     </p>
+
+                    <Label htmlFor="catch-up-policy" className="mt-3 block">Missed Runs</Label>
+                    <Select value={catchUpPolicy} onValueChange={setCatchUpPolicy}>
+                      <SelectTrigger id="catch-up-policy" data-testid="select-catch-up-policy">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CATCH_UP_POLICIES.map((policy) => (
+                          <SelectItem key={policy.value} value={policy.value}>
+                            <div>
+                              <div className="font-medium">{policy.label}</div>
+                              <div className="text-xs text-muted-foreground">{policy.description}</div>
+                            </div>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      What to do with runs that were due while no server was running
+                    </p>
+
+                    {scheduleHistory?.schedule?.nextRunAt && (
+                      <p className="text-sm text-muted-foreground mt-3">
+                        Next run: {new Date(scheduleHistory.schedule.nextRunAt).toLocaleString()}
+                      </p>
+                    )}
+
+                    {scheduleHistory && scheduleHistory.history.length > 0 && (
+                      <div className="mt-3 space-y-1" data-testid="schedule-history">
+                        <Label className="text-xs text-muted-foreground">Schedule History</Label>
+                        {scheduleHistory.history.slice(0, 10).map((entry) => (
+                          <div key={entry.id} className="flex items-center justify-between gap-2 text-xs">
+                            <span>
+                              {new Date(entry.scheduledFor).toLocaleString()}
+                              {entry.isCatchUp && entry.status !== 'skipped' && ' (catch-up)'}
+                              {entry.status === 'skipped' && ` (${entry.details?.missedCount ?? 1} missed)`}
+                            </span>
+                            <span className="flex items-center gap-2">
+                              {entry.workflowRunId && <span className="text-muted-foreground">Run #{entry.workflowRunId}</span>}
+                              <Badge
+                                variant={entry.status === 'failed' ? 'destructive' : entry.status === 'completed' ? 'default' : 'secondary'}
+                                className="text-xs"
+                                title={entry.errorMessage || entry.claimedBy || undefined}
+                              >
+                                {entry.status}
+                              </Badge>
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 )}
 
@@ -488,7 +706,7 @@ export default function AgentWorkflowEdit() {
                           <SelectValue placeholder="Select a trigger event" />
                         </SelectTrigger>
                         <SelectContent>
-                          {availableTriggers.map((trigger: any) => (
+                          {webhookTriggers.map((trigger: any) => (
                             <SelectItem key={trigger.id} value={trigger.id.toString()}>
                               <div className="flex flex-col">
                                 <span className="font-medium">{trigger.name}</span>
@@ -549,6 +767,200 @@ export default function AgentWorkflowEdit() {
                     </div>
                   </div>
                 )}
+
+                {triggerType === 'platform_event' && (
+                  <div className="space-y-3 p-4 bg-purple-50 dark:bg-purple-900/20 rounded-lg border border-purple-200">
+                    <div className="flex items-center gap-2 mb-2">
+                      <Zap className="h-4 w-4 text-purple-600" />
+                      <Label className="font-semibold">Platform Event</Label>
+                    </div>
+
+                    <div>
+                      <Label className="text-xs text-muted-foreground">Event</Label>
+                      <Select
+                        value={selectedTriggerId?.toString() || ''}
+                        onValueChange={(value) => {
+                          setSelectedTriggerId(parseInt(value));
+                          setEventFilters([]);
+                        }}
+                      >
+                        <SelectTrigger data-testid="select-platform-event">
+                          <SelectValue placeholder="Select a platform event" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {platformEventTriggers.map((trigger: any) => (
+                            <SelectItem key={trigger.id} value={trigger.id.toString()}>
+                              <div className="flex flex-col">
+                                <span className="font-medium">{trigger.name}</span>
+                                <span className="text-xs text-muted-foreground">{trigger.triggerKey}</span>
+                              </div>
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {selectedTrigger?.description && (
+                        <p className="text-xs text-muted-foreground mt-1">{selectedTrigger.description}</p>
+                      )}
+                    </div>
+
+                    {selectedTrigger && (
+                      <div className="space-y-2">
+                        <Label className="text-xs text-muted-foreground">Only run when (all must match)</Label>
+                        {eventFilters.map((filter, index) => (
+                          <div key={index} className="flex items-center gap-2">
+                            <Select
+                              value={filter.field}
+                              onValueChange={(value) => setEventFilters(eventFilters.map((f, i) => i === index ? { ...f, field: value } : f))}
+                            >
+                              <SelectTrigger className="h-8 text-xs" data-testid={`select-event-filter-field-${index}`}>
+                                <SelectValue placeholder="Field" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {(selectedTrigger.availableFields || []).map((field: string) => (
+                                  <SelectItem key={field} value={field}>{field}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <Select
+                              value={filter.operator}
+                              onValueChange={(value) => setEventFilters(eventFilters.map((f, i) => i === index ? { ...f, operator: value } : f))}
+                            >
+                              <SelectTrigger className="h-8 text-xs" data-testid={`select-event-filter-operator-${index}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {EVENT_FILTER_OPERATORS.map((op) => (
+                                  <SelectItem key={op.value} value={op.value}>{op.label}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            {filter.operator !== 'is_empty' && filter.operator !== 'is_not_empty' && (
+                              <Input
+                                className="h-8 text-xs"
+                                placeholder={filter.operator === 'in' || filter.operator === 'not_in' ? 'a, b, c' : 'Value'}
+                                value={filter.value || ''}
+                                onChange={(e) => setEventFilters(eventFilters.map((f, i) => i === index ? { ...f, value: e.target.value } : f))}
+                                data-testid={`input-event-filter-value-${index}`}
+                              />
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setEventFilters(eventFilters.filter((_, i) => i !== index))}
+                              data-testid={`button-remove-event-filter-${index}`}
+                            >
+                              <X className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        ))}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setEventFilters([...eventFilters, { field: '', operator: 'equals', value: '' }])}
+                          data-testid="button-add-event-filter"
+                        >
+                          Add filter
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Recent Runs */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <History className="h-4 w-4" />
+                  Recent Runs
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {runs.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No runs yet</p>
+                ) : (
+                  runs.slice(0, 10).map((run) => (
+                    <div key={run.id} className="border rounded-lg p-3 space-y-2" data-testid={`run-${run.id}`}>
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium truncate">
+                            Run #{run.id}
+                            {run.workflowVersion && <span className="text-xs text-muted-foreground font-normal ml-1">v{run.workflowVersion}</span>}
+                          </p>
+                          <p className="text-xs text-muted-foreground truncate">
+                            {new Date(run.startedAt).toLocaleString()}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-1 shrink-0">
+                          {run.isSimulation && (
+                            <Badge variant="outline">simulation</Badge>
+                          )}
+                          {run.totalSteps ? (
+                            <Badge variant="outline">
+                              {run.stepsCompleted || 0}/{run.totalSteps}
+                            </Badge>
+                          ) : null}
+                          <Badge variant={
+                            run.status === 'completed' ? 'default' :
+                            run.status === 'failed' ? 'destructive' :
+                            'secondary'
+                          }>
+                            {run.status}
+                          </Badge>
+                        </div>
+                      </div>
+                      {run.errorMessage && (
+                        <p className="text-xs text-destructive line-clamp-2">{run.errorMessage}</p>
+                      )}
+                      {run.status === 'awaiting_approval' && (
+                        <p className="text-xs text-muted-foreground">Paused until the approver responds in Agents → Approvals</p>
+                      )}
+                      {run.status !== 'running' && run.status !== 'awaiting_approval' && (
+                        <div className="flex items-center gap-2">
+                          {(run.status === 'failed' || run.status === 'interrupted') && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => resumeMutation.mutate({ runId: run.id })}
+                              disabled={resumeMutation.isPending}
+                              data-testid={`button-resume-run-${run.id}`}
+                            >
+                              <PlayCircle className="h-3 w-3 mr-1" />
+                              Resume
+                            </Button>
+                          )}
+                          <Select
+                            value={retryFromStep[run.id] || ''}
+                            onValueChange={(value) => setRetryFromStep({ ...retryFromStep, [run.id]: value })}
+                          >
+                            <SelectTrigger className="h-8 w-28 text-xs" data-testid={`select-retry-step-${run.id}`}>
+                              <SelectValue placeholder="From step" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {/* Only steps whose predecessors completed have a checkpoint to start from */}
+                              {Array.from({ length: Math.min((run.stepsCompleted || 0) + 1, run.totalSteps || 0) }, (_, i) => (
+                                <SelectItem key={i + 1} value={String(i + 1)}>
+                                  Step {i + 1}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => resumeMutation.mutate({ runId: run.id, fromStep: parseInt(retryFromStep[run.id]) })}
+                            disabled={!retryFromStep[run.id] || resumeMutation.isPending}
+                            data-testid={`button-retry-run-${run.id}`}
+                          >
+                            <RotateCcw className="h-3 w-3 mr-1" />
+                            Retry
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  ))
+                )}
               </CardContent>
             </Card>
 
@@ -576,6 +988,19 @@ export default function AgentWorkflowEdit() {
         </div>
       </div>
 
+      {/* Simulation Dialog - runs the current, possibly unsaved, steps */}
+      {showSimulation && workflow && (
+        <WorkflowSimulationDialog
+          open={showSimulation}
+          onClose={() => {
+            setShowSimulation(false);
+            queryClient.invalidateQueries({ queryKey: [`/api/agents/workflows/${id}/runs`] });
+          }}
+          workflowId={workflow.id}
+          steps={workflowSteps}
+        />
+      )}
+
       {/* Webhook Event Log Dialog */}
       {showEventLog && workflow && (
         <WebhookEventLog
@@ -0,0 +1,230 @@
+/**
+ * Account Screen - PIN, auto-lock and encryption key settings, and sign out
+ */
+
+import { useState } from 'react';
+import { fieldDB } from '@/lib/field-app/db';
+import { AUTO_LOCK_OPTIONS, DEFAULT_AUTO_LOCK_MINUTES, validatePin } from '@/lib/field-app/vault';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AlertCircle, CheckCircle, KeyRound, Lock, LogOut, RotateCw, User } from 'lucide-react';
+
+interface AccountProps {
+  session: any;
+  onLock: () => void;
+  onLogout: () => void;
+  onAutoLockChange: (minutes: number) => void;
+}
+
+export default function Account({ session, onLock, onLogout, onAutoLockChange }: AccountProps) {
+  const [autoLockMinutes, setAutoLockMinutes] = useState(fieldDB.getAutoLockMinutes() ?? DEFAULT_AUTO_LOCK_MINUTES);
+  const [currentPin, setCurrentPin] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [rotatePin, setRotatePin] = useState('');
+  const [working, setWorking] = useState<'pin' | 'rotate' | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const handleAutoLockChange = async (minutes: number) => {
+    setAutoLockMinutes(minutes);
+    await fieldDB.setAutoLockMinutes(minutes);
+    onAutoLockChange(minutes);
+  };
+
+  const handleChangePin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    try {
+      validatePin(newPin);
+      if (newPin !== confirmPin) {
+        throw new Error('New PINs do not match');
+      }
+      setWorking('pin');
+      await fieldDB.changePin(currentPin, newPin);
+      setMessage({ type: 'success', text: 'PIN changed' });
+      setCurrentPin('');
+      setNewPin('');
+      setConfirmPin('');
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.message || 'Failed to change PIN' });
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleRotateKey = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    try {
+      setWorking('rotate');
+      await fieldDB.rotateDataKey(rotatePin);
+      setMessage({ type: 'success', text: 'Encryption key replaced and all data re-encrypted' });
+      setRotatePin('');
+    } catch (err: any) {
+      setMessage({ type: 'error', text: err.message || 'Failed to replace the encryption key' });
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleLogout = () => {
+    if (!confirm('Sign out of the field app? Downloaded data stays on this device, encrypted with your PIN.')) {
+      return;
+    }
+    onLogout();
+  };
+
+  const inputClass = 'bg-zinc-800 border-zinc-700 text-white placeholder:text-zinc-500';
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 space-y-4">
+      <div className="bg-zinc-800 rounded-lg p-4 flex items-center gap-3">
+        <User className="h-8 w-8 text-zinc-400" />
+        <div>
+          <p className="font-medium">{session.email}</p>
+          <p className="text-xs text-zinc-400">Data on this device is encrypted with your PIN</p>
+        </div>
+      </div>
+
+      {message && (
+        <div className={`rounded-lg p-3 flex items-start gap-2 border ${
+          message.type === 'success' ? 'bg-emerald-500/10 border-emerald-500/20' : 'bg-red-500/10 border-red-500/20'
+        }`} data-testid="alert-account-message">
+          {message.type === 'success' ? (
+            <CheckCircle className="h-5 w-5 text-emerald-400 flex-shrink-0 mt-0.5" />
+          ) : (
+            <AlertCircle className="h-5 w-5 text-red-400 flex-shrink-0 mt-0.5" />
+          )}
+          <p className={`text-sm ${message.type === 'success' ? 'text-emerald-300' : 'text-red-300'}`}>{message.text}</p>
+        </div>
+      )}
+
+      {/* Locking */}
+      <div className="bg-zinc-800 rounded-lg p-4 space-y-3">
+        <h3 className="font-semibold flex items-center gap-2">
+          <Lock className="h-4 w-4 text-emerald-400" />
+          Lock
+        </h3>
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor="auto-lock" className="text-sm text-zinc-300">Lock after inactivity</Label>
+          <select
+            id="auto-lock"
+            value={autoLockMinutes}
+            onChange={(e) => handleAutoLockChange(parseInt(e.target.value, 10))}
+            className="bg-zinc-900 border border-zinc-700 rounded text-sm px-2 py-1"
+            data-testid="select-auto-lock"
+          >
+            {AUTO_LOCK_OPTIONS.map(minutes => (
+              <option key={minutes} value={minutes}>{minutes} {minutes === 1 ? 'minute' : 'minutes'}</option>
+            ))}
+          </select>
+        </div>
+        <Button
+          onClick={onLock}
+          variant="outline"
+          className="w-full bg-zinc-700 border-zinc-600"
+          data-testid="button-lock-now"
+        >
+          <Lock className="h-4 w-4 mr-2" />
+          Lock Now
+        </Button>
+      </div>
+
+      {/* Change PIN */}
+      <form onSubmit={handleChangePin} className="bg-zinc-800 rounded-lg p-4 space-y-3">
+        <h3 className="font-semibold flex items-center gap-2">
+          <KeyRound className="h-4 w-4 text-emerald-400" />
+          Change PIN
+        </h3>
+        <Input
+          type="password"
+          inputMode="numeric"
+          placeholder="Current PIN"
+          value={currentPin}
+          onChange={(e) => setCurrentPin(e.target.value)}
+          required
+          className={inputClass}
+          autoComplete="current-password"
+          disabled={working !== null}
+          data-testid="input-current-pin"
+        />
+        <Input
+          type="password"
+          inputMode="numeric"
+          placeholder="New PIN"
+          value={newPin}
+          onChange={(e) => setNewPin(e.target.value)}
+          required
+          className={inputClass}
+          autoComplete="new-password"
+          disabled={working !== null}
+          data-testid="input-new-pin"
+        />
+        <Input
+          type="password"
+          inputMode="numeric"
+          placeholder="Confirm new PIN"
+          value={confirmPin}
+          onChange={(e) => setConfirmPin(e.target.value)}
+          required
+          className={inputClass}
+          autoComplete="new-password"
+          disabled={working !== null}
+          data-testid="input-confirm-new-pin"
+        />
+        <Button
+          type="submit"
+          disabled={working !== null}
+          className="w-full bg-emerald-600 hover:bg-emerald-700"
+          data-testid="button-change-pin"
+        >
+          {working === 'pin' ? 'Changing PIN...' : 'Change PIN'}
+        </Button>
+      </form>
+
+      {/* Rotate the data key */}
+      <form onSubmit={handleRotateKey} className="bg-zinc-800 rounded-lg p-4 space-y-3">
+        <h3 className="font-semibold flex items-center gap-2">
+          <RotateCw className="h-4 w-4 text-emerald-400" />
+          Replace Encryption Key
+        </h3>
+        <p className="text-xs text-zinc-400">
+          Re-encrypts everything on this device with a new key. Use it if the device may have been
+          copied while unlocked. It can take a while with many photos; if interrupted it finishes on the next unlock.
+        </p>
+        <Input
+          type="password"
+          inputMode="numeric"
+          placeholder="PIN"
+          value={rotatePin}
+          onChange={(e) => setRotatePin(e.target.value)}
+          required
+          className={inputClass}
+          autoComplete="current-password"
+          disabled={working !== null}
+          data-testid="input-rotate-pin"
+        />
+        <Button
+          type="submit"
+          variant="outline"
+          disabled={working !== null}
+          className="w-full bg-zinc-700 border-zinc-600"
+          data-testid="button-rotate-key"
+        >
+          {working === 'rotate' ? 'Re-encrypting...' : 'Replace Key'}
+        </Button>
+      </form>
+
+      <Button
+        onClick={handleLogout}
+        variant="outline"
+        className="w-full bg-zinc-800 border-zinc-700 text-red-400 hover:bg-zinc-700"
+        data-testid="button-logout"
+      >
+        <LogOut className="h-4 w-4 mr-2" />
+        Sign Out
+      </Button>
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import { useState, useEffect } from 'react';
 import { useLocation } from 'wouter';
 import { useQuery } from '@tanstack/react-query';
 import { fieldDB } from '@/lib/field-app/db';
+import OfflineNetworkMap from './components/OfflineNetworkMap';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -425,6 +426,8 @@ export default function CreateFiberNode({ onComplete }: CreateFiberNodeProps) {
                 <p className="text-xs text-zinc-500">
                   Accuracy: ±{gpsLocation.accuracy.toFixed(0)}m
                 </p>
+                {/* Nearby network from the offline map, to check the position against existing chambers */}
+                <OfflineNetworkMap position={gpsLocation} className="h-48" />
                 <Button
                   size="sm"
                   variant="outline"
@@ -5,6 +5,17 @@
 
 import { useState, useEffect } from 'react';
 import { fieldDB } from '@/lib/field-app/db';
+import { isRemoteWipe, performRemoteWipe } from '@/lib/field-app/remoteWipe';
+import {
+  downloadMapArea,
+  fetchMapArea,
+  formatBytes,
+  getStorageQuota,
+  MAP_DETAIL_LEVELS,
+  type MapDetailLevel
+} from '@/lib/field-app/offlineMap';
+import { definitionsForType } from '@shared/workItemCustomFields';
+import { TOMBSTONE_REASON_LABELS, type DownloadSummary, type WorkItemTombstone } from '@shared/fieldAppDelta';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
@@ -24,7 +35,10 @@ import {
   X,
   AlertCircle,
   FileText,
-  MapPin
+  MapPin,
+  Map as MapIcon,
+  Trash2,
+  History
 } from 'lucide-react';
 
 interface DownloadProps {
@@ -32,6 +46,24 @@ interface DownloadProps {
   onComplete: () => void;
 }
 
+type SyncState = NonNullable<Awaited<ReturnType<typeof fieldDB.getSyncState>>>;
+
+const CHANGE_BADGES = {
+  added: { label: 'New', className: 'bg-sky-500/15 text-sky-300' },
+  updated: { label: 'Updated', className: 'bg-amber-500/15 text-amber-300' },
+  unchanged: { label: 'Up to date', className: 'bg-zinc-700 text-zinc-400' },
+} as const;
+
+function describeChanges(summary: DownloadSummary): string {
+  const parts = [
+    summary.added.length > 0 && `${summary.added.length} new`,
+    summary.updated.length > 0 && `${summary.updated.length} updated`,
+    summary.removed.length > 0 && `${summary.removed.length} removed`,
+    summary.unchanged > 0 && `${summary.unchanged} unchanged`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'no changes';
+}
+
 export default function Download({ session, onComplete }: DownloadProps) {
   const [loading, setLoading] = useState(true);
   const [downloading, setDownloading] = useState(false);
@@ -55,14 +87,81 @@ export default function Download({ session, onComplete }: DownloadProps) {
   const [progress, setProgress] = useState(0);
   const [error, setError] = useState('');
   const [batchStatus, setBatchStatus] = useState('');
+  const [includeMap, setIncludeMap] = useState(false);
+  const [mapDetail, setMapDetail] = useState<MapDetailLevel>('standard');
+  const [mapWarning, setMapWarning] = useState('');
+  const [mapStorage, setMapStorage] = useState<{ tiles: number; tileBytes: number; areas: number } | null>(null);
+  const [quota, setQuota] = useState<{ usage: number; quota: number } | null>(null);
+  // Undefined until loaded, so the item list can be fetched with the cursor
+  const [syncState, setSyncState] = useState<SyncState | null | undefined>(undefined);
 
   useEffect(() => {
     fetchAvailableTemplates();
+    loadMapStorage();
+    fieldDB.getSyncState()
+      .then(state => setSyncState(state ?? null))
+      .catch(() => setSyncState(null));
   }, []);
 
+  const loadMapStorage = async () => {
+    try {
+      const [storage, deviceQuota] = await Promise.all([fieldDB.getMapStorage(), getStorageQuota()]);
+      setMapStorage(storage);
+      setQuota(deviceQuota);
+    } catch (err) {
+      console.error('Failed to load map storage:', err);
+    }
+  };
+
+  const handleClearMaps = async () => {
+    if (!confirm('Remove all downloaded map tiles and network data from this device?')) return;
+    await fieldDB.clearOfflineMaps();
+    await loadMapStorage();
+  };
+
+  // Tiles and network for the area around the downloaded items. Failure leaves the work items in place.
+  const downloadOfflineMap = async (workItemIds: number[]): Promise<boolean> => {
+    try {
+      setBatchStatus('Preparing offline map...');
+      setProgress(0);
+      const area = await fetchMapArea(session.token, workItemIds);
+      if (!area.bounds) {
+        setMapWarning('None of the selected work items has a location, so no map was downloaded.');
+        return false;
+      }
+
+      const result = await downloadMapArea({ ...area, bounds: area.bounds }, mapDetail, (done, total) => {
+        setBatchStatus(`Offline map: ${done} of ${total} tiles`);
+        setProgress(total > 0 ? (done / total) * 100 : 100);
+      });
+      console.log('[Download] Offline map complete:', result);
+
+      if (!area.tileUrl) {
+        setMapWarning('No offline map tiles are set up on the server, so only the fiber network was saved; the street map needs a signal.');
+        return false;
+      }
+
+      if (result.failed > 0) {
+        setMapWarning(`${result.failed} map tiles could not be downloaded; those parts of the map will be blank offline.`);
+        return false;
+      }
+      if (result.maxZoom < MAP_DETAIL_LEVELS[mapDetail].maxZoom) {
+        setMapWarning(`The area is large, so the map was limited to zoom level ${result.maxZoom}.`);
+        return false;
+      }
+      return true;
+    } catch (err: any) {
+      setMapWarning(`Work items downloaded, but the offline map failed: ${err.message || 'Unknown error'}`);
+      return false;
+    } finally {
+      await loadMapStorage();
+    }
+  };
+
   useEffect(() => {
+    if (syncState === undefined) return;
     fetchAvailableItems();
-  }, [filters, selectedTemplateIds]);
+  }, [filters, selectedTemplateIds, syncState]);
 
   const fetchAvailableTemplates = async () => {
     try {
@@ -101,6 +200,11 @@ export default function Download({ session, onComplete }: DownloadProps) {
       if (selectedTemplateIds.size > 0) {
         params.append('templateIds', Array.from(selectedTemplateIds).join(','));
       }
+      // Marks each item as new, updated or up to date on this device
+      if (syncState?.cursor) {
+        params.append('deviceId', syncState.deviceId);
+        params.append('cursor', syncState.cursor);
+      }
 
       const response = await fetch(`/api/field-app/available-items?${params}`, {
         headers: {
@@ -108,6 +212,12 @@ export default function Download({ session, onComplete }: DownloadProps) {
         }
       });
 
+      if (await isRemoteWipe(response)) {
+        await performRemoteWipe(session.token);
+        window.location.replace('/field-app/login');
+        return;
+      }
+
       if (!response.ok) throw new Error('Failed to fetch available items');
       
       const data = await response.json();
@@ -138,10 +248,18 @@ export default function Download({ session, onComplete }: DownloadProps) {
     setSelectedIds(newSelected);
   };
 
+  // Items new to the device or changed since its last download
+  const changedItems = availableItems.filter(item => item.change === 'added' || item.change === 'updated');
+
+  const handleSelectChanged = () => {
+    setSelectedIds(new Set(changedItems.map(item => item.id)));
+  };
+
   const calculateSize = () => {
-    // Estimate: ~10KB per work item + ~5KB per template + photos
-    const itemSize = selectedIds.size * 10;
-    const templateSize = selectedIds.size * 5;
+    // Estimate: ~10KB per work item + ~5KB per template + photos; up to date items aren't sent again
+    const sentCount = availableItems.filter(item => selectedIds.has(item.id) && item.change !== 'unchanged').length;
+    const itemSize = sentCount * 10;
+    const templateSize = sentCount * 5;
     const totalKB = itemSize + templateSize;
     
     if (totalKB > 1024) {
@@ -157,18 +275,33 @@ export default function Download({ session, onComplete }: DownloadProps) {
     setError('');
     setProgress(0);
     setBatchStatus('');
+    setMapWarning('');
 
     // Configuration
     const CHUNK_SIZE = 5; // Download 5 items at a time
     const allIds = Array.from(selectedIds);
     const totalItems = allIds.length;
     const totalBatches = Math.ceil(totalItems / CHUNK_SIZE);
+
+    // With a cursor the server only sends what changed since this device's last download
+    const deviceId = syncState?.deviceId ?? crypto.randomUUID();
+    const cursor = syncState?.cursor ?? null;
+    // Lets the server keep tombstoning items this device held back last time
+    const heldWorkItemIds = await fieldDB.getWorkItemIds();
     
-    console.log('[Download] Starting chunked download:', { totalItems, totalBatches, CHUNK_SIZE });
+    console.log('[Download] Starting chunked download:', { totalItems, totalBatches, CHUNK_SIZE, delta: cursor !== null });
 
     try {
       // Track successfully downloaded items for error recovery
       const downloadedItemIds: number[] = [];
+      const titles = new Map<number, string>();
+      const added: number[] = [];
+      const updated: number[] = [];
+      let unchanged = 0;
+      let templateCount = 0;
+      let delta = false;
+      let tombstones: WorkItemTombstone[] = [];
+      let nextCursor: string | null = null;
       
       // Process each batch sequentially
       for (let batchIndex = 0; batchIndex < totalBatches; batchIndex++) {
@@ -191,10 +324,20 @@ export default function Download({ session, onComplete }: DownloadProps) {
             includeTemplates: true,
             includeAttachments: true,
             offset,
-            limit: CHUNK_SIZE
+            limit: CHUNK_SIZE,
+            deviceId,
+            cursor,
+            heldWorkItemIds
           })
         });
 
+        // The device has been remotely wiped (e.g. reported lost)
+        if (await isRemoteWipe(response)) {
+          await performRemoteWipe(session.token);
+          window.location.replace('/field-app/login');
+          return;
+        }
+
         if (!response.ok) {
           throw new Error(`Batch ${currentBatch} download failed`);
         }
@@ -204,8 +347,21 @@ export default function Download({ session, onComplete }: DownloadProps) {
           workItems: data.workItems?.length || 0,
           templates: data.templates?.length || 0,
           executionStates: data.executionStates?.length || 0,
+          changes: data.changes,
           metadata: data.metadata
         });
+
+        // Tally what changed; tombstones and the next cursor come with the final batch
+        if (data.changes) {
+          delta = data.changes.delta;
+          added.push(...data.changes.added);
+          updated.push(...data.changes.updated);
+          unchanged += data.changes.unchanged;
+        }
+        data.workItems?.forEach((item: any) => titles.set(item.id, item.title));
+        templateCount += data.templates?.length || 0;
+        if (data.tombstones) tombstones = data.tombstones;
+        if (data.cursor) nextCursor = data.cursor;
         
         // Calculate batch progress (each batch is 1/totalBatches of total progress)
         const batchBaseProgress = (batchIndex / totalBatches) * 100;
@@ -213,7 +369,11 @@ export default function Download({ session, onComplete }: DownloadProps) {
         
         // Save work items
         if (data.workItems?.length > 0) {
-          await fieldDB.saveWorkItems(data.workItems);
+          // Keep each item's custom field definitions alongside it so values can be labelled offline
+          await fieldDB.saveWorkItems(data.workItems.map((item: any) => ({
+            ...item,
+            customFieldDefinitions: definitionsForType(data.customFieldDefinitions || [], item.workItemType),
+          })));
           downloadedItemIds.push(...data.workItems.map((i: any) => i.id));
           setProgress(batchBaseProgress + batchProgressIncrement * 0.3);
         }
@@ -237,11 +397,14 @@ export default function Download({ session, onComplete }: DownloadProps) {
             
             const stepData: Record<string, any> = {};
             const completedSteps: string[] = [];
+            // Unchanged templates aren't sent again, so fall back to the copy on the device
+            const templateKey = workItem.workflowTemplateKey ?? workItem.workflowTemplateId;
+            const template = data.templates?.find((t: any) => (t.templateKey ?? t.id) === templateKey)
+              ?? await fieldDB.getWorkItemTemplate(workItem);
             
             if (steps && Array.isArray(steps)) {
               // Process steps sequentially to avoid memory overflow
               for (const step of steps) {
-                const template = data.templates.find((t: any) => t.id === workItem.workflowTemplateId);
                 const templateStep = template?.steps?.[step.stepIndex];
                 const stepId = templateStep?.id || `step_${step.stepIndex}`;
                 
@@ -359,10 +522,31 @@ export default function Download({ session, onComplete }: DownloadProps) {
         }
       }
       
-      setProgress(100);
-      setBatchStatus('Download complete!');
-      
       console.log('[Download] All batches complete:', { total: downloadedItemIds.length });
+
+      // Drop what was deleted or reassigned, and keep the cursor for the next download
+      const removed = tombstones.length > 0 ? await fieldDB.removeWorkItems(tombstones) : [];
+      const summary: DownloadSummary = {
+        delta,
+        at: new Date().toISOString(),
+        added: added.map(id => ({ id, title: titles.get(id) ?? `Work item ${id}` })),
+        updated: updated.map(id => ({ id, title: titles.get(id) ?? `Work item ${id}` })),
+        removed: removed.map(({ workItemId, title, reason }) => ({ id: workItemId, title, reason })),
+        unchanged,
+        templates: templateCount
+      };
+      const nextState: SyncState = { deviceId, cursor: nextCursor, lastDownloadAt: new Date(), lastChanges: summary };
+      await fieldDB.saveSyncState(nextState);
+      setSyncState(nextState);
+
+      // Stay on this screen if the map needs the engineer's attention. The map covers every
+      // selected item, not just the changed ones.
+      if (includeMap && !(await downloadOfflineMap(allIds))) {
+        setBatchStatus(`Download complete: ${describeChanges(summary)}`);
+        return;
+      }
+      setProgress(100);
+      setBatchStatus(`Download complete: ${describeChanges(summary)}`);
       
       // Success - navigate to work list
       setTimeout(() => {
@@ -648,6 +832,113 @@ export default function Download({ session, onComplete }: DownloadProps) {
             <span>Filters active</span>
           </div>
         )}
+
+        {/* Changes since the last download */}
+        {syncState?.lastDownloadAt && (
+          <div className="mt-2 bg-zinc-900/60 border border-zinc-700 rounded-lg p-2 text-xs space-y-1" data-testid="panel-download-changes">
+            <div className="flex items-center gap-2">
+              <History className="h-4 w-4 text-emerald-400 flex-shrink-0" />
+              <p className="flex-1 text-zinc-300">
+                {syncState.cursor
+                  ? <>Since your last download: <span className="text-sky-300">{changedItems.filter(item => item.change === 'added').length} new</span>, <span className="text-amber-300">{changedItems.filter(item => item.change === 'updated').length} updated</span></>
+                  : 'Next download will be a full download'}
+              </p>
+              {changedItems.length > 0 && (
+                <button
+                  type="button"
+                  onClick={handleSelectChanged}
+                  disabled={downloading}
+                  className="text-emerald-400 hover:text-emerald-300 font-medium"
+                  data-testid="button-select-changed"
+                >
+                  Select changes
+                </button>
+              )}
+            </div>
+            {syncState.lastChanges && (
+              <p className="text-zinc-500">
+                Last download {new Date(syncState.lastDownloadAt).toLocaleString()}: {describeChanges(syncState.lastChanges)}
+                {!syncState.lastChanges.delta && ' (full)'}
+              </p>
+            )}
+            {syncState.lastChanges?.removed.map(item => (
+              <p key={item.id} className="text-zinc-500 flex items-center gap-1">
+                <X className="h-3 w-3 text-red-400 flex-shrink-0" />
+                <span className="truncate">{item.title}</span>
+                <span>- {TOMBSTONE_REASON_LABELS[item.reason].toLowerCase()}</span>
+              </p>
+            ))}
+          </div>
+        )}
+
+        {/* Offline map */}
+        <div className="mt-2 bg-zinc-900/60 border border-zinc-700 rounded-lg p-2 space-y-2">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="include-map"
+              checked={includeMap}
+              onCheckedChange={(checked) => setIncludeMap(checked === true)}
+              disabled={downloading}
+              data-testid="checkbox-include-map"
+            />
+            <Label htmlFor="include-map" className="text-sm flex items-center gap-1 flex-1 cursor-pointer">
+              <MapIcon className="h-4 w-4 text-emerald-400" />
+              Include offline map
+            </Label>
+            {includeMap && (
+              <select
+                value={mapDetail}
+                onChange={(e) => setMapDetail(e.target.value as MapDetailLevel)}
+                disabled={downloading}
+                className="bg-zinc-800 border border-zinc-700 rounded text-xs px-2 py-1"
+                data-testid="select-map-detail"
+              >
+                {Object.entries(MAP_DETAIL_LEVELS).map(([level, { label }]) => (
+                  <option key={level} value={level}>{label}</option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          {/* Storage quota view */}
+          <div className="flex items-center gap-2 text-xs text-zinc-400">
+            <div className="flex-1">
+              <p>
+                Maps: {mapStorage ? `${mapStorage.areas} area${mapStorage.areas !== 1 ? 's' : ''}, ${mapStorage.tiles} tiles, ${formatBytes(mapStorage.tileBytes)}` : '—'}
+              </p>
+              {quota && (
+                <>
+                  <div className="bg-zinc-700 rounded-full h-1.5 overflow-hidden mt-1">
+                    <div
+                      className={`h-full ${quota.usage / quota.quota > 0.8 ? 'bg-red-500' : 'bg-emerald-500'}`}
+                      style={{ width: `${Math.min(100, (quota.usage / quota.quota) * 100)}%` }}
+                    />
+                  </div>
+                  <p className="mt-1">Device: {formatBytes(quota.usage)} of {formatBytes(quota.quota)} used</p>
+                </>
+              )}
+            </div>
+            {mapStorage && mapStorage.areas > 0 && (
+              <button
+                type="button"
+                onClick={handleClearMaps}
+                disabled={downloading}
+                className="p-2 text-zinc-400 hover:text-red-400"
+                title="Remove offline maps"
+                data-testid="button-clear-maps"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+
+          {mapWarning && (
+            <p className="text-xs text-amber-400 flex items-start gap-1">
+              <AlertCircle className="h-3 w-3 flex-shrink-0 mt-0.5" />
+              {mapWarning}
+            </p>
+          )}
+        </div>
       </div>
 
       {/* Items List */}
@@ -715,7 +1006,17 @@ export default function Download({ session, onComplete }: DownloadProps) {
                 />
                 
                 <div className="flex-1">
-                  <h3 className="font-medium mb-1">{item.title}</h3>
+                  <div className="flex items-start gap-2 mb-1">
+                    <h3 className="font-medium flex-1">{item.title}</h3>
+                    {item.change && (
+                      <span
+                        className={`text-[10px] px-1.5 py-0.5 rounded flex-shrink-0 ${CHANGE_BADGES[item.change as keyof typeof CHANGE_BADGES].className}`}
+                        data-testid={`badge-change-${item.id}`}
+                      >
+                        {CHANGE_BADGES[item.change as keyof typeof CHANGE_BADGES].label}
+                      </span>
+                    )}
+                  </div>
                   
                   {item.workflowTemplateName && (
                     <p className="text-sm text-emerald-400 mb-1">
@@ -774,7 +1075,7 @@ export default function Download({ session, onComplete }: DownloadProps) {
               <div className="flex items-center justify-center gap-2">
                 <DownloadIcon className="h-5 w-5" />
                 <span>Download {selectedIds.size} item{selectedIds.size !== 1 ? 's' : ''}</span>
-                <span className="text-xs opacity-75">({calculateSize()})</span>
+                <span className="text-xs opacity-75">({calculateSize()}{includeMap ? ' + map' : ''})</span>
               </div>
             )}
           </Button>
@@ -49,8 +49,8 @@ export default function Login({ onSuccess }: LoginProps) {
         downloadedAt: new Date()
       };
 
+      // The token is only kept in the session record, which is encrypted once the PIN is set
       await fieldDB.saveSession(session);
-      localStorage.setItem('authToken', data.token);
       
       onSuccess(session);
     } catch (err: any) {
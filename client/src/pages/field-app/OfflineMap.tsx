@@ -0,0 +1,77 @@
+/**
+ * Offline Map - Fiber network map from downloaded tiles, nodes and cable routes
+ * Works without signal once an area has been downloaded
+ */
+
+import { useEffect, useState } from 'react';
+import { useLocation, useSearch } from 'wouter';
+import { fieldDB } from '@/lib/field-app/db';
+import { ChevronLeft, LocateFixed, Map as MapIcon } from 'lucide-react';
+import OfflineNetworkMap from './components/OfflineNetworkMap';
+
+export default function OfflineMap() {
+  const [, setLocation] = useLocation();
+  const search = useSearch();
+  const [position, setPosition] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [hasAreas, setHasAreas] = useState<boolean | null>(null);
+
+  const params = new URLSearchParams(search);
+  const lat = parseFloat(params.get('lat') || '');
+  const lng = parseFloat(params.get('lng') || '');
+  const focus: [number, number] | null = Number.isFinite(lat) && Number.isFinite(lng) ? [lat, lng] : null;
+
+  useEffect(() => {
+    fieldDB.getMapAreas().then(areas => setHasAreas(areas.length > 0));
+  }, []);
+
+  // GPS works without signal, so follow the engineer on the map
+  useEffect(() => {
+    if (!navigator.geolocation) return;
+    const watchId = navigator.geolocation.watchPosition(
+      ({ coords }) => setPosition({ latitude: coords.latitude, longitude: coords.longitude }),
+      (error) => console.warn('[OfflineMap] GPS unavailable:', error.message),
+      { enableHighAccuracy: true, maximumAge: 10000 }
+    );
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, []);
+
+  return (
+    <div className="flex flex-col h-full bg-zinc-900">
+      <div className="bg-zinc-800 p-3 border-b border-zinc-700 flex-shrink-0">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => window.history.length > 1 ? window.history.back() : setLocation('/field-app')}
+            className="p-2 hover:bg-zinc-700 rounded-lg transition-colors"
+            data-testid="button-back"
+          >
+            <ChevronLeft className="h-5 w-5" />
+          </button>
+          <h2 className="text-base font-semibold flex-1">Network Map</h2>
+          {position && (
+            <span className="flex items-center gap-1 text-xs text-emerald-400">
+              <LocateFixed className="h-3 w-3" />
+              GPS
+            </span>
+          )}
+        </div>
+        {hasAreas === false && (
+          <p className="text-xs text-amber-400 mt-2 flex items-center gap-1">
+            <MapIcon className="h-3 w-3" />
+            No offline map downloaded - include one when downloading work items
+          </p>
+        )}
+      </div>
+
+      <div className="flex-1 p-2">
+        <OfflineNetworkMap position={position} focus={focus} className="h-full" />
+      </div>
+
+      <div className="px-3 py-2 bg-zinc-800 border-t border-zinc-700 flex flex-wrap gap-3 text-xs text-zinc-400">
+        <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-full bg-emerald-500" />Active</span>
+        <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-full bg-blue-500" />Planned</span>
+        <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-full bg-amber-500" />Created on device</span>
+        <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-full bg-violet-500" />You</span>
+      </div>
+    </div>
+  );
+}
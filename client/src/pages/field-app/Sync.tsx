@@ -6,8 +6,12 @@
 import { useState, useEffect } from 'react';
 import { fieldDB } from '@/lib/field-app/db';
 import { compressImageSafe } from '@/lib/field-app/imageUtils';
+import { uploadInChunks } from '@/lib/field-app/chunkedUpload';
+import { startAutoSync } from '@/lib/field-app/backgroundSync';
+import { checkRemoteWipe, isRemoteWipe, performRemoteWipe } from '@/lib/field-app/remoteWipe';
 import { queryClient } from '@/lib/queryClient';
 import { Button } from '@/components/ui/button';
+import ConflictResolver from './components/ConflictResolver';
 import { 
   RefreshCw, 
   CheckCircle, 
@@ -18,7 +22,8 @@ import {
   FileText,
   Image,
   Edit,
-  MapPin
+  MapPin,
+  Clock
 } from 'lucide-react';
 
 interface SyncProps {
@@ -34,11 +39,19 @@ export default function Sync({ session, onComplete }: SyncProps) {
   const [syncQueue, setSyncQueue] = useState<any[]>([]);
   const [stats, setStats] = useState<any>(null);
   const [result, setResult] = useState<any>(null);
+  const [conflicts, setConflicts] = useState<any[]>([]);
 
   useEffect(() => {
     loadSyncStatus();
   }, []);
 
+  // Background sync works through the same queue; refresh when it finishes a run
+  useEffect(() => {
+    return startAutoSync((autoSync) => {
+      if (autoSync.state !== 'syncing') loadSyncStatus();
+    });
+  }, []);
+
   const loadSyncStatus = async () => {
     try {
       const queue = await fieldDB.getSyncQueue();
@@ -46,6 +59,8 @@ export default function Sync({ session, onComplete }: SyncProps) {
       
       const dbStats = await fieldDB.getStats();
       setStats(dbStats);
+      
+      setConflicts(await fieldDB.getSyncConflicts());
     } catch (error) {
       console.error('Failed to load sync status:', error);
     }
@@ -57,12 +72,20 @@ export default function Sync({ session, onComplete }: SyncProps) {
     setProgress(0);
     setStatus('Preparing sync...');
     setResult(null);
+    
+    let claimedIds: number[] = [];
 
     try {
-      // Get all pending changes
-      const queue = await fieldDB.getSyncQueue();
+      // Take all pending changes, so background sync leaves them alone meanwhile
+      const queue = await fieldDB.claimSyncQueue();
+      claimedIds = queue.map(q => q.id).filter(id => id !== undefined) as number[];
       
       if (queue.length === 0) {
+        if (await checkRemoteWipe(session.token)) {
+          await performRemoteWipe(session.token);
+          window.location.replace('/field-app/login');
+          return;
+        }
         setStatus('No changes to sync');
         setProgress(100);
         setSyncing(false);
@@ -184,6 +207,14 @@ export default function Sync({ session, onComplete }: SyncProps) {
         })
       });
 
+      // The device has been remotely wiped (e.g. reported lost) - nothing was applied
+      if (await isRemoteWipe(response)) {
+        claimedIds = [];
+        await performRemoteWipe(session.token);
+        window.location.replace('/field-app/login');
+        return;
+      }
+
       if (!response.ok) throw new Error('Sync failed');
 
       const syncResult = await response.json();
@@ -210,29 +241,25 @@ export default function Sync({ session, onComplete }: SyncProps) {
         // Upload photos in parallel batches (3 at a time)
         let uploadedCount = 0;
         
+        // Resumable, so a dropped connection continues where it stopped on the next sync
         const uploadPhoto = async (photo: any) => {
-          const formData = new FormData();
-          formData.append('workItemId', photo.workItemId.toString());
-          formData.append('stepId', photo.stepId || '');
-          formData.append('file', photo.blob, photo.fileName);
-
-          const response = await fetch('/api/field-app/upload-photo', {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${session.token}`
-            },
-            body: formData
+          const result = await uploadInChunks({
+            token: session.token,
+            endpoint: '/api/field-app/upload-photo',
+            uploadId: `${photo.id}-${photo.blob.size}`,
+            blob: photo.blob,
+            fileName: photo.fileName,
+            fields: {
+              workItemId: photo.workItemId.toString(),
+              stepId: photo.stepId || ''
+            }
           });
           
-          if (!response.ok) {
-            throw new Error(`Failed to upload ${photo.fileName}`);
-          }
-          
           uploadedCount++;
           setStatus(`Uploading photo ${uploadedCount} of ${compressedPhotos.length}...`);
           setProgress(Math.round(75 + (15 * uploadedCount / compressedPhotos.length)));
           
-          return response.json();
+          return result;
         };
         
         // Upload in batches
@@ -249,29 +276,24 @@ export default function Sync({ session, onComplete }: SyncProps) {
         let audioUploadedCount = 0;
         
         const uploadAudio = async (audio: any) => {
-          const formData = new FormData();
-          formData.append('workItemId', audio.workItemId.toString());
-          formData.append('stepId', audio.stepId || '');
-          formData.append('duration', audio.duration.toString());
-          formData.append('file', audio.blob, audio.fileName);
-
-          const response = await fetch('/api/field-app/upload-audio', {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${session.token}`
-            },
-            body: formData
+          const result = await uploadInChunks({
+            token: session.token,
+            endpoint: '/api/field-app/upload-audio',
+            uploadId: `${audio.id}-${audio.blob.size}`,
+            blob: audio.blob,
+            fileName: audio.fileName,
+            fields: {
+              workItemId: audio.workItemId.toString(),
+              stepId: audio.stepId || '',
+              duration: audio.duration.toString()
+            }
           });
           
-          if (!response.ok) {
-            throw new Error(`Failed to upload ${audio.fileName}`);
-          }
-          
           audioUploadedCount++;
           setStatus(`Uploading audio ${audioUploadedCount} of ${audioUploads.length}...`);
           setProgress(Math.round(80 + (10 * audioUploadedCount / audioUploads.length)));
           
-          return response.json();
+          return result;
         };
         
         // Upload in batches with concurrency limit
@@ -302,8 +324,15 @@ export default function Sync({ session, onComplete }: SyncProps) {
       }
 
       // Clear local changes after successful sync
-      const queueIds = queue.map(q => q.id).filter(id => id !== undefined) as number[];
-      await fieldDB.markSynced(queueIds);
+      await fieldDB.markSynced(claimedIds);
+      claimedIds = [];
+
+      // Keep work items changed on both sides for the engineer to resolve,
+      // before fresh data is saved so their offline values are not overwritten
+      const fieldConflicts = (syncResult.conflicts || []).filter((c: any) => c.type === 'workItem' && c.fields?.length > 0);
+      if (fieldConflicts.length > 0) {
+        await fieldDB.saveSyncConflicts(fieldConflicts);
+      }
 
       // Download fresh data
       if (syncResult.newData) {
@@ -334,6 +363,9 @@ export default function Sync({ session, onComplete }: SyncProps) {
     } catch (err: any) {
       setError(err.message || 'Sync failed. Please try again.');
       console.error('Sync error:', err);
+      // Back to the queue for the next manual or background sync
+      await fieldDB.releaseSyncQueue(claimedIds, err.message).catch(() => undefined);
+      await loadSyncStatus();
     } finally {
       setSyncing(false);
     }
@@ -417,6 +449,8 @@ export default function Sync({ session, onComplete }: SyncProps) {
         return <CheckCircle className="h-4 w-4" />;
       case 'fiberNetworkNode':
         return <MapPin className="h-4 w-4" />;
+      case 'timeEntry':
+        return <Clock className="h-4 w-4" />;
       default:
         return <Edit className="h-4 w-4" />;
     }
@@ -467,6 +501,21 @@ export default function Sync({ session, onComplete }: SyncProps) {
 
       {/* Sync Queue */}
       <div className="flex-1 overflow-y-auto touch-pan-y" style={{ WebkitOverflowScrolling: 'touch' }}>
+        {conflicts.length > 0 && (
+          <div className="p-4 pb-0">
+            <h3 className="font-medium mb-3">Resolve Conflicts ({conflicts.length})</h3>
+            <div className="space-y-3">
+              {conflicts.map(conflict => (
+                <ConflictResolver
+                  key={conflict.entityId}
+                  conflict={conflict}
+                  onResolved={loadSyncStatus}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
         {syncQueue.length > 0 ? (
           <div className="p-4">
             <h3 className="font-medium mb-3">Pending Changes</h3>
@@ -495,13 +544,13 @@ export default function Sync({ session, onComplete }: SyncProps) {
               )}
             </div>
           </div>
-        ) : (
+        ) : conflicts.length === 0 ? (
           <div className="p-8 text-center text-zinc-400">
             <CheckCircle className="h-12 w-12 text-emerald-500 mx-auto mb-4" />
             <p>No pending changes</p>
             <p className="text-sm mt-2">All your work is up to date</p>
           </div>
-        )}
+        ) : null}
       </div>
 
       {/* Progress */}
@@ -540,8 +589,9 @@ export default function Sync({ session, onComplete }: SyncProps) {
                     ⚠️ {result.conflicts.length} conflict{result.conflicts.length > 1 ? 's' : ''} occurred
                   </p>
                   <p className="text-amber-200 text-xs mt-1">
-                    Some changes couldn't sync. Server data was kept to prevent data loss. 
-                    Check your work items and re-apply changes if needed.
+                    {result.conflicts.some((c: any) => c.fields?.length > 0)
+                      ? 'Some work items were also changed in the office. Choose which values to keep below, then sync again.'
+                      : 'Some changes couldn\'t sync. Server data was kept to prevent data loss. Check your work items and re-apply changes if needed.'}
                   </p>
                 </div>
               )}
@@ -0,0 +1,163 @@
+/**
+ * Field App PIN Screen
+ * Sets up the PIN that encrypts data on the device, and unlocks it again
+ * after the app has locked itself
+ */
+
+import { useState } from 'react';
+import { fieldDB } from '@/lib/field-app/db';
+import { MIN_PIN_LENGTH, validatePin, VaultError } from '@/lib/field-app/vault';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AlertCircle, Lock, ShieldCheck } from 'lucide-react';
+
+interface VaultLockProps {
+  mode: 'setup' | 'unlock';
+  onUnlocked: () => void;
+  onWiped: () => void;
+}
+
+export default function VaultLock({ mode, onUnlocked, onWiped }: VaultLockProps) {
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    try {
+      if (mode === 'setup') {
+        validatePin(pin);
+        if (pin !== confirmPin) {
+          throw new Error('PINs do not match');
+        }
+      }
+
+      setWorking(true);
+      if (mode === 'setup') {
+        await fieldDB.setupVault(pin);
+      } else {
+        await fieldDB.unlock(pin);
+      }
+      onUnlocked();
+    } catch (err: any) {
+      if (err instanceof VaultError && err.code === 'wiped') {
+        onWiped();
+        return;
+      }
+      setError(err.message || 'Failed to unlock');
+      setPin('');
+      setConfirmPin('');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleForgotPin = async () => {
+    if (!confirm('Without the PIN the data on this device cannot be read.\n\nWipe all field app data on this device, including changes not yet synced, and sign out?')) {
+      return;
+    }
+    await fieldDB.wipe();
+    onWiped();
+  };
+
+  return (
+    <div className="min-h-screen bg-zinc-900 text-white flex flex-col">
+      <div className="flex-1 flex flex-col justify-center px-6 py-12">
+        <div className="w-full max-w-md mx-auto">
+          <div className="mb-8 text-center">
+            {mode === 'setup' ? (
+              <ShieldCheck className="h-12 w-12 text-emerald-400 mx-auto mb-4" />
+            ) : (
+              <Lock className="h-12 w-12 text-emerald-400 mx-auto mb-4" />
+            )}
+            <h1 className="text-xl font-semibold">
+              {mode === 'setup' ? 'Set a PIN' : 'Field App Locked'}
+            </h1>
+            <p className="text-sm text-zinc-400 mt-2">
+              {mode === 'setup'
+                ? 'Work items, photos and notes on this device are encrypted with your PIN. You will need it whenever the app locks.'
+                : 'Enter your PIN to unlock the data on this device.'}
+            </p>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-5">
+            <div className="space-y-2">
+              <Label htmlFor="pin" className="text-zinc-300">PIN</Label>
+              <Input
+                id="pin"
+                type="password"
+                inputMode="numeric"
+                placeholder={`At least ${MIN_PIN_LENGTH} digits or characters`}
+                value={pin}
+                onChange={(e) => setPin(e.target.value)}
+                required
+                autoFocus
+                className="bg-zinc-800 border-zinc-700 text-white placeholder:text-zinc-500 h-12"
+                autoComplete={mode === 'setup' ? 'new-password' : 'current-password'}
+                disabled={working}
+                data-testid="input-pin"
+              />
+            </div>
+
+            {mode === 'setup' && (
+              <div className="space-y-2">
+                <Label htmlFor="confirm-pin" className="text-zinc-300">Confirm PIN</Label>
+                <Input
+                  id="confirm-pin"
+                  type="password"
+                  inputMode="numeric"
+                  value={confirmPin}
+                  onChange={(e) => setConfirmPin(e.target.value)}
+                  required
+                  className="bg-zinc-800 border-zinc-700 text-white placeholder:text-zinc-500 h-12"
+                  autoComplete="new-password"
+                  disabled={working}
+                  data-testid="input-confirm-pin"
+                />
+              </div>
+            )}
+
+            {error && (
+              <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3 flex items-start gap-2" data-testid="alert-pin-error">
+                <AlertCircle className="h-5 w-5 text-red-400 flex-shrink-0 mt-0.5" />
+                <p className="text-sm text-red-300">{error}</p>
+              </div>
+            )}
+
+            <Button
+              type="submit"
+              disabled={working}
+              className="w-full bg-emerald-600 hover:bg-emerald-700 text-white h-12 text-base font-semibold"
+              data-testid="button-submit-pin"
+            >
+              {working ? (
+                <>
+                  <div className="animate-spin rounded-full h-4 w-4 border-t-2 border-b-2 border-white mr-2"></div>
+                  {mode === 'setup' ? 'Encrypting data...' : 'Unlocking...'}
+                </>
+              ) : (
+                mode === 'setup' ? 'Set PIN' : 'Unlock'
+              )}
+            </Button>
+          </form>
+
+          {mode === 'unlock' && (
+            <div className="mt-6 text-center">
+              <button
+                onClick={handleForgotPin}
+                className="text-sm text-zinc-400 hover:text-zinc-300 transition-colors"
+                data-testid="button-forgot-pin"
+              >
+                Forgotten your PIN?
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
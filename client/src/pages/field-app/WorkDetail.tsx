@@ -6,6 +6,7 @@
 import { useEffect, useState } from 'react';
 import { useLocation } from 'wouter';
 import { fieldDB } from '@/lib/field-app/db';
+import { formatCustomFieldValue, type WorkItemCustomFieldDefinition } from '@shared/workItemCustomFields';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { 
@@ -18,9 +19,11 @@ import {
   Clock,
   MapPin,
   AlertCircle,
-  Navigation
+  Navigation,
+  Map as MapIcon
 } from 'lucide-react';
 import WorkflowStep from './components/WorkflowStep';
+import WorkTimer from './components/WorkTimer';
 
 interface WorkDetailProps {
   workItemId: number;
@@ -62,7 +65,7 @@ export default function WorkDetail({ workItemId }: WorkDetailProps) {
       
       // Load workflow template if assigned
       if (item.workflowTemplateId) {
-        const tmpl = await fieldDB.getTemplate(item.workflowTemplateId);
+        const tmpl = await fieldDB.getWorkItemTemplate(item);
         setTemplate(tmpl);
         
         // Load execution state
@@ -229,6 +232,19 @@ export default function WorkDetail({ workItemId }: WorkDetailProps) {
             <ChevronLeft className="h-5 w-5" />
           </button>
           <h2 className="text-base font-semibold flex-1 line-clamp-2">{workItem.title}</h2>
+          {workItem.workflowMetadata?.chamberLocation?.latitude && workItem.workflowMetadata?.chamberLocation?.longitude && (
+            <button
+              onClick={() => {
+                const { latitude, longitude } = workItem.workflowMetadata.chamberLocation;
+                setLocation(`/field-app/map?lat=${latitude}&lng=${longitude}`);
+              }}
+              className="p-2 bg-zinc-700 hover:bg-zinc-600 rounded-lg transition-colors flex-shrink-0"
+              data-testid="button-offline-map"
+              title="Show on offline map"
+            >
+              <MapIcon className="h-4 w-4" />
+            </button>
+          )}
           {workItem.workflowMetadata?.chamberLocation?.latitude && workItem.workflowMetadata?.chamberLocation?.longitude && (
             <button
               onClick={handleNavigate}
@@ -420,6 +436,9 @@ export default function WorkDetail({ workItemId }: WorkDetailProps) {
           </div>
         </div>
         
+        {/* Time Tracking */}
+        <WorkTimer workItemId={workItemId} />
+        
         {/* Description */}
         {workItem.description && (
           <div className="p-4 border-t border-zinc-800">
@@ -428,6 +447,23 @@ export default function WorkDetail({ workItemId }: WorkDetailProps) {
           </div>
         )}
         
+        {/* Custom Fields */}
+        {(workItem.customFieldDefinitions?.length ?? 0) > 0 && (
+          <div className="p-4 border-t border-zinc-800" data-testid="custom-fields">
+            <h3 className="font-medium mb-2">Details</h3>
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+              {workItem.customFieldDefinitions.map((definition: WorkItemCustomFieldDefinition) => (
+                <div key={definition.id}>
+                  <dt className="text-xs text-zinc-500">{definition.displayLabel}</dt>
+                  <dd className="text-zinc-300">
+                    {formatCustomFieldValue(definition, workItem.customFields?.[definition.fieldName])}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        )}
+        
         {/* Notes */}
         <div className="p-4 border-t border-zinc-800">
           <h3 className="font-medium mb-3">Notes</h3>
@@ -0,0 +1,132 @@
+/**
+ * Conflict Resolver
+ * Field-by-field choice between the engineer's offline edits and the office's changes
+ */
+
+import { useState } from 'react';
+import { fieldDB } from '@/lib/field-app/db';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { AlertTriangle } from 'lucide-react';
+import {
+  MERGEABLE_FIELDS,
+  SYNCED_WORK_ITEM_FIELDS,
+  suggestMerge,
+  type FieldResolution,
+  type SyncedWorkItemField,
+  type SyncedWorkItemValues,
+  type WorkItemSyncConflict,
+} from '@shared/fieldAppSync';
+
+interface ConflictResolverProps {
+  conflict: WorkItemSyncConflict;
+  onResolved: () => void;
+}
+
+const RESOLUTION_LABELS: Record<FieldResolution, string> = {
+  mine: 'Keep mine',
+  theirs: 'Keep theirs',
+  merge: 'Merge',
+};
+
+function displayValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value)) return value.split('T')[0];
+  return String(value);
+}
+
+export default function ConflictResolver({ conflict, onResolved }: ConflictResolverProps) {
+  const [choices, setChoices] = useState<Partial<Record<SyncedWorkItemField, FieldResolution>>>({});
+  const [merged, setMerged] = useState<Partial<Record<SyncedWorkItemField, string>>>({});
+  const [saving, setSaving] = useState(false);
+
+  const choose = (field: SyncedWorkItemField, resolution: FieldResolution) => {
+    setChoices(previous => ({ ...previous, [field]: resolution }));
+    if (resolution === 'merge' && merged[field] === undefined) {
+      const fieldConflict = conflict.fields.find(f => f.field === field)!;
+      setMerged(previous => ({ ...previous, [field]: suggestMerge(fieldConflict) }));
+    }
+  };
+
+  const allChosen = conflict.fields.every(f => choices[f.field]);
+
+  const handleApply = async () => {
+    const resolved: SyncedWorkItemValues = {};
+    for (const { field, mine, theirs } of conflict.fields) {
+      const choice = choices[field];
+      resolved[field] = choice === 'mine' ? mine : choice === 'merge' ? merged[field] ?? '' : theirs;
+    }
+
+    setSaving(true);
+    try {
+      await fieldDB.resolveSyncConflict(conflict.entityId, resolved);
+      onResolved();
+    } catch (error: any) {
+      alert('Failed to save resolution: ' + (error.message || 'Unknown error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-zinc-800/50 border border-amber-500/30 rounded-lg p-3 space-y-3">
+      <div className="flex items-start gap-2">
+        <AlertTriangle className="h-4 w-4 text-amber-400 flex-shrink-0 mt-0.5" />
+        <div className="min-w-0">
+          <p className="font-medium text-sm truncate">{conflict.title}</p>
+          <p className="text-xs text-zinc-400">{conflict.error}</p>
+        </div>
+      </div>
+
+      {conflict.fields.map(fieldConflict => {
+        const { field } = fieldConflict;
+        const options: FieldResolution[] = MERGEABLE_FIELDS.includes(field) ? ['mine', 'theirs', 'merge'] : ['mine', 'theirs'];
+        return (
+          <div key={field} className="space-y-2">
+            <p className="text-xs font-medium text-zinc-300">{SYNCED_WORK_ITEM_FIELDS[field]}</p>
+            <div className="grid grid-cols-2 gap-2 text-xs">
+              <div className="bg-zinc-900 rounded p-2">
+                <p className="text-zinc-500 mb-1">Mine</p>
+                <p className="whitespace-pre-wrap break-words">{displayValue(fieldConflict.mine)}</p>
+              </div>
+              <div className="bg-zinc-900 rounded p-2">
+                <p className="text-zinc-500 mb-1">Theirs (office)</p>
+                <p className="whitespace-pre-wrap break-words">{displayValue(fieldConflict.theirs)}</p>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              {options.map(option => (
+                <Button
+                  key={option}
+                  size="sm"
+                  variant={choices[field] === option ? 'default' : 'outline'}
+                  className={choices[field] === option
+                    ? 'flex-1 bg-emerald-600 hover:bg-emerald-700'
+                    : 'flex-1 bg-zinc-700 border-zinc-600 text-zinc-300 hover:bg-zinc-600'}
+                  onClick={() => choose(field, option)}
+                >
+                  {RESOLUTION_LABELS[option]}
+                </Button>
+              ))}
+            </div>
+            {choices[field] === 'merge' && (
+              <Textarea
+                value={merged[field] ?? ''}
+                onChange={(e) => setMerged(previous => ({ ...previous, [field]: e.target.value }))}
+                className="bg-zinc-900 border-zinc-700 text-sm min-h-[80px]"
+              />
+            )}
+          </div>
+        );
+      })}
+
+      <Button
+        onClick={handleApply}
+        disabled={!allChosen || saving}
+        className="w-full bg-emerald-600 hover:bg-emerald-700"
+      >
+        {saving ? 'Saving...' : 'Apply resolution'}
+      </Button>
+    </div>
+  );
+}
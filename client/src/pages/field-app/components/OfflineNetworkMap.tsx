@@ -0,0 +1,195 @@
+/**
+ * Offline Network Map
+ * Base map from downloaded tiles with the fiber network nodes, cable routes and
+ * nodes created on this device - usable without signal
+ */
+
+import { useEffect, useState } from 'react';
+import { MapContainer, CircleMarker, Polyline, Popup, useMap } from 'react-leaflet';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { fieldDB } from '@/lib/field-app/db';
+import { OfflineTileLayer } from '@/lib/field-app/offlineMap';
+import type { OfflineCable, OfflineNetworkNode } from '@shared/fieldAppMap';
+
+const DEFAULT_CENTER: [number, number] = [51.1125, -0.8675]; // Petersfield area
+// Used online only, when no area was downloaded with tiles; public servers don't allow bulk prefetching
+const DEFAULT_TILE_URL = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+
+const STATUS_COLORS: Record<string, string> = {
+  active: '#10B981',
+  planned: '#3B82F6',
+  under_construction: '#F59E0B',
+  build_complete: '#10B981',
+  awaiting_evidence: '#F59E0B',
+  action_required: '#EF4444',
+  decommissioned: '#6B7280',
+};
+
+const statusColor = (status: string) => STATUS_COLORS[status] || '#3B82F6';
+
+interface OfflineNetworkMapProps {
+  /** The engineer's GPS position, shown and centred on */
+  position?: { latitude: number; longitude: number } | null;
+  /** Point to centre on instead, e.g. a work item's chamber */
+  focus?: [number, number] | null;
+  className?: string;
+}
+
+interface MapData {
+  tileUrl: string;
+  attribution: string;
+  areaBounds: L.LatLngBounds | null;
+  maxZoom: number;
+  nodes: OfflineNetworkNode[];
+  cables: OfflineCable[];
+  localNodes: Array<{ id: string; name: string; nodeType: string; latitude: number; longitude: number; syncedToServer: boolean }>;
+}
+
+function OfflineTiles({ url, attribution, maxZoom }: { url: string; attribution: string; maxZoom: number }) {
+  const map = useMap();
+
+  useEffect(() => {
+    const layer = new OfflineTileLayer(url, { attribution, maxNativeZoom: maxZoom, maxZoom: 20 });
+    layer.addTo(map);
+    return () => {
+      layer.remove();
+    };
+  }, [map, url, attribution, maxZoom]);
+
+  return null;
+}
+
+function FitView({ position, focus, areaBounds }: Pick<OfflineNetworkMapProps, 'position' | 'focus'> & { areaBounds: L.LatLngBounds | null }) {
+  const map = useMap();
+  const target = focus ?? (position ? [position.latitude, position.longitude] as [number, number] : null);
+
+  useEffect(() => {
+    if (target) {
+      map.setView(target, Math.max(map.getZoom(), 17));
+    } else if (areaBounds) {
+      map.fitBounds(areaBounds);
+    }
+    // Only re-centre when the target itself moves
+  }, [map, target?.[0], target?.[1], areaBounds]);
+
+  return null;
+}
+
+export default function OfflineNetworkMap({ position, focus, className = 'h-64' }: OfflineNetworkMapProps) {
+  const [data, setData] = useState<MapData | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const [areas, network, localNodes] = await Promise.all([
+        fieldDB.getMapAreas(),
+        fieldDB.getNetwork(),
+        fieldDB.getAllUnsyncedFiberNodes()
+      ]);
+
+      let areaBounds: L.LatLngBounds | null = null;
+      for (const { bounds } of areas) {
+        const next = L.latLngBounds([bounds.south, bounds.west], [bounds.north, bounds.east]);
+        areaBounds = areaBounds ? areaBounds.extend(next) : next;
+      }
+      // Areas saved without tiles still show their network over the online map
+      const tiled = areas.filter(area => area.tileUrl);
+      const latest = [...tiled].sort((a, b) => new Date(b.downloadedAt).getTime() - new Date(a.downloadedAt).getTime())[0];
+      const sameSource = tiled.filter(area => area.tileUrl === latest?.tileUrl);
+
+      setData({
+        tileUrl: latest?.tileUrl || DEFAULT_TILE_URL,
+        attribution: latest?.attribution || '&copy; OpenStreetMap contributors',
+        areaBounds,
+        maxZoom: sameSource.length > 0 ? Math.max(...sameSource.map(area => area.maxZoom)) : 19,
+        nodes: network.nodes,
+        cables: network.cables,
+        localNodes
+      });
+    };
+    load().catch(error => console.error('[OfflineMap] Failed to load map data:', error));
+  }, []);
+
+  if (!data) {
+    return (
+      <div className={`${className} flex items-center justify-center bg-zinc-800 rounded-lg`}>
+        <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-emerald-500"></div>
+      </div>
+    );
+  }
+
+  const nodesById = new Map(data.nodes.map(node => [node.id, node]));
+
+  return (
+    <div className={`${className} rounded-lg overflow-hidden border border-zinc-700`}>
+      <MapContainer
+        center={focus ?? (position ? [position.latitude, position.longitude] : DEFAULT_CENTER)}
+        zoom={14}
+        className="h-full w-full"
+      >
+        <OfflineTiles url={data.tileUrl} attribution={data.attribution} maxZoom={data.maxZoom} />
+        <FitView position={position} focus={focus} areaBounds={data.areaBounds} />
+
+        {data.cables.map(cable => {
+          const start = nodesById.get(cable.startNodeId);
+          const end = nodesById.get(cable.endNodeId);
+          const route = cable.routeGeometry.length >= 2
+            ? cable.routeGeometry
+            : start && end ? [[start.latitude, start.longitude], [end.latitude, end.longitude]] as Array<[number, number]> : [];
+          if (route.length < 2) return null;
+          return (
+            <Polyline key={`cable-${cable.id}`} positions={route} pathOptions={{ color: statusColor(cable.status), weight: 4, opacity: 0.8 }}>
+              <Popup>
+                <p className="font-medium">{cable.cableIdentifier}</p>
+                <p className="text-xs">
+                  {[cable.fiberCount && `${cable.fiberCount}F`, cable.cableType, cable.status].filter(Boolean).join(' • ')}
+                </p>
+                <p className="text-xs">{start?.name ?? `Node ${cable.startNodeId}`} → {end?.name ?? `Node ${cable.endNodeId}`}</p>
+              </Popup>
+            </Polyline>
+          );
+        })}
+
+        {data.nodes.map(node => (
+          <CircleMarker
+            key={`node-${node.id}`}
+            center={[node.latitude, node.longitude]}
+            radius={7}
+            pathOptions={{ color: '#ffffff', weight: 2, fillColor: statusColor(node.status), fillOpacity: 1 }}
+          >
+            <Popup>
+              <p className="font-medium">{node.name}</p>
+              <p className="text-xs capitalize">{node.nodeType.replace(/_/g, ' ')} • {node.status.replace(/_/g, ' ')}</p>
+              {node.what3words && <p className="text-xs">///{node.what3words.replace(/^\/+/, '')}</p>}
+              {node.address && <p className="text-xs">{node.address}</p>}
+            </Popup>
+          </CircleMarker>
+        ))}
+
+        {data.localNodes.map(node => (
+          <CircleMarker
+            key={`local-${node.id}`}
+            center={[node.latitude, node.longitude]}
+            radius={7}
+            pathOptions={{ color: '#ffffff', weight: 2, fillColor: '#F59E0B', fillOpacity: 1, dashArray: node.syncedToServer ? undefined : '3 3' }}
+          >
+            <Popup>
+              <p className="font-medium">{node.name}</p>
+              <p className="text-xs">Created on this device{node.syncedToServer ? '' : ' • not synced'}</p>
+            </Popup>
+          </CircleMarker>
+        ))}
+
+        {position && (
+          <CircleMarker
+            center={[position.latitude, position.longitude]}
+            radius={8}
+            pathOptions={{ color: '#ffffff', weight: 3, fillColor: '#8B5CF6', fillOpacity: 1 }}
+          >
+            <Popup>You are here</Popup>
+          </CircleMarker>
+        )}
+      </MapContainer>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+/**
+ * Sync Indicator
+ * Always-visible count of changes still on the device, and what background sync is doing
+ */
+
+import { AlertCircle, CheckCircle, CloudOff, RefreshCw } from 'lucide-react';
+import type { AutoSyncStatus } from '@/lib/field-app/backgroundSync';
+
+interface SyncIndicatorProps {
+  pending: number;
+  conflicts: number;
+  online: boolean;
+  autoSync: AutoSyncStatus | null;
+  onClick: () => void;
+}
+
+export default function SyncIndicator({ pending, conflicts, online, autoSync, onClick }: SyncIndicatorProps) {
+  const lastSynced = autoSync?.at ? new Date(autoSync.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : null;
+
+  let className = 'bg-emerald-500/20 text-emerald-400';
+  let icon = <CheckCircle className="h-3 w-3" />;
+  let label = 'Synced';
+  let title = lastSynced ? `Last synced ${lastSynced}` : 'Nothing waiting to sync';
+
+  if (conflicts > 0) {
+    className = 'bg-red-500/20 text-red-400';
+    icon = <AlertCircle className="h-3 w-3" />;
+    label = `${conflicts} conflict${conflicts > 1 ? 's' : ''}`;
+    title = 'Work items changed in the office need your decision';
+  } else if (autoSync?.state === 'syncing') {
+    className = 'bg-sky-500/20 text-sky-400';
+    icon = <RefreshCw className="h-3 w-3 animate-spin" />;
+    label = `Syncing ${autoSync.remaining ?? pending}`;
+    title = 'Uploading in the background';
+  } else if (pending > 0) {
+    className = 'bg-amber-500/20 text-amber-400';
+    icon = online ? <RefreshCw className="h-3 w-3" /> : <CloudOff className="h-3 w-3" />;
+    label = `${pending} unsynced`;
+    title = !online
+      ? 'Will upload when the connection returns'
+      : autoSync?.state === 'error'
+        ? `Retrying: ${autoSync.error || 'last attempt failed'}`
+        : 'Waiting to upload';
+  }
+
+  return (
+    <button
+      onClick={onClick}
+      title={title}
+      className={`flex items-center gap-1 px-2 py-1 rounded text-xs ${className}`}
+      data-testid="field-sync-indicator"
+    >
+      {icon}
+      {label}
+    </button>
+  );
+}
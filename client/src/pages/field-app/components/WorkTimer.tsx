@@ -0,0 +1,169 @@
+/**
+ * Work Timer
+ * Start/stop timer and manual time entries, stored offline and uploaded on sync
+ */
+
+import { useState, useEffect } from 'react';
+import { fieldDB } from '@/lib/field-app/db';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Clock, Play, Plus, Square } from 'lucide-react';
+import { MAX_ENTRY_MINUTES, formatMinutes, minutesBetween } from '@shared/timeTracking';
+
+interface WorkTimerProps {
+  workItemId: number;
+}
+
+export default function WorkTimer({ workItemId }: WorkTimerProps) {
+  const [entries, setEntries] = useState<any[]>([]);
+  const [running, setRunning] = useState<any>(null);
+  const [now, setNow] = useState(Date.now());
+  const [showManual, setShowManual] = useState(false);
+  const [manualMinutes, setManualMinutes] = useState('');
+  const [manualNote, setManualNote] = useState('');
+
+  const loadEntries = async () => {
+    setEntries(await fieldDB.getTimeEntries(workItemId));
+    setRunning(await fieldDB.getRunningTimeEntry() ?? null);
+  };
+
+  useEffect(() => {
+    loadEntries();
+  }, [workItemId]);
+
+  useEffect(() => {
+    if (!running) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  const runningHere = running?.workItemId === workItemId;
+
+  const handleStart = async () => {
+    await fieldDB.startTimer(workItemId);
+    setNow(Date.now());
+    await loadEntries();
+  };
+
+  const handleStop = async () => {
+    await fieldDB.stopTimer(workItemId);
+    await loadEntries();
+  };
+
+  const handleAddManual = async () => {
+    const minutes = parseInt(manualMinutes, 10);
+    if (!minutes || minutes < 1 || minutes > MAX_ENTRY_MINUTES) {
+      alert(`Enter between 1 and ${MAX_ENTRY_MINUTES} minutes`);
+      return;
+    }
+    await fieldDB.addTimeEntry(workItemId, new Date(Date.now() - minutes * 60000), minutes, manualNote.trim() || undefined);
+    setManualMinutes('');
+    setManualNote('');
+    setShowManual(false);
+    await loadEntries();
+  };
+
+  const elapsedSeconds = runningHere ? Math.max(0, Math.floor((now - new Date(running.startedAt).getTime()) / 1000)) : 0;
+  const elapsed = [Math.floor(elapsedSeconds / 3600), Math.floor(elapsedSeconds / 60) % 60, elapsedSeconds % 60]
+    .map(part => part.toString().padStart(2, '0'))
+    .join(':');
+  const totalMinutes = entries.reduce((sum, entry) => sum + (entry.durationMinutes ?? 0), 0);
+
+  return (
+    <div className="p-4 border-t border-zinc-800" data-testid="field-time-tracking">
+      <h3 className="font-medium mb-3 flex items-center gap-2">
+        <Clock className="h-4 w-4" />
+        Time
+        {totalMinutes > 0 && (
+          <span className="text-sm text-zinc-400 font-normal">{formatMinutes(totalMinutes)} logged</span>
+        )}
+      </h3>
+
+      <div className="flex items-center gap-2">
+        {runningHere ? (
+          <>
+            <span className="flex-1 text-2xl font-mono text-amber-400" data-testid="text-timer-elapsed">{elapsed}</span>
+            <Button
+              onClick={handleStop}
+              className="bg-red-600 hover:bg-red-700 text-white h-12"
+              data-testid="button-stop-timer"
+            >
+              <Square className="h-4 w-4 mr-2" />
+              Stop
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button
+              onClick={handleStart}
+              className="flex-1 bg-emerald-600 hover:bg-emerald-700 text-white h-12"
+              data-testid="button-start-timer"
+            >
+              <Play className="h-4 w-4 mr-2" />
+              Start timer
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setShowManual(!showManual)}
+              className="border-zinc-700 bg-zinc-800 text-white h-12"
+              data-testid="button-add-time"
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+          </>
+        )}
+      </div>
+
+      {running && !runningHere && (
+        <p className="text-xs text-amber-400 mt-2">
+          A timer is running on another work item. Starting here will stop it.
+        </p>
+      )}
+
+      {showManual && !runningHere && (
+        <div className="mt-3 space-y-2">
+          <Input
+            type="number"
+            inputMode="numeric"
+            min={1}
+            value={manualMinutes}
+            onChange={(e) => setManualMinutes(e.target.value)}
+            placeholder="Minutes worked"
+            className="bg-zinc-800 border-zinc-700 text-white"
+            data-testid="input-manual-minutes"
+          />
+          <Input
+            value={manualNote}
+            onChange={(e) => setManualNote(e.target.value)}
+            placeholder="Note (optional)"
+            className="bg-zinc-800 border-zinc-700 text-white"
+            data-testid="input-manual-note"
+          />
+          <Button
+            onClick={handleAddManual}
+            className="w-full bg-zinc-700 hover:bg-zinc-600 text-white"
+            data-testid="button-save-manual-time"
+          >
+            Log time
+          </Button>
+        </div>
+      )}
+
+      {entries.filter(entry => entry.endedAt).length > 0 && (
+        <div className="mt-3 space-y-1">
+          {entries.filter(entry => entry.endedAt).slice(0, 5).map(entry => (
+            <div key={entry.id} className="flex items-center justify-between text-sm text-zinc-400">
+              <span>
+                {new Date(entry.startedAt).toLocaleDateString()} {new Date(entry.startedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                {entry.note && <span className="text-zinc-500"> · {entry.note}</span>}
+              </span>
+              <span className="text-zinc-300">
+                {formatMinutes(entry.durationMinutes ?? minutesBetween(entry.startedAt, entry.endedAt))}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -83,9 +83,10 @@ export default function WorkflowStep({
       if (step.type === 'fiber_splice_documentation' && audioId && !loadingAudioData) {
         setLoadingAudioData(true);
         try {
+          const session = await fieldDB.getSession();
           const response = await fetch(`/api/field-app/audio-recordings/${audioId}`, {
             headers: {
-              'Authorization': `Bearer ${localStorage.getItem('token')}`
+              'Authorization': `Bearer ${session?.token}`
             }
           });
           
@@ -6,16 +6,23 @@
 import { useEffect, useState } from 'react';
 import { Route, Switch, useLocation, Redirect } from 'wouter';
 import { fieldDB } from '@/lib/field-app/db';
+import { startAutoSync, type AutoSyncStatus } from '@/lib/field-app/backgroundSync';
+import { onRemoteWipe } from '@/lib/field-app/remoteWipe';
+import { DEFAULT_AUTO_LOCK_MINUTES, startAutoLock } from '@/lib/field-app/vault';
 import Login from './Login';
+import VaultLock from './VaultLock';
+import Account from './Account';
 import Download from './Download';
 import WorkList from './WorkList';
 import WorkDetail from './WorkDetail';
 import Sync from './Sync';
 import CreateFiberNode from './CreateFiberNode';
 import OfflineNodes from './OfflineNodes';
+import OfflineMap from './OfflineMap';
+import SyncIndicator from './components/SyncIndicator';
 import { Button } from '@/components/ui/button';
 import { Switch as ToggleSwitch } from '@/components/ui/switch';
-import { Home, Download as DownloadIcon, RefreshCw, User, WifiOff, Wifi, MapPin } from 'lucide-react';
+import { Home, Download as DownloadIcon, RefreshCw, User, WifiOff, Wifi, MapPin, Map as MapIcon } from 'lucide-react';
 
 export default function FieldApp() {
   const [location, setLocation] = useLocation();
@@ -24,14 +31,23 @@ export default function FieldApp() {
   const [workMode, setWorkMode] = useState<'online' | 'offline'>('offline'); // Default to offline mode
   const [stats, setStats] = useState<any>(null);
   const [actualNetworkStatus, setActualNetworkStatus] = useState(navigator.onLine); // For display only
+  const [autoSync, setAutoSync] = useState<AutoSyncStatus | null>(null);
+  const [vaultState, setVaultState] = useState<'none' | 'locked' | 'unlocked'>('none');
+  const [autoLockMinutes, setAutoLockMinutes] = useState(DEFAULT_AUTO_LOCK_MINUTES);
 
   // Initialize DB and check session
   useEffect(() => {
     const init = async () => {
       try {
         await fieldDB.init();
-        const savedSession = await fieldDB.getSession();
-        setSession(savedSession);
+        // Encrypted data can only be read once unlocked with the PIN
+        const state = fieldDB.getVaultState();
+        setVaultState(state);
+        setAutoLockMinutes(fieldDB.getAutoLockMinutes() ?? DEFAULT_AUTO_LOCK_MINUTES);
+        if (state !== 'locked') {
+          const savedSession = await fieldDB.getSession();
+          setSession(savedSession);
+        }
         
         // Load saved work mode from settings
         const settings = await fieldDB.getSettings();
@@ -97,6 +113,26 @@ export default function FieldApp() {
     };
   }, []);
 
+  // Lock after inactivity; the keys are dropped from memory until the PIN is entered again
+  useEffect(() => {
+    if (vaultState !== 'unlocked') return;
+    return startAutoLock(autoLockMinutes, handleLock);
+  }, [vaultState, autoLockMinutes]);
+
+  // Remote wipe carried out by the service worker during a background sync
+  useEffect(() => {
+    return onRemoteWipe(handleWiped);
+  }, []);
+
+  // Background sync: replay the queue when the connection returns, with a poller fallback
+  useEffect(() => {
+    if (!session || vaultState === 'locked') return;
+    return startAutoSync(async (status) => {
+      setAutoSync(status);
+      setStats(await fieldDB.getStats());
+    });
+  }, [session, vaultState]);
+
   // Refresh stats periodically
   useEffect(() => {
     const interval = setInterval(async () => {
@@ -112,6 +148,26 @@ export default function FieldApp() {
     setSession(null);
     setLocation('/field-app/login');
   };
+
+  const handleLock = () => {
+    fieldDB.lock();
+    setVaultState('locked');
+  };
+
+  const handleUnlocked = async () => {
+    setVaultState('unlocked');
+    setAutoLockMinutes(fieldDB.getAutoLockMinutes() ?? DEFAULT_AUTO_LOCK_MINUTES);
+    setSession(await fieldDB.getSession());
+    setStats(await fieldDB.getStats());
+  };
+
+  // Device wiped (remotely, after too many wrong PINs, or a forgotten PIN): start again from login
+  const handleWiped = () => {
+    setSession(null);
+    setStats(null);
+    setVaultState('none');
+    setLocation('/field-app/login');
+  };
   
   // Manual mode toggle handler
   const handleModeToggle = async (checked: boolean) => {
@@ -135,6 +191,14 @@ export default function FieldApp() {
     );
   }
 
+  if (vaultState === 'locked') {
+    return (
+      <div className="h-screen bg-zinc-900" style={{ height: '100dvh' }}>
+        <VaultLock mode="unlock" onUnlocked={handleUnlocked} onWiped={handleWiped} />
+      </div>
+    );
+  }
+
   // If not logged in, show login
   if (!session) {
     return (
@@ -151,6 +215,15 @@ export default function FieldApp() {
     );
   }
 
+  // Signed in without a PIN yet (first use, or data from before encryption): set one up
+  if (vaultState === 'none') {
+    return (
+      <div className="h-screen bg-zinc-900" style={{ height: '100dvh' }}>
+        <VaultLock mode="setup" onUnlocked={handleUnlocked} onWiped={handleWiped} />
+      </div>
+    );
+  }
+
   return (
     <div className="h-screen bg-zinc-900 text-white flex flex-col overflow-hidden" style={{ height: '100dvh' }}>
       {/* Header - with safe area inset for iOS notch/status bar in PWA mode */}
@@ -185,12 +258,14 @@ export default function FieldApp() {
               </div>
             </div>
             
-            {/* Stats badge */}
-            {stats?.pendingSync > 0 && (
-              <div className="bg-amber-500/20 text-amber-400 px-2 py-1 rounded text-xs">
-                {stats.pendingSync} pending
-              </div>
-            )}
+            {/* Unsynced changes, always shown */}
+            <SyncIndicator
+              pending={stats?.pendingSync || 0}
+              conflicts={stats?.conflicts || 0}
+              online={actualNetworkStatus}
+              autoSync={autoSync}
+              onClick={() => setLocation('/field-app/sync')}
+            />
           </div>
         </div>
       </header>
@@ -260,6 +335,23 @@ export default function FieldApp() {
           <Route path="/field-app/offline-nodes">
             {() => <OfflineNodes />}
           </Route>
+
+          {/* Offline Map */}
+          <Route path="/field-app/map">
+            {() => <OfflineMap />}
+          </Route>
+
+          {/* Account - PIN, auto-lock and sign out */}
+          <Route path="/field-app/account">
+            {() => (
+              <Account
+                session={session}
+                onLock={handleLock}
+                onLogout={handleLogout}
+                onAutoLockChange={setAutoLockMinutes}
+              />
+            )}
+          </Route>
         </Switch>
       </main>
       {/* Bottom Navigation - with safe area inset for iOS home indicator in PWA mode */}
@@ -298,6 +390,17 @@ export default function FieldApp() {
             <MapPin className="h-5 w-5" />
             <span className="text-xs">Add Node</span>
           </button>
+
+          <button
+            onClick={() => setLocation('/field-app/map')}
+            className={`flex-1 py-3 flex flex-col items-center gap-1 transition-colors ${
+              location === '/field-app/map' ? 'text-emerald-400' : 'text-zinc-400'
+            }`}
+            data-testid="button-nav-map"
+          >
+            <MapIcon className="h-5 w-5" />
+            <span className="text-xs">Map</span>
+          </button>
           
           <button
             onClick={() => setLocation('/field-app/sync')}
@@ -314,8 +417,11 @@ export default function FieldApp() {
           </button>
           
           <button
-            onClick={handleLogout}
-            className="flex-1 py-3 flex flex-col items-center gap-1 text-zinc-400"
+            onClick={() => setLocation('/field-app/account')}
+            className={`flex-1 py-3 flex flex-col items-center gap-1 transition-colors ${
+              location === '/field-app/account' ? 'text-emerald-400' : 'text-zinc-400'
+            }`}
+            data-testid="button-nav-account"
           >
             <User className="h-5 w-5" />
             <span className="text-xs">Account</span>
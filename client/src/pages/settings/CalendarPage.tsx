@@ -42,10 +42,14 @@ import {
   Link2,
   FolderOpen,
   X,
-  Trash2
+  Trash2,
+  Route,
+  Ban,
+  AlertTriangle
 } from 'lucide-react';
 import { queryClient } from '@/lib/queryClient';
 import { useLocation } from 'wouter';
+import type { DependencyGraph } from '@shared/workItemDependencies';
 import { 
   startOfMonth, 
   endOfMonth, 
@@ -517,6 +521,9 @@ export default function CalendarPage() {
     onSuccess: (_, { event }) => {
       toast({ title: `${event.title} moved successfully` });
       queryClient.invalidateQueries({ queryKey: ['/api/calendar/combined'] });
+      if (event.type === 'work_item') {
+        queryClient.invalidateQueries({ queryKey: ['/api/work-items/dependencies'] });
+      }
       setDraggedEvent(null);
     },
     onError: (error: any) => {
@@ -3219,6 +3226,13 @@ function RoadmapView({ events, currentDate, teamMembers }: RoadmapViewProps) {
   const workItemEvents = events.filter(e => e.type === 'work_item');
   const holidayEvents = events.filter(e => e.type === 'holiday');
 
+  const [showCriticalPath, setShowCriticalPath] = useState(true);
+  const { data: dependencyGraph } = useQuery<DependencyGraph>({
+    queryKey: ['/api/work-items/dependencies'],
+  });
+  const criticalPathIds = new Set(dependencyGraph?.criticalPath || []);
+  const conflictedIds = new Set((dependencyGraph?.dueDateConflicts || []).map(conflict => conflict.blockedWorkItemId));
+
   const groupedByUser = useMemo(() => {
     const groups: Record<number, CalendarEvent[]> = {};
     workItemEvents.forEach(event => {
@@ -3245,8 +3259,21 @@ function RoadmapView({ events, currentDate, teamMembers }: RoadmapViewProps) {
   return (
     <div className="h-full flex flex-col">
       <div className="flex border-b bg-muted/30">
-        <div className="w-48 shrink-0 p-2 border-r font-medium text-sm">
+        <div className="w-48 shrink-0 p-2 border-r font-medium text-sm flex items-center justify-between">
           Team Members
+          {(dependencyGraph?.criticalPath.length ?? 0) > 0 && (
+            <Button
+              variant={showCriticalPath ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-6 px-2 text-[11px]"
+              onClick={() => setShowCriticalPath(!showCriticalPath)}
+              title="Highlight the longest chain of blocked work"
+              data-testid="button-roadmap-critical-path"
+            >
+              <Route className="h-3 w-3 mr-1" />
+              Critical path
+            </Button>
+          )}
         </div>
         <div className="flex-1 flex">
           {months.map((month, i) => (
@@ -3273,17 +3300,31 @@ function RoadmapView({ events, currentDate, teamMembers }: RoadmapViewProps) {
               <div className="flex-1 relative min-h-[60px] py-2">
                 {groupedByUser[member.id]?.map((event) => {
                   const style = getBarStyle(event);
+                  const workItemId = event.metadata?.workItemId as number | undefined;
+                  const onCriticalPath = showCriticalPath && !!workItemId && criticalPathIds.has(workItemId);
+                  const openBlockers = workItemId ? dependencyGraph?.openBlockerCounts[workItemId] ?? 0 : 0;
+                  const dueBeforeBlocker = !!workItemId && conflictedIds.has(workItemId);
+                  const notes = [
+                    onCriticalPath ? 'on the critical path' : null,
+                    openBlockers > 0 ? `blocked by ${openBlockers}` : null,
+                    dueBeforeBlocker ? 'due before a blocker' : null,
+                  ].filter(Boolean);
                   return (
                     <div
                       key={event.id}
                       className={`
-                        absolute h-6 rounded px-2 text-xs flex items-center truncate
+                        absolute h-6 rounded px-2 text-xs flex items-center gap-1 truncate
                         ${eventTypeColors[event.type]}
+                        ${onCriticalPath ? 'ring-2 ring-purple-500 font-medium' : ''}
+                        ${showCriticalPath && criticalPathIds.size > 0 && !onCriticalPath ? 'opacity-60' : ''}
                       `}
                       style={{ ...style, top: '50%', transform: 'translateY(-50%)' }}
-                      title={event.title}
+                      title={notes.length > 0 ? `${event.title} (${notes.join(', ')})` : event.title}
+                      data-testid={onCriticalPath ? `roadmap-critical-${workItemId}` : undefined}
                     >
-                      {event.title}
+                      {openBlockers > 0 && <Ban className="h-3 w-3 shrink-0 text-red-600" />}
+                      {dueBeforeBlocker && <AlertTriangle className="h-3 w-3 shrink-0 text-amber-600" />}
+                      <span className="truncate">{event.title}</span>
                     </div>
                   );
                 })}
@@ -11,7 +11,7 @@ import { useToast } from '@/hooks/use-toast';
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { apiRequest } from '@/lib/queryClient';
-import { Settings, Clock, Bell, Calendar, History, AlertCircle, CheckCircle2, ChevronRight } from 'lucide-react';
+import { Settings, Clock, Bell, Calendar, History, AlertCircle, CheckCircle2, ChevronRight, FileText } from 'lucide-react';
 import { format } from 'date-fns';
 
 interface StrategySettings {
@@ -25,10 +25,30 @@ interface StrategySettings {
   notifyOnGeneration: boolean;
   notifyEmailRecipients: string[] | null;
   lastCronExecution: string | null;
+  cronNextRunAt: string | null;
+  cronCatchUpPolicy: 'skip' | 'run_once' | 'run_all';
+  minutesFolderId: number | null;
+  minutesEmailTemplateId: number | null;
+  distributeMinutes: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
+interface ScheduleHistoryEntry {
+  id: number;
+  scheduledFor: string;
+  status: 'running' | 'completed' | 'failed' | 'skipped';
+  isCatchUp: boolean;
+  errorMessage: string | null;
+  details: any;
+}
+
+interface NamedOption {
+  id: number;
+  name?: string;
+  title?: string;
+}
+
 interface ActivityLog {
   id: number;
   description: string;
@@ -54,6 +74,23 @@ export default function StrategySettings() {
     enabled: viewingActivity,
   });
 
+  // Fetch scheduled run history (one entry per cron occurrence)
+  const { data: scheduleHistory = [] } = useQuery<ScheduleHistoryEntry[]>({
+    queryKey: ['/api/strategy/settings/schedule-history'],
+    enabled: viewingActivity,
+  });
+
+  // Knowledge base folders and email templates for meeting minutes
+  const { data: folders = [] } = useQuery<NamedOption[]>({
+    queryKey: ['/api/knowledge-base/folders'],
+    enabled: editingSettings,
+  });
+
+  const { data: emailTemplates = [] } = useQuery<NamedOption[]>({
+    queryKey: ['/api/email-templates'],
+    enabled: editingSettings,
+  });
+
   // Update settings mutation
   const updateSettings = useMutation({
     mutationFn: (updates: Partial<StrategySettings>) =>
@@ -98,6 +135,12 @@ export default function StrategySettings() {
     { label: 'Custom', value: 'custom' },
   ];
 
+  const catchUpPolicyOptions = [
+    { label: 'Run once', value: 'run_once', description: 'Missed runs collapse into a single catch-up run' },
+    { label: 'Run all', value: 'run_all', description: 'Every missed run is executed, oldest first' },
+    { label: 'Skip', value: 'skip', description: 'Missed runs are dropped' },
+  ];
+
   if (settingsLoading) {
     return (
       <div className="p-8">
@@ -195,6 +238,21 @@ export default function StrategySettings() {
                   </TableCell>
                   <TableCell className="text-sm text-gray-600">
                     Cron expression for scheduling automatic generation
+                    {settings?.cronEnabled && settings?.cronNextRunAt && (
+                      <div className="text-xs">Next run: {format(new Date(settings.cronNextRunAt), 'MMM d, yyyy h:mm a')}</div>
+                    )}
+                  </TableCell>
+                </TableRow>
+                
+                <TableRow>
+                  <TableCell className="font-medium">
+                    Missed Runs
+                  </TableCell>
+                  <TableCell>
+                    {catchUpPolicyOptions.find(opt => opt.value === settings?.cronCatchUpPolicy)?.label || 'Run once'}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    What to do with runs that were due while no server was running
                   </TableCell>
                 </TableRow>
                 
@@ -255,6 +313,28 @@ export default function StrategySettings() {
                   </TableCell>
                 </TableRow>
                 
+                <TableRow>
+                  <TableCell className="font-medium">
+                    <div className="flex items-center gap-2">
+                      <FileText className="h-4 w-4 text-gray-500" />
+                      Meeting Minutes
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Badge variant={settings?.minutesFolderId ? 'default' : 'secondary'}>
+                        {settings?.minutesFolderId ? 'Saved' : 'Not saved'}
+                      </Badge>
+                      <Badge variant={settings?.distributeMinutes ? 'default' : 'secondary'}>
+                        {settings?.distributeMinutes ? 'Emailed' : 'Not emailed'}
+                      </Badge>
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    Save completed check-in minutes to the knowledge base and email them to attendees
+                  </TableCell>
+                </TableRow>
+                
                 <TableRow>
                   <TableCell className="font-medium">
                     Last Execution
@@ -315,6 +395,21 @@ export default function StrategySettings() {
               </div>
             </Card>
 
+            {/* Missed Runs */}
+            <Card className="p-4">
+              <div className="flex items-start justify-between gap-3">
+                <div className="flex-1">
+                  <h3 className="font-medium text-sm mb-1">Missed Runs</h3>
+                  <p className="text-xs text-gray-600 mb-2">
+                    What to do with runs that were due while no server was running
+                  </p>
+                </div>
+                <span className="text-sm font-medium">
+                  {catchUpPolicyOptions.find(opt => opt.value === settings?.cronCatchUpPolicy)?.label || 'Run once'}
+                </span>
+              </div>
+            </Card>
+
             {/* Lookahead Period */}
             <Card className="p-4">
               <div className="flex items-start justify-between gap-3">
@@ -378,6 +473,24 @@ export default function StrategySettings() {
               </div>
             </Card>
 
+            {/* Meeting Minutes */}
+            <Card className="p-4">
+              <div className="flex items-start justify-between gap-3">
+                <div className="flex-1">
+                  <div className="flex items-center gap-2 mb-1">
+                    <FileText className="h-4 w-4 text-gray-500" />
+                    <h3 className="font-medium text-sm">Meeting Minutes</h3>
+                  </div>
+                  <p className="text-xs text-gray-600 mb-2">
+                    Save and email minutes when a check-in completes
+                  </p>
+                </div>
+                <Badge variant={settings?.minutesFolderId || settings?.distributeMinutes ? 'default' : 'secondary'} className="text-xs">
+                  {settings?.minutesFolderId || settings?.distributeMinutes ? 'Enabled' : 'Disabled'}
+                </Badge>
+              </div>
+            </Card>
+
             {/* Last Execution */}
             <Card className="p-4">
               <div className="flex items-start justify-between gap-3">
@@ -463,6 +576,25 @@ export default function StrategySettings() {
                       }
                     />
                   )}
+
+                  <Label htmlFor="cronCatchUpPolicy">Missed runs</Label>
+                  <select
+                    id="cronCatchUpPolicy"
+                    className="w-full px-3 py-2 border rounded-md"
+                    value={formData.cronCatchUpPolicy || 'run_once'}
+                    onChange={(e) =>
+                      setFormData({ ...formData, cronCatchUpPolicy: e.target.value as StrategySettings['cronCatchUpPolicy'] })
+                    }
+                  >
+                    {catchUpPolicyOptions.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-sm text-gray-600">
+                    {catchUpPolicyOptions.find(opt => opt.value === (formData.cronCatchUpPolicy || 'run_once'))?.description}
+                  </p>
                 </div>
               )}
 
@@ -553,6 +685,64 @@ export default function StrategySettings() {
                 )}
               </div>
 
+              {/* Meeting Minutes */}
+              <div className="space-y-3">
+                <Label className="text-base font-semibold">Meeting Minutes</Label>
+
+                <Label htmlFor="minutesFolderId">Knowledge base folder</Label>
+                <select
+                  id="minutesFolderId"
+                  className="w-full px-3 py-2 border rounded-md"
+                  value={formData.minutesFolderId ?? ''}
+                  onChange={(e) =>
+                    setFormData({ ...formData, minutesFolderId: e.target.value ? parseInt(e.target.value) : null })
+                  }
+                >
+                  <option value="">Don't save automatically</option>
+                  {folders.map((folder) => (
+                    <option key={folder.id} value={folder.id}>
+                      {folder.name}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-sm text-gray-600">
+                  Minutes of completed check-ins are saved as documents in this folder
+                </p>
+
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="distributeMinutes">
+                    Email minutes to attendees
+                  </Label>
+                  <Switch
+                    id="distributeMinutes"
+                    checked={formData.distributeMinutes || false}
+                    onCheckedChange={(checked) =>
+                      setFormData({ ...formData, distributeMinutes: checked })
+                    }
+                  />
+                </div>
+
+                <Label htmlFor="minutesEmailTemplateId">Email template</Label>
+                <select
+                  id="minutesEmailTemplateId"
+                  className="w-full px-3 py-2 border rounded-md"
+                  value={formData.minutesEmailTemplateId ?? ''}
+                  onChange={(e) =>
+                    setFormData({ ...formData, minutesEmailTemplateId: e.target.value ? parseInt(e.target.value) : null })
+                  }
+                >
+                  <option value="">Default minutes email</option>
+                  {emailTemplates.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {template.title}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-sm text-gray-600">
+                  Available variables: {'{{meetingTitle}}'}, {'{{teamName}}'}, {'{{meetingDate}}'}, {'{{minutesHtml}}'} and {'{{knowledgeBaseLink}}'}. Emails are sent through the Outlook integration.
+                </p>
+              </div>
+
               {/* Save Button */}
               <div className="flex justify-end gap-2 pt-4">
                 <Button
@@ -584,6 +774,30 @@ export default function StrategySettings() {
           
           <ScrollArea className="h-[calc(100vh-120px)] mt-6">
             <div className="space-y-4 pr-4">
+              {scheduleHistory.length > 0 && (
+                <div className="border rounded-lg p-4 space-y-2">
+                  <div className="flex items-center gap-2 font-medium">
+                    <Calendar className="h-4 w-4 text-gray-500" />
+                    Scheduled Runs
+                  </div>
+                  {scheduleHistory.slice(0, 20).map((entry) => (
+                    <div key={entry.id} className="flex justify-between items-center text-sm" title={entry.errorMessage || undefined}>
+                      <span>
+                        {format(new Date(entry.scheduledFor), 'MMM d, h:mm a')}
+                        {entry.isCatchUp && entry.status !== 'skipped' && ' (catch-up)'}
+                        {entry.status === 'skipped' && ` (${entry.details?.missedCount ?? 1} missed)`}
+                      </span>
+                      <Badge
+                        variant={entry.status === 'failed' ? 'destructive' : entry.status === 'completed' ? 'default' : 'secondary'}
+                        className="text-xs"
+                      >
+                        {entry.status}
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {activityLoading ? (
                 <div className="text-center py-8 text-gray-500">Loading activity...</div>
               ) : activityLogs.length === 0 ? (
@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import { useLocation } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { format, startOfMonth } from 'date-fns';
+import { ArrowLeft, Clock, Download } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { downloadTimeReportCsv, fetchTimeReport, type TimeReportFilters } from '@/lib/workItems.api';
+import { TIME_REPORT_GROUPS, formatMinutes, type TimeReportGroup } from '@shared/timeTracking';
+
+/** Logged time across work items, grouped and exportable for billing and capacity planning */
+export default function TimeReport() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [filters, setFilters] = useState<TimeReportFilters>({
+    groupBy: 'user',
+    from: format(startOfMonth(new Date()), 'yyyy-MM-dd'),
+    to: format(new Date(), 'yyyy-MM-dd'),
+  });
+
+  const { data: report, isLoading } = useQuery({
+    queryKey: ['/api/work-items/time/report', filters],
+    queryFn: () => fetchTimeReport(filters),
+  });
+
+  const download = async (entries: boolean) => {
+    try {
+      await downloadTimeReportCsv(filters, entries);
+    } catch (error: any) {
+      toast({ title: 'Export failed', description: error.message, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-6 space-y-6" data-testid="time-report">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" onClick={() => setLocation('/strategy/work-items')} data-testid="button-back-to-work-items">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h1 className="text-2xl font-semibold flex items-center gap-2">
+              <Clock className="h-5 w-5" />
+              Time report
+            </h1>
+            <p className="text-sm text-muted-foreground">Time logged against work items, from timers, manual entries and the field app</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => download(false)} data-testid="button-export-report">
+            <Download className="h-4 w-4 mr-2" />
+            Summary CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => download(true)} data-testid="button-export-entries">
+            <Download className="h-4 w-4 mr-2" />
+            Entries CSV
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <Label className="text-xs">Group by</Label>
+          <Select
+            value={filters.groupBy}
+            onValueChange={(groupBy) => setFilters({ ...filters, groupBy: groupBy as TimeReportGroup })}
+          >
+            <SelectTrigger className="h-8 w-44" data-testid="select-time-group">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(TIME_REPORT_GROUPS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="text-xs">From</Label>
+          <Input
+            type="date"
+            value={filters.from ?? ''}
+            onChange={(e) => setFilters({ ...filters, from: e.target.value || undefined })}
+            className="h-8 w-40"
+            data-testid="input-time-from"
+          />
+        </div>
+        <div>
+          <Label className="text-xs">To</Label>
+          <Input
+            type="date"
+            value={filters.to ?? ''}
+            onChange={(e) => setFilters({ ...filters, to: e.target.value || undefined })}
+            className="h-8 w-40"
+            data-testid="input-time-to"
+          />
+        </div>
+        {report && (
+          <p className="text-sm text-muted-foreground ml-auto" data-testid="text-report-total">
+            Total {formatMinutes(report.totalMinutes)}
+          </p>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">By {TIME_REPORT_GROUPS[filters.groupBy].toLowerCase()}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading…</p>
+          ) : !report?.rows.length ? (
+            <p className="text-sm text-muted-foreground">No time logged in this period</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{TIME_REPORT_GROUPS[filters.groupBy]}</TableHead>
+                  <TableHead className="text-right">Time</TableHead>
+                  <TableHead className="text-right">Share</TableHead>
+                  <TableHead className="text-right">Entries</TableHead>
+                  <TableHead className="text-right">Work items</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.rows.map(row => (
+                  <TableRow key={row.key} data-testid={`time-row-${row.key}`}>
+                    <TableCell>{row.label}</TableCell>
+                    <TableCell className="text-right">{formatMinutes(row.minutes)}</TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {report.totalMinutes ? Math.round((row.minutes / report.totalMinutes) * 100) : 0}%
+                    </TableCell>
+                    <TableCell className="text-right">{row.entryCount}</TableCell>
+                    <TableCell className="text-right">{row.workItemCount}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Workflow steps</CardTitle>
+          <CardDescription>Time from the previous step, or the workflow start, to each step's completion</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!report?.steps.length ? (
+            <p className="text-sm text-muted-foreground">No workflow steps completed in this period</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Work item type</TableHead>
+                  <TableHead>Step</TableHead>
+                  <TableHead className="text-right">Completions</TableHead>
+                  <TableHead className="text-right">Average</TableHead>
+                  <TableHead className="text-right">Median</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.steps.map(step => (
+                  <TableRow key={`${step.workItemType}-${step.stepIndex}`}>
+                    <TableCell>{step.workItemType}</TableCell>
+                    <TableCell>{step.stepTitle}</TableCell>
+                    <TableCell className="text-right">{step.completions}</TableCell>
+                    <TableCell className="text-right">{formatMinutes(step.averageMinutes)}</TableCell>
+                    <TableCell className="text-right">{formatMinutes(step.medianMinutes)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 import { useState, useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { format } from 'date-fns';
-import { Plus, Filter, MoreVertical, ChevronDown, FileText, Calendar, User, Users, Settings2, WifiOff, ChevronLeft, ChevronRight, ArrowUp, ArrowDown } from 'lucide-react';
+import { Plus, Filter, MoreVertical, ChevronDown, FileText, Calendar, User, Users, Settings2, WifiOff, ChevronLeft, ChevronRight, ArrowUp, ArrowDown, Route, Ban, AlertTriangle, SlidersHorizontal, Clock } from 'lucide-react';
+import { Link } from 'wouter';
 import { useAuth } from '@/contexts/AuthContext';
 import { WorkflowProgressBadge } from '@/components/work-items/WorkflowProgressBadge';
 import { ManualGenerateDialog } from '@/components/work-items/ManualGenerateDialog';
@@ -51,18 +52,26 @@ import {
 } from '@/components/ui/alert-dialog';
 import { DocumentIndicator } from '@/components/KnowledgeBase/DocumentIndicator';
 import WorkItemPanel from '@/components/work-items/WorkItemPanel';
+import { useWorkItemFieldDefinitions } from '@/components/work-items/WorkItemCustomFields';
+import { WorkItemFieldsDialog } from '@/components/work-items/WorkItemFieldsDialog';
+import { WorkItemQueryBuilder } from '@/components/work-items/WorkItemQueryBuilder';
+import { WorkItemSavedViews, useWorkItemViews } from '@/components/work-items/WorkItemSavedViews';
+import { formatCustomFieldValue, type WorkItemCustomFieldDefinition } from '@shared/workItemCustomFields';
+import { CUSTOM_FIELD_SORT_PREFIX, countQueryRules, emptyWorkItemQuery, withoutIncompleteRules } from '@shared/workItemQuery';
 import { KeyResultDetailPanel } from '@/components/key-result-detail/KeyResultDetailPanel';
 import {
   WorkItem,
   WorkItemFilters,
   CheckInCycle,
   User as UserType,
-  fetchWorkItems,
+  type WorkItemView,
+  fetchWorkItemPage,
   bulkUpdateWorkItems,
   updateWorkItem,
   deleteWorkItem,
   fetchCheckInCycles,
   fetchActiveUsers,
+  fetchDependencyGraph,
 } from '@/lib/workItems.api';
 
 // T2: Org timezone formatter - single source of truth for display
@@ -105,8 +114,56 @@ interface WorkItemsProps {
   [key: string]: any; // Allow wouter route props
 }
 
+// One custom field in the Fields filter menu: options for select and user fields, an exact-match input otherwise
+function CustomFieldFilter({ definition, value, users, onChange }: {
+  definition: WorkItemCustomFieldDefinition;
+  value?: string;
+  users: UserType[];
+  onChange: (value: string | undefined) => void;
+}) {
+  const [draft, setDraft] = useState(value || '');
+  useEffect(() => setDraft(value || ''), [value]);
+
+  if (definition.fieldType === 'select' || definition.fieldType === 'user') {
+    const options = definition.fieldType === 'select'
+      ? definition.options || []
+      : users.map(user => ({ value: user.id.toString(), label: user.fullName }));
+    return (
+      <>
+        <DropdownMenuLabel className="text-xs">{definition.displayLabel}</DropdownMenuLabel>
+        <DropdownMenuRadioGroup value={value || ''} onValueChange={selected => onChange(selected || undefined)}>
+          <DropdownMenuRadioItem value="">Any</DropdownMenuRadioItem>
+          {options.map(option => (
+            <DropdownMenuRadioItem key={option.value} value={option.value}>{option.label}</DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </>
+    );
+  }
+
+  return (
+    <div className="px-2 py-1.5 space-y-1">
+      <Label className="text-xs">{definition.displayLabel}</Label>
+      <Input
+        type={definition.fieldType === 'number' ? 'number' : definition.fieldType === 'date' ? 'date' : 'text'}
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        onKeyDown={e => {
+          // Keep the menu's typeahead from swallowing keystrokes
+          e.stopPropagation();
+          if (e.key === 'Enter') onChange(draft || undefined);
+        }}
+        onBlur={() => draft !== (value || '') && onChange(draft || undefined)}
+        className="h-7 text-xs"
+        data-testid={`input-filter-${definition.fieldName}`}
+      />
+    </div>
+  );
+}
+
 const STORAGE_KEY_FILTERS = 'workItems:filters';
 const STORAGE_KEY_PAGE_SIZE = 'workItems:pageSize';
+const MAX_PAGE_SIZE = 200;
 
 export default function WorkItems(props: WorkItemsProps = {}) {
   const { offlineAppMode = false } = props;
@@ -154,7 +211,8 @@ export default function WorkItems(props: WorkItemsProps = {}) {
   const [currentPage, setCurrentPage] = useState(1);
   const [pageSize, setPageSize] = useState(() => {
     const saved = localStorage.getItem(STORAGE_KEY_PAGE_SIZE);
-    return saved ? parseInt(saved) : 100; // Increased default from 25 to 100
+    // The API returns at most MAX_PAGE_SIZE items a page (older versions offered "Show All")
+    return saved ? Math.min(parseInt(saved) || 100, MAX_PAGE_SIZE) : 100; // Increased default from 25 to 100
   });
   
   // Filters state - load from localStorage with currentUser as default assignee
@@ -182,9 +240,19 @@ export default function WorkItems(props: WorkItemsProps = {}) {
       inCycle: params.get('inCycle') ? params.get('inCycle') === 'true' : parsedSaved.inCycle,
       teamId: params.get('teamId') ? parseInt(params.get('teamId')!) : parsedSaved.teamId,
       workflowTemplateId: params.get('workflowTemplateId') || parsedSaved.workflowTemplateId || undefined,
+      customFields: parsedSaved.customFields || undefined,
+      query: parsedSaved.query || undefined,
     };
   });
   
+  // Saved view chosen from the views menu or opened from a pinned menu link (?view=)
+  const [activeViewId, setActiveViewId] = useState<number | null>(() => {
+    const viewParam = new URLSearchParams(window.location.search).get('view');
+    return viewParam ? parseInt(viewParam) : null;
+  });
+  const [appliedViewId, setAppliedViewId] = useState<number | null>(null);
+  const [queryBuilderOpen, setQueryBuilderOpen] = useState(false);
+  
   const [selectedItems, setSelectedItems] = useState<Set<number>>(new Set());
   const [filtersExpanded, setFiltersExpanded] = useState(false);
   const [editingField, setEditingField] = useState<{ itemId: number; field: 'status' | 'dueDate' | 'team' } | null>(null);
@@ -201,6 +269,10 @@ export default function WorkItems(props: WorkItemsProps = {}) {
     updated: false,
   });
   
+  // Custom field columns, keyed by field name
+  const [visibleCustomFields, setVisibleCustomFields] = useState<string[]>([]);
+  const [fieldsDialogOpen, setFieldsDialogOpen] = useState(false);
+  
   // Sorting state - default to due date ascending
   const [sortConfig, setSortConfig] = useState<{ column: string; direction: 'asc' | 'desc' }>({
     column: 'dueDate',
@@ -223,12 +295,20 @@ export default function WorkItems(props: WorkItemsProps = {}) {
   const [bulkDueDatePickerOpen, setBulkDueDatePickerOpen] = useState(false);
   const [bulkDueDateValue, setBulkDueDateValue] = useState('');
   
-  // Fetch work items (only when online)
-  const { data: onlineWorkItems = [], isLoading, error } = useQuery<WorkItem[]>({
-    queryKey: ['/api/work-items', filters, pageSize],
-    queryFn: () => fetchWorkItems({ ...filters, pageSize, page: 1 }),
-    enabled: isOnline,
+  // Fetch the current page of work items (only when online), sorted by the server.
+  // A view linked from the URL is applied before the first fetch.
+  const { data: workItemPage, isLoading, error } = useQuery({
+    queryKey: ['/api/work-items', filters, pageSize, currentPage, sortConfig],
+    queryFn: () => fetchWorkItemPage({
+      ...filters,
+      sortBy: sortConfig.column,
+      sortDirection: sortConfig.direction,
+      pageSize,
+      page: currentPage,
+    }),
+    enabled: isOnline && appliedViewId === activeViewId,
   });
+  const onlineWorkItems = workItemPage?.items ?? [];
   
   if (error) {
     console.error('Error fetching work items:', error);
@@ -237,6 +317,23 @@ export default function WorkItems(props: WorkItemsProps = {}) {
   // Always use online data now since offline functionality moved to field app
   const workItems = onlineWorkItems;
   
+  // Custom field definitions for columns, sorting and filters
+  const { data: fieldDefinitions = [] } = useWorkItemFieldDefinitions();
+  const customFieldColumns = fieldDefinitions.filter(definition => visibleCustomFields.includes(definition.fieldName));
+  const filterableFields = fieldDefinitions.filter(definition => definition.fieldType !== 'address');
+  
+  // Dependency graph for blocked indicators and the critical path
+  const [showCriticalPath, setShowCriticalPath] = useState(false);
+  const { data: dependencyGraph } = useQuery({
+    queryKey: ['/api/work-items/dependencies'],
+    queryFn: fetchDependencyGraph,
+    enabled: isOnline,
+  });
+  const criticalPathItems = (dependencyGraph?.criticalPath || [])
+    .map(id => dependencyGraph?.items.find(item => item.id === id))
+    .filter((item): item is NonNullable<typeof item> => !!item);
+  const conflictedIds = new Set((dependencyGraph?.dueDateConflicts || []).map(conflict => conflict.blockedWorkItemId));
+  
   // Fetch cycles for bulk actions
   const { data: cycles = [] } = useQuery<CheckInCycle[]>({
     queryKey: ['/api/work-items/check-in-cycles'],
@@ -282,6 +379,7 @@ export default function WorkItems(props: WorkItemsProps = {}) {
     mutationFn: bulkUpdateWorkItems,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/work-items'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/work-items/dependencies'] });
       setSelectedItems(new Set());
       toast({
         title: 'Success',
@@ -302,6 +400,7 @@ export default function WorkItems(props: WorkItemsProps = {}) {
     mutationFn: ({ id, data }: { id: number; data: any }) => updateWorkItem(id, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/work-items'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/work-items/dependencies'] });
       setEditingField(null);
       toast({
         title: 'Success',
@@ -323,6 +422,7 @@ export default function WorkItems(props: WorkItemsProps = {}) {
     mutationFn: deleteWorkItem,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/work-items'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/work-items/dependencies'] });
       toast({
         title: 'Success',
         description: 'Work item deleted successfully',
@@ -358,6 +458,7 @@ export default function WorkItems(props: WorkItemsProps = {}) {
     onSuccess: (data) => {
       // Always invalidate queries to refresh the list
       queryClient.invalidateQueries({ queryKey: ['/api/work-items'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/work-items/dependencies'] });
       setSelectedItems(new Set());
       setBulkDeleteConfirmation(false);
       
@@ -377,6 +478,7 @@ export default function WorkItems(props: WorkItemsProps = {}) {
     onError: (error: any) => {
       // Always invalidate queries and clear selection even on error
       queryClient.invalidateQueries({ queryKey: ['/api/work-items'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/work-items/dependencies'] });
       setSelectedItems(new Set());
       setBulkDeleteConfirmation(false);
       toast({
@@ -400,6 +502,7 @@ export default function WorkItems(props: WorkItemsProps = {}) {
     params.delete('inCycle');
     params.delete('teamId');
     params.delete('workflowTemplateId');
+    params.delete('view');
     
     // Set only the active filters
     if (filters.status && filters.status.length > 0) {
@@ -426,6 +529,9 @@ export default function WorkItems(props: WorkItemsProps = {}) {
     if (filters.workflowTemplateId) {
       params.set('workflowTemplateId', filters.workflowTemplateId);
     }
+    if (activeViewId) {
+      params.set('view', activeViewId.toString());
+    }
     
     // Preserve panel state
     if (panelMode) {
@@ -441,7 +547,7 @@ export default function WorkItems(props: WorkItemsProps = {}) {
     if (window.location.pathname + window.location.search !== newUrl) {
       window.history.replaceState({}, '', newUrl);
     }
-  }, [filters, panelMode, selectedId]);
+  }, [filters, panelMode, selectedId, activeViewId]);
   
   const updateFilters = (updates: Partial<WorkItemFilters>) => {
     const newFilters = { ...filters, ...updates };
@@ -453,9 +559,9 @@ export default function WorkItems(props: WorkItemsProps = {}) {
     localStorage.setItem(STORAGE_KEY_FILTERS, JSON.stringify(filtersToSave));
   };
   
-  // Set default assigneeId to currentUser when user becomes available
+  // Set default assigneeId to currentUser when user becomes available (views bring their own filters)
   useEffect(() => {
-    if (currentUser && !filters.assigneeId) {
+    if (currentUser && !filters.assigneeId && activeViewId === null) {
       setFilters(prev => ({
         ...prev,
         assigneeId: currentUser.id
@@ -463,68 +569,78 @@ export default function WorkItems(props: WorkItemsProps = {}) {
     }
   }, [currentUser]);
   
+  // Apply a saved view: its query replaces the quick filters so everyone sees the same list
+  const applyView = (view: WorkItemView | null) => {
+    setActiveViewId(view?.id ?? null);
+    setAppliedViewId(view?.id ?? null);
+    if (!view) {
+      updateFilters({ query: undefined });
+      return;
+    }
+    updateFilters({
+      status: [],
+      origin: 'All',
+      assigneeId: undefined,
+      dueFrom: undefined,
+      dueTo: undefined,
+      inCycle: undefined,
+      teamId: undefined,
+      workflowTemplateId: undefined,
+      customFields: undefined,
+      query: view.query,
+    });
+    setSortConfig({ column: view.sortBy, direction: view.sortDirection });
+    if (view.columns) {
+      const columns = view.columns;
+      setVisibleColumns(prev => Object.fromEntries(
+        Object.keys(prev).map(key => [key, columns.includes(key)])
+      ) as typeof prev);
+      setVisibleCustomFields(columns
+        .filter(column => column.startsWith(CUSTOM_FIELD_SORT_PREFIX))
+        .map(column => column.slice(CUSTOM_FIELD_SORT_PREFIX.length)));
+    }
+  };
+  
+  const { data: savedViews, isFetched: savedViewsLoaded } = useWorkItemViews();
+  useEffect(() => {
+    if (activeViewId === null || appliedViewId === activeViewId || !savedViewsLoaded) return;
+    const view = savedViews?.find(v => v.id === activeViewId);
+    if (!view) {
+      toast({ title: 'View not available', description: 'It may have been deleted or is no longer shared with you', variant: 'destructive' });
+    }
+    applyView(view ?? null);
+  }, [activeViewId, appliedViewId, savedViews, savedViewsLoaded]);
+  
+  // What "Save view" and "Update view" store
+  const advancedQuery = filters.query ?? emptyWorkItemQuery();
+  const advancedRuleCount = countQueryRules(withoutIncompleteRules(advancedQuery));
+  const currentViewSettings = {
+    query: withoutIncompleteRules(advancedQuery),
+    sortBy: sortConfig.column,
+    sortDirection: sortConfig.direction,
+    columns: [
+      ...Object.entries(visibleColumns).filter(([, visible]) => visible).map(([key]) => key),
+      ...visibleCustomFields.map(fieldName => `${CUSTOM_FIELD_SORT_PREFIX}${fieldName}`),
+    ],
+  };
+  const workItemTypeOptions = workflowTemplates.map((template: any) => ({ value: template.id, label: template.name }));
+  
   // Save page size to localStorage when it changes
   useEffect(() => {
     localStorage.setItem(STORAGE_KEY_PAGE_SIZE, pageSize.toString());
   }, [pageSize]);
   
-  // Sort work items
-  const sortedWorkItems = [...workItems].sort((a, b) => {
-    const { column, direction } = sortConfig;
-    const multiplier = direction === 'asc' ? 1 : -1;
-    
-    switch (column) {
-      case 'title':
-        return multiplier * a.title.localeCompare(b.title);
-      
-      case 'status': {
-        const statusOrder = STATUS_OPTIONS.map(s => s.value);
-        const aIndex = statusOrder.indexOf(a.status);
-        const bIndex = statusOrder.indexOf(b.status);
-        return multiplier * (aIndex - bIndex);
-      }
-      
-      case 'dueDate': {
-        if (!a.dueDate && !b.dueDate) return 0;
-        if (!a.dueDate) return 1; // Items without due date go to end
-        if (!b.dueDate) return -1;
-        return multiplier * (new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime());
-      }
-      
-      case 'assignee': {
-        const aName = a.assignee?.fullName || a.assignee?.email || '';
-        const bName = b.assignee?.fullName || b.assignee?.email || '';
-        return multiplier * aName.localeCompare(bName);
-      }
-      
-      case 'team': {
-        const aTeam = a.team?.name || '';
-        const bTeam = b.team?.name || '';
-        return multiplier * aTeam.localeCompare(bTeam);
-      }
-      
-      case 'checkin': {
-        if (!a.targetMeeting?.scheduledDate && !b.targetMeeting?.scheduledDate) return 0;
-        if (!a.targetMeeting?.scheduledDate) return 1;
-        if (!b.targetMeeting?.scheduledDate) return -1;
-        return multiplier * (new Date(a.targetMeeting.scheduledDate).getTime() - new Date(b.targetMeeting.scheduledDate).getTime());
-      }
-      
-      case 'updated':
-        return multiplier * (new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime());
-      
-      default:
-        return 0;
-    }
-  });
+  const displayCustomFieldValue = (definition: WorkItemCustomFieldDefinition, item: WorkItem) =>
+    formatCustomFieldValue(definition, item.customFields?.[definition.fieldName], (fieldType, id) =>
+      fieldType === 'user' ? users.find(user => user.id === id)?.fullName : undefined
+    );
   
-  // Pagination calculations
-  const totalItems = sortedWorkItems.length;
-  const showAll = pageSize === 99999; // Special value for "All"
-  const totalPages = showAll ? 1 : Math.ceil(totalItems / pageSize);
-  const startIndex = showAll ? 0 : (currentPage - 1) * pageSize;
-  const endIndex = showAll ? totalItems : Math.min(startIndex + pageSize, totalItems);
-  const paginatedWorkItems = sortedWorkItems.slice(startIndex, endIndex);
+  // Pagination calculations - the server returns one sorted page and the total
+  const totalItems = workItemPage?.total ?? 0;
+  const totalPages = Math.ceil(totalItems / pageSize);
+  const startIndex = (currentPage - 1) * pageSize;
+  const endIndex = Math.min(startIndex + workItems.length, totalItems);
+  const paginatedWorkItems = workItems;
   
   // Reset to page 1 if current page exceeds total pages
   useEffect(() => {
@@ -657,6 +773,7 @@ export default function WorkItems(props: WorkItemsProps = {}) {
   };
   
   const handleSort = (column: string) => {
+    setCurrentPage(1);
     setSortConfig(prev => {
       if (prev.column === column) {
         return prev.direction === 'asc' 
@@ -694,6 +811,7 @@ export default function WorkItems(props: WorkItemsProps = {}) {
       
       Promise.all(updates).then(() => {
         queryClient.invalidateQueries({ queryKey: ['/api/work-items'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/work-items/dependencies'] });
         setSelectedItems(new Set());
         toast({
           title: 'Success',
@@ -949,6 +1067,13 @@ export default function WorkItems(props: WorkItemsProps = {}) {
 
               {/* Desktop Filters - Hidden on mobile */}
               <div className="hidden sm:flex items-center gap-2">
+                {/* Saved Views */}
+                <WorkItemSavedViews
+                  activeViewId={activeViewId}
+                  onSelect={applyView}
+                  current={currentViewSettings}
+                />
+
                 {/* Status Filter Dropdown */}
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
@@ -1122,6 +1247,78 @@ export default function WorkItems(props: WorkItemsProps = {}) {
                   </DropdownMenuContent>
                 </DropdownMenu>
 
+                {/* Custom Field Filters */}
+                {filterableFields.length > 0 && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" className="h-6 px-2 py-0 text-[11px] font-normal hover:bg-muted flex items-center gap-1" data-testid="button-filter-custom-fields">
+                        <Filter className="h-3 w-3" />
+                        <span>Fields</span>
+                        {Object.keys(filters.customFields || {}).length > 0 && (
+                          <Badge variant="secondary" className="h-3 px-1 text-[10px]">
+                            {Object.keys(filters.customFields || {}).length}
+                          </Badge>
+                        )}
+                        <ChevronDown className="h-3 w-3" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent className="w-64">
+                      {filterableFields.map(definition => (
+                        <CustomFieldFilter
+                          key={definition.id}
+                          definition={definition}
+                          value={filters.customFields?.[definition.fieldName]}
+                          users={users}
+                          onChange={value => {
+                            const { [definition.fieldName]: _removed, ...rest } = filters.customFields || {};
+                            const customFields = value ? { ...rest, [definition.fieldName]: value } : rest;
+                            updateFilters({ customFields: Object.keys(customFields).length > 0 ? customFields : undefined });
+                          }}
+                        />
+                      ))}
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem onClick={() => updateFilters({ customFields: undefined })}>
+                        Clear field filters
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+
+                {/* Critical Path Toggle */}
+                <Button
+                  variant={showCriticalPath ? 'secondary' : 'ghost'}
+                  className="h-6 px-2 py-0 text-[11px] font-normal hover:bg-muted flex items-center gap-1"
+                  onClick={() => setShowCriticalPath(!showCriticalPath)}
+                  data-testid="button-toggle-critical-path"
+                >
+                  <Route className="h-3 w-3" />
+                  <span>Critical path</span>
+                </Button>
+
+                {/* Time Report */}
+                <Button
+                  variant="ghost"
+                  className="h-6 px-2 py-0 text-[11px] font-normal hover:bg-muted flex items-center gap-1"
+                  asChild
+                  data-testid="link-time-report"
+                >
+                  <Link href="/strategy/work-items/time">
+                    <Clock className="h-3 w-3" />
+                    <span>Time report</span>
+                  </Link>
+                </Button>
+
+                {/* Advanced Query Builder Toggle */}
+                <Button
+                  variant={queryBuilderOpen || advancedRuleCount > 0 ? 'secondary' : 'ghost'}
+                  className="h-6 px-2 py-0 text-[11px] font-normal hover:bg-muted flex items-center gap-1"
+                  onClick={() => setQueryBuilderOpen(!queryBuilderOpen)}
+                  data-testid="button-toggle-query-builder"
+                >
+                  <SlidersHorizontal className="h-3 w-3" />
+                  <span>Advanced {advancedRuleCount > 0 ? `(${advancedRuleCount})` : ''}</span>
+                </Button>
+
                 {/* Column Selector */}
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
@@ -1145,6 +1342,29 @@ export default function WorkItems(props: WorkItemsProps = {}) {
                         {key.charAt(0).toUpperCase() + key.slice(1)}
                       </DropdownMenuCheckboxItem>
                     ))}
+                    {fieldDefinitions.length > 0 && (
+                      <>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuLabel>Custom Fields</DropdownMenuLabel>
+                        {fieldDefinitions.map(definition => (
+                          <DropdownMenuCheckboxItem
+                            key={definition.id}
+                            checked={visibleCustomFields.includes(definition.fieldName)}
+                            onCheckedChange={checked => {
+                              setVisibleCustomFields(checked
+                                ? [...visibleCustomFields, definition.fieldName]
+                                : visibleCustomFields.filter(name => name !== definition.fieldName));
+                            }}
+                          >
+                            {definition.displayLabel}
+                          </DropdownMenuCheckboxItem>
+                        ))}
+                      </>
+                    )}
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={() => setFieldsDialogOpen(true)} data-testid="menu-item-manage-fields">
+                      Manage custom fields…
+                    </DropdownMenuItem>
                   </DropdownMenuContent>
                 </DropdownMenu>
               </div>
@@ -1175,6 +1395,71 @@ export default function WorkItems(props: WorkItemsProps = {}) {
         </div>
       </div>
       
+      {/* Advanced Query Builder */}
+      {queryBuilderOpen && (
+        <div className="flex justify-center">
+          <div className="w-full max-w-7xl px-3 pb-2">
+            <Card data-testid="card-query-builder">
+              <CardContent className="p-3 space-y-2">
+                <WorkItemQueryBuilder
+                  value={advancedQuery}
+                  onChange={(query) => updateFilters({ query })}
+                  workItemTypes={workItemTypeOptions}
+                />
+                {advancedQuery.rules.length > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => updateFilters({ query: undefined })}
+                    data-testid="button-clear-query"
+                  >
+                    Clear conditions
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      )}
+
+      {/* Critical Path */}
+      {showCriticalPath && (
+        <div className="flex justify-center">
+          <div className="w-full max-w-7xl px-3 pb-2">
+            <Card data-testid="card-critical-path">
+              <CardContent className="p-3">
+                {criticalPathItems.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">No open dependency chains. Link blockers from a work item's details to build one.</p>
+                ) : (
+                  <div className="flex flex-wrap items-center gap-1">
+                    <span className="text-xs font-medium mr-2">Critical path ({criticalPathItems.length} items)</span>
+                    {criticalPathItems.map((item, index) => (
+                      <div key={item.id} className="flex items-center gap-1">
+                        {index > 0 && <ChevronRight className="h-3 w-3 text-muted-foreground" />}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className={`h-6 px-2 text-[11px] ${conflictedIds.has(item.id) ? 'border-amber-400 text-amber-700 dark:text-amber-300' : ''}`}
+                          onClick={() => openPanel('view', item.id)}
+                          data-testid={`critical-path-item-${item.id}`}
+                        >
+                          {conflictedIds.has(item.id) && <AlertTriangle className="h-3 w-3 mr-1" />}
+                          {item.title}
+                          {item.dueDate && (
+                            <span className="ml-1 text-muted-foreground">{format(new Date(item.dueDate), 'MMM d')}</span>
+                          )}
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      )}
+
       {/* Bulk Actions Toolbar */}
       {selectedItems.size > 0 && (
         <Card>
@@ -1404,6 +1689,11 @@ export default function WorkItems(props: WorkItemsProps = {}) {
                 {visibleColumns.progress && <TableHead className="text-[11px] text-muted-foreground font-normal py-1 px-1 w-[140px] border-r border-border">Progress</TableHead>}
                 {visibleColumns.files && <TableHead className="text-[11px] text-muted-foreground font-normal py-1 px-1 w-[80px] text-center border-r border-border">Files</TableHead>}
                 {visibleColumns.updated && <SortableHeader column="updated" className="w-[100px]">Updated</SortableHeader>}
+                {customFieldColumns.map(definition => (
+                  <SortableHeader key={definition.id} column={`cf:${definition.fieldName}`} className="w-[110px]">
+                    {definition.displayLabel}
+                  </SortableHeader>
+                ))}
                 <TableHead className="w-6 py-1 px-1"></TableHead>
               </TableRow>
             </TableHeader>
@@ -1427,6 +1717,25 @@ export default function WorkItems(props: WorkItemsProps = {}) {
                       <span className="text-sm font-medium leading-tight truncate flex-1 text-foreground">
                         {item.title}
                       </span>
+                      {dependencyGraph?.openBlockerCounts[item.id] ? (
+                        <Badge
+                          variant="outline"
+                          className="h-4 px-1 text-[10px] border-red-200 text-red-600 dark:border-red-800 dark:text-red-400 flex items-center gap-0.5"
+                          title={`Blocked by ${dependencyGraph.openBlockerCounts[item.id]} open work item${dependencyGraph.openBlockerCounts[item.id] === 1 ? '' : 's'}`}
+                          data-testid={`badge-blocked-${item.id}`}
+                        >
+                          <Ban className="h-2.5 w-2.5" />
+                          {dependencyGraph.openBlockerCounts[item.id]}
+                        </Badge>
+                      ) : null}
+                      {conflictedIds.has(item.id) && (
+                        <span title="Due before one of its blockers">
+                          <AlertTriangle className="h-3 w-3 text-amber-500" />
+                        </span>
+                      )}
+                      {showCriticalPath && dependencyGraph?.criticalPath.includes(item.id) && (
+                        <Route className="h-3 w-3 text-purple-600" />
+                      )}
                       <DocumentIndicator 
                         entityType="workItem" 
                         entityId={item.id} 
@@ -1607,6 +1916,11 @@ export default function WorkItems(props: WorkItemsProps = {}) {
                     </span>
                   </TableCell>
                   )}
+                  {customFieldColumns.map(definition => (
+                    <TableCell key={definition.id} className="py-0.5 px-2 border-r border-border" data-testid={`cell-custom-${definition.fieldName}-${item.id}`}>
+                      <span className="text-[11px] truncate">{displayCustomFieldValue(definition, item)}</span>
+                    </TableCell>
+                  ))}
                   <TableCell className="py-0.5 px-1">
                     <DropdownMenu>
                       <DropdownMenuTrigger asChild>
@@ -1758,7 +2072,6 @@ export default function WorkItems(props: WorkItemsProps = {}) {
                     <SelectItem value="50">50 per page</SelectItem>
                     <SelectItem value="100">100 per page</SelectItem>
                     <SelectItem value="200">200 per page</SelectItem>
-                    <SelectItem value="99999">Show All</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -1874,6 +2187,13 @@ export default function WorkItems(props: WorkItemsProps = {}) {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+      {/* Custom Fields Dialog */}
+      <WorkItemFieldsDialog
+        open={fieldsDialogOpen}
+        onOpenChange={setFieldsDialogOpen}
+        workItemTypes={workItemTypeOptions}
+      />
+
       {/* Manual Generate Dialog */}
       <ManualGenerateDialog 
         open={generateDialogOpen}
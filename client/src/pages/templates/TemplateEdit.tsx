@@ -415,6 +415,12 @@ export default function TemplateEdit() {
                 <WorkflowTemplateStepBuilder
                   steps={steps}
                   onChange={setSteps}
+                  versionsUrl={id && id !== 'new' ? `/api/workflows/templates/${id}/versions` : undefined}
+                  hasUnsavedChanges={!!template && JSON.stringify(steps) !== JSON.stringify(normalizeLegacyStepTypes(template.steps || []))}
+                  onVersionRestored={async () => {
+                    await queryClient.refetchQueries({ queryKey: ['/api/workflows/templates'] });
+                    await queryClient.refetchQueries({ queryKey: [`/api/workflows/templates/${id}`] });
+                  }}
                 />
               </CardContent>
             </Card>
@@ -2,6 +2,7 @@
  * Service Worker for Field App
  * Caches app shell and static assets only
  * Does NOT cache API responses - all data comes from IndexedDB
+ * Replays the IndexedDB sync queue in the background when a connection is available
  */
 
 const CACHE_NAME = 'field-app-v1';
@@ -127,6 +128,14 @@ self.addEventListener('message', (event) => {
     self.skipWaiting();
   }
   
+  if (event.data && event.data.type === 'REPLAY_SYNC_QUEUE') {
+    event.waitUntil(
+      replaySyncQueue(event.data.vault).catch(err => {
+        console.warn('[ServiceWorker] Sync replay incomplete:', err.message);
+      })
+    );
+  }
+  
   if (event.data && event.data.type === 'CLEAR_CACHE') {
     caches.keys().then(cacheNames => {
       cacheNames.forEach(cacheName => {
@@ -135,4 +144,375 @@ self.addEventListener('message', (event) => {
     });
     event.ports[0].postMessage({ cleared: true });
   }
-});
\ No newline at end of file
+});
+
+// Background Sync - the browser wakes us when connectivity returns; rejecting makes it retry later.
+// Encrypted data can't be read from here, so an unlocked app is asked to start the replay instead.
+self.addEventListener('sync', (event) => {
+  if (event.tag === SYNC_TAG) {
+    event.waitUntil(replaySyncQueue(null));
+  }
+});
+
+/*
+ * Sync queue replay
+ * Mirrors the manual sync screen (pages/field-app/Sync.tsx) without the page:
+ * photos and audio go up in resumable chunks (lib/field-app/chunkedUpload.ts),
+ * everything else in one request to /api/field-app/sync. Fresh data is still
+ * downloaded from the sync screen.
+ *
+ * With a PIN set the records are encrypted (lib/field-app/vault.ts). The app
+ * hands over its unlocked data keys with each replay request; they are used for
+ * that replay only and never stored here.
+ */
+
+const DB_NAME = 'FieldAppDB';
+const SYNC_TAG = 'field-app-sync';
+const UPLOAD_CHUNK_SIZE = 512 * 1024;
+const SYNC_CLAIM_TIMEOUT_MS = 10 * 60 * 1000; // Same as db.ts
+const FILE_TYPES = ['photo', 'audio'];
+// Readable fields of records sealed here - same as SEALED_STORES in vault.ts
+const CLEAR_FIELDS = { syncConflicts: ['entityId'] };
+
+let replaying = null;
+
+function promisify(request) {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx) {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// Opens the app's database at its current version; never creates or upgrades it
+function openFieldDB() {
+  return new Promise((resolve) => {
+    const request = indexedDB.open(DB_NAME);
+    request.onupgradeneeded = () => request.transaction.abort();
+    request.onerror = () => resolve(null);
+    request.onsuccess = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains('syncQueue') || !db.objectStoreNames.contains('session')) {
+        db.close();
+        resolve(null);
+        return;
+      }
+      // Let the app upgrade the schema while we hold a connection
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+  });
+}
+
+function dateReplacer(key, value) {
+  return this[key] instanceof Date ? { __date: this[key].toISOString() } : value;
+}
+
+function dateReviver(_key, value) {
+  return value && typeof value === 'object' && typeof value.__date === 'string' && Object.keys(value).length === 1
+    ? new Date(value.__date)
+    : value;
+}
+
+// Same format as openRecord in vault.ts; unencrypted records come back as they are
+async function openRecord(record, vault) {
+  const envelope = record && record.__sealed;
+  if (!envelope) return record;
+
+  const key = vault && vault.keys[envelope.k];
+  if (!key) throw new Error('Field app data is locked');
+
+  const json = new TextDecoder().decode(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: envelope.iv }, key, envelope.data));
+  const { __sealed, ...clear } = record;
+  const value = { ...JSON.parse(json, dateReviver), ...clear };
+  if (envelope.bin) {
+    value.arrayBuffer = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: envelope.bin.iv }, key, envelope.bin.data);
+  }
+  return value;
+}
+
+// Same format as sealRecord in vault.ts
+async function sealRecord(store, value, vault) {
+  if (!vault) return value;
+
+  const stored = {};
+  const secret = {};
+  for (const [field, fieldValue] of Object.entries(value)) {
+    if (CLEAR_FIELDS[store].includes(field)) stored[field] = fieldValue;
+    else secret[field] = fieldValue;
+  }
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    vault.keys[vault.keyId],
+    new TextEncoder().encode(JSON.stringify(secret, dateReplacer))
+  );
+  stored.__sealed = { k: vault.keyId, iv, data };
+  return stored;
+}
+
+async function getRecord(db, store, key, vault) {
+  const record = await promisify(db.transaction(store).objectStore(store).get(key));
+  return openRecord(record, vault);
+}
+
+async function hasVault(db) {
+  if (!db.objectStoreNames.contains('vault')) return false;
+  return Boolean(await promisify(db.transaction('vault').objectStore('vault').get('current')));
+}
+
+// Remote wipe requested by an admin: confirm, then delete everything on the device
+async function wipeDevice(db, token) {
+  await fetch('/api/field-app/wipe-confirm', {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${token}` }
+  }).catch(() => undefined);
+  db.close();
+  // The app closes its connection when asked, so this isn't blocked
+  await promisify(indexedDB.deleteDatabase(DB_NAME));
+  const clients = await self.clients.matchAll({ includeUncontrolled: true });
+  clients.forEach(client => client.postMessage({ type: 'REMOTE_WIPE' }));
+}
+
+// Same rules as fieldDB.claimSyncQueue; only readable fields change, so sealed entries are opened afterwards
+async function claimQueue(db, vault) {
+  const tx = db.transaction('syncQueue', 'readwrite');
+  const store = tx.objectStore('syncQueue');
+  const now = new Date();
+  const items = await promisify(store.getAll());
+  const claimed = items.filter(item =>
+    item.syncStatus === 'pending' ||
+    (item.syncStatus === 'syncing' && (!item.lastAttemptAt || now - item.lastAttemptAt > SYNC_CLAIM_TIMEOUT_MS))
+  );
+  claimed.forEach(item => store.put({ ...item, syncStatus: 'syncing', lastAttemptAt: now }));
+  await transactionDone(tx);
+  return Promise.all(claimed.map(item => openRecord(item, vault)));
+}
+
+async function finishQueue(db, syncedIds, failedIds, error) {
+  const tx = db.transaction('syncQueue', 'readwrite');
+  const store = tx.objectStore('syncQueue');
+  syncedIds.forEach(id => store.delete(id));
+  for (const id of failedIds) {
+    const item = await promisify(store.get(id));
+    if (item) {
+      store.put({ ...item, syncStatus: 'pending', retryCount: item.retryCount + 1, lastError: error });
+    }
+  }
+  await transactionDone(tx);
+}
+
+async function blobToDataUrl(blob) {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode.apply(null, bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${blob.type};base64,${btoa(binary)}`;
+}
+
+function storedBlob(record) {
+  if (record.arrayBuffer) return new Blob([record.arrayBuffer], { type: record.mimeType });
+  return record.blob || null;
+}
+
+async function broadcast(status) {
+  const clients = await self.clients.matchAll({ includeUncontrolled: true });
+  clients.forEach(client => client.postMessage({ type: 'SYNC_STATUS', status: { ...status, at: new Date().toISOString() } }));
+}
+
+// Chunked upload with resume, as uploadInChunks in lib/field-app/chunkedUpload.ts
+async function uploadFile(db, token, item, vault) {
+  const isPhoto = item.type === 'photo';
+  const record = await getRecord(db, isPhoto ? 'photos' : 'audioRecordings', item.entityId, vault);
+  const blob = record && storedBlob(record);
+  if (!blob || blob.size === 0) return; // Deleted on the device, nothing left to send
+
+  const uploadId = `${record.id}-${blob.size}`;
+  const endpoint = isPhoto ? '/api/field-app/upload-photo' : '/api/field-app/upload-audio';
+  const headers = { 'Authorization': `Bearer ${token}` };
+
+  const status = await fetch(`/api/field-app/upload-status/${encodeURIComponent(uploadId)}`, { headers })
+    .then(response => response.ok ? response.json() : { receivedBytes: 0 });
+  if (status.complete) return;
+
+  let offset = status.receivedBytes || 0;
+  while (true) {
+    const formData = new FormData();
+    formData.append('workItemId', String(record.workItemId));
+    formData.append('stepId', record.stepId || '');
+    if (!isPhoto) formData.append('duration', String(record.duration || 0));
+    formData.append('uploadId', uploadId);
+    formData.append('offset', String(offset));
+    formData.append('totalSize', String(blob.size));
+    formData.append('fileName', record.fileName);
+    formData.append('mimeType', blob.type);
+    formData.append('file', blob.slice(offset, Math.min(offset + UPLOAD_CHUNK_SIZE, blob.size), blob.type), record.fileName);
+
+    const response = await fetch(endpoint, { method: 'POST', headers, body: formData });
+    const result = await response.json().catch(() => ({}));
+
+    if (response.status === 409 && typeof result.receivedBytes === 'number') {
+      offset = result.receivedBytes;
+      continue;
+    }
+    if (!response.ok) {
+      throw new Error(result.error || `Failed to upload ${record.fileName}`);
+    }
+    if (result.complete === false) {
+      offset = result.receivedBytes;
+      continue;
+    }
+    return;
+  }
+}
+
+async function toSyncUpdate(db, item, vault) {
+  const data = { ...item.data };
+
+  // Offline fiber nodes reference local photo ids; the server wants the images
+  if (item.type === 'fiberNetworkNode' && Array.isArray(data.photos) && data.photos.length > 0) {
+    const photos = [];
+    for (const photoId of data.photos) {
+      const photo = await getRecord(db, 'photos', photoId, vault);
+      const blob = photo && storedBlob(photo);
+      if (blob) photos.push({ data: await blobToDataUrl(blob) });
+    }
+    data.photos = photos;
+  }
+
+  return { type: item.type, action: item.action, entityId: item.entityId, data };
+}
+
+async function applySyncResult(db, result, vault) {
+  const stores = ['fiberNetworkNodes', 'syncConflicts'].filter(name => db.objectStoreNames.contains(name));
+  if (stores.length === 0) return;
+
+  // Sealed before the transaction opens, or it would commit while encrypting
+  const conflicts = [];
+  for (const conflict of result.conflicts || []) {
+    if (conflict.type === 'workItem' && conflict.fields && conflict.fields.length > 0) {
+      conflicts.push(await sealRecord('syncConflicts', { ...conflict, detectedAt: new Date() }, vault));
+    }
+  }
+
+  const tx = db.transaction(stores, 'readwrite');
+  if (stores.includes('fiberNetworkNodes')) {
+    const nodes = tx.objectStore('fiberNetworkNodes');
+    for (const synced of result.results || []) {
+      if (synced.type === 'fiberNetworkNode' && synced.success && synced.serverId) {
+        // Both fields stay readable, so sealed nodes are updated as they are
+        const node = await promisify(nodes.get(synced.id));
+        if (node) nodes.put({ ...node, syncedToServer: true, serverId: synced.serverId });
+      }
+    }
+  }
+  // Work items changed on both sides wait on the sync screen for the engineer
+  if (stores.includes('syncConflicts')) {
+    const store = tx.objectStore('syncConflicts');
+    conflicts.forEach(conflict => store.put(conflict));
+  }
+  await transactionDone(tx);
+}
+
+async function doReplay(vault) {
+  const db = await openFieldDB();
+  if (!db) return;
+  let wiped = false;
+
+  try {
+    // Locked (or woken by the browser): ask an open, unlocked app to start the replay with its keys
+    if (!vault && await hasVault(db)) {
+      const clients = await self.clients.matchAll({ includeUncontrolled: true });
+      clients.forEach(client => client.postMessage({ type: 'SYNC_NEEDED' }));
+      return;
+    }
+
+    const session = await getRecord(db, 'session', 'current', vault);
+    if (!session || !session.token) return;
+
+    const queue = await claimQueue(db, vault);
+    if (queue.length === 0) return;
+
+    await broadcast({ state: 'syncing', remaining: queue.length });
+
+    const syncedIds = [];
+    const failedIds = [];
+    let lastError;
+
+    // Changes go first, as on the sync screen, so a device due to be wiped uploads nothing
+    const updates = queue.filter(item => !FILE_TYPES.includes(item.type));
+    try {
+      const payload = [];
+      for (const item of updates) {
+        payload.push(await toSyncUpdate(db, item, vault));
+      }
+
+      const response = await fetch('/api/field-app/sync', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ updates: payload })
+      });
+      if (response.status === 410) {
+        const result = await response.json().catch(() => ({}));
+        if (result.wipe) {
+          wiped = true;
+          await wipeDevice(db, session.token);
+          return;
+        }
+      }
+      if (!response.ok) throw new Error(`Sync failed (${response.status})`);
+
+      await applySyncResult(db, await response.json(), vault);
+      syncedIds.push(...updates.map(item => item.id));
+    } catch (err) {
+      failedIds.push(...updates.map(item => item.id));
+      lastError = err.message;
+    }
+
+    // Each file on its own, so one failed upload doesn't hold back the rest
+    for (const item of queue.filter(item => FILE_TYPES.includes(item.type))) {
+      try {
+        await uploadFile(db, session.token, item, vault);
+        syncedIds.push(item.id);
+      } catch (err) {
+        failedIds.push(item.id);
+        lastError = err.message;
+      }
+    }
+
+    await finishQueue(db, syncedIds, failedIds, lastError);
+    await broadcast({
+      state: failedIds.length > 0 ? 'error' : 'idle',
+      synced: syncedIds.length,
+      remaining: failedIds.length,
+      error: lastError
+    });
+
+    if (failedIds.length > 0) {
+      throw new Error(lastError || 'Sync failed');
+    }
+  } finally {
+    if (!wiped) db.close();
+  }
+}
+
+// One replay at a time, however many triggers arrive
+function replaySyncQueue(vault) {
+  if (!replaying) {
+    replaying = doReplay(vault || null).finally(() => {
+      replaying = null;
+    });
+  }
+  return replaying;
+}
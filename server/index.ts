@@ -482,21 +482,58 @@ async function startServer() {
     } catch (error) {
       console.error('Failed to initialize cron jobs:', error);
     }
+
+    // Refresh key results bound to a data table query, Xero report line or Splynx count
+    try {
+      const { keyResultBindings } = await import('./services/KeyResultBindingService');
+      await keyResultBindings.initialize();
+      log('Key result data binding refresh initialized');
+    } catch (error) {
+      console.error('Failed to initialize key result data binding refresh:', error);
+    }
+
+    // Flag workflow runs cut off by a restart (of this or another instance) so they can be resumed.
+    // Every instance sets the timer; runMaintenanceJob lets one of them sweep each minute.
+    try {
+      const { WorkflowExecutor } = await import('./services/workflow/WorkflowExecutor');
+      const { runMaintenanceJob } = await import('./services/distributedScheduler');
+      const sweepInterruptedRuns = () => runMaintenanceJob('maintenance:interrupted_runs', 60000, async () => {
+        const interruptedCount = await WorkflowExecutor.markInterruptedRuns();
+        if (interruptedCount > 0) {
+          log(`Marked ${interruptedCount} workflow run(s) as interrupted`);
+        }
+        return { interruptedCount };
+      });
+      await sweepInterruptedRuns();
+      setInterval(() => {
+        sweepInterruptedRuns().catch(error => {
+          console.error('Failed to mark interrupted workflow runs:', error);
+        });
+      }, 60000); // 1 minute
+    } catch (error) {
+      console.error('Failed to mark interrupted workflow runs:', error);
+    }
+    
+    // Escalate or time out workflow approvals nobody responded to (one instance each minute)
+    try {
+      const { WorkflowExecutor } = await import('./services/workflow/WorkflowExecutor');
+      const { runMaintenanceJob } = await import('./services/distributedScheduler');
+      const approvalExecutor = new WorkflowExecutor();
+      setInterval(() => {
+        runMaintenanceJob('maintenance:approval_timeouts', 60000, () => approvalExecutor.processApprovalTimeouts()).catch(error => {
+          console.error('Failed to process workflow approval timeouts:', error);
+        });
+      }, 60000); // 1 minute
+    } catch (error) {
+      console.error('Failed to start workflow approval timeout checks:', error);
+    }
     
-    // Initialize workflow scheduler for all organizations
+    // Initialize workflow scheduler (one per instance, covers all active organizations)
     try {
       const { ScheduleManager } = await import('./services/workflow/ScheduleManager');
-      const { organizations } = await import('@shared/schema');
-      
-      // Get all active organizations
-      const orgs = await db.select().from(organizations).where(eq(organizations.isActive, true));
-      
-      // Initialize scheduler for each organization
-      for (const org of orgs) {
-        const scheduleManager = new ScheduleManager();
-        await scheduleManager.initialize(String(org.id));
-        log(`Workflow scheduler initialized for organization ${org.id}`);
-      }
+      const scheduleManager = new ScheduleManager();
+      await scheduleManager.initialize();
+      log('Workflow scheduler initialized');
     } catch (error) {
       console.error('Failed to initialize workflow schedulers:', error);
     }
@@ -1,13 +1,17 @@
-import { Router } from 'express';
+import { Router, Response } from 'express';
 import { storage } from '../storage';
 import { authenticateToken } from '../auth';
-import { WorkflowExecutor } from '../services/workflow/WorkflowExecutor';
-import { insertAgentWorkflowSchema, insertAgentWorkflowRunSchema, agentWorkflowSchedules, integrations } from '../../shared/schema';
+import { WorkflowExecutor, RunConflictError } from '../services/workflow/WorkflowExecutor';
+import { insertAgentWorkflowSchema, insertAgentWorkflowRunSchema, type AgentWorkflow, agentWorkflowSchedules, agentWorkflowApprovals, agentWorkflows, teamMembers, integrations, platformEvents, scheduledJobRuns } from '../../shared/schema';
 import { z } from 'zod';
+import { findWorkflowCallCycle } from '../services/workflow/workflowGraph';
+import { workflowVersions } from '../services/workflow/WorkflowVersionService';
+import { CATCH_UP_POLICIES } from '../services/distributedScheduler';
+import { validateWorkflowExpressions } from '@shared/workflowExpressions';
 import { IntegrationCatalogImporter } from '../services/integrations/IntegrationCatalogImporter';
 import { SplynxService } from '../services/integrations/splynxService';
 import { db } from '../db';
-import { eq, and } from 'drizzle-orm';
+import { eq, and, desc } from 'drizzle-orm';
 import crypto from 'crypto';
 
 const router = Router();
@@ -158,6 +162,13 @@ router.post('/workflows', async (req, res) => {
       return res.status(400).json({ error: 'Assigned user ID is required' });
     }
 
+    if (Array.isArray(workflowDefinition)) {
+      const expressionErrors = validateWorkflowExpressions(workflowDefinition);
+      if (expressionErrors.length > 0) {
+        return res.status(400).json({ error: 'Invalid expressions in workflow steps', details: expressionErrors });
+      }
+    }
+
     // Prepare data for validation - only include fields the backend schema expects
     const workflowData = {
       name: req.body.name,
@@ -184,7 +195,8 @@ router.post('/workflows', async (req, res) => {
     }
 
     const workflow = await storage.createAgentWorkflow(validationResult.data);
-    res.status(201).json(workflow);
+    const version = await workflowVersions.publishAgentWorkflowVersion(workflow, { publishedBy: user.id, changeNote: 'Initial version' });
+    res.status(201).json({ ...workflow, currentVersion: version.version });
   } catch (error) {
     console.error('Error creating workflow:', error);
     res.status(500).json({ error: 'Failed to create workflow' });
@@ -204,59 +216,42 @@ router.put('/workflows/:id', async (req, res) => {
       return res.status(400).json({ error: 'Invalid workflow ID' });
     }
 
-    const workflow = await storage.updateAgentWorkflow(workflowId, req.body);
+    if (Array.isArray(req.body.workflowDefinition)) {
+      const expressionErrors = validateWorkflowExpressions(req.body.workflowDefinition);
+      if (expressionErrors.length > 0) {
+        return res.status(400).json({ error: 'Invalid expressions in workflow steps', details: expressionErrors });
+      }
+
+      // Reject definitions whose call_workflow steps would call back into this workflow
+      const orgWorkflows = await storage.getAgentWorkflows(user.organizationId);
+      const cycle = findWorkflowCallCycle(workflowId, req.body.workflowDefinition, orgWorkflows);
+      if (cycle) {
+        const names = cycle.map(id => orgWorkflows.find(w => w.id === id)?.name || `#${id}`);
+        return res.status(400).json({ error: `Workflow call cycle detected: ${names.join(' → ')}` });
+      }
+    }
+
+    const existing = await storage.getAgentWorkflow(workflowId);
+    if (!existing || existing.organizationId !== user.organizationId) {
+      return res.status(404).json({ error: 'Workflow not found' });
+    }
     
-    if (!workflow) {
+    // Workflows created before versioning get their pre-edit state recorded as a version first
+    await workflowVersions.ensureAgentWorkflowVersioned(existing);
+    
+    // The current version only moves by publishing
+    const { changeNote, currentVersion, ...updates } = req.body;
+    const updated = await storage.updateAgentWorkflow(workflowId, updates);
+    
+    if (!updated) {
       return res.status(404).json({ error: 'Workflow not found' });
     }
     
-    // Handle schedule creation/update/deletion based on trigger type
-    if (req.body.triggerType === 'schedule' && req.body.triggerConfig?.frequency) {
-      // Check if schedule exists
-      const existingSchedules = await db
-        .select()
-        .from(agentWorkflowSchedules)
-        .where(eq(agentWorkflowSchedules.workflowId, workflowId))
-        .limit(1);
-      
-      const cronExpression = frequencyToCron(req.body.triggerConfig.frequency);
-      
-      if (existingSchedules.length > 0) {
-        // Update existing schedule
-        await db
-          .update(agentWorkflowSchedules)
-          .set({
-            cronExpression,
-            isActive: workflow.isEnabled,
-            updatedAt: new Date()
-          })
-          .where(eq(agentWorkflowSchedules.id, existingSchedules[0].id));
-        
-        console.log(`📅 Updated schedule for workflow ${workflowId}: ${cronExpression}`);
-      } else {
-        // Create new schedule
-        await db
-          .insert(agentWorkflowSchedules)
-          .values({
-            workflowId,
-            organizationId: user.organizationId,
-            cronExpression,
-            timezone: 'UTC',
-            isActive: workflow.isEnabled,
-            createdAt: new Date(),
-            updatedAt: new Date()
-          });
-        
-        console.log(`📅 Created new schedule for workflow ${workflowId}: ${cronExpression}`);
-      }
-    } else if (req.body.triggerType && req.body.triggerType !== 'schedule') {
-      // If trigger type is not schedule, deactivate any existing schedules
-      await db
-        .update(agentWorkflowSchedules)
-        .set({ isActive: false, updatedAt: new Date() })
-        .where(eq(agentWorkflowSchedules.workflowId, workflowId));
-      
-      console.log(`📅 Deactivated schedule for workflow ${workflowId} (trigger type changed to ${req.body.triggerType})`);
+    const version = await workflowVersions.publishAgentWorkflowVersion(updated, { publishedBy: user.id, changeNote });
+    const workflow = { ...updated, currentVersion: version.version };
+    
+    if (req.body.triggerType) {
+      await syncWorkflowSchedule(workflow);
     }
     
     res.json(workflow);
@@ -266,6 +261,66 @@ router.put('/workflows/:id', async (req, res) => {
   }
 });
 
+// Create, update or deactivate a workflow's schedule to match its trigger settings
+async function syncWorkflowSchedule(workflow: AgentWorkflow) {
+  const triggerConfig = workflow.triggerConfig as any;
+  
+  if (workflow.triggerType === 'schedule' && triggerConfig?.frequency) {
+    // Check if schedule exists
+    const existingSchedules = await db
+      .select()
+      .from(agentWorkflowSchedules)
+      .where(eq(agentWorkflowSchedules.workflowId, workflow.id))
+      .limit(1);
+    
+    const cronExpression = frequencyToCron(triggerConfig.frequency);
+    const catchUpPolicy = CATCH_UP_POLICIES.includes(triggerConfig.catchUpPolicy)
+      ? triggerConfig.catchUpPolicy
+      : 'run_once';
+    
+    if (existingSchedules.length > 0) {
+      // Update existing schedule; a new cron expression is rescheduled by the next scheduler poll
+      const cronChanged = existingSchedules[0].cronExpression !== cronExpression;
+      await db
+        .update(agentWorkflowSchedules)
+        .set({
+          cronExpression,
+          catchUpPolicy,
+          isActive: workflow.isEnabled,
+          ...(cronChanged || !existingSchedules[0].isActive ? { nextRunAt: null } : {}),
+          updatedAt: new Date()
+        })
+        .where(eq(agentWorkflowSchedules.id, existingSchedules[0].id));
+      
+      console.log(`📅 Updated schedule for workflow ${workflow.id}: ${cronExpression}`);
+    } else {
+      // Create new schedule
+      await db
+        .insert(agentWorkflowSchedules)
+        .values({
+          workflowId: workflow.id,
+          organizationId: workflow.organizationId,
+          cronExpression,
+          catchUpPolicy,
+          timezone: 'UTC',
+          isActive: workflow.isEnabled,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        });
+      
+      console.log(`📅 Created new schedule for workflow ${workflow.id}: ${cronExpression}`);
+    }
+  } else if (workflow.triggerType && workflow.triggerType !== 'schedule') {
+    // If trigger type is not schedule, deactivate any existing schedules
+    await db
+      .update(agentWorkflowSchedules)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(eq(agentWorkflowSchedules.workflowId, workflow.id));
+    
+    console.log(`📅 Deactivated schedule for workflow ${workflow.id} (trigger type changed to ${workflow.triggerType})`);
+  }
+}
+
 // Delete workflow
 router.delete('/workflows/:id', async (req, res) => {
   try {
@@ -400,6 +455,60 @@ router.post('/workflows/:id/execute', async (req, res) => {
   }
 });
 
+// Simulate workflow: write steps are recorded instead of executed and read steps can use fixtures.
+// Accepts an unsaved workflowDefinition so changes can be validated before saving or enabling.
+router.post('/workflows/:id/simulate', async (req, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.organizationId) {
+      return res.status(401).json({ error: 'User not authenticated or missing organization' });
+    }
+
+    const workflowId = parseInt(req.params.id);
+    if (isNaN(workflowId)) {
+      return res.status(400).json({ error: 'Invalid workflow ID' });
+    }
+
+    const workflow = await storage.getAgentWorkflow(workflowId);
+    if (!workflow || workflow.organizationId !== user.organizationId) {
+      return res.status(404).json({ error: 'Workflow not found' });
+    }
+
+    const { workflowDefinition, fixtures, trigger, compareToRunId } = req.body || {};
+
+    if (workflowDefinition !== undefined && !Array.isArray(workflowDefinition)) {
+      return res.status(400).json({ error: 'workflowDefinition must be an array of steps' });
+    }
+
+    const workflowWithConfig = {
+      ...workflow,
+      configuration: {
+        steps: workflowDefinition || workflow.workflowDefinition || []
+      }
+    };
+
+    const executor = new WorkflowExecutor();
+    const result = await executor.simulateWorkflow(
+      workflowWithConfig,
+      {
+        ...(trigger || {}),
+        organizationId: String(user.organizationId),
+        userId: user.id,
+        triggerSource: `Simulation by user ${user.id}`,
+        trigger: trigger || {},
+        manualData: trigger || {},
+      },
+      { fixtures: fixtures || {} },
+      compareToRunId ? parseInt(compareToRunId) : undefined
+    );
+
+    res.json(result);
+  } catch (error) {
+    console.error('Error simulating workflow:', error);
+    res.status(500).json({ error: 'Failed to simulate workflow' });
+  }
+});
+
 // Get all workflow runs for organization
 router.get('/runs', async (req, res) => {
   try {
@@ -432,6 +541,104 @@ router.get('/workflows/:id/runs', async (req, res) => {
   }
 });
 
+// Get a workflow's schedule and the history of its scheduled occurrences
+router.get('/workflows/:id/schedule-history', async (req, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.organizationId) {
+      return res.status(401).json({ error: 'User not authenticated or missing organization' });
+    }
+
+    const workflowId = parseInt(req.params.id);
+    if (isNaN(workflowId)) {
+      return res.status(400).json({ error: 'Invalid workflow ID' });
+    }
+
+    const [schedule] = await db
+      .select()
+      .from(agentWorkflowSchedules)
+      .where(and(
+        eq(agentWorkflowSchedules.workflowId, workflowId),
+        eq(agentWorkflowSchedules.organizationId, user.organizationId)
+      ))
+      .limit(1);
+
+    const history = await db
+      .select()
+      .from(scheduledJobRuns)
+      .where(and(
+        eq(scheduledJobRuns.workflowId, workflowId),
+        eq(scheduledJobRuns.organizationId, user.organizationId)
+      ))
+      .orderBy(desc(scheduledJobRuns.scheduledFor))
+      .limit(50);
+
+    res.json({ schedule: schedule || null, history });
+  } catch (error) {
+    console.error('Error fetching workflow schedule history:', error);
+    res.status(500).json({ error: 'Failed to fetch schedule history' });
+  }
+});
+
+// Published versions of a workflow, newest first
+router.get('/workflows/:id/versions', async (req, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.organizationId) {
+      return res.status(401).json({ error: 'User not authenticated or missing organization' });
+    }
+
+    const workflowId = parseInt(req.params.id);
+    if (isNaN(workflowId)) {
+      return res.status(400).json({ error: 'Invalid workflow ID' });
+    }
+
+    const workflow = await storage.getAgentWorkflow(workflowId);
+    if (!workflow || workflow.organizationId !== user.organizationId) {
+      return res.status(404).json({ error: 'Workflow not found' });
+    }
+
+    const versions = await workflowVersions.listAgentWorkflowVersions(workflowId);
+    res.json({ currentVersion: workflow.currentVersion, versions });
+  } catch (error) {
+    console.error('Error fetching workflow versions:', error);
+    res.status(500).json({ error: 'Failed to fetch workflow versions' });
+  }
+});
+
+// Roll back to an earlier version by publishing a copy of it. Runs already in progress keep their version.
+router.post('/workflows/:id/versions/:version/rollback', async (req, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.organizationId) {
+      return res.status(401).json({ error: 'User not authenticated or missing organization' });
+    }
+
+    const workflowId = parseInt(req.params.id);
+    const version = parseInt(req.params.version);
+    if (isNaN(workflowId) || isNaN(version)) {
+      return res.status(400).json({ error: 'Invalid workflow ID or version' });
+    }
+
+    const workflow = await storage.getAgentWorkflow(workflowId);
+    if (!workflow || workflow.organizationId !== user.organizationId) {
+      return res.status(404).json({ error: 'Workflow not found' });
+    }
+
+    if (!(await workflowVersions.getAgentWorkflowVersion(workflowId, version))) {
+      return res.status(404).json({ error: `Version ${version} not found` });
+    }
+
+    const result = await workflowVersions.rollbackAgentWorkflow(workflow, version, user.id);
+    await syncWorkflowSchedule(result.workflow);
+
+    res.json(result);
+  } catch (error) {
+    console.error('Error rolling back workflow:', error);
+    res.status(500).json({ error: 'Failed to roll back workflow' });
+  }
+});
+
 // Get specific workflow run with full execution details
 router.get('/workflows/:workflowId/runs/:runId', async (req, res) => {
   try {
@@ -460,6 +667,208 @@ router.get('/workflows/:workflowId/runs/:runId', async (req, res) => {
   }
 });
 
+// Resume a failed or interrupted workflow run from its last checkpoint
+router.post('/workflows/:workflowId/runs/:runId/resume', async (req, res) => {
+  await startRunResume(req, res, undefined);
+});
+
+// Retry a workflow run from a specific step, reusing the checkpoints of earlier steps
+router.post('/workflows/:workflowId/runs/:runId/retry', async (req, res) => {
+  const fromStep = parseInt(req.body?.fromStep);
+  if (isNaN(fromStep)) {
+    return res.status(400).json({ error: 'fromStep is required' });
+  }
+
+  await startRunResume(req, res, fromStep);
+});
+
+async function startRunResume(req: any, res: Response, fromStep: number | undefined) {
+  try {
+    const user = req.user;
+    if (!user || !user.organizationId) {
+      return res.status(401).json({ error: 'User not authenticated or missing organization' });
+    }
+
+    const workflowId = parseInt(req.params.workflowId);
+    const runId = parseInt(req.params.runId);
+
+    if (isNaN(workflowId) || isNaN(runId)) {
+      return res.status(400).json({ error: 'Invalid workflow ID or run ID' });
+    }
+
+    const run = await storage.getWorkflowRun(runId);
+    if (!run || run.workflowId !== workflowId) {
+      return res.status(404).json({ error: 'Workflow run not found' });
+    }
+
+    // Steps of the version the run started on
+    const workflow = await workflowVersions.getAgentWorkflowForRun(run);
+    if (!workflow || workflow.organizationId !== user.organizationId) {
+      return res.status(404).json({ error: 'Workflow not found' });
+    }
+
+    // Claims the run atomically; a run another request resumed first is a conflict
+    const executor = new WorkflowExecutor();
+    let resume: Awaited<ReturnType<WorkflowExecutor['startResume']>>;
+    try {
+      resume = await executor.startResume(runId, fromStep);
+    } catch (error) {
+      if (error instanceof RunConflictError) {
+        return res.status(409).json({ error: error.message });
+      }
+      return res.status(400).json({ error: error instanceof Error ? error.message : 'Run cannot be resumed' });
+    }
+
+    // Execute asynchronously (don't wait for completion)
+    resume.completion.catch(error => {
+      console.error('Workflow resume failed:', error);
+    });
+
+    res.json({
+      success: true,
+      message: `Workflow run resuming from step ${resume.startIndex + 1}`,
+      fromStep: resume.startIndex + 1,
+    });
+  } catch (error) {
+    console.error('Error resuming workflow run:', error);
+    res.status(500).json({ error: 'Failed to resume workflow run' });
+  }
+}
+
+// Recent platform events with the workflow runs they triggered
+router.get('/platform-events', async (req, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.organizationId) {
+      return res.status(401).json({ error: 'User not authenticated or missing organization' });
+    }
+
+    const conditions = [eq(platformEvents.organizationId, user.organizationId)];
+    if (typeof req.query.eventType === 'string') {
+      conditions.push(eq(platformEvents.eventType, req.query.eventType));
+    }
+
+    const events = await db
+      .select()
+      .from(platformEvents)
+      .where(and(...conditions))
+      .orderBy(desc(platformEvents.createdAt))
+      .limit(100);
+
+    res.json(events);
+  } catch (error) {
+    console.error('Error fetching platform events:', error);
+    res.status(500).json({ error: 'Failed to fetch platform events' });
+  }
+});
+
+// List workflow approvals for the organization (pending by default)
+router.get('/approvals', async (req, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.organizationId) {
+      return res.status(401).json({ error: 'User not authenticated or missing organization' });
+    }
+
+    const status = typeof req.query.status === 'string' ? req.query.status : 'pending';
+
+    const approvals = await db
+      .select({
+        approval: agentWorkflowApprovals,
+        workflowName: agentWorkflows.name,
+      })
+      .from(agentWorkflowApprovals)
+      .innerJoin(agentWorkflows, eq(agentWorkflowApprovals.workflowId, agentWorkflows.id))
+      .where(and(
+        eq(agentWorkflowApprovals.organizationId, user.organizationId),
+        eq(agentWorkflowApprovals.status, status)
+      ))
+      .orderBy(desc(agentWorkflowApprovals.createdAt))
+      .limit(100);
+
+    const memberships = await db
+      .select({ teamId: teamMembers.teamId })
+      .from(teamMembers)
+      .where(eq(teamMembers.userId, user.id));
+    const teamIds = new Set(memberships.map(m => m.teamId));
+
+    res.json(approvals.map(({ approval, workflowName }) => ({
+      ...approval,
+      workflowName,
+      canRespond: canRespondToApproval(approval, user, teamIds),
+    })));
+  } catch (error) {
+    console.error('Error fetching workflow approvals:', error);
+    res.status(500).json({ error: 'Failed to fetch workflow approvals' });
+  }
+});
+
+// Approve or reject a paused workflow run, optionally with an edited payload
+router.post('/approvals/:id/respond', async (req, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.organizationId) {
+      return res.status(401).json({ error: 'User not authenticated or missing organization' });
+    }
+
+    const approvalId = parseInt(req.params.id);
+    if (isNaN(approvalId)) {
+      return res.status(400).json({ error: 'Invalid approval ID' });
+    }
+
+    const { decision, comment, payload } = req.body || {};
+    if (decision !== 'approved' && decision !== 'rejected') {
+      return res.status(400).json({ error: "decision must be 'approved' or 'rejected'" });
+    }
+
+    const [approval] = await db
+      .select()
+      .from(agentWorkflowApprovals)
+      .where(and(eq(agentWorkflowApprovals.id, approvalId), eq(agentWorkflowApprovals.organizationId, user.organizationId)))
+      .limit(1);
+
+    if (!approval) {
+      return res.status(404).json({ error: 'Approval not found' });
+    }
+
+    const memberships = await db
+      .select({ teamId: teamMembers.teamId })
+      .from(teamMembers)
+      .where(eq(teamMembers.userId, user.id));
+    if (!canRespondToApproval(approval, user, new Set(memberships.map(m => m.teamId)))) {
+      return res.status(403).json({ error: 'You are not an approver for this step' });
+    }
+
+    const executor = new WorkflowExecutor();
+    let updated;
+    try {
+      updated = await executor.respondToApproval(approvalId, user.organizationId, user.id, { decision, comment, payload });
+    } catch (error) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to record decision' });
+    }
+
+    // Continue the paused run asynchronously (don't wait for completion)
+    executor.continueAfterApproval(approvalId).catch(error => {
+      console.error('Workflow continuation after approval failed:', error);
+    });
+
+    res.json(updated);
+  } catch (error) {
+    console.error('Error responding to workflow approval:', error);
+    res.status(500).json({ error: 'Failed to respond to approval' });
+  }
+});
+
+function canRespondToApproval(
+  approval: { approverUserId: number | null; approverTeamId: number | null; escalateToUserId: number | null; escalatedAt: Date | null },
+  user: { id: number; role?: string | null },
+  teamIds: Set<number>
+): boolean {
+  if (user.role === 'admin' || user.role === 'super_admin') return true;
+  if (approval.approverUserId === user.id) return true;
+  if (approval.approverTeamId && teamIds.has(approval.approverTeamId)) return true;
+  return !!approval.escalatedAt && approval.escalateToUserId === user.id;
+}
 
 // Get available triggers for organization
 router.get('/triggers', async (req, res) => {
@@ -30,6 +30,8 @@ import {
 import { eq, and, desc, sql, gte, lte, like, or } from 'drizzle-orm';
 import { coreStorage } from '../core-storage';
 import { z } from 'zod';
+import { platformEventBus } from '../services/workflow/PlatformEventBus';
+import { keyResultUpdatedPayload, workItemStatusChangedPayload } from '../services/workflow/platformEvents';
 
 const router = Router();
 
@@ -2312,7 +2314,15 @@ async function updateKeyResult(payload: any, user: any): Promise<any> {
   if (updates.targetValue !== undefined) updateData.targetValue = updates.targetValue;
   if (updates.status) updateData.status = updates.status;
 
+  const previous = await storage.getKeyResult(id);
   const keyResult = await storage.updateKeyResult(id, updateData);
+  
+  if (previous && keyResult && (keyResult.currentValue !== previous.currentValue || keyResult.status !== previous.status)) {
+    platformEventBus.emit(keyResult.organizationId, 'key_result.updated', keyResultUpdatedPayload(keyResult, previous.currentValue), {
+      entityId: keyResult.id,
+      actorUserId: user.id,
+    });
+  }
 
   return {
     success: true,
@@ -2506,12 +2516,20 @@ async function updateWorkItem(payload: any, user: any): Promise<any> {
   if (validated.assignedTo !== undefined) updateData.assignedTo = validated.assignedTo;
   if (validated.notes !== undefined) updateData.notes = validated.notes;
   
+  const previous = await storage.getWorkItem(validated.id);
   const workItem = await storage.updateWorkItem(validated.id, updateData);
   
   if (!workItem) {
     throw new Error(`Work item ${validated.id} not found`);
   }
   
+  if (previous && previous.status !== workItem.status) {
+    platformEventBus.emit(workItem.organizationId, 'work_item.status_changed', workItemStatusChangedPayload(workItem, previous.status), {
+      entityId: workItem.id,
+      actorUserId: user.id,
+    });
+  }
+  
   return {
     success: true,
     workItem,
@@ -5,6 +5,8 @@ import { bookableTaskTypes, bookingTokens, bookings, workItems, organizations, a
 import { SplynxService } from '../services/integrations/splynxService';
 import { FirebaseService } from '../services/integrations/firebaseService';
 import { authenticateToken } from '../auth';
+import { platformEventBus } from '../services/workflow/PlatformEventBus';
+import { workItemStatusChangedPayload } from '../services/workflow/platformEvents';
 import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 
@@ -761,14 +763,15 @@ router.post('/public/bookings/:token/confirm', async (req, res) => {
       }
     };
     
-    await db
+    const [bookedWorkItem] = await db
       .update(workItems)
       .set({
         workflowMetadata: updatedMetadata,
         status: 'In Progress',
         updatedAt: new Date()
       })
-      .where(eq(workItems.id, workItem.id));
+      .where(eq(workItems.id, workItem.id))
+      .returning();
     
     // Log activity
     await db.insert(activityLogs).values({
@@ -785,6 +788,21 @@ router.post('/public/bookings/:token/confirm', async (req, res) => {
       }
     });
     
+    platformEventBus.emit(validation.booking!.booking.organizationId, 'booking.confirmed', {
+      bookingId: validation.booking!.booking.id,
+      customerName: validation.booking!.booking.customerName,
+      taskType: validation.booking!.taskType.name,
+      selectedDatetime,
+      splynxTaskId: splynxTask.id,
+      workItemId: workItem.id,
+    }, { entityId: validation.booking!.booking.id });
+    
+    if (bookedWorkItem && bookedWorkItem.status !== workItem.status) {
+      platformEventBus.emit(validation.booking!.booking.organizationId, 'work_item.status_changed', workItemStatusChangedPayload(bookedWorkItem, workItem.status), {
+        entityId: workItem.id,
+      });
+    }
+    
     res.json({
       success: true,
       splynxTaskId: splynxTask.id,
@@ -1362,6 +1380,15 @@ router.post('/public/appointment-types/:slug/book', async (req, res) => {
       }
     });
     
+    platformEventBus.emit(appointmentType.organizationId, 'booking.confirmed', {
+      bookingId: booking.id,
+      customerName,
+      taskType: appointmentType.name,
+      selectedDatetime,
+      splynxTaskId: splynxTask.id,
+      workItemId: null,
+    }, { entityId: booking.id, actorUserId: authenticatedUserId });
+    
     res.json({
       success: true,
       bookingId: booking.id,
@@ -1664,6 +1691,23 @@ router.patch('/all-bookings/:id', authenticateToken, async (req, res) => {
       }
     });
     
+    if (updated.status === 'confirmed' && existingBooking.status !== 'confirmed') {
+      const [taskType] = await db
+        .select({ name: bookableTaskTypes.name })
+        .from(bookableTaskTypes)
+        .where(eq(bookableTaskTypes.id, updated.bookableTaskTypeId))
+        .limit(1);
+      
+      platformEventBus.emit(organizationId, 'booking.confirmed', {
+        bookingId: updated.id,
+        customerName: updated.customerName,
+        taskType: taskType?.name ?? '',
+        selectedDatetime: updated.selectedDatetime.toISOString(),
+        splynxTaskId: updated.splynxTaskId,
+        workItemId: null,
+      }, { entityId: updated.id, actorUserId: userId });
+    }
+    
     res.json({ success: true, booking: updated });
   } catch (error: any) {
     console.error('Error updating booking:', error);
@@ -18,6 +18,8 @@ import { eq, and, sql, inArray, desc } from 'drizzle-orm';
 import { authenticateToken } from '../auth';
 import { z } from 'zod';
 import { generateFiberColorScheme } from '../../shared/fiberColorStandards';
+import { platformEventBus } from '../services/workflow/PlatformEventBus';
+import { fiberNodeCreatedPayload } from '../services/workflow/platformEvents';
 
 const router = Router();
 
@@ -91,6 +93,11 @@ router.post('/nodes', authenticateToken, async (req: any, res) => {
       ipAddress: req.ip
     });
     
+    platformEventBus.emit(organizationId, 'fiber_node.created', fiberNodeCreatedPayload(newNode, 'web'), {
+      entityId: newNode.id,
+      actorUserId: req.user.id,
+    });
+    
     res.status(201).json({ node: newNode });
   } catch (error) {
     console.error('Error creating fiber network node:', error);
@@ -462,6 +469,11 @@ router.post('/nodes/from-workflow', authenticateToken, async (req: any, res) =>
       ipAddress: req.ip
     });
     
+    platformEventBus.emit(organizationId, 'fiber_node.created', fiberNodeCreatedPayload(newNode, 'web'), {
+      entityId: newNode.id,
+      actorUserId: req.user.id,
+    });
+    
     res.status(201).json({ node: newNode });
   } catch (error) {
     console.error('Error creating fiber network node from workflow:', error);
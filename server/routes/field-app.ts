@@ -6,15 +6,25 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import { storage } from '../storage';
-import { authenticateToken } from '../auth';
+import { authenticateToken, requireRole } from '../auth';
 import { db } from '../db';
-import { workItems, workItemWorkflowExecutions, workItemWorkflowExecutionSteps, fiberNetworkNodes, fiberNetworkActivityLogs, audioRecordings } from '@shared/schema';
-import { and, eq, inArray, asc } from 'drizzle-orm';
+import { workItems, workItemWorkflowExecutions, workItemWorkflowExecutionSteps, fiberNetworkNodes, fiberNetworkActivityLogs, audioRecordings, fieldAppWipeRequests, fieldAppSyncCursors, insertWorkItemSchema, type FieldAppSyncCursor, type InsertWorkItem, type WorkItemWorkflowExecution } from '@shared/schema';
+import { and, eq, gt, gte, inArray, lte, asc, desc } from 'drizzle-orm';
 import multer from 'multer';
+import jwt from 'jsonwebtoken';
 import path from 'path';
 import fs from 'fs';
 import { audioProcessingService } from '../services/audioProcessingService';
 import { workItemWorkflowService } from '../services/WorkItemWorkflowService';
+import { workflowVersions } from '../services/workflow/WorkflowVersionService';
+import { platformEventBus } from '../services/workflow/PlatformEventBus';
+import { fiberNodeCreatedPayload, workItemStatusChangedPayload } from '../services/workflow/platformEvents';
+import { workItemCustomFieldService } from '../services/WorkItemCustomFieldService';
+import { workItemTimeService } from '../services/WorkItemTimeService';
+import { definitionsForType } from '@shared/workItemCustomFields';
+import { mergeWorkItem, pickSyncedValues, SYNCED_WORK_ITEM_FIELDS, type SyncedWorkItemValues, type WorkItemBase, type WorkItemSyncConflict } from '@shared/fieldAppSync';
+import type { DownloadBatchChanges, WorkItemChange, WorkItemTombstone } from '@shared/fieldAppDelta';
+import { boundsAround, boundsSpanMeters, DEFAULT_AREA_PADDING_METERS, MAX_AREA_PADDING_METERS, MAX_AREA_SPAN_METERS, MAX_AREA_WORK_ITEMS, type OfflineCable, type OfflineMapArea, type OfflineNetworkNode } from '@shared/fieldAppMap';
 
 const router = Router();
 
@@ -96,8 +106,290 @@ const audioUpload = multer({
   }
 });
 
+// Ensure resumable upload directory exists. Part files stay outside the publicly
+// served uploads folder until the upload is complete and checked
+const chunkUploadDir = 'private/field-chunks';
+if (!fs.existsSync(chunkUploadDir)) {
+  fs.mkdirSync(chunkUploadDir, { recursive: true });
+}
+
+const MAX_UPLOAD_BYTES = {
+  photo: 10 * 1024 * 1024,
+  audio: 50 * 1024 * 1024
+};
+
+// Extensions an assembled upload may be stored with, and the MIME type recorded for each.
+// Both come from here rather than the client, as the file is served from /uploads
+const UPLOAD_MIME_TYPES: Record<'photo' | 'audio', Record<string, string>> = {
+  photo: {
+    '.jpeg': 'image/jpeg',
+    '.jpg': 'image/jpeg',
+    '.png': 'image/png',
+    '.heic': 'image/heic',
+    '.webp': 'image/webp'
+  },
+  audio: {
+    '.webm': 'audio/webm',
+    '.m4a': 'audio/mp4',
+    '.mp3': 'audio/mpeg',
+    '.wav': 'audio/wav',
+    '.ogg': 'audio/ogg',
+    '.aac': 'audio/aac'
+  }
+};
+
+interface ReceivedFile {
+  path: string;
+  filename: string;
+  mimetype: string;
+  size: number;
+}
+
+// Part and completion marker files are per user, so upload ids only need to be unique on the device
+const chunkFilePath = (req: any, uploadId: string, extension: 'part' | 'done') =>
+  path.join(chunkUploadDir, `${req.user.organizationId}-${req.user.id}-${uploadId}.${extension}`);
+
+const isValidUploadId = (uploadId: unknown): uploadId is string =>
+  typeof uploadId === 'string' && /^[\w-]{1,100}$/.test(uploadId);
+
+// Chunks of one upload are handled one at a time (keyed by part file), so a retried
+// chunk arriving alongside the original can't pass the offset check twice
+const uploadLocks = new Map<string, Promise<unknown>>();
+
+async function withUploadLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const current = (uploadLocks.get(key) ?? Promise.resolve()).catch(() => undefined).then(task);
+  uploadLocks.set(key, current);
+  try {
+    return await current;
+  } finally {
+    if (uploadLocks.get(key) === current) uploadLocks.delete(key);
+  }
+}
+
+// Part files of uploads abandoned part way, and completion markers once no retry of the last chunk can come
+const ABANDONED_PART_MS = 24 * 60 * 60 * 1000;
+const COMPLETION_MARKER_MS = 7 * 24 * 60 * 60 * 1000;
+
+async function cleanUpChunkUploads(): Promise<void> {
+  const now = Date.now();
+  for (const name of await fs.promises.readdir(chunkUploadDir)) {
+    const filePath = path.join(chunkUploadDir, name);
+    const maxAge = name.endsWith('.part') ? ABANDONED_PART_MS : name.endsWith('.done') ? COMPLETION_MARKER_MS : null;
+    if (maxAge === null || uploadLocks.has(filePath)) continue;
+    const stats = await fs.promises.stat(filePath).catch(() => null);
+    if (stats && now - stats.mtimeMs > maxAge) {
+      await fs.promises.unlink(filePath).catch(() => undefined);
+    }
+  }
+}
+
+setInterval(() => {
+  cleanUpChunkUploads().catch(error => console.error('Failed to clean up field app chunk uploads:', error));
+}, 60 * 60 * 1000).unref(); // 1 hour
+
+/**
+ * Resumable uploads: with an uploadId the request carries one chunk of the
+ * file at `offset` of `totalSize` bytes. Chunks are appended to a part file
+ * whose size is the resume point, so a dropped connection only loses the
+ * chunk in flight. Responds itself (and returns null) until the last chunk,
+ * then returns the assembled file. Without an uploadId the whole file came
+ * in this request and is returned as is. Part files of abandoned uploads are
+ * removed after a day.
+ */
+async function receiveUpload(req: any, res: any, kind: 'photo' | 'audio'): Promise<ReceivedFile | undefined | null> {
+  const file = req.file;
+  const { uploadId } = req.body;
+  if (uploadId === undefined || !file) return file;
+
+  const discardChunk = () => fs.promises.unlink(file.path).catch(() => undefined);
+  const offset = parseInt(req.body.offset, 10);
+  const totalSize = parseInt(req.body.totalSize, 10);
+
+  if (!isValidUploadId(uploadId) || !Number.isInteger(offset) || offset < 0 ||
+      !Number.isInteger(totalSize) || totalSize <= 0 || totalSize > MAX_UPLOAD_BYTES[kind]) {
+    await discardChunk();
+    res.status(400).json({ error: 'Invalid resumable upload parameters' });
+    return null;
+  }
+
+  const extension = path.extname(file.originalname).toLowerCase();
+  const mimetype = UPLOAD_MIME_TYPES[kind][extension];
+  if (!mimetype) {
+    await discardChunk();
+    res.status(400).json({ error: `Unsupported ${kind} file type` });
+    return null;
+  }
+
+  const partPath = chunkFilePath(req, uploadId, 'part');
+  return withUploadLock(partPath, async () => {
+    // Already assembled: the response to the last chunk was lost, so don't attach the file twice
+    if (fs.existsSync(chunkFilePath(req, uploadId, 'done'))) {
+      await discardChunk();
+      res.json({ success: true, complete: true, duplicate: true, receivedBytes: totalSize });
+      return null;
+    }
+
+    const receivedBytes = await fs.promises.stat(partPath).then(stats => stats.size, () => 0);
+    if (offset !== receivedBytes) {
+      await discardChunk();
+      res.status(409).json({ error: 'Chunk does not continue the upload', receivedBytes });
+      return null;
+    }
+    if (offset + file.size > totalSize) {
+      await discardChunk();
+      res.status(400).json({ error: 'Chunk is larger than the remaining upload' });
+      return null;
+    }
+
+    await fs.promises.appendFile(partPath, await fs.promises.readFile(file.path));
+    await discardChunk();
+
+    if (offset + file.size < totalSize) {
+      res.json({ success: true, complete: false, receivedBytes: offset + file.size });
+      return null;
+    }
+
+    const filename = `${kind}-${Date.now()}-${Math.round(Math.random() * 1E9)}${extension}`;
+    const finalPath = path.join(kind === 'photo' ? uploadDir : audioUploadDir, filename);
+    await fs.promises.rename(partPath, finalPath);
+    await fs.promises.writeFile(chunkFilePath(req, uploadId, 'done'), new Date().toISOString());
+
+    return {
+      path: finalPath,
+      filename,
+      mimetype,
+      size: totalSize
+    };
+  });
+}
+
+/*
+ * Delta downloads (see shared/fieldAppDelta.ts). A device's cursor is
+ * `<cursor row id>.<cursorAt ms>`; one that no longer matches its row (e.g.
+ * an older cursor restored from a backup) gets a full download.
+ */
+function parseDeviceId(value: unknown): string | null {
+  return typeof value === 'string' && /^[\w-]{8,64}$/.test(value) ? value : null;
+}
+
+function formatSyncCursor(row: FieldAppSyncCursor): string | null {
+  return row.cursorAt ? `${row.id}.${row.cursorAt.getTime()}` : null;
+}
+
+async function getSyncCursor(organizationId: number, userId: number, deviceId: string): Promise<FieldAppSyncCursor | null> {
+  const [row] = await db.select()
+    .from(fieldAppSyncCursors)
+    .where(and(
+      eq(fieldAppSyncCursors.organizationId, organizationId),
+      eq(fieldAppSyncCursors.userId, userId),
+      eq(fieldAppSyncCursors.deviceId, deviceId)
+    ))
+    .limit(1);
+  return row ?? null;
+}
+
+/** When the device's data is up to date to, if the cursor it sent is its current one */
+function cursorSince(row: FieldAppSyncCursor | null, cursor: unknown): Date | null {
+  if (!row?.cursorAt || typeof cursor !== 'string') return null;
+  return cursor === formatSyncCursor(row) ? row.cursorAt : null;
+}
+
+/** Work items changed since the date, including progress on their workflow steps */
+async function workItemsChangedSince(organizationId: number, items: any[], since: Date): Promise<Set<number>> {
+  const changed = new Set<number>(
+    items.filter(item => item.updatedAt && new Date(item.updatedAt) > since).map(item => item.id)
+  );
+  const ids = items.map(item => item.id);
+  if (ids.length === 0) return changed;
+
+  const [executions, steps] = await Promise.all([
+    db.select({ workItemId: workItemWorkflowExecutions.workItemId })
+      .from(workItemWorkflowExecutions)
+      .where(and(
+        eq(workItemWorkflowExecutions.organizationId, organizationId),
+        inArray(workItemWorkflowExecutions.workItemId, ids),
+        gt(workItemWorkflowExecutions.updatedAt, since)
+      )),
+    db.select({ workItemId: workItemWorkflowExecutionSteps.workItemId })
+      .from(workItemWorkflowExecutionSteps)
+      .where(and(
+        eq(workItemWorkflowExecutionSteps.organizationId, organizationId),
+        inArray(workItemWorkflowExecutionSteps.workItemId, ids),
+        gt(workItemWorkflowExecutionSteps.updatedAt, since)
+      ))
+  ]);
+  [...executions, ...steps].forEach(row => changed.add(row.workItemId));
+  return changed;
+}
+
+function isAssignedToUser(item: any, userId: number, teamIds: number[]): boolean {
+  return item.assignedTo === userId || Boolean(item.teamId && teamIds.includes(item.teamId));
+}
+
+/** A work item's template as its execution sees it, pinned to the version it started on like the web routes */
+function templateForExecution(organizationId: number, workItem: { workflowTemplateId: string | null }, execution?: WorkItemWorkflowExecution) {
+  const templateId = String(workItem.workflowTemplateId);
+  return execution && execution.workflowTemplateId === templateId
+    ? workflowVersions.getWorkflowTemplateForExecution(execution, organizationId)
+    : storage.getWorkflowTemplate(organizationId, templateId);
+}
+
+/*
+ * Devices keep a copy of each template version their work items run on,
+ * under `<template id>` for the live template or `<template id>@v<version>`
+ * for an execution pinned to a version. Downloaded work items carry the key
+ * of theirs as workflowTemplateKey, and templates as templateKey.
+ */
+interface DeviceTemplateRef {
+  key: string;
+  workItem: any;
+  execution?: WorkItemWorkflowExecution;
+}
+
+async function deviceTemplateRefs(organizationId: number, items: any[]): Promise<Map<number, DeviceTemplateRef>> {
+  const withTemplate = items.filter(item => item.workflowTemplateId);
+  const refs = new Map<number, DeviceTemplateRef>();
+  if (withTemplate.length === 0) return refs;
+
+  const executions = await db.select()
+    .from(workItemWorkflowExecutions)
+    .where(and(
+      eq(workItemWorkflowExecutions.organizationId, organizationId),
+      inArray(workItemWorkflowExecutions.workItemId, withTemplate.map(item => item.id))
+    ))
+    .orderBy(desc(workItemWorkflowExecutions.createdAt));
+  const latest = new Map<number, WorkItemWorkflowExecution>();
+  executions.forEach(execution => {
+    if (!latest.has(execution.workItemId)) latest.set(execution.workItemId, execution);
+  });
+
+  for (const item of withTemplate) {
+    const templateId = String(item.workflowTemplateId);
+    const execution = latest.get(item.id);
+    const version = execution?.workflowTemplateId === templateId ? execution.workflowTemplateVersion : null;
+    refs.set(item.id, { key: version ? `${templateId}@v${version}` : templateId, workItem: item, execution });
+  }
+  return refs;
+}
+
+async function loadDeviceTemplates(organizationId: number, refs: Iterable<DeviceTemplateRef>): Promise<any[]> {
+  const byKey = new Map<string, DeviceTemplateRef>();
+  for (const ref of Array.from(refs)) {
+    if (!byKey.has(ref.key)) byKey.set(ref.key, ref);
+  }
+  const templates = await Promise.all(Array.from(byKey.values()).map(async ref => {
+    const template = await templateForExecution(organizationId, ref.workItem, ref.execution);
+    return template ? { ...template, templateKey: ref.key } : null;
+  }));
+  return templates.filter(template => template !== null);
+}
+
+function withTemplateKeys(items: any[], refs: Map<number, DeviceTemplateRef>): any[] {
+  return items.map(item => refs.has(item.id) ? { ...item, workflowTemplateKey: refs.get(item.id)!.key } : item);
+}
+
 // Get available work items for download
-router.get('/available-items', authenticateToken, async (req: any, res) => {
+router.get('/available-items', authenticateToken, rejectWipedSessions, async (req: any, res) => {
   try {
     const organizationId = req.user?.organizationId;
     const userId = req.user?.id;
@@ -210,21 +502,36 @@ router.get('/available-items', authenticateToken, async (req: any, res) => {
       }))
     });
 
+    // With the device's cursor, mark what changed since its last download
+    const deviceId = parseDeviceId(req.query.deviceId);
+    const cursorRow = deviceId ? await getSyncCursor(organizationId, userId, deviceId) : null;
+    const since = cursorSince(cursorRow, req.query.cursor);
+    const changes = new Map<number, WorkItemChange>();
+    if (cursorRow && since) {
+      const held = new Set(cursorRow.workItemIds);
+      const changed = await workItemsChangedSince(organizationId, filteredItems, since);
+      filteredItems.forEach((item: any) => {
+        changes.set(item.id, !held.has(item.id) ? 'added' : changed.has(item.id) ? 'updated' : 'unchanged');
+      });
+    }
+
     // Enhance work items with template names
     const enhancedItems = await Promise.all(
       filteredItems.map(async (item: any) => {
+        const change = changes.get(item.id);
         if (item.workflowTemplateId) {
           const template = await storage.getWorkflowTemplate(organizationId, String(item.workflowTemplateId));
           return {
             ...item,
-            workflowTemplateName: template?.name
+            workflowTemplateName: template?.name,
+            change
           };
         }
-        return item;
+        return { ...item, change };
       })
     );
 
-    res.json({ items: enhancedItems });
+    res.json({ items: enhancedItems, delta: since !== null });
   } catch (error) {
     console.error('Error fetching available items:', error);
     res.status(500).json({ error: 'Failed to fetch available items' });
@@ -232,7 +539,7 @@ router.get('/available-items', authenticateToken, async (req: any, res) => {
 });
 
 // Bulk download work items with templates
-router.post('/download', authenticateToken, async (req: any, res) => {
+router.post('/download', authenticateToken, rejectWipedSessions, async (req: any, res) => {
   try {
     const organizationId = req.user?.organizationId;
     const userId = req.user?.id;
@@ -256,27 +563,60 @@ router.post('/download', authenticateToken, async (req: any, res) => {
       chunkSize: chunkedIds.length
     });
 
+    // Devices that send their id get a sync cursor; the first batch marks where this download starts
+    const deviceId = parseDeviceId(req.body.deviceId);
+    let cursorRow: FieldAppSyncCursor | null = null;
+    if (deviceId && chunkOffset === 0) {
+      [cursorRow] = await db.insert(fieldAppSyncCursors)
+        .values({ organizationId, userId, deviceId, pendingCursorAt: new Date() })
+        .onConflictDoUpdate({
+          target: [fieldAppSyncCursors.organizationId, fieldAppSyncCursors.userId, fieldAppSyncCursors.deviceId],
+          set: { pendingCursorAt: new Date(), updatedAt: new Date() }
+        })
+        .returning();
+    } else if (deviceId) {
+      cursorRow = await getSyncCursor(organizationId, userId, deviceId);
+    }
+    const since = cursorSince(cursorRow, req.body.cursor);
+
     // Fetch all work items and filter by chunked IDs
     const allWorkItems = await storage.getWorkItems(organizationId);
-    const workItems = allWorkItems.filter((item: any) => 
+    const chunkItems = allWorkItems.filter((item: any) => 
       chunkedIds.includes(item.id)
     );
+    const templateRefs = await deviceTemplateRefs(organizationId, chunkItems);
+    const requestedItems = withTemplateKeys(chunkItems, templateRefs);
+
+    // Delta: only items new to the device or changed since its cursor
+    const changes: DownloadBatchChanges = { delta: since !== null, added: [], updated: [], unchanged: 0 };
+    let workItems = requestedItems;
+    if (cursorRow && since) {
+      const held = new Set(cursorRow.workItemIds);
+      const changed = await workItemsChangedSince(organizationId, requestedItems, since);
+      workItems = requestedItems.filter((item: any) => {
+        if (!held.has(item.id)) {
+          changes.added.push(item.id);
+          return true;
+        }
+        if (changed.has(item.id)) {
+          changes.updated.push(item.id);
+          return true;
+        }
+        changes.unchanged++;
+        return false;
+      });
+    } else {
+      changes.added = requestedItems.map((item: any) => item.id);
+    }
 
-    // Collect unique template IDs
-    const templateIds = new Set<string>();
-    workItems.forEach((item: any) => {
-      if (item.workflowTemplateId) {
-        templateIds.add(String(item.workflowTemplateId));
-      }
-    });
-
-    // Fetch templates if requested
+    // Templates of every requested item at the version it runs on, as an unchanged item's template may have changed
     let templates: any[] = [];
-    if (includeTemplates && templateIds.size > 0) {
-      templates = await Promise.all(
-        Array.from(templateIds).map(id => storage.getWorkflowTemplate(organizationId, id))
-      );
-      templates = templates.filter((t: any) => t !== null);
+    if (includeTemplates && templateRefs.size > 0) {
+      templates = await loadDeviceTemplates(organizationId, templateRefs.values());
+      if (cursorRow && since) {
+        const heldTemplates = new Set(cursorRow.templateIds);
+        templates = templates.filter((t: any) => !heldTemplates.has(t.templateKey) || (t.updatedAt && new Date(t.updatedAt) > since));
+      }
     }
 
     // Get execution states and steps with evidence for all work items
@@ -318,15 +658,75 @@ router.post('/download', authenticateToken, async (req: any, res) => {
       }
     }
 
+    // Custom field definitions for the downloaded work item types, so values can be labelled offline
+    const allFieldDefinitions = await workItemCustomFieldService.listDefinitions(organizationId);
+    const itemTypes = new Set(workItems.map((item: any) => item.workItemType ?? null));
+    const customFieldDefinitions = allFieldDefinitions.filter(definition =>
+      Array.from(itemTypes).some(type => definitionsForType([definition], type).length > 0)
+    );
+
     // Return batch metadata for chunked downloads
     const hasMore = (chunkOffset + chunkLimit) < totalRequested;
     const currentBatch = Math.floor(chunkOffset / chunkLimit) + 1;
     const totalBatches = Math.ceil(totalRequested / chunkLimit);
+
+    // The final batch moves the device's cursor on, with tombstones for what it should drop
+    let tombstones: WorkItemTombstone[] | undefined;
+    let cursor: string | null | undefined;
+    if (cursorRow && !hasMore) {
+      const requestedIds = new Set<number>(workItemIds);
+      const itemsById = new Map<number, any>(allWorkItems.map((item: any) => [item.id, item]));
+      const userTeamIds = (await storage.getUserTeams(userId)).map((team: any) => team.id);
+
+      tombstones = [];
+      for (const id of cursorRow.workItemIds) {
+        const item = itemsById.get(id);
+        if (!item) {
+          tombstones.push({ workItemId: id, reason: 'deleted' });
+        } else if (!requestedIds.has(id) && cursorRow.assignedWorkItemIds.includes(id) && !isAssignedToUser(item, userId, userTeamIds)) {
+          tombstones.push({ workItemId: id, reason: 'unassigned' });
+        }
+      }
+
+      // A tombstoned item the device still held when it asked (e.g. kept back for unsynced
+      // changes) stays on the cursor, so it is tombstoned again until the device drops it
+      const deviceHeldIds = new Set<number>(
+        Array.isArray(req.body.heldWorkItemIds) ? req.body.heldWorkItemIds.filter(Number.isInteger) : []
+      );
+      const tombstonedIds = new Set(tombstones.map(tombstone => tombstone.workItemId));
+      const keptIds = new Set(Array.from(tombstonedIds).filter(id => deviceHeldIds.has(id)));
+      const wasAssigned = new Set(cursorRow.assignedWorkItemIds);
+      const heldIds = Array.from(new Set([...cursorRow.workItemIds, ...Array.from(requestedIds)]))
+        .filter(id => keptIds.has(id) || (!tombstonedIds.has(id) && itemsById.has(id)));
+      const heldTemplateIds = new Set(cursorRow.templateIds);
+      const heldRefs = await deviceTemplateRefs(organizationId, heldIds.map(id => itemsById.get(id)).filter(Boolean));
+      heldRefs.forEach(ref => heldTemplateIds.add(ref.key));
+
+      const [updated] = await db.update(fieldAppSyncCursors)
+        .set({
+          cursorAt: cursorRow.pendingCursorAt ?? new Date(),
+          pendingCursorAt: null,
+          workItemIds: heldIds,
+          assignedWorkItemIds: heldIds.filter(id => keptIds.has(id)
+            ? wasAssigned.has(id)
+            : isAssignedToUser(itemsById.get(id), userId, userTeamIds)),
+          templateIds: Array.from(heldTemplateIds),
+          updatedAt: new Date()
+        })
+        .where(eq(fieldAppSyncCursors.id, cursorRow.id))
+        .returning();
+      cursor = formatSyncCursor(updated);
+    }
     
     res.json({
       workItems,
       templates,
       executionStates,
+      customFieldDefinitions,
+      changes,
+      // Final batch only, for devices with a cursor
+      tombstones,
+      cursor,
       // Batch metadata (only present if chunking is used)
       metadata: {
         totalRequested,
@@ -344,8 +744,169 @@ router.post('/download', authenticateToken, async (req: any, res) => {
   }
 });
 
+// The work item fields the field app syncs (SYNCED_WORK_ITEM_FIELDS), as they may be written
+const syncedWorkItemValuesSchema = insertWorkItemSchema.pick({
+  title: true,
+  description: true,
+  status: true,
+  notes: true,
+  dueDate: true,
+  assignedTo: true
+}).partial();
+
+const mapAreaSchema = z.object({
+  workItemIds: z.array(z.number().int()).min(1).max(MAX_AREA_WORK_ITEMS),
+  paddingMeters: z.number().min(0).max(MAX_AREA_PADDING_METERS).optional()
+});
+
+// Area around the selected work items, with the fiber nodes and cables in it, for offline maps
+router.post('/map-area', authenticateToken, rejectWipedSessions, async (req: any, res) => {
+  try {
+    const organizationId = req.user?.organizationId;
+    const parsed = mapAreaSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid request', details: parsed.error.errors });
+    }
+    const { workItemIds, paddingMeters = DEFAULT_AREA_PADDING_METERS } = parsed.data;
+
+    const items = await db.select({ id: workItems.id, workflowMetadata: workItems.workflowMetadata })
+      .from(workItems)
+      .where(and(inArray(workItems.id, workItemIds), eq(workItems.organizationId, organizationId)));
+
+    // A work item is located by its chamber location, or failing that its linked fiber node
+    const linkedNodeIds = items
+      .map(item => Number((item.workflowMetadata as any)?.fiberNodeId))
+      .filter(id => Number.isInteger(id) && id > 0);
+    const linkedNodes = linkedNodeIds.length > 0
+      ? await db.select({ id: fiberNetworkNodes.id, latitude: fiberNetworkNodes.latitude, longitude: fiberNetworkNodes.longitude })
+          .from(fiberNetworkNodes)
+          .where(and(inArray(fiberNetworkNodes.id, linkedNodeIds), eq(fiberNetworkNodes.organizationId, organizationId)))
+      : [];
+    const linkedNodeLocations = new Map(linkedNodes.map(node => [node.id, [Number(node.latitude), Number(node.longitude)] as [number, number]]));
+
+    const points: Array<[number, number]> = [];
+    const locatedWorkItemIds: number[] = [];
+    for (const item of items) {
+      const metadata = (item.workflowMetadata || {}) as any;
+      const chamber = metadata.chamberLocation;
+      const location: [number, number] | undefined = chamber?.latitude != null && chamber?.longitude != null
+        ? [Number(chamber.latitude), Number(chamber.longitude)]
+        : linkedNodeLocations.get(Number(metadata.fiberNodeId));
+      if (location && location.every(Number.isFinite)) {
+        points.push(location);
+        locatedWorkItemIds.push(item.id);
+      }
+    }
+
+    const bounds = boundsAround(points, paddingMeters);
+    if (bounds && boundsSpanMeters(bounds) > MAX_AREA_SPAN_METERS) {
+      return res.status(400).json({
+        error: `These work items are spread over more than ${MAX_AREA_SPAN_METERS / 1000} km; download the map for fewer of them at a time`
+      });
+    }
+
+    const nodeRows = bounds
+      ? await db.select()
+          .from(fiberNetworkNodes)
+          .where(and(
+            eq(fiberNetworkNodes.organizationId, organizationId),
+            gte(fiberNetworkNodes.latitude, String(bounds.south)),
+            lte(fiberNetworkNodes.latitude, String(bounds.north)),
+            gte(fiberNetworkNodes.longitude, String(bounds.west)),
+            lte(fiberNetworkNodes.longitude, String(bounds.east))
+          ))
+      : [];
+
+    const nodes: OfflineNetworkNode[] = nodeRows.map(node => ({
+      id: node.id,
+      name: node.name,
+      nodeType: node.nodeType,
+      status: node.status,
+      network: node.network,
+      latitude: Number(node.latitude),
+      longitude: Number(node.longitude),
+      what3words: node.what3words,
+      address: node.address
+    }));
+
+    // Each cable is stored on both of its nodes; the outgoing copy carries the route from its start
+    const cables: OfflineCable[] = [];
+    for (const node of nodeRows) {
+      for (const cable of (node.fiberDetails?.cables || []) as any[]) {
+        if (cable.direction !== 'outgoing') continue;
+        cables.push({
+          id: cable.id,
+          cableIdentifier: cable.cableIdentifier,
+          status: cable.status || 'planned',
+          cableType: cable.cableType ?? null,
+          fiberCount: cable.fiberCount ?? null,
+          startNodeId: node.id,
+          endNodeId: cable.connectedNodeId,
+          routeGeometry: cable.routeGeometry || []
+        });
+      }
+    }
+
+    const area: OfflineMapArea = {
+      bounds,
+      locatedWorkItemIds,
+      nodes,
+      cables,
+      // Bulk prefetching needs a tile server that allows it, so there is no public default
+      tileUrl: process.env.FIELD_APP_TILE_URL || null,
+      attribution: process.env.FIELD_APP_TILE_URL ? process.env.FIELD_APP_TILE_ATTRIBUTION || null : null
+    };
+    res.json(area);
+  } catch (error) {
+    console.error('Error building offline map area:', error);
+    res.status(500).json({ error: 'Failed to build offline map area' });
+  }
+});
+
+/**
+ * Conditions for the wipe requests that apply to this request's session. A
+ * wipe covers every session the user signed in before it was requested, so
+ * a lost phone is wiped whichever device syncs first, and signing in again
+ * afterwards starts clean.
+ */
+function wipeConditionsFor(req: any) {
+  const authHeader = req.headers.authorization;
+  const token = (authHeader && authHeader.split(' ')[1]) || req.cookies?.authToken;
+  const decoded = token ? jwt.decode(token) as { iat?: number } | null : null;
+  const conditions = [
+    eq(fieldAppWipeRequests.organizationId, req.user.organizationId),
+    eq(fieldAppWipeRequests.userId, req.user.id)
+  ];
+  if (decoded?.iat) {
+    conditions.push(gte(fieldAppWipeRequests.requestedAt, new Date(decoded.iat * 1000)));
+  }
+  return and(...conditions);
+}
+
+async function isWipeRequested(req: any): Promise<boolean> {
+  const [wipe] = await db.select({ id: fieldAppWipeRequests.id }).from(fieldAppWipeRequests).where(wipeConditionsFor(req)).limit(1);
+  return Boolean(wipe);
+}
+
+/**
+ * Refuses every field app call made with a session a wipe covers, so a lost
+ * phone's token can't fetch data again once the wipe is requested. The device
+ * takes the 410 as the signal to wipe itself.
+ */
+async function rejectWipedSessions(req: any, res: any, next: any) {
+  try {
+    if (await isWipeRequested(req)) {
+      return res.status(410).json({ wipe: true, error: 'This device has been remotely wiped' });
+    }
+    next();
+  } catch (error) {
+    console.error('Error checking remote wipe:', error);
+    res.status(500).json({ error: 'Failed to check remote wipe' });
+  }
+}
+
 // Sync changes from offline work
-router.post('/sync', authenticateToken, async (req: any, res) => {
+router.post('/sync', authenticateToken, rejectWipedSessions, async (req: any, res) => {
   const startTime = Date.now();
   const organizationId = req.user?.organizationId;
   const userId = req.user?.id;
@@ -379,32 +940,76 @@ router.post('/sync', authenticateToken, async (req: any, res) => {
       try {
         switch (update.type) {
           case 'workItem':
-            // Extract only updatable fields from the work item data
-            // Field app sends entire work item including localEdits
-            const workItemUpdates: any = {};
-            const allowedFields = ['title', 'description', 'status', 'priority', 'location', 'notes', 'dueDate', 'assignedTo'];
+            // Field app sends entire work item including localEdits and the base it was downloaded with
+            const base: WorkItemBase | undefined = update.data.base;
+            const mine = pickSyncedValues({ ...update.data, ...(update.data.localEdits ?? {}) });
+            const syncedWorkItemId = typeof update.entityId === 'string' ? parseInt(update.entityId, 10) : update.entityId;
+            const current = await storage.getWorkItem(syncedWorkItemId);
             
-            for (const field of allowedFields) {
-              if (update.data[field] !== undefined) {
-                workItemUpdates[field] = update.data[field];
-              }
+            if (!current || current.organizationId !== organizationId) {
+              conflicts.push({
+                entityId: update.entityId,
+                type: update.type,
+                error: 'Work item not found'
+              });
+              break;
             }
             
-            // Also check localEdits for status changes
-            if (update.data.localEdits?.status) {
-              workItemUpdates.status = update.data.localEdits.status;
+            let changedValues: SyncedWorkItemValues;
+            let fieldConflicts: WorkItemSyncConflict['fields'] = [];
+            if (base) {
+              // Three-way merge: only fields the engineer changed are written, and
+              // fields also changed in the office since the download are held back
+              const merged = mergeWorkItem(base.values, mine, pickSyncedValues(current as unknown as Record<string, unknown>));
+              changedValues = merged.changes;
+              fieldConflicts = merged.conflicts;
+            } else {
+              // Queued before base tracking: the field app's values win, as they always did
+              changedValues = mine;
             }
+
+            const parsedValues = syncedWorkItemValuesSchema.safeParse(changedValues);
+            if (!parsedValues.success) {
+              conflicts.push({
+                entityId: update.entityId,
+                type: update.type,
+                error: 'Invalid work item values'
+              });
+              break;
+            }
+            const workItemUpdates: Partial<InsertWorkItem> = parsedValues.data;
             
             console.log('[Sync] Work item update:', { 
-              id: update.entityId, 
+              id: syncedWorkItemId, 
               updates: workItemUpdates,
-              hasStatus: !!workItemUpdates.status 
+              hasBase: !!base,
+              conflictCount: fieldConflicts.length
             });
             
-            const updatedItem = await storage.updateWorkItem(
-              update.entityId,
-              workItemUpdates
-            );
+            const syncedItem = Object.keys(workItemUpdates).length > 0
+              ? await storage.updateWorkItem(syncedWorkItemId, workItemUpdates) ?? current
+              : current;
+            
+            if (syncedItem.status !== current.status) {
+              platformEventBus.emit(organizationId, 'work_item.status_changed', workItemStatusChangedPayload(syncedItem, current.status), {
+                entityId: syncedItem.id,
+                actorUserId: userId,
+              });
+            }
+            
+            if (fieldConflicts.length > 0) {
+              // The server's values after this sync become the base the engineer resolves against
+              const conflict: WorkItemSyncConflict = {
+                entityId: syncedItem.id,
+                type: 'workItem',
+                error: `Changed in the office while you were offline: ${fieldConflicts.map(c => SYNCED_WORK_ITEM_FIELDS[c.field]).join(', ')}`,
+                title: syncedItem.title,
+                fields: fieldConflicts,
+                server: pickSyncedValues(syncedItem as unknown as Record<string, unknown>),
+                serverUpdatedAt: syncedItem.updatedAt?.toISOString() ?? null
+              };
+              conflicts.push(conflict);
+            }
             results.push({ type: 'workItem', id: update.entityId, success: true });
             break;
 
@@ -610,6 +1215,25 @@ router.post('/sync', authenticateToken, async (req: any, res) => {
             results.push({ type: 'workflowStep', id: update.entityId, success: true });
             break;
 
+          case 'timeEntry':
+            // Time logged offline; the client id makes re-sending the same entry harmless
+            const timeData = update.data;
+            const timeEntry = await workItemTimeService.createEntry(
+              organizationId,
+              userId,
+              typeof timeData.workItemId === 'string' ? parseInt(timeData.workItemId, 10) : timeData.workItemId,
+              {
+                startedAt: timeData.startedAt,
+                endedAt: timeData.endedAt,
+                durationMinutes: timeData.durationMinutes,
+                note: timeData.note,
+                source: 'field_app',
+                clientId: timeData.clientId
+              }
+            );
+            results.push({ type: 'timeEntry', id: update.entityId, serverId: timeEntry?.id, success: true });
+            break;
+
           case 'fiberNetworkNode':
             // Create fiber network node from field app
             const nodeData = update.data;
@@ -685,6 +1309,11 @@ router.post('/sync', authenticateToken, async (req: any, res) => {
               ipAddress: req.ip || 'field-app'
             });
             
+            platformEventBus.emit(organizationId, 'fiber_node.created', fiberNodeCreatedPayload(newNode, 'field_app'), {
+              entityId: newNode.id,
+              actorUserId: userId,
+            });
+            
             // Automatically create sign-off work item (7 days due)
             const dueDate = new Date();
             dueDate.setDate(dueDate.getDate() + 7);
@@ -753,26 +1382,15 @@ router.post('/sync', authenticateToken, async (req: any, res) => {
 
     // Get fresh data for user
     const allWorkItems = await storage.getWorkItems(organizationId);
-    const freshWorkItems = allWorkItems.filter((item: any) => {
+    const assignedItems = allWorkItems.filter((item: any) => {
       return item.assignedTo === userId && 
         ['Planning', 'Ready', 'In Progress'].includes(item.status);
     });
 
-    // Get fresh templates for updated work items
-    const templateIds = new Set<string>();
-    freshWorkItems.forEach((item: any) => {
-      if (item.workflowTemplateId) {
-        templateIds.add(String(item.workflowTemplateId));
-      }
-    });
-
-    let freshTemplates: any[] = [];
-    if (templateIds.size > 0) {
-      freshTemplates = await Promise.all(
-        Array.from(templateIds).map(id => storage.getWorkflowTemplate(organizationId, id))
-      );
-      freshTemplates = freshTemplates.filter((t: any) => t !== null);
-    }
+    // Get fresh templates for updated work items, at the version each one runs on
+    const templateRefs = await deviceTemplateRefs(organizationId, assignedItems);
+    const freshWorkItems = withTemplateKeys(assignedItems, templateRefs);
+    const freshTemplates = await loadDeviceTemplates(organizationId, templateRefs.values());
 
     const syncResult = {
       results,
@@ -832,7 +1450,7 @@ router.post('/sync', authenticateToken, async (req: any, res) => {
 });
 
 // Get sync activity logs for current user
-router.get('/sync-logs', authenticateToken, async (req: any, res) => {
+router.get('/sync-logs', authenticateToken, rejectWipedSessions, async (req: any, res) => {
   try {
     const organizationId = req.user?.organizationId;
     const userId = req.user?.id;
@@ -856,13 +1474,132 @@ router.get('/sync-logs', authenticateToken, async (req: any, res) => {
   }
 });
 
-// Upload photo captured offline
-router.post('/upload-photo', authenticateToken, upload.single('file'), async (req: any, res) => {
+// Remote wipe: admins request it, the user's signed-in devices carry it out on their next sync
+const wipeRequestSchema = z.object({
+  userId: z.number().int(),
+  reason: z.string().max(500).optional()
+});
+
+router.get('/wipe-requests', authenticateToken, requireRole(['admin', 'super_admin']), async (req: any, res) => {
+  try {
+    const conditions = [eq(fieldAppWipeRequests.organizationId, req.user.organizationId)];
+    if (req.query.userId) {
+      conditions.push(eq(fieldAppWipeRequests.userId, parseInt(req.query.userId as string)));
+    }
+
+    const requests = await db.select()
+      .from(fieldAppWipeRequests)
+      .where(and(...conditions))
+      .orderBy(desc(fieldAppWipeRequests.requestedAt))
+      .limit(100);
+
+    res.json({ requests });
+  } catch (error) {
+    console.error('Error fetching wipe requests:', error);
+    res.status(500).json({ error: 'Failed to fetch wipe requests' });
+  }
+});
+
+router.post('/wipe-requests', authenticateToken, requireRole(['admin', 'super_admin']), async (req: any, res) => {
+  try {
+    const organizationId = req.user.organizationId;
+    const parsed = wipeRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid request', details: parsed.error.errors });
+    }
+
+    const user = await storage.getUser(parsed.data.userId);
+    if (!user || user.organizationId !== organizationId) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const [request] = await db.insert(fieldAppWipeRequests)
+      .values({
+        organizationId,
+        userId: user.id,
+        reason: parsed.data.reason,
+        requestedBy: req.user.id
+      })
+      .returning();
+
+    res.status(201).json({ request });
+  } catch (error) {
+    console.error('Error requesting remote wipe:', error);
+    res.status(500).json({ error: 'Failed to request remote wipe' });
+  }
+});
+
+// Cancel a wipe, e.g. when a lost phone turns up; devices already wiped stay wiped
+router.delete('/wipe-requests/:id', authenticateToken, requireRole(['admin', 'super_admin']), async (req: any, res) => {
+  try {
+    const [cancelled] = await db.delete(fieldAppWipeRequests)
+      .where(and(
+        eq(fieldAppWipeRequests.id, parseInt(req.params.id)),
+        eq(fieldAppWipeRequests.organizationId, req.user.organizationId)
+      ))
+      .returning();
+
+    if (!cancelled) {
+      return res.status(404).json({ error: 'Wipe request not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error cancelling wipe request:', error);
+    res.status(500).json({ error: 'Failed to cancel wipe request' });
+  }
+});
+
+// Checked by a sync with no changes to send
+router.get('/wipe-status', authenticateToken, async (req: any, res) => {
+  try {
+    res.json({ wipe: await isWipeRequested(req) });
+  } catch (error) {
+    console.error('Error checking remote wipe:', error);
+    res.status(500).json({ error: 'Failed to check remote wipe' });
+  }
+});
+
+// Sent by the device just before it deletes its data
+router.post('/wipe-confirm', authenticateToken, async (req: any, res) => {
+  try {
+    await db.update(fieldAppWipeRequests)
+      .set({ completedAt: new Date() })
+      .where(wipeConditionsFor(req));
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error confirming remote wipe:', error);
+    res.status(500).json({ error: 'Failed to confirm remote wipe' });
+  }
+});
+
+// Resume point of a chunked upload
+router.get('/upload-status/:uploadId', authenticateToken, rejectWipedSessions, async (req: any, res) => {
+  try {
+    const { uploadId } = req.params;
+    if (!isValidUploadId(uploadId)) {
+      return res.status(400).json({ error: 'Invalid uploadId' });
+    }
+
+    if (fs.existsSync(chunkFilePath(req, uploadId, 'done'))) {
+      return res.json({ uploadId, complete: true, receivedBytes: null });
+    }
+
+    const receivedBytes = await fs.promises.stat(chunkFilePath(req, uploadId, 'part')).then(stats => stats.size, () => 0);
+    res.json({ uploadId, complete: false, receivedBytes });
+  } catch (error) {
+    console.error('Error fetching upload status:', error);
+    res.status(500).json({ error: 'Failed to fetch upload status' });
+  }
+});
+
+// Upload photo captured offline (whole file, or chunk by chunk with an uploadId)
+router.post('/upload-photo', authenticateToken, rejectWipedSessions, upload.single('file'), async (req: any, res) => {
   try {
     const organizationId = req.user?.organizationId;
     const userId = req.user?.id;
     const { workItemId, stepId } = req.body;
-    const file = req.file;
+    const file = await receiveUpload(req, res, 'photo');
+    if (file === null) return;
 
     if (!file) {
       return res.status(400).json({ error: 'No file uploaded' });
@@ -905,7 +1642,7 @@ router.post('/upload-photo', authenticateToken, upload.single('file'), async (re
           .limit(1);
 
         if (workItem && workItem.length > 0 && workItem[0].workflowTemplateId) {
-          const template = await storage.getWorkflowTemplate(organizationId, workItem[0].workflowTemplateId);
+          const template = await templateForExecution(organizationId, workItem[0], execution[0]);
           if (!template) {
             console.warn('[Upload Photo] Template not found');
             return res.json({ success: false, error: 'Template not found' });
@@ -1025,13 +1762,14 @@ router.post('/upload-photo', authenticateToken, upload.single('file'), async (re
   }
 });
 
-// Upload audio from field app
-router.post('/upload-audio', authenticateToken, audioUpload.single('file'), async (req: any, res) => {
+// Upload audio from field app (whole file, or chunk by chunk with an uploadId)
+router.post('/upload-audio', authenticateToken, rejectWipedSessions, audioUpload.single('file'), async (req: any, res) => {
   try {
     const organizationId = req.user?.organizationId;
     const userId = req.user?.id;
     const { workItemId, stepId, duration } = req.body;
-    const file = req.file;
+    const file = await receiveUpload(req, res, 'audio');
+    if (file === null) return;
 
     if (!file) {
       return res.status(400).json({ error: 'No file uploaded' });
@@ -1096,7 +1834,7 @@ router.post('/upload-audio', authenticateToken, audioUpload.single('file'), asyn
           .limit(1);
 
         if (workItem && workItem.length > 0 && workItem[0].workflowTemplateId) {
-          const template = await storage.getWorkflowTemplate(organizationId, workItem[0].workflowTemplateId);
+          const template = await templateForExecution(organizationId, workItem[0], execution[0]);
           if (!template) {
             console.warn('[Upload Audio] Template not found');
             return res.json({ success: false, error: 'Template not found' });
@@ -1217,7 +1955,7 @@ router.post('/upload-audio', authenticateToken, audioUpload.single('file'), asyn
 });
 
 // Get audio recording with transcription and extracted data
-router.get('/audio-recordings/:id', authenticateToken, async (req: any, res) => {
+router.get('/audio-recordings/:id', authenticateToken, rejectWipedSessions, async (req: any, res) => {
   try {
     const audioId = req.params.id;
     const organizationId = req.user?.organizationId;
@@ -1245,7 +1983,7 @@ router.get('/audio-recordings/:id', authenticateToken, async (req: any, res) =>
 });
 
 // Update audio recording (manual corrections to transcription/extracted data)
-router.patch('/audio-recordings/:id', authenticateToken, async (req: any, res) => {
+router.patch('/audio-recordings/:id', authenticateToken, rejectWipedSessions, async (req: any, res) => {
   try {
     const audioId = req.params.id;
     const organizationId = req.user?.organizationId;
@@ -1283,7 +2021,7 @@ router.patch('/audio-recordings/:id', authenticateToken, async (req: any, res) =
 });
 
 // Trigger re-processing of audio recording
-router.post('/audio-recordings/:id/reprocess', authenticateToken, async (req: any, res) => {
+router.post('/audio-recordings/:id/reprocess', authenticateToken, rejectWipedSessions, async (req: any, res) => {
   try {
     const audioId = req.params.id;
     const organizationId = req.user?.organizationId;
@@ -1324,7 +2062,7 @@ router.post('/audio-recordings/:id/reprocess', authenticateToken, async (req: an
 });
 
 // Delete photo from workflow step evidence
-router.delete('/delete-photo', authenticateToken, async (req: any, res) => {
+router.delete('/delete-photo', authenticateToken, rejectWipedSessions, async (req: any, res) => {
   try {
     const organizationId = req.user?.organizationId;
     const userId = req.user?.id;
@@ -1,6 +1,9 @@
 import { Router } from 'express';
+import { z } from 'zod';
 import { authenticateToken } from '../auth';
 import { FieldManagerService } from '../services/ocr/FieldManagerService';
+import { workItemCustomFieldService, CustomFieldValidationError } from '../services/WorkItemCustomFieldService';
+import { WORK_ITEM_CUSTOM_FIELD_TYPES, type WorkItemCustomFieldType } from '../../shared/workItemCustomFields';
 
 const router = Router();
 const fieldManager = new FieldManagerService();
@@ -167,4 +170,90 @@ router.post('/verify', authenticateToken, async (req: any, res) => {
   }
 });
 
+// ========================================
+// WORK ITEM CUSTOM FIELDS
+// ========================================
+
+const customFieldOptionSchema = z.object({
+  value: z.string().min(1).max(100),
+  label: z.string().min(1).max(255),
+});
+
+const createWorkItemFieldSchema = z.object({
+  fieldName: z.string().min(1).max(100),
+  displayLabel: z.string().min(1).max(255),
+  fieldType: z.enum(WORK_ITEM_CUSTOM_FIELD_TYPES as [WorkItemCustomFieldType, ...WorkItemCustomFieldType[]]),
+  description: z.string().nullable().optional(),
+  workItemType: z.string().max(100).nullable().optional(),
+  options: z.array(customFieldOptionSchema).nullable().optional(),
+  isRequired: z.boolean().optional(),
+  sortOrder: z.number().int().optional(),
+});
+
+const updateWorkItemFieldSchema = createWorkItemFieldSchema.omit({ fieldName: true, fieldType: true }).partial();
+
+function handleWorkItemFieldError(res: any, error: any, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid data', details: error.errors });
+  }
+  if (error instanceof CustomFieldValidationError) {
+    return res.status(400).json({ error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+// List work item custom field definitions, optionally only those for one work item type
+router.get('/work-items', authenticateToken, async (req: any, res) => {
+  try {
+    const { workItemType } = req.query;
+    const definitions = await workItemCustomFieldService.listDefinitions(
+      req.user.organizationId,
+      workItemType === undefined ? undefined : (workItemType as string) || null
+    );
+    res.json({ definitions });
+  } catch (error: any) {
+    handleWorkItemFieldError(res, error, 'Failed to fetch work item fields');
+  }
+});
+
+router.post('/work-items', authenticateToken, async (req: any, res) => {
+  try {
+    const input = createWorkItemFieldSchema.parse(req.body);
+    const definition = await workItemCustomFieldService.createDefinition(
+      req.user.organizationId,
+      input,
+      req.user.id
+    );
+    res.status(201).json({ definition });
+  } catch (error: any) {
+    handleWorkItemFieldError(res, error, 'Failed to create work item field');
+  }
+});
+
+router.patch('/work-items/:id', authenticateToken, async (req: any, res) => {
+  try {
+    const input = updateWorkItemFieldSchema.parse(req.body);
+    const definition = await workItemCustomFieldService.updateDefinition(req.user.organizationId, parseInt(req.params.id), input);
+    if (!definition) {
+      return res.status(404).json({ error: 'Field not found' });
+    }
+    res.json({ definition });
+  } catch (error: any) {
+    handleWorkItemFieldError(res, error, 'Failed to update work item field');
+  }
+});
+
+router.delete('/work-items/:id', authenticateToken, async (req: any, res) => {
+  try {
+    const deleted = await workItemCustomFieldService.deleteDefinition(req.user.organizationId, parseInt(req.params.id));
+    if (!deleted) {
+      return res.status(404).json({ error: 'Field not found' });
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    handleWorkItemFieldError(res, error, 'Failed to delete work item field');
+  }
+});
+
 export default router;
@@ -4,6 +4,7 @@ import { storage } from '../storage';
 import { authenticateToken } from '../auth';
 import { Request, Response } from 'express';
 import XeroService from '../services/integrations/xeroService';
+import { platformEventBus } from '../services/workflow/PlatformEventBus';
 import { eq, and, or, gte, lte, inArray, isNull, desc, asc, sql, ilike } from 'drizzle-orm';
 import { db } from '../db';
 import { 
@@ -1633,6 +1634,15 @@ router.post('/sync/run', authenticateToken, async (req: Request, res: Response)
 
     console.log(`Xero sync completed: ${syncedCount} synced, ${failedCount} failed in ${durationMs}ms`);
 
+    platformEventBus.emit(organizationId, 'xero.transaction_synced', {
+      syncedCount,
+      failedCount,
+      invoices: xeroData.invoices.length,
+      bankTransactions: xeroData.bankTransactions.length,
+      payments: xeroData.payments.length,
+      status: finalStatus,
+    }, { actorUserId: req.user?.id });
+
     // Build response with COA sync information
     const responseData: any = {
       success: true,
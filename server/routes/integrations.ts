@@ -6,6 +6,9 @@ import { z } from 'zod';
 import crypto from 'crypto';
 import axios from 'axios';
 import { triggerDiscovery } from '../services/integrations/TriggerDiscoveryService';
+import { platformEventBus } from '../services/workflow/PlatformEventBus';
+import { workItemStatusChangedPayload } from '../services/workflow/platformEvents';
+import { integrationGuard } from '../services/integrations/IntegrationGuard';
 import { IntegrationCatalogImporter } from '../services/integrations/IntegrationCatalogImporter';
 import { DatabaseService } from '../services/integrations/databaseService';
 import { SplynxLabelService } from '../services/integrations/SplynxLabelService';
@@ -158,6 +161,39 @@ router.get('/integration-triggers', async (req, res) => {
   }
 });
 
+// Publish the built-in platform event triggers so they are listed alongside integration webhooks
+router.post('/integration-triggers/platform-events', async (req, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.organizationId) {
+      return res.status(401).json({ error: 'User not authenticated or missing organization' });
+    }
+
+    await platformEventBus.ensureCatalogue(user.organizationId);
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Error publishing platform event triggers:', error);
+    res.status(500).json({ error: error.message || 'Failed to publish platform event triggers' });
+  }
+});
+
+// Get circuit breaker state for the organization's integrations
+// IMPORTANT: This route must come BEFORE /:platformType to avoid route conflicts
+router.get('/circuit-breakers', async (req, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.organizationId) {
+      return res.status(401).json({ error: 'User not authenticated or missing organization' });
+    }
+
+    const breakers = await integrationGuard.getBreakers(user.organizationId);
+    res.json(breakers);
+  } catch (error: any) {
+    console.error('Error fetching circuit breakers:', error);
+    res.status(500).json({ error: error.message || 'Failed to fetch circuit breakers' });
+  }
+});
+
 // Get specific integration
 router.get('/:platformType', async (req, res) => {
   try {
@@ -472,6 +508,102 @@ router.patch('/:id/metadata', async (req, res) => {
   }
 });
 
+const resilienceConfigSchema = z.object({
+  rateLimitPerMinute: z.number().positive().nullable().optional(),
+  timeoutSeconds: z.number().positive().nullable().optional(),
+  failureThreshold: z.number().int().positive().nullable().optional(),
+  cooldownSeconds: z.number().positive().nullable().optional(),
+});
+
+// Update rate limit, timeout and circuit breaker settings (null falls back to the default)
+router.patch('/:id/resilience', async (req, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.organizationId) {
+      return res.status(401).json({ error: 'User not authenticated or missing organization' });
+    }
+
+    const integrationId = parseInt(req.params.id);
+    if (isNaN(integrationId)) {
+      return res.status(400).json({ error: 'Invalid integration ID' });
+    }
+
+    const parsed = resilienceConfigSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid resilience settings', details: parsed.error.errors });
+    }
+
+    const existingIntegration = await storage.getIntegrationById(integrationId);
+    if (!existingIntegration) {
+      return res.status(404).json({ error: 'Integration not found' });
+    }
+
+    if (existingIntegration.organizationId !== user.organizationId) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const resilienceConfig: Record<string, number> = { ...(existingIntegration.resilienceConfig || {}) };
+    for (const [key, value] of Object.entries(parsed.data)) {
+      if (value === null) {
+        delete resilienceConfig[key];
+      } else if (value !== undefined) {
+        resilienceConfig[key] = value;
+      }
+    }
+
+    const integration = await storage.updateIntegration(integrationId, { resilienceConfig });
+    if (!integration) {
+      return res.status(500).json({ error: 'Failed to update resilience settings' });
+    }
+
+    res.json({ success: true, resilienceConfig: integration.resilienceConfig });
+  } catch (error: any) {
+    console.error('Error updating resilience settings:', error);
+    res.status(500).json({ error: error.message || 'Failed to update resilience settings' });
+  }
+});
+
+// Close an integration's circuit breaker by hand
+router.post('/:id/circuit-breaker/reset', async (req, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.organizationId) {
+      return res.status(401).json({ error: 'User not authenticated or missing organization' });
+    }
+
+    const integrationId = parseInt(req.params.id);
+    if (isNaN(integrationId)) {
+      return res.status(400).json({ error: 'Invalid integration ID' });
+    }
+
+    const existingIntegration = await storage.getIntegrationById(integrationId);
+    if (!existingIntegration) {
+      return res.status(404).json({ error: 'Integration not found' });
+    }
+
+    if (existingIntegration.organizationId !== user.organizationId) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    await integrationGuard.resetBreaker(integrationId);
+
+    await storage.logActivity({
+      organizationId: user.organizationId,
+      userId: user.id,
+      actionType: 'status_change',
+      entityType: 'integration',
+      entityId: integrationId,
+      description: `Reset circuit breaker for ${existingIntegration.platformType} integration`,
+      metadata: { platformType: existingIntegration.platformType },
+    });
+
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Error resetting circuit breaker:', error);
+    res.status(500).json({ error: error.message || 'Failed to reset circuit breaker' });
+  }
+});
+
 // Test integration connection
 router.post('/:platformType/test', async (req, res) => {
   console.log(`[TEST ENDPOINT] Hit for platform: ${req.params.platformType}`);
@@ -2381,11 +2513,18 @@ router.patch('/splynx/entity/ticket/:ticketId/status', async (req, res) => {
           if (linkedWorkItem.status !== workItemStatus) {
             console.log(`[BIDIRECTIONAL SYNC] Updating work item #${linkedWorkItem.id} status: ${linkedWorkItem.status} → ${workItemStatus}`);
             
-            await storage.updateWorkItem(linkedWorkItem.id, {
+            const syncedWorkItem = await storage.updateWorkItem(linkedWorkItem.id, {
               status: workItemStatus,
               updatedAt: new Date()
             });
             
+            if (syncedWorkItem) {
+              platformEventBus.emit(req.user.organizationId, 'work_item.status_changed', workItemStatusChangedPayload(syncedWorkItem, linkedWorkItem.status), {
+                entityId: linkedWorkItem.id,
+                actorUserId: req.user.id,
+              });
+            }
+            
             // Log activity
             await storage.logActivity({
               organizationId: req.user.organizationId,
@@ -10,6 +10,7 @@ import { menuSections, menuItems, pages } from '../../shared/schema.js';
 import { eq, and, asc, sql } from 'drizzle-orm';
 import { authenticateToken } from '../auth';
 import { checkNavigationPaths } from '../utils/navSelfCheck.js';
+import { WorkItemViewService, workItemViewService } from '../services/WorkItemViewService.js';
 
 const router = Router();
 
@@ -94,6 +95,9 @@ router.get('/navigation', authenticateToken, async (req, res) => {
     const userRole = req.user?.role || 'user';
     console.log('Navigation API - Authenticated user:', { id: req.user?.id, email: req.user?.email, role: userRole });
 
+    // Pinned work item views are only shown to the audience of the view
+    const viewAudience = await workItemViewService.menuAudience(req.user?.id || 0);
+
     // Fetch sections with their items
     const sections = await db
       .select()
@@ -133,6 +137,7 @@ router.get('/navigation', authenticateToken, async (req, res) => {
           const visibleStatuses = isAdminUser 
             ? ['draft', 'dev', 'live', 'archived'] 
             : ['live'];
+          if (!WorkItemViewService.canSeePinnedItem(menuItem.customPermissions, viewAudience)) return false;
           return !page || visibleStatuses.includes(page.status);
         });
 
@@ -5,10 +5,23 @@ import { JSDOM } from 'jsdom';
 import { storage } from '../storage.js';
 import { authenticateToken } from '../auth.js';
 import { ensureTeamMeetings } from '../utils/meetingGenerator.js';
+import { platformEventBus } from '../services/workflow/PlatformEventBus.js';
+import { keyResultUpdatedPayload, workItemStatusChangedPayload } from '../services/workflow/platformEvents.js';
+import { restartOrgCronJobs } from '../services/cronJobs.js';
+import { CATCH_UP_POLICIES } from '../services/distributedScheduler.js';
+import { keyResultBindings } from '../services/KeyResultBindingService.js';
+import { okrForecasts } from '../services/OkrForecastService.js';
+import { meetingAgenda, MeetingAgendaError } from '../services/MeetingAgendaService.js';
+import { meetingMinutes, MeetingMinutesError } from '../services/MeetingMinutesService.js';
 import { eq, and, gte, lte, desc, inArray, notInArray, gt, asc, isNull, or, sql } from 'drizzle-orm';
 import { db } from '../db.js';
-import { checkInMeetings, teams, workItems, teamMembers, meetingAttendees, updateMeetingStatusSchema, keyResultTasks, objectives, keyResults, activityLogs, keyResultSnapshots, keyResultComments, users, mindMapNodePositions } from '../../shared/schema.js';
-import type { User } from '../../shared/schema.js';
+import { checkInMeetings, teams, workItems, teamMembers, meetingAttendees, updateMeetingStatusSchema, keyResultTasks, objectives, keyResults, activityLogs, keyResultSnapshots, keyResultDataBindings, keyResultComments, users, mindMapNodePositions, scheduledJobRuns } from '../../shared/schema.js';
+import { DATA_BINDING_SOURCE_TYPES, describeDataBinding } from '../../shared/keyResultDataBinding.js';
+import { OBJECTIVE_LEVELS, computeObjectiveRollups, createsCascadeCycle, type ObjectiveLevel } from '../../shared/okrRollup.js';
+import type { KeyResult, KeyResultTask, User } from '../../shared/schema.js';
+import { validateRRule } from '../../shared/recurrence.js';
+import { MEETING_TOPIC_STATUSES } from '../../shared/meetingAgenda.js';
+import { minutesFileName } from '../../shared/meetingMinutes.js';
 
 const router = Router();
 
@@ -43,6 +56,21 @@ async function logActivity(
   }
 }
 
+// Check a parent objective link; returns an error message when it cannot be used
+async function validateParentObjective(organizationId: number, objectiveId: number | null, parentObjectiveId: number): Promise<string | null> {
+  const orgObjectives = await db.select({ id: objectives.id, parentObjectiveId: objectives.parentObjectiveId })
+    .from(objectives)
+    .where(eq(objectives.organizationId, organizationId));
+
+  if (!orgObjectives.some(objective => objective.id === parentObjectiveId)) {
+    return 'Parent objective not found';
+  }
+  if (objectiveId !== null && createsCascadeCycle(orgObjectives, objectiveId, parentObjectiveId)) {
+    return 'An objective cannot be aligned to itself or one of its own child objectives';
+  }
+  return null;
+}
+
 // Schemas
 const createObjectiveSchema = z.object({
   title: z.string().min(1).max(255),
@@ -55,6 +83,9 @@ const createObjectiveSchema = z.object({
   kpiType: z.enum(['Derived from Key Results', 'Manual Input']).default('Derived from Key Results'),
   ownerId: z.number().optional().nullable(),
   teamId: z.number().optional().nullable(),
+  level: z.enum(OBJECTIVE_LEVELS as [ObjectiveLevel, ...ObjectiveLevel[]]).optional().nullable(),
+  parentObjectiveId: z.number().optional().nullable(),
+  contributionWeight: z.number().min(0).optional(),
 });
 
 // Key Results validation schema (migration 002)
@@ -69,6 +100,7 @@ const createKeyResultSchema = z.object({
   status: z.enum(['Not Started', 'On Track', 'At Risk', 'Stuck', 'Completed']).default('Not Started'),
   knowledgeDocumentId: z.number().optional(),
   ownerId: z.number().optional(),
+  weight: z.string().refine(value => !isNaN(parseFloat(value)) && parseFloat(value) >= 0, 'Weight must be zero or more').optional(),
 });
 
 // Key Result Task validation schema (migration 003)
@@ -208,13 +240,38 @@ router.get('/objectives', authenticateToken, async (req: AuthRequest, res: Respo
   try {
     const organizationId = req.user?.organizationId || 3;
     const objectives = await storage.getObjectives(organizationId);
-    res.json(objectives);
+    const rollups = computeObjectiveRollups(objectives);
+    res.json(objectives.map(objective => ({ ...objective, rollup: rollups.get(objective.id) })));
   } catch (error) {
     console.error('Error fetching objectives:', error);
     res.status(500).json({ error: 'Failed to fetch objectives' });
   }
 });
 
+// Forecast key results to the end of their cycle and flag objectives likely to miss
+router.get('/forecasts', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId;
+    if (!organizationId) {
+      return res.status(400).json({ error: 'Organization ID required' });
+    }
+
+    const objectiveIds = typeof req.query.objectiveIds === 'string'
+      ? req.query.objectiveIds.split(',').map(id => parseInt(id)).filter(id => !isNaN(id))
+      : undefined;
+    const teamId = req.query.teamId ? parseInt(req.query.teamId as string) : undefined;
+
+    const forecast = await okrForecasts.forecastOrganization(organizationId, {
+      objectiveIds,
+      teamId: teamId && !isNaN(teamId) ? teamId : undefined,
+    });
+    res.json(forecast);
+  } catch (error) {
+    console.error('Error forecasting objectives:', error);
+    res.status(500).json({ error: 'Failed to forecast objectives' });
+  }
+});
+
 // Get single objective
 router.get('/objectives/:id', authenticateToken, async (req: AuthRequest, res: Response) => {
   try {
@@ -239,6 +296,13 @@ router.post('/objectives', authenticateToken, async (req: AuthRequest, res: Resp
     const organizationId = req.user?.organizationId || 3;
     const userId = req.user?.id || 7;
     
+    if (data.parentObjectiveId) {
+      const parentError = await validateParentObjective(organizationId, null, data.parentObjectiveId);
+      if (parentError) {
+        return res.status(400).json({ error: parentError });
+      }
+    }
+    
     const objective = await storage.createObjective({
       organizationId,
       title: data.title,
@@ -249,6 +313,9 @@ router.post('/objectives', authenticateToken, async (req: AuthRequest, res: Resp
       kpiType: data.kpiType,
       ownerId: data.ownerId || userId,
       teamId: data.teamId,
+      level: data.level,
+      parentObjectiveId: data.parentObjectiveId,
+      contributionWeight: data.contributionWeight?.toString(),
       createdBy: userId,
     });
     
@@ -303,10 +370,18 @@ router.put('/objectives/:id', authenticateToken, async (req: AuthRequest, res: R
     const objectiveId = parseInt(req.params.id);
     const data = createObjectiveSchema.partial().parse(req.body);
     
+    if (data.parentObjectiveId) {
+      const parentError = await validateParentObjective(req.user?.organizationId || 3, objectiveId, data.parentObjectiveId);
+      if (parentError) {
+        return res.status(400).json({ error: parentError });
+      }
+    }
+    
     const objective = await storage.updateObjective(objectiveId, {
       ...data,
       targetValue: data.targetValue?.toString(),
       currentValue: data.currentValue?.toString(),
+      contributionWeight: data.contributionWeight?.toString(),
       updatedAt: new Date(),
     });
     
@@ -655,9 +730,10 @@ router.get('/key-results/:id/kpi-history', authenticateToken, async (req: AuthRe
       value: parseFloat(snapshot.currentValue),
       target: parseFloat(snapshot.targetValue),
       meetingId: snapshot.checkInMeetingId,
-      status: snapshot.status
+      status: snapshot.status,
+      source: snapshot.source
     }));
-    
+
     res.json(history);
   } catch (error) {
     console.error('Failed to fetch KPI history:', error);
@@ -665,6 +741,172 @@ router.get('/key-results/:id/kpi-history', authenticateToken, async (req: AuthRe
   }
 });
 
+const dataBindingSchema = z.object({
+  sourceType: z.enum(DATA_BINDING_SOURCE_TYPES as [string, ...string[]]),
+  sourceConfig: z.record(z.any()),
+  cronExpression: z.string().min(1).default('0 6 * * *'),
+  timezone: z.string().min(1).default('UTC'),
+  catchUpPolicy: z.enum(CATCH_UP_POLICIES as [string, ...string[]]).default('run_once'),
+  isEnabled: z.boolean().default(true),
+});
+
+// Load a key result of the caller's organization, or send a 404
+async function getOrgKeyResult(req: AuthRequest, res: Response) {
+  const keyResult = await storage.getKeyResult(parseInt(req.params.id));
+  if (!keyResult || keyResult.organizationId !== req.user?.organizationId) {
+    res.status(404).json({ error: 'Key result not found' });
+    return null;
+  }
+  return keyResult;
+}
+
+// Get the data binding of a key result with its recent refreshes and their lineage
+router.get('/key-results/:id/data-binding', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const keyResult = await getOrgKeyResult(req, res);
+    if (!keyResult) return;
+
+    const binding = await keyResultBindings.getBinding(keyResult.organizationId, keyResult.id);
+    const refreshes = await db.select()
+      .from(keyResultSnapshots)
+      .where(and(
+        eq(keyResultSnapshots.keyResultId, keyResult.id),
+        eq(keyResultSnapshots.source, 'data_binding')
+      ))
+      .orderBy(desc(keyResultSnapshots.snapshotDate))
+      .limit(20);
+
+    res.json({ binding: binding ?? null, refreshes });
+  } catch (error) {
+    console.error('Error fetching key result data binding:', error);
+    res.status(500).json({ error: 'Failed to fetch data binding' });
+  }
+});
+
+// Create or replace the data binding of a key result
+router.put('/key-results/:id/data-binding', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const keyResult = await getOrgKeyResult(req, res);
+    if (!keyResult) return;
+
+    const data = dataBindingSchema.parse(req.body);
+    try {
+      keyResultBindings.validateSchedule(data.cronExpression, data.timezone);
+    } catch (error: any) {
+      return res.status(400).json({ error: `Invalid refresh schedule: ${error.message}` });
+    }
+
+    // Clearing nextRunAt makes the next poll work out the first refresh from the new schedule
+    const values = { ...data, nextRunAt: null, updatedAt: new Date() };
+    const [binding] = await db.insert(keyResultDataBindings)
+      .values({
+        ...values,
+        organizationId: keyResult.organizationId,
+        keyResultId: keyResult.id,
+        createdBy: req.user?.id,
+      })
+      .onConflictDoUpdate({ target: keyResultDataBindings.keyResultId, set: values })
+      .returning();
+
+    await logActivity(
+      keyResult.organizationId,
+      req.user!.id,
+      'kpi_update',
+      'key_result',
+      keyResult.id,
+      `Bound to ${describeDataBinding(binding.sourceType, binding.sourceConfig)}`,
+      { dataBindingId: binding.id, sourceType: binding.sourceType, cronExpression: binding.cronExpression }
+    );
+
+    res.json(binding);
+  } catch (error) {
+    console.error('Error saving key result data binding:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid data', details: error.errors });
+    }
+    res.status(500).json({ error: 'Failed to save data binding' });
+  }
+});
+
+// Remove the data binding; the key result goes back to manual updates
+router.delete('/key-results/:id/data-binding', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const keyResult = await getOrgKeyResult(req, res);
+    if (!keyResult) return;
+
+    const [deleted] = await db.delete(keyResultDataBindings)
+      .where(and(
+        eq(keyResultDataBindings.keyResultId, keyResult.id),
+        eq(keyResultDataBindings.organizationId, keyResult.organizationId)
+      ))
+      .returning();
+
+    if (!deleted) {
+      return res.status(404).json({ error: 'Data binding not found' });
+    }
+
+    await logActivity(
+      keyResult.organizationId,
+      req.user!.id,
+      'kpi_update',
+      'key_result',
+      keyResult.id,
+      `Removed data binding (${describeDataBinding(deleted.sourceType, deleted.sourceConfig)})`,
+      { dataBindingId: deleted.id }
+    );
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error removing key result data binding:', error);
+    res.status(500).json({ error: 'Failed to remove data binding' });
+  }
+});
+
+// Evaluate a binding configuration without saving it or touching the key result
+router.post('/key-results/:id/data-binding/preview', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const keyResult = await getOrgKeyResult(req, res);
+    if (!keyResult) return;
+
+    const data = dataBindingSchema.pick({ sourceType: true, sourceConfig: true }).parse(req.body);
+    try {
+      const result = await keyResultBindings.evaluate({ ...data, organizationId: keyResult.organizationId });
+      res.json(result);
+    } catch (error: any) {
+      res.status(422).json({ error: error.message });
+    }
+  } catch (error) {
+    console.error('Error previewing key result data binding:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid data', details: error.errors });
+    }
+    res.status(500).json({ error: 'Failed to preview data binding' });
+  }
+});
+
+// Refresh a bound key result now instead of waiting for its schedule
+router.post('/key-results/:id/data-binding/refresh', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const keyResult = await getOrgKeyResult(req, res);
+    if (!keyResult) return;
+
+    const binding = await keyResultBindings.getBinding(keyResult.organizationId, keyResult.id);
+    if (!binding) {
+      return res.status(404).json({ error: 'Data binding not found' });
+    }
+
+    try {
+      const snapshot = await keyResultBindings.refresh(binding, { trigger: 'manual', userId: req.user?.id });
+      res.json(snapshot);
+    } catch (error: any) {
+      res.status(422).json({ error: error.message });
+    }
+  } catch (error) {
+    console.error('Error refreshing key result data binding:', error);
+    res.status(500).json({ error: 'Failed to refresh data binding' });
+  }
+});
+
 // Add comment to a key result
 router.post('/key-results/:id/comments', authenticateToken, async (req: AuthRequest, res: Response) => {
   try {
@@ -736,6 +978,7 @@ router.post('/key-results', authenticateToken, async (req: AuthRequest, res: Res
       status: data.status,
       knowledgeDocumentId: data.knowledgeDocumentId,
       ownerId: data.ownerId || userId,
+      weight: data.weight,
       createdBy: userId,
       // TODO: Removed fields in migration 002 - may need to revisit for timeline/unit tracking
       // unit: data.unit, // REMOVED in migration 002
@@ -828,6 +1071,10 @@ router.put('/key-results/:id', authenticateToken, async (req: AuthRequest, res:
       changes.push(`Updated title from "${oldKeyResult.title}" to "${data.title}"`);
     }
     
+    if (oldKeyResult && (keyResult.currentValue !== oldKeyResult.currentValue || keyResult.status !== oldKeyResult.status)) {
+      emitKeyResultUpdated(organizationId, userId, keyResult, oldKeyResult.currentValue);
+    }
+    
     res.json(keyResult);
   } catch (error) {
     console.error('Error updating key result:', error);
@@ -934,6 +1181,14 @@ router.delete('/key-results/:id', authenticateToken, async (req: AuthRequest, re
   }
 });
 
+// Publish a key_result.updated platform event for agent workflows
+function emitKeyResultUpdated(organizationId: number, userId: number, keyResult: KeyResult, oldValue: string | null) {
+  platformEventBus.emit(organizationId, 'key_result.updated', keyResultUpdatedPayload(keyResult, oldValue), {
+    entityId: keyResult.id,
+    actorUserId: userId,
+  });
+}
+
 // Update key result progress
 router.post('/key-results/:id/progress', authenticateToken, async (req: AuthRequest, res: Response) => {
   try {
@@ -942,6 +1197,8 @@ router.post('/key-results/:id/progress', authenticateToken, async (req: AuthRequ
     const organizationId = req.user?.organizationId || 3;
     const userId = req.user?.id || 7;
     
+    const oldKeyResult = await storage.getKeyResult(keyResultId);
+    
     const keyResult = await storage.updateKeyResult(keyResultId, {
       currentValue: data.currentValue,
       updatedAt: new Date(),
@@ -965,6 +1222,10 @@ router.post('/key-results/:id/progress', authenticateToken, async (req: AuthRequ
       },
     });
     
+    if (keyResult.currentValue !== oldKeyResult?.currentValue) {
+      emitKeyResultUpdated(organizationId, userId, keyResult, oldKeyResult?.currentValue ?? null);
+    }
+    
     res.json(keyResult);
   } catch (error) {
     console.error('Error updating progress:', error);
@@ -1132,6 +1393,8 @@ const createKeyResultTaskSchema = z.object({
   isRecurring: z.boolean().default(false),
   frequency: z.enum(['daily', 'weekly', 'monthly', 'quarterly']).optional(),
   frequencyParams: z.any().optional(), // JSON params for frequency configuration
+  recurrenceRule: z.string().optional(), // RFC 5545 RRULE, used instead of frequency when set
+  skipPublicHolidays: z.boolean().optional(),
   endDate: z.string().optional(),
   totalOccurrences: z.number().optional(),
   teamId: z.number().optional(),
@@ -1141,6 +1404,18 @@ const createKeyResultTaskSchema = z.object({
   nextDueDate: z.string().optional(), // For recurring tasks
 });
 
+// Validate an RRULE in a task update and anchor a new rule at the task's next due date.
+// Returns an error message for the response, or null.
+function applyRecurrenceRuleUpdate(updates: any, task: KeyResultTask): string | null {
+  if (!updates.recurrenceRule) return null;
+  const ruleError = validateRRule(updates.recurrenceRule);
+  if (ruleError) return `Invalid recurrence rule: ${ruleError}`;
+  if (updates.recurrenceRule !== task.recurrenceRule && !updates.recurrenceStart) {
+    updates.recurrenceStart = new Date(updates.nextDueDate || task.nextDueDate || new Date()).toISOString().split('T')[0];
+  }
+  return null;
+}
+
 // Get Key Result Tasks for a specific Key Result
 router.get('/key-results/:id/tasks', authenticateToken, async (req: AuthRequest, res: Response) => {
   try {
@@ -1188,12 +1463,19 @@ router.post('/key-results/:id/tasks', authenticateToken, async (req: AuthRequest
         });
       }
       
-      // Ensure frequency is set
-      if (!data.frequency) {
+      // Ensure frequency or recurrence rule is set
+      if (!data.frequency && !data.recurrenceRule) {
         return res.status(400).json({ 
-          error: 'Recurring tasks must have a frequency' 
+          error: 'Recurring tasks must have a frequency or recurrence rule' 
         });
       }
+      
+      if (data.recurrenceRule) {
+        const ruleError = validateRRule(data.recurrenceRule);
+        if (ruleError) {
+          return res.status(400).json({ error: `Invalid recurrence rule: ${ruleError}` });
+        }
+      }
     }
     
     const task = await storage.createKeyResultTask({
@@ -1205,6 +1487,12 @@ router.post('/key-results/:id/tasks', authenticateToken, async (req: AuthRequest
       isRecurring: data.isRecurring,
       frequency: data.frequency,
       frequencyParams: data.frequencyParams,
+      recurrenceRule: data.isRecurring ? data.recurrenceRule || null : null,
+      // The rule's COUNT and INTERVAL count from the first due date
+      recurrenceStart: data.isRecurring && data.recurrenceRule
+        ? (data.nextDueDate ? new Date(data.nextDueDate) : new Date()).toISOString().split('T')[0]
+        : null,
+      skipPublicHolidays: data.isRecurring ? data.skipPublicHolidays ?? false : false,
       endDate: data.endDate ? new Date(data.endDate) : undefined,
       totalOccurrences: data.totalOccurrences,
       teamId: data.teamId || keyResult.teamId,
@@ -1242,7 +1530,8 @@ router.post('/key-results/:id/tasks', authenticateToken, async (req: AuthRequest
         title: data.title, 
         keyResultId, 
         isRecurring: data.isRecurring,
-        frequency: data.frequency 
+        frequency: data.frequency,
+        recurrenceRule: data.recurrenceRule
       }
     );
     
@@ -1272,6 +1561,11 @@ router.patch('/strategy/tasks/:id', authenticateToken, async (req: AuthRequest,
       return res.status(404).json({ error: 'Task not found' });
     }
     
+    const ruleError = applyRecurrenceRuleUpdate(updates, previousTask);
+    if (ruleError) {
+      return res.status(400).json({ error: ruleError });
+    }
+    
     // Update the task
     const task = await storage.updateKeyResultTask(taskId, updates);
     
@@ -1791,6 +2085,13 @@ router.post('/check-in-meetings/:id/start', authenticateToken, async (req: AuthR
       .where(eq(checkInMeetings.id, meetingId))
       .returning();
     
+    // Bring the generated agenda up to date with changes since it was built
+    try {
+      await meetingAgenda.buildAgenda(organizationId, meetingId);
+    } catch (agendaError) {
+      console.error('Failed to refresh meeting agenda:', agendaError);
+    }
+    
     // Log activity
     await storage.logActivity({
       organizationId,
@@ -1938,6 +2239,9 @@ router.post('/check-in-meetings/:id/complete', authenticateToken, async (req: Au
       }
     });
     
+    // Save and send the minutes as configured, without holding up the response
+    void meetingMinutes.onMeetingCompleted(organizationId, meetingId, userId);
+    
     // Return updated meeting with carryover info
     res.json({
       ...updated[0],
@@ -1953,6 +2257,62 @@ router.post('/check-in-meetings/:id/complete', authenticateToken, async (req: Au
   }
 });
 
+function handleMinutesError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid data', details: error.errors });
+  }
+  if (error instanceof MeetingMinutesError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  return res.status(500).json({ error: fallback });
+}
+
+// GET /api/strategy/check-in-meetings/:id/minutes - Meeting minutes as JSON, or ?format=markdown to download
+router.get('/check-in-meetings/:id/minutes', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId || 3;
+    const { minutes, markdown } = await meetingMinutes.renderMarkdown(organizationId, parseInt(req.params.id));
+    if (req.query.format === 'markdown') {
+      res.setHeader('Content-Type', 'text/markdown; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${minutesFileName(minutes, 'md')}"`);
+      return res.send(markdown);
+    }
+    res.json({ minutes, markdown });
+  } catch (error) {
+    handleMinutesError(res, error, 'Failed to generate meeting minutes');
+  }
+});
+
+// POST /api/strategy/check-in-meetings/:id/minutes/save - Save the minutes to the knowledge base
+router.post('/check-in-meetings/:id/minutes/save', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId || 3;
+    const userId = req.user?.id || 7;
+    const { folderId } = z.object({ folderId: z.number().int().positive().nullable().optional() }).parse(req.body ?? {});
+    const settings = folderId === undefined ? await storage.getStrategySettings(organizationId) : null;
+    const document = await meetingMinutes.saveToKnowledgeBase(
+      organizationId,
+      parseInt(req.params.id),
+      userId,
+      folderId === undefined ? settings?.minutesFolderId : folderId
+    );
+    res.json(document);
+  } catch (error) {
+    handleMinutesError(res, error, 'Failed to save meeting minutes');
+  }
+});
+
+// POST /api/strategy/check-in-meetings/:id/minutes/send - Email the minutes to the attendees
+router.post('/check-in-meetings/:id/minutes/send', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId || 3;
+    res.json(await meetingMinutes.distribute(organizationId, parseInt(req.params.id)));
+  } catch (error) {
+    handleMinutesError(res, error, 'Failed to send meeting minutes');
+  }
+});
+
 // GET /api/strategy/meetings/:id/snapshots - Get Key Result snapshots for a meeting
 router.get('/meetings/:id/snapshots', authenticateToken, async (req: AuthRequest, res: Response) => {
   try {
@@ -2109,6 +2469,86 @@ router.get('/meetings/:id/key-result-comments', authenticateToken, async (req: A
   }
 });
 
+const meetingTopicSchema = z.object({
+  title: z.string().min(1).max(255),
+  description: z.string().nullable().optional(),
+  priority: z.number().int().optional(),
+  timeAllocated: z.number().int().min(0).nullable().optional(),
+  actualTime: z.number().int().min(0).nullable().optional(),
+  status: z.enum(MEETING_TOPIC_STATUSES).optional(),
+  outcomes: z.string().nullable().optional(),
+});
+
+function handleAgendaError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid data', details: error.errors });
+  }
+  if (error instanceof MeetingAgendaError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  return res.status(500).json({ error: fallback });
+}
+
+// GET /api/strategy/meetings/:meetingId/topics - Agenda topics in running order
+router.get('/meetings/:meetingId/topics', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId || 3;
+    res.json(await meetingAgenda.listTopics(organizationId, parseInt(req.params.meetingId)));
+  } catch (error) {
+    handleAgendaError(res, error, 'Failed to fetch meeting topics');
+  }
+});
+
+// POST /api/strategy/meetings/:meetingId/agenda/generate - Rebuild the generated part of the agenda
+router.post('/meetings/:meetingId/agenda/generate', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId || 3;
+    res.json(await meetingAgenda.buildAgenda(organizationId, parseInt(req.params.meetingId)));
+  } catch (error) {
+    handleAgendaError(res, error, 'Failed to generate meeting agenda');
+  }
+});
+
+// POST /api/strategy/meetings/:meetingId/topics - Add a topic by hand
+router.post('/meetings/:meetingId/topics', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId || 3;
+    const data = meetingTopicSchema.parse(req.body);
+    res.status(201).json(await meetingAgenda.addTopic(organizationId, parseInt(req.params.meetingId), data));
+  } catch (error) {
+    handleAgendaError(res, error, 'Failed to add meeting topic');
+  }
+});
+
+// PATCH /api/strategy/meetings/:meetingId/topics/:topicId - Record the outcome of a topic or edit it
+router.patch('/meetings/:meetingId/topics/:topicId', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId || 3;
+    const data = meetingTopicSchema.partial().parse(req.body);
+    const topic = await meetingAgenda.updateTopic(
+      organizationId,
+      parseInt(req.params.meetingId),
+      parseInt(req.params.topicId),
+      data
+    );
+    res.json(topic);
+  } catch (error) {
+    handleAgendaError(res, error, 'Failed to update meeting topic');
+  }
+});
+
+// DELETE /api/strategy/meetings/:meetingId/topics/:topicId
+router.delete('/meetings/:meetingId/topics/:topicId', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId || 3;
+    await meetingAgenda.deleteTopic(organizationId, parseInt(req.params.meetingId), parseInt(req.params.topicId));
+    res.status(204).send();
+  } catch (error) {
+    handleAgendaError(res, error, 'Failed to delete meeting topic');
+  }
+});
+
 // POST /api/strategy/meetings/:id/seed-items - Seed work items to meeting by assigning eligible team items
 router.post('/meetings/:id/seed-items', authenticateToken, async (req: AuthRequest, res: Response) => {
   try {
@@ -2750,10 +3190,23 @@ router.post('/meeting-item-updates', authenticateToken, async (req: AuthRequest,
         if (Object.keys(updateData).length > 0) {
           updateData.updatedAt = new Date();
           
-          await db
+          const [previous] = await db
+            .select({ status: workItems.status })
+            .from(workItems)
+            .where(eq(workItems.id, data.workItemId))
+            .limit(1);
+          const [updatedItem] = await db
             .update(workItems)
             .set(updateData)
-            .where(eq(workItems.id, data.workItemId));
+            .where(eq(workItems.id, data.workItemId))
+            .returning();
+          
+          if (previous && updatedItem && previous.status !== updatedItem.status) {
+            platformEventBus.emit(organizationId, 'work_item.status_changed', workItemStatusChangedPayload(updatedItem, previous.status), {
+              entityId: updatedItem.id,
+              actorUserId: userId,
+            });
+          }
         }
       } catch (updateError) {
         console.error('Error applying work item changes:', updateError);
@@ -3023,6 +3476,11 @@ router.patch('/key-result-tasks/:id', authenticateToken, async (req: AuthRequest
       return res.status(404).json({ error: 'Task not found' });
     }
     
+    const ruleError = applyRecurrenceRuleUpdate(updates, existingTask);
+    if (ruleError) {
+      return res.status(400).json({ error: ruleError });
+    }
+    
     // Prepare updates with proper date conversion
     const dbUpdates: any = {
       ...updates,
@@ -3347,6 +3805,10 @@ router.patch('/settings', authenticateToken, async (req: AuthRequest, res: Respo
       notifyOnGeneration: z.boolean().optional(),
       notifyEmailRecipients: z.array(z.string().email()).optional(),
       lastCronExecution: z.string().optional(),
+      cronCatchUpPolicy: z.enum(CATCH_UP_POLICIES as [string, ...string[]]).optional(),
+      minutesFolderId: z.number().int().positive().nullable().optional(),
+      minutesEmailTemplateId: z.number().int().positive().nullable().optional(),
+      distributeMinutes: z.boolean().optional(),
     });
     
     const validated = settingsSchema.parse(req.body);
@@ -3358,10 +3820,9 @@ router.patch('/settings', authenticateToken, async (req: AuthRequest, res: Respo
       updatedBy: userId,
     });
     
-    // If cron settings changed, restart cron jobs
+    // If cron settings changed, reschedule from the new settings
     if (validated.cronEnabled !== undefined || validated.cronSchedule !== undefined) {
-      // TODO: Trigger cron service restart for this organization
-      console.log(`[CRON] Settings updated for org ${organizationId}, may need cron restart`);
+      await restartOrgCronJobs(organizationId);
     }
     
     res.json(updated);
@@ -3374,6 +3835,29 @@ router.patch('/settings', authenticateToken, async (req: AuthRequest, res: Respo
   }
 });
 
+// Get the history of scheduled work item generation runs (including skipped catch-ups)
+router.get('/settings/schedule-history', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId;
+    
+    if (!organizationId) {
+      return res.status(400).json({ error: 'Organization ID required' });
+    }
+    
+    const history = await db
+      .select()
+      .from(scheduledJobRuns)
+      .where(eq(scheduledJobRuns.jobKey, `work_item_generation:${organizationId}`))
+      .orderBy(desc(scheduledJobRuns.scheduledFor))
+      .limit(50);
+    
+    res.json(history);
+  } catch (error) {
+    console.error('Error fetching generation schedule history:', error);
+    res.status(500).json({ error: 'Failed to fetch schedule history' });
+  }
+});
+
 // Get recent work item generation activity
 router.get('/settings/activity', authenticateToken, async (req: AuthRequest, res: Response) => {
   try {
@@ -2,6 +2,8 @@ import express from 'express';
 import type { Request, Response } from 'express';
 import { storage } from '../storage';
 import { WorkflowExecutor } from '../services/workflow/WorkflowExecutor';
+import { platformEventBus } from '../services/workflow/PlatformEventBus';
+import { workItemStatusChangedPayload } from '../services/workflow/platformEvents';
 import crypto from 'crypto';
 import { raw } from 'express';
 import { authenticateToken } from '../auth';
@@ -544,11 +546,18 @@ async function handleWebhookRequest(req: any, res: Response, integrationType: st
               if (linkedWorkItem.status !== workItemStatus) {
                 console.log(`[WEBHOOK] Syncing work item #${linkedWorkItem.id} status to: ${workItemStatus}`);
                 
-                await storage.updateWorkItem(linkedWorkItem.id, {
+                const syncedWorkItem = await storage.updateWorkItem(linkedWorkItem.id, {
                   status: workItemStatus,
                   updatedAt: new Date()
                 });
                 
+                if (syncedWorkItem) {
+                  platformEventBus.emit(integration.organizationId, 'work_item.status_changed', workItemStatusChangedPayload(syncedWorkItem, linkedWorkItem.status), {
+                    entityId: linkedWorkItem.id,
+                    actorUserId: null,
+                  });
+                }
+                
                 // Log activity
                 await storage.logActivity({
                   organizationId: integration.organizationId,
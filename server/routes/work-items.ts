@@ -3,6 +3,18 @@ import { z } from 'zod';
 import { authenticateToken } from '../auth';
 import { Request, Response } from 'express';
 import { storage } from '../storage';
+import { platformEventBus } from '../services/workflow/PlatformEventBus';
+import { workItemStatusChangedPayload } from '../services/workflow/platformEvents';
+import { workItemDependencyService, DependencyValidationError } from '../services/WorkItemDependencyService';
+import { workItemCustomFieldService, CustomFieldValidationError } from '../services/WorkItemCustomFieldService';
+import { workItemViewService, WorkItemViewError } from '../services/WorkItemViewService';
+import { buildWorkItemOrderBy, buildWorkItemQueryCondition } from '../services/workItemQuerySql';
+import { workItemGenerator, WorkItemRecurrenceError } from '../services/workItemGenerator';
+import { describeRRule, legacyFrequencyToRRule } from '@shared/recurrence';
+import { workItemTimeService, TimeEntryError, toCsv } from '../services/WorkItemTimeService';
+import { TIME_REPORT_GROUPS, isTimeReportGroup } from '@shared/timeTracking';
+import { CUSTOM_FIELD_FILTER_PREFIX } from '@shared/workItemCustomFields';
+import { parseWorkItemQuery, workItemQueryGroupSchema, type WorkItemQueryGroup } from '@shared/workItemQuery';
 import { 
   type WorkItem,
   type InsertWorkItem
@@ -30,6 +42,7 @@ const createWorkItemSchema = z.object({
   workItemType: z.string().optional(),
   workflowSource: z.enum(['template', 'manual', 'system', 'splynx', 'airtable', 'vapi_voice_ai']).optional(),
   workflowMetadata: z.any().optional(),
+  customFields: z.record(z.any()).optional(),
 });
 
 // Schema for updating work item
@@ -48,6 +61,7 @@ const updateWorkItemSchema = z.object({
   workItemType: z.string().nullable().optional(),
   workflowSource: z.enum(['template', 'manual', 'system', 'splynx', 'airtable', 'vapi_voice_ai']).nullable().optional(),
   workflowMetadata: z.any().optional(),
+  customFields: z.record(z.any()).optional(),
 });
 
 // Schema for bulk update
@@ -66,10 +80,23 @@ const bulkUpdateSchema = z.object({
   })
 });
 
+// Schema for saved views
+const workItemViewSchema = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().nullable().optional(),
+  visibility: z.enum(['private', 'team', 'organization']).default('private'),
+  teamId: z.number().nullable().optional(),
+  query: workItemQueryGroupSchema,
+  sortBy: z.string().max(100).optional(),
+  sortDirection: z.enum(['asc', 'desc']).optional(),
+  columns: z.array(z.string()).nullable().optional(),
+});
+
 // GET /work-items - List work items with filters
 router.get('/', authenticateToken, async (req: Request, res: Response) => {
   try {
     const organizationId = req.user?.organizationId || 3;
+    const userId = req.user?.id || 7;
     
     // Parse query parameters
     const {
@@ -89,6 +116,10 @@ router.get('/', authenticateToken, async (req: Request, res: Response) => {
       workItemType,
       workflowTemplateId,
       fiberNodeId, // NEW: Filter by linked fiber network node
+      query, // JSON query builder tree (shared/workItemQuery.ts)
+      viewId, // Saved view whose query and sort apply when not given explicitly
+      sortBy,
+      sortDirection,
       page = '1',
       pageSize = '50'
     } = req.query;
@@ -218,9 +249,52 @@ router.get('/', authenticateToken, async (req: Request, res: Response) => {
       }
     }
     
-    // Pagination
-    const limit = parseInt(pageSize as string);
-    const offset = (parseInt(page as string) - 1) * limit;
+    // Custom field filters - cf_<fieldName>=value, comma separated for any of several values
+    for (const [key, value] of Object.entries(req.query)) {
+      if (!key.startsWith(CUSTOM_FIELD_FILTER_PREFIX) || value === undefined || value === '') continue;
+      const fieldName = key.slice(CUSTOM_FIELD_FILTER_PREFIX.length);
+      if (!/^[a-z][a-z0-9_]*$/.test(fieldName)) continue;
+      const values = value.toString().split(',');
+      conditions.push(or(...values.map(v => sql`${workItems.customFields}->>${fieldName} = ${v}`))!);
+    }
+    
+    // Advanced query - explicit query parameter, otherwise the saved view's
+    let queryGroup: WorkItemQueryGroup | null = null;
+    let sortColumn = sortBy as string | undefined;
+    let sortOrder = sortDirection as string | undefined;
+    if (viewId) {
+      const view = await workItemViewService.getView(organizationId, userId, parseInt(viewId as string));
+      if (!view) {
+        return res.status(404).json({ error: 'View not found' });
+      }
+      queryGroup = parseWorkItemQuery(view.query);
+      sortColumn = sortColumn || view.sortBy;
+      sortOrder = sortOrder || view.sortDirection;
+    }
+    if (query) {
+      queryGroup = parseWorkItemQuery(query);
+      if (!queryGroup) {
+        return res.status(400).json({ error: 'Invalid query' });
+      }
+    }
+    if (queryGroup) {
+      const queryCondition = buildWorkItemQueryCondition(queryGroup, {
+        userId,
+        today: new Date().toISOString().split('T')[0],
+      });
+      if (queryCondition) conditions.push(queryCondition);
+    }
+    
+    // Pagination, at most 200 items a page
+    const limit = Math.min(Math.max(parseInt(pageSize as string) || 50, 1), 200);
+    const offset = (Math.max(parseInt(page as string) || 1, 1) - 1) * limit;
+    
+    // Total across all pages, for paged clients
+    const [{ total }] = await db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(workItems)
+      .where(and(...conditions));
+    res.setHeader('X-Total-Count', total.toString());
     
     // Query with joins for related data
     const items = await db
@@ -260,9 +334,9 @@ router.get('/', authenticateToken, async (req: Request, res: Response) => {
       .leftJoin(checkInMeetings, eq(workItems.targetMeetingId, checkInMeetings.id))
       .leftJoin(teams, eq(workItems.teamId, teams.id))
       .where(and(...conditions))
+      .orderBy(...buildWorkItemOrderBy(sortColumn, sortOrder))
       .limit(limit)
-      .offset(offset)
-      .orderBy(workItems.updatedAt);
+      .offset(offset);
     
     // Format response
     const formattedItems = items.map(item => ({
@@ -484,6 +558,475 @@ router.post('/generate-manual', authenticateToken, async (req: Request, res: Res
   }
 });
 
+const recurrenceSettingsSchema = z.object({
+  rule: z.string().min(1),
+  startDate: z.string().optional(),
+  skipPublicHolidays: z.boolean().optional(),
+});
+
+const recurrencePreviewSchema = z.object({
+  // Either an RRULE or the legacy frequency settings of a key result task
+  rule: z.string().optional(),
+  frequency: z.enum(['daily', 'weekly', 'monthly', 'quarterly']).optional(),
+  frequencyParams: z.object({
+    dayOfWeek: z.array(z.number().int().min(0).max(6)).optional(),
+    dayOfMonth: z.number().int().min(1).max(31).optional(),
+  }).optional(),
+  startDate: z.string().optional(),
+  skipPublicHolidays: z.boolean().optional(),
+  count: z.number().int().min(1).max(50).default(5),
+});
+
+function handleRecurrenceError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid data', details: error.errors });
+  }
+  if (error instanceof WorkItemRecurrenceError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  return res.status(500).json({ error: fallback });
+}
+
+// POST /work-items/recurrence/preview - Next occurrences of a rule, with skipped public holidays
+router.post('/recurrence/preview', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId || 3;
+    const data = recurrencePreviewSchema.parse(req.body);
+    
+    const rule = data.rule || legacyFrequencyToRRule(data.frequency, data.frequencyParams);
+    if (!rule) {
+      return res.status(400).json({ error: 'A recurrence rule or frequency is required' });
+    }
+    
+    const preview = await workItemGenerator.previewOccurrences(organizationId, {
+      rule,
+      startDate: data.startDate,
+      skipPublicHolidays: data.skipPublicHolidays,
+    }, data.count);
+    res.json({ rule, ...preview });
+  } catch (error) {
+    handleRecurrenceError(res, error, 'Failed to preview recurrence');
+  }
+});
+
+// GET /work-items/:id/recurrence - Recurrence rule on a standalone work item (null when it does not repeat)
+router.get('/:id/recurrence', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId || 3;
+    const recurrence = await workItemGenerator.getRecurrence(organizationId, parseInt(req.params.id));
+    res.json(recurrence ? { ...recurrence, description: describeRRule(recurrence.rule) } : null);
+  } catch (error) {
+    handleRecurrenceError(res, error, 'Failed to fetch recurrence');
+  }
+});
+
+// PUT /work-items/:id/recurrence - Make a work item repeat, or change how it repeats
+router.put('/:id/recurrence', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId || 3;
+    const userId = req.user?.id || 7;
+    const data = recurrenceSettingsSchema.parse(req.body);
+    
+    const recurrence = await workItemGenerator.setRecurrence(organizationId, parseInt(req.params.id), data, userId);
+    // Occurrences due within the next week are created straight away, as the daily job would
+    await workItemGenerator.generateRecurrenceOccurrences(
+      recurrence,
+      new Date(Date.now() + 7 * 86400000).toISOString().split('T')[0]
+    );
+    const current = await workItemGenerator.getRecurrence(organizationId, recurrence.templateWorkItemId);
+    res.json(current ? { ...current, description: describeRRule(current.rule) } : null);
+  } catch (error) {
+    handleRecurrenceError(res, error, 'Failed to save recurrence');
+  }
+});
+
+// DELETE /work-items/:id/recurrence - Stop a work item repeating; generated items are kept
+router.delete('/:id/recurrence', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId || 3;
+    const deleted = await workItemGenerator.deleteRecurrence(organizationId, parseInt(req.params.id));
+    if (!deleted) {
+      return res.status(404).json({ error: 'Work item does not repeat' });
+    }
+    res.status(204).send();
+  } catch (error) {
+    handleRecurrenceError(res, error, 'Failed to remove recurrence');
+  }
+});
+
+const timeEntrySchema = z.object({
+  startedAt: z.string(),
+  endedAt: z.string().nullable().optional(),
+  durationMinutes: z.number().int().positive().nullable().optional(),
+  note: z.string().max(2000).nullable().optional(),
+});
+
+function handleTimeError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: 'Invalid data', details: error.errors });
+  }
+  if (error instanceof TimeEntryError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  return res.status(500).json({ error: fallback });
+}
+
+function isTimeAdmin(req: Request) {
+  return req.user?.role === 'admin' || req.user?.role === 'super_admin';
+}
+
+function timeReportFilters(query: Request['query']) {
+  const date = (value: unknown) => (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : undefined);
+  const id = (value: unknown) => (typeof value === 'string' && value ? parseInt(value) || undefined : undefined);
+  return {
+    from: date(query.from),
+    to: date(query.to),
+    userId: id(query.userId),
+    teamId: id(query.teamId),
+  };
+}
+
+// GET /work-items/time/running - The current user's running timer, if any
+router.get('/time/running', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId || 3;
+    const userId = req.user?.id || 7;
+    res.json(await workItemTimeService.getRunningTimer(organizationId, userId));
+  } catch (error) {
+    handleTimeError(res, error, 'Failed to fetch running timer');
+  }
+});
+
+// GET /work-items/time/report - Logged time grouped by user, team, work item type or key result (format=csv to download)
+router.get('/time/report', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId || 3;
+    const groupBy = isTimeReportGroup(req.query.groupBy) ? req.query.groupBy : 'user';
+    const filters = timeReportFilters(req.query);
+    const rows = await workItemTimeService.report(organizationId, groupBy, filters);
+
+    if (req.query.format === 'csv') {
+      const csv = toCsv(
+        [TIME_REPORT_GROUPS[groupBy], 'Hours', 'Minutes', 'Entries', 'Work items'],
+        rows.map(row => [row.label, (row.minutes / 60).toFixed(2), row.minutes, row.entryCount, row.workItemCount])
+      );
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="time-by-${groupBy}-${filters.from || 'all'}-${filters.to || 'all'}.csv"`);
+      return res.send(csv);
+    }
+
+    const steps = await workItemTimeService.stepReport(organizationId, filters);
+    res.json({ groupBy, rows, steps, totalMinutes: rows.reduce((sum, row) => sum + row.minutes, 0) });
+  } catch (error) {
+    handleTimeError(res, error, 'Failed to build time report');
+  }
+});
+
+// GET /work-items/time/entries.csv - Every entry behind the time report, one row each
+router.get('/time/entries.csv', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId || 3;
+    const filters = timeReportFilters(req.query);
+    const entries = await workItemTimeService.reportEntries(organizationId, filters);
+    const csv = toCsv(
+      ['Date', 'Start', 'End', 'Minutes', 'Person', 'Work item ID', 'Work item', 'Type', 'Team', 'Key result', 'Source', 'Note'],
+      entries.map(entry => [
+        entry.startedAt.toISOString().split('T')[0],
+        entry.startedAt.toISOString(),
+        entry.endedAt?.toISOString(),
+        entry.minutes,
+        entry.userName,
+        entry.workItemId,
+        entry.workItemTitle,
+        entry.workItemType,
+        entry.teamName,
+        entry.keyResultTitle,
+        entry.source,
+        entry.note,
+      ])
+    );
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename="time-entries-${filters.from || 'all'}-${filters.to || 'all'}.csv"`);
+    res.send(csv);
+  } catch (error) {
+    handleTimeError(res, error, 'Failed to export time entries');
+  }
+});
+
+// PATCH /work-items/time/:entryId - Correct a time entry (own entries, or any for admins)
+router.patch('/time/:entryId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId || 3;
+    const userId = req.user?.id || 7;
+    const data = timeEntrySchema.partial().parse(req.body);
+    const entry = await workItemTimeService.updateEntry(organizationId, userId, parseInt(req.params.entryId), data, isTimeAdmin(req));
+    res.json(entry);
+  } catch (error) {
+    handleTimeError(res, error, 'Failed to update time entry');
+  }
+});
+
+// DELETE /work-items/time/:entryId
+router.delete('/time/:entryId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId || 3;
+    const userId = req.user?.id || 7;
+    await workItemTimeService.deleteEntry(organizationId, userId, parseInt(req.params.entryId), isTimeAdmin(req));
+    res.status(204).send();
+  } catch (error) {
+    handleTimeError(res, error, 'Failed to delete time entry');
+  }
+});
+
+// GET /work-items/:id/time - Time entries, totals and workflow step durations for a work item
+router.get('/:id/time', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId || 3;
+    const workItemId = parseInt(req.params.id);
+    const [entries, steps] = await Promise.all([
+      workItemTimeService.listEntries(organizationId, workItemId),
+      workItemTimeService.stepDurations(organizationId, workItemId),
+    ]);
+    res.json({
+      entries,
+      steps,
+      totalMinutes: entries.reduce((sum, entry) => sum + (entry.durationMinutes ?? 0), 0),
+    });
+  } catch (error) {
+    handleTimeError(res, error, 'Failed to fetch time entries');
+  }
+});
+
+// POST /work-items/:id/time/start - Start a timer (stops the user's timer on any other item)
+router.post('/:id/time/start', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId || 3;
+    const userId = req.user?.id || 7;
+    res.status(201).json(await workItemTimeService.startTimer(organizationId, userId, parseInt(req.params.id)));
+  } catch (error) {
+    handleTimeError(res, error, 'Failed to start timer');
+  }
+});
+
+// POST /work-items/:id/time/stop - Stop the user's timer on this item, optionally with a note
+router.post('/:id/time/stop', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId || 3;
+    const userId = req.user?.id || 7;
+    const { note } = z.object({ note: z.string().max(2000).nullable().optional() }).parse(req.body ?? {});
+    res.json(await workItemTimeService.stopTimer(organizationId, userId, parseInt(req.params.id), note));
+  } catch (error) {
+    handleTimeError(res, error, 'Failed to stop timer');
+  }
+});
+
+// POST /work-items/:id/time - Log time by hand
+router.post('/:id/time', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId || 3;
+    const userId = req.user?.id || 7;
+    const data = timeEntrySchema.parse(req.body);
+    const entry = await workItemTimeService.createEntry(organizationId, userId, parseInt(req.params.id), { ...data, source: 'manual' });
+    res.status(201).json(entry);
+  } catch (error) {
+    handleTimeError(res, error, 'Failed to log time');
+  }
+});
+
+function handleViewError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof WorkItemViewError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  return res.status(500).json({ error: fallback });
+}
+
+// GET /work-items/views - Saved views the user can see
+router.get('/views', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId || 3;
+    const userId = req.user?.id || 7;
+    const views = await workItemViewService.listViews(organizationId, userId);
+    res.json(views);
+  } catch (error) {
+    handleViewError(res, error, 'Failed to fetch work item views');
+  }
+});
+
+// POST /work-items/views - Save the current filters and sort as a view
+router.post('/views', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId || 3;
+    const userId = req.user?.id || 7;
+    const data = workItemViewSchema.parse(req.body);
+    const view = await workItemViewService.createView(organizationId, userId, data);
+    res.status(201).json(view);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid data', details: error.errors });
+    }
+    handleViewError(res, error, 'Failed to create work item view');
+  }
+});
+
+// PUT /work-items/views/:viewId - Update a view (owner only)
+router.put('/views/:viewId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId || 3;
+    const userId = req.user?.id || 7;
+    const viewId = parseInt(req.params.viewId);
+    if (isNaN(viewId)) {
+      return res.status(400).json({ error: 'Invalid view ID' });
+    }
+    const data = workItemViewSchema.partial().parse(req.body);
+    const view = await workItemViewService.updateView(organizationId, userId, viewId, data);
+    res.json(view);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid data', details: error.errors });
+    }
+    handleViewError(res, error, 'Failed to update work item view');
+  }
+});
+
+// DELETE /work-items/views/:viewId - Delete a view and its menu entry (owner only)
+router.delete('/views/:viewId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId || 3;
+    const userId = req.user?.id || 7;
+    const viewId = parseInt(req.params.viewId);
+    if (isNaN(viewId)) {
+      return res.status(400).json({ error: 'Invalid view ID' });
+    }
+    await workItemViewService.deleteView(organizationId, userId, viewId);
+    res.json({ success: true });
+  } catch (error) {
+    handleViewError(res, error, 'Failed to delete work item view');
+  }
+});
+
+// POST /work-items/views/:viewId/pin - Add the view to the navigation menu
+router.post('/views/:viewId/pin', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId || 3;
+    const userId = req.user?.id || 7;
+    const viewId = parseInt(req.params.viewId);
+    if (isNaN(viewId)) {
+      return res.status(400).json({ error: 'Invalid view ID' });
+    }
+    const view = await workItemViewService.pinView(organizationId, userId, viewId);
+    res.json(view);
+  } catch (error) {
+    handleViewError(res, error, 'Failed to pin work item view');
+  }
+});
+
+// DELETE /work-items/views/:viewId/pin - Remove the view from the navigation menu
+router.delete('/views/:viewId/pin', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId || 3;
+    const userId = req.user?.id || 7;
+    const viewId = parseInt(req.params.viewId);
+    if (isNaN(viewId)) {
+      return res.status(400).json({ error: 'Invalid view ID' });
+    }
+    const view = await workItemViewService.unpinView(organizationId, userId, viewId);
+    res.json(view);
+  } catch (error) {
+    handleViewError(res, error, 'Failed to unpin work item view');
+  }
+});
+
+// GET /work-items/dependencies - Dependency graph with critical path and due date conflicts
+router.get('/dependencies', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const organizationId = req.user?.organizationId || 3;
+    const graph = await workItemDependencyService.getGraph(organizationId);
+    res.json(graph);
+  } catch (error) {
+    console.error('Error fetching work item dependencies:', error);
+    res.status(500).json({ error: 'Failed to fetch work item dependencies' });
+  }
+});
+
+// GET /work-items/:id/dependencies - Blockers and dependents of a work item
+router.get('/:id/dependencies', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const workItemId = parseInt(req.params.id);
+    if (isNaN(workItemId)) {
+      return res.status(400).json({ error: 'Invalid work item ID' });
+    }
+    const organizationId = req.user?.organizationId || 3;
+    const summary = await workItemDependencyService.getForWorkItem(organizationId, workItemId);
+    res.json(summary);
+  } catch (error) {
+    console.error('Error fetching work item dependencies:', error);
+    res.status(500).json({ error: 'Failed to fetch work item dependencies' });
+  }
+});
+
+const addDependencySchema = z.object({
+  blockingWorkItemId: z.number(),
+});
+
+// POST /work-items/:id/dependencies - Mark the work item as blocked by another
+router.post('/:id/dependencies', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const workItemId = parseInt(req.params.id);
+    if (isNaN(workItemId)) {
+      return res.status(400).json({ error: 'Invalid work item ID' });
+    }
+    const { blockingWorkItemId } = addDependencySchema.parse(req.body);
+    const organizationId = req.user?.organizationId || 3;
+    const userId = req.user?.id || 7;
+
+    await workItemDependencyService.addDependency(organizationId, workItemId, blockingWorkItemId, userId);
+    await storage.logActivity({
+      organizationId,
+      userId,
+      actionType: 'agent_action',
+      entityType: 'work_item',
+      entityId: workItemId,
+      description: 'Added a blocker',
+      metadata: { blockingWorkItemId },
+    });
+
+    res.status(201).json(await workItemDependencyService.getForWorkItem(organizationId, workItemId));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid data', details: error.errors });
+    }
+    if (error instanceof DependencyValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error adding work item dependency:', error);
+    res.status(500).json({ error: 'Failed to add dependency' });
+  }
+});
+
+// DELETE /work-items/:id/dependencies/:blockingId - Remove a blocker
+router.delete('/:id/dependencies/:blockingId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const workItemId = parseInt(req.params.id);
+    const blockingWorkItemId = parseInt(req.params.blockingId);
+    if (isNaN(workItemId) || isNaN(blockingWorkItemId)) {
+      return res.status(400).json({ error: 'Invalid work item ID' });
+    }
+    const organizationId = req.user?.organizationId || 3;
+
+    const removed = await workItemDependencyService.removeDependency(organizationId, workItemId, blockingWorkItemId);
+    if (!removed) {
+      return res.status(404).json({ error: 'Dependency not found' });
+    }
+    res.json(await workItemDependencyService.getForWorkItem(organizationId, workItemId));
+  } catch (error) {
+    console.error('Error removing work item dependency:', error);
+    res.status(500).json({ error: 'Failed to remove dependency' });
+  }
+});
+
 // GET /work-items/:id - Get single work item
 router.get('/:id', authenticateToken, async (req: Request, res: Response) => {
   try {
@@ -566,6 +1109,7 @@ router.post('/', authenticateToken, async (req: Request, res: Response) => {
     const organizationId = req.user?.organizationId || 3;
     const userId = req.user?.id || 7;
     
+    const customFields = await workItemCustomFieldService.validateValues(organizationId, data.workItemType, data.customFields || {});
     
     const workItem = await storage.createWorkItem({
       organizationId,
@@ -585,6 +1129,7 @@ router.post('/', authenticateToken, async (req: Request, res: Response) => {
       workItemType: data.workItemType || null,
       workflowSource: data.workflowSource || null,
       workflowMetadata: data.workflowMetadata || null,
+      customFields,
     });
     
     // Log activity
@@ -644,6 +1189,9 @@ router.post('/', authenticateToken, async (req: Request, res: Response) => {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: 'Invalid data', details: error.errors });
     }
+    if (error instanceof CustomFieldValidationError) {
+      return res.status(400).json({ error: error.message, details: error.fieldErrors });
+    }
     res.status(500).json({ error: 'Failed to create work item' });
   }
 });
@@ -688,6 +1236,15 @@ router.patch('/bulk', authenticateToken, async (req: Request, res: Response) =>
     
     updateData.updatedAt = new Date();
     
+    // Previous statuses, so status change events are only emitted for items that actually changed
+    const previousStatuses = data.set.status !== undefined
+      ? new Map((await db
+          .select({ id: workItems.id, status: workItems.status })
+          .from(workItems)
+          .where(and(inArray(workItems.id, data.ids), eq(workItems.organizationId, organizationId)))
+        ).map(item => [item.id, item.status]))
+      : new Map<number, string>();
+    
     const result = await db.update(workItems)
       .set(updateData)
       .where(and(
@@ -711,6 +1268,17 @@ router.patch('/bulk', authenticateToken, async (req: Request, res: Response) =>
       }
     });
     
+    for (const item of result) {
+      const oldStatus = previousStatuses.get(item.id);
+      if (oldStatus !== undefined && oldStatus !== item.status) {
+        platformEventBus.emit(organizationId, 'work_item.status_changed', workItemStatusChangedPayload(item, oldStatus), {
+          entityId: item.id,
+          actorUserId: userId,
+        });
+        await workItemDependencyService.handleStatusChange(organizationId, item, oldStatus, item.status, userId);
+      }
+    }
+    
     res.json({ 
       updated: result.length
     });
@@ -783,9 +1351,20 @@ router.patch('/:id', authenticateToken, async (req: Request, res: Response) => {
       }
     }
     
+    // Custom fields are checked against the definitions for the item's (possibly new) type
+    const customFields = data.customFields !== undefined || data.workItemType !== undefined
+      ? await workItemCustomFieldService.validateValues(
+          organizationId,
+          data.workItemType !== undefined ? data.workItemType : existing.workItemType,
+          data.customFields || {},
+          existing.customFields || {}
+        )
+      : undefined;
+    
     const updated = await storage.updateWorkItem(workItemId, {
       ...data,
       dueDate: data.dueDate || undefined,
+      customFields,
     });
     
     if (!updated) {
@@ -804,6 +1383,13 @@ router.patch('/:id', authenticateToken, async (req: Request, res: Response) => {
         metadata: { oldStatus: existing.status, newStatus: data.status, taskId: existing.keyResultTaskId }
       });
       
+      platformEventBus.emit(organizationId, 'work_item.status_changed', workItemStatusChangedPayload(updated, existing.status), {
+        entityId: workItemId,
+        actorUserId: userId,
+      });
+      
+      await workItemDependencyService.handleStatusChange(organizationId, updated, existing.status, updated.status, userId);
+      
       // If this work item is associated with an address, also log status change for the address
       const metadata = existing.workflowMetadata as any;
       if (metadata?.addressRecordId) {
@@ -1098,6 +1684,9 @@ router.patch('/:id', authenticateToken, async (req: Request, res: Response) => {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: 'Invalid data', details: error.errors });
     }
+    if (error instanceof CustomFieldValidationError) {
+      return res.status(400).json({ error: error.message, details: error.fieldErrors });
+    }
     res.status(500).json({ error: 'Failed to update work item' });
   }
 });
@@ -1635,6 +2224,28 @@ router.put('/:id/workflow/steps/:stepId', authenticateToken, async (req: Request
       if (allCompleted) {
         console.log(`[Workflow] All steps completed! Triggering workflow completion for work item ${workItemId}...`);
         
+        const completeWorkItem = async () => {
+          const itemFilter = and(
+            eq(workItems.id, workItemId),
+            eq(workItems.organizationId, organizationId)
+          );
+          const [previous] = await db.select({ status: workItems.status }).from(workItems).where(itemFilter).limit(1);
+          const [completed] = await db.update(workItems)
+            .set({ 
+              status: 'Completed',
+              updatedAt: new Date()
+            })
+            .where(itemFilter)
+            .returning();
+          
+          if (previous && completed && previous.status !== completed.status) {
+            platformEventBus.emit(organizationId, 'work_item.status_changed', workItemStatusChangedPayload(completed, previous.status), {
+              entityId: workItemId,
+              actorUserId: userId,
+            });
+          }
+        };
+        
         // Get execution ID from the step
         const executionId = step.executionId;
         
@@ -1647,28 +2258,12 @@ router.put('/:id/workflow/steps/:stepId', authenticateToken, async (req: Request
           } catch (error) {
             console.error('[Workflow] Error completing workflow:', error);
             // Fallback: manually update status if completion fails
-            await db.update(workItems)
-              .set({ 
-                status: 'Completed',
-                updatedAt: new Date()
-              })
-              .where(and(
-                eq(workItems.id, workItemId),
-                eq(workItems.organizationId, organizationId)
-              ));
+            await completeWorkItem();
           }
         } else {
           console.log('[Workflow] No executionId found, updating status directly');
           // Fallback: Update work item status to Completed
-          await db.update(workItems)
-            .set({ 
-              status: 'Completed',
-              updatedAt: new Date()
-            })
-            .where(and(
-              eq(workItems.id, workItemId),
-              eq(workItems.organizationId, organizationId)
-            ));
+          await completeWorkItem();
         }
       }
     }
@@ -6,6 +6,9 @@ import { z } from 'zod';
 import { db } from '../db';
 import { eq, and } from 'drizzle-orm';
 import { SplynxService } from '../services/integrations/splynxService';
+import { workflowVersions } from '../services/workflow/WorkflowVersionService';
+import { platformEventBus } from '../services/workflow/PlatformEventBus';
+import { workItemStatusChangedPayload } from '../services/workflow/platformEvents';
 import crypto from 'crypto';
 
 interface AuthRequest extends Request {
@@ -48,6 +51,29 @@ function decrypt(text: string): string {
   }
 }
 
+// Record a step completion; completing the last step completes the work item, which emits work_item.status_changed
+async function updateStepCompletion(
+  organizationId: number,
+  userId: number,
+  workItemId: number,
+  executionId: number,
+  stepId: string,
+  data: any
+) {
+  const previous = await storage.getWorkItem(workItemId);
+  const updated = await storage.updateWorkflowStepCompletion(organizationId, executionId, stepId, data);
+  const current = await storage.getWorkItem(workItemId);
+  
+  if (previous && current && previous.status !== current.status) {
+    platformEventBus.emit(organizationId, 'work_item.status_changed', workItemStatusChangedPayload(current, previous.status), {
+      entityId: workItemId,
+      actorUserId: userId,
+    });
+  }
+  
+  return updated;
+}
+
 async function processCompletionCallbacks(
   callbacks: any[],
   completedStepId: string,
@@ -267,7 +293,8 @@ router.post('/templates', authenticateToken, async (req: AuthRequest, res) => {
     });
 
     const template = await storage.createWorkflowTemplate(validated);
-    res.status(201).json(template);
+    const version = await workflowVersions.publishWorkflowTemplateVersion(template, { publishedBy: user.id, changeNote: 'Initial version' });
+    res.status(201).json({ ...template, version: version.version });
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: 'Validation error', details: error.errors });
@@ -298,10 +325,20 @@ router.put('/templates/:id', authenticateToken, async (req: AuthRequest, res) =>
       return res.status(404).json({ error: 'Workflow template not found' });
     }
 
-    const updateData = insertWorkflowTemplateSchema.partial().omit({ organizationId: true, id: true }).parse(req.body);
+    // The version only moves by publishing
+    const updateData = insertWorkflowTemplateSchema.partial().omit({ organizationId: true, id: true, version: true }).parse(req.body);
+    const changeNote = typeof req.body.changeNote === 'string' ? req.body.changeNote : undefined;
+
+    // Templates created before versioning get their pre-edit state recorded as a version first
+    await workflowVersions.ensureWorkflowTemplateVersioned(existing);
+
     const updated = await storage.updateWorkflowTemplate(user.organizationId, req.params.id, updateData);
-    
-    res.json(updated);
+    if (!updated) {
+      return res.status(404).json({ error: 'Workflow template not found' });
+    }
+
+    const version = await workflowVersions.publishWorkflowTemplateVersion(updated, { publishedBy: user.id, changeNote });
+    res.json({ ...updated, version: version.version });
   } catch (error) {
     if (error instanceof z.ZodError) {
       console.error('[Workflows] Template validation error:', JSON.stringify(error.errors, null, 2));
@@ -313,6 +350,57 @@ router.put('/templates/:id', authenticateToken, async (req: AuthRequest, res) =>
   }
 });
 
+// Published versions of a template, newest first
+router.get('/templates/:id/versions', authenticateToken, async (req, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.organizationId) {
+      return res.status(401).json({ error: 'User not authenticated or missing organization' });
+    }
+
+    const template = await storage.getWorkflowTemplate(user.organizationId, req.params.id);
+    if (!template) {
+      return res.status(404).json({ error: 'Workflow template not found' });
+    }
+
+    const versions = await workflowVersions.listWorkflowTemplateVersions(template.id);
+    res.json({ currentVersion: template.version, versions });
+  } catch (error) {
+    console.error('Error fetching workflow template versions:', error);
+    res.status(500).json({ error: 'Failed to fetch workflow template versions' });
+  }
+});
+
+// Roll back to an earlier version by publishing a copy of it. Executions already started keep their version.
+router.post('/templates/:id/versions/:version/rollback', authenticateToken, async (req, res) => {
+  try {
+    const user = req.user;
+    if (!user || !user.organizationId) {
+      return res.status(401).json({ error: 'User not authenticated or missing organization' });
+    }
+
+    const version = parseInt(req.params.version);
+    if (isNaN(version)) {
+      return res.status(400).json({ error: 'Invalid version' });
+    }
+
+    const template = await storage.getWorkflowTemplate(user.organizationId, req.params.id);
+    if (!template) {
+      return res.status(404).json({ error: 'Workflow template not found' });
+    }
+
+    if (!(await workflowVersions.getWorkflowTemplateVersion(template.id, version))) {
+      return res.status(404).json({ error: `Version ${version} not found` });
+    }
+
+    const result = await workflowVersions.rollbackWorkflowTemplate(template, version, user.id);
+    res.json({ template: transformTemplateForUI(result.template), version: result.version });
+  } catch (error) {
+    console.error('Error rolling back workflow template:', error);
+    res.status(500).json({ error: 'Failed to roll back workflow template' });
+  }
+});
+
 router.delete('/templates/:id', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const user = req.user;
@@ -389,8 +477,10 @@ router.put('/work-items/:workItemId/workflow/steps/:stepId', authenticateToken,
       return res.status(404).json({ error: 'No workflow execution found for this work item' });
     }
 
-    const updated = await storage.updateWorkflowStepCompletion(
+    const updated = await updateStepCompletion(
       user.organizationId,
+      user.id,
+      parseInt(workItemId),
       workflow.execution.id,
       stepId,
       stepData
@@ -525,8 +615,10 @@ router.post('/work-items/:workItemId/workflow/complete', authenticateToken, asyn
     }
 
     // Mark workflow execution as completed
-    const updated = await storage.updateWorkflowStepCompletion(
+    const updated = await updateStepCompletion(
       user.organizationId,
+      user.id,
+      workItemId,
       workflow.execution.id,
       'workflow-complete',
       { completed: true, callbackResults }
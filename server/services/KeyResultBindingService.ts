@@ -0,0 +1,468 @@
+import { db } from '../db';
+import { storage } from '../storage';
+import { eq, and, lte, or, isNull } from 'drizzle-orm';
+import {
+  keyResultDataBindings,
+  keyResultSnapshots,
+  keyResults,
+  organizations,
+  type KeyResultDataBinding,
+  type KeyResultSnapshot,
+} from '../../shared/schema';
+import {
+  describeDataBinding,
+  type DataBindingLineage,
+  type DataTableBindingConfig,
+  type SplynxCountBindingConfig,
+  type XeroReportBindingConfig,
+  type XeroReportPeriod,
+} from '../../shared/keyResultDataBinding';
+import XeroService from './integrations/xeroService';
+import { integrationGuard } from './integrations/IntegrationGuard';
+import { WorkflowExecutor } from './workflow/WorkflowExecutor';
+import { platformEventBus } from './workflow/PlatformEventBus';
+import { keyResultUpdatedPayload } from './workflow/platformEvents';
+import {
+  SCHEDULER_POLL_INTERVAL_MS,
+  getNextOccurrence,
+  planDueOccurrences,
+  recordSkippedOccurrences,
+  runOccurrence,
+  type CatchUpPolicy,
+} from './distributedScheduler';
+
+interface BindingEvaluation {
+  value: number;
+  lineage: DataBindingLineage;
+}
+
+interface RefreshTrigger {
+  trigger: 'schedule' | 'manual';
+  userId?: number | null;
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/** Report dates for a period; periods still in progress end today */
+function resolveXeroPeriod(period: XeroReportPeriod, now: Date): { fromDate: string; toDate: string } {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  const today = toDateString(now);
+
+  switch (period) {
+    case 'today':
+      return { fromDate: today, toDate: today };
+    case 'last_month':
+      return {
+        fromDate: toDateString(new Date(Date.UTC(year, month - 1, 1))),
+        toDate: toDateString(new Date(Date.UTC(year, month, 0))),
+      };
+    case 'this_quarter':
+      return { fromDate: toDateString(new Date(Date.UTC(year, month - (month % 3), 1))), toDate: today };
+    case 'this_year':
+      return { fromDate: toDateString(new Date(Date.UTC(year, 0, 1))), toDate: today };
+    case 'this_month':
+    default:
+      return { fromDate: toDateString(new Date(Date.UTC(year, month, 1))), toDate: today };
+  }
+}
+
+function normaliseLabel(label: unknown): string {
+  return String(label ?? '').trim().toLowerCase();
+}
+
+/**
+ * Find a row in a Xero report by its label. Rows are nested in sections; when a
+ * section is given only rows of sections with that title are considered.
+ */
+function findXeroReportRow(report: any, lineLabel: string, section?: string): { row: any; sectionTitle: string | null } | null {
+  const wanted = normaliseLabel(lineLabel);
+  const wantedSection = section ? normaliseLabel(section) : null;
+
+  for (const entry of report?.Rows || []) {
+    if (entry.RowType === 'Section') {
+      if (wantedSection && normaliseLabel(entry.Title) !== wantedSection) continue;
+      for (const row of entry.Rows || []) {
+        if (normaliseLabel(row.Cells?.[0]?.Value) === wanted) {
+          return { row, sectionTitle: entry.Title || null };
+        }
+      }
+    } else if (!wantedSection && entry.RowType !== 'Header' && normaliseLabel(entry.Cells?.[0]?.Value) === wanted) {
+      return { row: entry, sectionTitle: null };
+    }
+  }
+
+  return null;
+}
+
+function listXeroReportLabels(report: any): string[] {
+  const labels: string[] = [];
+  for (const entry of report?.Rows || []) {
+    for (const row of entry.RowType === 'Section' ? entry.Rows || [] : [entry]) {
+      const label = row.Cells?.[0]?.Value;
+      if (label && row.RowType !== 'Header') labels.push(label);
+    }
+  }
+  return labels;
+}
+
+/**
+ * Evaluates key result data bindings and keeps bound key results current. Each
+ * binding has its own cron schedule, run through distributedScheduler so any
+ * number of server instances can poll and every occurrence refreshes once.
+ */
+export class KeyResultBindingService {
+  private pollingInterval: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  async initialize() {
+    console.log('[KeyResultBindings] Initializing...');
+    await this.poll();
+    this.pollingInterval = setInterval(() => {
+      this.poll().catch(error => {
+        console.error('[KeyResultBindings] Poll failed:', error);
+      });
+    }, SCHEDULER_POLL_INTERVAL_MS);
+    console.log(`[KeyResultBindings] Polling for due refreshes every ${SCHEDULER_POLL_INTERVAL_MS / 1000}s`);
+  }
+
+  stop() {
+    if (this.pollingInterval) {
+      clearInterval(this.pollingInterval);
+      this.pollingInterval = null;
+    }
+  }
+
+  async getBinding(organizationId: number, keyResultId: number): Promise<KeyResultDataBinding | undefined> {
+    const [binding] = await db
+      .select()
+      .from(keyResultDataBindings)
+      .where(and(eq(keyResultDataBindings.organizationId, organizationId), eq(keyResultDataBindings.keyResultId, keyResultId)))
+      .limit(1);
+    return binding;
+  }
+
+  /** Throws if the cron expression is invalid */
+  validateSchedule(cronExpression: string, timezone: string | null | undefined) {
+    getNextOccurrence(cronExpression, timezone, new Date());
+  }
+
+  /** Work out the binding's current value without writing anything */
+  async evaluate(binding: Pick<KeyResultDataBinding, 'organizationId' | 'sourceType' | 'sourceConfig'>, trigger: RefreshTrigger['trigger'] = 'manual'): Promise<BindingEvaluation> {
+    const config = binding.sourceConfig || {};
+    const executor = new WorkflowExecutor();
+    const lineage = {
+      sourceType: binding.sourceType,
+      description: describeDataBinding(binding.sourceType, config),
+      evaluatedAt: new Date().toISOString(),
+      trigger,
+    } as Omit<DataBindingLineage, 'source' | 'rawValue'>;
+
+    switch (binding.sourceType) {
+      case 'data_table': {
+        const { sourceTable, queryConfig } = config as DataTableBindingConfig;
+        const result = await executor.executeReadStep({
+          type: 'data_source_query',
+          config: { sourceTable, queryConfig },
+        }, binding.organizationId);
+
+        if (!result.success) {
+          throw new Error(result.error || 'Data table query failed');
+        }
+
+        const rawValue = result.output?.result;
+        return {
+          value: this.toNumber(rawValue, lineage.description),
+          lineage: {
+            ...lineage,
+            source: {
+              table: sourceTable,
+              aggregation: queryConfig?.aggregation || 'count',
+              aggregationField: queryConfig?.aggregationField ?? null,
+              filters: queryConfig?.filters || [],
+            },
+            rawValue,
+          },
+        };
+      }
+
+      case 'splynx_count': {
+        const { entity, filters = [], dateRange, dateRangeField } = config as SplynxCountBindingConfig;
+        const result = await executor.executeReadStep({
+          type: 'splynx_query',
+          config: { entity, mode: 'count', filters, dateRange, dateRangeField },
+        }, binding.organizationId);
+
+        if (!result.success) {
+          throw new Error(result.error || 'Splynx query failed');
+        }
+
+        const rawValue = result.output?.count;
+        return {
+          value: this.toNumber(rawValue, lineage.description),
+          lineage: {
+            ...lineage,
+            source: { entity, filters, dateRange: dateRange ?? null, dateRangeField: dateRangeField ?? null },
+            rawValue,
+          },
+        };
+      }
+
+      case 'xero_report':
+        return this.evaluateXeroReport(binding.organizationId, config as XeroReportBindingConfig, lineage);
+
+      default:
+        throw new Error(`Unknown data binding source: ${binding.sourceType}`);
+    }
+  }
+
+  private async evaluateXeroReport(
+    organizationId: number,
+    config: XeroReportBindingConfig,
+    lineage: Omit<DataBindingLineage, 'source' | 'rawValue'>
+  ): Promise<BindingEvaluation> {
+    const { report, period = 'this_month', lineLabel, section, column = 1 } = config;
+
+    const integration = await storage.getIntegration(organizationId, 'xero');
+    if (!integration) {
+      throw new Error('Xero integration not configured for this organization');
+    }
+
+    const xero = new XeroService(organizationId);
+    await xero.initialize();
+
+    const { fromDate, toDate } = resolveXeroPeriod(period, new Date());
+    // The balance sheet is a position at a date; the others cover a date range
+    const params = report === 'BalanceSheet' ? { date: toDate } : { fromDate, toDate };
+
+    const fetchReport = () => {
+      switch (report) {
+        case 'ProfitAndLoss':
+          return xero.getProfitAndLoss(params);
+        case 'BalanceSheet':
+          return xero.getBalanceSheet(params);
+        case 'BankSummary':
+          return xero.getCashSummary(params);
+        default:
+          throw new Error(`Unsupported Xero report: ${report}`);
+      }
+    };
+
+    const data = await integrationGuard.call(integration, async () => {
+      try {
+        return await fetchReport();
+      } catch (error: any) {
+        // Access tokens are short-lived; refresh once and retry
+        if (error.response?.status === 401) {
+          await xero.refreshAccessToken();
+          return await fetchReport();
+        }
+        throw error;
+      }
+    });
+
+    const reportData = data?.Reports?.[0];
+    const match = findXeroReportRow(reportData, lineLabel, section);
+    if (!match) {
+      const available = listXeroReportLabels(reportData).slice(0, 15).join(', ');
+      throw new Error(`Line '${lineLabel}' not found in Xero ${report}${section ? ` section '${section}'` : ''}. Lines include: ${available || 'none'}`);
+    }
+
+    const rawValue = match.row.Cells?.[column]?.Value;
+    const header = (reportData?.Rows || []).find((row: any) => row.RowType === 'Header');
+
+    return {
+      value: this.toNumber(typeof rawValue === 'string' ? rawValue.replace(/,/g, '') : rawValue, lineage.description),
+      lineage: {
+        ...lineage,
+        source: {
+          report,
+          reportName: reportData?.ReportName ?? report,
+          reportTitles: reportData?.ReportTitles ?? [],
+          period,
+          ...params,
+          section: match.sectionTitle,
+          lineLabel: match.row.Cells?.[0]?.Value ?? lineLabel,
+          column,
+          columnHeader: header?.Cells?.[column]?.Value ?? null,
+          integrationId: integration.id,
+        },
+        rawValue,
+      },
+    };
+  }
+
+  private toNumber(rawValue: unknown, description: string): number {
+    const value = typeof rawValue === 'number' ? rawValue : parseFloat(String(rawValue ?? ''));
+    if (!Number.isFinite(value)) {
+      throw new Error(`${description} returned a non-numeric value: ${JSON.stringify(rawValue)}`);
+    }
+    return value;
+  }
+
+  /**
+   * Evaluate a binding, set its key result's current value and record a snapshot
+   * with the lineage. Failures are recorded on the binding and rethrown.
+   */
+  async refresh(binding: KeyResultDataBinding, { trigger, userId = null }: RefreshTrigger): Promise<KeyResultSnapshot> {
+    const [keyResult] = await db
+      .select()
+      .from(keyResults)
+      .where(and(eq(keyResults.id, binding.keyResultId), eq(keyResults.organizationId, binding.organizationId)))
+      .limit(1);
+
+    if (!keyResult) {
+      throw new Error(`Key result ${binding.keyResultId} not found`);
+    }
+
+    let evaluation: BindingEvaluation;
+    try {
+      evaluation = await this.evaluate(binding, trigger);
+    } catch (error: any) {
+      await db
+        .update(keyResultDataBindings)
+        .set({ lastStatus: 'failed', lastError: error.message, lastRefreshedAt: new Date(), updatedAt: new Date() })
+        .where(eq(keyResultDataBindings.id, binding.id));
+      throw error;
+    }
+
+    const { value, lineage } = evaluation;
+    const [updated] = await db
+      .update(keyResults)
+      .set({ currentValue: String(value), updatedAt: new Date() })
+      .where(eq(keyResults.id, keyResult.id))
+      .returning();
+
+    const [snapshot] = await db
+      .insert(keyResultSnapshots)
+      .values({
+        keyResultId: keyResult.id,
+        title: keyResult.title,
+        description: keyResult.description,
+        targetValue: keyResult.targetValue,
+        currentValue: updated.currentValue,
+        status: keyResult.status,
+        type: keyResult.type,
+        source: 'data_binding',
+        dataBindingId: binding.id,
+        lineage,
+      })
+      .returning();
+
+    await db
+      .update(keyResultDataBindings)
+      .set({
+        lastStatus: 'success',
+        lastError: null,
+        lastValue: updated.currentValue,
+        lastRefreshedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(keyResultDataBindings.id, binding.id));
+
+    await storage.logActivity({
+      organizationId: binding.organizationId,
+      userId,
+      actionType: 'kpi_update',
+      entityType: 'key_result',
+      entityId: keyResult.id,
+      description: `Refreshed from ${lineage.description}: ${keyResult.currentValue} → ${updated.currentValue}`,
+      metadata: {
+        source: 'data_binding',
+        trigger,
+        dataBindingId: binding.id,
+        snapshotId: snapshot.id,
+        previousValue: keyResult.currentValue,
+        currentValue: updated.currentValue,
+      },
+    });
+
+    if (updated.currentValue !== keyResult.currentValue) {
+      platformEventBus.emit(binding.organizationId, 'key_result.updated', keyResultUpdatedPayload(updated, keyResult.currentValue), {
+        entityId: updated.id,
+        actorUserId: userId,
+      });
+    }
+
+    console.log(`[KeyResultBindings] Key result ${keyResult.id} refreshed from ${lineage.description}: ${updated.currentValue}`);
+    return snapshot;
+  }
+
+  private async poll() {
+    // A slow poll must not overlap the next one on this instance
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      const now = new Date();
+      const due = await db
+        .select({ binding: keyResultDataBindings })
+        .from(keyResultDataBindings)
+        .innerJoin(organizations, eq(keyResultDataBindings.organizationId, organizations.id))
+        .where(
+          and(
+            eq(keyResultDataBindings.isEnabled, true),
+            eq(organizations.isActive, true),
+            or(isNull(keyResultDataBindings.nextRunAt), lte(keyResultDataBindings.nextRunAt, now))
+          )
+        );
+
+      for (const { binding } of due) {
+        try {
+          await this.processBinding(binding, now);
+        } catch (error) {
+          console.error(`[KeyResultBindings] Failed to process binding ${binding.id}:`, error);
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async processBinding(binding: KeyResultDataBinding, now: Date) {
+    // New or edited binding: work out its first refresh
+    if (!binding.nextRunAt) {
+      const nextRunAt = getNextOccurrence(binding.cronExpression, binding.timezone, now);
+      await db
+        .update(keyResultDataBindings)
+        .set({ nextRunAt })
+        .where(and(eq(keyResultDataBindings.id, binding.id), isNull(keyResultDataBindings.nextRunAt)));
+      return;
+    }
+
+    const policy = binding.catchUpPolicy as CatchUpPolicy;
+    const plan = planDueOccurrences(binding.cronExpression, binding.timezone, binding.nextRunAt, now, policy);
+
+    // Only the instance that advances nextRunAt runs the refreshes
+    const [taken] = await db
+      .update(keyResultDataBindings)
+      .set({ nextRunAt: plan.nextRunAt })
+      .where(and(eq(keyResultDataBindings.id, binding.id), eq(keyResultDataBindings.nextRunAt, binding.nextRunAt)))
+      .returning({ id: keyResultDataBindings.id });
+
+    if (!taken) return;
+
+    const claim = {
+      organizationId: binding.organizationId,
+      jobType: 'key_result_refresh' as const,
+      jobKey: `key_result_binding:${binding.id}`,
+    };
+
+    if (plan.skipped) {
+      await recordSkippedOccurrences(claim, plan.skipped, policy);
+    }
+
+    for (const occurrence of plan.runs) {
+      await runOccurrence({ ...claim, ...occurrence }, async () => {
+        const snapshot = await this.refresh(binding, { trigger: 'schedule' });
+        return {
+          details: { keyResultId: binding.keyResultId, snapshotId: snapshot.id, value: snapshot.currentValue },
+        };
+      });
+    }
+  }
+}
+
+export const keyResultBindings = new KeyResultBindingService();
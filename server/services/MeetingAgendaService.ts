@@ -0,0 +1,359 @@
+import { db } from '../db';
+import { and, asc, desc, eq, gte, inArray, isNotNull, lt, lte, notInArray, sql } from 'drizzle-orm';
+import {
+  checkInMeetings,
+  keyResultSnapshots,
+  keyResults,
+  meetingTopics,
+  teamFeedback,
+  users,
+  workItems,
+  type CheckInMeeting,
+  type MeetingTopic,
+} from '../../shared/schema';
+import {
+  GENERATED_TOPIC_DEFAULTS,
+  OFF_TRACK_PRIORITY_BOOST,
+  OFF_TRACK_STATUSES,
+  OPEN_TOPIC_STATUSES,
+  describeKeyResultChange,
+  type CarryOverTopicContext,
+  type KeyResultTopicContext,
+  type MeetingTopicSource,
+  type MeetingTopicStatus,
+  type WorkItemTopicContext,
+} from '../../shared/meetingAgenda';
+
+export class MeetingAgendaError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'MeetingAgendaError';
+  }
+}
+
+interface TopicCandidate {
+  source: Exclude<MeetingTopicSource, 'manual'>;
+  sourceId: number;
+  title: string;
+  description: string | null;
+  priority: number;
+  timeAllocated: number;
+  context: KeyResultTopicContext | WorkItemTopicContext | CarryOverTopicContext | null;
+}
+
+export interface AgendaBuildResult {
+  added: number;
+  updated: number;
+  removed: number;
+  topics: MeetingTopic[];
+}
+
+export interface TopicInput {
+  title?: string;
+  description?: string | null;
+  priority?: number;
+  timeAllocated?: number | null;
+  actualTime?: number | null;
+  status?: MeetingTopicStatus;
+  outcomes?: string | null;
+}
+
+/** Overdue work items beyond this are left to the work item review */
+const MAX_OVERDUE_TOPICS = 20;
+
+function topicKey(source: string, sourceId: number | null): string {
+  return `${source}:${sourceId}`;
+}
+
+function truncate(text: string, length = 255): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+function generated(source: TopicCandidate['source'], boost = 0) {
+  const defaults = GENERATED_TOPIC_DEFAULTS[source];
+  return { priority: defaults.priority + boost, timeAllocated: defaults.minutes };
+}
+
+/**
+ * Builds check-in agendas from what changed since the team's last completed
+ * check-in. Building is repeatable: topics are keyed by their source, so a
+ * rebuild refreshes pending generated topics, adds new ones and drops those
+ * that no longer apply, leaving discussed and hand-added topics alone.
+ */
+export class MeetingAgendaService {
+  private async getMeeting(organizationId: number, meetingId: number): Promise<CheckInMeeting> {
+    const [meeting] = await db.select()
+      .from(checkInMeetings)
+      .where(and(eq(checkInMeetings.id, meetingId), eq(checkInMeetings.organizationId, organizationId)));
+    if (!meeting) throw new MeetingAgendaError('Meeting not found', 404);
+    return meeting;
+  }
+
+  /** The team's latest completed check-in before this one */
+  private async getPreviousMeeting(meeting: CheckInMeeting): Promise<CheckInMeeting | null> {
+    const [previous] = await db.select()
+      .from(checkInMeetings)
+      .where(and(
+        eq(checkInMeetings.organizationId, meeting.organizationId),
+        eq(checkInMeetings.teamId, meeting.teamId),
+        eq(checkInMeetings.status, 'Completed'),
+        lt(checkInMeetings.scheduledDate, meeting.scheduledDate)
+      ))
+      .orderBy(desc(checkInMeetings.scheduledDate))
+      .limit(1);
+    return previous ?? null;
+  }
+
+  async listTopics(organizationId: number, meetingId: number): Promise<MeetingTopic[]> {
+    await this.getMeeting(organizationId, meetingId);
+    return db.select()
+      .from(meetingTopics)
+      .where(eq(meetingTopics.meetingId, meetingId))
+      .orderBy(desc(meetingTopics.priority), asc(meetingTopics.id));
+  }
+
+  /** Key results of the team whose value moved, or which went off track, since the previous check-in */
+  private async keyResultCandidates(meeting: CheckInMeeting, previous: CheckInMeeting | null): Promise<TopicCandidate[]> {
+    const teamKeyResults = await db.select()
+      .from(keyResults)
+      .where(and(eq(keyResults.organizationId, meeting.organizationId), eq(keyResults.teamId, meeting.teamId)));
+    if (teamKeyResults.length === 0) return [];
+
+    // Latest value on record when the previous check-in ended, from meeting or data binding snapshots
+    const baselines = new Map<number, { value: number; status: string }>();
+    if (previous) {
+      const since = previous.actualEndTime ?? previous.scheduledDate;
+      const snapshots = await db.select({
+        keyResultId: keyResultSnapshots.keyResultId,
+        currentValue: keyResultSnapshots.currentValue,
+        status: keyResultSnapshots.status,
+      })
+        .from(keyResultSnapshots)
+        .where(and(
+          inArray(keyResultSnapshots.keyResultId, teamKeyResults.map(kr => kr.id)),
+          lte(keyResultSnapshots.snapshotDate, since)
+        ))
+        .orderBy(desc(keyResultSnapshots.snapshotDate), desc(keyResultSnapshots.id));
+      for (const snapshot of snapshots) {
+        if (baselines.has(snapshot.keyResultId) || snapshot.currentValue === null) continue;
+        baselines.set(snapshot.keyResultId, { value: parseFloat(snapshot.currentValue), status: snapshot.status });
+      }
+    }
+
+    const candidates: TopicCandidate[] = [];
+    for (const kr of teamKeyResults) {
+      const baseline = baselines.get(kr.id);
+      const currentValue = parseFloat(kr.currentValue);
+      const moved = !!baseline && baseline.value !== currentValue;
+      const wasOffTrack = !!baseline && OFF_TRACK_STATUSES.includes(baseline.status);
+      const wentOffTrack = OFF_TRACK_STATUSES.includes(kr.status) && !wasOffTrack;
+      if (!moved && !wentOffTrack) continue;
+
+      const context: KeyResultTopicContext = {
+        previousValue: baseline?.value ?? null,
+        currentValue,
+        targetValue: kr.targetValue === null ? null : parseFloat(kr.targetValue),
+        previousStatus: baseline?.status ?? null,
+        status: kr.status,
+        wentOffTrack,
+      };
+      candidates.push({
+        source: 'key_result',
+        sourceId: kr.id,
+        title: truncate(kr.title),
+        description: describeKeyResultChange(context),
+        ...generated('key_result', wentOffTrack ? OFF_TRACK_PRIORITY_BOOST : 0),
+        context,
+      });
+    }
+    return candidates;
+  }
+
+  /** Open team work items due before the meeting (or today, for meetings further out) */
+  private async overdueWorkItemCandidates(meeting: CheckInMeeting): Promise<TopicCandidate[]> {
+    const asOf = new Date(Math.min(Date.now(), meeting.scheduledDate.getTime())).toISOString().split('T')[0];
+    const rows = await db.select({
+      id: workItems.id,
+      title: workItems.title,
+      status: workItems.status,
+      dueDate: workItems.dueDate,
+      assigneeName: users.fullName,
+    })
+      .from(workItems)
+      .leftJoin(users, eq(workItems.assignedTo, users.id))
+      .where(and(
+        eq(workItems.organizationId, meeting.organizationId),
+        eq(workItems.teamId, meeting.teamId),
+        isNotNull(workItems.dueDate),
+        lt(workItems.dueDate, asOf),
+        notInArray(workItems.status, ['Completed', 'Archived'])
+      ))
+      .orderBy(asc(workItems.dueDate), asc(workItems.id))
+      .limit(MAX_OVERDUE_TOPICS);
+
+    return rows.map(row => {
+      const context: WorkItemTopicContext = {
+        dueDate: row.dueDate!,
+        status: row.status,
+        assigneeName: row.assigneeName ?? null,
+      };
+      return {
+        source: 'work_item' as const,
+        sourceId: row.id,
+        title: truncate(row.title),
+        description: `Due ${row.dueDate}, ${row.status}${row.assigneeName ? `, assigned to ${row.assigneeName}` : ''}`,
+        ...generated('work_item'),
+        context,
+      };
+    });
+  }
+
+  /**
+   * Items raised in feedback on the previous check-in (or later ones) that
+   * have not been on another agenda yet. Once on an agenda, an item that is
+   * not discussed moves on as a carried-over topic instead.
+   */
+  private async feedbackCandidates(meeting: CheckInMeeting, previous: CheckInMeeting | null): Promise<TopicCandidate[]> {
+    if (!previous) return [];
+    const rows = await db.select({
+      id: teamFeedback.id,
+      items: teamFeedback.itemsForNextCheckIn,
+      userName: users.fullName,
+    })
+      .from(teamFeedback)
+      .innerJoin(checkInMeetings, eq(teamFeedback.meetingId, checkInMeetings.id))
+      .leftJoin(users, eq(teamFeedback.userId, users.id))
+      .where(and(
+        eq(teamFeedback.organizationId, meeting.organizationId),
+        eq(checkInMeetings.teamId, meeting.teamId),
+        gte(checkInMeetings.scheduledDate, previous.scheduledDate),
+        lt(checkInMeetings.scheduledDate, meeting.scheduledDate),
+        sql`NULLIF(TRIM(${teamFeedback.itemsForNextCheckIn}), '') IS NOT NULL`,
+        sql`NOT EXISTS (
+          SELECT 1 FROM meeting_topics mt
+          WHERE mt.source = 'feedback' AND mt.source_id = ${teamFeedback.id} AND mt.meeting_id <> ${meeting.id}
+        )`
+      ))
+      .orderBy(asc(teamFeedback.id));
+
+    return rows.map(row => ({
+      source: 'feedback' as const,
+      sourceId: row.id,
+      title: truncate(`Raised by ${row.userName ?? 'a team member'}`),
+      description: row.items!.trim(),
+      ...generated('feedback'),
+      context: null,
+    }));
+  }
+
+  /**
+   * Topics left pending or deferred in the previous check-in. A generated
+   * topic whose source is still on the new agenda is not carried over, since
+   * the fresh topic has the current figures.
+   */
+  private async carryOverCandidates(previous: CheckInMeeting | null, freshKeys: Set<string>): Promise<TopicCandidate[]> {
+    if (!previous) return [];
+    const open = await db.select()
+      .from(meetingTopics)
+      .where(and(
+        eq(meetingTopics.meetingId, previous.id),
+        inArray(meetingTopics.status, OPEN_TOPIC_STATUSES)
+      ))
+      .orderBy(desc(meetingTopics.priority), asc(meetingTopics.id));
+
+    return open
+      .filter(topic => topic.sourceId === null || !freshKeys.has(topicKey(topic.source, topic.sourceId)))
+      .map(topic => ({
+        source: 'carry_over' as const,
+        sourceId: topic.id,
+        title: topic.title,
+        description: topic.description,
+        ...generated('carry_over'),
+        context: { fromMeetingId: previous.id, fromStatus: topic.status ?? 'pending' },
+      }));
+  }
+
+  async buildAgenda(organizationId: number, meetingId: number): Promise<AgendaBuildResult> {
+    const meeting = await this.getMeeting(organizationId, meetingId);
+    if (meeting.status === 'Completed' || meeting.status === 'Skipped') {
+      throw new MeetingAgendaError(`Cannot rebuild the agenda of a ${meeting.status.toLowerCase()} meeting`, 409);
+    }
+
+    const previous = await this.getPreviousMeeting(meeting);
+    const fresh = [
+      ...(await this.keyResultCandidates(meeting, previous)),
+      ...(await this.overdueWorkItemCandidates(meeting)),
+      ...(await this.feedbackCandidates(meeting, previous)),
+    ];
+    const candidates = [
+      ...(await this.carryOverCandidates(previous, new Set(fresh.map(c => topicKey(c.source, c.sourceId))))),
+      ...fresh,
+    ];
+
+    const existing = await db.select().from(meetingTopics).where(eq(meetingTopics.meetingId, meeting.id));
+    const existingByKey = new Map(
+      existing.filter(topic => topic.sourceId !== null).map(topic => [topicKey(topic.source, topic.sourceId), topic])
+    );
+    const candidateKeys = new Set(candidates.map(c => topicKey(c.source, c.sourceId)));
+    let added = 0;
+    let updated = 0;
+
+    for (const candidate of candidates) {
+      const current = existingByKey.get(topicKey(candidate.source, candidate.sourceId));
+      if (!current) {
+        const inserted = await db.insert(meetingTopics)
+          .values({ meetingId: meeting.id, status: 'pending', ...candidate })
+          .onConflictDoNothing()
+          .returning({ id: meetingTopics.id });
+        added += inserted.length;
+      } else if (current.status === 'pending' && (
+        current.description !== candidate.description ||
+        JSON.stringify(current.context) !== JSON.stringify(candidate.context)
+      )) {
+        await db.update(meetingTopics)
+          .set({ description: candidate.description, context: candidate.context })
+          .where(eq(meetingTopics.id, current.id));
+        updated++;
+      }
+    }
+
+    const stale = existing.filter(topic =>
+      topic.source !== 'manual' &&
+      topic.status === 'pending' &&
+      !candidateKeys.has(topicKey(topic.source, topic.sourceId))
+    );
+    if (stale.length > 0) {
+      await db.delete(meetingTopics).where(inArray(meetingTopics.id, stale.map(topic => topic.id)));
+    }
+
+    return { added, updated, removed: stale.length, topics: await this.listTopics(organizationId, meeting.id) };
+  }
+
+  async addTopic(organizationId: number, meetingId: number, data: TopicInput & { title: string }): Promise<MeetingTopic> {
+    await this.getMeeting(organizationId, meetingId);
+    const [topic] = await db.insert(meetingTopics)
+      .values({ ...data, meetingId, source: 'manual' })
+      .returning();
+    return topic;
+  }
+
+  async updateTopic(organizationId: number, meetingId: number, topicId: number, data: TopicInput): Promise<MeetingTopic> {
+    await this.getMeeting(organizationId, meetingId);
+    const [topic] = await db.update(meetingTopics)
+      .set(data)
+      .where(and(eq(meetingTopics.id, topicId), eq(meetingTopics.meetingId, meetingId)))
+      .returning();
+    if (!topic) throw new MeetingAgendaError('Topic not found', 404);
+    return topic;
+  }
+
+  async deleteTopic(organizationId: number, meetingId: number, topicId: number): Promise<void> {
+    await this.getMeeting(organizationId, meetingId);
+    const deleted = await db.delete(meetingTopics)
+      .where(and(eq(meetingTopics.id, topicId), eq(meetingTopics.meetingId, meetingId)))
+      .returning({ id: meetingTopics.id });
+    if (deleted.length === 0) throw new MeetingAgendaError('Topic not found', 404);
+  }
+}
+
+export const meetingAgenda = new MeetingAgendaService();
@@ -0,0 +1,417 @@
+import { db } from '../db';
+import { and, asc, desc, eq, gte, inArray, lt, lte, or } from 'drizzle-orm';
+import { marked } from 'marked';
+import {
+  checkInMeetings,
+  emailTemplates,
+  keyResultSnapshots,
+  keyResults,
+  knowledgeDocuments,
+  knowledgeFolders,
+  meetingAttendees,
+  meetingItemUpdates,
+  meetingTopics,
+  objectives,
+  strategySettings,
+  teamFeedback,
+  teamMembers,
+  teams,
+  users,
+  workItems,
+  type CheckInMeeting,
+  type EmailTemplate,
+  type KnowledgeDocument,
+} from '../../shared/schema';
+import {
+  FEEDBACK_RATINGS,
+  minutesTitle,
+  renderMinutesMarkdown,
+  type FeedbackRating,
+  type MeetingMinutes,
+} from '../../shared/meetingMinutes';
+import { emailTemplateService } from './emailTemplateService';
+import { OutlookService } from './integrations/outlookService';
+
+export class MeetingMinutesError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'MeetingMinutesError';
+  }
+}
+
+export interface MinutesDistribution {
+  recipients: string[];
+  sentAt: Date;
+}
+
+/** Used when no minutes template is configured in the strategy settings */
+const DEFAULT_MINUTES_TEMPLATE: EmailTemplate = {
+  id: 0,
+  organizationId: 0,
+  title: 'Meeting minutes',
+  subject: 'Minutes: {{meetingTitle}} ({{meetingDate}})',
+  htmlBody: '<div style="font-family: sans-serif; font-size: 14px; line-height: 1.5">{{minutesHtml}}{{knowledgeBaseLink}}</div>',
+  variablesManifest: null,
+  status: 'active',
+  createdAt: null,
+  updatedAt: null,
+};
+
+/** Meeting notes come from the rich text editor; the minutes only need their text */
+function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/** meeting_item_updates values are free-form JSON: a bare value, or an object with a status or value */
+function describeValue(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value !== 'object') return String(value);
+  const record = value as Record<string, unknown>;
+  const preferred = record.status ?? record.value ?? record.currentValue;
+  return preferred !== undefined && preferred !== null ? String(preferred) : JSON.stringify(value);
+}
+
+function toNumber(value: string | null): number | null {
+  return value === null ? null : parseFloat(value);
+}
+
+/**
+ * Minutes for completed check-ins: decisions from the agenda, updates made
+ * in the meeting, new work items, key result changes and feedback. Minutes
+ * are rebuilt from the database each time, so saving them again after late
+ * feedback refreshes the knowledge base document rather than adding another.
+ */
+export class MeetingMinutesService {
+  private async getMeeting(organizationId: number, meetingId: number): Promise<CheckInMeeting & { teamName: string }> {
+    const [row] = await db.select({ meeting: checkInMeetings, teamName: teams.name })
+      .from(checkInMeetings)
+      .innerJoin(teams, eq(checkInMeetings.teamId, teams.id))
+      .where(and(eq(checkInMeetings.id, meetingId), eq(checkInMeetings.organizationId, organizationId)));
+    if (!row) throw new MeetingMinutesError('Meeting not found', 404);
+    return { ...row.meeting, teamName: row.teamName };
+  }
+
+  private async getCompletedMeeting(organizationId: number, meetingId: number) {
+    const meeting = await this.getMeeting(organizationId, meetingId);
+    if (meeting.status !== 'Completed') {
+      throw new MeetingMinutesError('Minutes are available once the meeting is completed', 409);
+    }
+    return meeting;
+  }
+
+  private async keyResultChanges(meeting: CheckInMeeting): Promise<MeetingMinutes['keyResultChanges']> {
+    const snapshots = await db.select({
+      keyResultId: keyResultSnapshots.keyResultId,
+      title: keyResultSnapshots.title,
+      currentValue: keyResultSnapshots.currentValue,
+      targetValue: keyResultSnapshots.targetValue,
+      status: keyResultSnapshots.status,
+    })
+      .from(keyResultSnapshots)
+      .where(eq(keyResultSnapshots.checkInMeetingId, meeting.id))
+      .orderBy(asc(keyResultSnapshots.keyResultId));
+    if (snapshots.length === 0) return [];
+
+    const [previous] = await db.select({ id: checkInMeetings.id })
+      .from(checkInMeetings)
+      .where(and(
+        eq(checkInMeetings.organizationId, meeting.organizationId),
+        eq(checkInMeetings.teamId, meeting.teamId),
+        eq(checkInMeetings.status, 'Completed'),
+        lt(checkInMeetings.scheduledDate, meeting.scheduledDate)
+      ))
+      .orderBy(desc(checkInMeetings.scheduledDate))
+      .limit(1);
+    const previousValues = new Map<number, number | null>();
+    if (previous) {
+      const previousSnapshots = await db.select({
+        keyResultId: keyResultSnapshots.keyResultId,
+        currentValue: keyResultSnapshots.currentValue,
+      })
+        .from(keyResultSnapshots)
+        .where(eq(keyResultSnapshots.checkInMeetingId, previous.id));
+      for (const snapshot of previousSnapshots) {
+        previousValues.set(snapshot.keyResultId, toNumber(snapshot.currentValue));
+      }
+    }
+
+    return snapshots.map(snapshot => ({
+      keyResultId: snapshot.keyResultId,
+      title: snapshot.title,
+      previousValue: previousValues.get(snapshot.keyResultId) ?? null,
+      currentValue: toNumber(snapshot.currentValue),
+      targetValue: toNumber(snapshot.targetValue),
+      status: snapshot.status,
+    }));
+  }
+
+  async buildMinutes(organizationId: number, meetingId: number): Promise<MeetingMinutes> {
+    const meeting = await this.getMeeting(organizationId, meetingId);
+
+    const attendees = await db.select({ name: users.fullName, username: users.username, attendance: meetingAttendees.attendance })
+      .from(meetingAttendees)
+      .innerJoin(users, eq(meetingAttendees.userId, users.id))
+      .where(eq(meetingAttendees.meetingId, meeting.id))
+      .orderBy(asc(users.fullName));
+    const attendeeName = (attendee: typeof attendees[number]) => attendee.name ?? attendee.username;
+
+    const topics = await db.select()
+      .from(meetingTopics)
+      .where(eq(meetingTopics.meetingId, meeting.id))
+      .orderBy(desc(meetingTopics.priority), asc(meetingTopics.id));
+
+    const updates = await db.select({
+      update: meetingItemUpdates,
+      workItemTitle: workItems.title,
+      keyResultTitle: keyResults.title,
+      objectiveTitle: objectives.title,
+      updatedBy: users.fullName,
+    })
+      .from(meetingItemUpdates)
+      .leftJoin(workItems, eq(meetingItemUpdates.workItemId, workItems.id))
+      .leftJoin(keyResults, eq(meetingItemUpdates.keyResultId, keyResults.id))
+      .leftJoin(objectives, eq(meetingItemUpdates.objectiveId, objectives.id))
+      .leftJoin(users, eq(meetingItemUpdates.updatedBy, users.id))
+      .where(eq(meetingItemUpdates.meetingId, meeting.id))
+      .orderBy(asc(meetingItemUpdates.createdAt));
+
+    // Work items created while the meeting ran, for this team or this meeting
+    const newWorkItems = meeting.actualStartTime
+      ? await db.select({
+        id: workItems.id,
+        title: workItems.title,
+        status: workItems.status,
+        dueDate: workItems.dueDate,
+        assigneeName: users.fullName,
+      })
+        .from(workItems)
+        .leftJoin(users, eq(workItems.assignedTo, users.id))
+        .where(and(
+          eq(workItems.organizationId, organizationId),
+          or(eq(workItems.teamId, meeting.teamId), eq(workItems.targetMeetingId, meeting.id)),
+          gte(workItems.createdAt, meeting.actualStartTime),
+          lte(workItems.createdAt, meeting.actualEndTime ?? new Date())
+        ))
+        .orderBy(asc(workItems.id))
+      : [];
+
+    const feedback = await db.select({
+      rating: teamFeedback.overallRating,
+      items: teamFeedback.itemsForNextCheckIn,
+      userName: users.fullName,
+    })
+      .from(teamFeedback)
+      .leftJoin(users, eq(teamFeedback.userId, users.id))
+      .where(eq(teamFeedback.meetingId, meeting.id))
+      .orderBy(asc(teamFeedback.id));
+    const ratings = Object.fromEntries(FEEDBACK_RATINGS.map(rating => [rating, 0])) as Record<FeedbackRating, number>;
+    for (const entry of feedback) {
+      if (entry.rating && entry.rating in ratings) ratings[entry.rating as FeedbackRating]++;
+    }
+
+    const startedAt = meeting.actualStartTime;
+    const endedAt = meeting.actualEndTime;
+    return {
+      meetingId: meeting.id,
+      title: meeting.title,
+      teamName: meeting.teamName,
+      scheduledDate: meeting.scheduledDate.toISOString(),
+      startedAt: startedAt?.toISOString() ?? null,
+      endedAt: endedAt?.toISOString() ?? null,
+      durationMinutes: startedAt && endedAt ? Math.round((endedAt.getTime() - startedAt.getTime()) / 60000) : null,
+      attendance: {
+        present: attendees.filter(a => a.attendance === 'present' || a.attendance === 'partial').map(attendeeName),
+        absent: attendees.filter(a => a.attendance === 'absent').map(attendeeName),
+      },
+      decisions: topics
+        .filter(topic => topic.status === 'discussed')
+        .map(topic => ({ title: topic.title, status: 'discussed', outcomes: topic.outcomes })),
+      deferred: topics
+        .filter(topic => topic.status !== 'discussed')
+        .map(topic => ({ title: topic.title, status: topic.status ?? 'pending', outcomes: topic.outcomes })),
+      notes: meeting.notes ? htmlToText(meeting.notes) || null : null,
+      updates: updates.map(row => ({
+        subject: row.workItemTitle ?? row.keyResultTitle ?? row.objectiveTitle ?? 'Deleted item',
+        updateType: row.update.updateType,
+        previousValue: describeValue(row.update.previousValue),
+        newValue: describeValue(row.update.newValue),
+        notes: row.update.notes,
+        updatedBy: row.updatedBy ?? null,
+      })),
+      newWorkItems: newWorkItems.map(item => ({ ...item, assigneeName: item.assigneeName ?? null })),
+      keyResultChanges: await this.keyResultChanges(meeting),
+      feedback: {
+        responses: feedback.length,
+        ratings,
+        itemsForNextCheckIn: feedback
+          .filter(entry => entry.items?.trim())
+          .map(entry => ({ userName: entry.userName ?? 'A team member', items: entry.items!.trim() })),
+      },
+    };
+  }
+
+  async renderMarkdown(organizationId: number, meetingId: number): Promise<{ minutes: MeetingMinutes; markdown: string }> {
+    const minutes = await this.buildMinutes(organizationId, meetingId);
+    return { minutes, markdown: renderMinutesMarkdown(minutes) };
+  }
+
+  /** Create the meeting's minutes document, or refresh it if it was saved before */
+  async saveToKnowledgeBase(organizationId: number, meetingId: number, userId: number, folderId?: number | null): Promise<KnowledgeDocument> {
+    const meeting = await this.getCompletedMeeting(organizationId, meetingId);
+    if (folderId) {
+      const [folder] = await db.select({ id: knowledgeFolders.id })
+        .from(knowledgeFolders)
+        .where(and(eq(knowledgeFolders.id, folderId), eq(knowledgeFolders.organizationId, organizationId)));
+      if (!folder) throw new MeetingMinutesError('Knowledge base folder not found', 404);
+    }
+
+    const { minutes, markdown } = await this.renderMarkdown(organizationId, meetingId);
+    const fields = {
+      title: minutesTitle(minutes),
+      content: markdown,
+      summary: `${minutes.decisions.length} decisions, ${minutes.updates.length} updates, ${minutes.newWorkItems.length} new work items`,
+      metadata: { meetingId, generatedAt: new Date().toISOString() },
+    };
+
+    if (meeting.minutesDocumentId) {
+      const [updated] = await db.update(knowledgeDocuments)
+        .set({ ...fields, ...(folderId ? { folderId } : {}), updatedAt: new Date() })
+        .where(and(eq(knowledgeDocuments.id, meeting.minutesDocumentId), eq(knowledgeDocuments.organizationId, organizationId)))
+        .returning();
+      if (updated) return updated;
+    }
+
+    const [created] = await db.insert(knowledgeDocuments)
+      .values({
+        ...fields,
+        organizationId,
+        folderId: folderId ?? null,
+        teamId: meeting.teamId,
+        categories: ['Meeting minutes'],
+        status: 'published',
+        authorId: userId,
+      })
+      .returning();
+    await db.update(checkInMeetings)
+      .set({ minutesDocumentId: created.id, updatedAt: new Date() })
+      .where(eq(checkInMeetings.id, meeting.id));
+    return created;
+  }
+
+  /** Everyone invited to the meeting, or the whole team when attendance was not recorded */
+  private async recipients(meeting: CheckInMeeting): Promise<string[]> {
+    let rows = await db.select({ email: users.email })
+      .from(meetingAttendees)
+      .innerJoin(users, eq(meetingAttendees.userId, users.id))
+      .where(eq(meetingAttendees.meetingId, meeting.id));
+    if (rows.length === 0) {
+      rows = await db.select({ email: users.email })
+        .from(teamMembers)
+        .innerJoin(users, eq(teamMembers.userId, users.id))
+        .where(eq(teamMembers.teamId, meeting.teamId));
+    }
+    return Array.from(new Set(rows.map(row => row.email.trim().toLowerCase()).filter(Boolean)));
+  }
+
+  /** Email the minutes to attendees through the organisation's Outlook integration */
+  async distribute(organizationId: number, meetingId: number): Promise<MinutesDistribution> {
+    const meeting = await this.getCompletedMeeting(organizationId, meetingId);
+    const recipients = await this.recipients(meeting);
+    if (recipients.length === 0) throw new MeetingMinutesError('The meeting has no attendees with an email address');
+
+    const [settings] = await db.select()
+      .from(strategySettings)
+      .where(eq(strategySettings.organizationId, organizationId))
+      .limit(1);
+    let template = DEFAULT_MINUTES_TEMPLATE;
+    if (settings?.minutesEmailTemplateId) {
+      const [configured] = await db.select()
+        .from(emailTemplates)
+        .where(and(eq(emailTemplates.id, settings.minutesEmailTemplateId), eq(emailTemplates.organizationId, organizationId)));
+      if (configured) template = configured;
+    }
+
+    const { minutes, markdown } = await this.renderMarkdown(organizationId, meetingId);
+    const baseUrl = process.env.BASE_URL || `http://localhost:${process.env.PORT || 5000}`;
+    const rendered = emailTemplateService.renderTemplate(template, {
+      meetingTitle: minutes.title,
+      teamName: minutes.teamName,
+      meetingDate: new Date(minutes.scheduledDate).toLocaleDateString('en-GB', { timeZone: 'Europe/London' }),
+      minutesHtml: marked.parse(markdown, { async: false }) as string,
+      knowledgeBaseLink: meeting.minutesDocumentId
+        ? `<p><a href="${baseUrl}/kb/documents/${meeting.minutesDocumentId}">Open in the knowledge base</a></p>`
+        : '',
+    });
+    if (rendered.unresolvedVariables.length > 0) {
+      console.warn(`[MeetingMinutes] Template ${template.id} uses unknown variables: ${rendered.unresolvedVariables.join(', ')}`);
+    }
+
+    const outlook = new OutlookService(organizationId);
+    try {
+      await outlook.initialize();
+    } catch (error: any) {
+      throw new MeetingMinutesError(error.message || 'Outlook integration not configured', 409);
+    }
+    try {
+      await outlook.sendMail({
+        message: {
+          subject: rendered.subject,
+          body: { contentType: 'HTML', content: rendered.html },
+          toRecipients: recipients.map(address => ({ emailAddress: { address } })),
+        },
+        saveToSentItems: true,
+      });
+    } catch (error: any) {
+      throw new MeetingMinutesError(`Failed to send minutes: ${error.response?.data?.error?.message || error.message}`, 502);
+    }
+
+    const sentAt = new Date();
+    await db.update(checkInMeetings)
+      .set({ minutesDistributedAt: sentAt, updatedAt: sentAt })
+      .where(eq(checkInMeetings.id, meeting.id));
+    return { recipients, sentAt };
+  }
+
+  /**
+   * Save and send the minutes as configured in the strategy settings. Runs
+   * after a meeting is completed; failures are logged, never thrown, so they
+   * cannot undo the completion.
+   */
+  async onMeetingCompleted(organizationId: number, meetingId: number, userId: number): Promise<{ documentId: number | null; recipients: string[] }> {
+    const result = { documentId: null as number | null, recipients: [] as string[] };
+    const [settings] = await db.select()
+      .from(strategySettings)
+      .where(eq(strategySettings.organizationId, organizationId))
+      .limit(1);
+    if (!settings) return result;
+
+    if (settings.minutesFolderId) {
+      try {
+        result.documentId = (await this.saveToKnowledgeBase(organizationId, meetingId, userId, settings.minutesFolderId)).id;
+      } catch (error) {
+        console.error(`[MeetingMinutes] Failed to save minutes of meeting ${meetingId}:`, error);
+      }
+    }
+    if (settings.distributeMinutes) {
+      try {
+        result.recipients = (await this.distribute(organizationId, meetingId)).recipients;
+      } catch (error) {
+        console.error(`[MeetingMinutes] Failed to send minutes of meeting ${meetingId}:`, error);
+      }
+    }
+    return result;
+  }
+}
+
+export const meetingMinutes = new MeetingMinutesService();
@@ -0,0 +1,212 @@
+import { db } from '../db';
+import { and, asc, eq, inArray, notInArray } from 'drizzle-orm';
+import { checkInCycles, keyResultSnapshots, keyResults, objectives, objectivesSnapshots } from '../../shared/schema';
+import {
+  RISK_ORDER,
+  forecastKeyResult,
+  summariseObjectiveForecast,
+  type ForecastPoint,
+  type KeyResultForecast,
+  type KeyResultForecastEntry,
+  type ObjectiveForecast,
+  type OrganizationForecast,
+} from '../../shared/okrForecast';
+
+interface ForecastFilters {
+  objectiveIds?: number[];
+  teamId?: number;
+}
+
+function toDate(value: Date | string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/** The end of the (UTC) day a date falls on: cycles and target dates include their last day */
+function endOfDay(value: Date | string | null | undefined): Date | null {
+  const date = toDate(value);
+  if (!date) return null;
+  const end = new Date(date);
+  end.setUTCHours(23, 59, 59, 999);
+  return end;
+}
+
+function groupBy<T>(rows: T[], key: (row: T) => number): Map<number, T[]> {
+  const groups = new Map<number, T[]>();
+  for (const row of rows) {
+    const id = key(row);
+    groups.set(id, [...(groups.get(id) || []), row]);
+  }
+  return groups;
+}
+
+/**
+ * Forecasts key results and objectives from their snapshot history (see
+ * shared/okrForecast for the model). The horizon is the objective's current or
+ * next check-in cycle, falling back to the objective's target date.
+ */
+export class OkrForecastService {
+  async forecastOrganization(organizationId: number, filters: ForecastFilters = {}): Promise<OrganizationForecast> {
+    const now = new Date();
+
+    const conditions = [
+      eq(objectives.organizationId, organizationId),
+      notInArray(objectives.status, ['Archived', 'Completed']),
+    ];
+    if (filters.objectiveIds?.length) conditions.push(inArray(objectives.id, filters.objectiveIds));
+    if (filters.teamId) conditions.push(eq(objectives.teamId, filters.teamId));
+
+    const objectiveRows = await db.select().from(objectives).where(and(...conditions));
+    if (objectiveRows.length === 0) {
+      return { generatedAt: now.toISOString(), objectives: [], likelyToMissCount: 0, offTrackKeyResults: [] };
+    }
+
+    const objectiveIds = objectiveRows.map(objective => objective.id);
+    const [keyResultRows, cycleRows, objectiveSnapshotRows] = await Promise.all([
+      db.select().from(keyResults).where(and(eq(keyResults.organizationId, organizationId), inArray(keyResults.objectiveId, objectiveIds))),
+      db.select().from(checkInCycles).where(and(eq(checkInCycles.organizationId, organizationId), inArray(checkInCycles.objectiveId, objectiveIds))),
+      db.select({
+        objectiveId: objectivesSnapshots.objectiveId,
+        progressPercentage: objectivesSnapshots.progressPercentage,
+        snapshotDate: objectivesSnapshots.snapshotDate,
+      })
+        .from(objectivesSnapshots)
+        .where(inArray(objectivesSnapshots.objectiveId, objectiveIds))
+        .orderBy(asc(objectivesSnapshots.snapshotDate)),
+    ]);
+
+    const keyResultIds = keyResultRows.map(kr => kr.id);
+    const snapshotRows = keyResultIds.length > 0
+      ? await db.select({
+        keyResultId: keyResultSnapshots.keyResultId,
+        currentValue: keyResultSnapshots.currentValue,
+        snapshotDate: keyResultSnapshots.snapshotDate,
+      })
+        .from(keyResultSnapshots)
+        .where(inArray(keyResultSnapshots.keyResultId, keyResultIds))
+        .orderBy(asc(keyResultSnapshots.snapshotDate))
+      : [];
+
+    const keyResultsByObjective = groupBy(keyResultRows, kr => kr.objectiveId as number);
+    const cyclesByObjective = groupBy(cycleRows, cycle => cycle.objectiveId as number);
+    const snapshotsByKeyResult = groupBy(snapshotRows, snapshot => snapshot.keyResultId);
+    const objectiveSnapshotsByObjective = groupBy(objectiveSnapshotRows, snapshot => snapshot.objectiveId);
+
+    const forecasts = objectiveRows.map(objective => {
+      const { cycleStart, cycleEnd, horizon } = this.resolveHorizon(objective, cyclesByObjective.get(objective.id) || [], now);
+
+      const keyResultForecasts: KeyResultForecastEntry[] = (keyResultsByObjective.get(objective.id) || [])
+        .filter(kr => kr.targetValue !== null)
+        .map(kr => {
+          const history: ForecastPoint[] = (snapshotsByKeyResult.get(kr.id) || [])
+            .filter(snapshot => snapshot.currentValue !== null && snapshot.snapshotDate)
+            .map(snapshot => ({ date: snapshot.snapshotDate as Date, value: parseFloat(snapshot.currentValue as string) }));
+          const currentValue = parseFloat(kr.currentValue);
+          const targetValue = parseFloat(kr.targetValue as string);
+
+          return {
+            keyResultId: kr.id,
+            objectiveId: objective.id,
+            title: kr.title,
+            currentValue,
+            targetValue,
+            ...forecastKeyResult({
+              points: history,
+              currentValue,
+              targetValue,
+              baselineValue: this.baselineAt(history, cycleStart),
+              cycleStart,
+              cycleEnd,
+              now,
+            }),
+          };
+        })
+        .sort((a, b) => RISK_ORDER[a.risk] - RISK_ORDER[b.risk]);
+
+      let summary = summariseObjectiveForecast(keyResultForecasts);
+      let objectiveTrend: KeyResultForecast | null = null;
+
+      // No key result could be scored: fall back to the objective's own progress history
+      if (summary.confidence === null) {
+        const history = (objectiveSnapshotsByObjective.get(objective.id) || [])
+          .filter(snapshot => snapshot.progressPercentage !== null && snapshot.snapshotDate)
+          .map(snapshot => ({ date: snapshot.snapshotDate as Date, value: parseFloat(snapshot.progressPercentage as string) }));
+
+        if (history.length > 0) {
+          objectiveTrend = forecastKeyResult({
+            points: history.slice(0, -1),
+            currentValue: history[history.length - 1].value,
+            targetValue: 100,
+            baselineValue: this.baselineAt(history, cycleStart),
+            cycleStart,
+            cycleEnd,
+            now,
+          });
+          if (objectiveTrend.confidence !== null) {
+            summary = {
+              ...summariseObjectiveForecast([objectiveTrend]),
+              offTrackCount: summary.offTrackCount,
+              atRiskCount: summary.atRiskCount,
+            };
+          }
+        }
+      }
+
+      return {
+        objectiveId: objective.id,
+        title: objective.title,
+        teamId: objective.teamId ?? null,
+        cycleStart: cycleStart.toISOString(),
+        cycleEnd: cycleEnd ? cycleEnd.toISOString() : null,
+        horizon,
+        objectiveTrend,
+        keyResults: keyResultForecasts,
+        ...summary,
+      };
+    });
+
+    forecasts.sort((a, b) => RISK_ORDER[a.risk] - RISK_ORDER[b.risk] || (a.confidence ?? 101) - (b.confidence ?? 101));
+
+    return {
+      generatedAt: now.toISOString(),
+      objectives: forecasts,
+      likelyToMissCount: forecasts.filter(forecast => forecast.likelyToMiss).length,
+      offTrackKeyResults: forecasts
+        .flatMap(forecast => forecast.keyResults)
+        .filter(kr => kr.risk === 'off_track' || kr.risk === 'at_risk')
+        .sort((a, b) => RISK_ORDER[a.risk] - RISK_ORDER[b.risk] || (a.confidence ?? 0) - (b.confidence ?? 0)),
+    };
+  }
+
+  /** Current check-in cycle (or the next one), else the objective's target date */
+  private resolveHorizon(
+    objective: typeof objectives.$inferSelect,
+    cycles: Array<typeof checkInCycles.$inferSelect>,
+    now: Date
+  ): { cycleStart: Date; cycleEnd: Date | null; horizon: ObjectiveForecast['horizon'] } {
+    const upcoming = cycles
+      .filter(cycle => cycle.status !== 'Completed' && (endOfDay(cycle.endDate) as Date) >= now)
+      .sort((a, b) => a.endDate.localeCompare(b.endDate));
+    const cycle = upcoming.find(c => (toDate(c.startDate) as Date) <= now) || upcoming[0];
+
+    if (cycle) {
+      return { cycleStart: toDate(cycle.startDate) as Date, cycleEnd: endOfDay(cycle.endDate), horizon: 'check_in_cycle' };
+    }
+
+    const targetDate = endOfDay(objective.targetDate);
+    return {
+      cycleStart: toDate(objective.createdAt) || now,
+      cycleEnd: targetDate,
+      horizon: targetDate ? 'target_date' : null,
+    };
+  }
+
+  /** Latest value recorded on or before the cycle start, if any */
+  private baselineAt(history: ForecastPoint[], cycleStart: Date): number | null {
+    const before = history.filter(point => new Date(point.date).getTime() <= cycleStart.getTime());
+    return before.length > 0 ? before[before.length - 1].value : null;
+  }
+}
+
+export const okrForecasts = new OkrForecastService();
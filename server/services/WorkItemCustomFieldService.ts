@@ -0,0 +1,198 @@
+import { db } from '../db';
+import { and, asc, eq, inArray } from 'drizzle-orm';
+import { addressRecords, customFieldDefinitions, users } from '../../shared/schema';
+import {
+  WORK_ITEM_CUSTOM_FIELDS_TABLE,
+  WORK_ITEM_CUSTOM_FIELD_TYPES,
+  definitionsForType,
+  validateCustomFieldValues,
+  type CustomFieldOption,
+  type CustomFieldValues,
+  type WorkItemCustomFieldDefinition,
+  type WorkItemCustomFieldType,
+} from '../../shared/workItemCustomFields';
+
+export class CustomFieldValidationError extends Error {
+  constructor(message: string, public readonly fieldErrors: Record<string, string> = {}) {
+    super(message);
+    this.name = 'CustomFieldValidationError';
+  }
+}
+
+export interface WorkItemCustomFieldInput {
+  fieldName: string;
+  displayLabel: string;
+  fieldType: WorkItemCustomFieldType;
+  description?: string | null;
+  workItemType?: string | null;
+  options?: CustomFieldOption[] | null;
+  isRequired?: boolean;
+  sortOrder?: number;
+}
+
+const FIELD_NAME_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+function toDefinition(row: typeof customFieldDefinitions.$inferSelect): WorkItemCustomFieldDefinition {
+  return {
+    id: row.id,
+    fieldName: row.fieldName,
+    displayLabel: row.displayLabel,
+    fieldType: row.fieldType,
+    description: row.description,
+    workItemType: row.workItemType,
+    options: row.options ?? null,
+    isRequired: row.isRequired,
+    sortOrder: row.sortOrder,
+  };
+}
+
+/**
+ * Organization-defined custom fields on work items: definition management and
+ * server-side validation of submitted values, including that user and address
+ * links point at records in the same organization.
+ */
+export class WorkItemCustomFieldService {
+  async listDefinitions(organizationId: number, workItemType?: string | null): Promise<WorkItemCustomFieldDefinition[]> {
+    const rows = await db.select()
+      .from(customFieldDefinitions)
+      .where(and(
+        eq(customFieldDefinitions.organizationId, organizationId),
+        eq(customFieldDefinitions.tableName, WORK_ITEM_CUSTOM_FIELDS_TABLE)
+      ))
+      .orderBy(asc(customFieldDefinitions.sortOrder), asc(customFieldDefinitions.id));
+    const definitions = rows.map(toDefinition);
+    return workItemType === undefined ? definitions : definitionsForType(definitions, workItemType);
+  }
+
+  private validateDefinition(input: Partial<WorkItemCustomFieldInput>) {
+    if (input.fieldName !== undefined && !FIELD_NAME_PATTERN.test(input.fieldName)) {
+      throw new CustomFieldValidationError('Invalid field name. Use lowercase letters, numbers, and underscores only.');
+    }
+    if (input.fieldType !== undefined && !WORK_ITEM_CUSTOM_FIELD_TYPES.includes(input.fieldType)) {
+      throw new CustomFieldValidationError(`Unsupported field type "${input.fieldType}"`);
+    }
+    if (input.fieldType === 'select' && (!input.options || input.options.length === 0)) {
+      throw new CustomFieldValidationError('Select fields need at least one option');
+    }
+  }
+
+  async createDefinition(organizationId: number, input: WorkItemCustomFieldInput, userId: number | null): Promise<WorkItemCustomFieldDefinition> {
+    this.validateDefinition(input);
+
+    const existing = await this.listDefinitions(organizationId);
+    if (existing.some(definition => definition.fieldName === input.fieldName)) {
+      throw new CustomFieldValidationError(`A work item field named "${input.fieldName}" already exists`);
+    }
+
+    const [row] = await db.insert(customFieldDefinitions)
+      .values({
+        organizationId,
+        tableName: WORK_ITEM_CUSTOM_FIELDS_TABLE,
+        fieldName: input.fieldName,
+        displayLabel: input.displayLabel,
+        fieldType: input.fieldType,
+        description: input.description ?? null,
+        workItemType: input.workItemType || null,
+        options: input.fieldType === 'select' ? input.options ?? null : null,
+        isRequired: input.isRequired ?? false,
+        sortOrder: input.sortOrder ?? existing.length,
+        createdBy: userId,
+      })
+      .returning();
+    return toDefinition(row);
+  }
+
+  /** Field name and type are fixed once created, since stored values depend on them */
+  async updateDefinition(
+    organizationId: number,
+    id: number,
+    input: Partial<Omit<WorkItemCustomFieldInput, 'fieldName' | 'fieldType'>>
+  ): Promise<WorkItemCustomFieldDefinition | null> {
+    const [current] = await db.select()
+      .from(customFieldDefinitions)
+      .where(and(
+        eq(customFieldDefinitions.id, id),
+        eq(customFieldDefinitions.organizationId, organizationId),
+        eq(customFieldDefinitions.tableName, WORK_ITEM_CUSTOM_FIELDS_TABLE)
+      ));
+    if (!current) return null;
+
+    if (current.fieldType === 'select' && input.options !== undefined) {
+      this.validateDefinition({ fieldType: 'select', options: input.options });
+    }
+
+    const [row] = await db.update(customFieldDefinitions)
+      .set({
+        displayLabel: input.displayLabel,
+        description: input.description,
+        workItemType: input.workItemType === undefined ? undefined : input.workItemType || null,
+        options: current.fieldType === 'select' ? input.options ?? undefined : undefined,
+        isRequired: input.isRequired,
+        sortOrder: input.sortOrder,
+        updatedAt: new Date(),
+      })
+      .where(eq(customFieldDefinitions.id, id))
+      .returning();
+    return toDefinition(row);
+  }
+
+  /** Stored values are left on work items and simply stop being shown */
+  async deleteDefinition(organizationId: number, id: number): Promise<boolean> {
+    const deleted = await db.delete(customFieldDefinitions)
+      .where(and(
+        eq(customFieldDefinitions.id, id),
+        eq(customFieldDefinitions.organizationId, organizationId),
+        eq(customFieldDefinitions.tableName, WORK_ITEM_CUSTOM_FIELDS_TABLE)
+      ))
+      .returning({ id: customFieldDefinitions.id });
+    return deleted.length > 0;
+  }
+
+  /**
+   * Validate submitted values for a work item of the given type and merge them
+   * into the stored values. Throws CustomFieldValidationError with per-field
+   * messages when anything is invalid.
+   */
+  async validateValues(
+    organizationId: number,
+    workItemType: string | null | undefined,
+    submitted: Record<string, unknown>,
+    existing: CustomFieldValues = {}
+  ): Promise<CustomFieldValues> {
+    const definitions = await this.listDefinitions(organizationId, workItemType ?? null);
+    const { values, errors } = validateCustomFieldValues(definitions, submitted, existing);
+
+    const referenced = (fieldType: string) => definitions
+      .filter(definition => definition.fieldType === fieldType && submitted[definition.fieldName] !== undefined && typeof values[definition.fieldName] === 'number')
+      .map(definition => ({ fieldName: definition.fieldName, label: definition.displayLabel, id: values[definition.fieldName] as number }));
+
+    const userRefs = referenced('user');
+    if (userRefs.length > 0) {
+      const found = await db.select({ id: users.id })
+        .from(users)
+        .where(and(eq(users.organizationId, organizationId), inArray(users.id, userRefs.map(ref => ref.id))));
+      const foundIds = new Set(found.map(row => row.id));
+      userRefs.filter(ref => !foundIds.has(ref.id)).forEach(ref => {
+        errors[ref.fieldName] = `${ref.label} must be a user in this organization`;
+      });
+    }
+
+    const addressRefs = referenced('address');
+    if (addressRefs.length > 0) {
+      const found = await db.select({ id: addressRecords.id })
+        .from(addressRecords)
+        .where(and(eq(addressRecords.organizationId, organizationId), inArray(addressRecords.id, addressRefs.map(ref => ref.id))));
+      const foundIds = new Set(found.map(row => row.id));
+      addressRefs.filter(ref => !foundIds.has(ref.id)).forEach(ref => {
+        errors[ref.fieldName] = `${ref.label} must be an address record in this organization`;
+      });
+    }
+
+    if (Object.keys(errors).length > 0) {
+      throw new CustomFieldValidationError(Object.values(errors).join('; '), errors);
+    }
+    return values;
+  }
+}
+
+export const workItemCustomFieldService = new WorkItemCustomFieldService();
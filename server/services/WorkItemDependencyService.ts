@@ -0,0 +1,222 @@
+import { db } from '../db';
+import { storage } from '../storage';
+import { and, eq, inArray, or } from 'drizzle-orm';
+import { workItemDependencies, workItems } from '../../shared/schema';
+import {
+  UNBLOCKABLE_STATUSES,
+  buildDependencyGraph,
+  createsDependencyCycle,
+  findDueDateConflicts,
+  isResolved,
+  type DependencyEdge,
+  type DependencyGraph,
+  type DependencyWorkItem,
+  type DueDateConflict,
+} from '../../shared/workItemDependencies';
+import { platformEventBus } from './workflow/PlatformEventBus';
+
+export class DependencyValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DependencyValidationError';
+  }
+}
+
+export interface WorkItemDependencySummary {
+  blockedBy: Array<DependencyWorkItem & { assignedTo: number | null }>;
+  blocks: Array<DependencyWorkItem & { assignedTo: number | null }>;
+  openBlockerCount: number;
+  /** Suggested next step for the work item given its blockers, if any */
+  hint: string | null;
+  dueDateConflicts: DueDateConflict[];
+}
+
+const itemColumns = {
+  id: workItems.id,
+  title: workItems.title,
+  status: workItems.status,
+  dueDate: workItems.dueDate,
+  assignedTo: workItems.assignedTo,
+  teamId: workItems.teamId,
+};
+
+/**
+ * Blocked-by links between work items: validation (same organization, no
+ * cycles), the organization's dependency graph with its critical path, and
+ * unblock notifications when the last open blocker of a work item closes.
+ */
+export class WorkItemDependencyService {
+  private async loadEdges(organizationId: number): Promise<DependencyEdge[]> {
+    return db.select({
+      blockedWorkItemId: workItemDependencies.blockedWorkItemId,
+      blockingWorkItemId: workItemDependencies.blockingWorkItemId,
+    })
+      .from(workItemDependencies)
+      .where(eq(workItemDependencies.organizationId, organizationId));
+  }
+
+  private async loadItems(organizationId: number, ids: number[]) {
+    if (ids.length === 0) return [];
+    return db.select(itemColumns)
+      .from(workItems)
+      .where(and(eq(workItems.organizationId, organizationId), inArray(workItems.id, ids)));
+  }
+
+  /** Every dependency in the organization with its critical path and due date conflicts */
+  async getGraph(organizationId: number): Promise<DependencyGraph> {
+    const edges = await this.loadEdges(organizationId);
+    const ids = Array.from(new Set(edges.flatMap(edge => [edge.blockedWorkItemId, edge.blockingWorkItemId])));
+    const items = await this.loadItems(organizationId, ids);
+    return buildDependencyGraph(
+      items.map(({ id, title, status, dueDate }) => ({ id, title, status, dueDate })),
+      edges
+    );
+  }
+
+  async getForWorkItem(organizationId: number, workItemId: number): Promise<WorkItemDependencySummary> {
+    const edges = await db.select({
+      blockedWorkItemId: workItemDependencies.blockedWorkItemId,
+      blockingWorkItemId: workItemDependencies.blockingWorkItemId,
+    })
+      .from(workItemDependencies)
+      .where(and(
+        eq(workItemDependencies.organizationId, organizationId),
+        or(
+          eq(workItemDependencies.blockedWorkItemId, workItemId),
+          eq(workItemDependencies.blockingWorkItemId, workItemId)
+        )
+      ));
+
+    const ids = Array.from(new Set([workItemId, ...edges.flatMap(edge => [edge.blockedWorkItemId, edge.blockingWorkItemId])]));
+    const items = await this.loadItems(organizationId, ids);
+    const byId = new Map(items.map(item => [item.id, item]));
+    const self = byId.get(workItemId);
+
+    const blockedBy = edges
+      .filter(edge => edge.blockedWorkItemId === workItemId)
+      .map(edge => byId.get(edge.blockingWorkItemId))
+      .filter((item): item is NonNullable<typeof item> => !!item);
+    const blocks = edges
+      .filter(edge => edge.blockingWorkItemId === workItemId)
+      .map(edge => byId.get(edge.blockedWorkItemId))
+      .filter((item): item is NonNullable<typeof item> => !!item);
+    const openBlockerCount = blockedBy.filter(item => !isResolved(item.status)).length;
+
+    let hint: string | null = null;
+    if (self && !isResolved(self.status) && blockedBy.length > 0) {
+      if (openBlockerCount === 0 && UNBLOCKABLE_STATUSES.includes(self.status)) {
+        hint = 'All blockers are done, so this item can move to Ready';
+      } else if (openBlockerCount > 0 && self.status === 'In Progress') {
+        hint = `Started while ${openBlockerCount} blocker${openBlockerCount === 1 ? ' is' : 's are'} still open`;
+      } else if (openBlockerCount > 0 && self.status === 'Ready') {
+        hint = `Waiting on ${openBlockerCount} open blocker${openBlockerCount === 1 ? '' : 's'}`;
+      }
+    }
+
+    return {
+      blockedBy,
+      blocks,
+      openBlockerCount,
+      hint,
+      dueDateConflicts: findDueDateConflicts(items, edges),
+    };
+  }
+
+  async addDependency(organizationId: number, blockedWorkItemId: number, blockingWorkItemId: number, userId: number | null): Promise<void> {
+    const items = await this.loadItems(organizationId, [blockedWorkItemId, blockingWorkItemId]);
+    if (items.length !== new Set([blockedWorkItemId, blockingWorkItemId]).size) {
+      throw new DependencyValidationError('Work item not found');
+    }
+
+    const edges = await this.loadEdges(organizationId);
+    if (createsDependencyCycle(edges, blockedWorkItemId, blockingWorkItemId)) {
+      throw new DependencyValidationError(
+        blockedWorkItemId === blockingWorkItemId
+          ? 'A work item cannot block itself'
+          : 'This link would create a cycle: the blocker already depends on this work item'
+      );
+    }
+
+    await db.insert(workItemDependencies)
+      .values({ organizationId, blockedWorkItemId, blockingWorkItemId, createdBy: userId })
+      .onConflictDoNothing();
+  }
+
+  async removeDependency(organizationId: number, blockedWorkItemId: number, blockingWorkItemId: number): Promise<boolean> {
+    const deleted = await db.delete(workItemDependencies)
+      .where(and(
+        eq(workItemDependencies.organizationId, organizationId),
+        eq(workItemDependencies.blockedWorkItemId, blockedWorkItemId),
+        eq(workItemDependencies.blockingWorkItemId, blockingWorkItemId)
+      ))
+      .returning({ id: workItemDependencies.id });
+    return deleted.length > 0;
+  }
+
+  /**
+   * When a work item is completed or archived, tell each dependent whose last
+   * open blocker it was. Statuses are left alone; the activity entry and the
+   * work_item.unblocked event are the hint.
+   */
+  async handleStatusChange(
+    organizationId: number,
+    workItem: { id: number; title: string },
+    oldStatus: string,
+    newStatus: string,
+    userId: number | null
+  ): Promise<void> {
+    if (!isResolved(newStatus) || isResolved(oldStatus)) return;
+
+    try {
+      const dependentIds = (await db.select({ id: workItemDependencies.blockedWorkItemId })
+        .from(workItemDependencies)
+        .where(and(
+          eq(workItemDependencies.organizationId, organizationId),
+          eq(workItemDependencies.blockingWorkItemId, workItem.id)
+        ))).map(row => row.id);
+      if (dependentIds.length === 0) return;
+
+      const dependents = await this.loadItems(organizationId, dependentIds);
+      const remaining = await db.select({
+        blockedWorkItemId: workItemDependencies.blockedWorkItemId,
+        status: workItems.status,
+      })
+        .from(workItemDependencies)
+        .innerJoin(workItems, eq(workItems.id, workItemDependencies.blockingWorkItemId))
+        .where(inArray(workItemDependencies.blockedWorkItemId, dependentIds));
+
+      for (const dependent of dependents) {
+        if (isResolved(dependent.status)) continue;
+        const stillBlocked = remaining.some(row => row.blockedWorkItemId === dependent.id && !isResolved(row.status));
+        if (stillBlocked) continue;
+
+        await storage.logActivity({
+          organizationId,
+          userId: userId ?? undefined,
+          actionType: 'agent_action',
+          entityType: 'work_item',
+          entityId: dependent.id,
+          description: UNBLOCKABLE_STATUSES.includes(dependent.status)
+            ? `Unblocked: "${workItem.title}" is done, ready to move to Ready`
+            : `Unblocked: "${workItem.title}" is done`,
+          metadata: { resolvedBlockerId: workItem.id, resolvedBlockerStatus: newStatus },
+        });
+
+        platformEventBus.emit(organizationId, 'work_item.unblocked', {
+          workItemId: dependent.id,
+          title: dependent.title,
+          status: dependent.status,
+          resolvedBlockerId: workItem.id,
+          resolvedBlockerTitle: workItem.title,
+          assignedTo: dependent.assignedTo,
+          teamId: dependent.teamId,
+        }, { entityId: dependent.id, actorUserId: userId ?? undefined });
+      }
+    } catch (error) {
+      // Unblock hints must never fail the status change that triggered them
+      console.error(`[WorkItemDependencies] Failed to process unblocked dependents of work item ${workItem.id}:`, error);
+    }
+  }
+}
+
+export const workItemDependencyService = new WorkItemDependencyService();
@@ -0,0 +1,455 @@
+import { db } from '../db';
+import { and, asc, desc, eq, gte, isNotNull, isNull, lt, sql, type SQL } from 'drizzle-orm';
+import {
+  keyResultTasks,
+  keyResults,
+  teams,
+  users,
+  workItemTimeEntries,
+  workItemWorkflowExecutionSteps,
+  workItemWorkflowExecutions,
+  workItems,
+  type WorkItemTimeEntry,
+} from '../../shared/schema';
+import {
+  MAX_ENTRY_MINUTES,
+  TIME_REPORT_GROUPS,
+  minutesBetween,
+  type TimeEntrySource,
+  type TimeReportGroup,
+} from '../../shared/timeTracking';
+
+export class TimeEntryError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'TimeEntryError';
+  }
+}
+
+export interface TimeEntryInput {
+  startedAt: string;
+  /** Either an end time or a duration */
+  endedAt?: string | null;
+  durationMinutes?: number | null;
+  note?: string | null;
+  source?: TimeEntrySource;
+  /** Offline id from the field app; entries with a known id are returned, not duplicated */
+  clientId?: string | null;
+}
+
+export interface TimeEntryWithUser extends WorkItemTimeEntry {
+  userName: string | null;
+}
+
+export interface StepDuration {
+  stepIndex: number;
+  stepTitle: string;
+  status: string;
+  completedAt: Date | null;
+  /** From the previous step's completion (or the workflow start) to this step's completion */
+  minutes: number | null;
+}
+
+export interface TimeReportRow {
+  key: string;
+  label: string;
+  minutes: number;
+  entryCount: number;
+  workItemCount: number;
+}
+
+export interface StepReportRow {
+  workItemType: string;
+  stepTitle: string;
+  stepIndex: number;
+  completions: number;
+  averageMinutes: number;
+  medianMinutes: number;
+}
+
+export interface TimeReportFilters {
+  /** Inclusive YYYY-MM-DD */
+  from?: string;
+  /** Inclusive YYYY-MM-DD */
+  to?: string;
+  userId?: number;
+  teamId?: number;
+}
+
+/** Quote a CSV cell when it contains a separator, quote or line break */
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(headers: string[], rows: unknown[][]): string {
+  return [headers, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+}
+
+function nextDay(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().split('T')[0];
+}
+
+/**
+ * Time logged against work items. Timers are entries without an end time;
+ * each person has at most one running timer, and starting another stops it.
+ * Manual and field app entries arrive complete. Workflow step durations are
+ * not logged separately but derived from step completion times.
+ */
+export class WorkItemTimeService {
+  private async getWorkItemInOrg(organizationId: number, workItemId: number) {
+    const [workItem] = await db.select({ id: workItems.id, title: workItems.title })
+      .from(workItems)
+      .where(and(eq(workItems.id, workItemId), eq(workItems.organizationId, organizationId)));
+    if (!workItem) throw new TimeEntryError('Work item not found', 404);
+    return workItem;
+  }
+
+  async listEntries(organizationId: number, workItemId: number): Promise<TimeEntryWithUser[]> {
+    const rows = await db.select({ entry: workItemTimeEntries, userName: users.fullName })
+      .from(workItemTimeEntries)
+      .leftJoin(users, eq(workItemTimeEntries.userId, users.id))
+      .where(and(
+        eq(workItemTimeEntries.organizationId, organizationId),
+        eq(workItemTimeEntries.workItemId, workItemId)
+      ))
+      .orderBy(desc(workItemTimeEntries.startedAt));
+    return rows.map(({ entry, userName }) => ({ ...entry, userName: userName ?? null }));
+  }
+
+  /** The user's running timer with its work item title, or null */
+  async getRunningTimer(organizationId: number, userId: number) {
+    const [running] = await db.select({ entry: workItemTimeEntries, workItemTitle: workItems.title })
+      .from(workItemTimeEntries)
+      .innerJoin(workItems, eq(workItemTimeEntries.workItemId, workItems.id))
+      .where(and(
+        eq(workItemTimeEntries.organizationId, organizationId),
+        eq(workItemTimeEntries.userId, userId),
+        isNull(workItemTimeEntries.endedAt)
+      ));
+    return running ? { ...running.entry, workItemTitle: running.workItemTitle } : null;
+  }
+
+  private async closeEntry(entry: WorkItemTimeEntry, endedAt: Date): Promise<WorkItemTimeEntry> {
+    const durationMinutes = Math.min(minutesBetween(entry.startedAt, endedAt), MAX_ENTRY_MINUTES);
+    const [closed] = await db.update(workItemTimeEntries)
+      .set({ endedAt, durationMinutes, updatedAt: new Date() })
+      .where(eq(workItemTimeEntries.id, entry.id))
+      .returning();
+    return closed;
+  }
+
+  /** Start a timer on a work item, stopping the user's other timer if one is running */
+  async startTimer(organizationId: number, userId: number, workItemId: number): Promise<WorkItemTimeEntry> {
+    await this.getWorkItemInOrg(organizationId, workItemId);
+    const running = await this.getRunningTimer(organizationId, userId);
+    if (running?.workItemId === workItemId) return running;
+
+    const now = new Date();
+    if (running) await this.closeEntry(running, now);
+
+    const [entry] = await db.insert(workItemTimeEntries)
+      .values({ organizationId, workItemId, userId, startedAt: now, source: 'timer' })
+      .returning();
+    return entry;
+  }
+
+  async stopTimer(organizationId: number, userId: number, workItemId: number, note?: string | null): Promise<WorkItemTimeEntry> {
+    const running = await this.getRunningTimer(organizationId, userId);
+    if (!running || running.workItemId !== workItemId) {
+      throw new TimeEntryError('No timer is running on this work item', 409);
+    }
+    const closed = await this.closeEntry(running, new Date());
+    if (note === undefined) return closed;
+    const [withNote] = await db.update(workItemTimeEntries)
+      .set({ note: note || null })
+      .where(eq(workItemTimeEntries.id, closed.id))
+      .returning();
+    return withNote;
+  }
+
+  private resolveTimes(input: Pick<TimeEntryInput, 'startedAt' | 'endedAt' | 'durationMinutes'>) {
+    const startedAt = new Date(input.startedAt);
+    if (isNaN(startedAt.getTime())) throw new TimeEntryError('Invalid start time');
+
+    let durationMinutes = input.durationMinutes ?? null;
+    let endedAt: Date;
+    if (input.endedAt) {
+      endedAt = new Date(input.endedAt);
+      if (isNaN(endedAt.getTime())) throw new TimeEntryError('Invalid end time');
+      if (endedAt <= startedAt) throw new TimeEntryError('End time must be after the start time');
+      durationMinutes = minutesBetween(startedAt, endedAt);
+    } else {
+      if (!durationMinutes || durationMinutes < 1) throw new TimeEntryError('Enter an end time or a duration');
+      endedAt = new Date(startedAt.getTime() + durationMinutes * 60000);
+    }
+
+    if (durationMinutes > MAX_ENTRY_MINUTES) {
+      throw new TimeEntryError(`A single entry cannot be longer than ${MAX_ENTRY_MINUTES / 60} hours`);
+    }
+    if (startedAt.getTime() > Date.now() + 5 * 60000) {
+      throw new TimeEntryError('Time cannot be logged in the future');
+    }
+    return { startedAt, endedAt, durationMinutes };
+  }
+
+  /** Log completed time by hand or from the field app */
+  async createEntry(organizationId: number, userId: number, workItemId: number, input: TimeEntryInput): Promise<WorkItemTimeEntry> {
+    await this.getWorkItemInOrg(organizationId, workItemId);
+    const times = this.resolveTimes(input);
+
+    const [entry] = await db.insert(workItemTimeEntries)
+      .values({
+        organizationId,
+        workItemId,
+        userId,
+        ...times,
+        note: input.note || null,
+        source: input.source ?? 'manual',
+        clientId: input.clientId || null,
+      })
+      .onConflictDoNothing()
+      .returning();
+    if (entry || !input.clientId) return entry;
+
+    // Only a repeated field app id conflicts: the entry was synced before
+    const [existing] = await db.select()
+      .from(workItemTimeEntries)
+      .where(and(
+        eq(workItemTimeEntries.organizationId, organizationId),
+        eq(workItemTimeEntries.clientId, input.clientId)
+      ));
+    return existing;
+  }
+
+  private async getOwnEntry(organizationId: number, userId: number, entryId: number, isAdmin: boolean): Promise<WorkItemTimeEntry> {
+    const [entry] = await db.select()
+      .from(workItemTimeEntries)
+      .where(and(eq(workItemTimeEntries.id, entryId), eq(workItemTimeEntries.organizationId, organizationId)));
+    if (!entry) throw new TimeEntryError('Time entry not found', 404);
+    if (entry.userId !== userId && !isAdmin) throw new TimeEntryError('You can only change your own time entries', 403);
+    return entry;
+  }
+
+  async updateEntry(
+    organizationId: number,
+    userId: number,
+    entryId: number,
+    input: Partial<TimeEntryInput>,
+    isAdmin: boolean = false
+  ): Promise<WorkItemTimeEntry> {
+    const entry = await this.getOwnEntry(organizationId, userId, entryId, isAdmin);
+    const timesChanged = input.startedAt !== undefined || input.endedAt !== undefined || input.durationMinutes !== undefined;
+    if (timesChanged && !entry.endedAt) throw new TimeEntryError('Stop the timer before changing its times');
+
+    const times = timesChanged
+      ? this.resolveTimes({
+          startedAt: input.startedAt ?? entry.startedAt.toISOString(),
+          endedAt: input.durationMinutes !== undefined && input.endedAt === undefined
+            ? null
+            : input.endedAt ?? entry.endedAt?.toISOString(),
+          durationMinutes: input.durationMinutes ?? entry.durationMinutes,
+        })
+      : {};
+
+    const [updated] = await db.update(workItemTimeEntries)
+      .set({ ...times, note: input.note !== undefined ? input.note || null : undefined, updatedAt: new Date() })
+      .where(eq(workItemTimeEntries.id, entryId))
+      .returning();
+    return updated;
+  }
+
+  async deleteEntry(organizationId: number, userId: number, entryId: number, isAdmin: boolean = false): Promise<void> {
+    await this.getOwnEntry(organizationId, userId, entryId, isAdmin);
+    await db.delete(workItemTimeEntries).where(eq(workItemTimeEntries.id, entryId));
+  }
+
+  /** Durations of the steps of the work item's latest workflow run */
+  async stepDurations(organizationId: number, workItemId: number): Promise<StepDuration[]> {
+    const [execution] = await db.select()
+      .from(workItemWorkflowExecutions)
+      .where(and(
+        eq(workItemWorkflowExecutions.organizationId, organizationId),
+        eq(workItemWorkflowExecutions.workItemId, workItemId)
+      ))
+      .orderBy(desc(workItemWorkflowExecutions.createdAt))
+      .limit(1);
+    if (!execution) return [];
+
+    const steps = await db.select()
+      .from(workItemWorkflowExecutionSteps)
+      .where(eq(workItemWorkflowExecutionSteps.executionId, execution.id))
+      .orderBy(asc(workItemWorkflowExecutionSteps.stepIndex));
+
+    const minutesByStep = this.completionIntervals(
+      execution.startedAt ?? execution.createdAt,
+      steps.map(step => ({ id: step.id, completedAt: step.completedAt }))
+    );
+    return steps.map(step => ({
+      stepIndex: step.stepIndex,
+      stepTitle: step.stepTitle,
+      status: step.status,
+      completedAt: step.completedAt,
+      minutes: minutesByStep.get(step.id) ?? null,
+    }));
+  }
+
+  /**
+   * Steps are completed in any order in the field, so each completed step is
+   * timed from the completion before it, the first from the workflow start.
+   */
+  private completionIntervals(start: Date | null, steps: Array<{ id: number; completedAt: Date | null }>): Map<number, number> {
+    const minutes = new Map<number, number>();
+    let previous = start;
+    const completed = steps
+      .filter((step): step is { id: number; completedAt: Date } => !!step.completedAt)
+      .sort((a, b) => a.completedAt.getTime() - b.completedAt.getTime());
+    for (const step of completed) {
+      if (previous) minutes.set(step.id, minutesBetween(previous, step.completedAt));
+      previous = step.completedAt;
+    }
+    return minutes;
+  }
+
+  private entryConditions(organizationId: number, filters: TimeReportFilters): SQL[] {
+    const conditions: SQL[] = [
+      eq(workItemTimeEntries.organizationId, organizationId),
+      isNotNull(workItemTimeEntries.endedAt),
+    ];
+    if (filters.from) conditions.push(gte(workItemTimeEntries.startedAt, new Date(`${filters.from}T00:00:00Z`)));
+    if (filters.to) conditions.push(lt(workItemTimeEntries.startedAt, new Date(`${nextDay(filters.to)}T00:00:00Z`)));
+    if (filters.userId) conditions.push(eq(workItemTimeEntries.userId, filters.userId));
+    if (filters.teamId) conditions.push(eq(workItems.teamId, filters.teamId));
+    return conditions;
+  }
+
+  /** Logged time grouped by person, team, work item type or key result; running timers are left out */
+  async report(organizationId: number, groupBy: TimeReportGroup, filters: TimeReportFilters = {}): Promise<TimeReportRow[]> {
+    const workItemType = sql<string | null>`COALESCE(${workItems.workItemType}, ${workItems.workflowTemplateId})`;
+    const groups: Record<TimeReportGroup, { key: SQL<unknown>; label: SQL<unknown> }> = {
+      user: { key: sql`${workItemTimeEntries.userId}`, label: sql`${users.fullName}` },
+      team: { key: sql`${workItems.teamId}`, label: sql`${teams.name}` },
+      workItemType: { key: workItemType, label: workItemType },
+      keyResult: { key: sql`${keyResults.id}`, label: sql`${keyResults.title}` },
+    };
+    const group = groups[groupBy];
+
+    const rows = await db.select({
+      key: sql<string | null>`${group.key}::text`,
+      label: sql<string | null>`${group.label}::text`,
+      minutes: sql<number>`COALESCE(SUM(${workItemTimeEntries.durationMinutes}), 0)::int`,
+      entryCount: sql<number>`COUNT(*)::int`,
+      workItemCount: sql<number>`COUNT(DISTINCT ${workItemTimeEntries.workItemId})::int`,
+    })
+      .from(workItemTimeEntries)
+      .innerJoin(workItems, eq(workItemTimeEntries.workItemId, workItems.id))
+      .leftJoin(users, eq(workItemTimeEntries.userId, users.id))
+      .leftJoin(teams, eq(workItems.teamId, teams.id))
+      .leftJoin(keyResultTasks, eq(workItems.keyResultTaskId, keyResultTasks.id))
+      .leftJoin(keyResults, eq(keyResultTasks.keyResultId, keyResults.id))
+      .where(and(...this.entryConditions(organizationId, filters)))
+      .groupBy(group.key, group.label)
+      .orderBy(desc(sql`SUM(${workItemTimeEntries.durationMinutes})`));
+
+    const none = `No ${TIME_REPORT_GROUPS[groupBy].toLowerCase()}`;
+    return rows.map(row => ({
+      key: row.key ?? 'none',
+      label: row.label ?? none,
+      minutes: row.minutes,
+      entryCount: row.entryCount,
+      workItemCount: row.workItemCount,
+    }));
+  }
+
+  /** Individual entries behind the report, for the detailed CSV */
+  async reportEntries(organizationId: number, filters: TimeReportFilters = {}) {
+    return db.select({
+      startedAt: workItemTimeEntries.startedAt,
+      endedAt: workItemTimeEntries.endedAt,
+      minutes: workItemTimeEntries.durationMinutes,
+      source: workItemTimeEntries.source,
+      note: workItemTimeEntries.note,
+      userName: users.fullName,
+      workItemId: workItems.id,
+      workItemTitle: workItems.title,
+      workItemType: sql<string | null>`COALESCE(${workItems.workItemType}, ${workItems.workflowTemplateId})`,
+      teamName: teams.name,
+      keyResultTitle: keyResults.title,
+    })
+      .from(workItemTimeEntries)
+      .innerJoin(workItems, eq(workItemTimeEntries.workItemId, workItems.id))
+      .leftJoin(users, eq(workItemTimeEntries.userId, users.id))
+      .leftJoin(teams, eq(workItems.teamId, teams.id))
+      .leftJoin(keyResultTasks, eq(workItems.keyResultTaskId, keyResultTasks.id))
+      .leftJoin(keyResults, eq(keyResultTasks.keyResultId, keyResults.id))
+      .where(and(...this.entryConditions(organizationId, filters)))
+      .orderBy(asc(workItemTimeEntries.startedAt));
+  }
+
+  /** Average and median step durations per work item type, for steps completed in the period */
+  async stepReport(organizationId: number, filters: TimeReportFilters = {}): Promise<StepReportRow[]> {
+    const conditions: SQL[] = [eq(workItemWorkflowExecutionSteps.organizationId, organizationId)];
+    if (filters.teamId) conditions.push(eq(workItems.teamId, filters.teamId));
+    if (filters.userId) conditions.push(eq(workItemWorkflowExecutionSteps.completedBy, filters.userId));
+
+    const steps = await db.select({
+      id: workItemWorkflowExecutionSteps.id,
+      executionId: workItemWorkflowExecutionSteps.executionId,
+      stepIndex: workItemWorkflowExecutionSteps.stepIndex,
+      stepTitle: workItemWorkflowExecutionSteps.stepTitle,
+      completedAt: workItemWorkflowExecutionSteps.completedAt,
+      executionStartedAt: workItemWorkflowExecutions.startedAt,
+      executionCreatedAt: workItemWorkflowExecutions.createdAt,
+      workItemType: sql<string | null>`COALESCE(${workItems.workItemType}, ${workItems.workflowTemplateId})`,
+    })
+      .from(workItemWorkflowExecutionSteps)
+      .innerJoin(workItemWorkflowExecutions, eq(workItemWorkflowExecutionSteps.executionId, workItemWorkflowExecutions.id))
+      .innerJoin(workItems, eq(workItemWorkflowExecutionSteps.workItemId, workItems.id))
+      .where(and(...conditions, isNotNull(workItemWorkflowExecutionSteps.completedAt)));
+
+    // Intervals need every completed step of a run, so the period is applied afterwards
+    const byExecution = new Map<number, typeof steps>();
+    for (const step of steps) {
+      byExecution.set(step.executionId, [...(byExecution.get(step.executionId) ?? []), step]);
+    }
+
+    const from = filters.from ? new Date(`${filters.from}T00:00:00Z`) : null;
+    const to = filters.to ? new Date(`${nextDay(filters.to)}T00:00:00Z`) : null;
+    const samples = new Map<string, { workItemType: string; stepTitle: string; stepIndex: number; minutes: number[] }>();
+
+    for (const runSteps of Array.from(byExecution.values())) {
+      const first = runSteps[0];
+      const intervals = this.completionIntervals(first.executionStartedAt ?? first.executionCreatedAt, runSteps);
+      for (const step of runSteps) {
+        const minutes = intervals.get(step.id);
+        if (minutes === undefined || !step.completedAt) continue;
+        if ((from && step.completedAt < from) || (to && step.completedAt >= to)) continue;
+        const workItemType = step.workItemType ?? 'No type';
+        const key = `${workItemType}\u0000${step.stepTitle}`;
+        const sample = samples.get(key) ?? { workItemType, stepTitle: step.stepTitle, stepIndex: step.stepIndex, minutes: [] };
+        sample.minutes.push(minutes);
+        samples.set(key, sample);
+      }
+    }
+
+    return Array.from(samples.values())
+      .map(sample => {
+        const sorted = [...sample.minutes].sort((a, b) => a - b);
+        const middle = Math.floor(sorted.length / 2);
+        return {
+          workItemType: sample.workItemType,
+          stepTitle: sample.stepTitle,
+          stepIndex: sample.stepIndex,
+          completions: sorted.length,
+          averageMinutes: Math.round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length),
+          medianMinutes: sorted.length % 2 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2),
+        };
+      })
+      .sort((a, b) => a.workItemType.localeCompare(b.workItemType) || a.stepIndex - b.stepIndex);
+  }
+}
+
+export const workItemTimeService = new WorkItemTimeService();
@@ -0,0 +1,254 @@
+import { db } from '../db';
+import { and, asc, desc, eq, inArray, or } from 'drizzle-orm';
+import { menuItems, menuSections, teamMembers, teams, workItemViews, type WorkItemView } from '../../shared/schema';
+import {
+  validateWorkItemQuery,
+  workItemQueryGroupSchema,
+  type WorkItemQueryGroup,
+  type WorkItemViewVisibility,
+} from '../../shared/workItemQuery';
+
+export class WorkItemViewError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'WorkItemViewError';
+  }
+}
+
+export interface WorkItemViewInput {
+  name: string;
+  description?: string | null;
+  visibility: WorkItemViewVisibility;
+  teamId?: number | null;
+  query: WorkItemQueryGroup;
+  sortBy?: string;
+  sortDirection?: 'asc' | 'desc';
+  columns?: string[] | null;
+}
+
+export interface WorkItemViewSummary extends WorkItemView {
+  teamName: string | null;
+  isOwner: boolean;
+  isPinned: boolean;
+}
+
+const WORK_ITEMS_PATH = '/strategy/work-items';
+
+/** Path a pinned view opens; the work items page applies the view from the query string */
+export function workItemViewPath(viewId: number) {
+  return `${WORK_ITEMS_PATH}?view=${viewId}`;
+}
+
+/**
+ * Saved work item list views. A view is visible to its owner, to members of its
+ * team when shared with a team, or to everyone in the organization; only the
+ * owner can change, delete or pin it. Pinned views are menu_items rows whose
+ * customPermissions carry the view's audience so navigation can filter them.
+ */
+export class WorkItemViewService {
+  private async teamIdsFor(userId: number): Promise<number[]> {
+    const rows = await db.select({ teamId: teamMembers.teamId })
+      .from(teamMembers)
+      .where(eq(teamMembers.userId, userId));
+    return rows.map(row => row.teamId);
+  }
+
+  /** Menu item customPermissions for pinned views; read by GET /api/menu/navigation */
+  async menuAudience(userId: number) {
+    return { userId, teamIds: await this.teamIdsFor(userId) };
+  }
+
+  async listViews(organizationId: number, userId: number): Promise<WorkItemViewSummary[]> {
+    const teamIds = await this.teamIdsFor(userId);
+    const visible = [
+      eq(workItemViews.ownerId, userId),
+      eq(workItemViews.visibility, 'organization'),
+    ];
+    if (teamIds.length > 0) {
+      visible.push(and(eq(workItemViews.visibility, 'team'), inArray(workItemViews.teamId, teamIds))!);
+    }
+
+    const rows = await db.select({ view: workItemViews, teamName: teams.name })
+      .from(workItemViews)
+      .leftJoin(teams, eq(workItemViews.teamId, teams.id))
+      .where(and(eq(workItemViews.organizationId, organizationId), or(...visible)))
+      .orderBy(asc(workItemViews.name));
+
+    return rows.map(({ view, teamName }) => ({
+      ...view,
+      teamName: teamName ?? null,
+      isOwner: view.ownerId === userId,
+      isPinned: view.menuItemId !== null,
+    }));
+  }
+
+  /** A view the user can see, or null */
+  async getView(organizationId: number, userId: number, viewId: number): Promise<WorkItemViewSummary | null> {
+    const views = await this.listViews(organizationId, userId);
+    return views.find(view => view.id === viewId) ?? null;
+  }
+
+  private async getOwnedView(organizationId: number, userId: number, viewId: number): Promise<WorkItemView> {
+    const [view] = await db.select()
+      .from(workItemViews)
+      .where(and(eq(workItemViews.id, viewId), eq(workItemViews.organizationId, organizationId)));
+    if (!view) throw new WorkItemViewError('View not found', 404);
+    if (view.ownerId !== userId) throw new WorkItemViewError('Only the owner can change this view', 403);
+    return view;
+  }
+
+  private async validateInput(organizationId: number, userId: number, input: Partial<WorkItemViewInput>) {
+    if (input.name !== undefined && !input.name.trim()) {
+      throw new WorkItemViewError('View name is required');
+    }
+    if (input.query !== undefined) {
+      const parsed = workItemQueryGroupSchema.safeParse(input.query);
+      if (!parsed.success) throw new WorkItemViewError('Invalid query');
+      const errors = validateWorkItemQuery(parsed.data);
+      if (errors.length > 0) throw new WorkItemViewError(errors.join('; '));
+    }
+    if (input.visibility === 'team') {
+      if (!input.teamId) throw new WorkItemViewError('Choose the team to share this view with');
+      const [team] = await db.select({ id: teams.id })
+        .from(teams)
+        .where(and(eq(teams.id, input.teamId), eq(teams.organizationId, organizationId)));
+      if (!team) throw new WorkItemViewError('Team not found');
+      const memberOf = await this.teamIdsFor(userId);
+      if (!memberOf.includes(input.teamId)) throw new WorkItemViewError('You can only share views with teams you belong to');
+    }
+  }
+
+  async createView(organizationId: number, userId: number, input: WorkItemViewInput): Promise<WorkItemView> {
+    await this.validateInput(organizationId, userId, input);
+    const [view] = await db.insert(workItemViews)
+      .values({
+        organizationId,
+        ownerId: userId,
+        name: input.name.trim(),
+        description: input.description ?? null,
+        visibility: input.visibility,
+        teamId: input.visibility === 'team' ? input.teamId ?? null : null,
+        query: input.query,
+        sortBy: input.sortBy ?? 'dueDate',
+        sortDirection: input.sortDirection ?? 'asc',
+        columns: input.columns ?? null,
+      })
+      .returning();
+    return view;
+  }
+
+  async updateView(organizationId: number, userId: number, viewId: number, input: Partial<WorkItemViewInput>): Promise<WorkItemView> {
+    const current = await this.getOwnedView(organizationId, userId, viewId);
+    const visibility = input.visibility ?? current.visibility as WorkItemViewVisibility;
+    const teamId = input.teamId !== undefined ? input.teamId : current.teamId;
+    await this.validateInput(organizationId, userId, { ...input, visibility, teamId });
+
+    const [view] = await db.update(workItemViews)
+      .set({
+        name: input.name?.trim(),
+        description: input.description,
+        visibility,
+        teamId: visibility === 'team' ? teamId : null,
+        query: input.query,
+        sortBy: input.sortBy,
+        sortDirection: input.sortDirection,
+        columns: input.columns,
+        updatedAt: new Date(),
+      })
+      .where(eq(workItemViews.id, viewId))
+      .returning();
+
+    if (view.menuItemId) {
+      await db.update(menuItems)
+        .set({ title: view.name, customPermissions: this.pinPermissions(view), updatedAt: new Date() })
+        .where(eq(menuItems.id, view.menuItemId));
+    }
+    return view;
+  }
+
+  async deleteView(organizationId: number, userId: number, viewId: number): Promise<void> {
+    const view = await this.getOwnedView(organizationId, userId, viewId);
+    await db.delete(workItemViews).where(eq(workItemViews.id, viewId));
+    if (view.menuItemId) {
+      await db.delete(menuItems).where(eq(menuItems.id, view.menuItemId));
+    }
+  }
+
+  private pinPermissions(view: WorkItemView) {
+    return {
+      workItemViewId: view.id,
+      userId: view.visibility === 'private' ? view.ownerId : undefined,
+      teamId: view.visibility === 'team' ? view.teamId : undefined,
+    };
+  }
+
+  /**
+   * Add the view to the navigation menu, in the section that holds the work
+   * items page (or the first section when the menu has been rearranged).
+   */
+  async pinView(organizationId: number, userId: number, viewId: number): Promise<WorkItemView> {
+    const view = await this.getOwnedView(organizationId, userId, viewId);
+    if (view.menuItemId) return view;
+
+    const [workItemsEntry] = await db.select({ sectionId: menuItems.sectionId })
+      .from(menuItems)
+      .where(and(eq(menuItems.organizationId, organizationId), eq(menuItems.path, WORK_ITEMS_PATH)));
+    let sectionId = workItemsEntry?.sectionId ?? null;
+    if (!sectionId) {
+      const [firstSection] = await db.select({ id: menuSections.id })
+        .from(menuSections)
+        .where(eq(menuSections.organizationId, organizationId))
+        .orderBy(asc(menuSections.orderIndex));
+      sectionId = firstSection?.id ?? null;
+    }
+    if (!sectionId) throw new WorkItemViewError('The menu has no sections to pin this view to');
+
+    const [last] = await db.select({ orderIndex: menuItems.orderIndex })
+      .from(menuItems)
+      .where(eq(menuItems.sectionId, sectionId))
+      .orderBy(desc(menuItems.orderIndex))
+      .limit(1);
+
+    const [menuItem] = await db.insert(menuItems)
+      .values({
+        organizationId,
+        sectionId,
+        title: view.name,
+        path: workItemViewPath(view.id),
+        icon: 'Filter',
+        description: view.description,
+        orderIndex: (last?.orderIndex ?? 0) + 1,
+        customPermissions: this.pinPermissions(view),
+      })
+      .returning();
+
+    const [pinned] = await db.update(workItemViews)
+      .set({ menuItemId: menuItem.id, updatedAt: new Date() })
+      .where(eq(workItemViews.id, viewId))
+      .returning();
+    return pinned;
+  }
+
+  async unpinView(organizationId: number, userId: number, viewId: number): Promise<WorkItemView> {
+    const view = await this.getOwnedView(organizationId, userId, viewId);
+    if (!view.menuItemId) return view;
+
+    await db.delete(menuItems).where(eq(menuItems.id, view.menuItemId));
+    const [unpinned] = await db.update(workItemViews)
+      .set({ menuItemId: null, updatedAt: new Date() })
+      .where(eq(workItemViews.id, viewId))
+      .returning();
+    return unpinned;
+  }
+
+  /** Whether a pinned view's menu item should be shown to the user */
+  static canSeePinnedItem(customPermissions: unknown, audience: { userId: number; teamIds: number[] }): boolean {
+    const permissions = (customPermissions ?? {}) as { workItemViewId?: number; userId?: number; teamId?: number };
+    if (!permissions.workItemViewId) return true;
+    if (permissions.userId && permissions.userId !== audience.userId) return false;
+    if (permissions.teamId && !audience.teamIds.includes(permissions.teamId)) return false;
+    return true;
+  }
+}
+
+export const workItemViewService = new WorkItemViewService();
@@ -1,6 +1,9 @@
 import { db } from '../db';
 import { workItems, workItemWorkflowExecutions, workItemWorkflowExecutionSteps, workflowTemplates, workItemSources, activityLogs } from '@shared/schema';
 import { eq, and } from 'drizzle-orm';
+import { workflowVersions } from './workflow/WorkflowVersionService';
+import { platformEventBus } from './workflow/PlatformEventBus';
+import { workItemStatusChangedPayload } from './workflow/platformEvents';
 
 export interface CreateWorkItemWithWorkflowData {
   organizationId: number;
@@ -83,20 +86,23 @@ export class WorkItemWorkflowService {
       return existingExecution[0];
     }
 
+    // The execution is pinned to the template version current at start
+    const template = await this.getWorkflowTemplate(workItem[0].workflowTemplateId, organizationId);
+
     const execution = await db
       .insert(workItemWorkflowExecutions)
       .values({
         organizationId,
         workItemId,
         workflowTemplateId: workItem[0].workflowTemplateId,
+        workflowTemplateVersion: template?.version ?? null,
         status: 'in_progress',
         executionData: {},
         startedAt: new Date(),
       })
       .returning();
 
-    // Get workflow template and create step records
-    const template = await this.getWorkflowTemplate(workItem[0].workflowTemplateId, organizationId);
+    // Create step records from the template
     if (template && template.steps && Array.isArray(template.steps)) {
       const stepRecords = template.steps.map((step: any, index: number) => ({
         organizationId,
@@ -165,20 +171,32 @@ export class WorkItemWorkflowService {
 
     if (execution.length > 0) {
       // Update work item status
-      await db
+      const [previous] = await db
+        .select({ status: workItems.status })
+        .from(workItems)
+        .where(eq(workItems.id, execution[0].workItemId))
+        .limit(1);
+      const [completedItem] = await db
         .update(workItems)
         .set({
           status: 'Completed',
           updatedAt: new Date(),
         })
-        .where(eq(workItems.id, execution[0].workItemId));
+        .where(eq(workItems.id, execution[0].workItemId))
+        .returning();
+
+      if (previous && completedItem && previous.status !== completedItem.status) {
+        platformEventBus.emit(organizationId, 'work_item.status_changed', workItemStatusChangedPayload(completedItem, previous.status), {
+          entityId: completedItem.id,
+        });
+      }
 
       // Get workflow template to check for completion callbacks
       if (!execution[0].workflowTemplateId) {
         return execution[0];
       }
       
-      const template = await this.getWorkflowTemplate(execution[0].workflowTemplateId, organizationId);
+      const template = await workflowVersions.getWorkflowTemplateForExecution(execution[0], organizationId);
       
       // Process OCR for photo steps with photoAnalysisConfig enabled
       await this.processWorkflowOCR(executionId, organizationId, execution[0].workItemId, template);
@@ -1,11 +1,22 @@
 import { workItemGenerator } from './workItemGenerator';
 import { storage } from '../storage';
 import { db } from '../db';
-import { organizations, strategySettings, users } from '../../shared/schema';
-import { eq, and } from 'drizzle-orm';
+import { organizations, strategySettings, users, type StrategySettings } from '../../shared/schema';
+import { eq, and, lte, or, isNull } from 'drizzle-orm';
+import {
+  SCHEDULER_POLL_INTERVAL_MS,
+  getNextOccurrence,
+  planDueOccurrences,
+  recordSkippedOccurrences,
+  runOccurrence,
+  type CatchUpPolicy,
+} from './distributedScheduler';
 
-// Track scheduled jobs per organization
-const scheduledJobs = new Map<number, NodeJS.Timeout>();
+const DEFAULT_CRON_SCHEDULE = '0 2 * * *';
+
+// Single poller per instance; schedule state is kept in strategy_settings so instances share it
+let pollingInterval: NodeJS.Timeout | null = null;
+let polling = false;
 
 // Run work item generation for a specific organization
 async function runWorkItemGenerationForOrg(organizationId: number) {
@@ -113,76 +124,100 @@ async function runWorkItemGenerationForOrg(organizationId: number) {
     } catch (logError) {
       console.error(`[CRON] Failed to log error for org ${organizationId}:`, logError);
     }
+    
+    // Let the caller record the failure in the schedule history
+    throw error;
   }
 }
 
-// Parse cron schedule string to milliseconds for setInterval
-function parseCronToMs(cronSchedule: string | null): number {
-  // Default: Every day (24 hours)
-  const defaultMs = 24 * 60 * 60 * 1000;
+// Run due occurrences of one organization's generation schedule
+async function processOrgSchedule(settings: StrategySettings, now: Date) {
+  const organizationId = settings.organizationId;
+  const cronSchedule = settings.cronSchedule || DEFAULT_CRON_SCHEDULE;
+  
+  // New or edited schedule: work out its first occurrence
+  if (!settings.cronNextRunAt) {
+    const nextRunAt = getNextOccurrence(cronSchedule, 'UTC', now);
+    await db.update(strategySettings)
+      .set({ cronNextRunAt: nextRunAt })
+      .where(and(eq(strategySettings.id, settings.id), isNull(strategySettings.cronNextRunAt)));
+    console.log(`[CRON] Org ${organizationId} (${cronSchedule}) next generation at ${nextRunAt.toISOString()}`);
+    return;
+  }
   
-  if (!cronSchedule) return defaultMs;
+  const policy = settings.cronCatchUpPolicy as CatchUpPolicy;
+  const plan = planDueOccurrences(cronSchedule, 'UTC', settings.cronNextRunAt, now, policy);
   
-  // Simple parsing for common patterns
-  const parts = cronSchedule.split(' ');
-  if (parts.length !== 5) return defaultMs;
+  // Only the instance that advances cronNextRunAt runs the occurrences
+  const [taken] = await db.update(strategySettings)
+    .set({ cronNextRunAt: plan.nextRunAt })
+    .where(and(eq(strategySettings.id, settings.id), eq(strategySettings.cronNextRunAt, settings.cronNextRunAt)))
+    .returning({ id: strategySettings.id });
   
-  const [minute, hour, dayOfMonth, month, dayOfWeek] = parts;
+  if (!taken) return;
   
-  // Daily at specific time
-  if (dayOfMonth === '*' && month === '*' && dayOfWeek === '*') {
-    return 24 * 60 * 60 * 1000; // 24 hours
+  const claim = {
+    organizationId,
+    jobType: 'work_item_generation' as const,
+    jobKey: `work_item_generation:${organizationId}`,
+  };
+  
+  if (plan.skipped) {
+    console.log(`[CRON] Org ${organizationId}: skipping ${plan.skipped.count} missed generation run(s) (catch-up policy: ${policy})`);
+    await recordSkippedOccurrences(claim, plan.skipped, policy);
   }
   
-  // Hourly
-  if (minute !== '*' && hour === '*') {
-    return 60 * 60 * 1000; // 1 hour
+  for (const occurrence of plan.runs) {
+    await runOccurrence({ ...claim, ...occurrence }, async () => {
+      const report = await runWorkItemGenerationForOrg(organizationId);
+      return {
+        details: report
+          ? { created: report.created, skipped: report.skipped, errorCount: report.errors.length }
+          : { skippedReason: 'auto_generation_disabled' },
+      };
+    });
   }
+}
+
+// Look for due generation schedules across all active organizations
+async function pollCronJobs() {
+  // A slow poll must not overlap the next one on this instance
+  if (polling) return;
+  polling = true;
   
-  // Every X minutes
-  if (minute.includes('*/')) {
-    const interval = parseInt(minute.split('/')[1]);
-    if (!isNaN(interval)) {
-      return interval * 60 * 1000;
+  try {
+    const now = new Date();
+    const due = await db.select({ settings: strategySettings })
+      .from(strategySettings)
+      .innerJoin(organizations, eq(strategySettings.organizationId, organizations.id))
+      .where(
+        and(
+          eq(strategySettings.cronEnabled, true),
+          eq(organizations.isActive, true),
+          or(isNull(strategySettings.cronNextRunAt), lte(strategySettings.cronNextRunAt, now))
+        )
+      );
+    
+    for (const { settings } of due) {
+      try {
+        await processOrgSchedule(settings, now);
+      } catch (error) {
+        console.error(`[CRON] Failed to process schedule for org ${settings.organizationId}:`, error);
+      }
     }
+  } finally {
+    polling = false;
   }
-  
-  // Default to daily
-  return defaultMs;
 }
 
-// Schedule jobs for a specific organization
+// Reschedule an organization's generation from its current settings
 export async function scheduleOrgCronJobs(organizationId: number) {
   try {
-    // Remove existing job if any
-    const existingJob = scheduledJobs.get(organizationId);
-    if (existingJob) {
-      clearInterval(existingJob);
-      scheduledJobs.delete(organizationId);
-      console.log(`[CRON] Stopped existing job for org ${organizationId}`);
-    }
-    
-    // Get organization settings
-    const settings = await storage.getStrategySettings(organizationId);
-    
-    if (!settings || !settings.cronEnabled) {
-      console.log(`[CRON] Cron disabled for org ${organizationId}`);
-      return;
-    }
-    
-    // Parse schedule to milliseconds
-    const intervalMs = parseCronToMs(settings.cronSchedule);
-    
-    // Create interval-based job
-    const intervalId = setInterval(() => {
-      runWorkItemGenerationForOrg(organizationId).catch(error => {
-        console.error(`[CRON] Task failed for org ${organizationId}:`, error);
-      });
-    }, intervalMs);
-    
-    scheduledJobs.set(organizationId, intervalId);
-    console.log(`[CRON] Scheduled job for org ${organizationId} with interval: ${intervalMs}ms`);
-    
+    // Clearing the next run makes the next poll on any instance recompute it
+    await db.update(strategySettings)
+      .set({ cronNextRunAt: null })
+      .where(eq(strategySettings.organizationId, organizationId));
+    console.log(`[CRON] Rescheduled generation for org ${organizationId}`);
   } catch (error) {
     console.error(`[CRON] Failed to schedule jobs for org ${organizationId}:`, error);
   }
@@ -193,23 +228,23 @@ export async function initializeCronJobs() {
   console.log('[CRON] Initializing cron jobs...');
   
   try {
-    // Get all organizations
-    const orgs = await db.select().from(organizations);
-    
-    // Schedule jobs for each organization
-    for (const org of orgs) {
-      await scheduleOrgCronJobs(org.id);
-    }
+    await pollCronJobs();
+    pollingInterval = setInterval(() => {
+      pollCronJobs().catch(error => {
+        console.error('[CRON] Poll failed:', error);
+      });
+    }, SCHEDULER_POLL_INTERVAL_MS);
     
     // Run initial generation in development mode
     if (process.env.NODE_ENV === 'development') {
       console.log('[CRON] Development mode: Running initial generation...');
+      const orgs = await db.select().from(organizations);
       for (const org of orgs) {
         await runWorkItemGenerationForOrg(org.id).catch(console.error);
       }
     }
     
-    console.log(`[CRON] Cron jobs initialized for ${orgs.length} organizations`);
+    console.log(`[CRON] Cron jobs initialized, polling every ${SCHEDULER_POLL_INTERVAL_MS / 1000}s`);
   } catch (error) {
     console.error('[CRON] Failed to initialize cron jobs:', error);
   }
@@ -217,11 +252,10 @@ export async function initializeCronJobs() {
 
 // Stop all cron jobs
 export function stopCronJobs() {
-  scheduledJobs.forEach((intervalId, orgId) => {
-    clearInterval(intervalId);
-    console.log(`[CRON] Stopped job for org ${orgId}`);
-  });
-  scheduledJobs.clear();
+  if (pollingInterval) {
+    clearInterval(pollingInterval);
+    pollingInterval = null;
+  }
   console.log('[CRON] All cron jobs stopped');
 }
 
@@ -0,0 +1,220 @@
+import os from 'os';
+import crypto from 'crypto';
+import { CronTime } from 'cron';
+import { db } from '../db';
+import { and, eq, lt } from 'drizzle-orm';
+import { scheduledJobRuns, type ScheduledJobRun } from '../../shared/schema';
+
+/**
+ * Building blocks for schedules that stay correct when several server instances run
+ * side by side. Each schedule keeps its next occurrence in Postgres; an instance
+ * takes a due occurrence by advancing that value with a compare-and-set update,
+ * and then claims it by inserting the unique scheduled_job_runs row for it. An
+ * occurrence therefore runs at most once however many instances poll, and the
+ * claim rows double as the schedule history shown in the UI.
+ */
+
+export type CatchUpPolicy = 'skip' | 'run_once' | 'run_all';
+
+export const CATCH_UP_POLICIES: CatchUpPolicy[] = ['skip', 'run_once', 'run_all'];
+
+/** How often each instance looks for due schedules */
+export const SCHEDULER_POLL_INTERVAL_MS = 30000;
+
+/** Occurrences older than this when picked up were missed (no instance was polling) */
+const MISSED_AFTER_MS = 2 * SCHEDULER_POLL_INTERVAL_MS;
+
+/** Upper bound on catch-up runs for 'run_all'; older missed occurrences are skipped */
+export const MAX_CATCH_UP_RUNS = 24;
+
+// Stop walking missed occurrences after this many (e.g. a per-minute cron down for a week)
+const MAX_OCCURRENCES_SCANNED = 10000;
+
+/** Identifies this process in claim rows */
+export const SCHEDULER_INSTANCE_ID = `${os.hostname()}:${process.pid}:${crypto.randomBytes(3).toString('hex')}`;
+
+export interface PlannedOccurrence {
+  scheduledFor: Date;
+  isCatchUp: boolean;
+}
+
+export interface OccurrencePlan {
+  runs: PlannedOccurrence[];
+  skipped: { scheduledFor: Date; count: number } | null;
+  nextRunAt: Date;
+}
+
+/** First occurrence of the cron expression strictly after `after`. Throws on an invalid expression. */
+export function getNextOccurrence(cronExpression: string, timezone: string | null | undefined, after: Date): Date {
+  return new CronTime(cronExpression, timezone || 'UTC').getNextDateFrom(after).toJSDate();
+}
+
+/**
+ * Work out which occurrences from `dueAt` up to `now` should run and where the
+ * schedule continues. Occurrences that are only just due always run; older ones
+ * were missed and are handled by the catch-up policy:
+ * - skip: drop them
+ * - run_once: collapse them into one catch-up run (none if an on-time run is due anyway)
+ * - run_all: run each of them, oldest first, up to MAX_CATCH_UP_RUNS
+ */
+export function planDueOccurrences(
+  cronExpression: string,
+  timezone: string | null | undefined,
+  dueAt: Date,
+  now: Date,
+  policy: CatchUpPolicy
+): OccurrencePlan {
+  const missed: Date[] = [];
+  const onTime: Date[] = [];
+  let missedCount = 0;
+  let occurrence = dueAt;
+  let scanned = 0;
+
+  while (occurrence <= now && scanned < MAX_OCCURRENCES_SCANNED) {
+    if (now.getTime() - occurrence.getTime() > MISSED_AFTER_MS) {
+      missedCount++;
+      missed.push(occurrence);
+      // Only the most recent missed occurrences can ever run
+      if (missed.length > MAX_CATCH_UP_RUNS) missed.shift();
+    } else {
+      onTime.push(occurrence);
+    }
+    occurrence = getNextOccurrence(cronExpression, timezone, occurrence);
+    scanned++;
+  }
+
+  const nextRunAt = occurrence > now ? occurrence : getNextOccurrence(cronExpression, timezone, now);
+  const lastMissed = missed[missed.length - 1];
+  const runs: PlannedOccurrence[] = [];
+  let skippedCount = missedCount;
+
+  if (policy === 'run_all') {
+    runs.push(...missed.map(scheduledFor => ({ scheduledFor, isCatchUp: true })));
+    skippedCount = missedCount - missed.length;
+  } else if (policy === 'run_once' && lastMissed && onTime.length === 0) {
+    runs.push({ scheduledFor: lastMissed, isCatchUp: true });
+    skippedCount = missedCount - 1;
+  }
+  runs.push(...onTime.map(scheduledFor => ({ scheduledFor, isCatchUp: false })));
+
+  // Missed occurrences come first, so dueAt is the oldest and is never one that runs
+  return {
+    runs,
+    skipped: skippedCount > 0 ? { scheduledFor: dueAt, count: skippedCount } : null,
+    nextRunAt,
+  };
+}
+
+export interface OccurrenceClaim {
+  organizationId: number | null; // Null for platform maintenance jobs
+  jobType: 'agent_workflow' | 'work_item_generation' | 'key_result_refresh' | 'maintenance';
+  jobKey: string;
+  scheduleId?: number;
+  workflowId?: number;
+  scheduledFor: Date;
+  isCatchUp?: boolean;
+}
+
+/** Claim an occurrence for this instance. Returns null when another instance already has it. */
+export async function claimOccurrence(claim: OccurrenceClaim): Promise<ScheduledJobRun | null> {
+  const [run] = await db
+    .insert(scheduledJobRuns)
+    .values({
+      ...claim,
+      isCatchUp: claim.isCatchUp ?? false,
+      status: 'running',
+      claimedBy: SCHEDULER_INSTANCE_ID,
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  return run ?? null;
+}
+
+/** Record missed occurrences that the catch-up policy dropped, as one history row */
+export async function recordSkippedOccurrences(
+  claim: Omit<OccurrenceClaim, 'scheduledFor' | 'isCatchUp'>,
+  skipped: { scheduledFor: Date; count: number },
+  policy: CatchUpPolicy
+): Promise<void> {
+  await db
+    .insert(scheduledJobRuns)
+    .values({
+      ...claim,
+      scheduledFor: skipped.scheduledFor,
+      status: 'skipped',
+      isCatchUp: true,
+      claimedBy: SCHEDULER_INSTANCE_ID,
+      details: { missedCount: skipped.count, catchUpPolicy: policy },
+      completedAt: new Date(),
+    })
+    .onConflictDoNothing();
+}
+
+/**
+ * Claim an occurrence and run it, recording the outcome in the history row.
+ * Does nothing if another instance claimed the occurrence first.
+ */
+export async function runOccurrence(
+  claim: OccurrenceClaim,
+  job: () => Promise<{ workflowRunId?: number; details?: Record<string, any> } | void>
+): Promise<void> {
+  const run = await claimOccurrence(claim);
+  if (!run) {
+    // Maintenance jobs are claimed every minute or so; losing the race is routine
+    if (claim.jobType === 'maintenance') return;
+    console.log(`[Scheduler] ${claim.jobKey} at ${claim.scheduledFor.toISOString()} already claimed by another instance`);
+    return;
+  }
+
+  try {
+    const result = await job();
+    await db
+      .update(scheduledJobRuns)
+      .set({
+        status: 'completed',
+        workflowRunId: result?.workflowRunId,
+        details: result?.details ?? {},
+        completedAt: new Date(),
+      })
+      .where(eq(scheduledJobRuns.id, run.id));
+  } catch (error: any) {
+    console.error(`[Scheduler] ${claim.jobKey} at ${claim.scheduledFor.toISOString()} failed:`, error);
+    await db
+      .update(scheduledJobRuns)
+      .set({
+        status: 'failed',
+        workflowRunId: typeof error?.runId === 'number' ? error.runId : undefined,
+        errorMessage: error instanceof Error ? error.message : String(error),
+        completedAt: new Date(),
+      })
+      .where(eq(scheduledJobRuns.id, run.id));
+  }
+}
+
+/** Claim rows of maintenance jobs are kept this long */
+const MAINTENANCE_HISTORY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Run a platform maintenance job that every instance triggers on a timer (e.g.
+ * a sweep for stale rows) on only one of them per interval: each interval is an
+ * occurrence, claimed like a schedule's. The winning instance prunes the job's
+ * old claim rows afterwards.
+ */
+export async function runMaintenanceJob(
+  jobKey: string,
+  intervalMs: number,
+  job: () => Promise<Record<string, any> | void>
+): Promise<void> {
+  const now = Date.now();
+  await runOccurrence(
+    { organizationId: null, jobType: 'maintenance', jobKey, scheduledFor: new Date(Math.floor(now / intervalMs) * intervalMs) },
+    async () => {
+      const details = await job();
+      await db
+        .delete(scheduledJobRuns)
+        .where(and(eq(scheduledJobRuns.jobKey, jobKey), lt(scheduledJobRuns.scheduledFor, new Date(now - MAINTENANCE_HISTORY_MS))));
+      return details ? { details } : undefined;
+    }
+  );
+}
@@ -0,0 +1,237 @@
+import { db } from '../../db';
+import { eq, and, lt, sql } from 'drizzle-orm';
+import { integrationCircuitBreakers, type Integration, type IntegrationCircuitBreaker } from '../../../shared/schema';
+
+type ResilienceConfig = NonNullable<Integration['resilienceConfig']>;
+
+export const DEFAULT_RESILIENCE_CONFIG: Required<Omit<ResilienceConfig, 'rateLimitPerMinute'>> = {
+  timeoutSeconds: 30,
+  failureThreshold: 5,
+  cooldownSeconds: 60,
+};
+
+// Breaker rows are re-read at most this often per instance
+const BREAKER_CACHE_MS = 5000;
+
+const TRANSIENT_ERROR_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'ENETUNREACH']);
+
+export class IntegrationTimeoutError extends Error {
+  constructor(label: string, public readonly timeoutMs: number) {
+    super(`${label} timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'IntegrationTimeoutError';
+  }
+}
+
+export class CircuitOpenError extends Error {
+  constructor(integrationName: string, public readonly retryAt: Date | null) {
+    super(
+      `${integrationName} is failing, calls are paused` +
+      (retryAt ? ` until ${retryAt.toISOString()}` : '') +
+      ' (circuit breaker open)'
+    );
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Reject if `call` has not settled within `timeoutMs`. The signal passed to `call` is
+ * aborted at the timeout, so requests made with it are cancelled rather than left to land late.
+ */
+export async function withTimeout<T>(call: (signal: AbortSignal) => Promise<T>, timeoutMs: number, label: string): Promise<T> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    return await Promise.race([
+      call(controller.signal),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          const error = new IntegrationTimeoutError(label, timeoutMs);
+          controller.abort(error);
+          reject(error);
+        }, timeoutMs);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** Whether an error means the upstream service is struggling (as opposed to a bad request) */
+export function isUpstreamFailure(error: any): boolean {
+  if (error instanceof IntegrationTimeoutError) return true;
+  if (error?.code && TRANSIENT_ERROR_CODES.has(error.code)) return true;
+  const status = error?.response?.status ?? error?.status;
+  return typeof status === 'number' && (status === 429 || status >= 500);
+}
+
+/** Whether retrying a failed call could succeed. Calls refused by an open circuit are not retried. */
+export function isRetryableError(error: any): boolean {
+  return !(error instanceof CircuitOpenError) && isUpstreamFailure(error);
+}
+
+/** Delay requested by a 429 response's Retry-After header, if any */
+export function getRetryAfterMs(error: any): number | undefined {
+  const header = error?.response?.headers?.['retry-after'];
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Guards calls to an integration's upstream API with a rate limit, a timeout and a
+ * circuit breaker. The rate limit is enforced per server instance; breaker state is
+ * kept in integration_circuit_breakers so all instances trip and recover together.
+ */
+export class IntegrationGuard {
+  // Earliest time the next call to each integration may start on this instance
+  private nextSlotAt = new Map<number, number>();
+  private breakerCache = new Map<number, { breaker: IntegrationCircuitBreaker | null; loadedAt: number }>();
+
+  async call<T>(integration: Integration, call: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const config = { ...DEFAULT_RESILIENCE_CONFIG, ...(integration.resilienceConfig || {}) };
+
+    await this.assertCircuitAllowsCall(integration, config.cooldownSeconds);
+    await this.waitForRateLimit(integration.id, config.rateLimitPerMinute);
+
+    try {
+      const result = await withTimeout(call, config.timeoutSeconds * 1000, `${integration.name} call`);
+      await this.recordSuccess(integration.id);
+      return result;
+    } catch (error: any) {
+      if (isUpstreamFailure(error)) {
+        await this.recordFailure(integration, error, config);
+      }
+      throw error;
+    }
+  }
+
+  private async waitForRateLimit(integrationId: number, perMinute?: number): Promise<void> {
+    if (!perMinute || perMinute <= 0) return;
+
+    // Reserve the next slot synchronously so concurrent callers queue up in order
+    const spacingMs = 60000 / perMinute;
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlotAt.get(integrationId) ?? 0);
+    this.nextSlotAt.set(integrationId, slot + spacingMs);
+
+    if (slot > now) {
+      await new Promise(resolve => setTimeout(resolve, slot - now));
+    }
+  }
+
+  private async getBreaker(integrationId: number): Promise<IntegrationCircuitBreaker | null> {
+    const cached = this.breakerCache.get(integrationId);
+    if (cached && Date.now() - cached.loadedAt < BREAKER_CACHE_MS) {
+      return cached.breaker;
+    }
+
+    const [breaker] = await db
+      .select()
+      .from(integrationCircuitBreakers)
+      .where(eq(integrationCircuitBreakers.integrationId, integrationId))
+      .limit(1);
+
+    this.breakerCache.set(integrationId, { breaker: breaker ?? null, loadedAt: Date.now() });
+    return breaker ?? null;
+  }
+
+  private async assertCircuitAllowsCall(integration: Integration, cooldownSeconds: number): Promise<void> {
+    const breaker = await this.getBreaker(integration.id);
+    if (!breaker || breaker.state === 'closed') return;
+
+    const now = new Date();
+    if (breaker.state === 'open' && breaker.retryAt && breaker.retryAt > now) {
+      throw new CircuitOpenError(integration.name, breaker.retryAt);
+    }
+
+    // Cooldown over (or a previous trial call never reported back): let exactly one caller try
+    const staleTrialBefore = new Date(now.getTime() - cooldownSeconds * 1000);
+    const [trial] = await db
+      .update(integrationCircuitBreakers)
+      .set({ state: 'half_open', updatedAt: now })
+      .where(and(
+        eq(integrationCircuitBreakers.integrationId, integration.id),
+        breaker.state === 'open'
+          ? eq(integrationCircuitBreakers.state, 'open')
+          : and(eq(integrationCircuitBreakers.state, 'half_open'), lt(integrationCircuitBreakers.updatedAt, staleTrialBefore))
+      ))
+      .returning();
+
+    this.breakerCache.delete(integration.id);
+
+    if (!trial) {
+      throw new CircuitOpenError(integration.name, breaker.retryAt);
+    }
+    console.log(`[IntegrationGuard] ${integration.name}: circuit half-open, sending trial call`);
+  }
+
+  private async recordSuccess(integrationId: number): Promise<void> {
+    const breaker = await this.getBreaker(integrationId);
+    if (!breaker || (breaker.state === 'closed' && breaker.consecutiveFailures === 0)) return;
+
+    await db
+      .update(integrationCircuitBreakers)
+      .set({ state: 'closed', consecutiveFailures: 0, retryAt: null, updatedAt: new Date() })
+      .where(eq(integrationCircuitBreakers.integrationId, integrationId));
+
+    this.breakerCache.delete(integrationId);
+    if (breaker.state !== 'closed') {
+      console.log(`[IntegrationGuard] Integration ${integrationId}: circuit closed again`);
+    }
+  }
+
+  private async recordFailure(integration: Integration, error: any, config: typeof DEFAULT_RESILIENCE_CONFIG): Promise<void> {
+    const now = new Date();
+    const [breaker] = await db
+      .insert(integrationCircuitBreakers)
+      .values({
+        integrationId: integration.id,
+        organizationId: integration.organizationId,
+        consecutiveFailures: 1,
+        lastError: error.message,
+        lastFailureAt: now,
+      })
+      .onConflictDoUpdate({
+        target: integrationCircuitBreakers.integrationId,
+        set: {
+          consecutiveFailures: sql`${integrationCircuitBreakers.consecutiveFailures} + 1`,
+          lastError: error.message,
+          lastFailureAt: now,
+          updatedAt: now,
+        },
+      })
+      .returning();
+
+    // A failed trial call reopens the circuit straight away
+    if (breaker.state === 'half_open' || (breaker.state === 'closed' && breaker.consecutiveFailures >= config.failureThreshold)) {
+      const retryAt = new Date(now.getTime() + config.cooldownSeconds * 1000);
+      await db
+        .update(integrationCircuitBreakers)
+        .set({ state: 'open', openedAt: now, retryAt, updatedAt: now })
+        .where(eq(integrationCircuitBreakers.integrationId, integration.id));
+      console.warn(`[IntegrationGuard] ${integration.name}: circuit opened after ${breaker.consecutiveFailures} consecutive failure(s), retrying at ${retryAt.toISOString()}`);
+    }
+
+    this.breakerCache.delete(integration.id);
+  }
+
+  /** Close the circuit by hand, e.g. after the upstream has been fixed */
+  async resetBreaker(integrationId: number): Promise<void> {
+    await db
+      .update(integrationCircuitBreakers)
+      .set({ state: 'closed', consecutiveFailures: 0, retryAt: null, updatedAt: new Date() })
+      .where(eq(integrationCircuitBreakers.integrationId, integrationId));
+    this.breakerCache.delete(integrationId);
+  }
+
+  async getBreakers(organizationId: number): Promise<IntegrationCircuitBreaker[]> {
+    return db
+      .select()
+      .from(integrationCircuitBreakers)
+      .where(eq(integrationCircuitBreakers.organizationId, organizationId));
+  }
+}
+
+export const integrationGuard = new IntegrationGuard();
@@ -1,12 +1,13 @@
 import { storage } from '../../storage';
 import type { IntegrationTrigger, InsertIntegrationTrigger } from '../../../shared/schema';
+import { PLATFORM_EVENT_DEFINITIONS } from '../workflow/platformEvents';
 
 export interface TriggerDefinition {
   triggerKey: string;
   name: string;
   description: string;
   category: string;
-  eventType: 'webhook' | 'polling' | 'api_call';
+  eventType: 'webhook' | 'polling' | 'api_call' | 'internal';
   payloadSchema: any;
   availableFields: string[];
 }
@@ -242,6 +243,9 @@ export class TriggerDiscoveryService {
       case 'microsoft':
         triggers = this.getOutlookTriggers();
         break;
+      case 'platform':
+        triggers = PLATFORM_EVENT_DEFINITIONS;
+        break;
       default:
         console.log(`No triggers defined for platform: ${platformType}`);
         return [];
@@ -318,6 +322,9 @@ export class TriggerDiscoveryService {
       case 'airtable':
         triggers = this.getAirtableTriggers();
         break;
+      case 'platform':
+        triggers = PLATFORM_EVENT_DEFINITIONS;
+        break;
       default:
         return null;
     }
@@ -2013,7 +2013,7 @@ export class SplynxService {
     ticketId: string, 
     message: string, 
     isHidden: boolean = true,
-    options?: { customerId?: string; subject?: string; priority?: string; adminId?: number }
+    options?: { customerId?: string; subject?: string; priority?: string; adminId?: number; signal?: AbortSignal }
   ): Promise<any> {
     try {
       const url = this.buildUrl(`admin/support/ticket-messages`);
@@ -2053,6 +2053,7 @@ export class SplynxService {
           'Authorization': this.credentials.authHeader,
           'Content-Type': 'application/json',
         },
+        signal: options?.signal,
       });
       
       console.log(`[Splynx] Successfully added message to ticket ${ticketId}`);
@@ -1,6 +1,8 @@
 import { db } from '../../db';
 import { vapiCalls, keyResults, objectives } from '@shared/schema';
 import { and, eq, gte, lte, sql, count as drizzleCount } from 'drizzle-orm';
+import { platformEventBus } from '../workflow/PlatformEventBus';
+import { keyResultUpdatedPayload } from '../workflow/platformEvents';
 
 export interface VapiMetrics {
   autonomousResolutionRate: number; // Percentage of calls resolved without human intervention
@@ -267,12 +269,19 @@ export async function calculateMetricsForCall(organizationId: number, vapiCallId
       
       if (newActual !== null) {
         // Update Key Result
-        await db.update(keyResults)
+        const [updatedKr] = await db.update(keyResults)
           .set({
             currentValue: newActual.toString(),
             updatedAt: new Date(),
           })
-          .where(eq(keyResults.id, kr.id));
+          .where(eq(keyResults.id, kr.id))
+          .returning();
+        
+        if (updatedKr && updatedKr.currentValue !== kr.currentValue) {
+          platformEventBus.emit(organizationId, 'key_result.updated', keyResultUpdatedPayload(updatedKr, kr.currentValue), {
+            entityId: kr.id,
+          });
+        }
         
         console.log(`✅ Updated KR "${kr.title}": ${newActual}`);
       }
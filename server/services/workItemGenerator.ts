@@ -5,10 +5,27 @@ import {
   type WorkItem,
   type InsertWorkItem,
   type KeyResult,
-  users
+  type WorkItemRecurrence,
+  publicHolidays,
+  users,
+  workItemRecurrences,
+  workItems
 } from '@shared/schema';
-import { addDays, addWeeks, addMonths, startOfDay, isAfter, isBefore, parseISO } from 'date-fns';
+import {
+  describeRRule,
+  expandRRule,
+  isDateString,
+  legacyFrequencyToRRule,
+  nextOccurrence,
+  parseRRule,
+  publicHolidayExclusions,
+  RecurrenceRuleError,
+  type RecurrenceOccurrence
+} from '@shared/recurrence';
+import { addDays, startOfDay, isAfter, isBefore } from 'date-fns';
 import { and, eq } from 'drizzle-orm';
+import { platformEventBus } from './workflow/PlatformEventBus';
+import { keyResultUpdatedPayload } from './workflow/platformEvents';
 
 interface GenerationReport {
   created: number;
@@ -24,6 +41,62 @@ interface FrequencyParams {
   monthOfQuarter?: number; // 1-3
 }
 
+export interface RecurrenceSettings {
+  rule: string;
+  startDate?: string;
+  skipPublicHolidays?: boolean;
+}
+
+export interface RecurrencePreview {
+  description: string;
+  occurrences: RecurrenceOccurrence[];
+}
+
+export class WorkItemRecurrenceError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'WorkItemRecurrenceError';
+  }
+}
+
+// Runs that generate more than this per rule are almost certainly misconfigured
+const MAX_OCCURRENCES_PER_RUN = 100;
+
+function toDateOnly(value: Date | string): string {
+  return new Date(value).toISOString().split('T')[0];
+}
+
+function dayAfter(date: string): string {
+  return toDateOnly(addDays(new Date(date), 1));
+}
+
+/** Copying fields from a template item; identity, status and timestamps start fresh */
+function occurrenceFromTemplate(template: WorkItem, dueDate: string, recurrenceKey: string): InsertWorkItem {
+  return {
+    organizationId: template.organizationId,
+    teamId: template.teamId,
+    keyResultTaskId: template.keyResultTaskId,
+    title: template.title,
+    description: template.description,
+    ownerId: template.ownerId,
+    assignedTo: template.assignedTo,
+    createdBy: template.createdBy,
+    workflowTemplateId: template.workflowTemplateId,
+    workflowSource: template.workflowSource,
+    workItemType: template.workItemType,
+    customFields: template.customFields,
+    status: 'Planning',
+    dueDate,
+    recurrenceKey,
+  };
+}
+
+/**
+ * Generates work items from recurring key result tasks and from recurrence
+ * rules on standalone work items. Each occurrence carries a recurrence key
+ * ("task:<id>:<date>" or "rule:<id>:<date>") that is unique per organization,
+ * so overlapping or repeated runs never create the same occurrence twice.
+ */
 export class WorkItemGenerator {
   
   // Generate work item from one-time task
@@ -63,52 +136,47 @@ export class WorkItemGenerator {
     return workItem;
   }
   
-  // Calculate next due date based on frequency
-  private calculateNextDueDate(task: KeyResultTask): Date | null {
-    if (!task.frequency || !task.nextDueDate) return null;
-    
-    const currentDue = new Date(task.nextDueDate);
-    const frequencyParams = task.frequencyParams as FrequencyParams || {};
-    
-    switch (task.frequency) {
-      case 'daily':
-        return addDays(currentDue, 1);
-        
-      case 'weekly':
-        // If specific days of week are specified, find the next one
-        if (frequencyParams.dayOfWeek?.length) {
-          const currentDay = currentDue.getDay();
-          const targetDays = frequencyParams.dayOfWeek.sort();
-          
-          // Find next day that's after current day
-          let nextDay = targetDays.find(d => d > currentDay);
-          if (!nextDay) {
-            // Wrap to next week
-            nextDay = targetDays[0];
-            return addDays(currentDue, 7 - currentDay + nextDay);
-          }
-          return addDays(currentDue, nextDay - currentDay);
-        }
-        // Default to 7 days later
-        return addWeeks(currentDue, 1);
-        
-      case 'monthly':
-        // If specific day of month is specified
-        if (frequencyParams.dayOfMonth) {
-          const nextMonth = addMonths(currentDue, 1);
-          nextMonth.setDate(frequencyParams.dayOfMonth);
-          return nextMonth;
-        }
-        // Default to 1 month later
-        return addMonths(currentDue, 1);
-        
-      case 'quarterly':
-        return addMonths(currentDue, 3);
-        
-      default:
+  // RRULE for a recurring task: its own rule, or the equivalent of its legacy frequency
+  private taskRule(task: KeyResultTask): string | null {
+    return task.recurrenceRule || legacyFrequencyToRRule(task.frequency, task.frequencyParams as FrequencyParams);
+  }
+
+  // Exclusion callback for the organization's public holidays
+  private async holidayExclusions(organizationId: number): Promise<(date: string) => string | undefined> {
+    const holidays = await db.select({
+      name: publicHolidays.name,
+      date: publicHolidays.date,
+      isRecurring: publicHolidays.isRecurring
+    })
+      .from(publicHolidays)
+      .where(eq(publicHolidays.organizationId, organizationId));
+    return publicHolidayExclusions(holidays);
+  }
+
+  // Insert an occurrence; null when its recurrence key exists, i.e. an earlier run created it
+  private async insertOccurrence(create: () => Promise<WorkItem>): Promise<WorkItem | null> {
+    try {
+      return await create();
+    } catch (error: any) {
+      if (error?.code === '23505' && error?.constraint === 'uq_work_items_recurrence_key') {
         return null;
+      }
+      throw error;
     }
   }
+
+  private async systemUserId(organizationId: number, fallback?: number | null): Promise<number> {
+    const [adminUser] = await db.select()
+      .from(users)
+      .where(
+        and(
+          eq(users.organizationId, organizationId),
+          eq(users.role, 'admin')
+        )
+      )
+      .limit(1);
+    return adminUser?.id || fallback || 1;
+  }
   
   // Generate next work item for recurring task
   async generateNextRecurringWorkItem(
@@ -135,56 +203,62 @@ export class WorkItemGenerator {
       return null;
     }
     
-    const nextDueDate = task.nextDueDate ? new Date(task.nextDueDate) : new Date();
+    const rule = this.taskRule(task);
+    const exclude = task.skipPublicHolidays ? await this.holidayExclusions(task.organizationId) : undefined;
+    let dueDate = toDateOnly(task.nextDueDate ?? new Date());
+    // Legacy frequencies have no anchor, so they count on from the current due date
+    const ruleStart = task.recurrenceStart || dueDate;
     
-    // Check if work item already exists for this due date
-    const existingItems = await storage.getWorkItemsByTaskAndDate(
-      task.id,
-      startOfDay(nextDueDate).toISOString()
-    );
+    // A due date that falls on a public holiday moves to the next occurrence
+    if (rule && exclude?.(dueDate)) {
+      const moved = nextOccurrence(rule, ruleStart, dueDate, exclude);
+      if (!moved) {
+        await storage.updateKeyResultTask(task.id, { generationStatus: 'completed' });
+        return null;
+      }
+      dueDate = moved;
+    }
     
-    if (existingItems.length > 0) {
-      console.log(`Work item already exists for task ${task.id} on ${nextDueDate}`);
+    if (task.endDate && dueDate > toDateOnly(task.endDate)) {
+      await storage.updateKeyResultTask(task.id, { generationStatus: 'completed' });
       return null;
     }
     
-    // Get count of existing work items for this task to get accurate sequence
-    const existingWorkItems = await storage.getWorkItemCountByTask(task.id);
-    const sequenceNumber = existingWorkItems + 1;
-    const title = `${task.title} (#${sequenceNumber})`;
-    
-    const workItem = await storage.createWorkItemFromTask(task, {
-      title,
-      dueDate: nextDueDate.toISOString().split('T')[0], // YYYY-MM-DD format
-      status: 'Planning'
-    });
+    // Items generated before recurrence keys existed are matched by task and due date
+    const existingItems = await storage.getWorkItemsByTaskAndDate(task.id, dueDate);
     
-    // Update task's next due date
-    const newNextDue = this.calculateNextDueDate(task);
-    if (newNextDue) {
-      await storage.updateKeyResultTask(task.id, {
-        nextDueDate: newNextDue,
-        lastGeneratedDate: new Date()
-      });
+    let workItem: WorkItem | null = null;
+    let sequenceNumber = 0;
+    if (existingItems.length > 0) {
+      console.log(`Work item already exists for task ${task.id} on ${dueDate}`);
+    } else {
+      // Get count of existing work items for this task to get accurate sequence
+      const existingWorkItems = await storage.getWorkItemCountByTask(task.id);
+      sequenceNumber = existingWorkItems + 1;
+      const title = `${task.title} (#${sequenceNumber})`;
+      
+      workItem = await this.insertOccurrence(() => storage.createWorkItemFromTask(task, {
+        title,
+        dueDate, // YYYY-MM-DD format
+        status: 'Planning',
+        recurrenceKey: `task:${task.id}:${dueDate}`
+      }));
     }
     
-    // Get admin user for system operations
-    const [adminUser] = await db.select()
-      .from(users)
-      .where(
-        and(
-          eq(users.organizationId, task.organizationId),
-          eq(users.role, 'admin')
-        )
-      )
-      .limit(1);
+    // Move on to the next occurrence even when this one already existed, so re-runs do not stall
+    const newNextDue = rule ? nextOccurrence(rule, ruleStart, dayAfter(dueDate), exclude) : null;
+    await storage.updateKeyResultTask(task.id, newNextDue
+      ? { nextDueDate: new Date(newNextDue), ...(workItem ? { lastGeneratedDate: new Date() } : {}) }
+      : { generationStatus: 'completed' });
     
-    const systemUserId = adminUser?.id || task.createdBy || 1;
+    if (!workItem) {
+      return null;
+    }
     
     // Log activity
     await storage.logActivity({
       organizationId: task.organizationId,
-      userId: systemUserId, // Use actual admin user
+      userId: await this.systemUserId(task.organizationId, task.createdBy), // Use actual admin user
       actionType: 'creation',
       entityType: 'work_item',
       entityId: workItem.id,
@@ -193,7 +267,7 @@ export class WorkItemGenerator {
         taskId: task.id,
         workItemId: workItem.id,
         sequenceNumber,
-        dueDate: nextDueDate
+        dueDate
       }
     });
     
@@ -221,19 +295,24 @@ export class WorkItemGenerator {
       const activeTasks = await storage.getActiveRecurringTasks(organizationId);
       const lookaheadDate = addDays(new Date(), lookaheadDays);
       
-      for (const task of activeTasks) {
+      for (const activeTask of activeTasks) {
         try {
           // Skip if no next due date
-          if (!task.nextDueDate) {
-            console.log(`Task ${task.id} has no next due date, skipping`);
+          if (!activeTask.nextDueDate) {
+            console.log(`Task ${activeTask.id} has no next due date, skipping`);
             report.skipped++;
             continue;
           }
           
-          const nextDue = new Date(task.nextDueDate);
-          
-          // Check if due date is within lookahead window
-          if (isBefore(nextDue, lookaheadDate)) {
+          // Generate every occurrence that falls within the lookahead window
+          let task: KeyResultTask | undefined = activeTask;
+          let generated = 0;
+          while (
+            task?.nextDueDate &&
+            task.generationStatus === 'active' &&
+            isBefore(new Date(task.nextDueDate), lookaheadDate) &&
+            generated < MAX_OCCURRENCES_PER_RUN
+          ) {
             const workItem = await this.generateNextRecurringWorkItem(task);
             if (workItem) {
               report.created++;
@@ -241,12 +320,37 @@ export class WorkItemGenerator {
             } else {
               report.skipped++;
             }
-          } else {
+            generated++;
+            task = await storage.getKeyResultTask(task.id);
+          }
+          if (generated === 0) {
             report.skipped++;
           }
         } catch (error: any) {
-          console.error(`Error generating work item for task ${task.id}:`, error);
-          report.errors.push(`Task ${task.id}: ${error.message}`);
+          console.error(`Error generating work item for task ${activeTask.id}:`, error);
+          report.errors.push(`Task ${activeTask.id}: ${error.message}`);
+        }
+      }
+      
+      // Recurrence rules on standalone work items
+      const recurrences = await db.select()
+        .from(workItemRecurrences)
+        .where(and(
+          eq(workItemRecurrences.organizationId, organizationId),
+          eq(workItemRecurrences.generationStatus, 'active')
+        ));
+      
+      for (const recurrence of recurrences) {
+        try {
+          const created = await this.generateRecurrenceOccurrences(recurrence, toDateOnly(lookaheadDate));
+          report.created += created.length;
+          report.items.push(...created);
+          if (created.length === 0) {
+            report.skipped++;
+          }
+        } catch (error: any) {
+          console.error(`Error generating work items for recurrence ${recurrence.id}:`, error);
+          report.errors.push(`Recurrence ${recurrence.id}: ${error.message}`);
         }
       }
       
@@ -259,6 +363,182 @@ export class WorkItemGenerator {
     return report;
   }
   
+  // Create the occurrences of a standalone recurrence that fall on or before `until`
+  async generateRecurrenceOccurrences(
+    recurrence: WorkItemRecurrence,
+    until: string
+  ): Promise<WorkItem[]> {
+    const created: WorkItem[] = [];
+    if (!recurrence.nextOccurrence || recurrence.nextOccurrence > until) {
+      return created;
+    }
+    
+    const template = await storage.getWorkItem(recurrence.templateWorkItemId);
+    if (!template) {
+      return created;
+    }
+    
+    const exclude = recurrence.skipPublicHolidays ? await this.holidayExclusions(recurrence.organizationId) : undefined;
+    const occurrences = expandRRule(recurrence.rule, recurrence.startDate, {
+      from: recurrence.nextOccurrence,
+      to: until,
+      limit: MAX_OCCURRENCES_PER_RUN,
+      exclude
+    });
+    
+    for (const occurrence of occurrences) {
+      if (occurrence.excludedReason) continue;
+      const recurrenceKey = `rule:${recurrence.id}:${occurrence.date}`;
+      const [workItem] = await db.insert(workItems)
+        .values(occurrenceFromTemplate(template, occurrence.date, recurrenceKey))
+        .onConflictDoNothing()
+        .returning();
+      if (workItem) {
+        created.push(workItem);
+      }
+    }
+    
+    const lastDate = occurrences.length > 0 ? occurrences[occurrences.length - 1].date : until;
+    const next = nextOccurrence(recurrence.rule, recurrence.startDate, dayAfter(lastDate), exclude);
+    await db.update(workItemRecurrences)
+      .set({
+        nextOccurrence: next,
+        generationStatus: next ? recurrence.generationStatus : 'completed',
+        lastGeneratedDate: created.length > 0 ? new Date() : recurrence.lastGeneratedDate,
+        updatedAt: new Date()
+      })
+      .where(eq(workItemRecurrences.id, recurrence.id));
+    
+    if (created.length > 0) {
+      await storage.logActivity({
+        organizationId: recurrence.organizationId,
+        userId: await this.systemUserId(recurrence.organizationId, recurrence.createdBy),
+        actionType: 'creation',
+        entityType: 'work_item',
+        entityId: template.id,
+        description: `Generated ${created.length} recurring work item${created.length === 1 ? '' : 's'} from: ${template.title}`,
+        metadata: {
+          recurrenceId: recurrence.id,
+          workItemIds: created.map(item => item.id),
+          dueDates: created.map(item => item.dueDate)
+        }
+      });
+    }
+    
+    return created;
+  }
+  
+  // Recurrence rule on a standalone work item, if any
+  async getRecurrence(organizationId: number, workItemId: number): Promise<WorkItemRecurrence | null> {
+    const [recurrence] = await db.select()
+      .from(workItemRecurrences)
+      .where(and(
+        eq(workItemRecurrences.organizationId, organizationId),
+        eq(workItemRecurrences.templateWorkItemId, workItemId)
+      ));
+    return recurrence ?? null;
+  }
+  
+  /**
+   * Create or replace the recurrence rule on a work item. The item itself
+   * stands for the occurrence on its own due date, so generation starts after it.
+   */
+  async setRecurrence(
+    organizationId: number,
+    workItemId: number,
+    settings: RecurrenceSettings,
+    userId: number
+  ): Promise<WorkItemRecurrence> {
+    const template = await storage.getWorkItem(workItemId);
+    if (!template || template.organizationId !== organizationId) {
+      throw new WorkItemRecurrenceError('Work item not found', 404);
+    }
+    if (template.recurrenceKey) {
+      throw new WorkItemRecurrenceError('This work item was generated by a recurrence; edit the rule on the original item instead');
+    }
+    
+    const rule = this.normalizeRule(settings.rule);
+    const startDate = settings.startDate || template.dueDate || toDateOnly(new Date());
+    if (!isDateString(startDate)) {
+      throw new WorkItemRecurrenceError(`Invalid start date "${startDate}"`);
+    }
+    const skipPublicHolidays = settings.skipPublicHolidays ?? false;
+    
+    const exclude = skipPublicHolidays ? await this.holidayExclusions(organizationId) : undefined;
+    const earliest = [startDate, toDateOnly(new Date())];
+    if (template.dueDate) earliest.push(dayAfter(template.dueDate));
+    const from = earliest.sort()[earliest.length - 1];
+    const next = nextOccurrence(rule, startDate, from, exclude);
+    
+    const values = {
+      rule,
+      startDate,
+      skipPublicHolidays,
+      nextOccurrence: next,
+      generationStatus: next ? 'active' : 'completed',
+      updatedAt: new Date()
+    };
+    const [recurrence] = await db.insert(workItemRecurrences)
+      .values({ ...values, organizationId, templateWorkItemId: workItemId, createdBy: userId })
+      .onConflictDoUpdate({ target: workItemRecurrences.templateWorkItemId, set: values })
+      .returning();
+    return recurrence;
+  }
+  
+  // Stop a work item recurring; items already generated are kept
+  async deleteRecurrence(organizationId: number, workItemId: number): Promise<boolean> {
+    const deleted = await db.delete(workItemRecurrences)
+      .where(and(
+        eq(workItemRecurrences.organizationId, organizationId),
+        eq(workItemRecurrences.templateWorkItemId, workItemId)
+      ))
+      .returning();
+    return deleted.length > 0;
+  }
+  
+  // Next `count` occurrences of a rule from today (or its start), with skipped dates and why
+  async previewOccurrences(
+    organizationId: number,
+    settings: RecurrenceSettings,
+    count: number = 5
+  ): Promise<RecurrencePreview> {
+    const rule = this.normalizeRule(settings.rule);
+    const today = toDateOnly(new Date());
+    const startDate = settings.startDate || today;
+    if (!isDateString(startDate)) {
+      throw new WorkItemRecurrenceError(`Invalid start date "${startDate}"`);
+    }
+    
+    const exclude = settings.skipPublicHolidays ? await this.holidayExclusions(organizationId) : undefined;
+    const expanded = expandRRule(rule, startDate, {
+      from: startDate > today ? startDate : today,
+      limit: count + 50,
+      exclude
+    });
+    
+    // Skipped dates are shown in place but do not count towards `count`
+    const occurrences: RecurrenceOccurrence[] = [];
+    let kept = 0;
+    for (const occurrence of expanded) {
+      occurrences.push(occurrence);
+      if (!occurrence.excludedReason && ++kept >= count) break;
+    }
+    return { description: describeRRule(rule), occurrences };
+  }
+  
+  // Parse a rule so malformed input is rejected before it is stored
+  normalizeRule(rule: string): string {
+    try {
+      parseRRule(rule);
+    } catch (error) {
+      if (error instanceof RecurrenceRuleError) {
+        throw new WorkItemRecurrenceError(error.message);
+      }
+      throw error;
+    }
+    return rule.trim().replace(/^RRULE:/i, '');
+  }
+  
   // Handle work item completion
   async handleWorkItemCompletion(
     workItemId: number,
@@ -274,12 +554,25 @@ export class WorkItemGenerator {
       return;
     }
     
+    const keyResultBefore = task.keyResultId ? await storage.getKeyResult(task.keyResultId) : undefined;
+    
     // Update completion metrics (this also updates activityLog)
     await storage.updateTaskCompletionMetrics(
       workItem.keyResultTaskId,
       true // completed
     );
     
+    // Completing the task moves its key result's progress
+    if (keyResultBefore) {
+      const keyResultAfter = await storage.getKeyResult(keyResultBefore.id);
+      if (keyResultAfter && keyResultAfter.currentValue !== keyResultBefore.currentValue) {
+        platformEventBus.emit(task.organizationId, 'key_result.updated', keyResultUpdatedPayload(keyResultAfter, keyResultBefore.currentValue), {
+          entityId: keyResultAfter.id,
+          actorUserId: userId ?? null,
+        });
+      }
+    }
+    
     // Get admin user for system operations if userId not provided
     let systemUserId = userId;
     if (!systemUserId) {
@@ -0,0 +1,181 @@
+import { and, asc, desc, eq, inArray, isNotNull, isNull, not, or, sql, type SQL } from 'drizzle-orm';
+import { checkInMeetings, keyResultTasks, teams, users, workItemWorkflowExecutionSteps, workItems } from '../../shared/schema';
+import {
+  CURRENT_USER_VALUE,
+  CUSTOM_FIELD_SORT_PREFIX,
+  WORK_ITEM_SORT_COLUMNS,
+  isIsoDate,
+  isQueryGroup,
+  type WorkItemQueryGroup,
+  type WorkItemQueryRule,
+  type WorkItemSortColumn,
+} from '../../shared/workItemQuery';
+
+/**
+ * Compiles query builder trees (shared/workItemQuery.ts) and sort columns into
+ * Drizzle SQL for GET /api/work-items. Values are always bound as parameters.
+ */
+
+interface QueryContext {
+  userId: number;
+  /** YYYY-MM-DD, for overdue and relative date rules */
+  today: string;
+}
+
+/** Percentage of completed workflow steps; NULL for items without a workflow */
+const progressSql = sql`(
+  SELECT CASE WHEN COUNT(*) = 0 THEN NULL
+    ELSE 100.0 * COUNT(*) FILTER (WHERE ${workItemWorkflowExecutionSteps.status} = 'completed') / COUNT(*) END
+  FROM ${workItemWorkflowExecutionSteps}
+  WHERE ${workItemWorkflowExecutionSteps.workItemId} = ${workItems.id}
+)`;
+
+function listValues(rule: WorkItemQueryRule): string[] {
+  const values = Array.isArray(rule.value) ? rule.value : rule.value === undefined || rule.value === null ? [] : [rule.value];
+  return values.map(String);
+}
+
+function idValues(rule: WorkItemQueryRule, context: QueryContext): number[] {
+  return listValues(rule)
+    .map(value => (value === CURRENT_USER_VALUE ? context.userId : parseInt(value)))
+    .filter(value => !isNaN(value));
+}
+
+/** in / not_in / is_empty / is_not_empty against a nullable integer column */
+function idListCondition(
+  column: typeof workItems.assignedTo | typeof workItems.teamId | typeof workItems.checkInCycleId,
+  rule: WorkItemQueryRule,
+  context: QueryContext
+): SQL | undefined {
+  switch (rule.operator) {
+    case 'is_empty': return isNull(column);
+    case 'is_not_empty': return isNotNull(column);
+    case 'in': {
+      const ids = idValues(rule, context);
+      return ids.length > 0 ? inArray(column, ids) : sql`false`;
+    }
+    case 'not_in': {
+      const ids = idValues(rule, context);
+      return ids.length > 0 ? or(isNull(column), not(inArray(column, ids))) : undefined;
+    }
+  }
+  return undefined;
+}
+
+function ruleCondition(rule: WorkItemQueryRule, context: QueryContext): SQL | undefined {
+  switch (rule.field) {
+    case 'status': {
+      const statuses = listValues(rule) as Array<typeof workItems.status.enumValues[number]>;
+      if (statuses.length === 0) return undefined;
+      return rule.operator === 'not_in' ? not(inArray(workItems.status, statuses)) : inArray(workItems.status, statuses);
+    }
+
+    case 'workItemType': {
+      // Legacy items only carry the template id, so match either column as the list filter does
+      const typeOf = sql`COALESCE(${workItems.workItemType}, ${workItems.workflowTemplateId})`;
+      if (rule.operator === 'is_empty') return sql`${typeOf} IS NULL`;
+      if (rule.operator === 'is_not_empty') return sql`${typeOf} IS NOT NULL`;
+      const types = listValues(rule);
+      if (types.length === 0) return undefined;
+      const matches = sql`${typeOf} IN (${sql.join(types.map(type => sql`${type}`), sql`, `)})`;
+      return rule.operator === 'not_in' ? sql`(${typeOf} IS NULL OR NOT ${matches})` : matches;
+    }
+
+    case 'assignee':
+      return idListCondition(workItems.assignedTo, rule, context);
+
+    case 'team':
+      return idListCondition(workItems.teamId, rule, context);
+
+    case 'checkInCycle':
+      return idListCondition(workItems.checkInCycleId, rule, context);
+
+    case 'keyResult': {
+      const linked = sql`(SELECT ${keyResultTasks.keyResultId} FROM ${keyResultTasks} WHERE ${keyResultTasks.id} = ${workItems.keyResultTaskId})`;
+      if (rule.operator === 'is_empty') return isNull(workItems.keyResultTaskId);
+      if (rule.operator === 'is_not_empty') return isNotNull(workItems.keyResultTaskId);
+      const ids = idValues(rule, context);
+      if (ids.length === 0) return undefined;
+      const matches = sql`${linked} IN (${sql.join(ids.map(id => sql`${id}`), sql`, `)})`;
+      return rule.operator === 'not_in' ? sql`(${workItems.keyResultTaskId} IS NULL OR NOT ${matches})` : matches;
+    }
+
+    case 'dueDate': {
+      // Anything but YYYY-MM-DD would make Postgres reject the whole query, so such a rule is skipped
+      const value = isIsoDate(rule.value) ? rule.value : null;
+      switch (rule.operator) {
+        case 'is_empty': return isNull(workItems.dueDate);
+        case 'is_not_empty': return isNotNull(workItems.dueDate);
+        case 'before': return value ? sql`${workItems.dueDate} < ${value}` : undefined;
+        case 'after': return value ? sql`${workItems.dueDate} > ${value}` : undefined;
+        case 'on': return value ? eq(workItems.dueDate, value) : undefined;
+        case 'overdue':
+          return and(
+            sql`${workItems.dueDate} < ${context.today}`,
+            not(inArray(workItems.status, ['Completed', 'Archived']))
+          );
+        case 'within_days': {
+          const days = Math.max(0, parseInt(String(rule.value)) || 0);
+          return sql`${workItems.dueDate} BETWEEN ${context.today}::date AND ${context.today}::date + ${days}::int`;
+        }
+      }
+      return undefined;
+    }
+
+    case 'workflowProgress': {
+      const percent = parseFloat(String(rule.value));
+      switch (rule.operator) {
+        case 'is_empty': return sql`${progressSql} IS NULL`;
+        case 'is_not_empty': return sql`${progressSql} IS NOT NULL`;
+        case 'gte': return isNaN(percent) ? undefined : sql`${progressSql} >= ${percent}`;
+        case 'lte': return isNaN(percent) ? undefined : sql`${progressSql} <= ${percent}`;
+      }
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+/** SQL for a query tree; undefined when the tree has no usable conditions */
+export function buildWorkItemQueryCondition(group: WorkItemQueryGroup, context: QueryContext): SQL | undefined {
+  const conditions = group.rules
+    .map(rule => (isQueryGroup(rule) ? buildWorkItemQueryCondition(rule, context) : ruleCondition(rule, context)))
+    .filter((condition): condition is SQL => !!condition);
+  if (conditions.length === 0) return undefined;
+  return group.combinator === 'or' ? or(...conditions) : and(...conditions);
+}
+
+/**
+ * ORDER BY for a list sort column. Empty values go last in either direction and
+ * the id breaks ties so pages are stable.
+ */
+export function buildWorkItemOrderBy(sortBy: string | undefined, direction: string | undefined): SQL[] {
+  const dir = direction === 'desc' ? desc : asc;
+  const nullsLast = (expression: SQL | typeof workItems.dueDate) =>
+    direction === 'desc' ? sql`${expression} DESC NULLS LAST` : sql`${expression} ASC NULLS LAST`;
+
+  if (sortBy?.startsWith(CUSTOM_FIELD_SORT_PREFIX)) {
+    const fieldName = sortBy.slice(CUSTOM_FIELD_SORT_PREFIX.length);
+    if (/^[a-z][a-z0-9_]*$/.test(fieldName)) {
+      // Numbers compare numerically, everything else (text, dates, select values) as text
+      const value = sql`${workItems.customFields}->${fieldName}`;
+      return [
+        nullsLast(sql`CASE WHEN jsonb_typeof(${value}) = 'number' THEN (${value})::text::numeric END`),
+        nullsLast(sql`${workItems.customFields}->>${fieldName}`),
+        asc(workItems.id),
+      ];
+    }
+  }
+
+  const column = (WORK_ITEM_SORT_COLUMNS as readonly string[]).includes(sortBy || '') ? sortBy as WorkItemSortColumn : 'updated';
+  switch (column) {
+    case 'title': return [dir(workItems.title), asc(workItems.id)];
+    case 'status': return [dir(workItems.status), asc(workItems.id)];
+    case 'dueDate': return [nullsLast(workItems.dueDate), asc(workItems.id)];
+    case 'assignee': return [nullsLast(sql`(SELECT ${users.fullName} FROM ${users} WHERE ${users.id} = ${workItems.assignedTo})`), asc(workItems.id)];
+    case 'team': return [nullsLast(sql`(SELECT ${teams.name} FROM ${teams} WHERE ${teams.id} = ${workItems.teamId})`), asc(workItems.id)];
+    case 'checkin': return [nullsLast(sql`(SELECT ${checkInMeetings.scheduledDate} FROM ${checkInMeetings} WHERE ${checkInMeetings.id} = ${workItems.targetMeetingId})`), asc(workItems.id)];
+    case 'created': return [dir(workItems.createdAt), asc(workItems.id)];
+    default: return [dir(workItems.updatedAt), asc(workItems.id)];
+  }
+}
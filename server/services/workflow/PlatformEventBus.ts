@@ -0,0 +1,153 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { db } from '../../db';
+import { eq, and } from 'drizzle-orm';
+import { integrations, platformEvents } from '@shared/schema';
+import { storage } from '../../storage';
+import { triggerDiscovery } from '../integrations/TriggerDiscoveryService';
+import { PLATFORM_EVENTS_INTEGRATION_TYPE, type PlatformEventPayloads, type PlatformEventType } from './platformEvents';
+
+/** Events emitted by workflows that were themselves started by an event stop after this many hops */
+export const MAX_EVENT_CHAIN_DEPTH = 3;
+
+interface EventFilter {
+  field: string;
+  operator: string;
+  value?: any;
+}
+
+interface EmitOptions {
+  entityId?: number;
+  actorUserId?: number | null;
+}
+
+// Tracks how deep in an event -> workflow -> event chain the current async call is
+const eventChain = new AsyncLocalStorage<{ depth: number }>();
+
+/**
+ * Internal event bus. Every emitted event is appended to platform_events and then
+ * dispatched to enabled agent workflows bound to its type (triggerType
+ * 'platform_event') whose filter conditions match the payload.
+ */
+export class PlatformEventBus {
+  private cataloguedOrganizations = new Set<number>();
+
+  /**
+   * Emit an event. Never throws: recording and dispatch happen in the background
+   * so the request that caused the event is not slowed down or failed by it.
+   */
+  emit<K extends PlatformEventType>(
+    organizationId: number,
+    eventType: K,
+    payload: PlatformEventPayloads[K],
+    options: EmitOptions = {}
+  ): void {
+    this.recordAndDispatch(organizationId, eventType, payload, options).catch(error => {
+      console.error(`[PlatformEventBus] Failed to handle ${eventType} for organization ${organizationId}:`, error);
+    });
+  }
+
+  private async recordAndDispatch(
+    organizationId: number,
+    eventType: PlatformEventType,
+    payload: Record<string, any>,
+    options: EmitOptions
+  ): Promise<void> {
+    const chainDepth = eventChain.getStore()?.depth ?? 0;
+    if (chainDepth >= MAX_EVENT_CHAIN_DEPTH) {
+      console.warn(`[PlatformEventBus] Dropping ${eventType}: event chain is ${chainDepth} workflows deep`);
+      return;
+    }
+
+    const [event] = await db
+      .insert(platformEvents)
+      .values({
+        organizationId,
+        eventType,
+        entityType: eventType.split('.')[0],
+        entityId: options.entityId ?? null,
+        payload,
+        actorUserId: options.actorUserId ?? null,
+        chainDepth,
+      })
+      .returning();
+
+    const { WorkflowExecutor } = await import('./WorkflowExecutor');
+    const executor = new WorkflowExecutor();
+
+    const workflows = (await storage.getAgentWorkflows(organizationId)).filter((workflow: any) => {
+      if (!workflow.isEnabled || workflow.triggerType !== 'platform_event') return false;
+      if (workflow.triggerConfig?.eventType !== eventType) return false;
+      const filters: EventFilter[] = workflow.triggerConfig?.filters || [];
+      return filters.every(filter => !filter.field || executor.evaluateConditionOperator(payload[filter.field], filter.operator, filter.value));
+    });
+
+    if (workflows.length === 0) {
+      return;
+    }
+
+    console.log(`[PlatformEventBus] ${eventType} (event ${event.id}) triggers ${workflows.length} workflow(s)`);
+
+    const trigger = { ...payload, eventId: event.id, eventType, occurredAt: event.createdAt };
+
+    // Run bound workflows side by side, one level deeper in the event chain
+    const results = await Promise.allSettled(workflows.map(workflow =>
+      eventChain.run({ depth: chainDepth + 1 }, () => executor.executeWorkflow(
+        {
+          ...workflow,
+          configuration: {
+            steps: (workflow.workflowDefinition as any[]) || []
+          }
+        },
+        {
+          triggerSource: 'platform_event',
+          organizationId: organizationId.toString(),
+          userId: options.actorUserId ?? undefined,
+          trigger,
+        }
+      ))
+    ));
+
+    const runIds = results
+      .map(result => (result.status === 'fulfilled' ? result.value : result.reason?.runId))
+      .filter((runId): runId is number => typeof runId === 'number');
+
+    await db
+      .update(platformEvents)
+      .set({ triggeredRunIds: runIds })
+      .where(eq(platformEvents.id, event.id));
+  }
+
+  /**
+   * Make sure the organization has the built-in Platform Events integration with
+   * one trigger per event type, so events show up in the trigger catalogue.
+   */
+  async ensureCatalogue(organizationId: number): Promise<void> {
+    if (this.cataloguedOrganizations.has(organizationId)) {
+      return;
+    }
+
+    let [integration] = await db
+      .select()
+      .from(integrations)
+      .where(and(
+        eq(integrations.organizationId, organizationId),
+        eq(integrations.platformType, PLATFORM_EVENTS_INTEGRATION_TYPE)
+      ))
+      .limit(1);
+
+    if (!integration) {
+      integration = await storage.createIntegration({
+        organizationId,
+        platformType: PLATFORM_EVENTS_INTEGRATION_TYPE,
+        name: 'Platform Events',
+        connectionStatus: 'connected',
+        isEnabled: true,
+      });
+    }
+
+    await triggerDiscovery.discoverAndPopulateTriggers(integration.id, PLATFORM_EVENTS_INTEGRATION_TYPE);
+    this.cataloguedOrganizations.add(organizationId);
+  }
+}
+
+export const platformEventBus = new PlatformEventBus();
@@ -1,82 +1,135 @@
-import { CronJob } from 'cron';
 import { db } from '../../db';
-import { eq, and, lte, or, sql } from 'drizzle-orm';
-import { agentWorkflowSchedules, agentWorkflows, agentWorkflowRuns } from '@shared/schema';
+import { eq, and, lte, or, isNull } from 'drizzle-orm';
+import { agentWorkflowSchedules, agentWorkflows, organizations, type AgentWorkflowSchedule } from '@shared/schema';
 import { WorkflowExecutor } from './WorkflowExecutor';
-
+import {
+  SCHEDULER_POLL_INTERVAL_MS,
+  getNextOccurrence,
+  planDueOccurrences,
+  recordSkippedOccurrences,
+  runOccurrence,
+  type CatchUpPolicy,
+  type PlannedOccurrence,
+} from '../distributedScheduler';
+
+/**
+ * Runs agent workflow schedules. All schedule state lives in agent_workflow_schedules,
+ * so any number of server instances can run a ScheduleManager: each due occurrence is
+ * taken by exactly one instance (see distributedScheduler).
+ */
 export class ScheduleManager {
-  private jobs: Map<number, CronJob> = new Map();
   private executor: WorkflowExecutor;
   private pollingInterval: NodeJS.Timeout | null = null;
+  private polling = false;
 
   constructor() {
     this.executor = new WorkflowExecutor();
   }
 
-  async initialize(organizationId: string) {
-    console.log(`[ScheduleManager] Initializing for organization ${organizationId}...`);
-    
-    // Load all active schedules for the organization
-    const schedules = await db
-      .select()
-      .from(agentWorkflowSchedules)
-      .where(
-        and(
-          eq(agentWorkflowSchedules.organizationId, organizationId),
-          eq(agentWorkflowSchedules.isActive, true)
-        )
-      );
-
-    for (const schedule of schedules) {
-      await this.registerSchedule(schedule);
-    }
-
-    // Start polling for missed schedules every minute
+  async initialize() {
+    console.log('[ScheduleManager] Initializing...');
+    await this.poll();
     this.startPolling();
-    
-    console.log(`[ScheduleManager] Initialized ${schedules.length} schedules`);
+    console.log(`[ScheduleManager] Polling for due schedules every ${SCHEDULER_POLL_INTERVAL_MS / 1000}s`);
   }
 
-  async registerSchedule(schedule: any) {
-    // Stop existing job if any
-    if (this.jobs.has(schedule.id)) {
-      this.stopSchedule(schedule.id);
-    }
+  private startPolling() {
+    this.pollingInterval = setInterval(() => {
+      this.poll().catch(error => {
+        console.error('[ScheduleManager] Poll failed:', error);
+      });
+    }, SCHEDULER_POLL_INTERVAL_MS);
+  }
+
+  private async poll() {
+    // A slow poll must not overlap the next one on this instance
+    if (this.polling) return;
+    this.polling = true;
 
     try {
-      const job = new CronJob(
-        schedule.cronExpression,
-        async () => {
-          await this.executeScheduledWorkflow(schedule);
-        },
-        null,
-        true,
-        schedule.timezone || 'UTC'
-      );
-
-      this.jobs.set(schedule.id, job);
-      console.log(`[ScheduleManager] Registered schedule ${schedule.id} with cron: ${schedule.cronExpression}`);
-      
-      // Update next run time
-      const nextDate = job.nextDate();
-      if (nextDate) {
-        await db
-          .update(agentWorkflowSchedules)
-          .set({ 
-            nextRunAt: nextDate.toJSDate(),
-            updatedAt: new Date()
-          })
-          .where(eq(agentWorkflowSchedules.id, schedule.id));
+      const now = new Date();
+      const dueSchedules = await db
+        .select({ schedule: agentWorkflowSchedules })
+        .from(agentWorkflowSchedules)
+        .innerJoin(organizations, eq(agentWorkflowSchedules.organizationId, organizations.id))
+        .where(
+          and(
+            eq(agentWorkflowSchedules.isActive, true),
+            eq(organizations.isActive, true),
+            or(
+              isNull(agentWorkflowSchedules.nextRunAt),
+              lte(agentWorkflowSchedules.nextRunAt, now)
+            )
+          )
+        );
+
+      for (const { schedule } of dueSchedules) {
+        try {
+          await this.processSchedule(schedule, now);
+        } catch (error) {
+          console.error(`[ScheduleManager] Failed to process schedule ${schedule.id}:`, error);
+        }
       }
-    } catch (error) {
-      console.error(`[ScheduleManager] Failed to register schedule ${schedule.id}:`, error);
+    } finally {
+      this.polling = false;
     }
   }
 
-  async executeScheduledWorkflow(schedule: any) {
-    console.log(`[ScheduleManager] Executing scheduled workflow ${schedule.workflowId}`);
+  private async processSchedule(schedule: AgentWorkflowSchedule, now: Date) {
+    // New or edited schedule: work out its first occurrence
+    if (!schedule.nextRunAt) {
+      const nextRunAt = getNextOccurrence(schedule.cronExpression, schedule.timezone, now);
+      await db
+        .update(agentWorkflowSchedules)
+        .set({ nextRunAt, updatedAt: new Date() })
+        .where(and(eq(agentWorkflowSchedules.id, schedule.id), isNull(agentWorkflowSchedules.nextRunAt)));
+      console.log(`[ScheduleManager] Schedule ${schedule.id} (${schedule.cronExpression}) next runs at ${nextRunAt.toISOString()}`);
+      return;
+    }
+
+    const policy = schedule.catchUpPolicy as CatchUpPolicy;
+    const plan = planDueOccurrences(schedule.cronExpression, schedule.timezone, schedule.nextRunAt, now, policy);
+
+    // Advance nextRunAt only if no other instance has done so already; the winner runs the occurrences
+    const [taken] = await db
+      .update(agentWorkflowSchedules)
+      .set({ nextRunAt: plan.nextRunAt, updatedAt: new Date() })
+      .where(and(eq(agentWorkflowSchedules.id, schedule.id), eq(agentWorkflowSchedules.nextRunAt, schedule.nextRunAt)))
+      .returning({ id: agentWorkflowSchedules.id });
+
+    if (!taken) {
+      return;
+    }
+
+    if (plan.skipped) {
+      console.log(`[ScheduleManager] Schedule ${schedule.id}: skipping ${plan.skipped.count} missed run(s) (catch-up policy: ${policy})`);
+      await recordSkippedOccurrences(this.claimFor(schedule), plan.skipped, policy);
+    }
+
+    // Run in the background so one long workflow does not hold up other schedules
+    (async () => {
+      for (const occurrence of plan.runs) {
+        await this.executeScheduledWorkflow(schedule, occurrence);
+      }
+    })().catch(error => {
+      console.error(`[ScheduleManager] Schedule ${schedule.id} failed:`, error);
+    });
+  }
+
+  private claimFor(schedule: AgentWorkflowSchedule) {
+    return {
+      organizationId: schedule.organizationId,
+      jobType: 'agent_workflow' as const,
+      jobKey: `agent_schedule:${schedule.id}`,
+      scheduleId: schedule.id,
+      workflowId: schedule.workflowId,
+    };
+  }
+
+  async executeScheduledWorkflow(schedule: AgentWorkflowSchedule, occurrence: PlannedOccurrence) {
+    await runOccurrence({ ...this.claimFor(schedule), ...occurrence }, async () => {
+      console.log(`[ScheduleManager] Executing scheduled workflow ${schedule.workflowId} for ${occurrence.scheduledFor.toISOString()}${occurrence.isCatchUp ? ' (catch-up)' : ''}`);
 
-    try {
       // Get the workflow
       const workflow = await db
         .select()
@@ -86,7 +139,7 @@ export class ScheduleManager {
 
       if (!workflow[0] || !workflow[0].isEnabled) {
         console.log(`[ScheduleManager] Workflow ${schedule.workflowId} is not enabled, skipping`);
-        return;
+        return { details: { skippedReason: 'workflow_disabled' } };
       }
 
       // Map workflowDefinition to configuration.steps format expected by WorkflowExecutor
@@ -97,104 +150,35 @@ export class ScheduleManager {
         }
       };
 
-      // Execute the workflow
       const runId = await this.executor.executeWorkflow(workflowWithConfig, {
         triggerSource: 'schedule',
         scheduleId: schedule.id,
-        organizationId: schedule.organizationId
+        organizationId: String(schedule.organizationId),
+        trigger: {
+          scheduledFor: occurrence.scheduledFor.toISOString(),
+          isCatchUp: occurrence.isCatchUp,
+        },
       });
 
-      // Update last run time and calculate next run
-      const job = this.jobs.get(schedule.id);
-      const nextDate = job?.nextDate();
-      
       await db
         .update(agentWorkflowSchedules)
-        .set({
-          lastRunAt: new Date(),
-          nextRunAt: nextDate ? nextDate.toJSDate() : null,
-          updatedAt: new Date()
-        })
+        .set({ lastRunAt: new Date(), updatedAt: new Date() })
         .where(eq(agentWorkflowSchedules.id, schedule.id));
 
       console.log(`[ScheduleManager] Successfully executed scheduled workflow, run ID: ${runId}`);
-    } catch (error) {
-      console.error(`[ScheduleManager] Failed to execute scheduled workflow:`, error);
-    }
+      return { workflowRunId: runId };
+    });
   }
 
-  stopSchedule(scheduleId: number) {
-    const job = this.jobs.get(scheduleId);
-    if (job) {
-      job.stop();
-      this.jobs.delete(scheduleId);
-      console.log(`[ScheduleManager] Stopped schedule ${scheduleId}`);
-    }
-  }
-
-  async updateSchedule(scheduleId: number, updates: Partial<any>) {
-    // Update database
+  async updateSchedule(scheduleId: number, updates: Partial<AgentWorkflowSchedule>) {
+    // Clearing nextRunAt makes the next poll on any instance recompute it from the new settings
     await db
       .update(agentWorkflowSchedules)
-      .set({ ...updates, updatedAt: new Date() })
+      .set({ ...updates, nextRunAt: null, updatedAt: new Date() })
       .where(eq(agentWorkflowSchedules.id, scheduleId));
-
-    // If schedule is active, re-register it
-    if (updates.isActive !== false) {
-      const schedule = await db
-        .select()
-        .from(agentWorkflowSchedules)
-        .where(eq(agentWorkflowSchedules.id, scheduleId))
-        .limit(1);
-      
-      if (schedule[0]) {
-        await this.registerSchedule(schedule[0]);
-      }
-    } else {
-      // If deactivated, stop it
-      this.stopSchedule(scheduleId);
-    }
-  }
-
-  private startPolling() {
-    // Poll every minute for missed schedules
-    this.pollingInterval = setInterval(async () => {
-      await this.checkMissedSchedules();
-    }, 60000); // 1 minute
-  }
-
-  private async checkMissedSchedules() {
-    const now = new Date();
-    
-    // Find schedules that should have run but didn't
-    const missedSchedules = await db
-      .select()
-      .from(agentWorkflowSchedules)
-      .where(
-        and(
-          eq(agentWorkflowSchedules.isActive, true),
-          lte(agentWorkflowSchedules.nextRunAt, now),
-          or(
-            eq(agentWorkflowSchedules.lastRunAt, null),
-            sql`${agentWorkflowSchedules.lastRunAt} <= ${agentWorkflowSchedules.nextRunAt}`
-          )
-        )
-      );
-
-    for (const schedule of missedSchedules) {
-      console.log(`[ScheduleManager] Found missed schedule ${schedule.id}, executing now`);
-      await this.executeScheduledWorkflow(schedule);
-    }
   }
 
   shutdown() {
-    // Stop all jobs
-    for (const [id, job] of Array.from(this.jobs)) {
-      job.stop();
-    }
-    this.jobs.clear();
-
-    // Stop polling
     if (this.pollingInterval) {
       clearInterval(this.pollingInterval);
       this.pollingInterval = null;
@@ -203,15 +187,16 @@ export class ScheduleManager {
     console.log('[ScheduleManager] Shutdown complete');
   }
 
-  getActiveSchedules(): Array<{ id: number; cronExpression: string; nextRun: Date | null }> {
-    const schedules = [];
-    for (const [id, job] of Array.from(this.jobs)) {
-      schedules.push({
-        id,
-        cronExpression: job.cronTime.toString(),
-        nextRun: job.nextDate()?.toJSDate() || null
-      });
-    }
-    return schedules;
+  async getActiveSchedules(organizationId: number): Promise<Array<{ id: number; cronExpression: string; nextRun: Date | null }>> {
+    const schedules = await db
+      .select()
+      .from(agentWorkflowSchedules)
+      .where(and(eq(agentWorkflowSchedules.organizationId, organizationId), eq(agentWorkflowSchedules.isActive, true)));
+
+    return schedules.map(schedule => ({
+      id: schedule.id,
+      cronExpression: schedule.cronExpression,
+      nextRun: schedule.nextRunAt,
+    }));
   }
-}
\ No newline at end of file
+}
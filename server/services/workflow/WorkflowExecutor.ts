@@ -1,20 +1,67 @@
 import { db } from '../../db';
 import { eq, and, or, sql, count, sum, avg, min, max, ilike, isNull, isNotNull, gt, lt, gte, lte, inArray, notInArray, ne } from 'drizzle-orm';
-import { agentWorkflows, agentWorkflowRuns, integrations, keyResults, objectives, activityLogs, users, addressRecords, workItems, fieldTasks, ragStatusRecords, tariffRecords, aiAgentConfigurations, knowledgeDocuments, ticketDraftResponses } from '@shared/schema';
+import { agentWorkflows, agentWorkflowRuns, agentWorkflowApprovals, integrations, keyResults, objectives, activityLogs, users, addressRecords, workItems, fieldTasks, ragStatusRecords, tariffRecords, aiAgentConfigurations, knowledgeDocuments, ticketDraftResponses, type KeyResult, type WorkItem } from '@shared/schema';
 import { ActionHandlers } from './ActionHandlers';
 import { storage } from '../../storage';
 import { SplynxService } from '../integrations/splynxService';
+import { workflowVersions } from './WorkflowVersionService';
+import { integrationGuard, isRetryableError, getRetryAfterMs, withTimeout } from '../integrations/IntegrationGuard';
 import { contextEnrichmentService, type ContextSource } from '../ai/ContextEnrichmentService';
 import { WorkItemWorkflowService } from '../WorkItemWorkflowService';
+import { SCHEDULER_INSTANCE_ID } from '../distributedScheduler';
+import { platformEventBus } from './PlatformEventBus';
+import { keyResultUpdatedPayload, workItemStatusChangedPayload } from './platformEvents';
 import crypto from 'crypto';
 
 // Table registry for data source queries
 // Maps table names to their Drizzle schema objects
 import { TABLE_REGISTRY } from './tableRegistry.js';
+import { MAX_WORKFLOW_NESTING_DEPTH } from './workflowGraph';
+import { evaluateExpression, evaluateTemplateExpressions, containsExpression } from '@shared/workflowExpressions';
+import { isWriteStep, FIXTURE_READ_STEP_TYPES, findFixture, diffExecutionTraces, type SimulationOptions, type TraceDiffEntry } from './simulation';
 
 // Use the same encryption key from environment (set in Replit Secrets)
 const ENCRYPTION_KEY = process.env.ENCRYPTION_KEY;
 
+// A running run's owner renews its heartbeat this often; runs not renewed within the lease were cut off
+const RUN_HEARTBEAT_INTERVAL_MS = 30000;
+const RUN_LEASE_MS = 3 * RUN_HEARTBEAT_INTERVAL_MS;
+
+// Runs executing on this instance, whose heartbeats are renewed together
+const activeRunIds = new Set<number>();
+let heartbeatTimer: NodeJS.Timeout | null = null;
+
+function startRunHeartbeat(runId: number): void {
+  activeRunIds.add(runId);
+  if (heartbeatTimer) return;
+  heartbeatTimer = setInterval(() => {
+    db.update(agentWorkflowRuns)
+      .set({ heartbeatAt: new Date() })
+      .where(and(
+        inArray(agentWorkflowRuns.id, Array.from(activeRunIds)),
+        eq(agentWorkflowRuns.ownerInstanceId, SCHEDULER_INSTANCE_ID)
+      ))
+      .catch(error => console.error('[WorkflowExecutor] Failed to renew run heartbeats:', error));
+  }, RUN_HEARTBEAT_INTERVAL_MS);
+  heartbeatTimer.unref();
+}
+
+function stopRunHeartbeat(runId: number): void {
+  activeRunIds.delete(runId);
+  if (activeRunIds.size === 0 && heartbeatTimer) {
+    clearInterval(heartbeatTimer);
+    heartbeatTimer = null;
+  }
+}
+
+/** The run was resumed or started running between checking and claiming it */
+export class RunConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RunConflictError';
+  }
+}
+
 interface ExecutionContext {
   triggerSource?: string;
   scheduleId?: number;
@@ -23,6 +70,9 @@ interface ExecutionContext {
   webhookData?: any;
   manualData?: any;
   trigger?: any;  // Flattened webhook payload for easy variable access
+  callStack?: number[];  // Ids of calling workflows when invoked by a call_workflow step
+  parentRunId?: number;
+  simulation?: SimulationOptions;  // Present for dry runs: writes are recorded, reads may use fixtures
 }
 
 interface StepExecutionResult {
@@ -30,10 +80,22 @@ interface StepExecutionResult {
   output?: any;
   error?: string;
   stack?: string;
+  retryable?: boolean;  // Failure was transient (upstream timeout, 429, 5xx) so a retry may succeed
+  retryAfterMs?: number;  // Delay the upstream asked for before retrying
+}
+
+interface ParallelBranchRun {
+  name: string;
+  status: 'running' | 'completed' | 'failed';
+  promise: Promise<void>;
+  output?: any;
+  error?: string;
 }
 
 export class WorkflowExecutor {
   private actionHandlers: ActionHandlers;
+  // Branches started by parallel steps, awaited by join steps (keyed by run, step and loop index)
+  private pendingParallels: Map<string, ParallelBranchRun[]> = new Map();
   
   constructor() {
     this.actionHandlers = new ActionHandlers();
@@ -63,6 +125,13 @@ export class WorkflowExecutor {
         resultData: {},
         startedAt: startTime,
         contextData: context,
+        initialContext: context,
+        parentRunId: context.parentRunId,
+        isSimulation: !!context.simulation,
+        // Simulations may run an unsaved definition, so they are not pinned to a version
+        workflowVersion: context.simulation ? null : workflow.currentVersion ?? null,
+        ownerInstanceId: SCHEDULER_INSTANCE_ID,
+        heartbeatAt: startTime,
         totalSteps: workflow.configuration?.steps?.length || 0,
         stepsCompleted: 0,
         retryCount: 0,
@@ -72,17 +141,6 @@ export class WorkflowExecutor {
     console.log(`[WorkflowExecutor] ✅ Workflow run created: ID ${run.id}`);
 
     try {
-      // Parse workflow configuration
-      const config = typeof workflow.configuration === 'string' 
-        ? JSON.parse(workflow.configuration) 
-        : workflow.configuration;
-      
-      if (!config?.steps || !Array.isArray(config.steps)) {
-        throw new Error('Invalid workflow configuration: missing steps');
-      }
-
-      console.log(`[WorkflowExecutor] 📋 Configuration parsed. Total steps: ${config.steps.length}`);
-      
       // Fetch the assigned agent user for activity logging
       let agentUser = null;
       if (workflow.assignedUserId) {
@@ -95,9 +153,8 @@ export class WorkflowExecutor {
         console.log(`[WorkflowExecutor] 👤 Assigned agent user: ${agentUser?.fullName || agentUser?.username || 'Unknown'}`);
       }
       
-      // Execute each step in sequence
       // Add workflow info to context for activity logging
-      let stepContext = { 
+      const stepContext = { 
         ...context, 
         workflowId: workflow.id, 
         workflowName: workflow.name,
@@ -106,170 +163,606 @@ export class WorkflowExecutor {
         assignedUserName: agentUser?.fullName || agentUser?.username || 'Unknown Agent',
         lastSuccessfulRunAt: workflow.lastSuccessfulRunAt // For incremental data fetching
       };
-      const executionLog: any[] = [];
-      
-      for (let i = 0; i < config.steps.length; i++) {
-        const step = config.steps[i];
-        const stepStartTime = Date.now();
-        
-        console.log(`\n[WorkflowExecutor] ═══ STEP ${i + 1}/${config.steps.length} ═══`);
-        console.log(`[WorkflowExecutor]   Name: ${step.name || 'Unnamed'}`);
-        console.log(`[WorkflowExecutor]   Type: ${step.type}`);
-        console.log(`[WorkflowExecutor]   Config:`, JSON.stringify(step.config || {}, null, 2));
-        
-        // Execute the step with retry logic
-        const result = await this.executeStepWithRetry(
-          step,
-          stepContext,
-          workflow.retryConfig || { maxRetries: 3, retryDelay: 60 }
-        );
-        
-        const stepEndTime = Date.now();
-        const stepDuration = stepEndTime - stepStartTime;
-        
-        console.log(`[WorkflowExecutor]   ⏱️ Duration: ${stepDuration}ms`);
-        console.log(`[WorkflowExecutor]   ${result.success ? '✅ SUCCESS' : '❌ FAILED'}`);
-        if (result.output) {
-          console.log(`[WorkflowExecutor]   📤 Output:`, JSON.stringify(result.output, null, 2));
-        }
-        if (result.error) {
-          console.log(`[WorkflowExecutor]   ⚠️ Error: ${result.error}`);
+      
+      // Persist the starting context so checkpoints can be replayed on top of it
+      await db
+        .update(agentWorkflowRuns)
+        .set({ initialContext: stepContext, contextData: stepContext })
+        .where(eq(agentWorkflowRuns.id, run.id));
+      
+      return await this.runSteps(workflow, run.id, 0, stepContext, [], startTime.getTime(), 0);
+    } catch (error: any) {
+      await this.markRunFailed(workflow, run.id, error, Date.now() - startTime.getTime());
+      error.runId = run.id;
+      throw error;
+    }
+  }
+
+  /**
+   * Resume a failed or interrupted run from the step after its last checkpoint,
+   * or re-run it from a specific step (1-based) when fromStep is given.
+   * The context is rebuilt by replaying the checkpoints of the steps before that point.
+   */
+  async resumeWorkflowRun(runId: number, fromStep?: number): Promise<number> {
+    const { completion } = await this.startResume(runId, fromStep);
+    return completion;
+  }
+
+  /**
+   * Claim a run for resuming and start it. Resolves once the run is claimed, with the
+   * step it resumes from and the rest of the run as `completion`. Throws
+   * RunConflictError when another request resumed the run first.
+   */
+  async startResume(runId: number, fromStep?: number): Promise<{ startIndex: number; completion: Promise<number> }> {
+    const [run] = await db
+      .select()
+      .from(agentWorkflowRuns)
+      .where(eq(agentWorkflowRuns.id, runId))
+      .limit(1);
+    
+    if (!run) {
+      throw new Error(`Workflow run ${runId} not found`);
+    }
+    
+    // Resume with the steps of the version the run started on, not the latest edit
+    const workflow = await workflowVersions.getAgentWorkflowForRun(run);
+    
+    if (!workflow) {
+      throw new Error(`Workflow ${run.workflowId} not found`);
+    }
+    
+    // Map workflowDefinition to configuration.steps format used by executeWorkflow
+    const workflowWithConfig = {
+      ...workflow,
+      configuration: {
+        steps: (workflow.workflowDefinition as any[]) || []
+      }
+    };
+    
+    const startIndex = this.getResumeStartIndex(run, workflowWithConfig.configuration.steps.length, fromStep);
+    const executionLog = ((run.executionLog as any[]) || []).filter((entry: any) => entry.step <= startIndex);
+    const stepContext = this.rebuildContextFromCheckpoints(run.initialContext, executionLog);
+    
+    console.log(`[WorkflowExecutor] ⏯️ Resuming run ${run.id} of workflow ${workflow.id} at step ${startIndex + 1} (resume #${(run.resumeCount || 0) + 1})`);
+    
+    const resumedAt = Date.now();
+    const previousDuration = run.executionDuration || 0;
+    
+    // Only moves the run on from the status checked above, so concurrent resumes cannot both start it
+    const [claimed] = await db
+      .update(agentWorkflowRuns)
+      .set({
+        status: 'running',
+        completedAt: null,
+        errorMessage: null,
+        stepsCompleted: startIndex,
+        totalSteps: workflowWithConfig.configuration.steps.length,
+        executionLog,
+        contextData: stepContext,
+        resumeCount: (run.resumeCount || 0) + 1,
+        ownerInstanceId: SCHEDULER_INSTANCE_ID,
+        heartbeatAt: new Date(),
+      })
+      .where(and(eq(agentWorkflowRuns.id, run.id), eq(agentWorkflowRuns.status, run.status)))
+      .returning({ id: agentWorkflowRuns.id });
+    
+    if (!claimed) {
+      throw new RunConflictError(`Workflow run ${run.id} is already being resumed`);
+    }
+    
+    const completion = this.runSteps(workflowWithConfig, run.id, startIndex, stepContext, executionLog, resumedAt, previousDuration)
+      .catch(async (error: any) => {
+        await this.markRunFailed(workflowWithConfig, run.id, error, previousDuration + (Date.now() - resumedAt));
+        throw error;
+      });
+    
+    return { startIndex, completion };
+  }
+
+  /**
+   * Work out the 0-based step index a run would resume from, throwing when the
+   * run cannot be resumed (still running, no checkpoints, or step out of range).
+   */
+  getResumeStartIndex(run: any, totalSteps: number, fromStep?: number): number {
+    if (run.status === 'running') {
+      throw new Error(`Workflow run ${run.id} is still running`);
+    }
+    
+    if (run.status === 'awaiting_approval') {
+      throw new Error(`Workflow run ${run.id} is waiting for an approval decision`);
+    }
+    
+    if (fromStep === undefined && run.status === 'completed') {
+      throw new Error(`Workflow run ${run.id} already completed. Choose a step to retry from.`);
+    }
+    
+    const startIndex = fromStep !== undefined ? fromStep - 1 : (run.stepsCompleted || 0);
+    
+    if (!Number.isInteger(startIndex) || startIndex < 0 || startIndex >= totalSteps) {
+      throw new Error(`Step ${startIndex + 1} is out of range. Workflow has ${totalSteps} steps.`);
+    }
+    
+    const completedSteps = ((run.executionLog as any[]) || []).filter((entry: any) => entry.step <= startIndex);
+    const hasCheckpoints = completedSteps.length === startIndex && completedSteps.every((entry: any) => entry.success && entry.checkpoint);
+    
+    if (!hasCheckpoints) {
+      throw new Error(`Workflow run ${run.id} has no checkpoint for the steps before step ${startIndex + 1}`);
+    }
+    
+    return startIndex;
+  }
+
+  /**
+   * Mark runs left in 'running' state whose heartbeat has lapsed as interrupted: the
+   * instance executing them restarted or stopped. Runs on live instances keep renewing
+   * their heartbeat and are left alone. Runs from before heartbeats count from their start.
+   */
+  static async markInterruptedRuns(): Promise<number> {
+    const leaseExpiredBefore = new Date(Date.now() - RUN_LEASE_MS);
+    const interrupted = await db
+      .update(agentWorkflowRuns)
+      .set({
+        status: 'interrupted',
+        errorMessage: 'Run was interrupted: the server executing it stopped. Resume it from the last completed step.',
+      })
+      .where(and(
+        eq(agentWorkflowRuns.status, 'running'),
+        sql`coalesce(${agentWorkflowRuns.heartbeatAt}, ${agentWorkflowRuns.startedAt}) < ${leaseExpiredBefore}`
+      ))
+      .returning({ id: agentWorkflowRuns.id });
+    
+    return interrupted.length;
+  }
+
+  /** Execute steps from startIndex on, renewing the run's heartbeat until it stops or pauses */
+  private async runSteps(
+    workflow: any,
+    runId: number,
+    startIndex: number,
+    initialStepContext: any,
+    executionLog: any[],
+    segmentStartTime: number,
+    previousDuration: number
+  ): Promise<number> {
+    startRunHeartbeat(runId);
+    try {
+      return await this.executeSteps(workflow, runId, startIndex, initialStepContext, executionLog, segmentStartTime, previousDuration);
+    } finally {
+      stopRunHeartbeat(runId);
+    }
+  }
+
+  private async executeSteps(
+    workflow: any,
+    runId: number,
+    startIndex: number,
+    initialStepContext: any,
+    executionLog: any[],
+    segmentStartTime: number,
+    previousDuration: number
+  ): Promise<number> {
+    // Parse workflow configuration
+    const config = typeof workflow.configuration === 'string' 
+      ? JSON.parse(workflow.configuration) 
+      : workflow.configuration;
+    
+    if (!config?.steps || !Array.isArray(config.steps)) {
+      throw new Error('Invalid workflow configuration: missing steps');
+    }
+
+    console.log(`[WorkflowExecutor] 📋 Configuration parsed. Total steps: ${config.steps.length}`);
+    
+    let stepContext = initialStepContext;
+    
+    // Execute each step in sequence
+    for (let i = startIndex; i < config.steps.length; i++) {
+      const step = config.steps[i];
+      const stepStartTime = Date.now();
+      const contextBeforeStep = { ...stepContext };
+      
+      console.log(`\n[WorkflowExecutor] ═══ STEP ${i + 1}/${config.steps.length} ═══`);
+      console.log(`[WorkflowExecutor]   Name: ${step.name || 'Unnamed'}`);
+      console.log(`[WorkflowExecutor]   Type: ${step.type}`);
+      console.log(`[WorkflowExecutor]   Config:`, JSON.stringify(step.config || {}, null, 2));
+      
+      // Approval steps pause the run until the approver responds (dry runs decide straight away)
+      if (step.type === 'approval' && !stepContext.simulation) {
+        try {
+          await this.requestApproval(workflow, runId, i, step, stepContext);
+        } catch (error: any) {
+          executionLog.push({
+            step: i + 1,
+            type: step.type,
+            name: step.name || step.type,
+            startTime: new Date(stepStartTime),
+            endTime: new Date(),
+            duration: Date.now() - stepStartTime,
+            success: false,
+            error: error.message,
+            stack: error.stack,
+          });
+          await db
+            .update(agentWorkflowRuns)
+            .set({ executionLog })
+            .where(eq(agentWorkflowRuns.id, runId));
+          throw new Error(`Step ${i + 1} failed: ${error.message}`);
         }
         
-        // Log step execution
-        executionLog.push({
-          step: i + 1,
-          type: step.type,
-          name: step.name || step.type,
-          startTime: new Date(stepStartTime),
-          endTime: new Date(stepEndTime),
-          duration: stepDuration,
-          success: result.success,
-          output: result.output,
-          error: result.error,
-          stack: result.stack,
-        });
-        
-        // Update run progress
         await db
           .update(agentWorkflowRuns)
           .set({
-            stepsCompleted: i + 1,
+            status: 'awaiting_approval',
+            stepsCompleted: i,
             executionLog,
             contextData: stepContext,
+            executionDuration: previousDuration + (Date.now() - segmentStartTime),
+            lastCheckpointAt: new Date(),
           })
-          .where(eq(agentWorkflowRuns.id, run.id));
+          .where(eq(agentWorkflowRuns.id, runId));
         
-        if (!result.success) {
-          throw new Error(`Step ${i + 1} failed: ${result.error}`);
-        }
-        
-        // Pass step output to next step context
-        if (result.output) {
-          stepContext = { ...stepContext, [`step${i + 1}Output`]: result.output };
-        }
+        console.log(`[WorkflowExecutor] ⏸️ Run ${runId} paused at step ${i + 1} awaiting approval`);
+        return runId;
       }
       
-      // Calculate total execution duration
-      const executionDuration = Date.now() - startTime.getTime();
-      
-      // Mark workflow as completed
-      await db
-        .update(agentWorkflowRuns)
-        .set({
-          status: 'completed',
-          completedAt: new Date(),
-          executionDuration,
-          executionLog,
-          resultData: stepContext,
-        })
-        .where(eq(agentWorkflowRuns.id, run.id));
-      
-      console.log(`\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
-      console.log(`[WorkflowExecutor] ✅ WORKFLOW COMPLETED SUCCESSFULLY`);
-      console.log(`  Workflow ID: ${workflow.id}`);
-      console.log(`  Run ID: ${run.id}`);
-      console.log(`  Duration: ${executionDuration}ms`);
-      console.log(`  Steps Completed: ${config.steps.length}/${config.steps.length}`);
-      console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`);
+      // Execute the step with retry logic (simulated runs report failures straight away)
+      const result = await this.executeStepWithRetry(
+        step,
+        stepContext,
+        stepContext.simulation
+          ? { maxRetries: 1, retryDelay: 0 }
+          : workflow.retryConfig || { maxRetries: 3, retryDelay: 60 }
+      );
       
-      // Update workflow's lastSuccessfulRunAt for incremental data fetching
-      await db
-        .update(agentWorkflows)
-        .set({ 
-          lastSuccessfulRunAt: new Date(),
-          lastRunAt: new Date(),
-          lastRunStatus: 'completed'
-        })
-        .where(eq(agentWorkflows.id, workflow.id));
+      const stepEndTime = Date.now();
+      const stepDuration = stepEndTime - stepStartTime;
       
-      console.log(`[WorkflowExecutor] 📅 Updated lastSuccessfulRunAt for incremental fetching`);
+      console.log(`[WorkflowExecutor]   ⏱️ Duration: ${stepDuration}ms`);
+      console.log(`[WorkflowExecutor]   ${result.success ? '✅ SUCCESS' : '❌ FAILED'}`);
+      if (result.output) {
+        console.log(`[WorkflowExecutor]   📤 Output:`, JSON.stringify(result.output, null, 2));
+      }
+      if (result.error) {
+        console.log(`[WorkflowExecutor]   ⚠️ Error: ${result.error}`);
+      }
       
-      // Execute post-completion actions if configured
-      await this.handlePostCompletion(workflow, stepContext);
+      // Pass step output to next step context
+      if (result.success && result.output) {
+        stepContext = { ...stepContext, [`step${i + 1}Output`]: result.output };
+      }
       
-      return run.id;
+      // Log step execution, with the context changes it made as its checkpoint
+      executionLog.push({
+        step: i + 1,
+        type: step.type,
+        name: step.name || step.type,
+        startTime: new Date(stepStartTime),
+        endTime: new Date(stepEndTime),
+        duration: stepDuration,
+        success: result.success,
+        output: result.output,
+        error: result.error,
+        stack: result.stack,
+        checkpoint: result.success ? this.getContextChanges(contextBeforeStep, stepContext) : undefined,
+      });
       
-    } catch (error: any) {
-      console.log(`\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
-      console.error(`[WorkflowExecutor] ❌ WORKFLOW FAILED`);
-      console.error(`  Workflow ID: ${workflow.id}`);
-      console.error(`  Run ID: ${run.id}`);
-      console.error(`  Error: ${error.message}`);
-      console.error(`  Stack:`, error.stack);
-      console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`);
-      
-      // Mark workflow as failed
+      // Persist the checkpoint before moving on so the run can be resumed from here
       await db
         .update(agentWorkflowRuns)
         .set({
-          status: 'failed',
-          completedAt: new Date(),
-          executionDuration: Date.now() - startTime.getTime(),
-          errorMessage: error.message,
+          stepsCompleted: result.success ? i + 1 : i,
+          executionLog,
+          contextData: stepContext,
+          lastCheckpointAt: new Date(),
         })
-        .where(eq(agentWorkflowRuns.id, run.id));
+        .where(eq(agentWorkflowRuns.id, runId));
       
-      throw error;
+      if (!result.success) {
+        throw new Error(`Step ${i + 1} failed: ${result.error}`);
+      }
+      
+      // Simulated approvals decide inline, so stopOnReject is applied here
+      if (step.type === 'approval' && step.config?.stopOnReject && result.output?.decision === 'rejected') {
+        break;
+      }
+    }
+    
+    this.clearPendingParallels(runId);
+    
+    // Calculate total execution duration
+    const executionDuration = previousDuration + (Date.now() - segmentStartTime);
+    
+    // Mark workflow as completed
+    await db
+      .update(agentWorkflowRuns)
+      .set({
+        status: 'completed',
+        completedAt: new Date(),
+        executionDuration,
+        executionLog,
+        resultData: stepContext,
+      })
+      .where(eq(agentWorkflowRuns.id, runId));
+    
+    console.log(`\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
+    console.log(`[WorkflowExecutor] ✅ WORKFLOW COMPLETED SUCCESSFULLY`);
+    console.log(`  Workflow ID: ${workflow.id}`);
+    console.log(`  Run ID: ${runId}`);
+    console.log(`  Duration: ${executionDuration}ms`);
+    console.log(`  Steps Completed: ${config.steps.length}/${config.steps.length}`);
+    console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`);
+    
+    // A dry run must not move the incremental fetch window or trigger post-completion actions
+    if (stepContext.simulation) {
+      return runId;
     }
+    
+    // Update workflow's lastSuccessfulRunAt for incremental data fetching
+    await db
+      .update(agentWorkflows)
+      .set({ 
+        lastSuccessfulRunAt: new Date(),
+        lastRunAt: new Date(),
+        lastRunStatus: 'completed'
+      })
+      .where(eq(agentWorkflows.id, workflow.id));
+    
+    console.log(`[WorkflowExecutor] 📅 Updated lastSuccessfulRunAt for incremental fetching`);
+    
+    // Execute post-completion actions if configured
+    await this.handlePostCompletion(workflow, stepContext);
+    
+    return runId;
+  }
+
+  private async markRunFailed(workflow: any, runId: number, error: any, executionDuration: number) {
+    this.clearPendingParallels(runId);
+    
+    console.log(`\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
+    console.error(`[WorkflowExecutor] ❌ WORKFLOW FAILED`);
+    console.error(`  Workflow ID: ${workflow.id}`);
+    console.error(`  Run ID: ${runId}`);
+    console.error(`  Error: ${error.message}`);
+    console.error(`  Stack:`, error.stack);
+    console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`);
+    
+    // Mark workflow as failed
+    await db
+      .update(agentWorkflowRuns)
+      .set({
+        status: 'failed',
+        completedAt: new Date(),
+        executionDuration,
+        errorMessage: error.message,
+      })
+      .where(eq(agentWorkflowRuns.id, runId));
+  }
+
+  private getContextChanges(before: any, after: any): Record<string, any> {
+    // Steps only add or overwrite top-level keys, so a shallow comparison is enough
+    const changes: Record<string, any> = {};
+    for (const [key, value] of Object.entries(after)) {
+      if (before[key] !== value) {
+        changes[key] = value;
+      }
+    }
+    return changes;
+  }
+
+  private rebuildContextFromCheckpoints(initialContext: any, executionLog: any[]): any {
+    return executionLog.reduce(
+      (context, entry) => ({ ...context, ...(entry.checkpoint || {}) }),
+      { ...(initialContext || {}) }
+    );
+  }
+
+  /**
+   * Run a workflow in simulation mode and diff its step trace against an earlier run
+   * (compareToRunId, or the workflow's most recent finished real run).
+   */
+  async simulateWorkflow(
+    workflow: any,
+    context: ExecutionContext,
+    options: SimulationOptions,
+    compareToRunId?: number
+  ): Promise<{ runId: number; status: string; errorMessage: string | null; executionLog: any[]; comparedToRunId: number | null; diff: TraceDiffEntry[] }> {
+    // Pick the baseline before this run exists so it cannot compare against itself
+    const [baseline] = await db
+      .select()
+      .from(agentWorkflowRuns)
+      .where(compareToRunId
+        ? and(eq(agentWorkflowRuns.id, compareToRunId), eq(agentWorkflowRuns.workflowId, workflow.id))
+        : and(
+            eq(agentWorkflowRuns.workflowId, workflow.id),
+            ne(agentWorkflowRuns.status, 'running'),
+            eq(agentWorkflowRuns.isSimulation, false)
+          ))
+      .orderBy(sql`${agentWorkflowRuns.startedAt} desc`)
+      .limit(1);
+    
+    let runId: number;
+    try {
+      runId = await this.executeWorkflow(workflow, {
+        ...context,
+        triggerSource: context.triggerSource || 'simulation',
+        simulation: options,
+      });
+    } catch (error: any) {
+      // A failed simulation still has a trace worth returning
+      if (!error.runId) {
+        throw error;
+      }
+      console.warn(`[WorkflowExecutor] 🧪 Simulation of workflow ${workflow.id} failed: ${error.message}`);
+      runId = error.runId;
+    }
+    
+    const [run] = await db
+      .select()
+      .from(agentWorkflowRuns)
+      .where(eq(agentWorkflowRuns.id, runId))
+      .limit(1);
+    
+    const executionLog = (run?.executionLog as any[]) || [];
+    
+    return {
+      runId: run.id,
+      status: run.status,
+      errorMessage: run.errorMessage,
+      executionLog,
+      comparedToRunId: baseline?.id ?? null,
+      diff: diffExecutionTraces((baseline?.executionLog as any[]) || [], executionLog),
+    };
+  }
+
+  private simulateStep(step: any, context: any): StepExecutionResult | null {
+    const isWrite = isWriteStep(step);
+    const isRead = !isWrite && FIXTURE_READ_STEP_TYPES.includes(step.type);
+    
+    if (isWrite || isRead) {
+      const fixture = findFixture(context.simulation?.fixtures, step);
+      if (fixture.found) {
+        console.log(`[WorkflowExecutor]   🧪 Simulation: using fixture for ${step.type} '${step.name}'`);
+        if (step.config?.resultVariable) {
+          context[step.config.resultVariable] = fixture.value;
+        }
+        return { success: true, output: fixture.value };
+      }
+    }
+    
+    if (isWrite) {
+      // Record what would have been written, with {{variables}} resolved
+      console.log(`[WorkflowExecutor]   🧪 Simulation: recorded ${step.type} '${step.name}' without executing it`);
+      return {
+        success: true,
+        output: {
+          simulated: true,
+          recordedWrite: {
+            type: step.type,
+            name: step.name,
+            config: this.processParametersRecursively(step.config || {}, context),
+          },
+        },
+      };
+    }
+    
+    if (step.type === 'wait') {
+      return { success: true, output: { simulated: true, waited: 0 } };
+    }
+    
+    return null;
+  }
+
+  /**
+   * Run a single read step (data_source_query or splynx_query) outside of any
+   * workflow run, e.g. to refresh a key result data binding. Result variables and
+   * key result updates in the step config are ignored; the caller uses the output.
+   */
+  async executeReadStep(step: { type: 'data_source_query' | 'splynx_query'; config: any }, organizationId: number): Promise<StepExecutionResult> {
+    const { resultVariable, updateKeyResult, ...config } = step.config || {};
+    return this.executeStep({ ...step, config }, {
+      organizationId: String(organizationId),
+      triggerSource: 'key_result_binding',
+    });
   }
 
   private async executeStepWithRetry(
     step: any,
     context: any,
-    retryConfig: { maxRetries: number; retryDelay: number }
+    retryConfig: { maxRetries: number; retryDelay: number; maxRetryDelay?: number }
   ): Promise<StepExecutionResult> {
-    let lastError: Error | null = null;
+    const timeoutSeconds = Number(step.config?.timeoutSeconds) || 0;
+    let result: StepExecutionResult = { success: false, error: 'Step execution failed after retries' };
     
     for (let attempt = 1; attempt <= retryConfig.maxRetries; attempt++) {
       try {
-        const result = await this.executeStep(step, context);
-        return result;
+        result = timeoutSeconds > 0
+          ? await withTimeout(signal => this.executeStep(step, context, signal), timeoutSeconds * 1000, `Step "${step.name || step.type}"`)
+          : await this.executeStep(step, context);
+        
+        // Handlers that classify their failures only retry transient upstream ones;
+        // failed reads from handlers that don't are retried as they always were
+        if (result.success || !(result.retryable ?? !isWriteStep(step))) {
+          return result;
+        }
+        if (!this.isRetrySafe(step)) {
+          console.warn(`[WorkflowExecutor]   ⚠️ Step failed and is not retried: a repeated ${step.type} could write twice`);
+          return result;
+        }
+        console.warn(`[WorkflowExecutor]   ⚠️ Step failed (attempt ${attempt}/${retryConfig.maxRetries})`);
+        console.warn(`[WorkflowExecutor]   Error: ${result.error}`);
       } catch (error: any) {
-        lastError = error;
+        result = {
+          success: false,
+          error: error.message,
+          stack: error.stack,
+          // A read that threw is retried as before; a write only after a transient failure
+          retryable: isRetryableError(error) || !isWriteStep(step),
+          retryAfterMs: getRetryAfterMs(error),
+        };
         console.warn(`[WorkflowExecutor]   ⚠️ Step failed (attempt ${attempt}/${retryConfig.maxRetries})`);
         console.warn(`[WorkflowExecutor]   Error: ${error.message}`);
         if (error.stack) {
           console.warn(`[WorkflowExecutor]   Stack:`, error.stack);
         }
-        
-        if (attempt < retryConfig.maxRetries) {
-          // Wait before retry
-          console.log(`[WorkflowExecutor]   ⏳ Waiting ${retryConfig.retryDelay}s before retry...`);
-          await new Promise(resolve => setTimeout(resolve, retryConfig.retryDelay * 1000));
+        if (!result.retryable) {
+          return result;
+        }
+        if (!this.isRetrySafe(step)) {
+          console.warn(`[WorkflowExecutor]   ⚠️ Step is not retried: a repeated ${step.type} could write twice`);
+          return result;
         }
       }
+      
+      if (attempt < retryConfig.maxRetries) {
+        const delayMs = this.getRetryDelayMs(attempt, retryConfig, result.retryAfterMs);
+        console.log(`[WorkflowExecutor]   ⏳ Waiting ${(delayMs / 1000).toFixed(1)}s before retry...`);
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
     }
     
-    return {
-      success: false,
-      error: lastError?.message || 'Step execution failed after retries',
-      stack: lastError?.stack,
-    };
+    return result;
   }
 
-  private async executeStep(step: any, context: any): Promise<StepExecutionResult> {
+  /**
+   * Whether a failed attempt can be repeated. A write that timed out or got a 5xx/429
+   * may still have reached the upstream, so it is only repeated when it carries an
+   * idempotency key (api_call steps send config.idempotencyKey as Idempotency-Key).
+   */
+  private isRetrySafe(step: any): boolean {
+    return !isWriteStep(step) || (step.type === 'api_call' && Boolean(step.config?.idempotencyKey));
+  }
+
+  /**
+   * Exponential backoff from retryDelay (seconds), capped at maxRetryDelay, with
+   * jitter so runs that failed together do not retry in lockstep. A Retry-After
+   * from the upstream is honoured when it asks for longer.
+   */
+  private getRetryDelayMs(
+    attempt: number,
+    retryConfig: { retryDelay: number; maxRetryDelay?: number },
+    retryAfterMs?: number
+  ): number {
+    const baseMs = retryConfig.retryDelay * 1000;
+    const capMs = (retryConfig.maxRetryDelay ?? 300) * 1000;
+    const exponentialMs = Math.min(baseMs * 2 ** (attempt - 1), capMs);
+    const jitteredMs = exponentialMs / 2 + Math.random() * (exponentialMs / 2);
+    return Math.max(jitteredMs, retryAfterMs ?? 0);
+  }
+
+  private async executeStep(step: any, context: any, signal?: AbortSignal): Promise<StepExecutionResult> {
     try {
+      if (context.simulation) {
+        const simulated = this.simulateStep(step, context);
+        if (simulated) {
+          return simulated;
+        }
+        
+        // Read steps run for real, but without their optional key result update
+        if (step.config?.updateKeyResult) {
+          console.log(`[WorkflowExecutor]   🧪 Simulation: skipping key result update of ${step.type}`);
+          step = { ...step, config: { ...step.config, updateKeyResult: undefined } };
+        }
+      }
+      
       switch (step.type) {
         case 'log_event':
           return await this.executeLogEvent(step, context);
@@ -278,7 +771,7 @@ export class WorkflowExecutor {
           return await this.executeNotification(step, context);
         
         case 'api_call':
-          return await this.executeApiCall(step, context);
+          return await this.executeApiCall(step, context, signal);
         
         case 'data_transformation':
           return await this.executeDataTransformation(step, context);
@@ -320,6 +813,18 @@ export class WorkflowExecutor {
         case 'splynx_ticket_message':
           return await this.executeSplynxTicketMessage(step, context);
         
+        case 'parallel':
+          return await this.executeParallel(step, context);
+        
+        case 'join':
+          return await this.executeJoin(step, context);
+        
+        case 'call_workflow':
+          return await this.executeCallWorkflow(step, context);
+        
+        case 'approval':
+          return await this.executeSimulatedApproval(step, context);
+        
         default:
           throw new Error(`Unknown step type: ${step.type}`);
       }
@@ -367,9 +872,9 @@ export class WorkflowExecutor {
     }
   }
 
-  private async executeApiCall(step: any, context: any): Promise<StepExecutionResult> {
+  private async executeApiCall(step: any, context: any, signal?: AbortSignal): Promise<StepExecutionResult> {
     try {
-      const { url, method = 'GET', headers = {}, body } = step.config || {};
+      const { url, method = 'GET', headers = {}, body, idempotencyKey } = step.config || {};
       
       // Replace variables in URL
       const processedUrl = this.processTemplate(url, context);
@@ -379,32 +884,64 @@ export class WorkflowExecutor {
         method,
         headers: {
           'Content-Type': 'application/json',
+          ...(idempotencyKey ? { 'Idempotency-Key': String(this.processTemplate(idempotencyKey, context)) } : {}),
           ...headers,
         },
         body: body ? JSON.stringify(this.processTemplate(body, context)) : undefined,
+        signal,
       });
       
-      const data = await response.json();
-      
       if (!response.ok) {
-        throw new Error(`API call failed: ${response.status} - ${JSON.stringify(data)}`);
+        // An error page (e.g. a 502 from a proxy) may not be JSON
+        const detail = await response.text().catch(() => '');
+        // Status and Retry-After travel with the error, so a 5xx or 429 is retried like an integration call
+        throw Object.assign(new Error(`API call failed: ${response.status} - ${detail}`), {
+          response: {
+            status: response.status,
+            headers: { 'retry-after': response.headers.get('retry-after') ?? undefined },
+          },
+        });
       }
       
+      const data = await response.json();
+      
       return {
         success: true,
         output: data,
       };
     } catch (error: any) {
+      // fetch reports network failures (ECONNRESET, ...) as the cause of a TypeError
+      const failure = error?.cause?.code ? error.cause : error;
       return {
         success: false,
         error: error.message,
+        retryable: isRetryableError(failure),
+        retryAfterMs: getRetryAfterMs(failure),
       };
     }
   }
 
   private async executeDataTransformation(step: any, context: any): Promise<StepExecutionResult> {
     try {
-      const { transformation, formula, resultVariable } = step.config || {};
+      const { transformation, formula, expression, resultVariable } = step.config || {};
+      
+      // Typed expression (e.g. "sum(step1Output.records, r => r.amount)")
+      if (expression) {
+        console.log(`[WorkflowExecutor] 🧮 Evaluating expression: ${expression}`);
+        const result = containsExpression(expression)
+          ? evaluateTemplateExpressions(expression, context)
+          : evaluateExpression(expression, context);
+        console.log(`[WorkflowExecutor]   ✅ Result:`, result);
+        
+        if (resultVariable) {
+          context[resultVariable] = result;
+        }
+        
+        return {
+          success: true,
+          output: result,
+        };
+      }
       
       // Formula-based calculation (e.g., "{revenue} / {customers}")
       if (formula) {
@@ -642,7 +1179,7 @@ export class WorkflowExecutor {
     }
   }
 
-  private evaluateConditionOperator(fieldValue: any, operator: string, compareValue: any): boolean {
+  evaluateConditionOperator(fieldValue: any, operator: string, compareValue: any): boolean {
     switch (operator) {
       case 'equals':
         return String(fieldValue) === String(compareValue);
@@ -726,13 +1263,13 @@ export class WorkflowExecutor {
       console.log(`[WorkflowExecutor]   ✨ Processed parameters:`, JSON.stringify(processedParameters, null, 2));
       
       // Execute integration-specific action with processed parameters
-      const result = await this.actionHandlers.executeIntegrationAction(
+      const result = await integrationGuard.call(integration, () => this.actionHandlers.executeIntegrationAction(
         integration.platformType,
         action,
         processedParameters,
         credentials,
         context
-      );
+      ));
       
       console.log(`[WorkflowExecutor]   ✓ Action completed successfully`);
       
@@ -751,6 +1288,8 @@ export class WorkflowExecutor {
       return {
         success: false,
         error: error.message,
+        retryable: isRetryableError(error),
+        retryAfterMs: getRetryAfterMs(error),
       };
     }
   }
@@ -861,42 +1400,53 @@ export class WorkflowExecutor {
         
         const oldValue = kr.currentValue;
         let newValue = processedValue;
+        let updatedKr: KeyResult | undefined;
         
         // Update Key Result
         if (updateType === 'set_value') {
-          await db
+          [updatedKr] = await db
             .update(keyResults)
             .set({ 
               currentValue: String(processedValue),
               updatedAt: new Date()
             })
-            .where(eq(keyResults.id, parseInt(processedTargetId)));
+            .where(eq(keyResults.id, parseInt(processedTargetId)))
+            .returning();
         } else if (updateType === 'increment') {
           const currentVal = parseFloat(kr.currentValue || '0');
           const incrementBy = parseFloat(processedValue || '0');
           newValue = currentVal + incrementBy;
-          await db
+          [updatedKr] = await db
             .update(keyResults)
             .set({ 
               currentValue: String(newValue),
               updatedAt: new Date()
             })
-            .where(eq(keyResults.id, parseInt(processedTargetId)));
+            .where(eq(keyResults.id, parseInt(processedTargetId)))
+            .returning();
         } else if (updateType === 'percentage') {
           if (kr.targetValue) {
             const targetVal = parseFloat(kr.targetValue || '100');
             const percentage = parseFloat(processedValue || '0');
             newValue = (targetVal * percentage) / 100;
-            await db
+            [updatedKr] = await db
               .update(keyResults)
               .set({ 
                 currentValue: String(newValue),
                 updatedAt: new Date()
               })
-              .where(eq(keyResults.id, parseInt(processedTargetId)));
+              .where(eq(keyResults.id, parseInt(processedTargetId)))
+              .returning();
           }
         }
         
+        if (updatedKr && updatedKr.currentValue !== kr.currentValue) {
+          platformEventBus.emit(kr.organizationId, 'key_result.updated', keyResultUpdatedPayload(updatedKr, kr.currentValue), {
+            entityId: kr.id,
+            actorUserId: context.assignedUserId || null,
+          });
+        }
+        
         // Create activity log for agent-generated update
         // Use the assigned agent user for all workflow executions
         const userId = context.assignedUserId || null;
@@ -1230,14 +1780,14 @@ export class WorkflowExecutor {
         console.log(`[WorkflowExecutor]   📋 Full query mode (manual run or first execution)`);
       }
       
-      const queryResult = await splynxService.queryEntities({
+      const queryResult = await integrationGuard.call(splynxIntegration, () => splynxService.queryEntities({
         entity,
         mode,
         filters: processedFilters,
         dateRange,
         limit,
         sinceDate: useSinceDate,
-      });
+      }));
       
       console.log(`[WorkflowExecutor]   📊 Query result:`, JSON.stringify(queryResult, null, 2));
       
@@ -1282,6 +1832,8 @@ export class WorkflowExecutor {
         success: false,
         error: error.message,
         stack: error.stack,
+        retryable: isRetryableError(error),
+        retryAfterMs: getRetryAfterMs(error),
       };
     }
   }
@@ -1353,7 +1905,7 @@ export class WorkflowExecutor {
         case 'getCustomerServices': {
           console.log(`[WorkflowExecutor]   📡 Fetching services for customer ${numericCustomerId}`);
           
-          const services = await splynxService.getCustomerServices(numericCustomerId);
+          const services = await integrationGuard.call(splynxIntegration, () => splynxService.getCustomerServices(numericCustomerId));
           
           console.log(`[WorkflowExecutor]   📊 Retrieved ${services.length} services`);
           
@@ -1390,7 +1942,7 @@ export class WorkflowExecutor {
         case 'getCustomerById': {
           console.log(`[WorkflowExecutor]   👤 Fetching customer details for ID ${numericCustomerId}`);
           
-          const customer = await splynxService.getCustomerById(numericCustomerId);
+          const customer = await integrationGuard.call(splynxIntegration, () => splynxService.getCustomerById(numericCustomerId));
           
           if (!customer) {
             console.log(`[WorkflowExecutor]   ⚠️ Customer ${numericCustomerId} not found`);
@@ -1432,7 +1984,7 @@ export class WorkflowExecutor {
         case 'getCustomerBilling': {
           console.log(`[WorkflowExecutor]   💰 Fetching billing info for customer ${numericCustomerId}`);
           
-          const billing = await splynxService.getCustomerBalance(numericCustomerId);
+          const billing = await integrationGuard.call(splynxIntegration, () => splynxService.getCustomerBalance(numericCustomerId));
           
           if (!billing) {
             console.log(`[WorkflowExecutor]   ⚠️ No billing data found for customer ${numericCustomerId}`);
@@ -1498,6 +2050,8 @@ export class WorkflowExecutor {
         success: false,
         error: error.message,
         stack: error.stack,
+        retryable: isRetryableError(error),
+        retryAfterMs: getRetryAfterMs(error),
       };
     }
   }
@@ -1819,6 +2373,14 @@ export class WorkflowExecutor {
   private processTemplate(template: string, context: any): any {
     if (typeof template !== 'string') return template;
     
+    // Evaluate {{= expression }} markers first; a template that is a single
+    // expression keeps its typed value (number, array, ...)
+    if (containsExpression(template)) {
+      const evaluated = evaluateTemplateExpressions(template, context);
+      if (typeof evaluated !== 'string') return evaluated;
+      template = evaluated;
+    }
+    
     // Replace {{variable}} with context values
     // Supports: {{trigger.id}}, {{step1Output.name}}, {{pathResults[0].workItemId}}
     return template.replace(/\{\{([\w\[\]]+(?:\.[\w\[\]]+)*)\}\}/g, (match, path) => {
@@ -1969,6 +2531,714 @@ export class WorkflowExecutor {
     }
   }
 
+  private async executeParallel(step: any, context: any): Promise<StepExecutionResult> {
+    try {
+      const { branches = [] } = step.config || {};
+      
+      if (!Array.isArray(branches) || branches.length === 0) {
+        throw new Error('Parallel step requires at least one branch');
+      }
+      
+      const parallelKey = this.getParallelKey(step.id, context);
+      console.log(`[WorkflowExecutor]   🔀 Parallel: starting ${branches.length} branches (${branches.map((b: any) => b.name).join(', ')})`);
+      
+      // Branches run concurrently and are collected by a later join step
+      const branchRuns: ParallelBranchRun[] = branches.map((branch: any, index: number) => {
+        const name = branch.name || `branch${index + 1}`;
+        const branchRun: ParallelBranchRun = {
+          name,
+          status: 'running',
+          promise: Promise.resolve() as Promise<void>,
+        };
+        branchRun.promise = this.runBranch(branch.steps || [], { ...context, branchName: name }).then(result => {
+          branchRun.status = result.success ? 'completed' : 'failed';
+          branchRun.output = result.output;
+          branchRun.error = result.error;
+          console.log(`[WorkflowExecutor]   🔀 Branch '${name}' ${result.success ? 'completed' : `failed: ${result.error}`}`);
+        });
+        return branchRun;
+      });
+      
+      this.pendingParallels.set(parallelKey, branchRuns);
+      
+      // Let a join step without an explicit parallelStepId find this fan-out
+      context.lastParallelStepId = step.id;
+      
+      return {
+        success: true,
+        output: {
+          parallelStepId: step.id,
+          branches: branchRuns.map(b => b.name),
+        },
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+
+  private async runBranch(branchSteps: any[], branchContext: any): Promise<StepExecutionResult> {
+    // Branch steps run sequentially, like conditional path steps
+    let pathContext = { ...branchContext };
+    const outputs: any[] = [];
+    
+    try {
+      for (const branchStep of branchSteps) {
+        const result = await this.executeStep(branchStep, pathContext);
+        if (!result.success) {
+          return result;
+        }
+        if (result.output) {
+          outputs.push(result.output);
+          pathContext = { ...pathContext, lastOutput: result.output };
+        }
+      }
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+    
+    return {
+      success: true,
+      output: {
+        lastOutput: pathContext.lastOutput,
+        outputs,
+      },
+    };
+  }
+
+  private async executeJoin(step: any, context: any): Promise<StepExecutionResult> {
+    try {
+      const { mode = 'all', count, resultVariable = 'branches' } = step.config || {};
+      const parallelStepId = step.config?.parallelStepId || context.lastParallelStepId;
+      
+      if (!parallelStepId) {
+        throw new Error('Join step requires a preceding parallel step');
+      }
+      
+      const parallelKey = this.getParallelKey(parallelStepId, context);
+      const branchRuns = this.pendingParallels.get(parallelKey);
+      
+      if (!branchRuns) {
+        // Branch promises only live in this process, so a resumed run has to re-run the parallel step
+        throw new Error(`No running branches found for parallel step ${parallelStepId}. Retry the run from the parallel step.`);
+      }
+      
+      const required = mode === 'first_success' ? 1 : mode === 'n_of_m' ? Number(count) : branchRuns.length;
+      
+      if (!Number.isInteger(required) || required < 1 || required > branchRuns.length) {
+        throw new Error(`Join needs between 1 and ${branchRuns.length} branches, got ${count}`);
+      }
+      
+      console.log(`[WorkflowExecutor]   🔗 Join: waiting for ${required}/${branchRuns.length} branches (mode: ${mode})`);
+      
+      await this.waitForBranches(branchRuns, required, mode === 'all');
+      
+      const completed = branchRuns.filter(b => b.status === 'completed');
+      const failed = branchRuns.filter(b => b.status === 'failed');
+      
+      // Only drop the fan-out once every branch has settled, in case a later join still needs it
+      if (branchRuns.every(b => b.status !== 'running')) {
+        this.pendingParallels.delete(parallelKey);
+      }
+      
+      if (completed.length < required) {
+        throw new Error(
+          `Join failed: ${completed.length}/${required} branches succeeded. ` +
+          failed.map(b => `${b.name}: ${b.error}`).join('; ')
+        );
+      }
+      
+      // Merge branch outputs into the context, keyed by branch name
+      const merged: Record<string, any> = { ...(context[resultVariable] || {}) };
+      for (const branch of completed) {
+        merged[branch.name] = branch.output?.lastOutput;
+      }
+      context[resultVariable] = merged;
+      
+      console.log(`[WorkflowExecutor]   ✅ Join complete: ${completed.map(b => b.name).join(', ')}`);
+      
+      return {
+        success: true,
+        output: {
+          mode,
+          completedBranches: completed.map(b => b.name),
+          failedBranches: failed.map(b => ({ name: b.name, error: b.error })),
+          pendingBranches: branchRuns.filter(b => b.status === 'running').map(b => b.name),
+          results: merged,
+        },
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+
+  private async waitForBranches(branchRuns: ParallelBranchRun[], required: number, waitForAll: boolean): Promise<void> {
+    if (waitForAll) {
+      await Promise.all(branchRuns.map(b => b.promise));
+      return;
+    }
+    
+    // Resolve as soon as enough branches succeed, or once it can no longer happen
+    await new Promise<void>(resolve => {
+      const check = () => {
+        const succeeded = branchRuns.filter(b => b.status === 'completed').length;
+        const stillRunning = branchRuns.filter(b => b.status === 'running').length;
+        if (succeeded >= required || succeeded + stillRunning < required) {
+          resolve();
+        }
+      };
+      check();
+      branchRuns.forEach(b => b.promise.then(check));
+    });
+  }
+
+  private clearPendingParallels(runId: number) {
+    // Branches nobody joined keep running in the background; just stop tracking them
+    for (const key of Array.from(this.pendingParallels.keys())) {
+      if (key.startsWith(`${runId}:`)) {
+        this.pendingParallels.delete(key);
+      }
+    }
+  }
+
+  private getParallelKey(parallelStepId: string, context: any): string {
+    // Loop iterations each get their own fan-out
+    return `${context.runId}:${parallelStepId}:${context.currentIndex ?? ''}`;
+  }
+
+  private async executeCallWorkflow(step: any, context: any): Promise<StepExecutionResult> {
+    try {
+      const { workflowId, inputMapping = {}, outputMapping, resultVariable } = step.config || {};
+      
+      if (!workflowId) {
+        throw new Error('call_workflow step requires a workflowId');
+      }
+      
+      const targetId = Number(workflowId);
+      const callStack: number[] = [...(context.callStack || []), context.workflowId].filter((id: any) => id !== undefined);
+      
+      if (callStack.includes(targetId)) {
+        throw new Error(`Workflow call cycle detected: ${[...callStack, targetId].join(' → ')}`);
+      }
+      
+      if (callStack.length >= MAX_WORKFLOW_NESTING_DEPTH) {
+        throw new Error(`Maximum workflow nesting depth of ${MAX_WORKFLOW_NESTING_DEPTH} exceeded`);
+      }
+      
+      const [target] = await db
+        .select()
+        .from(agentWorkflows)
+        .where(and(
+          eq(agentWorkflows.id, targetId),
+          eq(agentWorkflows.organizationId, parseInt(context.organizationId))
+        ))
+        .limit(1);
+      
+      if (!target) {
+        throw new Error(`Workflow ${targetId} not found`);
+      }
+      
+      // Resolve {{variables}} in the mapped inputs against the caller's context
+      const inputs = this.processParametersRecursively(inputMapping, context);
+      
+      console.log(`[WorkflowExecutor]   📞 Calling workflow ${target.id} (${target.name}) at depth ${callStack.length}`);
+      console.log(`[WorkflowExecutor]   Inputs:`, JSON.stringify(inputs, null, 2));
+      
+      // Map workflowDefinition to configuration.steps format used by executeWorkflow
+      const targetWithConfig = {
+        ...target,
+        configuration: {
+          steps: (target.workflowDefinition as any[]) || []
+        }
+      };
+      
+      // Inputs are exposed the same way as a manual run's request body
+      const childRunId = await this.executeWorkflow(targetWithConfig, {
+        ...inputs,
+        organizationId: context.organizationId,
+        userId: context.userId,
+        triggerSource: `workflow:${context.workflowId} run ${context.runId}`,
+        manualData: inputs,
+        trigger: inputs,
+        callStack,
+        parentRunId: context.runId,
+        simulation: context.simulation,
+      });
+      
+      const [childRun] = await db
+        .select()
+        .from(agentWorkflowRuns)
+        .where(eq(agentWorkflowRuns.id, childRunId))
+        .limit(1);
+      
+      if (childRun?.status === 'awaiting_approval') {
+        throw new Error(`Called workflow ${target.id} paused for approval (run ${childRunId}); approval steps cannot be used in called workflows`);
+      }
+      
+      const childResult: any = childRun?.resultData || {};
+      
+      let outputs: Record<string, any>;
+      if (outputMapping && Object.keys(outputMapping).length > 0) {
+        outputs = this.mapData(childResult, outputMapping);
+      } else {
+        // By default expose every step output of the called workflow
+        outputs = {};
+        for (const [key, value] of Object.entries(childResult)) {
+          if (/^step\d+Output$/.test(key)) {
+            outputs[key] = value;
+          }
+        }
+      }
+      
+      if (resultVariable) {
+        context[resultVariable] = outputs;
+      }
+      
+      console.log(`[WorkflowExecutor]   ✅ Called workflow ${target.id} completed (run ${childRunId})`);
+      
+      return {
+        success: true,
+        output: {
+          workflowId: target.id,
+          workflowName: target.name,
+          runId: childRunId,
+          outputs,
+        },
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+
+  /**
+   * Pause point of an approval step: record the pending approval with its resolved
+   * payload and raise a work item for the approver (a user or a team).
+   */
+  private async requestApproval(workflow: any, runId: number, stepIndex: number, step: any, context: any): Promise<void> {
+    const {
+      approverUserId,
+      approverTeamId,
+      title,
+      instructions,
+      payload,
+      allowEdits,
+      timeoutHours,
+      escalateToUserId,
+    } = step.config || {};
+    
+    if (!approverUserId && !approverTeamId) {
+      throw new Error('Approval step requires an approver user or team');
+    }
+    
+    const organizationId = parseInt(context.organizationId);
+    const resolvedPayload = this.processParametersRecursively(payload ?? {}, context);
+    const expiresAt = timeoutHours ? new Date(Date.now() + Number(timeoutHours) * 60 * 60 * 1000) : null;
+    
+    const [approval] = await db
+      .insert(agentWorkflowApprovals)
+      .values({
+        organizationId,
+        workflowId: workflow.id,
+        runId,
+        stepIndex,
+        stepName: step.name || null,
+        approverUserId: approverUserId || null,
+        approverTeamId: approverTeamId || null,
+        payload: resolvedPayload,
+        allowEdits: !!allowEdits,
+        expiresAt,
+        escalateToUserId: escalateToUserId || null,
+      })
+      .returning();
+    
+    const processedTitle = this.processTemplate(title || `Approval needed: ${step.name || workflow.name}`, context);
+    const description = [
+      instructions ? this.processTemplate(instructions, context) : null,
+      `Workflow "${workflow.name}" is waiting for your decision. Respond at /agents?tab=approvals`,
+      `Proposed payload:\n${JSON.stringify(resolvedPayload, null, 2)}`,
+    ].filter(Boolean).join('\n\n');
+    
+    const workItem = await storage.createWorkItem({
+      organizationId,
+      title: String(processedTitle).slice(0, 255),
+      description,
+      status: 'Ready',
+      assignedTo: approverUserId || null,
+      teamId: approverTeamId || null,
+      dueDate: expiresAt ? expiresAt.toISOString().split('T')[0] : null,
+      workItemType: 'workflow_approval',
+      workflowSource: 'agent_workflow',
+      workflowMetadata: { approvalId: approval.id, workflowId: workflow.id, runId },
+      createdBy: context.assignedUserId || null,
+    });
+    
+    await db
+      .update(agentWorkflowApprovals)
+      .set({ workItemId: workItem.id })
+      .where(eq(agentWorkflowApprovals.id, approval.id));
+    
+    console.log(`[WorkflowExecutor] 🙋 Approval ${approval.id} requested (work item ${workItem.id})${expiresAt ? `, expires ${expiresAt.toISOString()}` : ''}`);
+  }
+
+  /** Set a work item's status, emitting work_item.status_changed when it actually changes */
+  private async setWorkItemStatus(
+    organizationId: number,
+    workItemId: number,
+    status: WorkItem['status'],
+    actorUserId: number | null
+  ): Promise<void> {
+    const previous = await storage.getWorkItem(workItemId);
+    const updated = await storage.updateWorkItem(workItemId, { status });
+    if (previous && updated && previous.status !== updated.status) {
+      platformEventBus.emit(organizationId, 'work_item.status_changed', workItemStatusChangedPayload(updated, previous.status), {
+        entityId: workItemId,
+        actorUserId,
+      });
+    }
+  }
+
+  /**
+   * Record an approver's decision. The caller continues the paused run with
+   * continueAfterApproval once the decision is stored.
+   */
+  async respondToApproval(
+    approvalId: number,
+    organizationId: number,
+    userId: number,
+    response: { decision: 'approved' | 'rejected'; comment?: string; payload?: any }
+  ): Promise<typeof agentWorkflowApprovals.$inferSelect> {
+    const [approval] = await db
+      .select()
+      .from(agentWorkflowApprovals)
+      .where(and(eq(agentWorkflowApprovals.id, approvalId), eq(agentWorkflowApprovals.organizationId, organizationId)))
+      .limit(1);
+    
+    if (!approval) {
+      throw new Error(`Approval ${approvalId} not found`);
+    }
+    
+    if (response.payload !== undefined && !approval.allowEdits) {
+      throw new Error('This approval does not allow edits to the payload');
+    }
+    
+    // Only the first response wins if two approvers answer at the same time
+    const [updated] = await db
+      .update(agentWorkflowApprovals)
+      .set({
+        status: response.decision,
+        decisionPayload: response.payload !== undefined ? response.payload : approval.payload,
+        comment: response.comment || null,
+        respondedBy: userId,
+        respondedAt: new Date(),
+      })
+      .where(and(eq(agentWorkflowApprovals.id, approvalId), eq(agentWorkflowApprovals.status, 'pending')))
+      .returning();
+    
+    if (!updated) {
+      throw new Error(`Approval ${approvalId} has already been decided`);
+    }
+    
+    if (updated.workItemId) {
+      await this.setWorkItemStatus(organizationId, updated.workItemId, 'Completed', userId);
+    }
+    
+    console.log(`[WorkflowExecutor] 🙋 Approval ${approvalId} ${response.decision} by user ${userId}`);
+    return updated;
+  }
+
+  /**
+   * Continue a run paused at an approval step once the approval is decided: run the
+   * approved or rejected path of the step, then the remaining workflow steps.
+   */
+  async continueAfterApproval(approvalId: number): Promise<number> {
+    const { completion } = await this.startContinuation(approvalId);
+    return completion;
+  }
+
+  /**
+   * Claim a run paused at a decided approval and start continuing it. Resolves once
+   * the run is claimed, with the rest of the run as `completion`. Throws
+   * RunConflictError when another request or sweep continued the run first.
+   */
+  async startContinuation(approvalId: number): Promise<{ completion: Promise<number> }> {
+    const [approval] = await db
+      .select()
+      .from(agentWorkflowApprovals)
+      .where(eq(agentWorkflowApprovals.id, approvalId))
+      .limit(1);
+    
+    if (!approval || approval.status === 'pending') {
+      throw new Error(`Approval ${approvalId} has not been decided`);
+    }
+    
+    const [run] = await db
+      .select()
+      .from(agentWorkflowRuns)
+      .where(eq(agentWorkflowRuns.id, approval.runId))
+      .limit(1);
+    
+    if (!run || run.status !== 'awaiting_approval') {
+      throw new Error(`Workflow run ${approval.runId} is not waiting for approval`);
+    }
+    
+    const workflow = await workflowVersions.getAgentWorkflowForRun(run);
+    
+    const workflowWithConfig = {
+      ...workflow,
+      configuration: {
+        steps: (workflow?.workflowDefinition as any[]) || []
+      }
+    };
+    
+    const continuedAt = Date.now();
+    const previousDuration = run.executionDuration || 0;
+    
+    // Only moves the run on from awaiting_approval, so a response and the timeout sweep cannot both continue it
+    const [claimed] = await db
+      .update(agentWorkflowRuns)
+      .set({ status: 'running', errorMessage: null, ownerInstanceId: SCHEDULER_INSTANCE_ID, heartbeatAt: new Date() })
+      .where(and(eq(agentWorkflowRuns.id, run.id), eq(agentWorkflowRuns.status, 'awaiting_approval')))
+      .returning({ id: agentWorkflowRuns.id });
+    
+    if (!claimed) {
+      throw new RunConflictError(`Workflow run ${run.id} is already continuing after approval`);
+    }
+    
+    const completion = this.runAfterApproval(workflowWithConfig, run, approval, continuedAt, previousDuration)
+      .catch(async (error: any) => {
+        await this.markRunFailed(workflowWithConfig, run.id, error, previousDuration + (Date.now() - continuedAt));
+        throw error;
+      });
+    
+    return { completion };
+  }
+
+  /** Run the decided path of a claimed run's approval step, then the steps after it */
+  private async runAfterApproval(workflowWithConfig: any, run: any, approval: any, continuedAt: number, previousDuration: number): Promise<number> {
+    const step = workflowWithConfig.configuration.steps[approval.stepIndex];
+    if (!step || step.type !== 'approval') {
+      throw new Error(`Step ${approval.stepIndex + 1} of the run's workflow version is not an approval step`);
+    }
+    
+    const executionLog = ((run.executionLog as any[]) || []).filter((entry: any) => entry.step <= approval.stepIndex);
+    let stepContext = this.rebuildContextFromCheckpoints(run.initialContext, executionLog);
+    const contextBeforeStep = { ...stepContext };
+    
+    const decision = {
+      approvalId: approval.id,
+      decision: approval.status,
+      timedOut: !!approval.timedOut,
+      payload: approval.decisionPayload ?? approval.payload,
+      comment: approval.comment,
+      respondedBy: approval.respondedBy,
+      respondedAt: approval.respondedAt,
+    };
+    
+    console.log(`[WorkflowExecutor] ▶ Continuing run ${run.id} after approval ${approval.id} (${approval.status})`);
+    
+    const result = await this.runApprovalPath(step, decision, stepContext);
+    if (result.success && result.output) {
+      stepContext = { ...stepContext, [`step${approval.stepIndex + 1}Output`]: result.output };
+    }
+    
+    executionLog.push({
+      step: approval.stepIndex + 1,
+      type: step.type,
+      name: step.name || step.type,
+      startTime: approval.createdAt,
+      endTime: new Date(),
+      duration: Date.now() - continuedAt,
+      success: result.success,
+      output: result.output,
+      error: result.error,
+      checkpoint: result.success ? this.getContextChanges(contextBeforeStep, stepContext) : undefined,
+    });
+    
+    await db
+      .update(agentWorkflowRuns)
+      .set({
+        stepsCompleted: result.success ? approval.stepIndex + 1 : approval.stepIndex,
+        executionLog,
+        contextData: stepContext,
+        lastCheckpointAt: new Date(),
+      })
+      .where(eq(agentWorkflowRuns.id, run.id));
+    
+    if (!result.success) {
+      throw new Error(`Step ${approval.stepIndex + 1} failed: ${result.error}`);
+    }
+    
+    // A rejection can end the run once its path has been executed
+    const nextIndex = approval.status === 'rejected' && step.config?.stopOnReject
+      ? workflowWithConfig.configuration.steps.length
+      : approval.stepIndex + 1;
+    
+    return this.runSteps(workflowWithConfig, run.id, nextIndex, stepContext, executionLog, continuedAt, previousDuration);
+  }
+
+  /**
+   * Escalate or time out pending approvals past their expiry. An approval with an
+   * escalation user is reassigned once; after that the step's timeoutDecision
+   * ('rejected' by default, 'approved' or 'fail') decides.
+   */
+  async processApprovalTimeouts(): Promise<void> {
+    const now = new Date();
+    const expired = await db
+      .select()
+      .from(agentWorkflowApprovals)
+      .where(and(eq(agentWorkflowApprovals.status, 'pending'), lte(agentWorkflowApprovals.expiresAt, now)));
+    
+    for (const approval of expired) {
+      try {
+        const [run] = await db
+          .select()
+          .from(agentWorkflowRuns)
+          .where(eq(agentWorkflowRuns.id, approval.runId))
+          .limit(1);
+        const workflow = await workflowVersions.getAgentWorkflowForRun(run ?? { workflowId: approval.workflowId, workflowVersion: null });
+        const stepConfig = ((workflow?.workflowDefinition as any[]) || [])[approval.stepIndex]?.config || {};
+        
+        if (approval.escalateToUserId && !approval.escalatedAt) {
+          const hours = Number(stepConfig.escalationTimeoutHours || stepConfig.timeoutHours || 24);
+          // Only one sweep escalates it; another instance may have got here first
+          const [escalated] = await db
+            .update(agentWorkflowApprovals)
+            .set({ escalatedAt: now, expiresAt: new Date(now.getTime() + hours * 60 * 60 * 1000) })
+            .where(and(
+              eq(agentWorkflowApprovals.id, approval.id),
+              eq(agentWorkflowApprovals.status, 'pending'),
+              isNull(agentWorkflowApprovals.escalatedAt)
+            ))
+            .returning();
+          
+          if (!escalated) {
+            continue;
+          }
+          
+          if (approval.workItemId) {
+            await storage.updateWorkItem(approval.workItemId, { assignedTo: approval.escalateToUserId });
+          }
+          
+          await db.insert(activityLogs).values({
+            organizationId: approval.organizationId,
+            userId: null,
+            actionType: 'agent_action',
+            entityType: 'work_item',
+            entityId: approval.workItemId,
+            description: `Approval for ${workflow?.name || 'workflow'} escalated after no response`,
+            metadata: { approvalId: approval.id, runId: approval.runId, escalateToUserId: approval.escalateToUserId },
+          });
+          
+          console.log(`[WorkflowExecutor] ⏫ Approval ${approval.id} escalated to user ${approval.escalateToUserId}`);
+          continue;
+        }
+        
+        const timeoutDecision = stepConfig.timeoutDecision || 'rejected';
+        const [timedOut] = await db
+          .update(agentWorkflowApprovals)
+          .set({
+            status: timeoutDecision === 'approved' ? 'approved' : 'rejected',
+            timedOut: true,
+            decisionPayload: approval.payload,
+            comment: 'No response before the approval timed out',
+            respondedAt: now,
+          })
+          .where(and(eq(agentWorkflowApprovals.id, approval.id), eq(agentWorkflowApprovals.status, 'pending')))
+          .returning();
+        
+        if (!timedOut) {
+          continue;
+        }
+        
+        if (approval.workItemId) {
+          await this.setWorkItemStatus(approval.organizationId, approval.workItemId, 'Archived', null);
+        }
+        
+        console.log(`[WorkflowExecutor] ⌛ Approval ${approval.id} timed out (${timeoutDecision})`);
+        
+        if (timeoutDecision === 'fail') {
+          const [run] = await db
+            .select()
+            .from(agentWorkflowRuns)
+            .where(eq(agentWorkflowRuns.id, approval.runId))
+            .limit(1);
+          await this.markRunFailed(workflow || { id: approval.workflowId }, approval.runId, new Error(`Approval step ${approval.stepIndex + 1} timed out`), run?.executionDuration || 0);
+        } else {
+          // The sweep only claims the run; the rest of it runs in the background like a response's
+          const { completion } = await this.startContinuation(approval.id);
+          completion.catch((error: any) => {
+            console.error(`[WorkflowExecutor] Continuing run ${approval.runId} after timed-out approval ${approval.id} failed:`, error.message);
+          });
+        }
+      } catch (error: any) {
+        console.error(`[WorkflowExecutor] Failed to process timeout of approval ${approval.id}:`, error.message);
+      }
+    }
+  }
+
+  /**
+   * Expose the decision under resultVariable (default 'approval') and run the
+   * approvedSteps or rejectedSteps of an approval step.
+   */
+  private async runApprovalPath(step: any, decision: any, context: any): Promise<StepExecutionResult> {
+    const { resultVariable = 'approval', approvedSteps, rejectedSteps } = step.config || {};
+    context[resultVariable] = decision;
+    
+    const pathSteps = (decision.decision === 'approved' ? approvedSteps : rejectedSteps) || [];
+    let pathContext = context;
+    const pathResults: any[] = [];
+    
+    for (const pathStep of pathSteps) {
+      const result = await this.executeStep(pathStep, pathContext);
+      if (!result.success) {
+        return result;
+      }
+      if (result.output) {
+        pathResults.push(result.output);
+        pathContext = { ...pathContext, lastOutput: result.output };
+      }
+    }
+    
+    return {
+      success: true,
+      output: { ...decision, pathResults },
+    };
+  }
+
+  private async executeSimulatedApproval(step: any, context: any): Promise<StepExecutionResult> {
+    if (!context.simulation) {
+      throw new Error('Approval steps can only be used at the top level of a workflow');
+    }
+    
+    // Dry runs take the decision from a fixture ({ decision, payload, comment }) or approve
+    const fixture = findFixture(context.simulation.fixtures, step);
+    const response = fixture.found && fixture.value && typeof fixture.value === 'object' ? fixture.value : {};
+    const decision = {
+      approvalId: null,
+      decision: response.decision === 'rejected' ? 'rejected' : 'approved',
+      timedOut: false,
+      payload: response.payload ?? this.processParametersRecursively(step.config?.payload ?? {}, context),
+      comment: response.comment ?? null,
+      respondedBy: null,
+      respondedAt: null,
+      simulated: true,
+    };
+    
+    console.log(`[WorkflowExecutor]   🧪 Simulation: approval '${step.name}' ${decision.decision}`);
+    return this.runApprovalPath(step, decision, context);
+  }
+
   private async executeCreateWorkItem(step: any, context: any): Promise<StepExecutionResult> {
     try {
       const { 
@@ -2080,6 +3350,13 @@ export class WorkflowExecutor {
         });
         console.log(`[WorkflowExecutor]   ✅ Work item updated: ID ${workItem.id}`);
         
+        if (workItem.status !== existingWorkItem.status) {
+          platformEventBus.emit(parseInt(organizationId), 'work_item.status_changed', workItemStatusChangedPayload(workItem, existingWorkItem.status), {
+            entityId: workItem.id,
+            actorUserId: context.assignedUserId || null,
+          });
+        }
+        
         // Log activity for work item update
         try {
           const agentName = context.assignedUserName || 'Automation Agent';
@@ -2416,7 +3693,7 @@ export class WorkflowExecutor {
               });
               
               // Enrich context with per-request SplynxService instance (thread-safe)
-              const enrichedContext = await contextEnrichmentService.enrichTicketContext(
+              const enrichedContext = await integrationGuard.call(splynxIntegration, () => contextEnrichmentService.enrichTicketContext(
                 splynxService,
                 parseInt(String(splynxCustomerId)),
                 contextSources as ContextSource[],
@@ -2425,7 +3702,7 @@ export class WorkflowExecutor {
                   subject: workItem.title,
                   description: workItem.description || '',
                 }
-              );
+              ));
               
               // Format context for prompt injection
               customerContextStr = contextEnrichmentService.formatContextForPrompt(enrichedContext);
@@ -2722,12 +3999,12 @@ Generate a draft response that addresses the customer's issue professionally and
       console.log(`[WorkflowExecutor]   👤 Admin ID for attribution: ${adminId} (step override: ${step.config?.adminId || 'none'}, integration default: ${integrationMetadata?.defaultSplynxAdminId || 'not set'})`);
       
       // Send the message with customer_id and admin_id for proper Splynx API format
-      const result = await splynxService.addTicketMessage(
+      const result = await integrationGuard.call(splynxIntegration, signal => splynxService.addTicketMessage(
         String(ticketId), 
         message, 
         isHidden,
-        { customerId: String(customerId), adminId }
-      );
+        { customerId: String(customerId), adminId, signal }
+      ));
       
       console.log(`[WorkflowExecutor]   ✅ Message sent to ticket ${ticketId}`);
       
@@ -2746,6 +4023,8 @@ Generate a draft response that addresses the customer's issue professionally and
         success: false,
         error: error.message,
         stack: error.stack,
+        retryable: isRetryableError(error),
+        retryAfterMs: getRetryAfterMs(error),
       };
     }
   }
@@ -0,0 +1,315 @@
+import { db } from '../../db';
+import { eq, and, desc } from 'drizzle-orm';
+import {
+  agentWorkflows,
+  agentWorkflowVersions,
+  workflowTemplates,
+  workflowTemplateVersions,
+  type AgentWorkflow,
+  type AgentWorkflowRun,
+  type AgentWorkflowVersion,
+  type WorkflowTemplate,
+  type WorkflowTemplateVersion,
+} from '@shared/schema';
+import { diffWorkflowVersions, describeVersionDiff, agentWorkflowSnapshot, workflowTemplateSnapshot } from '@shared/workflowVersionDiff';
+
+/** Agent workflow fields captured in a version; everything else (enabled flag, folder, run stats) is live */
+const AGENT_WORKFLOW_VERSIONED_FIELDS = ['name', 'description', 'triggerType', 'triggerConfig', 'workflowDefinition', 'retryConfig', 'executionTimeout'] as const;
+
+/** Workflow template fields captured in a version */
+const TEMPLATE_VERSIONED_FIELDS = ['name', 'description', 'category', 'applicableTypes', 'steps', 'completionCallbacks', 'estimatedMinutes'] as const;
+
+// Attempts at taking the next version number when two publishes race
+const MAX_PUBLISH_ATTEMPTS = 3;
+
+interface PublishOptions {
+  publishedBy?: number | null;
+  changeNote?: string | null;
+  restoredFromVersion?: number;
+}
+
+function pick<T extends Record<string, any>, K extends readonly (keyof T)[]>(record: T, fields: K): Pick<T, K[number]> {
+  return Object.fromEntries(fields.map(field => [field, record[field] ?? null])) as Pick<T, K[number]>;
+}
+
+function sameSnapshot(a: Record<string, any>, b: Record<string, any>, fields: readonly string[]): boolean {
+  return fields.every(field => JSON.stringify(a[field] ?? null) === JSON.stringify(b[field] ?? null));
+}
+
+/**
+ * Immutable published versions of agent workflows and workflow templates.
+ *
+ * Every save that changes a versioned field publishes a new version and moves the
+ * workflow's current version to it. Agent workflow runs and work item workflow
+ * executions record the version they started on and keep using its steps, so
+ * editing a workflow never changes steps underneath something already running.
+ * Rolling back publishes a copy of an older version; history is never rewritten.
+ */
+export class WorkflowVersionService {
+  // ========================================
+  // AGENT WORKFLOWS
+  // ========================================
+
+  async listAgentWorkflowVersions(workflowId: number): Promise<AgentWorkflowVersion[]> {
+    return db
+      .select()
+      .from(agentWorkflowVersions)
+      .where(eq(agentWorkflowVersions.workflowId, workflowId))
+      .orderBy(desc(agentWorkflowVersions.version));
+  }
+
+  async getAgentWorkflowVersion(workflowId: number, version: number): Promise<AgentWorkflowVersion | undefined> {
+    const [row] = await db
+      .select()
+      .from(agentWorkflowVersions)
+      .where(and(eq(agentWorkflowVersions.workflowId, workflowId), eq(agentWorkflowVersions.version, version)))
+      .limit(1);
+    return row;
+  }
+
+  /**
+   * Publish the workflow's current state as a new version, unless it matches the
+   * latest version already. Returns the version the workflow is now on.
+   */
+  async publishAgentWorkflowVersion(workflow: AgentWorkflow, options: PublishOptions = {}): Promise<AgentWorkflowVersion> {
+    const snapshot = pick(workflow, AGENT_WORKFLOW_VERSIONED_FIELDS);
+
+    for (let attempt = 1; attempt <= MAX_PUBLISH_ATTEMPTS; attempt++) {
+      const [latest] = await this.listAgentWorkflowVersions(workflow.id);
+
+      if (latest && options.restoredFromVersion === undefined && sameSnapshot(latest, snapshot, AGENT_WORKFLOW_VERSIONED_FIELDS)) {
+        if (workflow.currentVersion !== latest.version) {
+          await this.setAgentWorkflowCurrentVersion(workflow.id, latest.version);
+        }
+        return latest;
+      }
+
+      const changeNote = options.changeNote
+        ?? (latest ? describeVersionDiff(diffWorkflowVersions(agentWorkflowSnapshot(latest), agentWorkflowSnapshot(snapshot))) : 'Initial version');
+
+      const [published] = await db
+        .insert(agentWorkflowVersions)
+        .values({
+          ...snapshot,
+          name: snapshot.name,
+          triggerType: snapshot.triggerType,
+          triggerConfig: snapshot.triggerConfig ?? {},
+          workflowDefinition: snapshot.workflowDefinition ?? [],
+          workflowId: workflow.id,
+          organizationId: workflow.organizationId,
+          version: (latest?.version ?? 0) + 1,
+          changeNote,
+          restoredFromVersion: options.restoredFromVersion ?? null,
+          publishedBy: options.publishedBy ?? null,
+        })
+        .onConflictDoNothing()
+        .returning();
+
+      if (published) {
+        await this.setAgentWorkflowCurrentVersion(workflow.id, published.version);
+        console.log(`[WorkflowVersions] Agent workflow ${workflow.id} published version ${published.version}: ${changeNote}`);
+        return published;
+      }
+    }
+
+    throw new Error(`Could not publish a new version of workflow ${workflow.id}: concurrent edits`);
+  }
+
+  /** Record the pre-edit state of a workflow created before versioning, so it can be rolled back to */
+  async ensureAgentWorkflowVersioned(workflow: AgentWorkflow): Promise<void> {
+    if (workflow.currentVersion) return;
+    await this.publishAgentWorkflowVersion(workflow, { publishedBy: workflow.createdBy, changeNote: 'Initial version' });
+  }
+
+  /** Restore an earlier version by publishing a copy of it as the newest version */
+  async rollbackAgentWorkflow(workflow: AgentWorkflow, version: number, userId: number): Promise<{ workflow: AgentWorkflow; version: AgentWorkflowVersion }> {
+    const target = await this.getAgentWorkflowVersion(workflow.id, version);
+    if (!target) {
+      throw new Error(`Version ${version} not found`);
+    }
+
+    const [restored] = await db
+      .update(agentWorkflows)
+      .set({ ...pick(target, AGENT_WORKFLOW_VERSIONED_FIELDS), updatedAt: new Date() })
+      .where(eq(agentWorkflows.id, workflow.id))
+      .returning();
+
+    const published = await this.publishAgentWorkflowVersion(restored, {
+      publishedBy: userId,
+      changeNote: `Rolled back to version ${version}`,
+      restoredFromVersion: version,
+    });
+
+    return { workflow: { ...restored, currentVersion: published.version }, version: published };
+  }
+
+  /**
+   * The workflow as a run should execute it: the live record with the steps and
+   * execution settings of the version the run started on (if it recorded one).
+   */
+  async getAgentWorkflowForRun(run: Pick<AgentWorkflowRun, 'workflowId' | 'workflowVersion'>): Promise<AgentWorkflow | undefined> {
+    const [workflow] = await db
+      .select()
+      .from(agentWorkflows)
+      .where(eq(agentWorkflows.id, run.workflowId))
+      .limit(1);
+
+    if (!workflow || !run.workflowVersion || run.workflowVersion === workflow.currentVersion) {
+      return workflow;
+    }
+
+    const pinned = await this.getAgentWorkflowVersion(workflow.id, run.workflowVersion);
+    if (!pinned) {
+      return workflow;
+    }
+
+    return {
+      ...workflow,
+      workflowDefinition: pinned.workflowDefinition,
+      retryConfig: pinned.retryConfig,
+      executionTimeout: pinned.executionTimeout,
+    };
+  }
+
+  private async setAgentWorkflowCurrentVersion(workflowId: number, version: number): Promise<void> {
+    await db
+      .update(agentWorkflows)
+      .set({ currentVersion: version })
+      .where(eq(agentWorkflows.id, workflowId));
+  }
+
+  // ========================================
+  // WORKFLOW TEMPLATES
+  // ========================================
+
+  async listWorkflowTemplateVersions(templateId: string): Promise<WorkflowTemplateVersion[]> {
+    return db
+      .select()
+      .from(workflowTemplateVersions)
+      .where(eq(workflowTemplateVersions.templateId, templateId))
+      .orderBy(desc(workflowTemplateVersions.version));
+  }
+
+  async getWorkflowTemplateVersion(templateId: string, version: number): Promise<WorkflowTemplateVersion | undefined> {
+    const [row] = await db
+      .select()
+      .from(workflowTemplateVersions)
+      .where(and(eq(workflowTemplateVersions.templateId, templateId), eq(workflowTemplateVersions.version, version)))
+      .limit(1);
+    return row;
+  }
+
+  /** Same as publishAgentWorkflowVersion, for templates; workflow_templates.version is the current version */
+  async publishWorkflowTemplateVersion(template: WorkflowTemplate, options: PublishOptions = {}): Promise<WorkflowTemplateVersion> {
+    const snapshot = pick(template, TEMPLATE_VERSIONED_FIELDS);
+
+    for (let attempt = 1; attempt <= MAX_PUBLISH_ATTEMPTS; attempt++) {
+      const [latest] = await this.listWorkflowTemplateVersions(template.id);
+
+      if (latest && options.restoredFromVersion === undefined && sameSnapshot(latest, snapshot, TEMPLATE_VERSIONED_FIELDS)) {
+        if (template.version !== latest.version) {
+          await this.setWorkflowTemplateCurrentVersion(template.id, latest.version);
+        }
+        return latest;
+      }
+
+      const changeNote = options.changeNote
+        ?? (latest ? describeVersionDiff(diffWorkflowVersions(workflowTemplateSnapshot(latest), workflowTemplateSnapshot(snapshot))) : 'Initial version');
+
+      // Templates created before versioning already carry a version number; continue from it
+      const [published] = await db
+        .insert(workflowTemplateVersions)
+        .values({
+          ...snapshot,
+          name: snapshot.name,
+          steps: snapshot.steps ?? [],
+          templateId: template.id,
+          organizationId: template.organizationId,
+          version: latest ? latest.version + 1 : (template.version || 1),
+          changeNote,
+          restoredFromVersion: options.restoredFromVersion ?? null,
+          publishedBy: options.publishedBy ?? null,
+        })
+        .onConflictDoNothing()
+        .returning();
+
+      if (published) {
+        await this.setWorkflowTemplateCurrentVersion(template.id, published.version);
+        console.log(`[WorkflowVersions] Workflow template ${template.id} published version ${published.version}: ${changeNote}`);
+        return published;
+      }
+    }
+
+    throw new Error(`Could not publish a new version of workflow template ${template.id}: concurrent edits`);
+  }
+
+  async ensureWorkflowTemplateVersioned(template: WorkflowTemplate): Promise<void> {
+    const [latest] = await this.listWorkflowTemplateVersions(template.id);
+    if (latest) return;
+    await this.publishWorkflowTemplateVersion(template, { changeNote: 'Initial version' });
+  }
+
+  async rollbackWorkflowTemplate(template: WorkflowTemplate, version: number, userId: number): Promise<{ template: WorkflowTemplate; version: WorkflowTemplateVersion }> {
+    const target = await this.getWorkflowTemplateVersion(template.id, version);
+    if (!target) {
+      throw new Error(`Version ${version} not found`);
+    }
+
+    const { applicableTypes, ...fields } = pick(target, TEMPLATE_VERSIONED_FIELDS);
+    const [restored] = await db
+      .update(workflowTemplates)
+      .set({ ...fields, ...(applicableTypes ? { applicableTypes } : {}), updatedAt: new Date() })
+      .where(eq(workflowTemplates.id, template.id))
+      .returning();
+
+    const published = await this.publishWorkflowTemplateVersion(restored, {
+      publishedBy: userId,
+      changeNote: `Rolled back to version ${version}`,
+      restoredFromVersion: version,
+    });
+
+    return { template: { ...restored, version: published.version }, version: published };
+  }
+
+  /**
+   * The template as an execution should see it: the live record with the steps
+   * and completion callbacks of the version the execution started on.
+   */
+  async getWorkflowTemplateForExecution(
+    execution: { workflowTemplateId: string | null; workflowTemplateVersion: number | null },
+    organizationId: number
+  ): Promise<WorkflowTemplate | undefined> {
+    if (!execution.workflowTemplateId) return undefined;
+
+    const [template] = await db
+      .select()
+      .from(workflowTemplates)
+      .where(and(eq(workflowTemplates.id, execution.workflowTemplateId), eq(workflowTemplates.organizationId, organizationId)))
+      .limit(1);
+
+    if (!template || !execution.workflowTemplateVersion || execution.workflowTemplateVersion === template.version) {
+      return template;
+    }
+
+    const pinned = await this.getWorkflowTemplateVersion(template.id, execution.workflowTemplateVersion);
+    if (!pinned) {
+      return template;
+    }
+
+    return {
+      ...template,
+      steps: pinned.steps,
+      completionCallbacks: pinned.completionCallbacks,
+      version: pinned.version,
+    };
+  }
+
+  private async setWorkflowTemplateCurrentVersion(templateId: string, version: number): Promise<void> {
+    await db
+      .update(workflowTemplates)
+      .set({ version })
+      .where(eq(workflowTemplates.id, templateId));
+  }
+}
+
+export const workflowVersions = new WorkflowVersionService();
@@ -0,0 +1,177 @@
+/**
+ * Internal platform events that agent workflows can be bound to.
+ *
+ * Each event type has a typed payload and a catalogue entry, which is published
+ * as integration triggers of the built-in "Platform Events" integration so the
+ * existing trigger picker can offer them alongside webhook triggers.
+ */
+
+import type { FiberNetworkNode, KeyResult, WorkItem } from '@shared/schema';
+import type { TriggerDefinition } from '../integrations/TriggerDiscoveryService';
+
+export interface PlatformEventPayloads {
+  'work_item.status_changed': {
+    workItemId: number;
+    title: string;
+    oldStatus: string;
+    newStatus: string;
+    workItemType: string | null;
+    assignedTo: number | null;
+    teamId: number | null;
+  };
+  'work_item.unblocked': {
+    workItemId: number;
+    title: string;
+    status: string;
+    resolvedBlockerId: number;
+    resolvedBlockerTitle: string;
+    assignedTo: number | null;
+    teamId: number | null;
+  };
+  'key_result.updated': {
+    keyResultId: number;
+    objectiveId: number | null;
+    title: string;
+    oldValue: string | null;
+    newValue: string | null;
+    targetValue: string | null;
+    status: string | null;
+  };
+  'booking.confirmed': {
+    bookingId: number;
+    customerName: string | null;
+    taskType: string;
+    selectedDatetime: string;
+    splynxTaskId: number | string | null;
+    workItemId: number | null;
+  };
+  'fiber_node.created': {
+    nodeId: number;
+    name: string;
+    nodeType: string;
+    network: string;
+    status: string;
+    latitude: string;
+    longitude: string;
+    source: 'web' | 'field_app';
+  };
+  'xero.transaction_synced': {
+    syncedCount: number;
+    failedCount: number;
+    invoices: number;
+    bankTransactions: number;
+    payments: number;
+    status: string;
+  };
+}
+
+export type PlatformEventType = keyof PlatformEventPayloads;
+
+/** Build the work_item.status_changed payload from the updated work item and its previous status */
+export function workItemStatusChangedPayload(
+  item: WorkItem,
+  oldStatus: string
+): PlatformEventPayloads['work_item.status_changed'] {
+  return {
+    workItemId: item.id,
+    title: item.title,
+    oldStatus,
+    newStatus: item.status,
+    workItemType: item.workItemType,
+    assignedTo: item.assignedTo,
+    teamId: item.teamId,
+  };
+}
+
+/** Build the key_result.updated payload from the updated key result and its previous value */
+export function keyResultUpdatedPayload(
+  keyResult: KeyResult,
+  oldValue: string | null
+): PlatformEventPayloads['key_result.updated'] {
+  return {
+    keyResultId: keyResult.id,
+    objectiveId: keyResult.objectiveId ?? null,
+    title: keyResult.title,
+    oldValue,
+    newValue: keyResult.currentValue ?? null,
+    targetValue: keyResult.targetValue ?? null,
+    status: keyResult.status ?? null,
+  };
+}
+
+/** Build the fiber_node.created payload from a freshly inserted node */
+export function fiberNodeCreatedPayload(
+  node: FiberNetworkNode,
+  source: PlatformEventPayloads['fiber_node.created']['source']
+): PlatformEventPayloads['fiber_node.created'] {
+  return {
+    nodeId: node.id,
+    name: node.name,
+    nodeType: node.nodeType,
+    network: node.network,
+    status: node.status,
+    latitude: node.latitude,
+    longitude: node.longitude,
+    source,
+  };
+}
+
+/** Platform type of the built-in integration that owns the platform event triggers */
+export const PLATFORM_EVENTS_INTEGRATION_TYPE = 'platform';
+
+export const PLATFORM_EVENT_DEFINITIONS: TriggerDefinition[] = [
+  {
+    triggerKey: 'work_item.status_changed',
+    name: 'Work Item Status Changed',
+    description: 'A work item moved to a different status',
+    category: 'work_items',
+    eventType: 'internal',
+    payloadSchema: {},
+    availableFields: ['workItemId', 'title', 'oldStatus', 'newStatus', 'workItemType', 'assignedTo', 'teamId'],
+  },
+  {
+    triggerKey: 'work_item.unblocked',
+    name: 'Work Item Unblocked',
+    description: 'The last open blocker of a work item was completed or archived',
+    category: 'work_items',
+    eventType: 'internal',
+    payloadSchema: {},
+    availableFields: ['workItemId', 'title', 'status', 'resolvedBlockerId', 'resolvedBlockerTitle', 'assignedTo', 'teamId'],
+  },
+  {
+    triggerKey: 'key_result.updated',
+    name: 'Key Result Updated',
+    description: 'The current value or status of a key result changed',
+    category: 'strategy',
+    eventType: 'internal',
+    payloadSchema: {},
+    availableFields: ['keyResultId', 'objectiveId', 'title', 'oldValue', 'newValue', 'targetValue', 'status'],
+  },
+  {
+    triggerKey: 'booking.confirmed',
+    name: 'Booking Confirmed',
+    description: 'A customer confirmed an appointment booking',
+    category: 'bookings',
+    eventType: 'internal',
+    payloadSchema: {},
+    availableFields: ['bookingId', 'customerName', 'taskType', 'selectedDatetime', 'splynxTaskId', 'workItemId'],
+  },
+  {
+    triggerKey: 'fiber_node.created',
+    name: 'Fiber Node Created',
+    description: 'A fiber network node was added from the web app or the field app',
+    category: 'fiber_network',
+    eventType: 'internal',
+    payloadSchema: {},
+    availableFields: ['nodeId', 'name', 'nodeType', 'network', 'status', 'latitude', 'longitude', 'source'],
+  },
+  {
+    triggerKey: 'xero.transaction_synced',
+    name: 'Xero Transactions Synced',
+    description: 'A Xero transaction sync finished (one event per sync, with counts)',
+    category: 'finance',
+    eventType: 'internal',
+    payloadSchema: {},
+    availableFields: ['syncedCount', 'failedCount', 'invoices', 'bankTransactions', 'payments', 'status'],
+  },
+];
@@ -0,0 +1,114 @@
+/**
+ * Simulation (dry-run) support for agent workflows.
+ * In a simulated run, write steps are recorded instead of executed and read
+ * steps can be answered from fixtures, so builders can validate a workflow
+ * before enabling it.
+ */
+
+/** Step types that change data in the platform or an external system. */
+export const SIMULATED_WRITE_STEP_TYPES = [
+  'create_work_item',
+  'strategy_update',
+  'integration_action',
+  'splynx_ticket_message',
+  'ai_draft_response',
+  'notification',
+];
+
+/** Step types that only read data and can be fed fixture data instead. */
+export const FIXTURE_READ_STEP_TYPES = [
+  'splynx_query',
+  'data_source_query',
+  'database_query',
+  'api_call',
+];
+
+const READ_HTTP_METHODS = ['GET', 'HEAD'];
+
+/**
+ * Whether the step writes, so a simulated run must record it instead of
+ * executing it. An api_call is only a read when its method is GET or HEAD.
+ */
+export function isWriteStep(step: any): boolean {
+  if (step.type === 'api_call') {
+    return !READ_HTTP_METHODS.includes(String(step.config?.method || 'GET').toUpperCase());
+  }
+  return SIMULATED_WRITE_STEP_TYPES.includes(step.type);
+}
+
+export interface SimulationOptions {
+  /** Fixture outputs for read steps, keyed by step id or step name */
+  fixtures?: Record<string, any>;
+}
+
+export interface TraceDiffEntry {
+  step: number;
+  name: string;
+  type: string;
+  change: 'added' | 'removed' | 'changed' | 'unchanged';
+  before?: { success: boolean; output?: any; error?: string };
+  after?: { success: boolean; output?: any; error?: string };
+  changedFields?: string[];
+}
+
+/**
+ * Look up the fixture for a step. Fixtures can be keyed by step id or name.
+ */
+export function findFixture(fixtures: Record<string, any> | undefined, step: any): { found: boolean; value?: any } {
+  if (!fixtures) return { found: false };
+  if (step.id && step.id in fixtures) return { found: true, value: fixtures[step.id] };
+  if (step.name && step.name in fixtures) return { found: true, value: fixtures[step.name] };
+  return { found: false };
+}
+
+/**
+ * Compare two execution logs step by step. Timing fields are ignored so only
+ * behavioural differences (success, output, error, step identity) show up.
+ */
+export function diffExecutionTraces(baseLog: any[], newLog: any[]): TraceDiffEntry[] {
+  const diff: TraceDiffEntry[] = [];
+  const length = Math.max(baseLog.length, newLog.length);
+
+  for (let i = 0; i < length; i++) {
+    const before = baseLog[i];
+    const after = newLog[i];
+
+    if (!before) {
+      diff.push({ step: after.step, name: after.name, type: after.type, change: 'added', after: summarize(after) });
+      continue;
+    }
+    if (!after) {
+      diff.push({ step: before.step, name: before.name, type: before.type, change: 'removed', before: summarize(before) });
+      continue;
+    }
+
+    const changedFields: string[] = [];
+    if (before.name !== after.name) changedFields.push('name');
+    if (before.type !== after.type) changedFields.push('type');
+    if (before.success !== after.success) changedFields.push('success');
+    if (before.error !== after.error) changedFields.push('error');
+    if (stableStringify(before.output) !== stableStringify(after.output)) changedFields.push('output');
+
+    diff.push({
+      step: after.step,
+      name: after.name,
+      type: after.type,
+      change: changedFields.length > 0 ? 'changed' : 'unchanged',
+      before: summarize(before),
+      after: summarize(after),
+      changedFields: changedFields.length > 0 ? changedFields : undefined,
+    });
+  }
+
+  return diff;
+}
+
+function summarize(entry: any) {
+  return { success: entry.success, output: entry.output, error: entry.error };
+}
+
+function stableStringify(value: any): string {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value) ?? 'undefined';
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+}
@@ -0,0 +1,81 @@
+/**
+ * Static analysis of agent workflow definitions.
+ * Used to detect call_workflow cycles before a workflow is saved.
+ */
+
+/** Maximum number of workflows in a chain of call_workflow invocations at runtime, the top-level one included. */
+export const MAX_WORKFLOW_NESTING_DEPTH = 5;
+
+/**
+ * Collect the ids of all workflows invoked by call_workflow steps,
+ * including steps nested in loops, conditional paths, parallel branches and
+ * the approved/rejected paths of approval steps.
+ */
+export function collectCalledWorkflowIds(steps: any[]): number[] {
+  const ids = new Set<number>();
+
+  const visit = (stepList: any[] | undefined) => {
+    for (const step of stepList || []) {
+      if (!step) continue;
+      const config = step.config || {};
+
+      if (step.type === 'call_workflow' && config.workflowId) {
+        ids.add(Number(config.workflowId));
+      }
+
+      visit(config.childSteps);
+      visit(config.defaultPath?.steps);
+      for (const path of config.conditions || []) {
+        visit(path?.pathSteps);
+      }
+      for (const branch of config.branches || []) {
+        visit(branch?.steps);
+      }
+      visit(config.approvedSteps);
+      visit(config.rejectedSteps);
+      if (config.ifTrue) visit([config.ifTrue]);
+      if (config.ifFalse) visit([config.ifFalse]);
+    }
+  };
+
+  visit(steps);
+  return Array.from(ids);
+}
+
+/**
+ * Find a call cycle that would be introduced by saving `steps` as the definition
+ * of `workflowId`. Returns the cycle as a list of workflow ids, or null if there is none.
+ */
+export function findWorkflowCallCycle(
+  workflowId: number,
+  steps: any[],
+  workflows: Array<{ id: number; workflowDefinition: unknown }>
+): number[] | null {
+  const definitions = new Map<number, any[]>();
+  for (const workflow of workflows) {
+    definitions.set(workflow.id, Array.isArray(workflow.workflowDefinition) ? workflow.workflowDefinition : []);
+  }
+  definitions.set(workflowId, steps);
+
+  const visiting: number[] = [];
+  const done = new Set<number>();
+
+  const dfs = (id: number): number[] | null => {
+    const cycleStart = visiting.indexOf(id);
+    if (cycleStart !== -1) {
+      return [...visiting.slice(cycleStart), id];
+    }
+    if (done.has(id)) return null;
+
+    visiting.push(id);
+    for (const calledId of collectCalledWorkflowIds(definitions.get(id) || [])) {
+      const cycle = dfs(calledId);
+      if (cycle) return cycle;
+    }
+    visiting.pop();
+    done.add(id);
+    return null;
+  };
+
+  return dfs(workflowId);
+}
@@ -217,6 +217,8 @@ import {
   type VapiKnowledgeFile,
   type InsertVapiKnowledgeFile,
 } from "../shared/schema";
+import { describeRRule, validateRRule } from "../shared/recurrence";
+import { workflowVersions } from "./services/workflow/WorkflowVersionService";
 
 export interface ICleanStorage {
   // Core User Management
@@ -1386,6 +1388,9 @@ export class CleanDatabaseStorage implements ICleanStorage {
         keyResultId: task.keyResultId,
         keyResultTitle: keyResult?.title || 'No Key Result',
         frequency: task.frequency,
+        recurrenceRule: task.recurrenceRule,
+        recurrenceDescription: task.recurrenceRule ? describeRRule(task.recurrenceRule) : null,
+        skipPublicHolidays: task.skipPublicHolidays,
         nextDueDate: task.nextDueDate,
         completedCount: task.completedCount || 0,
         totalOccurrences: task.totalOccurrences,
@@ -1742,8 +1747,15 @@ export class CleanDatabaseStorage implements ICleanStorage {
   async validateRecurringTaskConfig(task: Partial<KeyResultTask>): Promise<string[]> {
     const errors: string[] = [];
     
-    if (task.isRecurring && !task.frequency) {
-      errors.push('Recurring tasks must have a frequency');
+    if (task.isRecurring && !task.frequency && !task.recurrenceRule) {
+      errors.push('Recurring tasks must have a frequency or recurrence rule');
+    }
+    
+    if (task.recurrenceRule) {
+      const ruleError = validateRRule(task.recurrenceRule);
+      if (ruleError) {
+        errors.push(`Invalid recurrence rule: ${ruleError}`);
+      }
     }
     
     if (task.isRecurring && !task.nextDueDate) {
@@ -4021,6 +4033,8 @@ export class CleanDatabaseStorage implements ICleanStorage {
 
   // Workflow Assignment & Execution operations
   async assignWorkflowToWorkItem(organizationId: number, workItemId: number, templateId: string): Promise<{ workItem: any, execution: any }> {
+    const template = await this.getWorkflowTemplate(organizationId, templateId);
+
     // Update work item with workflow template ID
     const [updatedWorkItem] = await db.update(workItems)
       .set({ 
@@ -4042,6 +4056,7 @@ export class CleanDatabaseStorage implements ICleanStorage {
         organizationId,
         workItemId,
         workflowTemplateId: templateId,
+        workflowTemplateVersion: template?.version ?? null,
         status: 'not_started',
         executionData: {},
         createdAt: new Date(),
@@ -4068,9 +4083,6 @@ export class CleanDatabaseStorage implements ICleanStorage {
       return { template: null, execution: null, progress: 0 };
     }
 
-    // Get template
-    const template = await this.getWorkflowTemplate(organizationId, workItem.workflowTemplateId);
-
     // Get execution
     const [execution] = await db.select()
       .from(workItemWorkflowExecutions)
@@ -4083,6 +4095,11 @@ export class CleanDatabaseStorage implements ICleanStorage {
       .orderBy(desc(workItemWorkflowExecutions.createdAt))
       .limit(1);
 
+    // An execution keeps the template version it started on
+    const template = execution && execution.workflowTemplateId === workItem.workflowTemplateId
+      ? await workflowVersions.getWorkflowTemplateForExecution(execution, organizationId)
+      : await this.getWorkflowTemplate(organizationId, workItem.workflowTemplateId);
+
     // Calculate progress
     let progress = 0;
     if (template && execution && execution.executionData) {
@@ -4120,8 +4137,8 @@ export class CleanDatabaseStorage implements ICleanStorage {
       }
     };
 
-    // Determine status
-    const template = await this.getWorkflowTemplate(organizationId, execution.workflowTemplateId || '');
+    // Determine status against the template version the execution started on
+    const template = await workflowVersions.getWorkflowTemplateForExecution(execution, organizationId);
     let status = execution.status;
     if (template) {
       const completedSteps = Object.values(updatedExecutionData).filter((s: any) => s.completed === true).length;
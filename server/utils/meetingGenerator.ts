@@ -1,5 +1,6 @@
 import { db } from '../db.js';
 import { teams, checkInMeetings } from '../../shared/schema.js';
+import { meetingAgenda } from '../services/MeetingAgendaService.js';
 import { eq, and, gte, lte, sql } from 'drizzle-orm';
 import { 
   addDays, 
@@ -659,6 +660,13 @@ export async function ensureTeamMeetings(
         if (DEBUG) {
           console.log(`✅ Created meeting #${newId} on ${scheduledDate.toISOString()}`);
         }
+        
+        // Seed the agenda from OKR changes, overdue items, feedback and carry-overs; refreshed again at meeting start
+        try {
+          await meetingAgenda.buildAgenda(teamData.organizationId, newId);
+        } catch (agendaError: any) {
+          console.error(`❌ Failed to build agenda for meeting #${newId}:`, agendaError.message);
+        }
       }
     } catch (error: any) {
       console.error(`❌ Failed to create meeting:`, error.message);
@@ -0,0 +1,45 @@
+/**
+ * Field App Delta Downloads
+ *
+ * Each device holds a sync cursor issued by the server, marking the point in
+ * the work item change feed its downloaded data is up to date with. A
+ * download sent with the cursor only carries the work items (and their
+ * workflow progress) and templates changed since then. Its final batch also
+ * carries tombstones for items the device holds that have been deleted or
+ * are no longer assigned to the engineer, and the cursor for the next
+ * download. Without a cursor, or with a stale one, the download is full.
+ */
+
+/** How an available work item compares with the device's copy */
+export type WorkItemChange = 'added' | 'updated' | 'unchanged';
+
+export type TombstoneReason = 'deleted' | 'unassigned';
+
+export interface WorkItemTombstone {
+  workItemId: number;
+  reason: TombstoneReason;
+}
+
+/** Per download batch: which of the requested items were sent */
+export interface DownloadBatchChanges {
+  delta: boolean;
+  added: number[];
+  updated: number[];
+  unchanged: number;
+}
+
+/** What the device's last download changed, kept on the device for the download screen */
+export interface DownloadSummary {
+  delta: boolean;
+  at: string;
+  added: Array<{ id: number; title: string }>;
+  updated: Array<{ id: number; title: string }>;
+  removed: Array<{ id: number; title: string; reason: TombstoneReason }>;
+  unchanged: number;
+  templates: number;
+}
+
+export const TOMBSTONE_REASON_LABELS: Record<TombstoneReason, string> = {
+  deleted: 'Deleted',
+  unassigned: 'No longer assigned to you',
+};
@@ -0,0 +1,96 @@
+/**
+ * Field App Offline Map
+ *
+ * The field app can take a map of the area around its downloaded work items
+ * offline: the base map tiles plus the fiber network nodes and cable routes
+ * inside a bounding box. The server works out the box from the work items'
+ * chamber and node locations; the app fetches the tiles for it.
+ *
+ * Tiles are only offered for bulk download from a tile server configured with
+ * FIELD_APP_TILE_URL (and FIELD_APP_TILE_ATTRIBUTION). Public servers such as
+ * tile.openstreetmap.org forbid offline prefetching, so without one the area
+ * carries the network only.
+ */
+
+export interface MapBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+/** Margin added around the work item locations, so nearby chambers and routes come too */
+export const DEFAULT_AREA_PADDING_METERS = 500;
+export const MAX_AREA_PADDING_METERS = 5000;
+
+/** Limits on one area, so a request can't ask for a whole region's network and tiles */
+export const MAX_AREA_WORK_ITEMS = 500;
+export const MAX_AREA_SPAN_METERS = 50000;
+
+export interface OfflineNetworkNode {
+  id: number;
+  name: string;
+  nodeType: string;
+  status: string;
+  network: string;
+  latitude: number;
+  longitude: number;
+  what3words: string | null;
+  address: string | null;
+}
+
+export interface OfflineCable {
+  id: string;
+  cableIdentifier: string;
+  status: string;
+  cableType: string | null;
+  fiberCount: number | null;
+  startNodeId: number;
+  endNodeId: number;
+  routeGeometry: Array<[number, number]>;
+}
+
+export interface OfflineMapArea {
+  bounds: MapBounds | null; // Null when none of the work items has a location
+  locatedWorkItemIds: number[];
+  nodes: OfflineNetworkNode[];
+  cables: OfflineCable[];
+  tileUrl: string | null; // Null when no tile server is configured for offline use
+  attribution: string | null;
+}
+
+/** Smallest box containing the points, grown by paddingMeters on every side */
+export function boundsAround(points: Array<[number, number]>, paddingMeters: number): MapBounds | null {
+  if (points.length === 0) return null;
+
+  let south = 90, west = 180, north = -90, east = -180;
+  for (const [latitude, longitude] of points) {
+    south = Math.min(south, latitude);
+    north = Math.max(north, latitude);
+    west = Math.min(west, longitude);
+    east = Math.max(east, longitude);
+  }
+
+  const latPadding = paddingMeters / 111320;
+  const middle = ((south + north) / 2) * Math.PI / 180;
+  const lngPadding = paddingMeters / (111320 * Math.max(Math.cos(middle), 0.01));
+
+  return {
+    south: Math.max(south - latPadding, -85),
+    west: Math.max(west - lngPadding, -180),
+    north: Math.min(north + latPadding, 85),
+    east: Math.min(east + lngPadding, 180),
+  };
+}
+
+/** Longest side of the box, in meters */
+export function boundsSpanMeters(bounds: MapBounds): number {
+  const middle = ((bounds.south + bounds.north) / 2) * Math.PI / 180;
+  const height = (bounds.north - bounds.south) * 111320;
+  const width = (bounds.east - bounds.west) * 111320 * Math.cos(middle);
+  return Math.max(height, width);
+}
+
+export function isInBounds(bounds: MapBounds, latitude: number, longitude: number): boolean {
+  return latitude >= bounds.south && latitude <= bounds.north && longitude >= bounds.west && longitude <= bounds.east;
+}
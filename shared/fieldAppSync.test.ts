@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { isSyncedWorkItemField, mergeWorkItem, pickSyncedValues, sameValue, suggestMerge } from './fieldAppSync';
+
+describe('sameValue', () => {
+  it('treats null, undefined and empty strings as the same', () => {
+    assert.equal(sameValue(null, undefined), true);
+    assert.equal(sameValue('', null), true);
+    assert.equal(sameValue('0', 0), true);
+    assert.equal(sameValue('a', 'b'), false);
+  });
+
+  it('compares dates by their day', () => {
+    assert.equal(sameValue(new Date('2026-03-01T15:30:00Z'), '2026-03-01'), true);
+    assert.equal(sameValue('2026-03-01T00:00:00.000Z', '2026-03-02'), false);
+  });
+});
+
+describe('pickSyncedValues', () => {
+  it('keeps only synced fields that are present', () => {
+    assert.deepEqual(pickSyncedValues({ id: 7, title: 'Splice', notes: null, organizationId: 1 }), { title: 'Splice', notes: null });
+    assert.equal(isSyncedWorkItemField('status'), true);
+    assert.equal(isSyncedWorkItemField('organizationId'), false);
+  });
+});
+
+describe('mergeWorkItem', () => {
+  const base = { title: 'Splice fibre', status: 'Ready', notes: 'Bring ladder', dueDate: '2026-03-01' };
+
+  it('takes fields changed only by the engineer', () => {
+    const mine = { ...base, status: 'Completed' };
+    const theirs = { ...base, title: 'Splice fibre at cabinet 4' };
+    assert.deepEqual(mergeWorkItem(base, mine, theirs), { changes: { status: 'Completed' }, conflicts: [] });
+  });
+
+  it('reports fields changed on both sides to different values', () => {
+    const mine = { ...base, notes: 'Ladder in van' };
+    const theirs = { ...base, notes: 'Use the cherry picker' };
+    assert.deepEqual(mergeWorkItem(base, mine, theirs), {
+      changes: {},
+      conflicts: [{ field: 'notes', base: 'Bring ladder', mine: 'Ladder in van', theirs: 'Use the cherry picker' }],
+    });
+  });
+
+  it('needs nothing for fields changed on both sides to the same value', () => {
+    const mine = { ...base, dueDate: '2026-03-05' };
+    const theirs = { ...base, dueDate: '2026-03-05T00:00:00.000Z' };
+    assert.deepEqual(mergeWorkItem(base, mine, theirs), { changes: {}, conflicts: [] });
+  });
+
+  it('leaves out fields the engineer did not send', () => {
+    assert.deepEqual(mergeWorkItem(base, { status: 'Stuck' }, { ...base, notes: 'Changed in the office' }), {
+      changes: { status: 'Stuck' },
+      conflicts: [],
+    });
+  });
+});
+
+describe('suggestMerge', () => {
+  it('puts the engineer\'s text first and avoids repeating text', () => {
+    assert.equal(suggestMerge({ field: 'notes', base: 'a', mine: 'Ladder in van', theirs: 'Use the cherry picker' }), 'Ladder in van\n\nUse the cherry picker');
+    assert.equal(suggestMerge({ field: 'notes', base: 'a', mine: 'Ladder', theirs: 'Ladder in van' }), 'Ladder in van');
+    assert.equal(suggestMerge({ field: 'notes', base: 'a', mine: 'Ladder in van', theirs: 'Ladder' }), 'Ladder in van');
+    assert.equal(suggestMerge({ field: 'notes', base: 'a', mine: null, theirs: 'Ladder' }), 'Ladder');
+    assert.equal(suggestMerge({ field: 'notes', base: 'a', mine: 'Ladder', theirs: '' }), 'Ladder');
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Field App Sync Conflicts
+ *
+ * Every work item the field app downloads keeps a copy of its synced fields
+ * as they were on the server (the base). On sync the server compares the
+ * engineer's values and its own against that base, field by field: a field
+ * changed on one side only is taken from that side, a field changed on both
+ * sides to different values is a conflict for the engineer to resolve.
+ */
+
+/** Work item fields the field app can edit and sync back */
+export const SYNCED_WORK_ITEM_FIELDS = {
+  title: 'Title',
+  description: 'Description',
+  status: 'Status',
+  notes: 'Notes',
+  dueDate: 'Due date',
+  assignedTo: 'Assignee',
+} as const;
+
+export type SyncedWorkItemField = keyof typeof SYNCED_WORK_ITEM_FIELDS;
+
+/** Free text fields, which can be merged by hand rather than only picked */
+export const MERGEABLE_FIELDS: SyncedWorkItemField[] = ['title', 'description', 'notes'];
+
+export type SyncedWorkItemValues = Partial<Record<SyncedWorkItemField, unknown>>;
+
+/** The server's copy of a work item when the field app downloaded it */
+export interface WorkItemBase {
+  values: SyncedWorkItemValues;
+  updatedAt: string | null;
+}
+
+export interface FieldConflict {
+  field: SyncedWorkItemField;
+  base: unknown;
+  mine: unknown;
+  theirs: unknown;
+}
+
+export interface WorkItemSyncConflict {
+  entityId: number;
+  type: 'workItem';
+  error: string;
+  title: string;
+  fields: FieldConflict[];
+  /** The server's synced fields at the time of the conflict, the base for the resolution */
+  server: SyncedWorkItemValues;
+  serverUpdatedAt: string | null;
+}
+
+export type FieldResolution = 'mine' | 'theirs' | 'merge';
+
+export function isSyncedWorkItemField(value: unknown): value is SyncedWorkItemField {
+  return typeof value === 'string' && value in SYNCED_WORK_ITEM_FIELDS;
+}
+
+/** Null, undefined and empty strings are the same; dates compare by their day */
+function normalise(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '';
+  if (value instanceof Date) return value.toISOString().split('T')[0];
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) return value.split('T')[0];
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+export function sameValue(a: unknown, b: unknown): boolean {
+  return normalise(a) === normalise(b);
+}
+
+/** The synced fields present on a work item; missing fields are left out rather than cleared */
+export function pickSyncedValues(item: Record<string, unknown>): SyncedWorkItemValues {
+  const values: SyncedWorkItemValues = {};
+  for (const field of Object.keys(SYNCED_WORK_ITEM_FIELDS) as SyncedWorkItemField[]) {
+    if (item[field] !== undefined) values[field] = item[field];
+  }
+  return values;
+}
+
+/**
+ * Three-way merge of one work item. Returns the fields to write to the server
+ * (changed by the engineer only) and the fields changed on both sides to
+ * different values. Fields changed on both sides to the same value need neither.
+ */
+export function mergeWorkItem(
+  base: SyncedWorkItemValues,
+  mine: SyncedWorkItemValues,
+  theirs: SyncedWorkItemValues
+): { changes: SyncedWorkItemValues; conflicts: FieldConflict[] } {
+  const changes: SyncedWorkItemValues = {};
+  const conflicts: FieldConflict[] = [];
+
+  for (const field of Object.keys(SYNCED_WORK_ITEM_FIELDS) as SyncedWorkItemField[]) {
+    if (!(field in mine) || sameValue(mine[field], base[field])) continue;
+    if (sameValue(theirs[field], base[field])) {
+      changes[field] = mine[field];
+    } else if (!sameValue(theirs[field], mine[field])) {
+      conflicts.push({ field, base: base[field] ?? null, mine: mine[field], theirs: theirs[field] ?? null });
+    }
+  }
+
+  return { changes, conflicts };
+}
+
+/** Starting point for a hand merge of a text field: both versions, the engineer's first */
+export function suggestMerge(conflict: FieldConflict): string {
+  const mine = normalise(conflict.mine);
+  const theirs = normalise(conflict.theirs);
+  if (!mine) return theirs;
+  if (!theirs || theirs.includes(mine)) return theirs || mine;
+  if (mine.includes(theirs)) return mine;
+  return `${mine}\n\n${theirs}`;
+}
@@ -0,0 +1,100 @@
+/**
+ * Key Result Data Bindings
+ *
+ * A data binding keeps a key result's current value in sync with a metric from a
+ * data table query, a Xero report line or a Splynx count. Each refresh writes a
+ * key result snapshot carrying the lineage below, so the detail panel can show
+ * exactly which source, query and raw value a number came from.
+ */
+
+export type DataBindingSourceType = 'data_table' | 'xero_report' | 'splynx_count';
+
+export const DATA_BINDING_SOURCE_TYPES: DataBindingSourceType[] = ['data_table', 'xero_report', 'splynx_count'];
+
+export const DATA_BINDING_SOURCE_LABELS: Record<DataBindingSourceType, string> = {
+  data_table: 'Data table query',
+  xero_report: 'Xero report line',
+  splynx_count: 'Splynx count',
+};
+
+export interface DataTableBindingConfig {
+  sourceTable: string;
+  queryConfig: {
+    filters: Array<{ id?: string; field: string; operator: string; value: any }>;
+    aggregation: 'count' | 'sum' | 'avg' | 'min' | 'max';
+    aggregationField?: string;
+  };
+}
+
+export type XeroReportType = 'ProfitAndLoss' | 'BalanceSheet' | 'BankSummary';
+
+export type XeroReportPeriod = 'today' | 'this_month' | 'last_month' | 'this_quarter' | 'this_year';
+
+export const XERO_REPORT_LABELS: Record<XeroReportType, string> = {
+  ProfitAndLoss: 'Profit and Loss',
+  BalanceSheet: 'Balance Sheet',
+  BankSummary: 'Bank Summary',
+};
+
+export const XERO_PERIOD_LABELS: Record<XeroReportPeriod, string> = {
+  today: 'Today',
+  this_month: 'This month',
+  last_month: 'Last month',
+  this_quarter: 'This quarter',
+  this_year: 'This year',
+};
+
+export interface XeroReportBindingConfig {
+  report: XeroReportType;
+  period: XeroReportPeriod;
+  /** Row label to read, e.g. "Total Income" or "Net Profit" (case-insensitive) */
+  lineLabel: string;
+  /** Optional section title to narrow the search, e.g. "Income" */
+  section?: string;
+  /** Cell index in the row; 1 is the first value column */
+  column?: number;
+}
+
+export interface SplynxCountBindingConfig {
+  entity: 'customers' | 'leads' | 'support_tickets' | 'scheduling_tasks';
+  filters: Array<{ id?: string; field: string; operator: string; value: any }>;
+  dateRange?: string;
+  dateRangeField?: 'date_add' | 'last_update';
+}
+
+/** Stored on each snapshot written by a data binding refresh */
+export interface DataBindingLineage {
+  sourceType: DataBindingSourceType;
+  description: string;
+  /** The query as it was run, with periods and dates resolved */
+  source: Record<string, unknown>;
+  rawValue: unknown;
+  evaluatedAt: string;
+  trigger: 'schedule' | 'manual';
+}
+
+/** One-line description of a binding, e.g. "Xero Profit and Loss: Total Income (this month)" */
+export function describeDataBinding(sourceType: string, config: Record<string, any>): string {
+  switch (sourceType) {
+    case 'data_table': {
+      const { aggregation = 'count', aggregationField, filters = [] } = config.queryConfig || {};
+      const measure = aggregation === 'count' ? 'Count of' : `${aggregation.toUpperCase()} of ${aggregationField} in`;
+      const filterText = filters.length > 0 ? ` (${filters.length} filter${filters.length === 1 ? '' : 's'})` : '';
+      return `${measure} ${config.sourceTable}${filterText}`;
+    }
+    case 'xero_report': {
+      const report = XERO_REPORT_LABELS[config.report as XeroReportType] || config.report;
+      const period = XERO_PERIOD_LABELS[config.period as XeroReportPeriod]?.toLowerCase() || config.period;
+      const section = config.section ? `${config.section} / ` : '';
+      return `Xero ${report}: ${section}${config.lineLabel} (${period})`;
+    }
+    case 'splynx_count': {
+      const filters = config.filters || [];
+      const filterText = filters.length > 0 ? `, ${filters.length} filter${filters.length === 1 ? '' : 's'}` : '';
+      const range = config.dateRange ? `, ${config.dateRange.replace(/_/g, ' ')}` : '';
+      return `Splynx ${String(config.entity || '').replace(/_/g, ' ')} count${range}${filterText}`;
+    }
+    default:
+      return sourceType;
+  }
+}
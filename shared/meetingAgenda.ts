@@ -0,0 +1,78 @@
+/**
+ * Check-in Meeting Agenda
+ *
+ * Agenda topics are built from what changed since the team's last completed
+ * check-in: unresolved topics, key results that moved or went off track,
+ * overdue work items and items raised in team feedback. Topics added by hand
+ * have the 'manual' source.
+ */
+
+export const MEETING_TOPIC_SOURCES = {
+  manual: 'Added',
+  carry_over: 'Carried over',
+  key_result: 'Key result',
+  work_item: 'Overdue',
+  feedback: 'Feedback',
+} as const;
+
+export type MeetingTopicSource = keyof typeof MEETING_TOPIC_SOURCES;
+
+export const MEETING_TOPIC_STATUSES = ['pending', 'discussed', 'deferred'] as const;
+
+export type MeetingTopicStatus = typeof MEETING_TOPIC_STATUSES[number];
+
+/** Topics not closed in a meeting are carried over to the next one */
+export const OPEN_TOPIC_STATUSES: MeetingTopicStatus[] = ['pending', 'deferred'];
+
+export const OFF_TRACK_STATUSES = ['At Risk', 'Stuck'];
+
+/** Agenda order (higher first) and suggested minutes for generated topics */
+export const GENERATED_TOPIC_DEFAULTS: Record<Exclude<MeetingTopicSource, 'manual'>, { priority: number; minutes: number }> = {
+  carry_over: { priority: 50, minutes: 5 },
+  key_result: { priority: 40, minutes: 5 },
+  work_item: { priority: 20, minutes: 3 },
+  feedback: { priority: 10, minutes: 3 },
+};
+
+/** Extra priority for key results that went off track rather than just moved */
+export const OFF_TRACK_PRIORITY_BOOST = 5;
+
+export interface KeyResultTopicContext {
+  previousValue: number | null;
+  currentValue: number;
+  targetValue: number | null;
+  previousStatus: string | null;
+  status: string;
+  wentOffTrack: boolean;
+}
+
+export interface WorkItemTopicContext {
+  dueDate: string;
+  status: string;
+  assigneeName: string | null;
+}
+
+export interface CarryOverTopicContext {
+  fromMeetingId: number;
+  fromStatus: string;
+}
+
+export function isMeetingTopicSource(value: unknown): value is MeetingTopicSource {
+  return typeof value === 'string' && value in MEETING_TOPIC_SOURCES;
+}
+
+function formatValue(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2).replace(/0$/, '');
+}
+
+/** "40 → 55 of 100, On Track → At Risk" */
+export function describeKeyResultChange(context: KeyResultTopicContext): string {
+  const value = context.previousValue === null || context.previousValue === context.currentValue
+    ? formatValue(context.currentValue)
+    : `${formatValue(context.previousValue)} → ${formatValue(context.currentValue)}`;
+  const target = context.targetValue === null ? '' : ` of ${formatValue(context.targetValue)}`;
+  const status = context.previousStatus && context.previousStatus !== context.status
+    ? `${context.previousStatus} → ${context.status}`
+    : context.status;
+  return `${value}${target}, ${status}`;
+}
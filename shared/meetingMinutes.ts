@@ -0,0 +1,159 @@
+/**
+ * Check-in Meeting Minutes
+ *
+ * The minutes of a completed check-in, assembled on the server and rendered
+ * here as Markdown for download, the knowledge base and the minutes email.
+ */
+
+export const FEEDBACK_RATINGS = ['great', 'good', 'poor'] as const;
+
+export type FeedbackRating = typeof FEEDBACK_RATINGS[number];
+
+export interface MinutesTopic {
+  title: string;
+  status: string;
+  outcomes: string | null;
+}
+
+export interface MinutesItemUpdate {
+  subject: string;
+  updateType: string;
+  previousValue: string | null;
+  newValue: string | null;
+  notes: string | null;
+  updatedBy: string | null;
+}
+
+export interface MinutesWorkItem {
+  id: number;
+  title: string;
+  status: string;
+  assigneeName: string | null;
+  dueDate: string | null;
+}
+
+export interface MinutesKeyResultChange {
+  keyResultId: number;
+  title: string;
+  previousValue: number | null;
+  currentValue: number | null;
+  targetValue: number | null;
+  status: string;
+}
+
+export interface MeetingMinutes {
+  meetingId: number;
+  title: string;
+  teamName: string;
+  scheduledDate: string;
+  startedAt: string | null;
+  endedAt: string | null;
+  durationMinutes: number | null;
+  attendance: { present: string[]; absent: string[] };
+  decisions: MinutesTopic[];
+  deferred: MinutesTopic[];
+  notes: string | null;
+  updates: MinutesItemUpdate[];
+  newWorkItems: MinutesWorkItem[];
+  keyResultChanges: MinutesKeyResultChange[];
+  feedback: {
+    responses: number;
+    ratings: Record<FeedbackRating, number>;
+    itemsForNextCheckIn: Array<{ userName: string; items: string }>;
+  };
+}
+
+/**
+ * Minutes end up as HTML in the knowledge base and email, so user text must
+ * not carry markup, nor Markdown link or image syntax (which would let a
+ * `javascript:` link through)
+ */
+function text(value: string): string {
+  return value
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+    .replace(/[\\[\]()]/g, character => `\\${character}`)
+    .trim();
+}
+
+function inline(value: string): string {
+  return text(value).replace(/\s*\n\s*/g, ' ');
+}
+
+function formatNumber(value: number | null): string {
+  if (value === null) return '–';
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'Europe/London' });
+}
+
+export function minutesFileName(minutes: MeetingMinutes, extension: string): string {
+  const slug = `${minutes.teamName}-check-in`.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug}-${minutes.scheduledDate.split('T')[0]}-minutes.${extension}`;
+}
+
+export function minutesTitle(minutes: MeetingMinutes): string {
+  return `Minutes: ${minutes.title} (${formatDate(minutes.scheduledDate)})`;
+}
+
+export function renderMinutesMarkdown(minutes: MeetingMinutes): string {
+  const lines: string[] = [`# ${inline(minutesTitle(minutes))}`, ''];
+
+  lines.push(`**Team:** ${inline(minutes.teamName)}  `);
+  lines.push(`**Date:** ${formatDate(minutes.scheduledDate)}  `);
+  if (minutes.durationMinutes !== null) lines.push(`**Duration:** ${minutes.durationMinutes} minutes  `);
+  if (minutes.attendance.present.length > 0) lines.push(`**Present:** ${minutes.attendance.present.map(inline).join(', ')}  `);
+  if (minutes.attendance.absent.length > 0) lines.push(`**Absent:** ${minutes.attendance.absent.map(inline).join(', ')}  `);
+  lines.push('');
+
+  const section = (heading: string, items: string[], empty?: string) => {
+    if (items.length === 0 && !empty) return;
+    lines.push(`## ${heading}`, '');
+    lines.push(...(items.length > 0 ? items : [`_${empty}_`]), '');
+  };
+
+  section('Decisions', minutes.decisions.map(topic =>
+    `- **${inline(topic.title)}**${topic.outcomes ? `: ${inline(topic.outcomes)}` : ''}`
+  ), 'No decisions recorded');
+
+  section('Deferred to the next check-in', minutes.deferred.map(topic => `- ${inline(topic.title)}`));
+
+  section('Key result changes', minutes.keyResultChanges.map(change => {
+    const value = change.previousValue === null || change.previousValue === change.currentValue
+      ? formatNumber(change.currentValue)
+      : `${formatNumber(change.previousValue)} → ${formatNumber(change.currentValue)}`;
+    const target = change.targetValue === null ? '' : ` of ${formatNumber(change.targetValue)}`;
+    return `- **${inline(change.title)}**: ${value}${target} (${change.status})`;
+  }));
+
+  section('Updates made in the meeting', minutes.updates.map(update => {
+    const change = update.previousValue || update.newValue
+      ? ` ${inline(update.previousValue ?? '–')} → ${inline(update.newValue ?? '–')}`
+      : '';
+    const by = update.updatedBy ? ` _(${inline(update.updatedBy)})_` : '';
+    const notes = update.notes ? `: ${inline(update.notes)}` : '';
+    return `- ${inline(update.subject)} – ${update.updateType.replace(/_/g, ' ')}${change}${notes}${by}`;
+  }));
+
+  section('New work items', minutes.newWorkItems.map(item => {
+    const details = [item.status, item.assigneeName, item.dueDate ? `due ${item.dueDate}` : null].filter(Boolean);
+    return `- ${inline(item.title)} (${details.map(detail => inline(detail!)).join(', ')})`;
+  }));
+
+  if (minutes.notes) section('Notes', [text(minutes.notes)]);
+
+  if (minutes.feedback.responses > 0) {
+    const ratings = FEEDBACK_RATINGS
+      .filter(rating => minutes.feedback.ratings[rating] > 0)
+      .map(rating => `${minutes.feedback.ratings[rating]} ${rating}`)
+      .join(', ');
+    section('Feedback', [
+      `${minutes.feedback.responses} response${minutes.feedback.responses === 1 ? '' : 's'}${ratings ? `: ${ratings}` : ''}`,
+      ...(minutes.feedback.itemsForNextCheckIn.length > 0 ? ['', 'Raised for the next check-in:', ''] : []),
+      ...minutes.feedback.itemsForNextCheckIn.map(entry => `- ${inline(entry.items)} _(${inline(entry.userName)})_`),
+    ]);
+  }
+
+  return lines.join('\n').trimEnd() + '\n';
+}
@@ -0,0 +1,87 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { forecastKeyResult, summariseObjectiveForecast, type ForecastPoint } from './okrForecast';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const cycleStart = new Date('2026-01-01T00:00:00Z');
+const cycleEnd = new Date('2026-01-31T00:00:00Z');
+const now = new Date(cycleStart.getTime() + 15 * DAY_MS);
+
+/** One point a day from the start of the cycle up to (not including) today */
+function dailyPoints(valueOnDay: (day: number) => number, days = 15): ForecastPoint[] {
+  return Array.from({ length: days }, (_, day) => ({ date: new Date(cycleStart.getTime() + day * DAY_MS), value: valueOnDay(day) }));
+}
+
+describe('forecastKeyResult', () => {
+  it('projects a steady trend to the end of the cycle', () => {
+    const forecast = forecastKeyResult({ points: dailyPoints(day => day), currentValue: 15, targetValue: 30, baselineValue: 0, cycleStart, cycleEnd, now });
+    assert.equal(forecast.risk, 'on_track');
+    assert.ok(Math.abs(forecast.projectedValue! - 30) < 1e-9);
+    assert.equal(forecast.expectedProgress, 0.5);
+    assert.equal(forecast.requiredDailyRate, 1);
+    assert.equal(forecast.pointsUsed, 16);
+    assert.equal(forecast.confidence, 100);
+  });
+
+  it('flags a key result whose trend falls well short of the target', () => {
+    const forecast = forecastKeyResult({ points: dailyPoints(day => day * 0.2), currentValue: 3, targetValue: 30, baselineValue: 0, cycleStart, cycleEnd, now });
+    assert.equal(forecast.risk, 'off_track');
+    assert.ok(forecast.projectedProgress! < 0.7);
+    assert.ok(forecast.confidence! < 30);
+  });
+
+  it('forecasts key results whose target is below the baseline', () => {
+    const forecast = forecastKeyResult({ points: dailyPoints(day => 100 - 2 * day), currentValue: 70, targetValue: 50, baselineValue: 100, cycleStart, cycleEnd, now });
+    assert.equal(forecast.risk, 'on_track');
+    assert.ok(forecast.projectedProgress! > 1);
+  });
+
+  it('is less confident about a trend resting on few points', () => {
+    const points = dailyPoints(day => day * 0.8).filter((_, day) => day % 7 === 0);
+    const few = forecastKeyResult({ points, currentValue: 12, targetValue: 30, baselineValue: 0, cycleStart, cycleEnd, now });
+    const many = forecastKeyResult({ points: dailyPoints(day => day * 0.8), currentValue: 12, targetValue: 30, baselineValue: 0, cycleStart, cycleEnd, now });
+    assert.ok(few.confidence! < many.confidence!);
+  });
+
+  it('reports achieved key results with full confidence', () => {
+    const forecast = forecastKeyResult({ points: [], currentValue: 30, targetValue: 30, baselineValue: 0, cycleStart, cycleEnd, now });
+    assert.equal(forecast.risk, 'achieved');
+    assert.equal(forecast.confidence, 100);
+  });
+
+  it('needs an end date and more than one point in the cycle', () => {
+    assert.equal(forecastKeyResult({ points: dailyPoints(day => day), currentValue: 15, targetValue: 30, cycleStart, cycleEnd: null, now }).risk, 'no_end_date');
+
+    const forecast = forecastKeyResult({ points: [{ date: '2025-12-01', value: 1 }], currentValue: 5, targetValue: 30, cycleStart, cycleEnd, now });
+    assert.equal(forecast.risk, 'insufficient_data');
+    assert.equal(forecast.confidence, null);
+    assert.equal(forecast.pointsUsed, 1);
+  });
+});
+
+describe('summariseObjectiveForecast', () => {
+  it('takes the worst risk and the average confidence', () => {
+    const summary = summariseObjectiveForecast([
+      { risk: 'on_track', confidence: 90 },
+      { risk: 'at_risk', confidence: 60 },
+      { risk: 'insufficient_data', confidence: null },
+    ]);
+    assert.deepEqual(summary, { risk: 'at_risk', confidence: 75, likelyToMiss: false, offTrackCount: 0, atRiskCount: 1 });
+  });
+
+  it('is likely to miss with an off-track key result or low confidence', () => {
+    assert.equal(summariseObjectiveForecast([{ risk: 'off_track', confidence: 95 }]).likelyToMiss, true);
+    assert.equal(summariseObjectiveForecast([{ risk: 'on_track', confidence: 65 }]).likelyToMiss, true);
+  });
+
+  it('is achieved only when every key result is', () => {
+    assert.equal(summariseObjectiveForecast([{ risk: 'achieved', confidence: 100 }, { risk: 'achieved', confidence: 100 }]).risk, 'achieved');
+    assert.equal(summariseObjectiveForecast([{ risk: 'achieved', confidence: 100 }, { risk: 'on_track', confidence: 90 }]).risk, 'on_track');
+  });
+
+  it('has no confidence without scored key results', () => {
+    assert.deepEqual(summariseObjectiveForecast([{ risk: 'no_end_date', confidence: null }]), {
+      risk: 'no_end_date', confidence: null, likelyToMiss: false, offTrackCount: 0, atRiskCount: 0,
+    });
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * OKR Forecasting
+ *
+ * Projects a key result's value to the end of its cycle from its snapshot
+ * history, two ways: a plain least-squares line through every point, and a
+ * recency-weighted line where each point's weight halves every
+ * TREND_HALF_LIFE_DAYS so the latest weeks dominate. The blend of the two
+ * gives the projected value and a risk level. The confidence score (0-100)
+ * is the projected progress, discounted when the forecast rests on few
+ * snapshots or the two trends disagree. Objectives roll their key results up
+ * and are flagged as likely to miss when the blended forecast falls short.
+ * Pure functions, shared by the forecast service and the UI.
+ */
+
+export type ForecastRisk = 'achieved' | 'on_track' | 'at_risk' | 'off_track' | 'insufficient_data' | 'no_end_date';
+
+export interface ForecastPoint {
+  date: Date | string;
+  value: number;
+}
+
+export interface KeyResultForecastInput {
+  points: ForecastPoint[];
+  currentValue: number;
+  targetValue: number;
+  /** Value at the start of the cycle; defaults to the first point in the cycle */
+  baselineValue?: number | null;
+  cycleStart: Date | string;
+  cycleEnd: Date | string | null;
+  now?: Date;
+}
+
+export interface KeyResultForecast {
+  risk: ForecastRisk;
+  /** How likely the target is to be reached (0-100); see confidenceScore */
+  confidence: number | null;
+  currentProgress: number;
+  /** Share of the cycle that has elapsed (0-1) */
+  expectedProgress: number;
+  linearProjection: number | null;
+  weightedProjection: number | null;
+  projectedValue: number | null;
+  projectedProgress: number | null;
+  /** Change per day needed from now to reach the target by the end date */
+  requiredDailyRate: number | null;
+  /** Change per day over recent weeks (weighted trend) */
+  trendDailyRate: number | null;
+  pointsUsed: number;
+}
+
+export interface ObjectiveForecastSummary {
+  risk: ForecastRisk;
+  confidence: number | null;
+  likelyToMiss: boolean;
+  offTrackCount: number;
+  atRiskCount: number;
+}
+
+/** A key result's forecast as returned by the forecasts API */
+export interface KeyResultForecastEntry extends KeyResultForecast {
+  keyResultId: number;
+  objectiveId: number;
+  title: string;
+  currentValue: number;
+  targetValue: number;
+}
+
+export interface ObjectiveForecast extends ObjectiveForecastSummary {
+  objectiveId: number;
+  title: string;
+  teamId: number | null;
+  cycleStart: string;
+  cycleEnd: string | null;
+  /** Where the end date came from */
+  horizon: 'check_in_cycle' | 'target_date' | null;
+  /** Set when the objective has no forecastable key results and its own snapshots were used */
+  objectiveTrend: KeyResultForecast | null;
+  keyResults: KeyResultForecastEntry[];
+}
+
+export interface OrganizationForecast {
+  generatedAt: string;
+  objectives: ObjectiveForecast[];
+  likelyToMissCount: number;
+  offTrackKeyResults: KeyResultForecastEntry[];
+}
+
+/** Each point's weight halves after this many days in the weighted trend */
+export const TREND_HALF_LIFE_DAYS = 14;
+
+/** Share of the blended forecast taken from the weighted trend */
+const WEIGHTED_SHARE = 0.65;
+
+/** Projected progress needed at the end date for each risk level */
+export const RISK_THRESHOLDS = { onTrack: 0.95, atRisk: 0.7 };
+
+/** Confidence below this marks an objective as likely to miss */
+export const LIKELY_TO_MISS_CONFIDENCE = 70;
+
+/** Snapshots in the cycle before a trend counts as established */
+const ESTABLISHED_TREND_POINTS = 6;
+
+/** Share of the confidence score that depends on how solid the trend is */
+const TREND_CERTAINTY_SHARE = 0.4;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const RISK_ORDER: Record<ForecastRisk, number> = {
+  off_track: 0,
+  at_risk: 1,
+  insufficient_data: 2,
+  no_end_date: 3,
+  on_track: 4,
+  achieved: 5,
+};
+
+export const RISK_LABELS: Record<ForecastRisk, string> = {
+  achieved: 'Achieved',
+  on_track: 'On track',
+  at_risk: 'At risk',
+  off_track: 'Off track',
+  insufficient_data: 'Not enough data',
+  no_end_date: 'No end date',
+};
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function toTime(date: Date | string): number {
+  return (date instanceof Date ? date : new Date(date)).getTime();
+}
+
+/** Weighted least-squares fit of value against day offset; null when the days do not vary */
+function fitLine(points: Array<{ day: number; value: number; weight: number }>): { slope: number; intercept: number } | null {
+  const totalWeight = points.reduce((sum, p) => sum + p.weight, 0);
+  if (totalWeight === 0) return null;
+
+  const meanDay = points.reduce((sum, p) => sum + p.weight * p.day, 0) / totalWeight;
+  const meanValue = points.reduce((sum, p) => sum + p.weight * p.value, 0) / totalWeight;
+  const covariance = points.reduce((sum, p) => sum + p.weight * (p.day - meanDay) * (p.value - meanValue), 0);
+  const variance = points.reduce((sum, p) => sum + p.weight * (p.day - meanDay) ** 2, 0);
+
+  if (variance === 0) return null;
+  const slope = covariance / variance;
+  return { slope, intercept: meanValue - slope * meanDay };
+}
+
+function progressOf(value: number, baseline: number, target: number): number {
+  if (target === baseline) return value === target ? 1 : 0;
+  return (value - baseline) / (target - baseline);
+}
+
+/**
+ * How likely the key result is to reach its target: its projected progress
+ * (capped at 100%), with up to TREND_CERTAINTY_SHARE of it withheld while the
+ * trend rests on few points or the overall and recent trends disagree on
+ * where it ends up.
+ */
+function confidenceScore(projectedProgress: number, linearProgress: number, weightedProgress: number, pointsUsed: number): number {
+  const evidence = Math.min(1, pointsUsed / ESTABLISHED_TREND_POINTS);
+  const agreement = 1 - clamp(Math.abs(linearProgress - weightedProgress), 0, 1);
+  const certainty = evidence * agreement;
+  return Math.round(clamp(projectedProgress, 0, 1) * (1 - TREND_CERTAINTY_SHARE * (1 - certainty)) * 100);
+}
+
+export function forecastKeyResult(input: KeyResultForecastInput): KeyResultForecast {
+  const now = input.now ?? new Date();
+  const nowTime = now.getTime();
+  const startTime = toTime(input.cycleStart);
+
+  // Points inside the cycle, oldest first, with today's value as the latest point
+  const cyclePoints = input.points
+    .map(point => ({ time: toTime(point.date), value: point.value }))
+    .filter(point => Number.isFinite(point.value) && point.time >= startTime && point.time <= nowTime)
+    .sort((a, b) => a.time - b.time);
+  cyclePoints.push({ time: nowTime, value: input.currentValue });
+
+  const baseline = input.baselineValue ?? cyclePoints[0].value;
+  const target = input.targetValue;
+  const currentProgress = progressOf(input.currentValue, baseline, target);
+
+  const empty: KeyResultForecast = {
+    risk: 'insufficient_data',
+    confidence: null,
+    currentProgress,
+    expectedProgress: 0,
+    linearProjection: null,
+    weightedProjection: null,
+    projectedValue: null,
+    projectedProgress: null,
+    requiredDailyRate: null,
+    trendDailyRate: null,
+    pointsUsed: cyclePoints.length,
+  };
+
+  if (currentProgress >= 1) {
+    return { ...empty, risk: 'achieved', confidence: 100, expectedProgress: input.cycleEnd ? clamp((nowTime - startTime) / (toTime(input.cycleEnd) - startTime), 0, 1) : 0 };
+  }
+
+  if (!input.cycleEnd) {
+    return { ...empty, risk: 'no_end_date' };
+  }
+
+  const endTime = toTime(input.cycleEnd);
+  const expectedProgress = endTime > startTime ? clamp((nowTime - startTime) / (endTime - startTime), 0, 1) : 1;
+  const daysLeft = Math.max(0, (endTime - nowTime) / DAY_MS);
+  const requiredDailyRate = daysLeft > 0 ? (target - input.currentValue) / daysLeft : null;
+
+  const samples = cyclePoints.map(point => ({ day: (point.time - startTime) / DAY_MS, value: point.value }));
+  const nowDay = (nowTime - startTime) / DAY_MS;
+  const endDay = (endTime - startTime) / DAY_MS;
+
+  const linear = fitLine(samples.map(sample => ({ ...sample, weight: 1 })));
+  const weighted = fitLine(samples.map(sample => ({ ...sample, weight: 0.5 ** ((nowDay - sample.day) / TREND_HALF_LIFE_DAYS) })));
+
+  if (!linear || !weighted) {
+    return { ...empty, expectedProgress, requiredDailyRate };
+  }
+
+  // Lines are anchored at today's value so a noisy fit cannot forecast a jump back in time
+  const linearProjection = input.currentValue + linear.slope * Math.max(0, endDay - nowDay);
+  const weightedProjection = input.currentValue + weighted.slope * Math.max(0, endDay - nowDay);
+  const projectedValue = WEIGHTED_SHARE * weightedProjection + (1 - WEIGHTED_SHARE) * linearProjection;
+  const projectedProgress = progressOf(projectedValue, baseline, target);
+
+  const risk: ForecastRisk = projectedProgress >= RISK_THRESHOLDS.onTrack
+    ? 'on_track'
+    : projectedProgress >= RISK_THRESHOLDS.atRisk
+      ? 'at_risk'
+      : 'off_track';
+
+  return {
+    risk,
+    confidence: confidenceScore(
+      projectedProgress,
+      progressOf(linearProjection, baseline, target),
+      progressOf(weightedProjection, baseline, target),
+      cyclePoints.length
+    ),
+    currentProgress,
+    expectedProgress,
+    linearProjection,
+    weightedProjection,
+    projectedValue,
+    projectedProgress,
+    requiredDailyRate,
+    trendDailyRate: weighted.slope,
+    pointsUsed: cyclePoints.length,
+  };
+}
+
+/** Roll key result forecasts up to their objective */
+export function summariseObjectiveForecast(keyResults: Array<Pick<KeyResultForecast, 'risk' | 'confidence'>>): ObjectiveForecastSummary {
+  const offTrackCount = keyResults.filter(kr => kr.risk === 'off_track').length;
+  const atRiskCount = keyResults.filter(kr => kr.risk === 'at_risk').length;
+  const scored = keyResults.filter(kr => kr.confidence !== null);
+
+  if (scored.length === 0) {
+    const risk = keyResults.some(kr => kr.risk === 'no_end_date') ? 'no_end_date' : 'insufficient_data';
+    return { risk, confidence: null, likelyToMiss: false, offTrackCount, atRiskCount };
+  }
+
+  const confidence = Math.round(scored.reduce((sum, kr) => sum + (kr.confidence as number), 0) / scored.length);
+  const allAchieved = keyResults.every(kr => kr.risk === 'achieved');
+  const risk: ForecastRisk = allAchieved
+    ? 'achieved'
+    : offTrackCount > 0
+      ? 'off_track'
+      : atRiskCount > 0
+        ? 'at_risk'
+        : 'on_track';
+
+  return {
+    risk,
+    confidence,
+    likelyToMiss: offTrackCount > 0 || confidence < LIKELY_TO_MISS_CONFIDENCE,
+    offTrackCount,
+    atRiskCount,
+  };
+}
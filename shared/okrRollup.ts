@@ -0,0 +1,214 @@
+/**
+ * OKR Roll-up and Cascading
+ *
+ * Objectives cascade company → team → individual through parentObjectiveId.
+ * An objective's progress is the weighted mean of its own key results (by
+ * key result weight) and its child objectives (by each child's
+ * contributionWeight), so progress on a team objective flows up into the
+ * company objective it supports. Alignment checks flag orphaned objectives and
+ * links that point the wrong way. Pure functions, shared by the API and the UI.
+ */
+
+export type ObjectiveLevel = 'company' | 'team' | 'individual';
+
+export const OBJECTIVE_LEVELS: ObjectiveLevel[] = ['company', 'team', 'individual'];
+
+export const OBJECTIVE_LEVEL_LABELS: Record<ObjectiveLevel, string> = {
+  company: 'Company',
+  team: 'Team',
+  individual: 'Individual',
+};
+
+const LEVEL_RANK: Record<ObjectiveLevel, number> = { company: 0, team: 1, individual: 2 };
+
+const CLOSED_STATUSES = ['Completed', 'Archived'];
+
+export type AlignmentIssueType = 'orphan' | 'parent_missing' | 'level_inverted' | 'parent_closed' | 'ends_after_parent' | 'cycle';
+
+export interface AlignmentIssue {
+  type: AlignmentIssueType;
+  message: string;
+}
+
+export interface RollupKeyResultInput {
+  id: number;
+  currentValue: string | number | null;
+  targetValue: string | number | null;
+  weight?: string | number | null;
+}
+
+export interface RollupObjectiveInput {
+  id: number;
+  title: string;
+  status: string;
+  level?: string | null;
+  teamId?: number | null;
+  parentObjectiveId?: number | null;
+  contributionWeight?: string | number | null;
+  targetDate?: Date | string | null;
+  keyResults?: RollupKeyResultInput[];
+}
+
+export interface ObjectiveRollup {
+  objectiveId: number;
+  level: ObjectiveLevel;
+  /** Weighted progress of the objective's own key results (0-100), null without key results */
+  ownProgress: number | null;
+  /** Own key results and child objectives combined (0-100), null when there is nothing to measure */
+  progress: number | null;
+  childObjectiveIds: number[];
+  /** Distance from the top of the cascade; 0 for root objectives */
+  depth: number;
+  issues: AlignmentIssue[];
+}
+
+function toNumber(value: string | number | null | undefined, fallback: number): number {
+  if (value === null || value === undefined || value === '') return fallback;
+  const parsed = typeof value === 'number' ? value : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+export function resolveObjectiveLevel(objective: Pick<RollupObjectiveInput, 'level' | 'teamId'>): ObjectiveLevel {
+  if (objective.level && OBJECTIVE_LEVELS.includes(objective.level as ObjectiveLevel)) {
+    return objective.level as ObjectiveLevel;
+  }
+  return objective.teamId ? 'team' : 'company';
+}
+
+/** Progress of a key result toward its target (0-100) */
+export function keyResultProgress(kr: RollupKeyResultInput): number {
+  const target = toNumber(kr.targetValue, 0);
+  if (target <= 0) return 0;
+  return Math.min(100, Math.max(0, (toNumber(kr.currentValue, 0) / target) * 100));
+}
+
+/** True when making parentId the parent of objectiveId would close a loop */
+export function createsCascadeCycle(
+  objectives: Array<Pick<RollupObjectiveInput, 'id' | 'parentObjectiveId'>>,
+  objectiveId: number,
+  parentId: number
+): boolean {
+  const parentOf = new Map(objectives.map(objective => [objective.id, objective.parentObjectiveId ?? null]));
+  const seen = new Set<number>();
+  let current: number | null = parentId;
+
+  while (current !== null && !seen.has(current)) {
+    if (current === objectiveId) return true;
+    seen.add(current);
+    current = parentOf.get(current) ?? null;
+  }
+  return false;
+}
+
+function alignmentIssues(objective: RollupObjectiveInput, level: ObjectiveLevel, parent: RollupObjectiveInput | undefined): AlignmentIssue[] {
+  const issues: AlignmentIssue[] = [];
+
+  if (!objective.parentObjectiveId) {
+    if (level !== 'company') {
+      issues.push({ type: 'orphan', message: `${OBJECTIVE_LEVEL_LABELS[level]} objective is not aligned to a parent objective` });
+    }
+    return issues;
+  }
+
+  if (!parent) {
+    issues.push({ type: 'parent_missing', message: 'Parent objective no longer exists' });
+    return issues;
+  }
+
+  const parentLevel = resolveObjectiveLevel(parent);
+  if (LEVEL_RANK[parentLevel] >= LEVEL_RANK[level]) {
+    issues.push({
+      type: 'level_inverted',
+      message: `${OBJECTIVE_LEVEL_LABELS[level]} objective is aligned to a ${OBJECTIVE_LEVEL_LABELS[parentLevel].toLowerCase()} objective`,
+    });
+  }
+
+  if (CLOSED_STATUSES.includes(parent.status) && !CLOSED_STATUSES.includes(objective.status)) {
+    issues.push({ type: 'parent_closed', message: `Parent objective "${parent.title}" is ${parent.status.toLowerCase()}` });
+  }
+
+  if (objective.targetDate && parent.targetDate && new Date(objective.targetDate) > new Date(parent.targetDate)) {
+    issues.push({ type: 'ends_after_parent', message: `Target date is after the parent objective's target date` });
+  }
+
+  return issues;
+}
+
+/** Roll progress up the cascade and check each objective's alignment */
+export function computeObjectiveRollups(objectives: RollupObjectiveInput[]): Map<number, ObjectiveRollup> {
+  const byId = new Map(objectives.map(objective => [objective.id, objective]));
+  const children = new Map<number, RollupObjectiveInput[]>();
+  for (const objective of objectives) {
+    if (objective.parentObjectiveId && byId.has(objective.parentObjectiveId)) {
+      children.set(objective.parentObjectiveId, [...(children.get(objective.parentObjectiveId) || []), objective]);
+    }
+  }
+
+  const rollups = new Map<number, ObjectiveRollup>();
+  const inProgress = new Set<number>();
+
+  const visit = (objective: RollupObjectiveInput): ObjectiveRollup => {
+    const done = rollups.get(objective.id);
+    if (done) return done;
+    inProgress.add(objective.id);
+
+    const level = resolveObjectiveLevel(objective);
+    const parent = objective.parentObjectiveId ? byId.get(objective.parentObjectiveId) : undefined;
+    const issues = alignmentIssues(objective, level, parent);
+
+    let ownWeight = 0;
+    let ownTotal = 0;
+    for (const kr of objective.keyResults || []) {
+      const weight = Math.max(0, toNumber(kr.weight, 1));
+      ownWeight += weight;
+      ownTotal += weight * keyResultProgress(kr);
+    }
+
+    let weight = ownWeight;
+    let total = ownTotal;
+    const childObjectiveIds: number[] = [];
+    for (const child of children.get(objective.id) || []) {
+      childObjectiveIds.push(child.id);
+      // A loop in stored data would recurse forever; skip the edge that closes it
+      if (inProgress.has(child.id)) {
+        issues.push({ type: 'cycle', message: `Alignment loops back through "${child.title}"` });
+        continue;
+      }
+      const childRollup = visit(child);
+      if (childRollup.progress === null) continue;
+      const childWeight = Math.max(0, toNumber(child.contributionWeight, 1));
+      weight += childWeight;
+      total += childWeight * childRollup.progress;
+    }
+
+    const rollup: ObjectiveRollup = {
+      objectiveId: objective.id,
+      level,
+      ownProgress: ownWeight > 0 ? ownTotal / ownWeight : null,
+      progress: weight > 0 ? total / weight : null,
+      childObjectiveIds,
+      depth: 0,
+      issues,
+    };
+    inProgress.delete(objective.id);
+    rollups.set(objective.id, rollup);
+    return rollup;
+  };
+
+  objectives.forEach(visit);
+
+  // Depth is measured from the top, so fill it in once every parent link is known
+  for (const rollup of Array.from(rollups.values())) {
+    let depth = 0;
+    let current = byId.get(rollup.objectiveId)?.parentObjectiveId;
+    const seen = new Set<number>([rollup.objectiveId]);
+    while (current && byId.has(current) && !seen.has(current)) {
+      seen.add(current);
+      depth += 1;
+      current = byId.get(current)?.parentObjectiveId;
+    }
+    rollup.depth = depth;
+  }
+
+  return rollups;
+}
@@ -0,0 +1,106 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  RecurrenceRuleError,
+  describeRRule,
+  expandRRule,
+  legacyFrequencyToRRule,
+  nextOccurrence,
+  parseRRule,
+  publicHolidayExclusions,
+  validateRRule,
+} from './recurrence';
+
+function dates(rule: string, start: string, limit: number): string[] {
+  return expandRRule(rule, start, { limit }).map(occurrence => occurrence.date);
+}
+
+describe('parseRRule', () => {
+  it('parses the supported parts, with or without the RRULE: prefix', () => {
+    assert.deepEqual(parseRRule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=2TU,-1FR;UNTIL=20261231T235959Z'), {
+      freq: 'MONTHLY',
+      interval: 2,
+      wkst: 'MO',
+      until: '2026-12-31',
+      byDay: [{ weekday: 'TU', ordinal: 2 }, { weekday: 'FR', ordinal: -1 }],
+    });
+  });
+
+  it('rejects unsupported and contradictory rules', () => {
+    assert.throws(() => parseRRule('FREQ=HOURLY'), RecurrenceRuleError);
+    assert.equal(validateRRule('FREQ=WEEKLY;BYSECOND=1'), 'BYSECOND is not supported');
+    assert.equal(validateRRule('FREQ=DAILY;COUNT=2;UNTIL=20260101'), 'COUNT and UNTIL cannot be used together');
+    assert.equal(validateRRule('FREQ=WEEKLY;BYDAY=2TU'), 'Numbered weekdays such as 2TU need FREQ=MONTHLY or FREQ=YEARLY');
+    assert.equal(validateRRule('FREQ=MONTHLY;BYMONTHDAY=32'), 'BYMONTHDAY has an invalid value "32"');
+    assert.equal(validateRRule('FREQ=WEEKLY;BYDAY=MO,FR'), null);
+  });
+});
+
+describe('expandRRule', () => {
+  it('expands numbered weekdays within each month', () => {
+    assert.deepEqual(dates('FREQ=MONTHLY;BYDAY=2TU', '2026-01-01', 3), ['2026-01-13', '2026-02-10', '2026-03-10']);
+  });
+
+  it('picks the last working day of each month with BYSETPOS', () => {
+    assert.deepEqual(dates('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1', '2026-01-01', 3), ['2026-01-30', '2026-02-27', '2026-03-31']);
+  });
+
+  it('skips months without the start day and counts month days from the end', () => {
+    assert.deepEqual(dates('FREQ=MONTHLY;COUNT=3', '2026-01-31', 10), ['2026-01-31', '2026-03-31', '2026-05-31']);
+    assert.deepEqual(dates('FREQ=MONTHLY;BYMONTHDAY=-1', '2026-01-01', 3), ['2026-01-31', '2026-02-28', '2026-03-31']);
+  });
+
+  it('repeats weekdays every other week', () => {
+    assert.deepEqual(dates('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE', '2026-01-05', 4), ['2026-01-05', '2026-01-07', '2026-01-19', '2026-01-21']);
+  });
+
+  it('stops at UNTIL and counts COUNT from the start date', () => {
+    assert.deepEqual(dates('FREQ=DAILY;UNTIL=20260103', '2026-01-01', 10), ['2026-01-01', '2026-01-02', '2026-01-03']);
+    assert.deepEqual(expandRRule('FREQ=DAILY;COUNT=3', '2026-01-01', { from: '2026-01-02' }).map(occurrence => occurrence.date), ['2026-01-02', '2026-01-03']);
+  });
+
+  it('reports excluded dates with their reason', () => {
+    const exclude = publicHolidayExclusions([
+      { name: "New Year's Day", date: '2020-01-01', isRecurring: true },
+      { name: 'Bank holiday', date: '2026-01-02' },
+    ]);
+    assert.deepEqual(expandRRule('FREQ=DAILY', '2026-01-01', { limit: 3, exclude }), [
+      { date: '2026-01-01', excludedReason: "New Year's Day" },
+      { date: '2026-01-02', excludedReason: 'Bank holiday' },
+      { date: '2026-01-03', excludedReason: undefined },
+    ]);
+  });
+
+  it('rejects an invalid start date', () => {
+    assert.throws(() => expandRRule('FREQ=DAILY', '2026-1-1'), /Invalid start date/);
+  });
+});
+
+describe('nextOccurrence', () => {
+  it('returns the first occurrence on or after a date that is not excluded', () => {
+    const exclude = (date: string) => (date === '2026-01-09' ? 'Closed' : undefined);
+    assert.equal(nextOccurrence('FREQ=WEEKLY;BYDAY=FR', '2026-01-02', '2026-01-03', exclude), '2026-01-16');
+  });
+
+  it('returns null once the rule has ended', () => {
+    assert.equal(nextOccurrence('FREQ=DAILY;COUNT=2', '2026-01-01', '2026-01-03'), null);
+  });
+});
+
+describe('legacyFrequencyToRRule', () => {
+  it('maps the key result task frequency settings to rules', () => {
+    assert.equal(legacyFrequencyToRRule('weekly', { dayOfWeek: [1, 3] }), 'FREQ=WEEKLY;BYDAY=MO,WE');
+    assert.equal(legacyFrequencyToRRule('monthly', { dayOfMonth: 15 }), 'FREQ=MONTHLY;BYMONTHDAY=15');
+    assert.equal(legacyFrequencyToRRule('quarterly', null), 'FREQ=MONTHLY;INTERVAL=3');
+    assert.equal(legacyFrequencyToRRule('once', null), null);
+  });
+});
+
+describe('describeRRule', () => {
+  it('summarises a rule in plain English', () => {
+    assert.equal(describeRRule('FREQ=MONTHLY;BYDAY=2TU'), 'Monthly on the 2nd Tuesday');
+    assert.equal(describeRRule('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR'), 'Weekly on weekdays');
+    assert.equal(describeRRule('FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=-1;COUNT=4'), 'Every 3 months on the last day 4 times');
+    assert.equal(describeRRule('FREQ=SECONDLY'), 'Invalid rule');
+  });
+});
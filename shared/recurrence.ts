@@ -0,0 +1,439 @@
+/**
+ * Work Item Recurrence
+ *
+ * RFC 5545 RRULE support for recurring key result tasks and standalone work
+ * items. Work items are due on dates rather than at times, so rules are
+ * expanded over calendar dates (YYYY-MM-DD, no time zone). Supported parts:
+ * FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, COUNT, UNTIL, BYDAY
+ * (with ordinals such as 2TU or -1FR), BYMONTHDAY, BYMONTH, BYSETPOS and WKST.
+ * Shared by the generator, the API and the rule editor.
+ */
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface RecurrenceWeekday {
+  weekday: Weekday;
+  /** 2 for the second, -1 for the last; undefined for every such weekday */
+  ordinal?: number;
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  /** Inclusive last date, YYYY-MM-DD */
+  until?: string;
+  byDay?: RecurrenceWeekday[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  bySetPos?: number[];
+  wkst: Weekday;
+}
+
+export interface RecurrenceOccurrence {
+  date: string;
+  /** Why the date is skipped, e.g. the public holiday's name */
+  excludedReason?: string;
+}
+
+export class RecurrenceRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecurrenceRuleError';
+  }
+}
+
+export const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  MO: 'Monday', TU: 'Tuesday', WE: 'Wednesday', TH: 'Thursday', FR: 'Friday', SA: 'Saturday', SU: 'Sunday',
+};
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+/** Common rules offered by the rule editor */
+export const RECURRENCE_PRESETS: Array<{ label: string; rule: string }> = [
+  { label: 'Every weekday', rule: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR' },
+  { label: 'Every week', rule: 'FREQ=WEEKLY' },
+  { label: 'Every two weeks', rule: 'FREQ=WEEKLY;INTERVAL=2' },
+  { label: 'Second Tuesday of each month', rule: 'FREQ=MONTHLY;BYDAY=2TU' },
+  { label: 'Last working day of each month', rule: 'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1' },
+  { label: 'First of each quarter', rule: 'FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=1' },
+  { label: 'Every year', rule: 'FREQ=YEARLY' },
+];
+
+/** Upper bound on generated occurrences and on periods scanned, so bad rules cannot loop forever */
+const MAX_OCCURRENCES = 1000;
+const MAX_PERIODS = 10000;
+
+// Date arithmetic on YYYY-MM-DD strings, in UTC so there are no DST shifts
+
+function toDate(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function addUtcDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 86400000);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+export function isDateString(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(toDate(value).getTime());
+}
+
+function parseNumberList(name: string, value: string, min: number, max: number, allowNegative: boolean): number[] {
+  return value.split(',').map(part => {
+    const number = parseInt(part, 10);
+    const magnitude = Math.abs(number);
+    if (isNaN(number) || !/^[+-]?\d+$/.test(part) || magnitude < min || magnitude > max || (number < 0 && !allowNegative)) {
+      throw new RecurrenceRuleError(`${name} has an invalid value "${part}"`);
+    }
+    return number;
+  });
+}
+
+/** Parse an RRULE string (with or without the "RRULE:" prefix). Throws RecurrenceRuleError. */
+export function parseRRule(value: string): RecurrenceRule {
+  const text = value.trim().replace(/^RRULE:/i, '');
+  if (!text) throw new RecurrenceRuleError('Recurrence rule is empty');
+
+  const parts: Record<string, string> = {};
+  for (const part of text.split(';').filter(Boolean)) {
+    const [key, partValue] = part.split('=');
+    if (!key || partValue === undefined || partValue === '') {
+      throw new RecurrenceRuleError(`Invalid rule part "${part}"`);
+    }
+    parts[key.toUpperCase()] = partValue.toUpperCase();
+  }
+
+  const freq = parts.FREQ as RecurrenceFrequency | undefined;
+  if (!freq) throw new RecurrenceRuleError('FREQ is required');
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) {
+    throw new RecurrenceRuleError(`FREQ=${freq} is not supported; use DAILY, WEEKLY, MONTHLY or YEARLY`);
+  }
+
+  const supported = ['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTHDAY', 'BYMONTH', 'BYSETPOS', 'WKST'];
+  const unsupported = Object.keys(parts).filter(key => !supported.includes(key));
+  if (unsupported.length > 0) {
+    throw new RecurrenceRuleError(`${unsupported.join(', ')} ${unsupported.length === 1 ? 'is' : 'are'} not supported`);
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1, wkst: 'MO' };
+
+  if (parts.INTERVAL) {
+    rule.interval = parseNumberList('INTERVAL', parts.INTERVAL, 1, 1000, false)[0];
+  }
+  if (parts.COUNT) {
+    rule.count = parseNumberList('COUNT', parts.COUNT, 1, MAX_OCCURRENCES, false)[0];
+  }
+  if (parts.UNTIL) {
+    // Accept DATE (20261231) or DATE-TIME (20261231T235959Z) forms; only the date matters
+    const match = parts.UNTIL.match(/^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/);
+    if (!match || !isDateString(`${match[1]}-${match[2]}-${match[3]}`)) {
+      throw new RecurrenceRuleError(`UNTIL has an invalid date "${parts.UNTIL}"`);
+    }
+    rule.until = `${match[1]}-${match[2]}-${match[3]}`;
+  }
+  if (rule.count && rule.until) {
+    throw new RecurrenceRuleError('COUNT and UNTIL cannot be used together');
+  }
+  if (parts.BYDAY) {
+    rule.byDay = parts.BYDAY.split(',').map(part => {
+      const match = part.match(/^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/);
+      if (!match) throw new RecurrenceRuleError(`BYDAY has an invalid value "${part}"`);
+      const ordinal = match[1] ? parseInt(match[1], 10) : undefined;
+      if (ordinal !== undefined && (ordinal === 0 || Math.abs(ordinal) > 53)) {
+        throw new RecurrenceRuleError(`BYDAY has an invalid value "${part}"`);
+      }
+      if (ordinal !== undefined && freq !== 'MONTHLY' && freq !== 'YEARLY') {
+        throw new RecurrenceRuleError('Numbered weekdays such as 2TU need FREQ=MONTHLY or FREQ=YEARLY');
+      }
+      return { weekday: match[2] as Weekday, ordinal };
+    });
+  }
+  if (parts.BYMONTHDAY) {
+    if (freq === 'WEEKLY') throw new RecurrenceRuleError('BYMONTHDAY cannot be used with FREQ=WEEKLY');
+    rule.byMonthDay = parseNumberList('BYMONTHDAY', parts.BYMONTHDAY, 1, 31, true);
+  }
+  if (parts.BYMONTH) {
+    rule.byMonth = parseNumberList('BYMONTH', parts.BYMONTH, 1, 12, false);
+  }
+  if (parts.BYSETPOS) {
+    rule.bySetPos = parseNumberList('BYSETPOS', parts.BYSETPOS, 1, 366, true);
+  }
+  if (parts.WKST) {
+    if (!WEEKDAYS.includes(parts.WKST as Weekday)) throw new RecurrenceRuleError(`WKST has an invalid value "${parts.WKST}"`);
+    rule.wkst = parts.WKST as Weekday;
+  }
+  return rule;
+}
+
+/** Problem with a rule string, or null when it is usable */
+export function validateRRule(value: string): string | null {
+  try {
+    parseRRule(value);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid recurrence rule';
+  }
+}
+
+/** Weekday dates within [from, to] matching a BYDAY entry, honouring ordinals within that span */
+function weekdaysInSpan(from: Date, to: Date, byDay: RecurrenceWeekday[]): Date[] {
+  const results: Date[] = [];
+  for (const { weekday, ordinal } of byDay) {
+    const target = WEEKDAYS.indexOf(weekday);
+    const matches: Date[] = [];
+    for (let day = addUtcDays(from, (target - from.getUTCDay() + 7) % 7); day <= to; day = addUtcDays(day, 7)) {
+      matches.push(day);
+    }
+    if (ordinal === undefined) {
+      results.push(...matches);
+    } else {
+      const match = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+      if (match) results.push(match);
+    }
+  }
+  return results;
+}
+
+/** Candidate dates of one month for MONTHLY and YEARLY rules */
+function monthCandidates(year: number, month: number, rule: RecurrenceRule, start: Date): Date[] {
+  const first = new Date(Date.UTC(year, month, 1));
+  const last = new Date(Date.UTC(year, month, daysInMonth(year, month)));
+  const length = daysInMonth(year, month);
+
+  const byMonthDay = rule.byMonthDay
+    ?.map(day => (day > 0 ? day : length + day + 1))
+    .filter(day => day >= 1 && day <= length)
+    .map(day => new Date(Date.UTC(year, month, day)));
+  const byDay = rule.byDay && weekdaysInSpan(first, last, rule.byDay);
+
+  if (byMonthDay && byDay) {
+    const days = new Set(byDay.map(date => date.getTime()));
+    return byMonthDay.filter(date => days.has(date.getTime()));
+  }
+  if (byMonthDay) return byMonthDay;
+  if (byDay) return byDay;
+  // Default to the start date's day; months without it (e.g. the 31st) are skipped
+  return start.getUTCDate() <= length ? [new Date(Date.UTC(year, month, start.getUTCDate()))] : [];
+}
+
+/** Candidate dates of the period containing `periodStart`, before BYSETPOS */
+function periodCandidates(rule: RecurrenceRule, periodStart: Date, start: Date): Date[] {
+  switch (rule.freq) {
+    case 'DAILY': {
+      const weekdays = rule.byDay?.map(day => WEEKDAYS.indexOf(day.weekday));
+      if (weekdays && !weekdays.includes(periodStart.getUTCDay())) return [];
+      if (rule.byMonthDay) {
+        const length = daysInMonth(periodStart.getUTCFullYear(), periodStart.getUTCMonth());
+        const days = rule.byMonthDay.map(day => (day > 0 ? day : length + day + 1));
+        if (!days.includes(periodStart.getUTCDate())) return [];
+      }
+      return [periodStart];
+    }
+    case 'WEEKLY': {
+      const weekEnd = addUtcDays(periodStart, 6);
+      const byDay = rule.byDay ?? [{ weekday: WEEKDAYS[start.getUTCDay()] }];
+      return weekdaysInSpan(periodStart, weekEnd, byDay.map(day => ({ weekday: day.weekday })));
+    }
+    case 'MONTHLY':
+      return monthCandidates(periodStart.getUTCFullYear(), periodStart.getUTCMonth(), rule, start);
+    case 'YEARLY': {
+      const year = periodStart.getUTCFullYear();
+      if (rule.byDay && !rule.byMonth && !rule.byMonthDay) {
+        // Numbered weekdays count through the whole year, e.g. 20MO is the 20th Monday
+        return weekdaysInSpan(new Date(Date.UTC(year, 0, 1)), new Date(Date.UTC(year, 11, 31)), rule.byDay);
+      }
+      const months = rule.byMonth?.map(month => month - 1) ?? [start.getUTCMonth()];
+      return months.flatMap(month => monthCandidates(year, month, rule, start));
+    }
+  }
+}
+
+/** First day of the period `index` periods after the one containing `start` */
+function periodStartAt(rule: RecurrenceRule, start: Date, index: number): Date {
+  const step = index * rule.interval;
+  switch (rule.freq) {
+    case 'DAILY':
+      return addUtcDays(start, step);
+    case 'WEEKLY': {
+      const offset = (start.getUTCDay() - WEEKDAYS.indexOf(rule.wkst) + 7) % 7;
+      return addUtcDays(addUtcDays(start, -offset), step * 7);
+    }
+    case 'MONTHLY':
+      return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + step, 1));
+    case 'YEARLY':
+      return new Date(Date.UTC(start.getUTCFullYear() + step, 0, 1));
+  }
+}
+
+export interface ExpandOptions {
+  /** Only return occurrences on or after this date */
+  from?: string;
+  /** Only return occurrences on or before this date */
+  to?: string;
+  /** Maximum occurrences to return, counting excluded ones */
+  limit?: number;
+  /** Reason to skip a date (e.g. a public holiday), or undefined to keep it */
+  exclude?: (date: string) => string | undefined;
+}
+
+/**
+ * Occurrences of a rule starting at `start` (DTSTART), in date order. COUNT
+ * and UNTIL apply to the rule itself; exclusions are reported rather than
+ * removed so previews can show what was skipped and why.
+ */
+export function expandRRule(value: string | RecurrenceRule, start: string, options: ExpandOptions = {}): RecurrenceOccurrence[] {
+  const rule = typeof value === 'string' ? parseRRule(value) : value;
+  if (!isDateString(start)) throw new RecurrenceRuleError(`Invalid start date "${start}"`);
+
+  const startDate = toDate(start);
+  const limit = Math.min(options.limit ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const lastDate = [rule.until, options.to].filter((date): date is string => !!date).sort()[0];
+  const occurrences: RecurrenceOccurrence[] = [];
+  let produced = 0;
+
+  for (let index = 0; index < MAX_PERIODS; index++) {
+    const periodStart = periodStartAt(rule, startDate, index);
+    // Candidates never precede their period, so nothing later can fall before the last date
+    if (lastDate && toDateString(periodStart) > lastDate) break;
+
+    let candidates = periodCandidates(rule, periodStart, startDate)
+      .sort((a, b) => a.getTime() - b.getTime());
+    if (rule.byMonth && rule.freq !== 'YEARLY') {
+      candidates = candidates.filter(date => rule.byMonth!.includes(date.getUTCMonth() + 1));
+    }
+    if (rule.bySetPos) {
+      const positioned = rule.bySetPos
+        .map(position => (position > 0 ? candidates[position - 1] : candidates[candidates.length + position]))
+        .filter((date): date is Date => !!date);
+      candidates = Array.from(new Set(positioned.map(date => date.getTime())))
+        .sort((a, b) => a - b)
+        .map(time => new Date(time));
+    }
+
+    for (const candidate of candidates) {
+      if (candidate < startDate) continue;
+      const date = toDateString(candidate);
+      if (lastDate && date > lastDate) return occurrences;
+      if (rule.count && produced >= rule.count) return occurrences;
+      produced++;
+      if (options.from && date < options.from) continue;
+      occurrences.push({ date, excludedReason: options.exclude?.(date) });
+      if (occurrences.length >= limit) return occurrences;
+    }
+    if (rule.count && produced >= rule.count) break;
+  }
+  return occurrences;
+}
+
+/** The first occurrence on or after `from` that is not excluded, or null when the rule has ended */
+export function nextOccurrence(value: string | RecurrenceRule, start: string, from: string, exclude?: ExpandOptions['exclude']): string | null {
+  // Scan in batches so long runs of excluded dates (holiday seasons) are skipped
+  let cursor = from;
+  for (let batch = 0; batch < 10; batch++) {
+    const occurrences = expandRRule(value, start, { from: cursor, limit: 50, exclude });
+    const next = occurrences.find(occurrence => !occurrence.excludedReason);
+    if (next) return next.date;
+    if (occurrences.length < 50) return null;
+    cursor = toDateString(addUtcDays(toDate(occurrences[occurrences.length - 1].date), 1));
+  }
+  return null;
+}
+
+export interface PublicHolidayDate {
+  name: string;
+  /** YYYY-MM-DD */
+  date: string;
+  /** Repeats every year on the same month and day */
+  isRecurring?: boolean | null;
+}
+
+/** Exclusion callback for public holidays, recurring ones matching on month and day */
+export function publicHolidayExclusions(holidays: PublicHolidayDate[]): (date: string) => string | undefined {
+  const exact = new Map<string, string>();
+  const annual = new Map<string, string>();
+  for (const holiday of holidays) {
+    const date = holiday.date.split('T')[0];
+    exact.set(date, holiday.name);
+    if (holiday.isRecurring) annual.set(date.slice(5), holiday.name);
+  }
+  return (date: string) => exact.get(date) ?? annual.get(date.slice(5));
+}
+
+/**
+ * RRULE equivalent of the legacy frequency settings on key result tasks
+ * (frequency plus frequencyParams), so both follow the same expansion.
+ */
+export function legacyFrequencyToRRule(
+  frequency: string | null | undefined,
+  params: { dayOfWeek?: number[]; dayOfMonth?: number } | null | undefined
+): string | null {
+  switch (frequency) {
+    case 'daily':
+      return 'FREQ=DAILY';
+    case 'weekly':
+      return params?.dayOfWeek?.length
+        ? `FREQ=WEEKLY;BYDAY=${params.dayOfWeek.map(day => WEEKDAYS[day]).join(',')}`
+        : 'FREQ=WEEKLY';
+    case 'monthly':
+      return params?.dayOfMonth ? `FREQ=MONTHLY;BYMONTHDAY=${params.dayOfMonth}` : 'FREQ=MONTHLY';
+    case 'quarterly':
+      return 'FREQ=MONTHLY;INTERVAL=3';
+    default:
+      return null;
+  }
+}
+
+function ordinalLabel(ordinal: number): string {
+  if (ordinal === -1) return 'last';
+  if (ordinal < 0) return `${ordinalLabel(-ordinal)} to last`;
+  const suffix = ordinal % 10 === 1 && ordinal !== 11 ? 'st' : ordinal % 10 === 2 && ordinal !== 12 ? 'nd' : ordinal % 10 === 3 && ordinal !== 13 ? 'rd' : 'th';
+  return `${ordinal}${suffix}`;
+}
+
+/** Plain-English summary of a rule, e.g. "Monthly on the 2nd Tuesday" */
+export function describeRRule(value: string): string {
+  let rule: RecurrenceRule;
+  try {
+    rule = parseRRule(value);
+  } catch {
+    return 'Invalid rule';
+  }
+
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' }[rule.freq];
+  const base = rule.interval === 1
+    ? { DAILY: 'Daily', WEEKLY: 'Weekly', MONTHLY: 'Monthly', YEARLY: 'Yearly' }[rule.freq]
+    : `Every ${rule.interval} ${unit}s`;
+
+  const details: string[] = [];
+  if (rule.byDay?.length) {
+    const days = rule.byDay.map(day => (day.ordinal ? `the ${ordinalLabel(day.ordinal)} ${WEEKDAY_NAMES[day.weekday]}` : WEEKDAY_NAMES[day.weekday]));
+    const weekdaysOnly = rule.byDay.length === 5 && !rule.byDay.some(day => day.ordinal || day.weekday === 'SA' || day.weekday === 'SU');
+    details.push(`on ${weekdaysOnly ? 'weekdays' : days.join(', ')}`);
+  }
+  if (rule.byMonthDay?.length) {
+    details.push(`on the ${rule.byMonthDay.map(day => (day === -1 ? 'last day' : ordinalLabel(day))).join(', ')}`);
+  }
+  if (rule.byMonth?.length) {
+    details.push(`in ${rule.byMonth.map(month => MONTH_NAMES[month - 1]).join(', ')}`);
+  }
+  if (rule.bySetPos?.length) {
+    details.push(`taking the ${rule.bySetPos.map(ordinalLabel).join(', ')} match`);
+  }
+  if (rule.count) details.push(`${rule.count} times`);
+  if (rule.until) details.push(`until ${rule.until}`);
+
+  return [base, ...details].join(' ');
+}
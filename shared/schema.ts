@@ -501,6 +501,11 @@ export const objectives = pgTable("objectives", {
   // Team assignment
   teamId: integer("team_id").references(() => teams.id),
   
+  // Cascading (company -> team -> individual)
+  level: varchar("level", { length: 20 }), // 'company', 'team', 'individual'; derived from teamId when null
+  parentObjectiveId: integer("parent_objective_id").references((): any => objectives.id, { onDelete: "set null" }),
+  contributionWeight: decimal("contribution_weight", { precision: 6, scale: 2 }).default("1").notNull(), // Share of the parent's roll-up
+  
   // Display order for manual sorting
   displayOrder: integer("display_order").default(0),
   
@@ -510,6 +515,7 @@ export const objectives = pgTable("objectives", {
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
   index("idx_objectives_org").on(table.organizationId),
+  index("idx_objectives_parent").on(table.parentObjectiveId),
   index("idx_objectives_owner").on(table.ownerId),
   index("idx_objectives_team").on(table.teamId),
   index("idx_objectives_status").on(table.status),
@@ -531,6 +537,7 @@ export const keyResults = pgTable("key_results", {
   // Measurement (migration 002: normalized precision)
   targetValue: decimal("target_value", { precision: 12, scale: 2 }),
   currentValue: decimal("current_value", { precision: 12, scale: 2 }).default("0").notNull(),
+  weight: decimal("weight", { precision: 6, scale: 2 }).default("1").notNull(), // Share of the objective's roll-up
   
   // KR classification (migration 002)
   type: keyResultTypeEnum("type").default("Numeric Target").notNull(),
@@ -577,6 +584,9 @@ export const keyResultTasks = pgTable("key_result_tasks", {
   isRecurring: boolean("is_recurring").default(false).notNull(),
   frequency: varchar("frequency", { length: 50 }), // 'once', 'daily', 'weekly', 'monthly', 'quarterly'
   frequencyParams: jsonb("frequency_params"), // {dayOfWeek: [1,3], dayOfMonth: 15, etc.}
+  recurrenceRule: text("recurrence_rule"), // RFC 5545 RRULE, takes precedence over frequency (shared/recurrence.ts)
+  recurrenceStart: date("recurrence_start"), // DTSTART that COUNT and INTERVAL are counted from
+  skipPublicHolidays: boolean("skip_public_holidays").default(false).notNull(),
   
   // Duration controls (for bounded recurring tasks)
   endDate: timestamp("end_date"),
@@ -673,6 +683,8 @@ export const checkInMeetings = pgTable("check_in_meetings", {
   agenda: jsonb("agenda").default([]),
   notes: text("notes"),
   richNotes: jsonb("rich_notes"), // TipTap editor content for formatted meeting minutes
+  minutesDocumentId: integer("minutes_document_id").references(() => knowledgeDocuments.id, { onDelete: "set null" }), // Generated minutes saved to the knowledge base
+  minutesDistributedAt: timestamp("minutes_distributed_at"), // Last time the minutes were emailed to attendees
   createdBy: integer("created_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -730,6 +742,12 @@ export const workItems = pgTable("work_items", {
   
   // Work item type for filtering and categorization (NEW)
   workItemType: varchar("work_item_type", { length: 100 }),
+  
+  // Values for organization-defined custom fields, keyed by field name (see shared/workItemCustomFields.ts)
+  customFields: jsonb("custom_fields").default({}).$type<Record<string, string | number | null>>().notNull(),
+  
+  // Set on items generated from a recurrence: "task:<taskId>:<date>" or "rule:<recurrenceId>:<date>"
+  recurrenceKey: varchar("recurrence_key", { length: 100 }),
 }, (table) => [
   index("idx_work_items_cycle_status").on(table.checkInCycleId, table.status),
   index("idx_work_items_org_due").on(table.organizationId, table.dueDate),
@@ -737,6 +755,85 @@ export const workItems = pgTable("work_items", {
   index("idx_work_items_key_result_task").on(table.keyResultTaskId),
   index("idx_work_items_workflow").on(table.workflowTemplateId),
   index("idx_work_items_type").on(table.workItemType),
+  // One work item per occurrence, so re-running generation never duplicates
+  uniqueIndex("uq_work_items_recurrence_key").on(table.organizationId, table.recurrenceKey),
+]);
+
+// Blocked-by links between work items (kept acyclic by the API)
+export const workItemDependencies = pgTable("work_item_dependencies", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  blockedWorkItemId: integer("blocked_work_item_id").references(() => workItems.id, { onDelete: "cascade" }).notNull(),
+  blockingWorkItemId: integer("blocking_work_item_id").references(() => workItems.id, { onDelete: "cascade" }).notNull(),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_work_item_deps_org").on(table.organizationId),
+  index("idx_work_item_deps_blocked").on(table.blockedWorkItemId),
+  index("idx_work_item_deps_blocking").on(table.blockingWorkItemId),
+  unique("uq_work_item_dependency").on(table.blockedWorkItemId, table.blockingWorkItemId),
+]);
+
+// Time logged against work items, from timers or entered by hand (desktop and field app)
+export const workItemTimeEntries = pgTable("work_item_time_entries", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  workItemId: integer("work_item_id").references(() => workItems.id, { onDelete: "cascade" }).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  startedAt: timestamp("started_at").notNull(),
+  endedAt: timestamp("ended_at"), // Null while the timer is running
+  durationMinutes: integer("duration_minutes"), // Set when the timer stops or for manual entries
+  note: text("note"),
+  source: varchar("source", { length: 20 }).default("timer").notNull(), // timer, manual, field_app
+  clientId: varchar("client_id", { length: 100 }), // Field app's offline id, so re-synced entries are not duplicated
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_time_entries_work_item").on(table.workItemId),
+  index("idx_time_entries_org_started").on(table.organizationId, table.startedAt),
+  uniqueIndex("uq_time_entries_client").on(table.organizationId, table.clientId),
+  // One running timer per person
+  uniqueIndex("uq_time_entries_running").on(table.userId).where(sql`${table.endedAt} IS NULL`),
+]);
+
+// Recurrence rules on standalone work items; each occurrence copies the template item
+export const workItemRecurrences = pgTable("work_item_recurrences", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  templateWorkItemId: integer("template_work_item_id").references(() => workItems.id, { onDelete: "cascade" }).notNull(),
+  rule: text("rule").notNull(), // RFC 5545 RRULE (shared/recurrence.ts)
+  startDate: date("start_date").notNull(), // DTSTART
+  skipPublicHolidays: boolean("skip_public_holidays").default(false).notNull(),
+  nextOccurrence: date("next_occurrence"), // Next date not yet generated, null once the rule has ended
+  lastGeneratedDate: timestamp("last_generated_date"),
+  generationStatus: varchar("generation_status", { length: 20 }).default("active").notNull(), // active, paused, completed
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_work_item_recurrences_org").on(table.organizationId),
+  uniqueIndex("uq_work_item_recurrences_template").on(table.templateWorkItemId),
+]);
+
+// Saved filter/sort combinations for the work items list, optionally pinned to the menu
+export const workItemViews = pgTable("work_item_views", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  ownerId: integer("owner_id").references(() => users.id).notNull(),
+  visibility: varchar("visibility", { length: 20 }).default("private").notNull(), // 'private', 'team', 'organization'
+  teamId: integer("team_id").references(() => teams.id, { onDelete: "set null" }), // Team that can see a 'team' view
+  query: jsonb("query").notNull(), // WorkItemQueryGroup (shared/workItemQuery.ts)
+  sortBy: varchar("sort_by", { length: 100 }).default("dueDate").notNull(),
+  sortDirection: varchar("sort_direction", { length: 4 }).default("asc").notNull(),
+  columns: jsonb("columns").$type<string[]>(), // Visible column keys, null for the defaults
+  menuItemId: integer("menu_item_id").references(() => menuItems.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_work_item_views_org").on(table.organizationId),
+  index("idx_work_item_views_owner").on(table.ownerId),
 ]);
 
 // Check-in Cycles for strategy reviews - multi-tenant (migration 006: lean + roles)
@@ -880,7 +977,7 @@ export const workItemsSnapshots = pgTable("work_items_snapshots", {
 // Key Result Snapshots (Phase-1)
 export const keyResultSnapshots = pgTable("key_result_snapshots", {
   id: serial("id").primaryKey(),
-  checkInMeetingId: integer("check_in_meeting_id").references(() => checkInMeetings.id, { onDelete: "cascade" }).notNull(),
+  checkInMeetingId: integer("check_in_meeting_id").references(() => checkInMeetings.id, { onDelete: "cascade" }), // Null for data binding refreshes
   keyResultId: integer("key_result_id").references(() => keyResults.id).notNull(),
   title: varchar("title", { length: 255 }).notNull(),
   description: text("description"),
@@ -889,12 +986,51 @@ export const keyResultSnapshots = pgTable("key_result_snapshots", {
   status: keyResultStatusEnum("status").notNull(),
   type: keyResultTypeEnum("type").notNull(),
   snapshotDate: timestamp("snapshot_date").defaultNow(),
+  
+  // Where the value came from
+  source: varchar("source", { length: 20 }).default("check_in").notNull(), // 'check_in', 'data_binding'
+  dataBindingId: integer("data_binding_id").references(() => keyResultDataBindings.id, { onDelete: "set null" }),
+  lineage: jsonb("lineage"), // Source, query and raw value behind a data binding refresh
+  
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => [
   index("idx_kr_snapshots_meeting").on(table.checkInMeetingId),
   index("idx_kr_snapshots_kr").on(table.keyResultId),
 ]);
 
+// Key Result Data Bindings - keep a key result's current value in sync with a metric
+// (a data table query, a Xero report line or a Splynx count), refreshed on a schedule
+export const keyResultDataBindings = pgTable("key_result_data_bindings", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id, { onDelete: "cascade" }).notNull(),
+  keyResultId: integer("key_result_id").references(() => keyResults.id, { onDelete: "cascade" }).notNull(),
+  
+  // Metric source
+  sourceType: varchar("source_type", { length: 30 }).notNull(), // 'data_table', 'xero_report', 'splynx_count'
+  sourceConfig: jsonb("source_config").$type<Record<string, any>>().default({}).notNull(),
+  
+  // Refresh schedule (same cron and catch-up handling as workflow schedules)
+  cronExpression: varchar("cron_expression", { length: 100 }).default("0 6 * * *").notNull(),
+  timezone: varchar("timezone", { length: 50 }).default("UTC").notNull(),
+  catchUpPolicy: varchar("catch_up_policy", { length: 20 }).default("run_once").notNull(), // 'skip', 'run_once', 'run_all'
+  isEnabled: boolean("is_enabled").default(true).notNull(),
+  nextRunAt: timestamp("next_run_at", { withTimezone: true }),
+  
+  // Last refresh
+  lastRefreshedAt: timestamp("last_refreshed_at", { withTimezone: true }),
+  lastStatus: varchar("last_status", { length: 20 }), // 'success', 'failed'
+  lastValue: decimal("last_value", { precision: 12, scale: 2 }),
+  lastError: text("last_error"),
+  
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_kr_data_bindings_key_result").on(table.keyResultId),
+  index("idx_kr_data_bindings_org").on(table.organizationId),
+  index("idx_kr_data_bindings_next_run").on(table.nextRunAt).where(sql`${table.isEnabled} = true`),
+]);
+
 // Meeting Topics (Phase-1)
 export const meetingTopics = pgTable("meeting_topics", {
   id: serial("id").primaryKey(),
@@ -906,10 +1042,17 @@ export const meetingTopics = pgTable("meeting_topics", {
   actualTime: integer("actual_time"), // minutes
   status: varchar("status", { length: 50 }).default("pending"), // pending, discussed, deferred
   outcomes: text("outcomes"),
+  
+  // Where a generated topic came from (see shared/meetingAgenda); manual topics have no source id
+  source: varchar("source", { length: 30 }).default("manual").notNull(), // manual, carry_over, key_result, work_item, feedback
+  sourceId: integer("source_id"), // Topic, key result, work item or team feedback id
+  context: jsonb("context"), // Values behind the topic, e.g. a key result's previous and current value
+  
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => [
   index("idx_topics_meeting").on(table.meetingId),
   index("idx_topics_priority").on(table.priority),
+  uniqueIndex("uq_meeting_topics_source").on(table.meetingId, table.source, table.sourceId).where(sql`${table.sourceId} IS NOT NULL`),
 ]);
 
 // Meeting Attendees (Phase-1)
@@ -1687,6 +1830,8 @@ export const strategySettings = pgTable("strategy_settings", {
   cronSchedule: varchar("cron_schedule", { length: 255 }).default("0 2 * * *"),
   lookaheadDays: integer("lookahead_days").default(7).notNull(),
   lastCronExecution: timestamp("last_cron_execution"),
+  cronNextRunAt: timestamp("cron_next_run_at", { withTimezone: true }), // Next occurrence of cronSchedule; advanced by the instance that claims it
+  cronCatchUpPolicy: varchar("cron_catch_up_policy", { length: 20 }).default("run_once").notNull(), // 'skip', 'run_once', 'run_all'
   
   // Generation settings
   autoGenerateWorkItems: boolean("auto_generate_work_items").default(true).notNull(),
@@ -1694,6 +1839,11 @@ export const strategySettings = pgTable("strategy_settings", {
   notifyOnGeneration: boolean("notify_on_generation").default(false).notNull(),
   notifyEmailRecipients: text("notify_email_recipients").array(),
   
+  // Meeting minutes, generated when a check-in is completed
+  minutesFolderId: integer("minutes_folder_id").references(() => knowledgeFolders.id, { onDelete: "set null" }), // Saved to the knowledge base when set
+  minutesEmailTemplateId: integer("minutes_email_template_id").references(() => emailTemplates.id, { onDelete: "set null" }), // Built-in layout when not set
+  distributeMinutes: boolean("distribute_minutes").default(false).notNull(), // Email the minutes to attendees on completion
+  
   // Audit
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -1914,6 +2064,12 @@ export const integrations = pgTable("integrations", {
   connectionConfig: jsonb("connection_config").default({}).notNull(), // Platform-specific config
   credentialsEncrypted: text("credentials_encrypted"), // Encrypted credentials
   metadata: jsonb("metadata").default({}), // Additional integration-specific settings (e.g. defaultSplynxAdminId for Splynx)
+  resilienceConfig: jsonb("resilience_config").default({}).$type<{
+    rateLimitPerMinute?: number; // Calls per minute per server instance; unset = unlimited
+    timeoutSeconds?: number; // Per call
+    failureThreshold?: number; // Consecutive upstream failures before the circuit opens
+    cooldownSeconds?: number; // How long the circuit stays open before a trial call
+  }>(),
   
   // Connection status
   connectionStatus: varchar("connection_status", { length: 20 }).default("disconnected").notNull(),
@@ -2056,14 +2212,20 @@ export const customFieldDefinitions = pgTable("custom_field_definitions", {
   organizationId: integer("organization_id").references(() => organizations.id).notNull(),
   
   // Target table
-  tableName: varchar("table_name", { length: 100 }).notNull(), // 'addresses', 'customers', 'tickets', etc.
+  tableName: varchar("table_name", { length: 100 }).notNull(), // 'addresses', 'customers', 'tickets', 'work_items', etc.
   fieldName: varchar("field_name", { length: 100 }).notNull(), // 'router_serial_number', 'equipment_model', etc.
   
   // Field metadata
   displayLabel: varchar("display_label", { length: 255 }).notNull(),
-  fieldType: varchar("field_type", { length: 50 }).default('text').notNull(), // 'text', 'number', 'date', 'json'
+  fieldType: varchar("field_type", { length: 50 }).default('text').notNull(), // 'text', 'number', 'date', 'json'; work items also 'select', 'user', 'address'
   description: text("description"),
   
+  // Work item custom fields
+  workItemType: varchar("work_item_type", { length: 100 }), // Null = applies to every work item type
+  options: jsonb("options").$type<Array<{ value: string; label: string }>>(), // Choices for 'select' fields
+  isRequired: boolean("is_required").default(false).notNull(),
+  sortOrder: integer("sort_order").default(0).notNull(),
+  
   // OCR configuration
   extractionPrompt: text("extraction_prompt"), // If this field is populated via OCR
   
@@ -2172,7 +2334,7 @@ export const agentWorkflows = pgTable("agent_workflows", {
   // Workflow details
   name: varchar("name", { length: 255 }).notNull(),
   description: text("description"),
-  triggerType: varchar("trigger_type", { length: 50 }).notNull(), // 'schedule', 'webhook', 'integration_event', 'manual', 'workflow_step_photo_added'
+  triggerType: varchar("trigger_type", { length: 50 }).notNull(), // 'schedule', 'webhook', 'integration_event', 'manual', 'workflow_step_photo_added', 'platform_event'
   triggerConfig: jsonb("trigger_config").default({}).notNull(),
   workflowDefinition: jsonb("workflow_definition").default([]).notNull(), // Array of steps
   
@@ -2191,6 +2353,7 @@ export const agentWorkflows = pgTable("agent_workflows", {
   lastRunAt: timestamp("last_run_at"),
   lastRunStatus: varchar("last_run_status", { length: 50 }),
   lastSuccessfulRunAt: timestamp("last_successful_run_at"), // For incremental data fetching
+  currentVersion: integer("current_version"), // Published version new runs are pinned to (agent_workflow_versions)
   
   // Ownership
   createdBy: integer("created_by").references(() => users.id),
@@ -2240,7 +2403,7 @@ export const agentWorkflowRuns = pgTable("agent_workflow_runs", {
   workflowId: integer("workflow_id").references(() => agentWorkflows.id, { onDelete: "cascade" }).notNull(),
   
   // Execution details
-  status: varchar("status", { length: 50 }).notNull(), // 'running', 'completed', 'failed'
+  status: varchar("status", { length: 50 }).notNull(), // 'running', 'completed', 'failed', 'interrupted', 'awaiting_approval'
   triggerSource: varchar("trigger_source", { length: 255 }),
   startedAt: timestamp("started_at").defaultNow(),
   completedAt: timestamp("completed_at"),
@@ -2252,6 +2415,16 @@ export const agentWorkflowRuns = pgTable("agent_workflow_runs", {
   retryCount: integer("retry_count").default(0),
   contextData: jsonb("context_data").default({}), // For passing data between steps
   
+  // Checkpointing - lets a run be resumed or retried from a given step
+  initialContext: jsonb("initial_context").default({}), // Context before step 1, checkpoints are replayed on top of it
+  lastCheckpointAt: timestamp("last_checkpoint_at"),
+  resumeCount: integer("resume_count").default(0),
+  parentRunId: integer("parent_run_id"), // Set when started by a call_workflow step of another run
+  isSimulation: boolean("is_simulation").default(false), // Dry run: writes were recorded, not executed
+  workflowVersion: integer("workflow_version"), // Published version the run started on; resumes use the same steps
+  ownerInstanceId: varchar("owner_instance_id", { length: 255 }), // Server instance executing the run
+  heartbeatAt: timestamp("heartbeat_at"), // Renewed while the owner executes the run; a stale one means it was cut off
+  
   // Execution data
   executionLog: jsonb("execution_log").default([]).notNull(),
   errorMessage: text("error_message"),
@@ -2260,6 +2433,104 @@ export const agentWorkflowRuns = pgTable("agent_workflow_runs", {
   index("idx_workflow_runs_workflow").on(table.workflowId),
   index("idx_workflow_runs_status").on(table.status),
   index("idx_workflow_runs_started").on(table.startedAt.desc()),
+  index("idx_workflow_runs_parent").on(table.parentRunId),
+]);
+
+// Agent Workflow Versions - immutable snapshot published on every change to a workflow's
+// definition. Rolling back publishes a copy of an older snapshot as a new version.
+export const agentWorkflowVersions = pgTable("agent_workflow_versions", {
+  id: serial("id").primaryKey(),
+  workflowId: integer("workflow_id").references(() => agentWorkflows.id, { onDelete: "cascade" }).notNull(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  version: integer("version").notNull(),
+  
+  // Snapshot of the versioned workflow fields
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  triggerType: varchar("trigger_type", { length: 50 }).notNull(),
+  triggerConfig: jsonb("trigger_config").default({}).notNull(),
+  workflowDefinition: jsonb("workflow_definition").default([]).notNull(),
+  retryConfig: jsonb("retry_config"),
+  executionTimeout: integer("execution_timeout"),
+  
+  changeNote: text("change_note"),
+  restoredFromVersion: integer("restored_from_version"), // Set when published by a rollback
+  publishedBy: integer("published_by").references(() => users.id),
+  publishedAt: timestamp("published_at").defaultNow().notNull(),
+}, (table) => [
+  unique("unique_agent_workflow_version").on(table.workflowId, table.version),
+  index("idx_agent_workflow_versions_workflow").on(table.workflowId),
+]);
+
+// Integration Circuit Breakers - shared breaker state so every server instance stops
+// calling an integration whose upstream keeps failing
+export const integrationCircuitBreakers = pgTable("integration_circuit_breakers", {
+  integrationId: integer("integration_id").primaryKey().references(() => integrations.id, { onDelete: "cascade" }),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  state: varchar("state", { length: 20 }).default("closed").notNull(), // 'closed', 'open', 'half_open'
+  consecutiveFailures: integer("consecutive_failures").default(0).notNull(),
+  lastError: text("last_error"),
+  lastFailureAt: timestamp("last_failure_at"),
+  openedAt: timestamp("opened_at"),
+  retryAt: timestamp("retry_at"), // When an open circuit lets a trial call through
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_circuit_breakers_org").on(table.organizationId),
+]);
+
+// Platform Events - append-only log of internal events that can trigger agent workflows
+export const platformEvents = pgTable("platform_events", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  eventType: varchar("event_type", { length: 100 }).notNull(), // 'work_item.status_changed', 'key_result.updated', ...
+  entityType: varchar("entity_type", { length: 50 }),
+  entityId: integer("entity_id"),
+  payload: jsonb("payload").default({}).notNull(),
+  actorUserId: integer("actor_user_id").references(() => users.id),
+  chainDepth: integer("chain_depth").default(0).notNull(), // > 0 when emitted by a workflow that an earlier event started
+  triggeredRunIds: jsonb("triggered_run_ids").default([]).$type<number[]>(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_platform_events_org_type").on(table.organizationId, table.eventType),
+  index("idx_platform_events_created").on(table.createdAt.desc()),
+]);
+
+// Agent Workflow Approvals - a run paused at an approval step until a human responds
+export const agentWorkflowApprovals = pgTable("agent_workflow_approvals", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  workflowId: integer("workflow_id").references(() => agentWorkflows.id, { onDelete: "cascade" }).notNull(),
+  runId: integer("run_id").references(() => agentWorkflowRuns.id, { onDelete: "cascade" }).notNull(),
+  stepIndex: integer("step_index").notNull(), // 0-based index of the approval step in the workflow
+  stepName: varchar("step_name", { length: 255 }),
+  
+  // Who decides
+  approverUserId: integer("approver_user_id").references(() => users.id),
+  approverTeamId: integer("approver_team_id").references(() => teams.id),
+  workItemId: integer("work_item_id").references(() => workItems.id, { onDelete: "set null" }), // Task raised for the approver
+  
+  // What is being approved
+  payload: jsonb("payload").default({}), // Proposed payload with template variables resolved
+  allowEdits: boolean("allow_edits").default(false),
+  
+  // Decision
+  status: varchar("status", { length: 20 }).default("pending").notNull(), // 'pending', 'approved', 'rejected'
+  timedOut: boolean("timed_out").default(false), // Decided by the step's timeout policy rather than a person
+  decisionPayload: jsonb("decision_payload"), // Payload after the approver's edits
+  comment: text("comment"),
+  respondedBy: integer("responded_by").references(() => users.id),
+  respondedAt: timestamp("responded_at"),
+  
+  // Timeout and escalation
+  expiresAt: timestamp("expires_at"),
+  escalateToUserId: integer("escalate_to_user_id").references(() => users.id),
+  escalatedAt: timestamp("escalated_at"),
+  
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_workflow_approvals_org_status").on(table.organizationId, table.status),
+  index("idx_workflow_approvals_run").on(table.runId),
+  index("idx_workflow_approvals_expires").on(table.expiresAt),
 ]);
 
 // AI Ticket Draft Responses - Stores AI-generated drafts for support tickets
@@ -2478,6 +2749,7 @@ export const agentWorkflowSchedules = pgTable("agent_workflow_schedules", {
   isActive: boolean("is_active").default(true),
   nextRunAt: timestamp("next_run_at", { withTimezone: true }),
   lastRunAt: timestamp("last_run_at", { withTimezone: true }),
+  catchUpPolicy: varchar("catch_up_policy", { length: 20 }).default("run_once").notNull(), // 'skip', 'run_once', 'run_all' - what to do with runs missed while no server was up
   
   // Audit
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
@@ -2488,6 +2760,32 @@ export const agentWorkflowSchedules = pgTable("agent_workflow_schedules", {
   index("idx_workflow_schedules_next_run").on(table.nextRunAt).where(sql`${table.isActive} = true`),
 ]);
 
+// Scheduled Job Runs - one row per schedule occurrence. The unique (job_key, scheduled_for)
+// row is the claim: whichever server instance inserts it first runs the occurrence.
+export const scheduledJobRuns = pgTable("scheduled_job_runs", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id, { onDelete: "cascade" }), // Null for platform maintenance jobs
+  jobType: varchar("job_type", { length: 50 }).notNull(), // 'agent_workflow', 'work_item_generation', 'key_result_refresh', 'maintenance'
+  jobKey: varchar("job_key", { length: 100 }).notNull(), // e.g. 'agent_schedule:12', 'work_item_generation:3', 'key_result_binding:5'
+  scheduleId: integer("schedule_id").references(() => agentWorkflowSchedules.id, { onDelete: "set null" }),
+  workflowId: integer("workflow_id").references(() => agentWorkflows.id, { onDelete: "set null" }),
+  scheduledFor: timestamp("scheduled_for", { withTimezone: true }).notNull(),
+  
+  status: varchar("status", { length: 20 }).default("running").notNull(), // 'running', 'completed', 'failed', 'skipped'
+  isCatchUp: boolean("is_catch_up").default(false).notNull(), // Run for an occurrence missed while no instance was up
+  claimedBy: varchar("claimed_by", { length: 255 }), // Server instance that ran the occurrence
+  workflowRunId: integer("workflow_run_id").references(() => agentWorkflowRuns.id, { onDelete: "set null" }),
+  errorMessage: text("error_message"),
+  details: jsonb("details").default({}),
+  
+  startedAt: timestamp("started_at", { withTimezone: true }).defaultNow().notNull(),
+  completedAt: timestamp("completed_at", { withTimezone: true }),
+}, (table) => [
+  uniqueIndex("idx_scheduled_job_runs_occurrence").on(table.jobKey, table.scheduledFor),
+  index("idx_scheduled_job_runs_org").on(table.organizationId, table.startedAt),
+  index("idx_scheduled_job_runs_workflow").on(table.workflowId),
+]);
+
 // ========================================
 // TYPE EXPORTS AND SCHEMAS
 // ========================================
@@ -2540,6 +2838,17 @@ export type InsertMindMapNodePosition = typeof mindMapNodePositions.$inferInsert
 // Migration 005: Work Items types
 export type WorkItem = typeof workItems.$inferSelect;
 export type InsertWorkItem = typeof workItems.$inferInsert;
+export type WorkItemDependency = typeof workItemDependencies.$inferSelect;
+export type InsertWorkItemDependency = typeof workItemDependencies.$inferInsert;
+
+export type WorkItemTimeEntry = typeof workItemTimeEntries.$inferSelect;
+export type InsertWorkItemTimeEntry = typeof workItemTimeEntries.$inferInsert;
+
+export type WorkItemRecurrence = typeof workItemRecurrences.$inferSelect;
+export type InsertWorkItemRecurrence = typeof workItemRecurrences.$inferInsert;
+
+export type WorkItemView = typeof workItemViews.$inferSelect;
+export type InsertWorkItemView = typeof workItemViews.$inferInsert;
 
 // Migration 006: Check-in Cycle Participants types
 export type CheckInCycleParticipant = typeof checkInCycleParticipants.$inferSelect;
@@ -2649,6 +2958,8 @@ export type InsertTeamFeedback = typeof teamFeedback.$inferInsert;
 
 export type KeyResultSnapshot = typeof keyResultSnapshots.$inferSelect;
 export type InsertKeyResultSnapshot = typeof keyResultSnapshots.$inferInsert;
+export type KeyResultDataBinding = typeof keyResultDataBindings.$inferSelect;
+export type InsertKeyResultDataBinding = typeof keyResultDataBindings.$inferInsert;
 
 // Integration & Agent Types
 export type Integration = typeof integrations.$inferSelect;
@@ -2666,9 +2977,24 @@ export type InsertProcessFolder = z.infer<typeof insertProcessFolderSchema>;
 export type AgentWorkflowRun = typeof agentWorkflowRuns.$inferSelect;
 export type InsertAgentWorkflowRun = typeof agentWorkflowRuns.$inferInsert;
 
+export type AgentWorkflowVersion = typeof agentWorkflowVersions.$inferSelect;
+export type InsertAgentWorkflowVersion = typeof agentWorkflowVersions.$inferInsert;
+
+export type IntegrationCircuitBreaker = typeof integrationCircuitBreakers.$inferSelect;
+export type InsertIntegrationCircuitBreaker = typeof integrationCircuitBreakers.$inferInsert;
+
+export type PlatformEvent = typeof platformEvents.$inferSelect;
+export type InsertPlatformEvent = typeof platformEvents.$inferInsert;
+
+export type AgentWorkflowApproval = typeof agentWorkflowApprovals.$inferSelect;
+export type InsertAgentWorkflowApproval = typeof agentWorkflowApprovals.$inferInsert;
+
 export type AgentWorkflowSchedule = typeof agentWorkflowSchedules.$inferSelect;
 export type InsertAgentWorkflowSchedule = typeof agentWorkflowSchedules.$inferInsert;
 
+export type ScheduledJobRun = typeof scheduledJobRuns.$inferSelect;
+export type InsertScheduledJobRun = typeof scheduledJobRuns.$inferInsert;
+
 export type TicketDraftResponse = typeof ticketDraftResponses.$inferSelect;
 export type InsertTicketDraftResponse = typeof ticketDraftResponses.$inferInsert;
 
@@ -2882,7 +3208,7 @@ export const insertAgentWorkflowSchema = createInsertSchema(agentWorkflows).omit
 }).extend({
   name: z.string().min(1, "Name is required"),
   description: z.string().optional(),
-  triggerType: z.enum(['manual', 'schedule', 'webhook', 'integration_event']),
+  triggerType: z.enum(['manual', 'schedule', 'webhook', 'integration_event', 'platform_event']),
   triggerConfig: z.record(z.any()).default({}),
   workflowDefinition: z.array(z.any()).default([]),
   retryConfig: z.record(z.any()).default({maxRetries: 3, retryDelay: 60}),
@@ -2910,7 +3236,7 @@ export const insertAgentWorkflowRunSchema = createInsertSchema(agentWorkflowRuns
   id: true,
   startedAt: true,
 }).extend({
-  status: z.enum(['running', 'completed', 'failed']),
+  status: z.enum(['running', 'completed', 'failed', 'interrupted', 'awaiting_approval']),
   triggerSource: z.string().optional(),
   executionLog: z.array(z.any()).default([]),
   errorMessage: z.string().optional(),
@@ -3590,6 +3916,32 @@ export const workflowTemplates = pgTable("workflow_templates", {
   index("idx_workflow_folder").on(table.folderId),
 ]);
 
+// Workflow Template Versions - immutable snapshot of a template's checklist, published on
+// every change. workflow_templates.version points at the current one.
+export const workflowTemplateVersions = pgTable("workflow_template_versions", {
+  id: serial("id").primaryKey(),
+  templateId: varchar("template_id", { length: 100 }).references(() => workflowTemplates.id, { onDelete: "cascade" }).notNull(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  version: integer("version").notNull(),
+  
+  // Snapshot of the versioned template fields
+  name: varchar("name", { length: 256 }).notNull(),
+  description: text("description"),
+  category: varchar("category", { length: 100 }),
+  applicableTypes: text("applicable_types").array(),
+  steps: jsonb("steps").$type<z.infer<typeof workflowStepSchema>[]>().notNull(),
+  completionCallbacks: jsonb("completion_callbacks").$type<WorkflowTemplate['completionCallbacks']>(),
+  estimatedMinutes: integer("estimated_minutes"),
+  
+  changeNote: text("change_note"),
+  restoredFromVersion: integer("restored_from_version"), // Set when published by a rollback
+  publishedBy: integer("published_by").references(() => users.id),
+  publishedAt: timestamp("published_at").defaultNow().notNull(),
+}, (table) => [
+  unique("unique_workflow_template_version").on(table.templateId, table.version),
+  index("idx_workflow_template_versions_template").on(table.templateId),
+]);
+
 // Email Templates - Self-managed email templates for campaigns
 export const emailTemplates = pgTable("email_templates", {
   id: serial("id").primaryKey(),
@@ -3773,6 +4125,7 @@ export const workItemWorkflowExecutions = pgTable("work_item_workflow_executions
   organizationId: integer("organization_id").references(() => organizations.id).notNull(),
   workItemId: integer("work_item_id").references(() => workItems.id, { onDelete: 'cascade' }).notNull(),
   workflowTemplateId: varchar("workflow_template_id", { length: 100 }),
+  workflowTemplateVersion: integer("workflow_template_version"), // Template version the execution started on
   
   status: taskExecutionStatusEnum("status").default('not_started').notNull(),
   currentStepId: varchar("current_step_id", { length: 100 }),
@@ -4095,6 +4448,36 @@ export const audioRecordings = pgTable("audio_recordings", {
   index("idx_audio_status").on(table.processingStatus),
 ]);
 
+// Field App Wipe Requests - Remote wipe of the field app data on every device the user signed in to before the request
+export const fieldAppWipeRequests = pgTable("field_app_wipe_requests", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  reason: text("reason"),
+  requestedBy: integer("requested_by").references(() => users.id).notNull(),
+  requestedAt: timestamp("requested_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"), // Last time a device confirmed it had wiped
+}, (table) => [
+  index("idx_field_app_wipe_org_user").on(table.organizationId, table.userId),
+]);
+
+// Field App Sync Cursors - Each device's position in the work item change feed, for delta downloads
+export const fieldAppSyncCursors = pgTable("field_app_sync_cursors", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  deviceId: varchar("device_id", { length: 64 }).notNull(), // Generated by the field app on first download
+  cursorAt: timestamp("cursor_at"), // Changes up to here are on the device; null until a download completes
+  pendingCursorAt: timestamp("pending_cursor_at"), // Start of the download in progress
+  workItemIds: jsonb("work_item_ids").$type<number[]>().default([]).notNull(), // Items on the device
+  assignedWorkItemIds: jsonb("assigned_work_item_ids").$type<number[]>().default([]).notNull(), // Of those, assigned to the user or their team when sent
+  templateIds: jsonb("template_ids").$type<string[]>().default([]).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("uq_field_app_sync_cursor_device").on(table.organizationId, table.userId, table.deviceId),
+]);
+
 // Fiber Splice Trays - Physical splice enclosures at nodes
 export const fiberSpliceTrays = pgTable("fiber_splice_trays", {
   id: serial("id").primaryKey(),
@@ -4584,6 +4967,8 @@ export type InsertTaskTypeConfiguration = z.infer<typeof insertTaskTypeConfigura
 
 export type WorkflowTemplate = typeof workflowTemplates.$inferSelect;
 export type InsertWorkflowTemplate = z.infer<typeof insertWorkflowTemplateSchema>;
+export type WorkflowTemplateVersion = typeof workflowTemplateVersions.$inferSelect;
+export type InsertWorkflowTemplateVersion = typeof workflowTemplateVersions.$inferInsert;
 
 export type EmailTemplate = typeof emailTemplates.$inferSelect;
 export type InsertEmailTemplate = z.infer<typeof insertEmailTemplateSchema>;
@@ -4658,6 +5043,9 @@ export const insertAudioRecordingSchema = createInsertSchema(audioRecordings).om
 export type AudioRecording = typeof audioRecordings.$inferSelect;
 export type InsertAudioRecording = z.infer<typeof insertAudioRecordingSchema>;
 
+export type FieldAppWipeRequest = typeof fieldAppWipeRequests.$inferSelect;
+export type FieldAppSyncCursor = typeof fieldAppSyncCursors.$inferSelect;
+
 // Insert schemas for Fiber Splice Documentation
 export const insertFiberSpliceTraySchema = createInsertSchema(fiberSpliceTrays).omit({
   id: true,
@@ -0,0 +1,41 @@
+/**
+ * Work Item Time Tracking
+ *
+ * Shared by the time entry API, the desktop panel, the field app and the time
+ * report. Durations are whole minutes.
+ */
+
+export const TIME_REPORT_GROUPS = {
+  user: 'Person',
+  team: 'Team',
+  workItemType: 'Work item type',
+  keyResult: 'Key result',
+} as const;
+
+export type TimeReportGroup = keyof typeof TIME_REPORT_GROUPS;
+
+export const TIME_ENTRY_SOURCES = ['timer', 'manual', 'field_app'] as const;
+
+export type TimeEntrySource = typeof TIME_ENTRY_SOURCES[number];
+
+/** Longest single entry; anything longer is almost certainly a forgotten timer */
+export const MAX_ENTRY_MINUTES = 16 * 60;
+
+export function isTimeReportGroup(value: unknown): value is TimeReportGroup {
+  return typeof value === 'string' && value in TIME_REPORT_GROUPS;
+}
+
+/** Whole minutes between two instants, at least one so short timers still register */
+export function minutesBetween(start: Date | string, end: Date | string): number {
+  const milliseconds = new Date(end).getTime() - new Date(start).getTime();
+  return Math.max(1, Math.round(milliseconds / 60000));
+}
+
+/** "2h 05m", "45m" */
+export function formatMinutes(minutes: number | null | undefined): string {
+  const total = Math.max(0, Math.round(minutes ?? 0));
+  const hours = Math.floor(total / 60);
+  const rest = total % 60;
+  if (hours === 0) return `${rest}m`;
+  return `${hours}h ${rest.toString().padStart(2, '0')}m`;
+}
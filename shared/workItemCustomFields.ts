@@ -0,0 +1,171 @@
+/**
+ * Work Item Custom Fields
+ *
+ * Organizations define typed fields for work items in custom_field_definitions
+ * (tableName 'work_items'), optionally scoped to a single workItemType. Values
+ * live in work_items.custom_fields keyed by fieldName. Values are stored in a
+ * canonical form: strings for text, select and date (YYYY-MM-DD), numbers for
+ * number, user ids and address record ids. Pure functions, shared by the API
+ * and the UI.
+ */
+
+export const WORK_ITEM_CUSTOM_FIELDS_TABLE = 'work_items';
+
+export type WorkItemCustomFieldType = 'text' | 'number' | 'date' | 'select' | 'user' | 'address';
+
+export const WORK_ITEM_CUSTOM_FIELD_TYPES: WorkItemCustomFieldType[] = ['text', 'number', 'date', 'select', 'user', 'address'];
+
+export const WORK_ITEM_CUSTOM_FIELD_TYPE_LABELS: Record<WorkItemCustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  date: 'Date',
+  select: 'Select',
+  user: 'User',
+  address: 'Address link',
+};
+
+export interface CustomFieldOption {
+  value: string;
+  label: string;
+}
+
+export interface WorkItemCustomFieldDefinition {
+  id: number;
+  fieldName: string;
+  displayLabel: string;
+  fieldType: string;
+  description?: string | null;
+  /** Null when the field applies to every work item type */
+  workItemType: string | null;
+  options: CustomFieldOption[] | null;
+  isRequired: boolean;
+  sortOrder: number;
+}
+
+export type CustomFieldValue = string | number | null;
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+/** Query parameter prefix for list filters, e.g. `cf_site_code=ABC` */
+export const CUSTOM_FIELD_FILTER_PREFIX = 'cf_';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Definitions that apply to a work item type, in display order */
+export function definitionsForType<T extends Pick<WorkItemCustomFieldDefinition, 'workItemType' | 'sortOrder' | 'displayLabel'>>(
+  definitions: T[],
+  workItemType: string | null | undefined
+): T[] {
+  return definitions
+    .filter(definition => !definition.workItemType || definition.workItemType === workItemType)
+    .sort((a, b) => a.sortOrder - b.sortOrder || a.displayLabel.localeCompare(b.displayLabel));
+}
+
+function isEmpty(raw: unknown): boolean {
+  return raw === null || raw === undefined || (typeof raw === 'string' && raw.trim() === '');
+}
+
+/** Convert a raw value to the stored form for its field, or explain why it is invalid */
+export function normaliseCustomFieldValue(
+  definition: Pick<WorkItemCustomFieldDefinition, 'fieldType' | 'options' | 'displayLabel'>,
+  raw: unknown
+): { value: CustomFieldValue; error?: string } {
+  if (isEmpty(raw)) return { value: null };
+
+  switch (definition.fieldType) {
+    case 'number': {
+      const value = typeof raw === 'number' ? raw : parseFloat(String(raw));
+      return Number.isFinite(value) ? { value } : { value: null, error: `${definition.displayLabel} must be a number` };
+    }
+    case 'date': {
+      const value = String(raw).slice(0, 10);
+      return DATE_PATTERN.test(value) && !isNaN(new Date(value).getTime())
+        ? { value }
+        : { value: null, error: `${definition.displayLabel} must be a date (YYYY-MM-DD)` };
+    }
+    case 'select': {
+      const value = String(raw);
+      const allowed = (definition.options || []).map(option => option.value);
+      return allowed.includes(value)
+        ? { value }
+        : { value: null, error: `${definition.displayLabel} must be one of: ${allowed.join(', ')}` };
+    }
+    case 'user':
+    case 'address': {
+      const value = typeof raw === 'number' ? raw : parseInt(String(raw));
+      return Number.isInteger(value) && value > 0
+        ? { value }
+        : { value: null, error: `${definition.displayLabel} must reference a ${definition.fieldType === 'user' ? 'user' : 'address record'}` };
+    }
+    default: {
+      const value = String(raw);
+      return value.length <= 1000 ? { value } : { value: null, error: `${definition.displayLabel} is too long (max 1000 characters)` };
+    }
+  }
+}
+
+/**
+ * Validate submitted values against the definitions that apply to the work
+ * item. Unknown keys are rejected; required fields must end up with a value
+ * once merged with the stored values.
+ */
+export function validateCustomFieldValues(
+  definitions: WorkItemCustomFieldDefinition[],
+  submitted: Record<string, unknown>,
+  existing: CustomFieldValues = {}
+): { values: CustomFieldValues; errors: Record<string, string> } {
+  const byName = new Map(definitions.map(definition => [definition.fieldName, definition]));
+  const values: CustomFieldValues = { ...existing };
+  const errors: Record<string, string> = {};
+
+  for (const [fieldName, raw] of Object.entries(submitted)) {
+    const definition = byName.get(fieldName);
+    if (!definition) {
+      errors[fieldName] = `Unknown custom field "${fieldName}"`;
+      continue;
+    }
+    const { value, error } = normaliseCustomFieldValue(definition, raw);
+    if (error) {
+      errors[fieldName] = error;
+    } else if (value === null) {
+      delete values[fieldName];
+    } else {
+      values[fieldName] = value;
+    }
+  }
+
+  for (const definition of definitions) {
+    if (definition.isRequired && isEmpty(values[definition.fieldName]) && !errors[definition.fieldName]) {
+      errors[definition.fieldName] = `${definition.displayLabel} is required`;
+    }
+  }
+
+  return { values, errors };
+}
+
+/** Sort comparator for two stored values of the same field; empty values sort last */
+export function compareCustomFieldValues(a: CustomFieldValue | undefined, b: CustomFieldValue | undefined): number {
+  const aEmpty = a === null || a === undefined;
+  const bEmpty = b === null || b === undefined;
+  if (aEmpty || bEmpty) return aEmpty === bEmpty ? 0 : aEmpty ? 1 : -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+}
+
+/**
+ * Display text for a stored value. User and address links show their id unless
+ * the caller can resolve a name (the field app works offline and often cannot).
+ */
+export function formatCustomFieldValue(
+  definition: Pick<WorkItemCustomFieldDefinition, 'fieldType' | 'options'>,
+  value: CustomFieldValue | undefined,
+  resolveReference?: (fieldType: 'user' | 'address', id: number) => string | undefined
+): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (definition.fieldType === 'select') {
+    return definition.options?.find(option => option.value === value)?.label ?? String(value);
+  }
+  if ((definition.fieldType === 'user' || definition.fieldType === 'address') && typeof value === 'number') {
+    return resolveReference?.(definition.fieldType, value) ?? `${definition.fieldType === 'user' ? 'User' : 'Address'} #${value}`;
+  }
+  return String(value);
+}
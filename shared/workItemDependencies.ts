@@ -0,0 +1,149 @@
+/**
+ * Work Item Dependencies
+ *
+ * Work items can be blocked by other work items (survey → civils → splice →
+ * activation). A blocker is resolved once it is Completed or Archived. The
+ * critical path is the longest chain of unresolved, dependent work; when
+ * chains are equally long the one ending with the latest due date wins. Pure
+ * functions, shared by the API and the UI.
+ */
+
+export interface DependencyEdge {
+  /** The work item that cannot start until the blocker is done */
+  blockedWorkItemId: number;
+  blockingWorkItemId: number;
+}
+
+export interface DependencyWorkItem {
+  id: number;
+  title: string;
+  status: string;
+  dueDate: string | null;
+}
+
+export interface DueDateConflict {
+  blockedWorkItemId: number;
+  blockingWorkItemId: number;
+  blockedDueDate: string;
+  blockingDueDate: string;
+}
+
+export interface DependencyGraph {
+  items: DependencyWorkItem[];
+  edges: DependencyEdge[];
+  /** Work item ids from the first blocker to the last dependent */
+  criticalPath: number[];
+  /** Unresolved blockers per work item */
+  openBlockerCounts: Record<number, number>;
+  dueDateConflicts: DueDateConflict[];
+}
+
+export const RESOLVED_WORK_ITEM_STATUSES = ['Completed', 'Archived'];
+
+/** Statuses that are suggested to move to Ready once nothing blocks them */
+export const UNBLOCKABLE_STATUSES = ['Planning', 'Stuck'];
+
+export function isResolved(status: string): boolean {
+  return RESOLVED_WORK_ITEM_STATUSES.includes(status);
+}
+
+/** True when blockingId already depends, directly or not, on blockedId */
+export function createsDependencyCycle(edges: DependencyEdge[], blockedId: number, blockingId: number): boolean {
+  if (blockedId === blockingId) return true;
+
+  const blockersOf = new Map<number, number[]>();
+  for (const edge of edges) {
+    blockersOf.set(edge.blockedWorkItemId, [...(blockersOf.get(edge.blockedWorkItemId) || []), edge.blockingWorkItemId]);
+  }
+
+  // Walk the blockers of the new blocker; reaching blockedId means the new edge closes a loop
+  const stack = [blockingId];
+  const seen = new Set<number>();
+  while (stack.length > 0) {
+    const current = stack.pop() as number;
+    if (current === blockedId) return true;
+    if (seen.has(current)) continue;
+    seen.add(current);
+    stack.push(...(blockersOf.get(current) || []));
+  }
+  return false;
+}
+
+/** Due dates that fall before the due date of one of the item's blockers */
+export function findDueDateConflicts(items: DependencyWorkItem[], edges: DependencyEdge[]): DueDateConflict[] {
+  const byId = new Map(items.map(item => [item.id, item]));
+  const conflicts: DueDateConflict[] = [];
+
+  for (const edge of edges) {
+    const blocked = byId.get(edge.blockedWorkItemId);
+    const blocking = byId.get(edge.blockingWorkItemId);
+    if (!blocked?.dueDate || !blocking?.dueDate || isResolved(blocked.status)) continue;
+    if (blocked.dueDate < blocking.dueDate) {
+      conflicts.push({
+        blockedWorkItemId: blocked.id,
+        blockingWorkItemId: blocking.id,
+        blockedDueDate: blocked.dueDate,
+        blockingDueDate: blocking.dueDate,
+      });
+    }
+  }
+  return conflicts;
+}
+
+export function buildDependencyGraph(items: DependencyWorkItem[], edges: DependencyEdge[]): DependencyGraph {
+  const byId = new Map(items.map(item => [item.id, item]));
+  const openBlockers = new Map<number, number[]>();
+  const openBlockerCounts: Record<number, number> = {};
+
+  for (const edge of edges) {
+    const blocked = byId.get(edge.blockedWorkItemId);
+    const blocking = byId.get(edge.blockingWorkItemId);
+    if (!blocked || !blocking || isResolved(blocked.status) || isResolved(blocking.status)) continue;
+    openBlockers.set(blocked.id, [...(openBlockers.get(blocked.id) || []), blocking.id]);
+    openBlockerCounts[blocked.id] = (openBlockerCounts[blocked.id] || 0) + 1;
+  }
+
+  // Longest chain of open work ending at each item; the graph is kept acyclic on write,
+  // but a visiting set still guards against loops in stored data
+  const chainLength = new Map<number, number>();
+  const visiting = new Set<number>();
+  const lengthOf = (id: number): number => {
+    const known = chainLength.get(id);
+    if (known !== undefined) return known;
+    if (visiting.has(id)) return 0;
+    visiting.add(id);
+    const longest = Math.max(0, ...(openBlockers.get(id) || []).map(lengthOf));
+    visiting.delete(id);
+    chainLength.set(id, longest + 1);
+    return longest + 1;
+  };
+
+  const dueOf = (id: number) => byId.get(id)?.dueDate || '';
+  const better = (a: number, b: number) =>
+    lengthOf(a) !== lengthOf(b) ? lengthOf(a) > lengthOf(b) : dueOf(a) > dueOf(b);
+
+  const open = items.filter(item => !isResolved(item.status) && (openBlockers.has(item.id) || edges.some(edge => edge.blockingWorkItemId === item.id)));
+  let end: number | null = null;
+  for (const item of open) {
+    if (end === null || better(item.id, end)) end = item.id;
+  }
+
+  const criticalPath: number[] = [];
+  const onPath = new Set<number>();
+  let current = end;
+  while (current !== null && !onPath.has(current)) {
+    criticalPath.unshift(current);
+    onPath.add(current);
+    const blockers = openBlockers.get(current) || [];
+    current = blockers.length > 0 ? blockers.reduce((best, id) => (better(id, best) ? id : best)) : null;
+  }
+
+  return {
+    items,
+    edges,
+    // A single item with nothing before or after it is not a path
+    criticalPath: criticalPath.length > 1 ? criticalPath : [],
+    openBlockerCounts,
+    dueDateConflicts: findDueDateConflicts(items, edges),
+  };
+}
@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  countQueryRules,
+  isIsoDate,
+  parseWorkItemQuery,
+  validateWorkItemQuery,
+  withoutIncompleteRules,
+  type WorkItemQueryGroup,
+} from './workItemQuery';
+
+const query: WorkItemQueryGroup = {
+  combinator: 'and',
+  rules: [
+    { field: 'status', operator: 'in', value: ['Ready', 'In Progress'] },
+    {
+      combinator: 'or',
+      rules: [
+        { field: 'assignee', operator: 'in', value: ['me'] },
+        { field: 'dueDate', operator: 'before', value: '2026-03-01' },
+      ],
+    },
+  ],
+};
+
+function nested(depth: number): WorkItemQueryGroup {
+  return depth === 1
+    ? { combinator: 'and', rules: [{ field: 'dueDate', operator: 'overdue' }] }
+    : { combinator: 'and', rules: [nested(depth - 1)] };
+}
+
+describe('validateWorkItemQuery', () => {
+  it('accepts a complete query', () => {
+    assert.deepEqual(validateWorkItemQuery(query), []);
+    assert.equal(countQueryRules(query), 3);
+  });
+
+  it('rejects operators a field does not support and missing values', () => {
+    assert.deepEqual(validateWorkItemQuery({
+      combinator: 'and',
+      rules: [
+        { field: 'status', operator: 'before', value: '2026-03-01' },
+        { field: 'team', operator: 'in', value: [] },
+        { field: 'team', operator: 'is_empty' },
+      ],
+    }), ['Status does not support "is before"', 'Team needs a value']);
+  });
+
+  it('rejects malformed dates and unknown statuses', () => {
+    assert.deepEqual(validateWorkItemQuery({
+      combinator: 'or',
+      rules: [
+        { field: 'dueDate', operator: 'on', value: '01/03/2026' },
+        { field: 'dueDate', operator: 'after', value: '2026-02-30' },
+        { field: 'status', operator: 'not_in', value: ['Ready', 'Done'] },
+      ],
+    }), ['Due date needs a date as YYYY-MM-DD', 'Due date needs a date as YYYY-MM-DD', 'Status has no value "Done"']);
+  });
+
+  it('limits nesting depth and the number of conditions', () => {
+    assert.deepEqual(validateWorkItemQuery(nested(3)), []);
+    assert.deepEqual(validateWorkItemQuery(nested(4)), ['Groups can be nested at most 3 levels deep']);
+
+    const tooMany: WorkItemQueryGroup = {
+      combinator: 'and',
+      rules: Array.from({ length: 51 }, () => ({ field: 'dueDate' as const, operator: 'overdue' as const })),
+    };
+    assert.deepEqual(validateWorkItemQuery(tooMany), ['Queries are limited to 50 conditions']);
+  });
+});
+
+describe('isIsoDate', () => {
+  it('accepts only real calendar dates written as YYYY-MM-DD', () => {
+    assert.equal(isIsoDate('2028-02-29'), true);
+    assert.equal(isIsoDate('2026-02-29'), false);
+    assert.equal(isIsoDate('2026-3-1'), false);
+    assert.equal(isIsoDate('2026-03-01T00:00:00Z'), false);
+    assert.equal(isIsoDate(20260301), false);
+  });
+});
+
+describe('withoutIncompleteRules', () => {
+  it('drops conditions without a value and the groups they leave empty', () => {
+    const draft: WorkItemQueryGroup = {
+      combinator: 'and',
+      rules: [
+        { field: 'dueDate', operator: 'overdue' },
+        { field: 'team', operator: 'in', value: [] },
+        { combinator: 'or', rules: [{ field: 'dueDate', operator: 'on', value: '' }] },
+      ],
+    };
+    assert.deepEqual(withoutIncompleteRules(draft), { combinator: 'and', rules: [{ field: 'dueDate', operator: 'overdue' }] });
+  });
+});
+
+describe('parseWorkItemQuery', () => {
+  it('parses a query passed as JSON text or as an object', () => {
+    assert.deepEqual(parseWorkItemQuery(JSON.stringify(query)), query);
+    assert.deepEqual(parseWorkItemQuery(query), query);
+  });
+
+  it('returns null for malformed JSON, unknown fields and invalid queries', () => {
+    assert.equal(parseWorkItemQuery('{"combinator":'), null);
+    assert.equal(parseWorkItemQuery({ combinator: 'and', rules: [{ field: 'priority', operator: 'in', value: ['High'] }] }), null);
+    assert.equal(parseWorkItemQuery({ combinator: 'and', rules: [{ field: 'dueDate', operator: 'before', value: 'tomorrow' }] }), null);
+  });
+});
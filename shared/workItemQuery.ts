@@ -0,0 +1,194 @@
+/**
+ * Work Item Query Builder
+ *
+ * Advanced filters for the work items list are a tree of AND/OR groups whose
+ * leaves compare one work item property with a value. Saved views store the
+ * tree with their sort order; GET /api/work-items compiles it to SQL. Shared by
+ * the API and the UI.
+ */
+
+import { z } from 'zod';
+
+export type WorkItemQueryField =
+  | 'status'
+  | 'workItemType'
+  | 'assignee'
+  | 'team'
+  | 'dueDate'
+  | 'checkInCycle'
+  | 'keyResult'
+  | 'workflowProgress';
+
+export type WorkItemQueryOperator =
+  | 'in'
+  | 'not_in'
+  | 'is_empty'
+  | 'is_not_empty'
+  | 'before'
+  | 'after'
+  | 'on'
+  | 'overdue'
+  | 'within_days'
+  | 'gte'
+  | 'lte';
+
+/** How the UI should collect the value for a field */
+export type WorkItemQueryValueType = 'status' | 'workItemType' | 'user' | 'team' | 'date' | 'cycle' | 'keyResult' | 'percent';
+
+export interface WorkItemQueryRule {
+  field: WorkItemQueryField;
+  operator: WorkItemQueryOperator;
+  /** Ids or names for list operators, YYYY-MM-DD for dates, a number for percent and day counts */
+  value?: Array<string | number> | string | number | null;
+}
+
+export interface WorkItemQueryGroup {
+  combinator: 'and' | 'or';
+  rules: Array<WorkItemQueryRule | WorkItemQueryGroup>;
+}
+
+const LIST_OPERATORS: WorkItemQueryOperator[] = ['in', 'not_in', 'is_empty', 'is_not_empty'];
+
+/** Values of the work_item_status enum */
+export const WORK_ITEM_STATUS_VALUES = ['Planning', 'Ready', 'In Progress', 'Stuck', 'Completed', 'Archived'];
+
+const DATE_OPERATORS: WorkItemQueryOperator[] = ['before', 'after', 'on'];
+
+export const WORK_ITEM_QUERY_FIELDS: Record<WorkItemQueryField, {
+  label: string;
+  valueType: WorkItemQueryValueType;
+  operators: WorkItemQueryOperator[];
+}> = {
+  status: { label: 'Status', valueType: 'status', operators: ['in', 'not_in'] },
+  workItemType: { label: 'Type', valueType: 'workItemType', operators: LIST_OPERATORS },
+  assignee: { label: 'Assignee', valueType: 'user', operators: LIST_OPERATORS },
+  team: { label: 'Team', valueType: 'team', operators: LIST_OPERATORS },
+  dueDate: { label: 'Due date', valueType: 'date', operators: ['before', 'after', 'on', 'overdue', 'within_days', 'is_empty', 'is_not_empty'] },
+  checkInCycle: { label: 'Check-in cycle', valueType: 'cycle', operators: LIST_OPERATORS },
+  keyResult: { label: 'Linked key result', valueType: 'keyResult', operators: LIST_OPERATORS },
+  workflowProgress: { label: 'Workflow progress', valueType: 'percent', operators: ['gte', 'lte', 'is_empty', 'is_not_empty'] },
+};
+
+export const WORK_ITEM_QUERY_OPERATOR_LABELS: Record<WorkItemQueryOperator, string> = {
+  in: 'is any of',
+  not_in: 'is none of',
+  is_empty: 'is empty',
+  is_not_empty: 'is set',
+  before: 'is before',
+  after: 'is after',
+  on: 'is on',
+  overdue: 'is overdue',
+  within_days: 'is within the next (days)',
+  gte: 'is at least (%)',
+  lte: 'is at most (%)',
+};
+
+/** Operators that take no value */
+export const VALUELESS_OPERATORS: WorkItemQueryOperator[] = ['is_empty', 'is_not_empty', 'overdue'];
+
+/** Assignee value that means whoever is looking at the view */
+export const CURRENT_USER_VALUE = 'me';
+
+export const WORK_ITEM_SORT_COLUMNS = ['title', 'status', 'dueDate', 'assignee', 'team', 'checkin', 'updated', 'created'] as const;
+export type WorkItemSortColumn = typeof WORK_ITEM_SORT_COLUMNS[number];
+
+/** Custom field columns sort as `cf:<fieldName>` */
+export const CUSTOM_FIELD_SORT_PREFIX = 'cf:';
+
+export type WorkItemViewVisibility = 'private' | 'team' | 'organization';
+
+export const WORK_ITEM_VIEW_VISIBILITY_LABELS: Record<WorkItemViewVisibility, string> = {
+  private: 'Only me',
+  team: 'My team',
+  organization: 'Everyone',
+};
+
+const MAX_DEPTH = 3;
+const MAX_RULES = 50;
+
+const ruleSchema = z.object({
+  field: z.enum(Object.keys(WORK_ITEM_QUERY_FIELDS) as [WorkItemQueryField, ...WorkItemQueryField[]]),
+  operator: z.enum(Object.keys(WORK_ITEM_QUERY_OPERATOR_LABELS) as [WorkItemQueryOperator, ...WorkItemQueryOperator[]]),
+  value: z.union([z.array(z.union([z.string(), z.number()])), z.string(), z.number(), z.null()]).optional(),
+});
+
+export const workItemQueryGroupSchema: z.ZodType<WorkItemQueryGroup> = z.lazy(() => z.object({
+  combinator: z.enum(['and', 'or']),
+  rules: z.array(z.union([ruleSchema, workItemQueryGroupSchema])),
+}));
+
+export function isQueryGroup(rule: WorkItemQueryRule | WorkItemQueryGroup): rule is WorkItemQueryGroup {
+  return 'combinator' in rule;
+}
+
+export function emptyWorkItemQuery(): WorkItemQueryGroup {
+  return { combinator: 'and', rules: [] };
+}
+
+export function countQueryRules(group: WorkItemQueryGroup): number {
+  return group.rules.reduce((count, rule) => count + (isQueryGroup(rule) ? countQueryRules(rule) : 1), 0);
+}
+
+/** Problems that make a query unusable, beyond its shape: unsupported operators, missing or malformed values, excessive size */
+export function validateWorkItemQuery(group: WorkItemQueryGroup): string[] {
+  const errors: string[] = [];
+  if (countQueryRules(group) > MAX_RULES) errors.push(`Queries are limited to ${MAX_RULES} conditions`);
+
+  const visit = (current: WorkItemQueryGroup, depth: number) => {
+    if (depth > MAX_DEPTH) {
+      errors.push(`Groups can be nested at most ${MAX_DEPTH} levels deep`);
+      return;
+    }
+    for (const rule of current.rules) {
+      if (isQueryGroup(rule)) {
+        visit(rule, depth + 1);
+        continue;
+      }
+      const field = WORK_ITEM_QUERY_FIELDS[rule.field];
+      if (!field.operators.includes(rule.operator)) {
+        errors.push(`${field.label} does not support "${WORK_ITEM_QUERY_OPERATOR_LABELS[rule.operator]}"`);
+      } else if (isIncomplete(rule)) {
+        errors.push(`${field.label} needs a value`);
+      } else if (DATE_OPERATORS.includes(rule.operator) && !isIsoDate(rule.value)) {
+        errors.push(`${field.label} needs a date as YYYY-MM-DD`);
+      } else if (rule.field === 'status') {
+        const values = Array.isArray(rule.value) ? rule.value : [rule.value];
+        const unknown = values.filter(value => !WORK_ITEM_STATUS_VALUES.includes(String(value)));
+        if (unknown.length > 0) errors.push(`${field.label} has no value "${unknown[0]}"`);
+      }
+    }
+  };
+  visit(group, 1);
+  return errors;
+}
+
+/** A real calendar date written as YYYY-MM-DD */
+export function isIsoDate(value: unknown): value is string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+function isIncomplete(rule: WorkItemQueryRule) {
+  if (VALUELESS_OPERATORS.includes(rule.operator)) return false;
+  return rule.value === undefined || rule.value === null || rule.value === '' || (Array.isArray(rule.value) && rule.value.length === 0);
+}
+
+/** The query without conditions still waiting for a value, and without groups left empty by that */
+export function withoutIncompleteRules(group: WorkItemQueryGroup): WorkItemQueryGroup {
+  const rules = group.rules
+    .map(rule => (isQueryGroup(rule) ? withoutIncompleteRules(rule) : rule))
+    .filter(rule => (isQueryGroup(rule) ? rule.rules.length > 0 : !isIncomplete(rule)));
+  return { ...group, rules };
+}
+
+/** Parse a query passed as a JSON string (query parameters, stored views); null when it is not a valid query */
+export function parseWorkItemQuery(raw: unknown): WorkItemQueryGroup | null {
+  try {
+    const value = typeof raw === 'string' ? JSON.parse(raw) : raw;
+    const parsed = workItemQueryGroupSchema.safeParse(value);
+    return parsed.success && validateWorkItemQuery(parsed.data).length === 0 ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,129 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ExpressionError,
+  evaluateExpression,
+  evaluateTemplateExpressions,
+  validateExpression,
+  validateStepExpressions,
+  validateWorkflowExpressions,
+} from './workflowExpressions';
+
+const context = {
+  trigger: { customer_id: 42, name: 'Acme' },
+  step1Output: {
+    records: [
+      { amount: 10, status: 'open' },
+      { amount: 25, status: 'closed' },
+      { amount: 5, status: 'open' },
+    ],
+  },
+};
+
+describe('evaluateExpression', () => {
+  it('reads context paths and applies operator precedence', () => {
+    assert.equal(evaluateExpression('trigger.customer_id + 2 * 3', context), 48);
+    assert.equal(evaluateExpression("trigger['name']", context), 'Acme');
+    assert.equal(evaluateExpression('trigger.missing', context), null);
+  });
+
+  it('runs list functions with arrow functions', () => {
+    assert.equal(evaluateExpression('sum(step1Output.records, r => r.amount)', context), 40);
+    assert.equal(evaluateExpression("count(step1Output.records, r => r.status == 'open')", context), 2);
+    assert.deepEqual(evaluateExpression("map(filter(step1Output.records, r => r.amount > 6), r => r.amount)", context), [10, 25]);
+    assert.equal(evaluateExpression('avg([])', context), null);
+  });
+
+  it('supports null-coalescing, conditionals and division by zero as null', () => {
+    assert.equal(evaluateExpression("trigger.missing ?? 'fallback'", context), 'fallback');
+    assert.equal(evaluateExpression("trigger.customer_id > 40 ? 'big' : 'small'", context), 'big');
+    assert.equal(evaluateExpression('(10 / 0) ?? -1', context), -1);
+  });
+
+  it('compares dates with ISO date strings', () => {
+    assert.equal(evaluateExpression("dateAdd('2026-01-31', 1, 'months') < '2026-03-01'", context), true);
+    assert.equal(evaluateExpression("'2026-03-02' >= dateAdd('2026-03-01', 1, 'days')", context), true);
+    assert.equal(evaluateExpression("dateDiff('2026-01-01', '2026-01-15', 'days')", context), 14);
+  });
+
+  it('refuses to compare unrelated types', () => {
+    assert.throws(() => evaluateExpression("1 < 'a'", context), ExpressionError);
+    assert.throws(() => evaluateExpression("'2026-03-01' - 1", context), /expects numbers/);
+  });
+
+  it('does not reach prototype properties', () => {
+    assert.throws(() => evaluateExpression('trigger.constructor', context), /not allowed/);
+    assert.throws(() => evaluateExpression("trigger['__proto__']", context), /not allowed/);
+    assert.equal(evaluateExpression('trigger.toString', context), null);
+  });
+
+  it('reports syntax errors with their position', () => {
+    assert.throws(() => evaluateExpression("'unterminated", context), /Unterminated string \(at position 0\)/);
+    assert.throws(() => evaluateExpression('nope(1)', context), /Unknown function 'nope'/);
+  });
+});
+
+describe('evaluateTemplateExpressions', () => {
+  it('keeps the typed value of a template that is a single expression', () => {
+    assert.deepEqual(evaluateTemplateExpressions('{{= map(step1Output.records, r => r.amount) }}', context), [10, 25, 5]);
+  });
+
+  it('interpolates expressions inside text', () => {
+    assert.equal(evaluateTemplateExpressions('Customer {{= trigger.name }} owes {{= sum(step1Output.records, r => r.amount) }}', context), 'Customer Acme owes 40');
+    assert.equal(evaluateTemplateExpressions('Missing: [{{= trigger.missing }}]', context), 'Missing: []');
+  });
+});
+
+describe('validateExpression', () => {
+  it('infers the result type', () => {
+    assert.deepEqual(validateExpression('sum([1, 2])'), { valid: true, errors: [], warnings: [], type: 'number' });
+    assert.equal(validateExpression("concat('a', 1)").type, 'string');
+  });
+
+  it('rejects unknown functions, wrong arity and type mismatches', () => {
+    assert.deepEqual(validateExpression('nope(1)').errors, ["Unknown function 'nope'"]);
+    assert.match(validateExpression('round()').errors[0], /takes 1-2 argument\(s\), got 0/);
+    assert.deepEqual(validateExpression("1 < 'a'").errors, ['Cannot compare number with string']);
+    assert.match(validateExpression('map([1], 2)').errors[0], /must be an arrow function/);
+  });
+
+  it('allows comparing a date with a string', () => {
+    assert.equal(validateExpression("dateAdd(now(), 7, 'days') < '2026-03-01'").valid, true);
+  });
+
+  it('warns about roots not produced by the trigger or an earlier step', () => {
+    const result = validateExpression('step2Output.total + 1', ['trigger.customer_id', 'step1Output']);
+    assert.equal(result.valid, true);
+    assert.deepEqual(result.warnings, ["'step2Output' is not produced by the trigger or an earlier step"]);
+    assert.deepEqual(validateExpression('map(step1Output, item => item.id)', ['step1Output']).warnings, []);
+  });
+});
+
+describe('validateStepExpressions', () => {
+  it('prefixes problems with the field path', () => {
+    const problems = validateStepExpressions({
+      url: 'https://example.com/{{= nope() }}',
+      headers: [{ value: '{{= 1 < "a" }}' }],
+      body: 'no expression here',
+    });
+    assert.deepEqual(problems, ["url: Unknown function 'nope'", 'headers[0].value: Cannot compare number with string']);
+  });
+
+  it('treats fields named expression as bare expressions', () => {
+    assert.deepEqual(validateStepExpressions({ expression: 'sum(' }, undefined, 'config'), [
+      "config.expression: Unexpected 'end of expression' (at position 4)",
+    ]);
+  });
+});
+
+describe('validateWorkflowExpressions', () => {
+  it('returns only the steps with problems', () => {
+    const steps = [
+      { id: 'a', name: 'Fetch', config: { url: '{{= trigger.url }}' } },
+      { id: 'b', config: { message: '{{= upper() }}' } },
+    ];
+    assert.deepEqual(validateWorkflowExpressions(steps), [
+      { stepId: 'b', stepName: 'Step 2', errors: ['config.message: upper(text) takes 1 argument(s), got 0'] },
+    ]);
+  });
+});
@@ -0,0 +1,931 @@
+/**
+ * Workflow Expression Language
+ *
+ * A small, sandboxed expression language for agent workflow step fields.
+ * Expressions are written as {{= expression }} and can use context paths
+ * (e.g. step1Output.records, trigger.customer_id), arithmetic, comparisons,
+ * null-coalescing (??), conditionals (a ? b : c), array literals and a fixed
+ * set of functions such as sum, map, filter, dateAdd and format.
+ *
+ * Expressions are parsed into an AST and interpreted - nothing is passed to
+ * eval/Function, prototype properties are not reachable and evaluation is
+ * bounded by a step budget. The same module is used by the server to evaluate
+ * expressions and by the workflow builder to validate them at save time.
+ */
+
+import { format as formatDate, isValid as isValidDate, addMonths, addYears } from 'date-fns';
+
+export type ExpressionType = 'number' | 'string' | 'boolean' | 'array' | 'object' | 'date' | 'null' | 'any';
+
+export interface ExpressionValidationResult {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+  type: ExpressionType;
+}
+
+export class ExpressionError extends Error {
+  constructor(message: string, public position?: number) {
+    super(position !== undefined ? `${message} (at position ${position})` : message);
+    this.name = 'ExpressionError';
+  }
+}
+
+/** Matches {{= expression }} markers inside a step field. */
+export const EXPRESSION_PATTERN = /\{\{=([\s\S]+?)\}\}/g;
+
+const MAX_EXPRESSION_LENGTH = 2000;
+const MAX_EVALUATION_STEPS = 100000;
+const FORBIDDEN_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+// ========================================
+// TOKENIZER
+// ========================================
+
+type TokenType = 'number' | 'string' | 'identifier' | 'punctuation' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const PUNCTUATION = ['=>', '??', '&&', '||', '==', '!=', '<=', '>=', '(', ')', '[', ']', ',', '.', '?', ':', '!', '<', '>', '+', '-', '*', '/', '%'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[i + 1] || ''))) {
+      const match = /^[0-9]*\.?[0-9]+(?:[eE][+-]?[0-9]+)?/.exec(source.slice(i))!;
+      tokens.push({ type: 'number', value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      let j = i + 1;
+      while (j < source.length && source[j] !== char) {
+        if (source[j] === '\\' && j + 1 < source.length) {
+          const escaped = source[j + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          j += 2;
+        } else {
+          value += source[j];
+          j++;
+        }
+      }
+      if (j >= source.length) {
+        throw new ExpressionError('Unterminated string', i);
+      }
+      tokens.push({ type: 'string', value, position: i });
+      i = j + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][\w$]*/.exec(source.slice(i))!;
+      tokens.push({ type: 'identifier', value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    const punctuation = PUNCTUATION.find(p => source.startsWith(p, i));
+    if (punctuation) {
+      tokens.push({ type: 'punctuation', value: punctuation, position: i });
+      i += punctuation.length;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character '${char}'`, i);
+  }
+
+  tokens.push({ type: 'eof', value: '', position: source.length });
+  return tokens;
+}
+
+// ========================================
+// PARSER
+// ========================================
+
+export type ExpressionNode =
+  | { kind: 'literal'; value: any }
+  | { kind: 'identifier'; name: string; position: number }
+  | { kind: 'member'; object: ExpressionNode; property: ExpressionNode; computed: boolean }
+  | { kind: 'unary'; operator: string; argument: ExpressionNode }
+  | { kind: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode; position: number }
+  | { kind: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+  | { kind: 'call'; name: string; args: ExpressionNode[]; position: number }
+  | { kind: 'lambda'; params: string[]; body: ExpressionNode }
+  | { kind: 'array'; elements: ExpressionNode[] };
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseExpression();
+    if (this.peek().type !== 'eof') {
+      throw new ExpressionError(`Unexpected '${this.peek().value}'`, this.peek().position);
+    }
+    return node;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isPunctuation(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'punctuation' && token.value === value;
+  }
+
+  private expect(value: string): Token {
+    if (!this.isPunctuation(value)) {
+      const token = this.peek();
+      throw new ExpressionError(`Expected '${value}' but found '${token.value || 'end of expression'}'`, token.position);
+    }
+    return this.next();
+  }
+
+  private parseExpression(): ExpressionNode {
+    const test = this.parseBinary(0);
+    if (this.isPunctuation('?')) {
+      this.next();
+      const consequent = this.parseExpression();
+      this.expect(':');
+      const alternate = this.parseExpression();
+      return { kind: 'conditional', test, consequent, alternate };
+    }
+    return test;
+  }
+
+  // Binary operators from lowest to highest precedence
+  private static readonly PRECEDENCE: string[][] = [
+    ['??'],
+    ['||'],
+    ['&&'],
+    ['==', '!='],
+    ['<', '<=', '>', '>='],
+    ['+', '-'],
+    ['*', '/', '%'],
+  ];
+
+  private parseBinary(level: number): ExpressionNode {
+    if (level >= Parser.PRECEDENCE.length) {
+      return this.parseUnary();
+    }
+
+    let left = this.parseBinary(level + 1);
+    while (this.peek().type === 'punctuation' && Parser.PRECEDENCE[level].includes(this.peek().value)) {
+      const operatorToken = this.next();
+      const right = this.parseBinary(level + 1);
+      left = { kind: 'binary', operator: operatorToken.value, left, right, position: operatorToken.position };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.isPunctuation('!') || this.isPunctuation('-')) {
+      const operator = this.next().value;
+      return { kind: 'unary', operator, argument: this.parseUnary() };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let node = this.parsePrimary();
+
+    while (true) {
+      if (this.isPunctuation('.')) {
+        this.next();
+        const token = this.next();
+        if (token.type !== 'identifier' && token.type !== 'number') {
+          throw new ExpressionError('Expected property name after \'.\'', token.position);
+        }
+        node = { kind: 'member', object: node, property: { kind: 'literal', value: token.value }, computed: false };
+      } else if (this.isPunctuation('[')) {
+        this.next();
+        const property = this.parseExpression();
+        this.expect(']');
+        node = { kind: 'member', object: node, property, computed: true };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.peek();
+
+    if (token.type === 'number') {
+      this.next();
+      return { kind: 'literal', value: Number(token.value) };
+    }
+
+    if (token.type === 'string') {
+      this.next();
+      return { kind: 'literal', value: token.value };
+    }
+
+    if (token.type === 'identifier') {
+      this.next();
+      if (token.value === 'true') return { kind: 'literal', value: true };
+      if (token.value === 'false') return { kind: 'literal', value: false };
+      if (token.value === 'null') return { kind: 'literal', value: null };
+
+      if (this.isPunctuation('(')) {
+        this.next();
+        const args: ExpressionNode[] = [];
+        while (!this.isPunctuation(')')) {
+          args.push(this.parseArgument());
+          if (!this.isPunctuation(')')) this.expect(',');
+        }
+        this.expect(')');
+        return { kind: 'call', name: token.value, args, position: token.position };
+      }
+
+      return { kind: 'identifier', name: token.value, position: token.position };
+    }
+
+    if (this.isPunctuation('(')) {
+      this.next();
+      const node = this.parseExpression();
+      this.expect(')');
+      return node;
+    }
+
+    if (this.isPunctuation('[')) {
+      this.next();
+      const elements: ExpressionNode[] = [];
+      while (!this.isPunctuation(']')) {
+        elements.push(this.parseExpression());
+        if (!this.isPunctuation(']')) this.expect(',');
+      }
+      this.expect(']');
+      return { kind: 'array', elements };
+    }
+
+    throw new ExpressionError(`Unexpected '${token.value || 'end of expression'}'`, token.position);
+  }
+
+  private parseArgument(): ExpressionNode {
+    // item => expr
+    if (this.peek().type === 'identifier' && this.isPunctuation('=>', 1)) {
+      const param = this.next().value;
+      this.next();
+      return { kind: 'lambda', params: [param], body: this.parseExpression() };
+    }
+
+    // (item, index) => expr
+    if (this.isPunctuation('(')) {
+      let offset = 1;
+      const params: string[] = [];
+      while (this.peek(offset).type === 'identifier') {
+        params.push(this.peek(offset).value);
+        offset++;
+        if (this.isPunctuation(',', offset)) offset++;
+      }
+      if (this.isPunctuation(')', offset) && this.isPunctuation('=>', offset + 1)) {
+        this.index += offset + 2;
+        return { kind: 'lambda', params, body: this.parseExpression() };
+      }
+    }
+
+    return this.parseExpression();
+  }
+}
+
+export function parseExpression(source: string): ExpressionNode {
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionError(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+  return new Parser(tokenize(source)).parse();
+}
+
+// ========================================
+// FUNCTIONS
+// ========================================
+
+type Lambda = (...args: any[]) => any;
+
+interface ExpressionFunction {
+  signature: string;
+  description: string;
+  minArgs: number;
+  maxArgs: number;
+  returns: ExpressionType;
+  /** Index of the argument that must be a lambda, if any */
+  lambdaArg?: number;
+  impl: (args: any[]) => any;
+}
+
+function toNumber(value: any, fn: string): number {
+  if (typeof value === 'number' && !isNaN(value)) return value;
+  throw new ExpressionError(`${fn}() expects a number, got ${describeType(value)}`);
+}
+
+function toArray(value: any, fn: string): any[] {
+  if (Array.isArray(value)) return value;
+  if (value === null || value === undefined) return [];
+  throw new ExpressionError(`${fn}() expects an array, got ${describeType(value)}`);
+}
+
+function toDate(value: any, fn: string): Date {
+  const date = value instanceof Date ? value : (typeof value === 'string' || typeof value === 'number') ? new Date(value) : null;
+  if (!date || !isValidDate(date)) {
+    throw new ExpressionError(`${fn}() expects a date, got ${describeType(value)}`);
+  }
+  return date;
+}
+
+// ISO dates as written in expressions ('2026-03-01') and as produced by now() and dateAdd()
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/** Timestamp of a Date or an ISO date string, or null for anything else */
+function comparableTime(value: any): number | null {
+  if (value instanceof Date) return isValidDate(value) ? value.getTime() : null;
+  if (typeof value !== 'string' || !ISO_DATE_PATTERN.test(value)) return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+const DATE_UNITS: Record<string, number> = {
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+  weeks: 7 * 24 * 60 * 60 * 1000,
+};
+
+function addToDate(date: Date, amount: number, unit: string): Date {
+  // Months and years clamp to the end of shorter months (Jan 31 + 1 month = Feb 28/29)
+  if (unit === 'months') return addMonths(date, amount);
+  if (unit === 'years') return addYears(date, amount);
+  if (DATE_UNITS[unit]) return new Date(date.getTime() + amount * DATE_UNITS[unit]);
+  throw new ExpressionError(`Unknown date unit '${unit}'. Use minutes, hours, days, weeks, months or years`);
+}
+
+export const EXPRESSION_FUNCTIONS: Record<string, ExpressionFunction> = {
+  sum: {
+    signature: 'sum(items, item => value?)', description: 'Sum of numbers, optionally mapped first',
+    minArgs: 1, maxArgs: 2, returns: 'number', lambdaArg: 1,
+    impl: ([items, fn]) => toArray(items, 'sum').reduce((total: number, item: any, i: number) => total + toNumber(fn ? fn(item, i) : item, 'sum'), 0),
+  },
+  avg: {
+    signature: 'avg(items, item => value?)', description: 'Average of numbers, null for an empty list',
+    minArgs: 1, maxArgs: 2, returns: 'number', lambdaArg: 1,
+    impl: ([items, fn]) => {
+      const list = toArray(items, 'avg');
+      if (list.length === 0) return null;
+      return list.reduce((total: number, item: any, i: number) => total + toNumber(fn ? fn(item, i) : item, 'avg'), 0) / list.length;
+    },
+  },
+  min: {
+    signature: 'min(items)', description: 'Smallest number in a list',
+    minArgs: 1, maxArgs: 1, returns: 'number',
+    impl: ([items]) => {
+      const list = toArray(items, 'min').map(v => toNumber(v, 'min'));
+      return list.length ? Math.min(...list) : null;
+    },
+  },
+  max: {
+    signature: 'max(items)', description: 'Largest number in a list',
+    minArgs: 1, maxArgs: 1, returns: 'number',
+    impl: ([items]) => {
+      const list = toArray(items, 'max').map(v => toNumber(v, 'max'));
+      return list.length ? Math.max(...list) : null;
+    },
+  },
+  count: {
+    signature: 'count(items, item => condition?)', description: 'Number of items, optionally only those matching a condition',
+    minArgs: 1, maxArgs: 2, returns: 'number', lambdaArg: 1,
+    impl: ([items, fn]) => toArray(items, 'count').filter((item, i) => (fn ? !!fn(item, i) : true)).length,
+  },
+  map: {
+    signature: 'map(items, item => value)', description: 'Transform each item of a list',
+    minArgs: 2, maxArgs: 2, returns: 'array', lambdaArg: 1,
+    impl: ([items, fn]) => toArray(items, 'map').map((item, i) => fn(item, i)),
+  },
+  filter: {
+    signature: 'filter(items, item => condition)', description: 'Items matching a condition',
+    minArgs: 2, maxArgs: 2, returns: 'array', lambdaArg: 1,
+    impl: ([items, fn]) => toArray(items, 'filter').filter((item, i) => !!fn(item, i)),
+  },
+  find: {
+    signature: 'find(items, item => condition)', description: 'First item matching a condition, or null',
+    minArgs: 2, maxArgs: 2, returns: 'any', lambdaArg: 1,
+    impl: ([items, fn]) => toArray(items, 'find').find((item, i) => !!fn(item, i)) ?? null,
+  },
+  first: {
+    signature: 'first(items)', description: 'First item of a list, or null',
+    minArgs: 1, maxArgs: 1, returns: 'any',
+    impl: ([items]) => toArray(items, 'first')[0] ?? null,
+  },
+  last: {
+    signature: 'last(items)', description: 'Last item of a list, or null',
+    minArgs: 1, maxArgs: 1, returns: 'any',
+    impl: ([items]) => {
+      const list = toArray(items, 'last');
+      return list.length ? list[list.length - 1] : null;
+    },
+  },
+  join: {
+    signature: 'join(items, separator?)', description: 'Join a list into a string',
+    minArgs: 1, maxArgs: 2, returns: 'string',
+    impl: ([items, separator]) => toArray(items, 'join').join(separator ?? ', '),
+  },
+  len: {
+    signature: 'len(value)', description: 'Length of a string or list',
+    minArgs: 1, maxArgs: 1, returns: 'number',
+    impl: ([value]) => {
+      if (typeof value === 'string' || Array.isArray(value)) return value.length;
+      if (value === null || value === undefined) return 0;
+      throw new ExpressionError(`len() expects a string or array, got ${describeType(value)}`);
+    },
+  },
+  contains: {
+    signature: 'contains(haystack, needle)', description: 'Whether a string or list contains a value',
+    minArgs: 2, maxArgs: 2, returns: 'boolean',
+    impl: ([haystack, needle]) => {
+      if (typeof haystack === 'string') return haystack.toLowerCase().includes(String(needle).toLowerCase());
+      return toArray(haystack, 'contains').includes(needle);
+    },
+  },
+  keys: {
+    signature: 'keys(object)', description: 'Property names of an object',
+    minArgs: 1, maxArgs: 1, returns: 'array',
+    impl: ([value]) => (value && typeof value === 'object' && !Array.isArray(value) ? Object.keys(value) : []),
+  },
+  coalesce: {
+    signature: 'coalesce(a, b, ...)', description: 'First value that is not null',
+    minArgs: 1, maxArgs: 20, returns: 'any',
+    impl: (args) => args.find(arg => arg !== null && arg !== undefined) ?? null,
+  },
+  lower: {
+    signature: 'lower(text)', description: 'Lower-case a string',
+    minArgs: 1, maxArgs: 1, returns: 'string',
+    impl: ([text]) => String(text ?? '').toLowerCase(),
+  },
+  upper: {
+    signature: 'upper(text)', description: 'Upper-case a string',
+    minArgs: 1, maxArgs: 1, returns: 'string',
+    impl: ([text]) => String(text ?? '').toUpperCase(),
+  },
+  trim: {
+    signature: 'trim(text)', description: 'Remove surrounding whitespace',
+    minArgs: 1, maxArgs: 1, returns: 'string',
+    impl: ([text]) => String(text ?? '').trim(),
+  },
+  concat: {
+    signature: 'concat(a, b, ...)', description: 'Join values into one string',
+    minArgs: 1, maxArgs: 20, returns: 'string',
+    impl: (args) => args.map(arg => (arg === null || arg === undefined ? '' : String(arg))).join(''),
+  },
+  number: {
+    signature: 'number(value)', description: 'Convert a value to a number, null if it is not numeric',
+    minArgs: 1, maxArgs: 1, returns: 'number',
+    impl: ([value]) => {
+      if (value === null || value === undefined || value === '') return null;
+      const parsed = Number(value);
+      return isNaN(parsed) ? null : parsed;
+    },
+  },
+  string: {
+    signature: 'string(value)', description: 'Convert a value to a string',
+    minArgs: 1, maxArgs: 1, returns: 'string',
+    impl: ([value]) => (value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value)),
+  },
+  round: {
+    signature: 'round(value, decimals?)', description: 'Round to a number of decimal places',
+    minArgs: 1, maxArgs: 2, returns: 'number',
+    impl: ([value, decimals]) => {
+      const factor = Math.pow(10, decimals ? toNumber(decimals, 'round') : 0);
+      return Math.round(toNumber(value, 'round') * factor) / factor;
+    },
+  },
+  floor: {
+    signature: 'floor(value)', description: 'Round down',
+    minArgs: 1, maxArgs: 1, returns: 'number',
+    impl: ([value]) => Math.floor(toNumber(value, 'floor')),
+  },
+  ceil: {
+    signature: 'ceil(value)', description: 'Round up',
+    minArgs: 1, maxArgs: 1, returns: 'number',
+    impl: ([value]) => Math.ceil(toNumber(value, 'ceil')),
+  },
+  abs: {
+    signature: 'abs(value)', description: 'Absolute value',
+    minArgs: 1, maxArgs: 1, returns: 'number',
+    impl: ([value]) => Math.abs(toNumber(value, 'abs')),
+  },
+  now: {
+    signature: 'now()', description: 'Current date and time',
+    minArgs: 0, maxArgs: 0, returns: 'date',
+    impl: () => new Date().toISOString(),
+  },
+  dateAdd: {
+    signature: "dateAdd(date, amount, 'days')", description: 'Add minutes, hours, days, weeks, months or years to a date',
+    minArgs: 3, maxArgs: 3, returns: 'date',
+    impl: ([date, amount, unit]) => addToDate(toDate(date, 'dateAdd'), toNumber(amount, 'dateAdd'), String(unit)).toISOString(),
+  },
+  dateDiff: {
+    signature: "dateDiff(from, to, 'days')", description: 'Whole units between two dates',
+    minArgs: 3, maxArgs: 3, returns: 'number',
+    impl: ([from, to, unit]) => {
+      const start = toDate(from, 'dateDiff');
+      const end = toDate(to, 'dateDiff');
+      if (unit === 'months' || unit === 'years') {
+        const months = (end.getFullYear() - start.getFullYear()) * 12 + (end.getMonth() - start.getMonth());
+        return unit === 'years' ? Math.trunc(months / 12) : months;
+      }
+      if (!DATE_UNITS[unit]) {
+        throw new ExpressionError(`Unknown date unit '${unit}'. Use minutes, hours, days, weeks, months or years`);
+      }
+      return Math.trunc((end.getTime() - start.getTime()) / DATE_UNITS[unit]);
+    },
+  },
+  format: {
+    signature: "format(value, pattern)", description: "Format a date ('yyyy-MM-dd') or a number ('0.00')",
+    minArgs: 2, maxArgs: 2, returns: 'string',
+    impl: ([value, pattern]) => {
+      if (typeof value === 'number') {
+        const decimals = /\.(0+)$/.exec(String(pattern))?.[1].length ?? 0;
+        return value.toFixed(decimals);
+      }
+      return formatDate(toDate(value, 'format'), String(pattern));
+    },
+  },
+};
+
+// ========================================
+// EVALUATION
+// ========================================
+
+function describeType(value: any): ExpressionType {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (value instanceof Date) return 'date';
+  if (typeof value === 'object') return 'object';
+  return typeof value as ExpressionType;
+}
+
+function readProperty(object: any, property: any): any {
+  if (object === null || object === undefined) return undefined;
+  const key = String(property);
+  if (FORBIDDEN_PROPERTIES.has(key)) {
+    throw new ExpressionError(`Access to '${key}' is not allowed`);
+  }
+  if (typeof object === 'string' && key === 'length') return object.length;
+  if (typeof object !== 'object') return undefined;
+  return Object.prototype.hasOwnProperty.call(object, key) ? object[key] : undefined;
+}
+
+class Evaluator {
+  private steps = 0;
+
+  constructor(private context: Record<string, any>) {}
+
+  evaluate(node: ExpressionNode, scope: Map<string, any>): any {
+    if (++this.steps > MAX_EVALUATION_STEPS) {
+      throw new ExpressionError('Expression is too expensive to evaluate');
+    }
+
+    switch (node.kind) {
+      case 'literal':
+        return node.value;
+
+      case 'identifier':
+        if (scope.has(node.name)) return scope.get(node.name);
+        return readProperty(this.context, node.name);
+
+      case 'member':
+        return readProperty(
+          this.evaluate(node.object, scope),
+          node.computed ? this.evaluate(node.property, scope) : (node.property as any).value
+        );
+
+      case 'array':
+        return node.elements.map(element => this.evaluate(element, scope));
+
+      case 'unary': {
+        const value = this.evaluate(node.argument, scope);
+        if (node.operator === '!') return !value;
+        if (typeof value !== 'number') {
+          throw new ExpressionError(`Operator - expects a number, got ${describeType(value)}`);
+        }
+        return -value;
+      }
+
+      case 'conditional':
+        return this.evaluate(node.test, scope)
+          ? this.evaluate(node.consequent, scope)
+          : this.evaluate(node.alternate, scope);
+
+      case 'binary':
+        return this.evaluateBinary(node, scope);
+
+      case 'call': {
+        const fn = EXPRESSION_FUNCTIONS[node.name];
+        if (!fn) {
+          throw new ExpressionError(`Unknown function '${node.name}'`, node.position);
+        }
+        if (node.args.length < fn.minArgs || node.args.length > fn.maxArgs) {
+          throw new ExpressionError(`${fn.signature} got ${node.args.length} argument(s)`, node.position);
+        }
+        if (fn.lambdaArg !== undefined && node.args[fn.lambdaArg] && node.args[fn.lambdaArg].kind !== 'lambda') {
+          throw new ExpressionError(`Argument ${fn.lambdaArg + 1} of ${node.name}() must be an arrow function`, node.position);
+        }
+        const args = node.args.map(arg => (arg.kind === 'lambda' ? this.makeLambda(arg, scope) : this.evaluate(arg, scope)));
+        return fn.impl(args);
+      }
+
+      case 'lambda':
+        throw new ExpressionError('Arrow functions can only be passed to functions like map or filter');
+    }
+  }
+
+  private makeLambda(node: Extract<ExpressionNode, { kind: 'lambda' }>, scope: Map<string, any>): Lambda {
+    return (...args: any[]) => {
+      const inner = new Map(scope);
+      node.params.forEach((param, i) => inner.set(param, args[i]));
+      return this.evaluate(node.body, inner);
+    };
+  }
+
+  private evaluateBinary(node: Extract<ExpressionNode, { kind: 'binary' }>, scope: Map<string, any>): any {
+    const { operator } = node;
+
+    // Short-circuit operators
+    if (operator === '&&') return this.evaluate(node.left, scope) && this.evaluate(node.right, scope);
+    if (operator === '||') return this.evaluate(node.left, scope) || this.evaluate(node.right, scope);
+    if (operator === '??') return this.evaluate(node.left, scope) ?? this.evaluate(node.right, scope);
+
+    const left = this.evaluate(node.left, scope);
+    const right = this.evaluate(node.right, scope);
+
+    switch (operator) {
+      case '==':
+        return left === right || (left == null && right == null);
+      case '!=':
+        return !(left === right || (left == null && right == null));
+      case '+':
+        if (typeof left === 'number' && typeof right === 'number') return left + right;
+        if (typeof left === 'string' || typeof right === 'string') {
+          return `${left ?? ''}${right ?? ''}`;
+        }
+        throw new ExpressionError(`Operator + expects numbers or strings, got ${describeType(left)} and ${describeType(right)}`, node.position);
+      case '-':
+      case '*':
+      case '/':
+      case '%':
+        if (typeof left !== 'number' || typeof right !== 'number') {
+          throw new ExpressionError(`Operator ${operator} expects numbers, got ${describeType(left)} and ${describeType(right)}. Use number() to convert`, node.position);
+        }
+        if (operator === '-') return left - right;
+        if (operator === '*') return left * right;
+        // Division by zero yields null so it can be handled with ??
+        if (right === 0) return null;
+        return operator === '/' ? left / right : left % right;
+      case '<':
+      case '<=':
+      case '>':
+      case '>=': {
+        if (left === null || left === undefined || right === null || right === undefined) return false;
+        // Dates compare by time, whether they are Date values or ISO strings like '2026-03-01'
+        const leftTime = comparableTime(left);
+        const rightTime = comparableTime(right);
+        if (leftTime !== null && rightTime !== null) {
+          if (operator === '<') return leftTime < rightTime;
+          if (operator === '<=') return leftTime <= rightTime;
+          if (operator === '>') return leftTime > rightTime;
+          return leftTime >= rightTime;
+        }
+        if (typeof left !== typeof right) {
+          throw new ExpressionError(`Cannot compare ${describeType(left)} with ${describeType(right)}`, node.position);
+        }
+        if (operator === '<') return left < right;
+        if (operator === '<=') return left <= right;
+        if (operator === '>') return left > right;
+        return left >= right;
+      }
+      default:
+        throw new ExpressionError(`Unknown operator '${operator}'`, node.position);
+    }
+  }
+}
+
+/**
+ * Evaluate a single expression (without the {{= }} marker) against a context.
+ */
+export function evaluateExpression(source: string, context: Record<string, any>): any {
+  const value = new Evaluator(context).evaluate(parseExpression(source), new Map());
+  return value === undefined ? null : value;
+}
+
+/**
+ * Replace {{= expression }} markers in a template. When the whole template is a
+ * single expression its typed value is returned as-is (number, array, ...);
+ * otherwise each result is converted to text.
+ */
+export function evaluateTemplateExpressions(template: string, context: Record<string, any>): any {
+  const trimmed = template.trim();
+  const single = /^\{\{=([\s\S]+?)\}\}$/.exec(trimmed);
+  if (single && !single[1].includes('}}')) {
+    return evaluateExpression(single[1].trim(), context);
+  }
+
+  return template.replace(EXPRESSION_PATTERN, (_match, source: string) => {
+    const value = evaluateExpression(source.trim(), context);
+    if (value === null) return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  });
+}
+
+export function containsExpression(value: unknown): value is string {
+  return typeof value === 'string' && value.includes('{{=');
+}
+
+// ========================================
+// STATIC VALIDATION
+// ========================================
+
+function inferType(node: ExpressionNode, errors: string[], warnings: string[], knownRoots: Set<string> | null, scope: Set<string>): ExpressionType {
+  switch (node.kind) {
+    case 'literal':
+      return describeType(node.value);
+
+    case 'identifier':
+      if (!scope.has(node.name) && knownRoots && !knownRoots.has(node.name)) {
+        warnings.push(`'${node.name}' is not produced by the trigger or an earlier step`);
+      }
+      return 'any';
+
+    case 'member':
+      inferType(node.object, errors, warnings, knownRoots, scope);
+      if (node.computed) inferType(node.property, errors, warnings, knownRoots, scope);
+      return 'any';
+
+    case 'array':
+      node.elements.forEach(element => inferType(element, errors, warnings, knownRoots, scope));
+      return 'array';
+
+    case 'unary': {
+      const argType = inferType(node.argument, errors, warnings, knownRoots, scope);
+      if (node.operator === '-' && argType !== 'any' && argType !== 'number') {
+        errors.push(`Operator - expects a number, got ${argType}`);
+      }
+      return node.operator === '!' ? 'boolean' : 'number';
+    }
+
+    case 'conditional': {
+      inferType(node.test, errors, warnings, knownRoots, scope);
+      const a = inferType(node.consequent, errors, warnings, knownRoots, scope);
+      const b = inferType(node.alternate, errors, warnings, knownRoots, scope);
+      return a === b ? a : 'any';
+    }
+
+    case 'binary': {
+      const left = inferType(node.left, errors, warnings, knownRoots, scope);
+      const right = inferType(node.right, errors, warnings, knownRoots, scope);
+      const known = left !== 'any' && right !== 'any';
+      switch (node.operator) {
+        case '&&':
+        case '||':
+        case '??':
+          return left === right ? left : 'any';
+        case '==':
+        case '!=':
+        case '<':
+        case '<=':
+        case '>':
+        case '>=':
+          // A date can be compared with a string holding an ISO date, e.g. dateAdd(now(), 7, 'days') < '2026-03-01'
+          const dateWithString = (left === 'date' && right === 'string') || (left === 'string' && right === 'date');
+          if (['<', '<=', '>', '>='].includes(node.operator) && known && left !== right && !dateWithString && left !== 'null' && right !== 'null') {
+            errors.push(`Cannot compare ${left} with ${right}`);
+          }
+          return 'boolean';
+        case '+':
+          if (left === 'string' || right === 'string') return 'string';
+          if (known && (left !== 'number' || right !== 'number')) {
+            errors.push(`Operator + expects numbers or strings, got ${left} and ${right}`);
+          }
+          return known ? 'number' : 'any';
+        default:
+          if ((left !== 'any' && left !== 'number') || (right !== 'any' && right !== 'number')) {
+            errors.push(`Operator ${node.operator} expects numbers, got ${left} and ${right}`);
+          }
+          return 'number';
+      }
+    }
+
+    case 'call': {
+      const fn = EXPRESSION_FUNCTIONS[node.name];
+      if (!fn) {
+        errors.push(`Unknown function '${node.name}'`);
+        return 'any';
+      }
+      if (node.args.length < fn.minArgs || node.args.length > fn.maxArgs) {
+        errors.push(`${fn.signature} takes ${fn.minArgs === fn.maxArgs ? fn.minArgs : `${fn.minArgs}-${fn.maxArgs}`} argument(s), got ${node.args.length}`);
+      }
+      node.args.forEach((arg, i) => {
+        if (arg.kind === 'lambda') {
+          if (fn.lambdaArg !== i) {
+            errors.push(`${node.name}() does not take an arrow function as argument ${i + 1}`);
+          }
+          const inner = new Set(scope);
+          arg.params.forEach(param => inner.add(param));
+          inferType(arg.body, errors, warnings, knownRoots, inner);
+        } else {
+          if (fn.lambdaArg === i && fn.minArgs > i) {
+            errors.push(`Argument ${i + 1} of ${node.name}() must be an arrow function, e.g. item => item.value`);
+          }
+          inferType(arg, errors, warnings, knownRoots, scope);
+        }
+      });
+      return fn.returns;
+    }
+
+    case 'lambda':
+      errors.push('Arrow functions can only be passed to functions like map or filter');
+      return 'any';
+  }
+}
+
+/**
+ * Validate an expression without evaluating it. When knownPaths is given,
+ * root identifiers that do not match one of them produce a warning.
+ */
+export function validateExpression(source: string, knownPaths?: string[]): ExpressionValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  let node: ExpressionNode;
+  try {
+    node = parseExpression(source);
+  } catch (error: any) {
+    return { valid: false, errors: [error.message], warnings, type: 'any' };
+  }
+
+  const knownRoots = knownPaths ? new Set(knownPaths.map(path => path.split(/[.[]/)[0])) : null;
+  const type = inferType(node, errors, warnings, knownRoots, new Set());
+
+  return { valid: errors.length === 0, errors, warnings, type };
+}
+
+/**
+ * Validate every {{= }} expression found in a (nested) step configuration.
+ * Fields named `expression` hold a bare expression without the marker.
+ * Returns one message per invalid expression, prefixed with its field path.
+ */
+export function validateStepExpressions(config: any, knownPaths?: string[], fieldPath = ''): string[] {
+  const problems: string[] = [];
+
+  if (typeof config === 'string') {
+    const isBareExpression = /(^|\.)expression$/.test(fieldPath) && config.trim() !== '' && !containsExpression(config);
+    if (isBareExpression) {
+      validateExpression(config, knownPaths).errors.forEach(error => problems.push(`${fieldPath}: ${error}`));
+      return problems;
+    }
+    for (const match of Array.from(config.matchAll(EXPRESSION_PATTERN))) {
+      const result = validateExpression(match[1].trim(), knownPaths);
+      result.errors.forEach(error => problems.push(`${fieldPath || 'value'}: ${error}`));
+    }
+  } else if (Array.isArray(config)) {
+    config.forEach((item, i) => problems.push(...validateStepExpressions(item, knownPaths, `${fieldPath}[${i}]`)));
+  } else if (config && typeof config === 'object') {
+    for (const [key, value] of Object.entries(config)) {
+      problems.push(...validateStepExpressions(value, knownPaths, fieldPath ? `${fieldPath}.${key}` : key));
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Validate the expressions of every step in a workflow definition.
+ * Only steps with problems are returned.
+ */
+export function validateWorkflowExpressions(steps: any[]): Array<{ stepId: string; stepName: string; errors: string[] }> {
+  return (steps || [])
+    .map((step: any, index: number) => ({
+      stepId: step?.id,
+      stepName: step?.name || `Step ${index + 1}`,
+      errors: validateStepExpressions(step?.config, undefined, 'config'),
+    }))
+    .filter(result => result.errors.length > 0);
+}
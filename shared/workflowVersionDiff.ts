@@ -0,0 +1,163 @@
+/**
+ * Workflow Version Diff
+ *
+ * Compares two published versions of an agent workflow or workflow template.
+ * Steps are matched by their id (falling back to position for steps without
+ * one), so a step that was edited and dragged elsewhere shows up as modified
+ * and moved rather than as a removal plus an addition. Used by the server when
+ * describing a publish and by the step builders to render the version diff.
+ */
+
+export type StepChangeKind = 'added' | 'removed' | 'modified' | 'moved' | 'unchanged';
+
+export interface FieldChange {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface StepDiff {
+  kind: StepChangeKind;
+  stepId: string;
+  label: string;
+  type?: string;
+  beforeIndex: number | null;
+  afterIndex: number | null;
+  moved: boolean;
+  changes: FieldChange[];
+}
+
+export interface WorkflowVersionDiff {
+  fields: FieldChange[];
+  steps: StepDiff[];
+  summary: { added: number; removed: number; modified: number; moved: number };
+}
+
+export interface VersionSnapshot {
+  fields: Record<string, unknown>;
+  steps: any[];
+}
+
+/** Snapshot of an agent workflow version (or the workflow record itself) for diffing */
+export function agentWorkflowSnapshot(version: Record<string, any>): VersionSnapshot {
+  const { name, description, triggerType, triggerConfig, retryConfig, executionTimeout, workflowDefinition } = version;
+  return { fields: { name, description, triggerType, triggerConfig, retryConfig, executionTimeout }, steps: workflowDefinition || [] };
+}
+
+/** Snapshot of a workflow template version (or the template itself) for diffing */
+export function workflowTemplateSnapshot(version: Record<string, any>): VersionSnapshot {
+  const { name, description, category, applicableTypes, completionCallbacks, estimatedMinutes, steps } = version;
+  return { fields: { name, description, category, applicableTypes, completionCallbacks, estimatedMinutes }, steps: steps || [] };
+}
+
+// Position is reported through beforeIndex/afterIndex, not as a field change
+const IGNORED_STEP_FIELDS = new Set(['order']);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  // Treat missing and empty as the same so saving an untouched form is not a change
+  if ((a === undefined || a === null || a === '') && (b === undefined || b === null || b === '')) return true;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Leaf-level differences between two values. Objects are walked; arrays are compared whole. */
+export function diffValues(before: unknown, after: unknown, path = '', ignore?: Set<string>): FieldChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+    return keys
+      .filter(key => !(path === '' && ignore?.has(key)))
+      .flatMap(key => diffValues(before[key], after[key], path ? `${path}.${key}` : key));
+  }
+  return isEqual(before, after) ? [] : [{ path: path || '(value)', before, after }];
+}
+
+function stepKey(step: any, index: number): string {
+  return step?.id ? String(step.id) : `#${index}`;
+}
+
+function stepLabel(step: any, index: number): string {
+  return step?.name || step?.title || step?.label || step?.type || `Step ${index + 1}`;
+}
+
+export function diffWorkflowVersions(before: VersionSnapshot, after: VersionSnapshot): WorkflowVersionDiff {
+  const beforeSteps = before.steps || [];
+  const afterSteps = after.steps || [];
+  const beforeKeys = beforeSteps.map(stepKey);
+  const afterKeys = afterSteps.map(stepKey);
+  const beforeByKey = new Map(beforeKeys.map((key, index) => [key, index]));
+  const afterKeySet = new Set(afterKeys);
+
+  // A kept step moved if its position among the other kept steps changed
+  const keptBefore = beforeKeys.filter(key => afterKeySet.has(key));
+  const keptAfter = afterKeys.filter(key => beforeByKey.has(key));
+  const keptBeforeRank = new Map(keptBefore.map((key, rank) => [key, rank]));
+
+  const steps: StepDiff[] = [];
+
+  afterSteps.forEach((step, afterIndex) => {
+    const key = afterKeys[afterIndex];
+    const beforeIndex = beforeByKey.get(key);
+
+    if (beforeIndex === undefined) {
+      steps.push({ kind: 'added', stepId: key, label: stepLabel(step, afterIndex), type: step?.type, beforeIndex: null, afterIndex, moved: false, changes: [] });
+      return;
+    }
+
+    const changes = diffValues(beforeSteps[beforeIndex], step, '', IGNORED_STEP_FIELDS);
+    const moved = keptBeforeRank.get(key) !== keptAfter.indexOf(key);
+    steps.push({
+      kind: changes.length > 0 ? 'modified' : moved ? 'moved' : 'unchanged',
+      stepId: key,
+      label: stepLabel(step, afterIndex),
+      type: step?.type,
+      beforeIndex,
+      afterIndex,
+      moved,
+      changes,
+    });
+  });
+
+  // Removed steps are listed after the step that preceded them in the old version
+  beforeSteps.forEach((step, beforeIndex) => {
+    const key = beforeKeys[beforeIndex];
+    if (afterKeySet.has(key)) return;
+
+    const removed: StepDiff = { kind: 'removed', stepId: key, label: stepLabel(step, beforeIndex), type: step?.type, beforeIndex, afterIndex: null, moved: false, changes: [] };
+    const insertAt = steps.findIndex(entry => entry.beforeIndex !== null && entry.beforeIndex > beforeIndex);
+    if (insertAt === -1) {
+      steps.push(removed);
+    } else {
+      steps.splice(insertAt, 0, removed);
+    }
+  });
+
+  return {
+    fields: diffValues(before.fields, after.fields),
+    steps,
+    summary: {
+      added: steps.filter(step => step.kind === 'added').length,
+      removed: steps.filter(step => step.kind === 'removed').length,
+      modified: steps.filter(step => step.kind === 'modified').length,
+      moved: steps.filter(step => step.moved).length,
+    },
+  };
+}
+
+/** One-line description of a diff, e.g. "2 steps added, 1 step modified, name changed" */
+export function describeVersionDiff(diff: WorkflowVersionDiff): string {
+  const parts: string[] = [];
+  const { added, removed, modified, moved } = diff.summary;
+  if (added) parts.push(`${added} step${added === 1 ? '' : 's'} added`);
+  if (removed) parts.push(`${removed} step${removed === 1 ? '' : 's'} removed`);
+  if (modified) parts.push(`${modified} step${modified === 1 ? '' : 's'} modified`);
+  if (moved) parts.push(`${moved} step${moved === 1 ? '' : 's'} moved`);
+
+  const changedFields = Array.from(new Set(diff.fields.map(change => change.path.split('.')[0])));
+  if (changedFields.length > 0) parts.push(`${changedFields.join(', ')} changed`);
+
+  return parts.length > 0 ? parts.join(', ') : 'No changes';
+}